@@ -0,0 +1,53 @@
+/**
+ * 构建进度实时推送（Server-Sent Events）
+ * 推送 BUILD_STAGES 阶段变化（含中英文阶段标签），构建结束后关闭连接
+ * 后端（Supabase / CloudBase）按当前部署版本选择
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { IS_DOMESTIC_VERSION } from "@/config";
+import { buildBackends } from "@/lib/services/build-orchestrator/backends";
+import { createBuildEventStream, createBuildProgressReader } from "@/lib/services/build-events";
+import type { BuildBackendKind } from "@/lib/services/build-orchestrator";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const kind: BuildBackendKind = IS_DOMESTIC_VERSION ? "cloudbase" : "supabase";
+
+    const authResult = await buildBackends[kind].authenticate();
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: "Unauthorized", message: "Please login to view build progress" },
+        { status: authResult.error.status }
+      );
+    }
+
+    const read = await createBuildProgressReader(kind, authResult.data.userId, id);
+    if (!(await read())) {
+      return NextResponse.json({ error: "Not found", message: "Build not found" }, { status: 404 });
+    }
+
+    return new Response(createBuildEventStream(read, request.signal), {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        // 关闭 Nginx 等反向代理的缓冲，保证事件即时送达
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    console.error("Build events API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "An unexpected error occurred" },
+      { status: 500 }
+    );
+  }
+}
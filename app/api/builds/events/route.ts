@@ -0,0 +1,46 @@
+/**
+ * 当前用户所有构建中记录的进度推送（Server-Sent Events）
+ * 构建列表页只建立这一条连接，事件携带 buildId；构建结束时推送 done，连接保持到客户端断开
+ * 后端（Supabase / CloudBase）按当前部署版本选择
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { IS_DOMESTIC_VERSION } from "@/config";
+import { buildBackends } from "@/lib/services/build-orchestrator/backends";
+import { createActiveBuildsEventStream, createActiveBuildsReader } from "@/lib/services/build-events";
+import type { BuildBackendKind } from "@/lib/services/build-orchestrator";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  try {
+    const kind: BuildBackendKind = IS_DOMESTIC_VERSION ? "cloudbase" : "supabase";
+
+    const authResult = await buildBackends[kind].authenticate();
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: "Unauthorized", message: "Please login to view build progress" },
+        { status: authResult.error.status }
+      );
+    }
+
+    const read = await createActiveBuildsReader(kind, authResult.data.userId);
+
+    return new Response(createActiveBuildsEventStream(read, request.signal), {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        // 关闭 Nginx 等反向代理的缓冲，保证事件即时送达
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    console.error("Build events API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "An unexpected error occurred" },
+      { status: 500 }
+    );
+  }
+}
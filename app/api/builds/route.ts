@@ -0,0 +1,17 @@
+/**
+ * 统一构建入口
+ * 表单 platform 字段选择平台，后端（Supabase / CloudBase）按当前部署版本选择
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getBuildOrchestrator } from "@/lib/services/build-orchestrator";
+
+export const maxDuration = 120;
+
+export async function GET() {
+  return NextResponse.json({ platforms: getBuildOrchestrator().getPlatforms() });
+}
+
+export async function POST(request: NextRequest) {
+  return getBuildOrchestrator().handle(request);
+}
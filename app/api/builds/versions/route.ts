@@ -0,0 +1,61 @@
+/**
+ * 版本号历史 API
+ * 返回某个应用（平台 + 包名）上次发放的版本号、留空时将使用的版本号和最近的构建记录
+ * 后端（Supabase / CloudBase）按当前部署版本选择
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { IS_DOMESTIC_VERSION } from "@/config";
+import { getVersionTrack, isVersionTrack, VERSION_TRACKS } from "@/lib/config/version-codes";
+import { buildBackends } from "@/lib/services/build-orchestrator/backends";
+import { getVersionCodeStore } from "@/lib/services/version-codes";
+
+const HISTORY_LIMIT = 20;
+
+/**
+ * GET /api/builds/versions?platform=android&packageId=com.example.app
+ * platform 可以是版本号序列（android / ios / harmonyos）或具体构建平台（如 android-apk）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await buildBackends[IS_DOMESTIC_VERSION ? "cloudbase" : "supabase"].authenticate();
+    if (!authResult.success) {
+      return NextResponse.json(authResult.error.body, { status: authResult.error.status });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const platform = searchParams.get("platform") || "";
+    const packageId = searchParams.get("packageId")?.trim() || "";
+    const track = isVersionTrack(platform) ? platform : getVersionTrack(platform);
+    if (!track) {
+      return NextResponse.json(
+        { error: "Invalid platform", message: `platform must be one of: ${VERSION_TRACKS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (!packageId) {
+      return NextResponse.json({ error: "Missing required fields", message: "packageId is required" }, { status: 400 });
+    }
+
+    const { userId } = authResult.data;
+    const store = getVersionCodeStore();
+    const [lastVersionCode, history] = await Promise.all([
+      store.getLast(userId, track, packageId),
+      store.listHistory(userId, track, packageId, HISTORY_LIMIT),
+    ]);
+
+    return NextResponse.json({
+      track,
+      packageId,
+      lastVersionCode,
+      nextVersionCode: (lastVersionCode ?? 0) + 1,
+      history,
+    });
+  } catch (error) {
+    console.error("[Builds API] Version history error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "An unexpected error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 /**
  * 国内版 Android APK 构建 API（兼容国际版 Supabase 认证）
- * 使用 GitHub Actions 编译 APK
+ * 使用 GitHub Actions 编译 APK（debug；release 时同时产出签名 APK 和 AAB）
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -9,7 +9,25 @@ import { deductBuildQuota, checkBuildQuota, getEffectiveSupabaseUserWallet, refu
 import { getPlanBuildExpireDays } from "@/utils/plan-limits";
 import { CloudBaseConnector } from "@/lib/cloudbase/connector";
 import { processAndroidBuild } from "@/lib/services/android-builder";
-import { triggerGitHubBuild } from "@/lib/services/github-builder";
+import { parseAndroidAdvancedConfig, type AndroidAdvancedConfig } from "@/lib/config/android-advanced";
+import { parseNativeShellConfig, type NativeShellConfig } from "@/lib/config/native-shell";
+import { parsePushConfig, getPushProvider, type PushConfig } from "@/lib/config/push-notifications";
+import { parseBuildConfigSnapshot } from "@/lib/builds/config-snapshot";
+import { parseIconStyleConfig, type IconStyleConfig } from "@/lib/config/icon-style";
+import { parseDeepLinkConfig, type DeepLinkConfig } from "@/lib/config/deep-links";
+import { triggerGitHubBuild, cancelGitHubBuild } from "@/lib/services/github-builder";
+import { buildLog, createBuildLogSink, runWithBuildLog } from "@/lib/services/build-logs";
+import { validateVersionCodeInput } from "@/lib/config/version-codes";
+import { getVersionCodeStore, issueVersionCode } from "@/lib/services/version-codes";
+import { isBuildCancelled } from "@/lib/services/build-cancellation";
+import {
+  parseKeystoreUpload,
+  checkAndroidReleaseSigning,
+  prepareAndroidReleaseSigning,
+  isAndroidSigningConfigured,
+  type AndroidBuildType,
+  type KeystoreUpload,
+} from "@/lib/services/android-signing";
 import { waitUntil } from "@vercel/functions";
 
 export const maxDuration = 300; // APK 构建需要更长时间
@@ -33,8 +51,9 @@ export async function POST(request: NextRequest) {
     const appName = formData.get("appName") as string;
     const packageName = formData.get("packageName") as string;
     const versionName = formData.get("versionName") as string || "1.0.0";
-    const versionCode = formData.get("versionCode") as string || "1";
+    const requestedVersionCode = formData.get("versionCode") as string || "";
     const privacyPolicy = formData.get("privacyPolicy") as string || "";
+    const buildType: AndroidBuildType = formData.get("buildType") === "release" ? "release" : "debug";
     const preUploadedIconPath = formData.get("iconPath") as string | null;
     const iconUrl = formData.get("iconUrl") as string | null;
     const iconFile = formData.get("iconFile") as File | null;
@@ -78,6 +97,93 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 版本号留空时自动递增，手动填写时校验格式
+    const versionError = validateVersionCodeInput("android", requestedVersionCode);
+    if (versionError) {
+      return NextResponse.json(
+        { error: "Invalid version code", message: versionError },
+        { status: 400 }
+      );
+    }
+
+    // 校验移动端通用壳配置（下拉刷新、离线页、UA、链接规则）
+    const shellResult = parseNativeShellConfig(formData.get("shellConfig"));
+    if (!shellResult.success) {
+      return NextResponse.json(
+        { error: "Invalid shell config", message: shellResult.error },
+        { status: 400 }
+      );
+    }
+    const shellConfig = shellResult.data;
+
+    // 校验推送通知配置（OneSignal / FCM）
+    const pushResult = parsePushConfig(formData.get("pushConfig"));
+    if (!pushResult.success) {
+      return NextResponse.json(
+        { error: "Invalid push config", message: pushResult.error },
+        { status: 400 }
+      );
+    }
+    const pushConfig = pushResult.data;
+
+    // 校验深度链接配置（App Links / Universal Links 域名）
+    const deepLinkResult = parseDeepLinkConfig(formData.get("deepLinkConfig"));
+    if (!deepLinkResult.success) {
+      return NextResponse.json(
+        { error: "Invalid deep link config", message: deepLinkResult.error },
+        { status: 400 }
+      );
+    }
+    const deepLinkConfig = deepLinkResult.data;
+
+    // 校验图标样式（背景、边距、单色图层）
+    const iconStyleResult = parseIconStyleConfig(formData.get("iconStyle"));
+    if (!iconStyleResult.success) {
+      return NextResponse.json(
+        { error: "Invalid icon style", message: iconStyleResult.error },
+        { status: 400 }
+      );
+    }
+    const iconStyle = iconStyleResult.data;
+
+    // 校验高级配置（导航、样式、权限）
+    const advancedResult = parseAndroidAdvancedConfig(formData.get("advancedConfig"));
+    if (!advancedResult.success) {
+      return NextResponse.json(
+        { error: "Invalid advanced config", message: advancedResult.error },
+        { status: 400 }
+      );
+    }
+    const advancedConfig = advancedResult.data;
+
+    // 正式版签名：校验上传的密钥库（只读预检，密钥库在构建记录创建后才写入）
+    let keystoreUpload: KeystoreUpload | null = null;
+    if (buildType === "release") {
+      if (!isAndroidSigningConfigured()) {
+        return NextResponse.json(
+          { error: "Release signing unavailable", message: "Release signing is not configured on this server" },
+          { status: 503 }
+        );
+      }
+
+      const keystoreResult = await parseKeystoreUpload(formData);
+      if (!keystoreResult.success) {
+        return NextResponse.json(
+          { error: "Invalid keystore", message: keystoreResult.error },
+          { status: 400 }
+        );
+      }
+      keystoreUpload = keystoreResult.data;
+
+      const signingCheck = await checkAndroidReleaseSigning(user.id, packageName, keystoreUpload);
+      if (!signingCheck.success) {
+        return NextResponse.json(
+          { error: "Keystore conflict", message: signingCheck.error },
+          { status: signingCheck.status || 400 }
+        );
+      }
+    }
+
     // 5. 检查配额
     const quotaCheck = await checkBuildQuota(user.id, 1);
     if (!quotaCheck.allowed) {
@@ -101,18 +207,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 发放版本号（GitHub 构建以 Supabase 用户为准），发放失败时拒绝构建并退还配额
+    let versionCode: string;
+    try {
+      versionCode = await issueVersionCode(
+        getVersionCodeStore("supabase"),
+        user.id,
+        "android",
+        packageName,
+        requestedVersionCode
+      );
+    } catch (error) {
+      console.error("[Android APK Build] Version code error:", error);
+      await refundBuildQuota(user.id, 1);
+      return NextResponse.json(
+        { error: "Version code unavailable", message: "Failed to issue a version code, please try again" },
+        { status: 503 }
+      );
+    }
+
     // 7. 计算过期时间
     const wallet = await getEffectiveSupabaseUserWallet(user.id);
     const expireDays = getPlanBuildExpireDays(wallet?.plan || "Free");
     const expiresAt = new Date(Date.now() + expireDays * 24 * 60 * 60 * 1000).toISOString();
 
     // 8. 创建构建记录（Supabase）
+    const configSnapshot = parseBuildConfigSnapshot({ shellConfig, pushConfig, advancedConfig, iconStyle });
     const serviceClient = createServiceClient();
     const { data: build, error: insertError } = await serviceClient
       .from("builds")
       .insert({
         user_id: user.id,
         platform: "android-apk",
+        push_provider: getPushProvider(pushConfig, "android"),
+        deep_link_config: deepLinkConfig,
+        config_snapshot: configSnapshot,
         status: "pending",
         progress: 0,
         app_name: appName,
@@ -121,6 +250,7 @@ export async function POST(request: NextRequest) {
         version_code: versionCode,
         url: url,
         privacy_policy: privacyPolicy,
+        build_type: buildType,
         icon_path: preUploadedIconPath || JSON.stringify(iconDebugInfo),
         expires_at: expiresAt,
       })
@@ -139,6 +269,35 @@ export async function POST(request: NextRequest) {
     const buildId = build.id;
     console.log(`[Android APK Build] Build record created: ${buildId}`);
 
+    // 额度已扣除、构建记录已存在，再写入密钥库；失败时构建标记为失败并退还额度
+    if (buildType === "release") {
+      let signingError: { message: string; status: number } | null = null;
+      try {
+        const signing = await prepareAndroidReleaseSigning(user.id, packageName, keystoreUpload);
+        if (signing.success) {
+          console.log(`[Android APK Build] Release signing ready for ${packageName}: ${signing.data.source}${signing.data.reused ? " (reused)" : ""}`);
+        } else {
+          signingError = { message: signing.error, status: signing.status || 400 };
+        }
+      } catch (error) {
+        console.error("[Android APK Build] Release signing error:", error);
+        signingError = { message: "Failed to prepare release keystore", status: 500 };
+      }
+
+      if (signingError) {
+        await serviceClient.from("builds").update({
+          status: "failed",
+          error_message: signingError.message,
+          updated_at: new Date().toISOString(),
+        }).eq("id", buildId);
+        await refundBuildQuota(user.id, 1);
+        return NextResponse.json(
+          { error: "Signing error", message: signingError.message },
+          { status: signingError.status }
+        );
+      }
+    }
+
     // 同步创建 CloudBase 记录（国内版 UI 从 CloudBase 读取）
     try {
       const connector = new CloudBaseConnector();
@@ -148,6 +307,9 @@ export async function POST(request: NextRequest) {
         _id: buildId,
         user_id: user.id,
         platform: "android-apk",
+        push_provider: getPushProvider(pushConfig, "android"),
+        deep_link_config: deepLinkConfig,
+        config_snapshot: configSnapshot,
         status: "pending",
         progress: 0,
         app_name: appName,
@@ -156,6 +318,7 @@ export async function POST(request: NextRequest) {
         version_code: versionCode,
         url: url,
         privacy_policy: privacyPolicy,
+        build_type: buildType,
         icon_path: preUploadedIconPath,
         expires_at: expiresAt,
         created_at: new Date().toISOString(),
@@ -167,15 +330,19 @@ export async function POST(request: NextRequest) {
     }
 
     // 9. 异步处理构建
-    waitUntil(processAndroidApkBuildAsync(serviceClient, buildId, {
-      url, appName, packageName, versionName, versionCode, privacyPolicy,
-      iconPath: preUploadedIconPath, iconUrl, iconBuffer, userId: user.id,
-    }));
+    waitUntil(runWithBuildLog(createBuildLogSink("cloudbase", buildId, "android-apk"), () =>
+      processAndroidApkBuildAsync(serviceClient, buildId, {
+        url, appName, packageName, versionName, versionCode, privacyPolicy,
+        iconPath: preUploadedIconPath, iconUrl, iconBuffer, iconStyle, shellConfig, pushConfig, deepLinkConfig, advancedConfig, buildType, userId: user.id,
+      })
+    ));
 
     return NextResponse.json({
       success: true,
       buildId,
-      message: "APK build started, estimated time: 3-8 minutes",
+      message: buildType === "release"
+        ? "Release APK/AAB build started, estimated time: 5-10 minutes"
+        : "APK build started, estimated time: 3-8 minutes",
       status: "pending",
     });
   } catch (error) {
@@ -204,12 +371,18 @@ async function processAndroidApkBuildAsync(
     iconPath: string | null;
     iconUrl: string | null;
     iconBuffer: Buffer | null;
+    iconStyle: IconStyleConfig | null;
+    shellConfig: NativeShellConfig | null;
+    pushConfig: PushConfig | null;
+    deepLinkConfig: DeepLinkConfig | null;
+    advancedConfig: AndroidAdvancedConfig | null;
+    buildType: AndroidBuildType;
     userId: string;
   }
 ) {
   try {
     // 步骤 1: 生成 Android Source（使用 Supabase 存储，与鸿蒙一致）
-    console.log(`[Android APK Build ${buildId}] Step 1: Generating Android Source...`);
+    buildLog.info("Step 1: Generating Android Source...");
     await processAndroidBuild(buildId, {
       url: params.url,
       appName: params.appName,
@@ -220,12 +393,23 @@ async function processAndroidApkBuildAsync(
       iconPath: params.iconPath,
       iconUrl: params.iconUrl,
       iconBuffer: params.iconBuffer,
+      iconStyle: params.iconStyle,
+      shellConfig: params.shellConfig,
+      pushConfig: params.pushConfig,
+      deepLinkConfig: params.deepLinkConfig,
+      advancedConfig: params.advancedConfig,
     }, { skipFinalStatus: true });
 
     // 获取生成的源文件路径（从 Supabase 读取）
     const { data: sourceBuild } = await serviceClient
       .from("builds").select("output_file_path, status").eq("id", buildId).single();
 
+    // 用户已取消：源码生成已在阶段边界中止，不再触发云端编译
+    if (sourceBuild?.status === "cancelled") {
+      console.log(`[Android APK Build ${buildId}] Cancelled before triggering GitHub Actions`);
+      return;
+    }
+
     if (!sourceBuild?.output_file_path || sourceBuild.status === "failed") {
       throw new Error("Failed to generate Android Source - build failed or no output file");
     }
@@ -247,25 +431,42 @@ async function processAndroidApkBuildAsync(
     }).eq("id", buildId);
 
     // 步骤 2: 触发 GitHub Actions 构建
-    console.log(`[Android APK Build ${buildId}] Step 2: Triggering GitHub Actions...`);
+    buildLog.info("Step 2: Triggering GitHub Actions...");
     const callbackUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/domestic/builds/${buildId}/github-callback`;
 
+    // release 构建由 workflow 通过 signing 接口拉取密钥库（密码不经过 workflow 输入）
     const githubResult = await triggerGitHubBuild({
       buildId, sourceUrl, callbackUrl, platform: "android-apk",
+      extraInputs: {
+        build_type: params.buildType,
+        signing_url: params.buildType === "release"
+          ? `${process.env.NEXT_PUBLIC_APP_URL}/api/domestic/builds/${buildId}/signing`
+          : "",
+      },
     });
 
     if (!githubResult.success) {
       throw new Error(`GitHub Actions trigger failed: ${githubResult.error}`);
     }
 
-    console.log(`[Android APK Build ${buildId}] GitHub Actions triggered, runId: ${githubResult.runId}`);
+    buildLog.info(`GitHub Actions triggered, runId: ${githubResult.runId}`);
+
+    // 触发期间被取消时，立即取消刚启动的 workflow
+    if (await isBuildCancelled(serviceClient, buildId)) {
+      if (githubResult.runId) {
+        await cancelGitHubBuild(githubResult.runId, "android-apk");
+      }
+      console.log(`[Android APK Build ${buildId}] Cancelled while triggering GitHub Actions`);
+      return;
+    }
+
     await serviceClient.from("builds").update({
       status: "processing", progress: 97,
       github_run_id: githubResult.runId || null,
       updated_at: new Date().toISOString(),
     }).eq("id", buildId);
 
-    // 同步 github_run_id 到 CloudBase（用于 auto-sync 轮询检测）
+    // 同步 github_run_id 到 CloudBase（用于 GitHub 构建同步任务检测）
     try {
       const connector = new CloudBaseConnector();
       await connector.initialize();
@@ -281,6 +482,9 @@ async function processAndroidApkBuildAsync(
     }
 
   } catch (error) {
+    // 已取消的构建由取消接口退还额度
+    if (await isBuildCancelled(serviceClient, buildId)) return;
+
     console.error(`[Android APK Build ${buildId}] Error:`, error);
     await serviceClient.from("builds").update({
       status: "failed",
@@ -0,0 +1,56 @@
+/**
+ * Android 托管密钥库下载（Supabase 认证，与 APK 构建 API 一致）
+ * GET ?packageName=com.example.app
+ * 返回 zip：密钥库文件 + credentials.txt（别名、密码、证书指纹）
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { exportAndroidKeystore, isAndroidSigningConfigured } from "@/lib/services/android-signing";
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized", message: "Please login to download keystores" },
+        { status: 401 }
+      );
+    }
+
+    if (!isAndroidSigningConfigured()) {
+      return NextResponse.json(
+        { error: "Release signing unavailable", message: "Release signing is not configured on this server" },
+        { status: 503 }
+      );
+    }
+
+    const packageName = request.nextUrl.searchParams.get("packageName")?.trim() || "";
+    if (!/^[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)+$/i.test(packageName)) {
+      return NextResponse.json(
+        { error: "Invalid package name", message: "Package name should be in format: com.example.app" },
+        { status: 400 }
+      );
+    }
+
+    const result = await exportAndroidKeystore(user.id, packageName);
+    if (!result.success) {
+      return NextResponse.json({ error: "Not found", message: result.error }, { status: result.status || 400 });
+    }
+
+    console.log(`[Android Signing] Keystore exported for ${packageName} (user ${user.id})`);
+
+    return new NextResponse(new Uint8Array(result.data.archive), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${result.data.fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("[Android Signing] Keystore export error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -9,6 +9,42 @@ import { CloudBaseConnector } from "@/lib/cloudbase/connector";
 import { checkDailyBuildQuota, consumeDailyBuildQuota, getUserWallet, refundDailyBuildQuota } from "@/services/wallet";
 import { getPlanBuildExpireDays } from "@/utils/plan-limits";
 import { isIconUploadEnabled, validateImageSize } from "@/lib/config/upload";
+import { parseAndroidAdvancedConfig, type AndroidAdvancedConfig } from "@/lib/config/android-advanced";
+import { parseNativeShellConfig, type NativeShellConfig } from "@/lib/config/native-shell";
+import { parsePushConfig, getPushProvider, type PushConfig, type PushPlatform } from "@/lib/config/push-notifications";
+import { parseDeepLinkConfig, type DeepLinkConfig } from "@/lib/config/deep-links";
+import { parseIconStyleConfig, type IconStyleConfig } from "@/lib/config/icon-style";
+import { isLinuxPackageFormat, parseLinuxPackageFormat, type LinuxPackageFormat } from "@/lib/config/linux-packaging";
+import { isMacOSPackageFormat, parseMacOSPackageFormat, type MacOSPackageFormat } from "@/lib/config/macos-packaging";
+import { parseWindowsInstallerConfig, type WindowsInstallerConfig } from "@/lib/config/windows-installer";
+import { parseWindowsMetadataConfig, type WindowsMetadataConfig } from "@/lib/config/windows-metadata";
+import { parseDesktopShellConfig, type DesktopShellConfig } from "@/lib/config/desktop-shell";
+import {
+  DEFAULT_BROWSER_EXTENSION_TARGETS,
+  getBrowserExtensionPackageFormat,
+  isBrowserExtensionVersion,
+  parseBrowserExtensionConfig,
+  type BrowserExtensionConfig,
+} from "@/lib/config/browser-extension";
+import {
+  getMiniProgramAppIdHint,
+  isMiniProgramAppId,
+  isMiniProgramPlatform,
+  isMiniProgramVersion,
+  parseMiniProgramConfig,
+  type MiniProgramConfig,
+} from "@/lib/config/mini-program";
+import { parseWechatMiniProgramConfig, type WechatMiniProgramConfig } from "@/lib/config/wechat-mini-program";
+import { parseWechatUploadConfig, type WechatUploadConfig } from "@/lib/config/wechat-upload";
+import {
+  isWechatUploadConfigured,
+  prepareWechatUploadRequest,
+  type WechatUploadRequest,
+} from "@/lib/services/wechat-upload";
+import { getAppProjectStore, resolveBuildProject } from "@/lib/services/app-projects";
+import { parseBuildConfigSnapshot } from "@/lib/builds/config-snapshot";
+import { getVersionTrack, validateVersionCodeInput } from "@/lib/config/version-codes";
+import { getVersionCodeStore, issueVersionCode } from "@/lib/services/version-codes";
 
 // 导入国内版构建处理器
 import {
@@ -19,6 +55,8 @@ import {
   processMacOSAppBuildDomestic,
   processLinuxAppBuildDomestic,
   processWechatBuildDomestic,
+  processAlipayBuildDomestic,
+  processXiaohongshuBuildDomestic,
   processHarmonyOSBuildDomestic,
 } from "@/lib/services/domestic";
 
@@ -31,15 +69,30 @@ interface PlatformConfig {
   versionName?: string;
   versionCode?: string;
   privacyPolicy?: string;
+  advancedConfig?: AndroidAdvancedConfig | null; // Android 高级配置（导航、样式、权限）
   bundleId?: string;
   versionString?: string;
   buildNumber?: string;
   appId?: string;
   version?: string;
+  miniProgramConfig?: MiniProgramConfig | null; // 支付宝 / 小红书 web-view 业务域名
+  wechatConfig?: WechatMiniProgramConfig | null; // 微信业务域名、导航栏、标签栏和分享卡片
+  uploadConfig?: WechatUploadConfig | null; // 微信自动上传（版本描述、机器人、上传密钥）
+  wechatUpload?: WechatUploadRequest | null; // 校验后由服务端生成，密钥已加密
   bundleName?: string;
+  shellConfig?: NativeShellConfig | null; // 移动端通用壳配置（Android / iOS / HarmonyOS）
+  pushConfig?: PushConfig | null; // 推送通知（OneSignal / FCM）
+  deepLinkConfig?: DeepLinkConfig | null; // 深度链接域名（Android / iOS）
   description?: string;
+  extensionConfig?: BrowserExtensionConfig | null; // 浏览器扩展输出的浏览器（Chrome / Firefox / Edge）和弹窗配置
+  desktopConfig?: DesktopShellConfig | null; // 桌面端通用壳配置（Windows / macOS / Linux）
+  packageFormat?: LinuxPackageFormat | MacOSPackageFormat | null; // 安装包格式（Linux: tar.gz / deb / rpm / AppImage；macOS: zip / dmg）
+  dmgBackground?: boolean; // macOS DMG 是否生成品牌背景图
+  installerConfig?: WindowsInstallerConfig | null; // 安装程序配置（未设置时输出便携版 EXE）
+  metadataConfig?: WindowsMetadataConfig | null; // EXE 版本信息和应用程序清单
   iconUrl?: string; // 图标 URL（国际版使用）
   iconPath?: string; // 图标路径（国内版使用，临时上传的图标路径）
+  iconStyle?: IconStyleConfig | null; // 图标样式（背景、边距、单色图层）
   iconBase64?: string; // 图标 base64（向后兼容）
   iconType?: string;
 }
@@ -47,6 +100,7 @@ interface PlatformConfig {
 interface BatchBuildRequest {
   url: string;
   platforms: PlatformConfig[];
+  projectId?: string | null; // 所属应用项目（可选）
 }
 
 export async function POST(request: NextRequest) {
@@ -74,7 +128,7 @@ export async function POST(request: NextRequest) {
 
     // 2. 解析请求体
     const body: BatchBuildRequest = await request.json();
-    const { url, platforms } = body;
+    const { url, platforms, projectId } = body;
 
     if (!url || !platforms || platforms.length === 0) {
       return NextResponse.json(
@@ -93,6 +147,218 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 校验移动端壳配置、推送、深度链接、Android 高级配置、桌面端壳配置、Linux / macOS 安装包格式、Windows 安装程序 / 元数据配置、浏览器扩展配置和支付宝 / 小红书小程序配置（避免先扣额度后失败）
+    for (const config of platforms) {
+      // 版本号留空时自动递增，手动填写时校验格式
+      const versionTrack = getVersionTrack(config.platform);
+      if (versionTrack) {
+        const versionError = validateVersionCodeInput(versionTrack, getRequestedVersionCode(config));
+        if (versionError) {
+          return NextResponse.json(
+            { error: "Invalid version code", message: `${config.platform}: ${versionError}` },
+            { status: 400 }
+          );
+        }
+      }
+
+      if (config.shellConfig !== undefined) {
+        const shellResult = parseNativeShellConfig(config.shellConfig);
+        if (!shellResult.success) {
+          return NextResponse.json(
+            { error: "Invalid shell config", message: `${config.platform}: ${shellResult.error}` },
+            { status: 400 }
+          );
+        }
+        config.shellConfig = shellResult.data;
+      }
+
+      if (config.pushConfig !== undefined) {
+        const pushResult = parsePushConfig(config.pushConfig);
+        if (!pushResult.success) {
+          return NextResponse.json(
+            { error: "Invalid push config", message: `${config.platform}: ${pushResult.error}` },
+            { status: 400 }
+          );
+        }
+        config.pushConfig = pushResult.data;
+      }
+
+      if (config.deepLinkConfig !== undefined) {
+        const deepLinkResult = parseDeepLinkConfig(config.deepLinkConfig);
+        if (!deepLinkResult.success) {
+          return NextResponse.json(
+            { error: "Invalid deep link config", message: `${config.platform}: ${deepLinkResult.error}` },
+            { status: 400 }
+          );
+        }
+        config.deepLinkConfig = deepLinkResult.data;
+      }
+
+      if (config.iconStyle !== undefined) {
+        const iconStyleResult = parseIconStyleConfig(config.iconStyle);
+        if (!iconStyleResult.success) {
+          return NextResponse.json(
+            { error: "Invalid icon style", message: `${config.platform}: ${iconStyleResult.error}` },
+            { status: 400 }
+          );
+        }
+        config.iconStyle = iconStyleResult.data;
+      }
+
+      if (config.advancedConfig !== undefined) {
+        const advancedResult = parseAndroidAdvancedConfig(config.advancedConfig);
+        if (!advancedResult.success) {
+          return NextResponse.json(
+            { error: "Invalid advanced config", message: `${config.platform}: ${advancedResult.error}` },
+            { status: 400 }
+          );
+        }
+        config.advancedConfig = advancedResult.data;
+      }
+
+      if (config.desktopConfig !== undefined) {
+        const desktopResult = parseDesktopShellConfig(config.desktopConfig);
+        if (!desktopResult.success) {
+          return NextResponse.json(
+            { error: "Invalid desktop config", message: `${config.platform}: ${desktopResult.error}` },
+            { status: 400 }
+          );
+        }
+        config.desktopConfig = desktopResult.data;
+      }
+
+      if (config.platform === "linux" || config.platform === "macos") {
+        const formatResult = config.platform === "linux"
+          ? parseLinuxPackageFormat(config.packageFormat)
+          : parseMacOSPackageFormat(config.packageFormat);
+        if (!formatResult.success) {
+          return NextResponse.json(
+            { error: "Invalid package format", message: `${config.platform}: ${formatResult.error}` },
+            { status: 400 }
+          );
+        }
+        config.packageFormat = formatResult.data;
+      }
+
+      if (config.platform === "windows") {
+        const installerResult = parseWindowsInstallerConfig(config.installerConfig);
+        if (!installerResult.success) {
+          return NextResponse.json(
+            { error: "Invalid installer config", message: `${config.platform}: ${installerResult.error}` },
+            { status: 400 }
+          );
+        }
+        config.installerConfig = installerResult.data;
+
+        const metadataResult = parseWindowsMetadataConfig(config.metadataConfig);
+        if (!metadataResult.success) {
+          return NextResponse.json(
+            { error: "Invalid metadata config", message: `${config.platform}: ${metadataResult.error}` },
+            { status: 400 }
+          );
+        }
+        config.metadataConfig = metadataResult.data;
+      }
+
+      if (config.platform === "chrome") {
+        if (config.versionName && !isBrowserExtensionVersion(config.versionName)) {
+          return NextResponse.json(
+            { error: "Invalid version", message: `${config.platform}: Version must be 1 - 4 dot-separated numbers, e.g. 1.0.0` },
+            { status: 400 }
+          );
+        }
+
+        const extensionResult = parseBrowserExtensionConfig(config.extensionConfig);
+        if (!extensionResult.success) {
+          return NextResponse.json(
+            { error: "Invalid extension config", message: `${config.platform}: ${extensionResult.error}` },
+            { status: 400 }
+          );
+        }
+        config.extensionConfig = extensionResult.data;
+      }
+
+      if (isMiniProgramPlatform(config.platform)) {
+        if (!config.appId || !isMiniProgramAppId(config.platform, config.appId)) {
+          return NextResponse.json(
+            { error: "Invalid AppID", message: `${config.platform}: AppID should be ${getMiniProgramAppIdHint(config.platform)}` },
+            { status: 400 }
+          );
+        }
+
+        if (config.version && !isMiniProgramVersion(config.version)) {
+          return NextResponse.json(
+            { error: "Invalid version", message: `${config.platform}: Version must be in format x.y.z, e.g. 1.0.0` },
+            { status: 400 }
+          );
+        }
+
+        const miniProgramResult = parseMiniProgramConfig(config.miniProgramConfig);
+        if (!miniProgramResult.success) {
+          return NextResponse.json(
+            { error: "Invalid mini program config", message: `${config.platform}: ${miniProgramResult.error}` },
+            { status: 400 }
+          );
+        }
+        config.miniProgramConfig = miniProgramResult.data;
+      }
+
+      if (config.platform === "wechat") {
+        const wechatConfigResult = parseWechatMiniProgramConfig(config.wechatConfig);
+        if (!wechatConfigResult.success) {
+          return NextResponse.json(
+            { error: "Invalid WeChat config", message: `${config.platform}: ${wechatConfigResult.error}` },
+            { status: 400 }
+          );
+        }
+        config.wechatConfig = wechatConfigResult.data;
+
+        const uploadResult = parseWechatUploadConfig(config.uploadConfig);
+        if (!uploadResult.success) {
+          return NextResponse.json(
+            { error: "Invalid upload config", message: `${config.platform}: ${uploadResult.error}` },
+            { status: 400 }
+          );
+        }
+
+        if (uploadResult.data) {
+          if (!isWechatUploadConfigured()) {
+            return NextResponse.json(
+              { error: "WeChat upload unavailable", message: `${config.platform}: WeChat upload is not configured on this server` },
+              { status: 503 }
+            );
+          }
+
+          if (config.version && !isMiniProgramVersion(config.version)) {
+            return NextResponse.json(
+              { error: "Invalid version", message: `${config.platform}: Version must be in format x.y.z, e.g. 1.0.0` },
+              { status: 400 }
+            );
+          }
+        }
+
+        // 明文密钥不进入后续流程
+        const prepared = prepareWechatUploadRequest(uploadResult.data);
+        if (!prepared.success) {
+          return NextResponse.json(
+            { error: "Invalid upload config", message: `${config.platform}: ${prepared.error}` },
+            { status: 400 }
+          );
+        }
+        config.uploadConfig = null;
+        config.wechatUpload = prepared.data;
+      }
+    }
+
+    // 关联应用项目（必须属于当前用户）
+    const projectResult = await resolveBuildProject(getAppProjectStore("cloudbase"), user.id, projectId);
+    if (!projectResult.success) {
+      return NextResponse.json(
+        { error: "Invalid project", message: projectResult.error },
+        { status: projectResult.error === "Project not found" ? 404 : 400 }
+      );
+    }
+
     const platformCount = platforms.length;
 
     // 3. 检查配额
@@ -123,6 +389,31 @@ export async function POST(request: NextRequest) {
     const expireDays = wallet?.file_retention_days || getPlanBuildExpireDays("free");
     const expiresAt = new Date(Date.now() + expireDays * 24 * 60 * 60 * 1000).toISOString();
 
+    // 发放版本号（Android versionCode / iOS buildNumber / HarmonyOS versionCode），发放失败时拒绝整批构建并退还配额
+    const versionStore = getVersionCodeStore("cloudbase");
+    try {
+      for (const config of platforms) {
+        const versionTrack = getVersionTrack(config.platform);
+        if (!versionTrack) continue;
+        const versionCode = await issueVersionCode(
+          versionStore,
+          user.id,
+          versionTrack,
+          getPackageName(config),
+          getRequestedVersionCode(config)
+        );
+        if (versionTrack === "ios") config.buildNumber = versionCode;
+        else config.versionCode = versionCode;
+      }
+    } catch (error) {
+      console.error("[Domestic Batch Build] Version code error:", error);
+      await refundDailyBuildQuota(user.id, platformCount);
+      return NextResponse.json(
+        { error: "Version code unavailable", message: "Failed to issue a version code, please try again" },
+        { status: 503 }
+      );
+    }
+
     // 6. 批量创建构建记录
     const connector = new CloudBaseConnector();
     await connector.initialize();
@@ -138,11 +429,16 @@ export async function POST(request: NextRequest) {
         user_id: user.id,
         app_name: config.appName,
         package_name: getPackageName(config),
-        version_name: config.versionName || config.versionString || config.version || "1.0.0",
+        version_name: config.versionName || config.versionString || config.version || config.metadataConfig?.fileVersion || config.installerConfig?.version || "1.0.0",
         version_code: config.versionCode || config.buildNumber || "1",
         privacy_policy: config.privacyPolicy || config.description || "",
         url: url,
         platform: config.platform,
+        push_provider: getBatchPushProvider(config),
+        deep_link_config: config.deepLinkConfig || null,
+        config_snapshot: parseBuildConfigSnapshot(config),
+        package_format: getBatchPackageFormat(config),
+        project_id: projectResult.data,
         status: "pending",
         progress: 0,
         icon_path: config.iconPath || null,
@@ -201,15 +497,27 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// iOS 使用 buildNumber，Android / HarmonyOS 使用 versionCode
+function getRequestedVersionCode(config: PlatformConfig): string {
+  return (getVersionTrack(config.platform) === "ios" ? config.buildNumber : config.versionCode) || "";
+}
+
 function getPackageName(config: PlatformConfig): string {
   switch (config.platform) {
     case "android":
+    case "android-source":
+    case "android-apk":
       return config.packageName || `com.app.${config.appName.toLowerCase().replace(/[^a-z0-9]/g, "")}`;
     case "ios":
+    case "ios-ipa":
       return config.bundleId || `com.app.${config.appName.toLowerCase().replace(/[^a-z0-9]/g, "")}`;
     case "harmonyos":
+    case "harmonyos-source":
+    case "harmonyos-hap":
       return config.bundleName || `com.app.${config.appName.toLowerCase().replace(/[^a-z0-9]/g, "")}`;
     case "wechat":
+    case "alipay":
+    case "xiaohongshu":
       return config.appId || "";
     case "chrome":
       return `chrome.extension.${config.appName.toLowerCase().replace(/\s+/g, "")}`;
@@ -343,6 +651,32 @@ async function processBuildsAsync(
   );
 }
 
+/**
+ * 批量记录中的推送服务（仅移动端平台）
+ */
+function getBatchPushProvider(config: PlatformConfig) {
+  const platform: PushPlatform | null = config.platform.startsWith("android")
+    ? "android"
+    : config.platform.startsWith("ios")
+      ? "ios"
+      : config.platform.startsWith("harmonyos")
+        ? "harmonyos"
+        : null;
+  return platform ? getPushProvider(config.pushConfig, platform) : null;
+}
+
+/**
+ * 批量记录中的安装包格式：Linux / macOS 为所选格式，Windows 区分便携版 EXE 和安装程序
+ */
+function getBatchPackageFormat(config: PlatformConfig): string | null {
+  if (config.platform === "linux" || config.platform === "macos") return config.packageFormat || null;
+  if (config.platform === "windows") return config.installerConfig ? "installer" : "exe";
+  if (config.platform === "chrome") {
+    return getBrowserExtensionPackageFormat(config.extensionConfig?.targets || DEFAULT_BROWSER_EXTENSION_TARGETS);
+  }
+  return null;
+}
+
 async function startPlatformBuild(
   buildId: string,
   platform: string,
@@ -361,6 +695,11 @@ async function startPlatformBuild(
         versionCode: config.versionCode || "1",
         privacyPolicy: config.privacyPolicy || "",
         iconPath,
+        iconStyle: config.iconStyle,
+        shellConfig: config.shellConfig,
+        pushConfig: config.pushConfig,
+        deepLinkConfig: config.deepLinkConfig,
+        advancedConfig: config.advancedConfig,
       });
       break;
 
@@ -374,6 +713,11 @@ async function startPlatformBuild(
         versionCode: config.versionCode || "1",
         privacyPolicy: config.privacyPolicy || "",
         iconPath,
+        iconStyle: config.iconStyle,
+        shellConfig: config.shellConfig,
+        pushConfig: config.pushConfig,
+        deepLinkConfig: config.deepLinkConfig,
+        advancedConfig: config.advancedConfig,
       });
       // 注意：批量构建中的 APK 暂时只生成源码，完整编译请单独使用 android-apk API
       break;
@@ -388,6 +732,10 @@ async function startPlatformBuild(
         buildNumber: config.buildNumber || "1",
         privacyPolicy: config.privacyPolicy || "",
         iconPath,
+        iconStyle: config.iconStyle,
+        shellConfig: config.shellConfig,
+        pushConfig: config.pushConfig,
+        deepLinkConfig: config.deepLinkConfig,
       });
       // 注意：批量构建中的 IPA 暂时只生成源码，完整编译请单独使用 ios-ipa API
       break;
@@ -401,6 +749,10 @@ async function startPlatformBuild(
         buildNumber: config.buildNumber || "1",
         privacyPolicy: config.privacyPolicy || "",
         iconPath,
+        iconStyle: config.iconStyle,
+        shellConfig: config.shellConfig,
+        pushConfig: config.pushConfig,
+        deepLinkConfig: config.deepLinkConfig,
       });
       break;
 
@@ -411,6 +763,8 @@ async function startPlatformBuild(
         versionName: config.versionName || "1.0.0",
         description: config.description || "",
         iconPath,
+        iconStyle: config.iconStyle,
+        extensionConfig: config.extensionConfig || null,
       });
       break;
 
@@ -419,6 +773,10 @@ async function startPlatformBuild(
         url,
         appName: config.appName,
         iconPath,
+        iconStyle: config.iconStyle,
+        installerConfig: config.installerConfig || null,
+        metadataConfig: config.metadataConfig || null,
+        desktopConfig: config.desktopConfig || null,
       });
       break;
 
@@ -427,6 +785,10 @@ async function startPlatformBuild(
         url,
         appName: config.appName,
         iconPath,
+        iconStyle: config.iconStyle,
+        packageFormat: isMacOSPackageFormat(config.packageFormat) ? config.packageFormat : undefined,
+        dmgBackground: config.packageFormat === "dmg" && config.dmgBackground === true,
+        desktopConfig: config.desktopConfig || null,
       });
       break;
 
@@ -435,6 +797,9 @@ async function startPlatformBuild(
         url,
         appName: config.appName,
         iconPath,
+        iconStyle: config.iconStyle,
+        packageFormat: isLinuxPackageFormat(config.packageFormat) ? config.packageFormat : undefined,
+        desktopConfig: config.desktopConfig || null,
       });
       break;
 
@@ -444,9 +809,26 @@ async function startPlatformBuild(
         appName: config.appName,
         appId: config.appId || "",
         version: config.version || "1.0.0",
+        wechatConfig: config.wechatConfig || null,
+        wechatUpload: config.wechatUpload || null,
       });
       break;
 
+    case "alipay":
+    case "xiaohongshu": {
+      const processMiniProgramBuild = platform === "alipay" ? processAlipayBuildDomestic : processXiaohongshuBuildDomestic;
+      await processMiniProgramBuild(buildId, {
+        url,
+        appName: config.appName,
+        appId: config.appId || "",
+        version: config.version || "1.0.0",
+        iconPath,
+        iconStyle: config.iconStyle,
+        miniProgramConfig: config.miniProgramConfig || null,
+      });
+      break;
+    }
+
     case "harmonyos":
       await processHarmonyOSBuildDomestic(buildId, {
         url,
@@ -456,6 +838,9 @@ async function startPlatformBuild(
         versionCode: config.versionCode || "1",
         privacyPolicy: config.privacyPolicy || "",
         iconPath,
+        iconStyle: config.iconStyle,
+        shellConfig: config.shellConfig,
+        pushConfig: config.pushConfig,
       });
       break;
 
@@ -469,6 +854,9 @@ async function startPlatformBuild(
         versionCode: config.versionCode || "1",
         privacyPolicy: config.privacyPolicy || "",
         iconPath,
+        iconStyle: config.iconStyle,
+        shellConfig: config.shellConfig,
+        pushConfig: config.pushConfig,
       });
       break;
 
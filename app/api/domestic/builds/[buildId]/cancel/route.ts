@@ -0,0 +1,35 @@
+/**
+ * 国内版取消构建 API
+ * 置为 cancelled、停止 GitHub Actions 运行并退还额度，进行中的构建在下一阶段中止
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateUser } from "@/lib/domestic/build-helpers";
+import { cancelCloudBaseBuild } from "@/lib/services/build-cancellation";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ buildId: string }> }
+) {
+  try {
+    const { buildId } = await params;
+
+    const authResult = await authenticateUser();
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: "Unauthorized", message: authResult.error }, { status: authResult.status || 401 });
+    }
+
+    const result = await cancelCloudBaseBuild(authResult.user.id, buildId);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error, message: result.message }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, status: "cancelled", githubCancelled: result.githubCancelled });
+  } catch (error) {
+    console.error("[Domestic Build API] Cancel error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "An unexpected error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * 国内版深度链接验证文件下载
+ * GET ?file=assetlinks.json | apple-app-site-association
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { CloudBaseAuthService } from "@/lib/cloudbase/auth";
+import { CloudBaseConnector } from "@/lib/cloudbase/connector";
+import { DEEP_LINK_FILES, renderDeepLinkFile, type DeepLinkFileName } from "@/lib/services/deep-links";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ buildId: string }> }
+) {
+  try {
+    const { buildId } = await params;
+    const fileName = request.nextUrl.searchParams.get("file") as DeepLinkFileName | null;
+
+    if (!fileName || !DEEP_LINK_FILES.includes(fileName)) {
+      return NextResponse.json(
+        { error: "Invalid file", message: `file must be one of: ${DEEP_LINK_FILES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // 验证用户身份
+    const cookieStore = await cookies();
+    const token = cookieStore.get("auth-token")?.value;
+
+    if (!token) {
+      return NextResponse.json(
+        { error: "Unauthorized", message: "Please login to download files" },
+        { status: 401 }
+      );
+    }
+
+    const authService = new CloudBaseAuthService();
+    const user = await authService.validateToken(token);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Unauthorized", message: "Invalid or expired token" },
+        { status: 401 }
+      );
+    }
+
+    const connector = new CloudBaseConnector();
+    await connector.initialize();
+    const db = connector.getClient();
+
+    const { data: builds } = await db
+      .collection("builds")
+      .where({ _id: buildId, user_id: user.id })
+      .limit(1)
+      .get();
+
+    const build = builds?.[0];
+
+    if (!build) {
+      return NextResponse.json(
+        { error: "Not found", message: "Build not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = await renderDeepLinkFile(build, fileName);
+    if (!result.success) {
+      return NextResponse.json({ error: "Unavailable", message: result.error }, { status: result.status });
+    }
+
+    return new NextResponse(result.content, {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("[Domestic Deep Link API] GET Error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "An unexpected error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,13 +1,14 @@
 /**
  * GitHub Actions 构建回调处理器
  * 接收来自 GitHub Actions workflow 的构建完成通知
- * 快速返回响应（避免 curl --max-time 超时），让 polling auto-sync 完成 artifact 下载
+ * 快速返回响应（避免 curl --max-time 超时），artifact 下载在后台同步任务中完成
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { CloudBaseConnector } from "@/lib/cloudbase/connector";
 import { withDbRetry } from "@/lib/cloudbase/retry-wrapper";
 import { createServiceClient } from "@/lib/supabase/server";
+import { syncDomesticGitHubBuilds } from "@/lib/services/domestic/github-build-sync";
 
 export async function POST(
   request: NextRequest,
@@ -37,8 +38,8 @@ export async function POST(
       updateData.error_message = "GitHub Actions build failed. Check the workflow logs for details.";
     }
 
-    // 并行更新 CloudBase 和 Supabase，然后立即返回响应
-    // 成功时保持 processing/98，让 polling 的同步 auto-sync 完成 artifact 下载
+    // 并行更新 CloudBase 和 Supabase，然后立即返回响应（用户已取消的构建保持 cancelled）
+    // 成功时保持 processing/98，由 GitHub 构建同步完成 artifact 下载
     await Promise.allSettled([
       (async () => {
         try {
@@ -46,7 +47,7 @@ export async function POST(
           await connector.initialize();
           const db = connector.getClient();
           await withDbRetry(
-            () => db.collection("builds").doc(buildId).update(updateData),
+            () => db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update(updateData),
             'Update build status in CloudBase'
           );
           console.log(`[GitHub Callback] Updated CloudBase: ${buildStatus}/${progress}`);
@@ -57,7 +58,7 @@ export async function POST(
       (async () => {
         try {
           const supabase = createServiceClient();
-          await supabase.from("builds").update(updateData).eq("id", buildId);
+          await supabase.from("builds").update(updateData).eq("id", buildId).neq("status", "cancelled");
           console.log(`[GitHub Callback] Updated Supabase: ${buildStatus}/${progress}`);
         } catch (e) {
           console.error(`[GitHub Callback] Supabase update failed:`, e);
@@ -65,8 +66,14 @@ export async function POST(
       })(),
     ]);
 
-    // 立即返回响应（不做 artifact 下载，避免 curl --max-time 30 超时）
-    // artifact 下载由 polling route 的同步 autoSyncStuckBuilds 完成
+    // 立即返回响应（不等待 artifact 下载，避免 curl --max-time 30 超时）
+    // 云托管为常驻进程，后台同步可以继续执行；失败时由 /api/domestic/builds/sync 定时任务兜底
+    if (buildStatus === "processing") {
+      syncDomesticGitHubBuilds([buildId]).catch((e) => {
+        console.error(`[GitHub Callback] Background sync failed for ${buildId}:`, e);
+      });
+    }
+
     return NextResponse.json({
       success: true,
       message: `Build ${buildId} updated to ${buildStatus}`,
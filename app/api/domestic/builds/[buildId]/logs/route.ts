@@ -0,0 +1,70 @@
+/**
+ * 国内版构建日志 API
+ * 返回构建步骤日志；GitHub Actions 云端构建（APK/IPA/HAP）同时返回对应运行的 job 步骤和日志
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateUser } from "@/lib/domestic/build-helpers";
+import { CloudBaseConnector } from "@/lib/cloudbase/connector";
+import { createServiceClient } from "@/lib/supabase/server";
+import { getBuildLogs } from "@/lib/services/build-logs";
+import { getGitHubRunLogs } from "@/lib/services/github-builder";
+import { GITHUB_SYNC_PLATFORMS } from "@/lib/services/github-build-sync";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ buildId: string }> }
+) {
+  try {
+    const { buildId } = await params;
+
+    const authResult = await authenticateUser();
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ error: "Unauthorized", message: authResult.error }, { status: authResult.status || 401 });
+    }
+
+    const connector = new CloudBaseConnector();
+    await connector.initialize();
+    const db = connector.getClient();
+
+    const { data: builds } = await db
+      .collection("builds")
+      .where({ _id: buildId, user_id: authResult.user.id })
+      .limit(1)
+      .get();
+    const build = builds?.[0];
+
+    if (!build) {
+      return NextResponse.json({ error: "Not found", message: "Build not found" }, { status: 404 });
+    }
+
+    const logs = await getBuildLogs("cloudbase", buildId);
+
+    let github = null;
+    if (GITHUB_SYNC_PLATFORMS.includes(build.platform)) {
+      // IPA/HAP 的 github_run_id 可能只写入了 Supabase
+      let runId = build.github_run_id;
+      if (!runId) {
+        const { data: sbBuild } = await createServiceClient()
+          .from("builds")
+          .select("github_run_id")
+          .eq("id", buildId)
+          .maybeSingle();
+        runId = sbBuild?.github_run_id;
+      }
+
+      if (runId) {
+        const result = await getGitHubRunLogs(String(runId), build.platform);
+        github = { runId: String(runId), jobs: result.jobs || [], error: result.error };
+      }
+    }
+
+    return NextResponse.json({ platform: build.platform, status: build.status, logs, github });
+  } catch (error) {
+    console.error("[Domestic Build API] Logs error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "An unexpected error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -8,6 +8,7 @@ import { cookies } from "next/headers";
 import { CloudBaseAuthService } from "@/lib/cloudbase/auth";
 import { CloudBaseConnector } from "@/lib/cloudbase/connector";
 import { getCloudBaseStorage } from "@/lib/cloudbase/storage";
+import { deleteBuildLogs } from "@/lib/services/build-logs";
 
 // Check if a build is expired
 function isExpired(expiresAt: string): boolean {
@@ -69,8 +70,11 @@ export async function GET(
         build: {
           ...build,
           output_file_path: null,
+          aab_file_path: null,
           icon_path: null,
+          preview_qr_path: null,
           downloadUrl: null,
+          aabDownloadUrl: null,
           expired: true,
         },
       });
@@ -78,20 +82,37 @@ export async function GET(
 
     // 实时生成新的临时下载链接（CloudBase 临时链接有效期约2小时）
     let downloadUrl: string | null = null;
+    let aabDownloadUrl: string | null = null;
     if (build.output_file_path && build.status === "completed") {
       try {
         const storage = getCloudBaseStorage();
         downloadUrl = await storage.getTempDownloadUrl(build.output_file_path);
+        // release 构建额外提供 AAB 下载
+        if (build.aab_file_path) {
+          aabDownloadUrl = await storage.getTempDownloadUrl(build.aab_file_path);
+        }
       } catch (error) {
         console.error("[Domestic Build API] Failed to generate download URL:", error);
       }
     }
 
+    // 图标链接（「修改后重新构建」时生成器重新载入图标）
+    let iconUrl: string | null = null;
+    if (build.icon_path) {
+      try {
+        iconUrl = await getCloudBaseStorage().getTempDownloadUrl(build.icon_path);
+      } catch (error) {
+        console.error("[Domestic Build API] Failed to generate icon URL:", error);
+      }
+    }
+
     // 返回构建详情
     return NextResponse.json({
       build: {
         ...build,
         downloadUrl,
+        aabDownloadUrl,
+        iconUrl,
       },
     });
   } catch (error) {
@@ -163,6 +184,14 @@ export async function DELETE(
       }
     }
 
+    if (build.aab_file_path) {
+      try {
+        await storage.deleteFile(build.aab_file_path);
+      } catch (err) {
+        console.error(`[Domestic Build API] Failed to delete AAB file:`, err);
+      }
+    }
+
     if (build.icon_path) {
       try {
         await storage.deleteFile(build.icon_path);
@@ -171,8 +200,19 @@ export async function DELETE(
       }
     }
 
+    if (build.preview_qr_path) {
+      try {
+        await storage.deleteFile(build.preview_qr_path);
+      } catch (err) {
+        console.error(`[Domestic Build API] Failed to delete preview QR code:`, err);
+      }
+    }
+
     // 删除构建记录
     await db.collection("builds").doc(buildId).remove();
+    await deleteBuildLogs("cloudbase", buildId).catch((err) => {
+      console.error(`[Domestic Build API] Failed to delete build logs:`, err);
+    });
 
     return NextResponse.json({
       success: true,
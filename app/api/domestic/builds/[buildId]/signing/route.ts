@@ -0,0 +1,103 @@
+/**
+ * Android 正式版签名材料接口（仅供 GitHub Actions 调用）
+ * GET:  拉取密钥库和密码（Bearer ANDROID_SIGNING_API_SECRET）
+ * POST: 回传 workflow 生成的密钥库，托管后供同包名后续版本复用
+ * PATCH: 回传签名证书 SHA-256 指纹（生成 assetlinks.json 使用）
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  verifySigningApiToken,
+  getAndroidSigningMaterial,
+  escrowGeneratedKeystore,
+  recordKeystoreFingerprint,
+} from "@/lib/services/android-signing";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ buildId: string }> }
+) {
+  try {
+    const { buildId } = await params;
+
+    if (!verifySigningApiToken(request.headers.get("authorization"))) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await getAndroidSigningMaterial(buildId);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status || 400 });
+    }
+
+    console.log(`[Android Signing] Signing material served for build ${buildId} (keystore=${result.data.keystoreBase64 ? "escrowed" : "pending"})`);
+
+    return NextResponse.json(
+      {
+        alias: result.data.alias,
+        store_password: result.data.storePassword,
+        key_password: result.data.keyPassword,
+        keystore_base64: result.data.keystoreBase64,
+      },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    console.error("[Android Signing] GET Error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ buildId: string }> }
+) {
+  try {
+    const { buildId } = await params;
+
+    if (!verifySigningApiToken(request.headers.get("authorization"))) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.keystore_base64 !== "string") {
+      return NextResponse.json({ error: "keystore_base64 is required" }, { status: 400 });
+    }
+
+    const result = await escrowGeneratedKeystore(buildId, body.keystore_base64);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status || 400 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Android Signing] POST Error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ buildId: string }> }
+) {
+  try {
+    const { buildId } = await params;
+
+    if (!verifySigningApiToken(request.headers.get("authorization"))) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.cert_sha256 !== "string") {
+      return NextResponse.json({ error: "cert_sha256 is required" }, { status: 400 });
+    }
+
+    const result = await recordKeystoreFingerprint(buildId, body.cert_sha256);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: result.status || 400 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Android Signing] PATCH Error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -6,7 +6,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { CloudBaseConnector } from "@/lib/cloudbase/connector";
 import { withDbRetry } from "@/lib/cloudbase/retry-wrapper";
-import { getGitHubBuildStatus, downloadGitHubArtifact } from "@/lib/services/github-builder";
+import { getGitHubBuildStatus, downloadGitHubArtifact, getAndroidArtifactConfig } from "@/lib/services/github-builder";
 import { getCloudBaseStorage } from "@/lib/cloudbase/storage";
 import AdmZip from "adm-zip";
 
@@ -29,6 +29,10 @@ export async function POST(
       return NextResponse.json({ error: "Build not found" }, { status: 404 });
     }
 
+    if (build.status === "cancelled") {
+      return NextResponse.json({ success: true, status: "cancelled" });
+    }
+
     const runId = build.github_run_id;
     if (!runId) {
       // 如果没有 github_run_id，尝试通过查询最近的 workflow runs 来找到对应的构建
@@ -136,7 +140,8 @@ async function syncBuildWithRunId(
 
       console.log(`[Sync GitHub Status] Build completed successfully, downloading artifact...`);
 
-      const artifactName = `app-debug-${buildId}`;
+      const artifactConfig = getAndroidArtifactConfig(build?.build_type);
+      const artifactName = `${artifactConfig.prefix}-${buildId}`;
       const artifactBuffer = await downloadGitHubArtifact(runId, artifactName);
 
       if (!artifactBuffer) {
@@ -151,11 +156,7 @@ async function syncBuildWithRunId(
       const zipEntries = zip.getEntries();
 
       // 查找APK文件: android/app/build/outputs/apk/normal/debug/*.apk 或 release/*.apk
-      const fileEntry = zipEntries.find(entry =>
-        (entry.entryName.includes('android/app/build/outputs/apk/normal/debug/') ||
-         entry.entryName.includes('android/app/build/outputs/apk/normal/release/')) &&
-        entry.entryName.endsWith('.apk')
-      );
+      const fileEntry = zipEntries.find(entry => artifactConfig.findEntry(entry));
 
       if (!fileEntry) {
         return NextResponse.json({ error: "APK file not found in zip" }, { status: 500 });
@@ -167,7 +168,7 @@ async function syncBuildWithRunId(
 
       // 上传文件到云存储
       const storage = getCloudBaseStorage();
-      const fileName = `builds/${buildId}/app-debug.apk`;
+      const fileName = `builds/${buildId}/${artifactConfig.prefix}${artifactConfig.ext}`;
 
       await withDbRetry(
         async () => {
@@ -183,12 +184,24 @@ async function syncBuildWithRunId(
       // 获取下载链接
       const downloadUrl = await storage.getTempDownloadUrl(fileName);
 
+      // release 构建额外上传 AAB
+      let aabFileName: string | null = null;
+      const bundleEntry = artifactConfig.findBundleEntry
+        ? zipEntries.find(entry => artifactConfig.findBundleEntry!(entry))
+        : undefined;
+      if (bundleEntry) {
+        aabFileName = `builds/${buildId}/${artifactConfig.prefix}.aab`;
+        await storage.uploadFile(aabFileName, bundleEntry.getData());
+        console.log(`[Sync GitHub Status] Uploaded AAB to CloudBase: ${aabFileName}`);
+      }
+
       // 更新构建记录
       await withDbRetry(
         () => db.collection("builds").doc(buildId).update({
           status: "completed",
           progress: 100,
           output_file_path: fileName,
+          ...(aabFileName && { aab_file_path: aabFileName }),
           download_url: downloadUrl,
           updated_at: new Date().toISOString(),
         }),
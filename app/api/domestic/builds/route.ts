@@ -80,6 +80,8 @@ export async function GET(request: NextRequest) {
       () => db
         .collection("builds")
         .where(whereConditions)
+        // 配置快照可能较大，列表不返回（构建对比和重新构建从构建详情读取）
+        .field({ config_snapshot: false })
         .orderBy("created_at", "desc")
         .skip(safeOffset)
         .limit(safeLimit)
@@ -106,7 +108,9 @@ export async function GET(request: NextRequest) {
           // Clean up expired build files in background
           const filesToDelete: string[] = [];
           if (build.output_file_path) filesToDelete.push(build.output_file_path);
+          if (build.aab_file_path) filesToDelete.push(build.aab_file_path);
           if (build.icon_path) filesToDelete.push(build.icon_path);
+          if (build.preview_qr_path) filesToDelete.push(build.preview_qr_path);
 
           if (filesToDelete.length > 0) {
             // Delete files from CloudBase storage
@@ -116,27 +120,40 @@ export async function GET(request: NextRequest) {
           // Update build record to mark files as cleaned
           db.collection("builds")
             .doc(_id)
-            .update({ output_file_path: null, icon_path: null })
+            .update({ output_file_path: null, aab_file_path: null, icon_path: null, preview_qr_path: null })
             .catch(console.error);
 
-          return { ...mapped, output_file_path: null, icon_path: null, icon_url: null };
+          return { ...mapped, output_file_path: null, icon_path: null, icon_url: null, preview_qr_url: null };
         }
 
         // Generate icon URL if icon_path exists（使用缓存）
+        let iconUrl: string | null = null;
         if (build.icon_path) {
           try {
-            const iconUrl = await withCache(
+            iconUrl = await withCache(
               `icon:${build.icon_path}`,
               600, // 10分钟缓存
               () => storage.getTempDownloadUrl(build.icon_path)
             );
-            return { ...mapped, icon_url: iconUrl };
           } catch (error) {
             console.error(`[Domestic Builds] Failed to get icon URL for build ${build._id}:`, error);
-            return { ...mapped, icon_url: null };
           }
         }
-        return { ...mapped, icon_url: null };
+
+        // 微信小程序自动上传生成的预览二维码
+        let previewQrUrl: string | null = null;
+        if (build.preview_qr_path) {
+          try {
+            previewQrUrl = await withCache(
+              `preview-qr:${build.preview_qr_path}`,
+              600,
+              () => storage.getTempDownloadUrl(build.preview_qr_path)
+            );
+          } catch (error) {
+            console.error(`[Domestic Builds] Failed to get preview QR URL for build ${build._id}:`, error);
+          }
+        }
+        return { ...mapped, icon_url: iconUrl, preview_qr_url: previewQrUrl };
       })
     );
 
@@ -161,6 +178,8 @@ export async function GET(request: NextRequest) {
       android: counts.filter((b: any) => b.platform === "android").length,
       ios: counts.filter((b: any) => b.platform === "ios").length,
       wechat: counts.filter((b: any) => b.platform === "wechat").length,
+      alipay: counts.filter((b: any) => b.platform === "alipay").length,
+      xiaohongshu: counts.filter((b: any) => b.platform === "xiaohongshu").length,
       harmonyos: counts.filter((b: any) => b.platform === "harmonyos").length,
       windows: counts.filter((b: any) => b.platform === "windows").length,
       macos: counts.filter((b: any) => b.platform === "macos").length,
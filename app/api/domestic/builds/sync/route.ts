@@ -0,0 +1,37 @@
+/**
+ * 国内版 GitHub Actions 构建同步任务
+ * 下载已完成的云端构建产物并更新 CloudBase / Supabase 构建记录
+ * 由云托管定时触发器调用（Authorization: Bearer CRON_SECRET）
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { verifyWorkerToken } from "@/lib/services/build-queue";
+import { syncDomesticGitHubBuilds } from "@/lib/services/domestic/github-build-sync";
+
+// 需要下载并上传 artifact
+export const maxDuration = 120;
+
+async function handleSync(request: NextRequest) {
+  if (!verifyWorkerToken(request.headers.get("authorization"))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await syncDomesticGitHubBuilds();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("[Domestic GitHub Sync API] Error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handleSync(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleSync(request);
+}
@@ -1,87 +1,13 @@
 /**
- * 国内版 Chrome 扩展构建 API
+ * 国内版 Chrome 扩展 构建 API
+ * 表单解析和构建流程见 lib/services/build-orchestrator
  */
 
-import { NextRequest, NextResponse } from "next/server";
-import { authenticateUser, checkAndDeductQuota, createBuildRecord, updateBuildStatus } from "@/lib/domestic/build-helpers";
-import { processChromeExtensionBuildDomestic } from "@/lib/services/domestic/chrome-extension-builder";
-import { isIconUploadEnabled, validateImageSize } from "@/lib/config/upload";
-import { getCloudBaseStorage } from "@/lib/cloudbase/storage";
+import { NextRequest } from "next/server";
+import { getBuildOrchestrator } from "@/lib/services/build-orchestrator";
 
 export const maxDuration = 120;
 
 export async function POST(request: NextRequest) {
-  try {
-    const authResult = await authenticateUser();
-    if (!authResult.success || !authResult.user) {
-      return NextResponse.json({ error: "Unauthorized", message: authResult.error }, { status: authResult.status || 401 });
-    }
-    const user = authResult.user;
-
-    const formData = await request.formData();
-    const url = formData.get("url") as string;
-    const appName = formData.get("appName") as string;
-    const icon = formData.get("icon") as File | null;
-
-    if (!url || !appName) {
-      return NextResponse.json({ error: "Missing required fields", message: "url and appName are required" }, { status: 400 });
-    }
-
-    if (icon && icon.size > 0) {
-      if (!isIconUploadEnabled()) {
-        return NextResponse.json({ error: "Icon upload disabled" }, { status: 400 });
-      }
-      const sizeValidation = validateImageSize(icon.size);
-      if (!sizeValidation.valid) {
-        return NextResponse.json({ error: "Icon too large" }, { status: 400 });
-      }
-    }
-
-    const quotaResult = await checkAndDeductQuota(user.id, 1);
-    if (!quotaResult.success) {
-      return NextResponse.json({ error: "Quota exceeded", message: quotaResult.error }, { status: 429 });
-    }
-
-    const buildResult = await createBuildRecord({ userId: user.id, platform: "chrome", appName, url });
-
-    if (!buildResult.success || !buildResult.buildId) {
-      return NextResponse.json({ error: "Failed to create build", message: buildResult.error }, { status: 500 });
-    }
-
-    const buildId = buildResult.buildId;
-    let iconPath: string | null = null;
-    if (icon && icon.size > 0) {
-      try {
-        const storage = getCloudBaseStorage();
-        const iconBuffer = Buffer.from(await icon.arrayBuffer());
-        iconPath = `user-builds/builds/${buildId}/icon.png`;
-        await storage.uploadFile(iconPath, iconBuffer);
-        await updateBuildStatus(buildId, "pending", { icon_path: iconPath });
-      } catch (error) {
-        console.error("[Domestic Chrome Build] Icon upload error:", error);
-      }
-    }
-
-    processChromeBuildAsync(buildId, { url, appName, iconPath }).catch(console.error);
-
-    return NextResponse.json({ success: true, buildId: buildResult.buildId, message: "Build started successfully", status: "pending" });
-  } catch (error) {
-    console.error("[Domestic Chrome Build API] Error:", error);
-    return NextResponse.json({ error: "Internal server error", message: "An unexpected error occurred" }, { status: 500 });
-  }
-}
-
-async function processChromeBuildAsync(buildId: string, params: { url: string; appName: string; iconPath: string | null }) {
-  try {
-    await updateBuildStatus(buildId, "processing");
-    await processChromeExtensionBuildDomestic(buildId, {
-      url: params.url,
-      appName: params.appName,
-      versionName: "1.0.0",
-      description: "",
-      iconPath: params.iconPath,
-    });
-  } catch (error) {
-    await updateBuildStatus(buildId, "failed", { error_message: error instanceof Error ? error.message : "Unknown error" });
-  }
+  return getBuildOrchestrator("cloudbase").handle(request, "chrome");
 }
@@ -9,7 +9,15 @@ import { deductBuildQuota, checkBuildQuota, getEffectiveSupabaseUserWallet, refu
 import { getPlanBuildExpireDays } from "@/utils/plan-limits";
 import { CloudBaseConnector } from "@/lib/cloudbase/connector";
 import { processHarmonyOSBuild } from "@/lib/services/harmonyos-builder";
-import { triggerGitHubBuild } from "@/lib/services/github-builder";
+import { triggerGitHubBuild, cancelGitHubBuild } from "@/lib/services/github-builder";
+import { buildLog, createBuildLogSink, runWithBuildLog } from "@/lib/services/build-logs";
+import { validateVersionCodeInput } from "@/lib/config/version-codes";
+import { getVersionCodeStore, issueVersionCode } from "@/lib/services/version-codes";
+import { isBuildCancelled } from "@/lib/services/build-cancellation";
+import { parseNativeShellConfig, type NativeShellConfig } from "@/lib/config/native-shell";
+import { parsePushConfig, getPushProvider, type PushConfig } from "@/lib/config/push-notifications";
+import { parseBuildConfigSnapshot } from "@/lib/builds/config-snapshot";
+import { parseIconStyleConfig, type IconStyleConfig } from "@/lib/config/icon-style";
 import { waitUntil } from "@vercel/functions";
 
 export const maxDuration = 120;
@@ -33,7 +41,7 @@ export async function POST(request: NextRequest) {
     const appName = formData.get("appName") as string;
     const bundleName = formData.get("bundleName") as string || `com.${(appName || "app").toLowerCase().replace(/[^a-z0-9]/g, "")}.harmony`;
     const versionName = formData.get("versionName") as string || "1.0.0";
-    const versionCode = formData.get("versionCode") as string || "1";
+    const requestedVersionCode = formData.get("versionCode") as string || "";
     const privacyPolicy = formData.get("privacyPolicy") as string || "";
     const preUploadedIconPath = formData.get("iconPath") as string | null;
 
@@ -45,6 +53,45 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 版本号留空时自动递增，手动填写时校验格式
+    const versionError = validateVersionCodeInput("harmonyos", requestedVersionCode);
+    if (versionError) {
+      return NextResponse.json(
+        { error: "Invalid version code", message: versionError },
+        { status: 400 }
+      );
+    }
+
+    // 校验移动端通用壳配置（下拉刷新、离线页、UA、链接规则）
+    const shellResult = parseNativeShellConfig(formData.get("shellConfig"));
+    if (!shellResult.success) {
+      return NextResponse.json(
+        { error: "Invalid shell config", message: shellResult.error },
+        { status: 400 }
+      );
+    }
+    const shellConfig = shellResult.data;
+
+    // 校验推送通知配置（OneSignal / FCM）
+    const pushResult = parsePushConfig(formData.get("pushConfig"));
+    if (!pushResult.success) {
+      return NextResponse.json(
+        { error: "Invalid push config", message: pushResult.error },
+        { status: 400 }
+      );
+    }
+    const pushConfig = pushResult.data;
+
+    // 校验图标样式（背景、边距、单色图层）
+    const iconStyleResult = parseIconStyleConfig(formData.get("iconStyle"));
+    if (!iconStyleResult.success) {
+      return NextResponse.json(
+        { error: "Invalid icon style", message: iconStyleResult.error },
+        { status: 400 }
+      );
+    }
+    const iconStyle = iconStyleResult.data;
+
     // 4. 检查配额
     const quotaCheck = await checkBuildQuota(user.id, 1);
     if (!quotaCheck.allowed) {
@@ -68,18 +115,40 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 发放版本号（GitHub 构建以 Supabase 用户为准），发放失败时拒绝构建并退还配额
+    let versionCode: string;
+    try {
+      versionCode = await issueVersionCode(
+        getVersionCodeStore("supabase"),
+        user.id,
+        "harmonyos",
+        bundleName,
+        requestedVersionCode
+      );
+    } catch (error) {
+      console.error("[HarmonyOS HAP Build] Version code error:", error);
+      await refundBuildQuota(user.id, 1);
+      return NextResponse.json(
+        { error: "Version code unavailable", message: "Failed to issue a version code, please try again" },
+        { status: 503 }
+      );
+    }
+
     // 6. 计算过期时间
     const wallet = await getEffectiveSupabaseUserWallet(user.id);
     const expireDays = getPlanBuildExpireDays(wallet?.plan || "Free");
     const expiresAt = new Date(Date.now() + expireDays * 24 * 60 * 60 * 1000).toISOString();
 
     // 7. 创建构建记录
+    const configSnapshot = parseBuildConfigSnapshot({ shellConfig, pushConfig, iconStyle });
     const serviceClient = createServiceClient();
     const { data: build, error: insertError } = await serviceClient
       .from("builds")
       .insert({
         user_id: user.id,
         platform: "harmonyos-hap",
+        push_provider: getPushProvider(pushConfig, "harmonyos"),
+        config_snapshot: configSnapshot,
         status: "pending",
         progress: 0,
         app_name: appName,
@@ -115,6 +184,8 @@ export async function POST(request: NextRequest) {
         _id: buildId,
         user_id: user.id,
         platform: "harmonyos-hap",
+        push_provider: getPushProvider(pushConfig, "harmonyos"),
+        config_snapshot: configSnapshot,
         status: "pending",
         progress: 0,
         app_name: appName,
@@ -134,10 +205,12 @@ export async function POST(request: NextRequest) {
     }
 
     // 8. 异步处理构建
-    waitUntil(processHarmonyHapBuildAsync(serviceClient, buildId, {
-      url, appName, bundleName, versionName, versionCode, privacyPolicy,
-      iconPath: preUploadedIconPath, userId: user.id,
-    }));
+    waitUntil(runWithBuildLog(createBuildLogSink("cloudbase", buildId, "harmonyos-hap"), () =>
+      processHarmonyHapBuildAsync(serviceClient, buildId, {
+        url, appName, bundleName, versionName, versionCode, privacyPolicy,
+        iconPath: preUploadedIconPath, iconStyle, shellConfig, pushConfig, userId: user.id,
+      })
+    ));
 
     return NextResponse.json({
       success: true,
@@ -162,7 +235,7 @@ async function processHarmonyHapBuildAsync(
   params: {
     url: string; appName: string; bundleName: string;
     versionName: string; versionCode: string; privacyPolicy: string;
-    iconPath: string | null; userId: string;
+    iconPath: string | null; iconStyle: IconStyleConfig | null; shellConfig: NativeShellConfig | null; pushConfig: PushConfig | null; userId: string;
   }
 ) {
   try {
@@ -172,7 +245,7 @@ async function processHarmonyHapBuildAsync(
     }).eq("id", buildId);
 
     // 步骤 1: 生成 HarmonyOS Source
-    console.log(`[HarmonyOS HAP Build ${buildId}] Step 1: Generating HarmonyOS Source...`);
+    buildLog.info("Step 1: Generating HarmonyOS Source...");
     await processHarmonyOSBuild(buildId, {
       url: params.url,
       appName: params.appName,
@@ -181,12 +254,21 @@ async function processHarmonyHapBuildAsync(
       versionCode: params.versionCode,
       privacyPolicy: params.privacyPolicy,
       iconPath: params.iconPath,
+      iconStyle: params.iconStyle,
+      shellConfig: params.shellConfig,
+      pushConfig: params.pushConfig,
     }, { skipFinalStatus: true });
 
     // 获取生成的源文件路径（harmonyos-builder 存的是 output_file_path，不是 download_url）
     const { data: sourceBuild } = await serviceClient
       .from("builds").select("output_file_path, status").eq("id", buildId).single();
 
+    // 用户已取消：源码生成已在阶段边界中止，不再触发云端编译
+    if (sourceBuild?.status === "cancelled") {
+      console.log(`[HarmonyOS HAP Build ${buildId}] Cancelled before triggering GitHub Actions`);
+      return;
+    }
+
     if (!sourceBuild?.output_file_path || sourceBuild.status === "failed") {
       throw new Error("Failed to generate HarmonyOS Source - build failed or no output file");
     }
@@ -208,7 +290,7 @@ async function processHarmonyHapBuildAsync(
     }).eq("id", buildId);
 
     // 步骤 2: 触发 GitHub Actions 构建
-    console.log(`[HarmonyOS HAP Build ${buildId}] Step 2: Triggering GitHub Actions...`);
+    buildLog.info("Step 2: Triggering GitHub Actions...");
     const callbackUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/domestic/builds/${buildId}/github-callback`;
 
     const githubResult = await triggerGitHubBuild({
@@ -219,14 +301,24 @@ async function processHarmonyHapBuildAsync(
       throw new Error(`GitHub Actions trigger failed: ${githubResult.error}`);
     }
 
-    console.log(`[HarmonyOS HAP Build ${buildId}] GitHub Actions triggered, runId: ${githubResult.runId}`);
+    buildLog.info(`GitHub Actions triggered, runId: ${githubResult.runId}`);
+
+    // 触发期间被取消时，立即取消刚启动的 workflow
+    if (await isBuildCancelled(serviceClient, buildId)) {
+      if (githubResult.runId) {
+        await cancelGitHubBuild(githubResult.runId, "harmonyos-hap");
+      }
+      console.log(`[HarmonyOS HAP Build ${buildId}] Cancelled while triggering GitHub Actions`);
+      return;
+    }
+
     await serviceClient.from("builds").update({
       status: "processing", progress: 97,
       github_run_id: githubResult.runId || null,
       updated_at: new Date().toISOString(),
     }).eq("id", buildId);
 
-    // 同步 github_run_id 到 CloudBase（用于 auto-sync 轮询检测）
+    // 同步 github_run_id 到 CloudBase（用于 GitHub 构建同步任务检测）
     try {
       const connector = new CloudBaseConnector();
       await connector.initialize();
@@ -241,6 +333,9 @@ async function processHarmonyHapBuildAsync(
     }
 
   } catch (error) {
+    // 已取消的构建由取消接口退还额度
+    if (await isBuildCancelled(serviceClient, buildId)) return;
+
     console.error(`[HarmonyOS HAP Build ${buildId}] Error:`, error);
     await serviceClient.from("builds").update({
       status: "failed",
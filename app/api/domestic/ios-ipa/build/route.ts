@@ -9,7 +9,16 @@ import { deductBuildQuota, checkBuildQuota, getEffectiveSupabaseUserWallet, refu
 import { getPlanBuildExpireDays } from "@/utils/plan-limits";
 import { CloudBaseConnector } from "@/lib/cloudbase/connector";
 import { processiOSBuild } from "@/lib/services/ios-builder";
-import { triggerGitHubBuild } from "@/lib/services/github-builder";
+import { triggerGitHubBuild, cancelGitHubBuild } from "@/lib/services/github-builder";
+import { buildLog, createBuildLogSink, runWithBuildLog } from "@/lib/services/build-logs";
+import { validateVersionCodeInput } from "@/lib/config/version-codes";
+import { getVersionCodeStore, issueVersionCode } from "@/lib/services/version-codes";
+import { isBuildCancelled } from "@/lib/services/build-cancellation";
+import { parseNativeShellConfig, type NativeShellConfig } from "@/lib/config/native-shell";
+import { parsePushConfig, getPushProvider, type PushConfig } from "@/lib/config/push-notifications";
+import { parseBuildConfigSnapshot } from "@/lib/builds/config-snapshot";
+import { parseIconStyleConfig, type IconStyleConfig } from "@/lib/config/icon-style";
+import { parseDeepLinkConfig, type DeepLinkConfig } from "@/lib/config/deep-links";
 import { waitUntil } from "@vercel/functions";
 
 export const maxDuration = 120;
@@ -33,7 +42,7 @@ export async function POST(request: NextRequest) {
     const appName = formData.get("appName") as string;
     const bundleId = formData.get("bundleId") as string || `com.${(appName || "app").toLowerCase().replace(/[^a-z0-9]/g, "")}.ios`;
     const versionString = formData.get("versionString") as string || "1.0.0";
-    const buildNumber = formData.get("buildNumber") as string || "1";
+    const requestedBuildNumber = formData.get("buildNumber") as string || "";
     const privacyPolicy = formData.get("privacyPolicy") as string || "";
     const preUploadedIconPath = formData.get("iconPath") as string | null;
 
@@ -45,6 +54,55 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 版本号留空时自动递增，手动填写时校验格式
+    const versionError = validateVersionCodeInput("ios", requestedBuildNumber);
+    if (versionError) {
+      return NextResponse.json(
+        { error: "Invalid build number", message: versionError },
+        { status: 400 }
+      );
+    }
+
+    // 校验移动端通用壳配置（下拉刷新、离线页、UA、链接规则）
+    const shellResult = parseNativeShellConfig(formData.get("shellConfig"));
+    if (!shellResult.success) {
+      return NextResponse.json(
+        { error: "Invalid shell config", message: shellResult.error },
+        { status: 400 }
+      );
+    }
+    const shellConfig = shellResult.data;
+
+    // 校验推送通知配置（OneSignal / FCM）
+    const pushResult = parsePushConfig(formData.get("pushConfig"));
+    if (!pushResult.success) {
+      return NextResponse.json(
+        { error: "Invalid push config", message: pushResult.error },
+        { status: 400 }
+      );
+    }
+    const pushConfig = pushResult.data;
+
+    // 校验深度链接配置（App Links / Universal Links 域名）
+    const deepLinkResult = parseDeepLinkConfig(formData.get("deepLinkConfig"));
+    if (!deepLinkResult.success) {
+      return NextResponse.json(
+        { error: "Invalid deep link config", message: deepLinkResult.error },
+        { status: 400 }
+      );
+    }
+    const deepLinkConfig = deepLinkResult.data;
+
+    // 校验图标样式（背景、边距、单色图层）
+    const iconStyleResult = parseIconStyleConfig(formData.get("iconStyle"));
+    if (!iconStyleResult.success) {
+      return NextResponse.json(
+        { error: "Invalid icon style", message: iconStyleResult.error },
+        { status: 400 }
+      );
+    }
+    const iconStyle = iconStyleResult.data;
+
     // 4. 检查配额
     const quotaCheck = await checkBuildQuota(user.id, 1);
     if (!quotaCheck.allowed) {
@@ -68,6 +126,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // 发放版本号（GitHub 构建以 Supabase 用户为准），发放失败时拒绝构建并退还配额
+    let buildNumber: string;
+    try {
+      buildNumber = await issueVersionCode(
+        getVersionCodeStore("supabase"),
+        user.id,
+        "ios",
+        bundleId,
+        requestedBuildNumber
+      );
+    } catch (error) {
+      console.error("[iOS IPA Build] Version code error:", error);
+      await refundBuildQuota(user.id, 1);
+      return NextResponse.json(
+        { error: "Version code unavailable", message: "Failed to issue a version code, please try again" },
+        { status: 503 }
+      );
+    }
+
     // 6. 计算过期时间
     const wallet = await getEffectiveSupabaseUserWallet(user.id);
     const expireDays = getPlanBuildExpireDays(wallet?.plan || "Free");
@@ -78,6 +155,9 @@ export async function POST(request: NextRequest) {
     const buildRecordData = {
       user_id: user.id,
       platform: "ios-ipa" as const,
+      push_provider: getPushProvider(pushConfig, "ios"),
+      deep_link_config: deepLinkConfig,
+      config_snapshot: parseBuildConfigSnapshot({ shellConfig, pushConfig, iconStyle }),
       status: "pending" as const,
       progress: 0,
       app_name: appName,
@@ -129,10 +209,12 @@ export async function POST(request: NextRequest) {
     });
 
     // 8. 异步处理构建（立即返回给用户）
-    waitUntil(processIOSIpaBuildAsync(serviceClient, buildId, {
-      url, appName, bundleId, versionString, buildNumber, privacyPolicy,
-      iconPath: preUploadedIconPath, userId: user.id,
-    }));
+    waitUntil(runWithBuildLog(createBuildLogSink("cloudbase", buildId, "ios-ipa"), () =>
+      processIOSIpaBuildAsync(serviceClient, buildId, {
+        url, appName, bundleId, versionString, buildNumber, privacyPolicy,
+        iconPath: preUploadedIconPath, iconStyle, shellConfig, pushConfig, deepLinkConfig, userId: user.id,
+      })
+    ));
 
     // 触发额度刷新
     return NextResponse.json({
@@ -175,7 +257,7 @@ async function processIOSIpaBuildAsync(
   params: {
     url: string; appName: string; bundleId: string;
     versionString: string; buildNumber: string; privacyPolicy: string;
-    iconPath: string | null; userId: string;
+    iconPath: string | null; iconStyle: IconStyleConfig | null; shellConfig: NativeShellConfig | null; pushConfig: PushConfig | null; deepLinkConfig: DeepLinkConfig | null; userId: string;
   }
 ) {
   try {
@@ -186,7 +268,7 @@ async function processIOSIpaBuildAsync(
     syncCloudBaseProgress(buildId, { status: "processing", progress: 10 });
 
     // 步骤 1: 生成 iOS Source
-    console.log(`[iOS IPA Build ${buildId}] Step 1: Generating iOS Source...`);
+    buildLog.info("Step 1: Generating iOS Source...");
     await processiOSBuild(buildId, {
       url: params.url,
       appName: params.appName,
@@ -195,12 +277,22 @@ async function processIOSIpaBuildAsync(
       buildNumber: params.buildNumber,
       privacyPolicy: params.privacyPolicy,
       iconPath: params.iconPath,
+      iconStyle: params.iconStyle,
+      shellConfig: params.shellConfig,
+      pushConfig: params.pushConfig,
+      deepLinkConfig: params.deepLinkConfig,
     }, { skipFinalStatus: true });
 
     // 获取生成的源文件路径（ios-builder 存的是 output_file_path，不是 download_url）
     const { data: sourceBuild } = await serviceClient
       .from("builds").select("output_file_path, status").eq("id", buildId).single();
 
+    // 用户已取消：源码生成已在阶段边界中止，不再触发云端编译
+    if (sourceBuild?.status === "cancelled") {
+      console.log(`[iOS IPA Build ${buildId}] Cancelled before triggering GitHub Actions`);
+      return;
+    }
+
     if (!sourceBuild?.output_file_path || sourceBuild.status === "failed") {
       throw new Error("Failed to generate iOS Source - build failed or no output file");
     }
@@ -223,7 +315,7 @@ async function processIOSIpaBuildAsync(
     syncCloudBaseProgress(buildId, { progress: 96 });
 
     // 步骤 2: 触发 GitHub Actions 构建
-    console.log(`[iOS IPA Build ${buildId}] Step 2: Triggering GitHub Actions...`);
+    buildLog.info("Step 2: Triggering GitHub Actions...");
     const callbackUrl = `${process.env.NEXT_PUBLIC_APP_URL}/api/domestic/builds/${buildId}/github-callback`;
 
     const githubResult = await triggerGitHubBuild({
@@ -234,7 +326,17 @@ async function processIOSIpaBuildAsync(
       throw new Error(`GitHub Actions trigger failed: ${githubResult.error}`);
     }
 
-    console.log(`[iOS IPA Build ${buildId}] GitHub Actions triggered, runId: ${githubResult.runId}`);
+    buildLog.info(`GitHub Actions triggered, runId: ${githubResult.runId}`);
+
+    // 触发期间被取消时，立即取消刚启动的 workflow
+    if (await isBuildCancelled(serviceClient, buildId)) {
+      if (githubResult.runId) {
+        await cancelGitHubBuild(githubResult.runId, "ios-ipa");
+      }
+      console.log(`[iOS IPA Build ${buildId}] Cancelled while triggering GitHub Actions`);
+      return;
+    }
+
     await serviceClient.from("builds").update({
       status: "processing", progress: 97,
       github_run_id: githubResult.runId || null,
@@ -243,6 +345,9 @@ async function processIOSIpaBuildAsync(
     syncCloudBaseProgress(buildId, { status: "processing", progress: 97, github_run_id: githubResult.runId || null });
 
   } catch (error) {
+    // 已取消的构建由取消接口退还额度
+    if (await isBuildCancelled(serviceClient, buildId)) return;
+
     console.error(`[iOS IPA Build ${buildId}] Error:`, error);
     await serviceClient.from("builds").update({
       status: "failed",
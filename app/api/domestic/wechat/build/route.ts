@@ -1,66 +1,13 @@
 /**
- * 国内版微信小程序构建 API
+ * 国内版 微信小程序 构建 API
+ * 表单解析和构建流程见 lib/services/build-orchestrator
  */
 
-import { NextRequest, NextResponse } from "next/server";
-import { authenticateUser, checkAndDeductQuota, createBuildRecord, updateBuildStatus } from "@/lib/domestic/build-helpers";
-import { processWechatBuildDomestic } from "@/lib/services/domestic/wechat-builder";
+import { NextRequest } from "next/server";
+import { getBuildOrchestrator } from "@/lib/services/build-orchestrator";
 
 export const maxDuration = 120;
 
 export async function POST(request: NextRequest) {
-  try {
-    const authResult = await authenticateUser();
-    if (!authResult.success || !authResult.user) {
-      return NextResponse.json({ error: "Unauthorized", message: authResult.error }, { status: authResult.status || 401 });
-    }
-    const user = authResult.user;
-
-    const formData = await request.formData();
-    const url = formData.get("url") as string;
-    const appName = formData.get("appName") as string;
-    const appId = formData.get("appId") as string;
-
-    if (!url || !appName) {
-      return NextResponse.json({ error: "Missing required fields", message: "url and appName are required" }, { status: 400 });
-    }
-
-    const quotaResult = await checkAndDeductQuota(user.id, 1);
-    if (!quotaResult.success) {
-      return NextResponse.json({ error: "Quota exceeded", message: quotaResult.error }, { status: 429 });
-    }
-
-    const buildResult = await createBuildRecord({
-      userId: user.id,
-      platform: "wechat",
-      appName,
-      url,
-      extraData: { app_id: appId },
-    });
-
-    if (!buildResult.success || !buildResult.buildId) {
-      return NextResponse.json({ error: "Failed to create build", message: buildResult.error }, { status: 500 });
-    }
-
-    processWechatBuildDomesticAsync(buildResult.buildId, { url, appName, appId }).catch(console.error);
-
-    return NextResponse.json({ success: true, buildId: buildResult.buildId, message: "Build started successfully", status: "pending" });
-  } catch (error) {
-    console.error("[Domestic Wechat Build API] Error:", error);
-    return NextResponse.json({ error: "Internal server error", message: "An unexpected error occurred" }, { status: 500 });
-  }
-}
-
-async function processWechatBuildDomesticAsync(buildId: string, params: { url: string; appName: string; appId?: string }) {
-  try {
-    await updateBuildStatus(buildId, "processing");
-    await processWechatBuildDomestic(buildId, {
-      url: params.url,
-      appName: params.appName,
-      appId: params.appId || "",
-      version: "1.0.0",
-    });
-  } catch (error) {
-    await updateBuildStatus(buildId, "failed", { error_message: error instanceof Error ? error.message : "Unknown error" });
-  }
+  return getBuildOrchestrator("cloudbase").handle(request, "wechat");
 }
@@ -0,0 +1,39 @@
+/**
+ * 取消构建
+ * 置为 cancelled、停止队列任务 / GitHub Actions 运行并退还额度，进行中的构建在下一阶段中止
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { cancelSupabaseBuild } from "@/lib/services/build-cancellation";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized", message: "Please login to cancel build" },
+        { status: 401 }
+      );
+    }
+
+    const result = await cancelSupabaseBuild(user.id, id);
+    if (!result.success) {
+      return NextResponse.json({ error: result.error, message: result.message }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, status: "cancelled", githubCancelled: result.githubCancelled });
+  } catch (error) {
+    console.error("Cancel build API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "An unexpected error occurred" },
+      { status: 500 }
+    );
+  }
+}
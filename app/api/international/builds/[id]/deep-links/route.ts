@@ -0,0 +1,68 @@
+/**
+ * 深度链接验证文件下载
+ * GET ?file=assetlinks.json | apple-app-site-association
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { DEEP_LINK_FILES, renderDeepLinkFile, type DeepLinkFileName } from "@/lib/services/deep-links";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const fileName = request.nextUrl.searchParams.get("file") as DeepLinkFileName | null;
+
+    if (!fileName || !DEEP_LINK_FILES.includes(fileName)) {
+      return NextResponse.json(
+        { error: "Invalid file", message: `file must be one of: ${DEEP_LINK_FILES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized", message: "Please login to download files" },
+        { status: 401 }
+      );
+    }
+
+    const { data: build, error: queryError } = await supabase
+      .from("builds")
+      .select("user_id, platform, package_name, deep_link_config")
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .single();
+
+    if (queryError || !build) {
+      return NextResponse.json(
+        { error: "Not found", message: "Build not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = await renderDeepLinkFile(build, fileName);
+    if (!result.success) {
+      return NextResponse.json({ error: "Unavailable", message: result.error }, { status: result.status });
+    }
+
+    return new NextResponse(result.content, {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Deep link file API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "An unexpected error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * 构建日志
+ * 返回构建步骤日志；GitHub Actions 云端构建（APK/IPA/HAP）同时返回对应运行的 job 步骤和日志
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createClient, createServiceClient } from "@/lib/supabase/server";
+import { getBuildLogs } from "@/lib/services/build-logs";
+import { getGitHubRunLogs } from "@/lib/services/github-builder";
+import { GITHUB_SYNC_PLATFORMS } from "@/lib/services/github-build-sync";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: "Unauthorized", message: "Please login to view build logs" },
+        { status: 401 }
+      );
+    }
+
+    const { data: build } = await createServiceClient()
+      .from("builds")
+      .select("id, platform, status, github_run_id")
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .single();
+
+    if (!build) {
+      return NextResponse.json({ error: "Not found", message: "Build not found" }, { status: 404 });
+    }
+
+    const logs = await getBuildLogs("supabase", id);
+
+    let github = null;
+    if (GITHUB_SYNC_PLATFORMS.includes(build.platform) && build.github_run_id) {
+      const result = await getGitHubRunLogs(String(build.github_run_id), build.platform);
+      github = { runId: String(build.github_run_id), jobs: result.jobs || [], error: result.error };
+    }
+
+    return NextResponse.json({ platform: build.platform, status: build.status, logs, github });
+  } catch (error) {
+    console.error("Build logs API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "An unexpected error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient, createServiceClient } from "@/lib/supabase/server";
+import { deleteBuildLogs } from "@/lib/services/build-logs";
 
 // Check if a build is expired
 function isExpired(expiresAt: string): boolean {
@@ -9,16 +10,28 @@ function isExpired(expiresAt: string): boolean {
 // Clean up expired build files (delete files but keep record)
 async function cleanupExpiredBuild(
   serviceClient: ReturnType<typeof createServiceClient>,
-  build: { id: string; output_file_path: string | null; icon_path: string | null }
+  build: {
+    id: string;
+    output_file_path: string | null;
+    aab_file_path?: string | null;
+    icon_path: string | null;
+    preview_qr_path?: string | null;
+  }
 ): Promise<void> {
   const filesToDelete: string[] = [];
 
   if (build.output_file_path) {
     filesToDelete.push(build.output_file_path);
   }
+  if (build.aab_file_path) {
+    filesToDelete.push(build.aab_file_path);
+  }
   if (build.icon_path) {
     filesToDelete.push(build.icon_path);
   }
+  if (build.preview_qr_path) {
+    filesToDelete.push(build.preview_qr_path);
+  }
 
   if (filesToDelete.length > 0) {
     await serviceClient.storage.from("user-builds").remove(filesToDelete);
@@ -27,7 +40,7 @@ async function cleanupExpiredBuild(
   // Update build record to mark files as cleaned
   await serviceClient
     .from("builds")
-    .update({ output_file_path: null, icon_path: null })
+    .update({ output_file_path: null, aab_file_path: null, icon_path: null, preview_qr_path: null })
     .eq("id", build.id);
 }
 
@@ -75,8 +88,11 @@ export async function GET(
         build: {
           ...build,
           output_file_path: null,
+          aab_file_path: null,
           icon_path: null,
+          preview_qr_path: null,
           downloadUrl: null,
+          aabDownloadUrl: null,
           expired: true,
         },
       });
@@ -92,10 +108,32 @@ export async function GET(
       downloadUrl = signedUrl?.signedUrl || null;
     }
 
+    // Release Android builds also ship an AAB
+    let aabDownloadUrl: string | null = null;
+    if (build.status === "completed" && build.aab_file_path) {
+      const { data: signedUrl } = await serviceClient.storage
+        .from("user-builds")
+        .createSignedUrl(build.aab_file_path, 3600);
+
+      aabDownloadUrl = signedUrl?.signedUrl || null;
+    }
+
+    // 图标链接（「修改后重新构建」时生成器重新载入图标）
+    let iconUrl: string | null = null;
+    if (build.icon_path) {
+      const { data: signedUrl } = await serviceClient.storage
+        .from("user-builds")
+        .createSignedUrl(build.icon_path, 3600);
+
+      iconUrl = signedUrl?.signedUrl || null;
+    }
+
     return NextResponse.json({
       build: {
         ...build,
         downloadUrl,
+        aabDownloadUrl,
+        iconUrl,
       },
     });
   } catch (error) {
@@ -147,12 +185,24 @@ export async function DELETE(
         .remove([build.output_file_path]);
     }
 
+    if (build.aab_file_path) {
+      await serviceClient.storage
+        .from("user-builds")
+        .remove([build.aab_file_path]);
+    }
+
     if (build.icon_path) {
       await serviceClient.storage
         .from("user-builds")
         .remove([build.icon_path]);
     }
 
+    if (build.preview_qr_path) {
+      await serviceClient.storage
+        .from("user-builds")
+        .remove([build.preview_qr_path]);
+    }
+
     // Delete build record
     const { error: deleteError } = await serviceClient
       .from("builds")
@@ -167,6 +217,10 @@ export async function DELETE(
       );
     }
 
+    await deleteBuildLogs("supabase", id).catch((err) => {
+      console.error("Delete build logs error:", err);
+    });
+
     return NextResponse.json({
       success: true,
       message: "Build deleted successfully",
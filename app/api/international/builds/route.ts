@@ -55,14 +55,17 @@ export async function GET(request: NextRequest) {
     const serviceClient = createServiceClient();
 
     // Process builds: clean up expired ones and get icon URLs
+    // 配置快照可能较大，列表不返回（构建对比和重新构建从构建详情读取）
     const buildsWithIcons = await Promise.all(
-      (builds || []).map(async (build) => {
+      (builds || []).map(async ({ config_snapshot: _configSnapshot, ...build }) => {
         // Check if build is expired and has files to clean
         if (build.expires_at && isExpired(build.expires_at) && (build.output_file_path || build.icon_path)) {
           // Clean up expired build files in background
           const filesToDelete: string[] = [];
           if (build.output_file_path) filesToDelete.push(build.output_file_path);
+          if (build.aab_file_path) filesToDelete.push(build.aab_file_path);
           if (build.icon_path) filesToDelete.push(build.icon_path);
+          if (build.preview_qr_path) filesToDelete.push(build.preview_qr_path);
 
           if (filesToDelete.length > 0) {
             // 使用 waitUntil 确保清理任务完成
@@ -76,26 +79,40 @@ export async function GET(request: NextRequest) {
             Promise.resolve(
               serviceClient
                 .from("builds")
-                .update({ output_file_path: null, icon_path: null })
+                .update({ output_file_path: null, aab_file_path: null, icon_path: null, preview_qr_path: null })
                 .eq("id", build.id)
             ).then(() => {})
           );
 
-          return { ...build, output_file_path: null, icon_path: null, icon_url: null };
+          return { ...build, output_file_path: null, icon_path: null, icon_url: null, preview_qr_url: null };
         }
 
         // Get icon URL for non-expired builds with icons
+        let iconUrl: string | null = null;
         if (build.icon_path) {
           try {
             const { data } = await serviceClient.storage
               .from("user-builds")
               .createSignedUrl(build.icon_path, 3600);
-            return { ...build, icon_url: data?.signedUrl || null };
+            iconUrl = data?.signedUrl || null;
           } catch {
-            return { ...build, icon_url: null };
+            iconUrl = null;
           }
         }
-        return { ...build, icon_url: null };
+
+        // 微信小程序自动上传生成的预览二维码
+        let previewQrUrl: string | null = null;
+        if (build.preview_qr_path) {
+          try {
+            const { data } = await serviceClient.storage
+              .from("user-builds")
+              .createSignedUrl(build.preview_qr_path, 3600);
+            previewQrUrl = data?.signedUrl || null;
+          } catch {
+            previewQrUrl = null;
+          }
+        }
+        return { ...build, icon_url: iconUrl, preview_qr_url: previewQrUrl };
       })
     );
 
@@ -118,6 +135,8 @@ export async function GET(request: NextRequest) {
       android: counts?.filter((b) => b.platform === "android").length || 0,
       ios: counts?.filter((b) => b.platform === "ios").length || 0,
       wechat: counts?.filter((b) => b.platform === "wechat").length || 0,
+      alipay: counts?.filter((b) => b.platform === "alipay").length || 0,
+      xiaohongshu: counts?.filter((b) => b.platform === "xiaohongshu").length || 0,
       harmonyos: counts?.filter((b) => b.platform === "harmonyos").length || 0,
       windows: counts?.filter((b) => b.platform === "windows").length || 0,
       macos: counts?.filter((b) => b.platform === "macos").length || 0,
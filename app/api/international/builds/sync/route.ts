@@ -0,0 +1,36 @@
+/**
+ * GitHub Actions 构建同步任务
+ * 下载已完成的云端构建产物并更新构建记录（Vercel Cron 每分钟调用，也可手动 POST 触发）
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { verifyWorkerToken } from "@/lib/services/build-queue";
+import { syncGitHubBuilds } from "@/lib/services/github-build-sync";
+
+// 需要下载并上传 artifact
+export const maxDuration = 120;
+
+async function handleSync(request: NextRequest) {
+  if (!verifyWorkerToken(request.headers.get("authorization"))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await syncGitHubBuilds();
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("[GitHub Sync API] Error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handleSync(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleSync(request);
+}
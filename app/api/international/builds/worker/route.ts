@@ -0,0 +1,38 @@
+/**
+ * 构建任务 worker
+ * 先回收租约过期的任务，再领取到期任务执行（Vercel Cron 每分钟调用，也可手动 POST 触发）
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { reapStaleBuildJobs, runBuildWorker, verifyWorkerToken } from "@/lib/services/build-queue";
+
+// 构建执行时间较长（任务租约在执行期间续期，不受这里的时长限制）
+export const maxDuration = 300;
+
+async function handleWorker(request: NextRequest) {
+  if (!verifyWorkerToken(request.headers.get("authorization"))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const reaped = await reapStaleBuildJobs();
+    const limit = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get("limit") || "1", 10) || 1, 1), 5);
+    const { workerId, processed } = await runBuildWorker({ limit });
+
+    return NextResponse.json({ success: true, workerId, reaped, processed });
+  } catch (error) {
+    console.error("[Build Worker API] Error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handleWorker(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleWorker(request);
+}
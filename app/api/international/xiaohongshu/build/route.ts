@@ -0,0 +1,13 @@
+/**
+ * 国际版 小红书小程序 构建 API
+ * 表单解析和构建流程见 lib/services/build-orchestrator
+ */
+
+import { NextRequest } from "next/server";
+import { getBuildOrchestrator } from "@/lib/services/build-orchestrator";
+
+export const maxDuration = 120;
+
+export async function POST(request: NextRequest) {
+  return getBuildOrchestrator("supabase").handle(request, "xiaohongshu");
+}
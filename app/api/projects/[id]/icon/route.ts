@@ -0,0 +1,131 @@
+/**
+ * 应用项目图标 API
+ * 每个平台保存一份图标（统一转为 PNG），替换时删除旧文件
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import sharp from "sharp";
+import { isProjectIconPlatform, PROJECT_ICON_PLATFORMS } from "@/lib/config/app-project";
+import { isIconUploadEnabled, validateImageSize } from "@/lib/config/upload";
+import { getAppProjectStore } from "@/lib/services/app-projects";
+
+export const maxDuration = 60;
+
+function notFound() {
+  return NextResponse.json({ error: "Not found", message: "Project not found" }, { status: 404 });
+}
+
+function invalidPlatform() {
+  return NextResponse.json(
+    { error: "Invalid platform", message: `platform must be one of: ${PROJECT_ICON_PLATFORMS.join(", ")}` },
+    { status: 400 }
+  );
+}
+
+/**
+ * POST /api/projects/[id]/icon
+ * 表单字段：icon（图片文件）、platform
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const store = getAppProjectStore();
+    const authResult = await store.authenticate();
+    if (!authResult.success) {
+      return NextResponse.json(authResult.error.body, { status: authResult.error.status });
+    }
+
+    const formData = await request.formData();
+    const icon = formData.get("icon") as File | null;
+    const platform = formData.get("platform");
+    if (!icon) {
+      return NextResponse.json({ error: "Missing required fields", message: "icon is required" }, { status: 400 });
+    }
+    if (!isProjectIconPlatform(platform)) return invalidPlatform();
+
+    if (!isIconUploadEnabled()) {
+      return NextResponse.json({ error: "Icon upload disabled" }, { status: 400 });
+    }
+    const sizeValidation = validateImageSize(icon.size);
+    if (!sizeValidation.valid) {
+      return NextResponse.json(
+        { error: "Icon too large", message: `Icon size exceeds ${sizeValidation.maxSizeMB} MB` },
+        { status: 400 }
+      );
+    }
+
+    const { userId } = authResult.data;
+    const project = await store.get(userId, id);
+    if (!project) return notFound();
+
+    let iconBuffer: Buffer;
+    try {
+      iconBuffer = await sharp(Buffer.from(await icon.arrayBuffer())).png().toBuffer();
+    } catch {
+      return NextResponse.json({ error: "Invalid icon", message: "Icon must be a valid image" }, { status: 400 });
+    }
+
+    const iconPath = store.getIconPath(userId, id, platform);
+    await store.uploadFile(iconPath, iconBuffer, "image/png");
+
+    const previousPath = project.icon_paths?.[platform];
+    const updated = await store.update(userId, id, {
+      icon_paths: { ...project.icon_paths, [platform]: iconPath },
+    });
+    if (!updated) {
+      await store.deleteFiles([iconPath]);
+      return notFound();
+    }
+    if (previousPath) await store.deleteFiles([previousPath]);
+
+    return NextResponse.json({ success: true, iconPath, iconUrl: await store.getFileUrl(iconPath) });
+  } catch (error) {
+    console.error("[Projects API] Icon upload error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "An unexpected error occurred" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/icon?platform=android
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const store = getAppProjectStore();
+    const authResult = await store.authenticate();
+    if (!authResult.success) {
+      return NextResponse.json(authResult.error.body, { status: authResult.error.status });
+    }
+
+    const platform = new URL(request.url).searchParams.get("platform");
+    if (!isProjectIconPlatform(platform)) return invalidPlatform();
+
+    const { userId } = authResult.data;
+    const project = await store.get(userId, id);
+    if (!project) return notFound();
+
+    const iconPath = project.icon_paths?.[platform];
+    if (iconPath) {
+      const { [platform]: _removed, ...iconPaths } = project.icon_paths;
+      await store.update(userId, id, { icon_paths: iconPaths });
+      await store.deleteFiles([iconPath]);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Projects API] Icon delete error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "An unexpected error occurred" },
+      { status: 500 }
+    );
+  }
+}
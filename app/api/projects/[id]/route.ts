@@ -0,0 +1,90 @@
+/**
+ * 单个应用项目 API
+ * GET 返回完整配置和各平台图标链接（用于预填生成器），PATCH 更新，DELETE 删除（构建记录保留）
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { parseAppProjectInput } from "@/lib/config/app-project";
+import { getAppProjectStore, withProjectIconUrls } from "@/lib/services/app-projects";
+
+function notFound() {
+  return NextResponse.json({ error: "Not found", message: "Project not found" }, { status: 404 });
+}
+
+function internalError(error: unknown) {
+  console.error("[Projects API] Error:", error);
+  return NextResponse.json(
+    { error: "Internal server error", message: "An unexpected error occurred" },
+    { status: 500 }
+  );
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const store = getAppProjectStore();
+    const authResult = await store.authenticate();
+    if (!authResult.success) {
+      return NextResponse.json(authResult.error.body, { status: authResult.error.status });
+    }
+
+    const project = await store.get(authResult.data.userId, id);
+    if (!project) return notFound();
+
+    return NextResponse.json({ project: await withProjectIconUrls(store, project) });
+  } catch (error) {
+    return internalError(error);
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const store = getAppProjectStore();
+    const authResult = await store.authenticate();
+    if (!authResult.success) {
+      return NextResponse.json(authResult.error.body, { status: authResult.error.status });
+    }
+
+    const parsed = parseAppProjectInput(await request.json().catch(() => null), { partial: true });
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid project", message: parsed.error }, { status: 400 });
+    }
+
+    const project = await store.update(authResult.data.userId, id, parsed.data);
+    if (!project) return notFound();
+
+    return NextResponse.json({ project: await withProjectIconUrls(store, project) });
+  } catch (error) {
+    return internalError(error);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const store = getAppProjectStore();
+    const authResult = await store.authenticate();
+    if (!authResult.success) {
+      return NextResponse.json(authResult.error.body, { status: authResult.error.status });
+    }
+
+    const { userId } = authResult.data;
+    const project = await store.get(userId, id);
+    if (!project || !(await store.remove(userId, id))) return notFound();
+
+    await store.deleteFiles(Object.values(project.icon_paths || {}).filter((path): path is string => !!path));
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return internalError(error);
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * 应用项目 API
+ * 后端（Supabase / CloudBase）按当前部署版本选择
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { parseAppProjectInput } from "@/lib/config/app-project";
+import { getAppProjectStore } from "@/lib/services/app-projects";
+
+/**
+ * GET /api/projects
+ * 当前用户的项目列表（按最近更新时间倒序），icon_url 为第一个平台图标
+ */
+export async function GET() {
+  try {
+    const store = getAppProjectStore();
+    const authResult = await store.authenticate();
+    if (!authResult.success) {
+      return NextResponse.json(authResult.error.body, { status: authResult.error.status });
+    }
+
+    const projects = await store.list(authResult.data.userId);
+    const projectsWithIcons = await Promise.all(
+      projects.map(async (project) => {
+        const iconPath = Object.values(project.icon_paths || {}).find(Boolean);
+        return { ...project, icon_url: iconPath ? await store.getFileUrl(iconPath) : null };
+      })
+    );
+
+    return NextResponse.json({ projects: projectsWithIcons });
+  } catch (error) {
+    console.error("[Projects API] List error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "An unexpected error occurred" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/projects
+ * 创建项目（name、url、config），图标通过 /api/projects/[id]/icon 单独上传
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const store = getAppProjectStore();
+    const authResult = await store.authenticate();
+    if (!authResult.success) {
+      return NextResponse.json(authResult.error.body, { status: authResult.error.status });
+    }
+
+    const parsed = parseAppProjectInput(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid project", message: parsed.error }, { status: 400 });
+    }
+
+    const project = await store.create(authResult.data.userId, parsed.data);
+    return NextResponse.json({ project: { ...project, icon_urls: {} } }, { status: 201 });
+  } catch (error) {
+    console.error("[Projects API] Create error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "An unexpected error occurred" },
+      { status: 500 }
+    );
+  }
+}
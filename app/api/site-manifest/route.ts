@@ -0,0 +1,50 @@
+/**
+ * 网站信息自动导入 API
+ * 抓取目标网页的标题、主题色、Web App Manifest 和图标，作为生成器的默认值
+ * 需要登录（服务端代为请求任意网址），国际版 / 国内版共用
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { IS_DOMESTIC_VERSION } from "@/config";
+import { parseSiteUrl } from "@/lib/config/site-manifest";
+import { buildBackends } from "@/lib/services/build-orchestrator/backends";
+import { importSiteManifest } from "@/lib/services/site-manifest";
+
+/**
+ * POST /api/site-manifest
+ * body: { url }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await buildBackends[IS_DOMESTIC_VERSION ? "cloudbase" : "supabase"].authenticate();
+    if (!authResult.success) {
+      return NextResponse.json(authResult.error.body, { status: authResult.error.status });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = parseSiteUrl(body?.url);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid URL", message: parsed.error }, { status: 400 });
+    }
+
+    try {
+      const result = await importSiteManifest(parsed.data.toString());
+      return NextResponse.json({ site: result });
+    } catch (error) {
+      console.warn(`[Site Manifest API] Failed to fetch ${parsed.data.toString()}:`, error);
+      return NextResponse.json(
+        {
+          error: "Fetch failed",
+          message: error instanceof Error ? error.message : "Failed to fetch the website",
+        },
+        { status: 422 }
+      );
+    }
+  } catch (error) {
+    console.error("[Site Manifest API] Error:", error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "An unexpected error occurred" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useLanguage } from "@/context/LanguageContext";
 import { useAuth } from "@/context/AuthContext";
 import { api } from "@/lib/api";
@@ -32,14 +32,35 @@ import {
   ChevronRight,
   HardDrive,
   Share2,
+  Link2,
+  Ban,
+  ScrollText,
+  Wallet,
+  Bookmark,
+  QrCode,
+  UploadCloud,
+  FolderOpen,
+  Hammer,
+  GitCompare,
+  PencilLine,
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
 import Image from "next/image";
 import { ShareModal } from "@/components/share/share-modal";
 import { BuildProgressBarCompact } from "@/components/build/build-progress-bar";
-
-type BuildStatus = "pending" | "processing" | "completed" | "failed";
+import { useActiveBuildEvents } from "@/hooks/use-build-events";
+import { BuildLogsDrawer } from "@/components/build/build-logs-drawer";
+import { BuildDiffDialog } from "@/components/build/build-diff-dialog";
+import { isSameApp } from "@/lib/builds/diff";
+import { ACTIVE_BUILD_STATUSES, TERMINAL_BUILD_STATUSES, type BuildProgressEvent } from "@/lib/build-progress";
+import { getLinuxPackageLabel, isLinuxPackageFormat } from "@/lib/config/linux-packaging";
+import { getMacOSPackageLabel, isMacOSPackageFormat } from "@/lib/config/macos-packaging";
+import { getWindowsPackageLabel } from "@/lib/config/windows-installer";
+import { getBrowserExtensionTargetLabel, parseBrowserExtensionPackageFormat } from "@/lib/config/browser-extension";
+import { fetchAppProjects, type AppProjectSummary } from "@/lib/projects/client";
+
+type BuildStatus = "pending" | "processing" | "completed" | "failed" | "cancelled";
 type CategoryFilter = "all" | "mobile" | "miniprogram" | "desktop" | "browser" | "expired";
 
 // Check if a build is expired
@@ -50,7 +71,7 @@ function isExpired(expiresAt: string): boolean {
 // Category classification helper
 function getBuildCategory(platform: string): "mobile" | "miniprogram" | "desktop" | "browser" {
   if (platform === "android-source" || platform === "android-apk" || platform === "ios" || platform === "ios-ipa" || platform === "harmonyos" || platform === "harmonyos-source" || platform === "harmonyos-hap") return "mobile";
-  if (platform === "wechat") return "miniprogram";
+  if (platform === "wechat" || platform === "alipay" || platform === "xiaohongshu") return "miniprogram";
   if (platform === "chrome") return "browser";
   return "desktop"; // windows, macos, linux, etc.
 }
@@ -93,6 +114,10 @@ function BuildIcon({ build, getPlatformIcon, priority = false }: {
         return "bg-gradient-to-br from-gray-500/10 to-gray-600/10 dark:from-gray-500/20 dark:to-gray-600/20 text-gray-600 dark:text-gray-400";
       case "wechat":
         return "bg-gradient-to-br from-[#07C160]/10 to-[#07C160]/20 dark:from-[#07C160]/15 dark:to-[#07C160]/25 text-[#07C160]";
+      case "alipay":
+        return "bg-gradient-to-br from-[#1677FF]/10 to-[#1677FF]/20 dark:from-[#1677FF]/15 dark:to-[#1677FF]/25 text-[#1677FF]";
+      case "xiaohongshu":
+        return "bg-gradient-to-br from-[#FF2442]/10 to-[#FF2442]/20 dark:from-[#FF2442]/15 dark:to-[#FF2442]/25 text-[#FF2442]";
       case "harmonyos":
         return "bg-gradient-to-br from-[#E52828]/10 to-[#E52828]/20 dark:from-[#E52828]/15 dark:to-[#E52828]/25 text-[#E52828] dark:text-[#FF4D4D]";
       case "chrome":
@@ -121,10 +146,20 @@ interface BuildItem {
   version_name: string;
   version_code: string;
   url: string;
+  privacy_policy?: string | null;
   platform: string;
   status: BuildStatus;
   progress: number;
   output_file_path: string | null;
+  aab_file_path?: string | null;
+  deep_link_config?: { domains: string[] } | null;
+  package_format?: string | null;
+  push_provider?: string | null;
+  build_type?: string | null;
+  // 微信小程序自动上传
+  uploaded_version?: string | null;
+  upload_description?: string | null;
+  preview_qr_url?: string | null;
   error_message: string | null;
   created_at: string;
   expires_at: string;
@@ -132,6 +167,8 @@ interface BuildItem {
   icon_url: string | null;
   file_size: number | null;
   downloadUrl?: string;
+  // 所属应用项目（批量构建时关联）
+  project_id?: string | null;
 }
 
 // 每页显示数量
@@ -190,6 +227,10 @@ export default function BuildsClient() {
   const [batchBuildEnabled, setBatchBuildEnabled] = useState(false);
   const [shareModalOpen, setShareModalOpen] = useState(false);
   const [shareBuild, setShareBuild] = useState<{ id: string; name: string; expiresAt: string } | null>(null);
+  const [logsBuild, setLogsBuild] = useState<{ id: string; name: string } | null>(null);
+  const [projects, setProjects] = useState<AppProjectSummary[]>([]);
+  const [groupByProject, setGroupByProject] = useState(false);
+  const [diffPair, setDiffPair] = useState<[BuildItem, BuildItem] | null>(null);
 
   // 获取用户钱包数据判断是否支持批量构建（根据套餐动态判断）
   useEffect(() => {
@@ -232,6 +273,11 @@ export default function BuildsClient() {
         }
       });
       setCategoryStats(catStats);
+
+      // 项目列表只用于分组展示，加载失败不影响构建列表
+      fetchAppProjects()
+        .then(setProjects)
+        .catch((error) => console.error("Fetch projects error:", error));
     } catch (error) {
       console.error("Fetch builds error:", error);
       toast.error(
@@ -252,13 +298,38 @@ export default function BuildsClient() {
     }
   }, [authLoading, user, fetchBuilds]);
 
-  // Polling for processing builds（优化轮询策略 - 只轮询构建中的记录）
-  useEffect(() => {
-    const hasProcessingBuilds = builds.some(
-      (b) => b.status === "pending" || b.status === "processing"
+  // SSE 推送的进度：构建结束时刷新完整列表（下载链接、产物大小等），否则只更新状态
+  const handleBuildEvent = useCallback((event: BuildProgressEvent) => {
+    if (TERMINAL_BUILD_STATUSES.includes(event.status)) {
+      fetchBuilds();
+      return;
+    }
+    setBuilds((prevBuilds) =>
+      prevBuilds.map((build) =>
+        build.id === event.buildId
+          ? { ...build, status: event.status as BuildStatus, progress: event.progress }
+          : build
+      )
     );
+  }, [fetchBuilds]);
+
+  // 只在有构建中的记录时保持 SSE 连接和轮询；依赖布尔值，推送更新 builds 时不会重建连接和定时器
+  const hasActiveBuilds = useMemo(
+    () => builds.some((b) => ACTIVE_BUILD_STATUSES.includes(b.status)),
+    [builds]
+  );
+  const buildsRef = useRef(builds);
+  buildsRef.current = builds;
+
+  // 整个列表共用一条 SSE 连接，事件按 buildId 分发给各卡片的进度条
+  const { events: buildEvents } = useActiveBuildEvents({
+    enabled: hasActiveBuilds,
+    onEvent: handleBuildEvent,
+  });
 
-    if (hasProcessingBuilds) {
+  // Polling for processing builds（SSE 的兜底 - 只轮询构建中的记录）
+  useEffect(() => {
+    if (hasActiveBuilds) {
       const pollProcessingBuilds = async () => {
         try {
           const response = await fetch(api.builds.polling());
@@ -266,7 +337,7 @@ export default function BuildsClient() {
             const { builds: processingBuilds } = await response.json();
 
             // 检查是否有构建从 processing 列表中消失（说明已完成）
-            const prevProcessingIds = builds
+            const prevProcessingIds = buildsRef.current
               .filter((b) => b.status === "pending" || b.status === "processing")
               .map((b) => b.id);
             const currentProcessingIds = processingBuilds.map((pb: any) => pb.id);
@@ -295,18 +366,19 @@ export default function BuildsClient() {
         }
       };
 
-      // 使用优化的轮询间隔（5秒），减少服务器负载
-      const interval = setInterval(pollProcessingBuilds, 5000);
+      // 支持 SSE 时进度由进度条实时推送，轮询降为 30 秒兜底；否则保持 5 秒
+      const pollInterval = typeof EventSource !== "undefined" ? 30000 : 5000;
+      const interval = setInterval(pollProcessingBuilds, pollInterval);
       return () => clearInterval(interval);
     }
-  }, [builds, fetchBuilds]);
+  }, [hasActiveBuilds, fetchBuilds]);
 
   const handleRefresh = () => {
     setRefreshing(true);
     fetchBuilds();
   };
 
-  const handleDownload = async (buildId: string) => {
+  const handleDownload = async (buildId: string, variant: "default" | "aab" = "default") => {
     try {
       const response = await fetch(api.builds.get(buildId));
       if (!response.ok) {
@@ -326,7 +398,8 @@ export default function BuildsClient() {
         return;
       }
 
-      if (data.build?.downloadUrl) {
+      const fileUrl = variant === "aab" ? data.build?.aabDownloadUrl : data.build?.downloadUrl;
+      if (fileUrl) {
         // 更严格的微信小程序环境检测
         const isMiniProgram = typeof window !== "undefined" &&
           (window as any).wx?.miniProgram &&
@@ -336,14 +409,14 @@ export default function BuildsClient() {
         if (isMiniProgram) {
           const mp = (window as any).wx.miniProgram;
           if (typeof mp.navigateTo === "function") {
-            const linkCopyPageUrl = "/pages/qrcode/qrcode?url=" + encodeURIComponent(data.build.downloadUrl);
+            const linkCopyPageUrl = "/pages/qrcode/qrcode?url=" + encodeURIComponent(fileUrl);
             mp.navigateTo({ url: linkCopyPageUrl });
             return;
           }
         }
 
         // 非小程序环境，正常打开下载链接
-        window.open(data.build.downloadUrl, "_blank");
+        window.open(fileUrl, "_blank");
       } else {
         throw new Error("No download URL available");
       }
@@ -355,6 +428,29 @@ export default function BuildsClient() {
     }
   };
 
+  // 下载深度链接验证文件（按构建记录实时生成）
+  const handleDownloadDeepLinkFile = async (buildId: string, file: "assetlinks.json" | "apple-app-site-association") => {
+    try {
+      const response = await fetch(api.builds.deepLinkFile(buildId, file));
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        toast.error(data?.message || (currentLanguage === "zh" ? "下载失败" : "Download failed"));
+        return;
+      }
+
+      const blob = await response.blob();
+      const objectUrl = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = objectUrl;
+      link.download = file;
+      link.click();
+      URL.revokeObjectURL(objectUrl);
+    } catch (error) {
+      console.error("Deep link file download error:", error);
+      toast.error(currentLanguage === "zh" ? "下载失败" : "Download failed");
+    }
+  };
+
   const handleSyncGitHub = async (buildId: string) => {
     try {
       toast.loading(
@@ -387,6 +483,33 @@ export default function BuildsClient() {
     }
   };
 
+  const handleCancel = async (buildId: string) => {
+    if (!confirm(currentLanguage === "zh" ? "确定要取消这个构建吗？额度将被退还。" : "Cancel this build? Your build quota will be refunded.")) {
+      return;
+    }
+
+    try {
+      const response = await fetch(api.builds.cancel(buildId), {
+        method: "POST",
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to cancel build");
+      }
+
+      toast.success(
+        currentLanguage === "zh" ? "构建已取消" : "Build cancelled"
+      );
+      fetchBuilds();
+    } catch (error) {
+      console.error("Cancel error:", error);
+      toast.error(
+        currentLanguage === "zh" ? "取消失败" : "Cancel failed"
+      );
+    }
+  };
+
   const handleDelete = async (buildId: string) => {
     if (!confirm(currentLanguage === "zh" ? "确定要删除这个构建吗？" : "Are you sure you want to delete this build?")) {
       return;
@@ -478,6 +601,8 @@ export default function BuildsClient() {
         return <CheckCircle2 className="h-4 w-4" />;
       case "failed":
         return <AlertCircle className="h-4 w-4" />;
+      case "cancelled":
+        return <Ban className="h-4 w-4" />;
     }
   };
 
@@ -487,6 +612,7 @@ export default function BuildsClient() {
       processing: currentLanguage === "zh" ? "构建中" : "Building",
       completed: currentLanguage === "zh" ? "已完成" : "Completed",
       failed: currentLanguage === "zh" ? "失败" : "Failed",
+      cancelled: currentLanguage === "zh" ? "已取消" : "Cancelled",
     };
     return texts[status];
   };
@@ -501,6 +627,8 @@ export default function BuildsClient() {
         return "text-emerald-600 dark:text-emerald-400 bg-emerald-50 dark:bg-emerald-500/10 border-emerald-200 dark:border-emerald-500/20";
       case "failed":
         return "text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-500/10 border-red-200 dark:border-red-500/20";
+      case "cancelled":
+        return "text-gray-600 dark:text-gray-400 bg-gray-100 dark:bg-gray-800 border-gray-300 dark:border-gray-600";
     }
   };
 
@@ -512,6 +640,10 @@ export default function BuildsClient() {
         return <Apple className="h-5 w-5" />;
       case "wechat":
         return <MessageCircle className="h-5 w-5" />;
+      case "alipay":
+        return <Wallet className="h-5 w-5" />;
+      case "xiaohongshu":
+        return <Bookmark className="h-5 w-5" />;
       case "harmonyos":
         return <Hexagon className="h-5 w-5" />;
       case "chrome":
@@ -539,6 +671,10 @@ export default function BuildsClient() {
         return "iOS-IPA";
       case "wechat":
         return "WeChat";
+      case "alipay":
+        return "Alipay";
+      case "xiaohongshu":
+        return "Xiaohongshu";
       case "harmonyos":
       case "harmonyos-source":
         return "HarmonyOS Source";
@@ -567,6 +703,12 @@ export default function BuildsClient() {
       case "wechat":
         // 微信官方绿色 #07C160
         return "text-[#07C160] dark:text-[#07C160] bg-[#07C160]/10 dark:bg-[#07C160]/15 border-[#07C160]/30 dark:border-[#07C160]/30";
+      case "alipay":
+        // 支付宝品牌蓝 #1677FF
+        return "text-[#1677FF] dark:text-[#1677FF] bg-[#1677FF]/10 dark:bg-[#1677FF]/15 border-[#1677FF]/30 dark:border-[#1677FF]/30";
+      case "xiaohongshu":
+        // 小红书品牌红 #FF2442
+        return "text-[#FF2442] dark:text-[#FF2442] bg-[#FF2442]/10 dark:bg-[#FF2442]/15 border-[#FF2442]/30 dark:border-[#FF2442]/30";
       case "harmonyos":
         // 鸿蒙官方红色 #E52828
         return "text-[#E52828] dark:text-[#FF4D4D] bg-[#E52828]/10 dark:bg-[#E52828]/15 border-[#E52828]/30 dark:border-[#E52828]/30";
@@ -630,6 +772,19 @@ export default function BuildsClient() {
     }
   };
 
+  // 对比选中的两个构建（必须是同一应用）
+  const handleCompare = () => {
+    const [first, second] = builds.filter((build) => selectedBuilds.has(build.id));
+    if (!first || !second) return;
+    if (!isSameApp(first, second)) {
+      toast.error(
+        currentLanguage === "zh" ? "只能对比同一应用（包名相同）的两个构建" : "Only builds of the same app (same package name) can be compared"
+      );
+      return;
+    }
+    setDiffPair([first, second]);
+  };
+
   const filteredBuilds = builds.filter((build) => {
     // Search filter
     const matchesSearch =
@@ -661,6 +816,21 @@ export default function BuildsClient() {
     currentPage * PAGE_SIZE
   );
 
+  // 按项目分组（分组视图不分页），未关联项目的构建归入最后一组
+  const projectIds = new Set(projects.map((project) => project.id));
+  const projectGroups: Array<{ project: AppProjectSummary | null; builds: BuildItem[] }> = groupByProject
+    ? [
+        ...projects.map((project) => ({
+          project,
+          builds: filteredBuilds.filter((build) => build.project_id === project.id),
+        })),
+        {
+          project: null,
+          builds: filteredBuilds.filter((build) => !build.project_id || !projectIds.has(build.project_id)),
+        },
+      ].filter((group) => group.builds.length > 0)
+    : [];
+
   // 当筛选条件变化时重置页码和选中状态
   useEffect(() => {
     setCurrentPage(1);
@@ -696,6 +866,302 @@ export default function BuildsClient() {
     );
   }
 
+  const projectNames = new Map(projects.map((project) => [project.id, project.name]));
+
+  const renderBuildCard = (build: BuildItem, priority: boolean) => (
+    <div
+      key={build.id}
+      className={`p-3 sm:p-4 rounded-xl sm:rounded-2xl bg-card border shadow-sm hover:shadow-md transition-all ${
+        selectedBuilds.has(build.id)
+          ? "border-cyan-500 bg-cyan-500/5"
+          : "border-border/50 hover:border-border"
+      }`}
+    >
+      <div className="flex flex-col md:flex-row gap-3 sm:gap-4 items-start">
+        {/* Left: Checkbox + Icon & Main Info */}
+        <div className="flex items-start gap-2 sm:gap-3 flex-1 min-w-0">
+          {/* Checkbox */}
+          <Checkbox
+            checked={selectedBuilds.has(build.id)}
+            onCheckedChange={() => toggleSelect(build.id)}
+            className="mt-2 sm:mt-3 h-4 w-4 sm:h-5 sm:w-5 shrink-0"
+          />
+          {/* App Icon or Platform Icon */}
+          <div className="w-10 h-10 sm:w-12 sm:h-12 rounded-lg sm:rounded-xl overflow-hidden shrink-0 relative">
+            <BuildIcon
+              build={build}
+              getPlatformIcon={getPlatformIcon}
+              priority={priority}
+            />
+          </div>
+          <div className="flex-1 min-w-0">
+            {/* Title Row */}
+            <div className="flex items-center gap-1.5 sm:gap-2 flex-wrap">
+              <h3 className="text-sm sm:text-base font-semibold truncate">{build.app_name}</h3>
+              {/* 只有当有版本号时才显示 */}
+              {build.version_name && build.version_name !== "1.0.0" && (
+                <span className="text-sm text-muted-foreground">
+                  v{build.version_name}
+                  {build.version_code && build.version_code !== "1" && ` · Build ${build.version_code}`}
+                </span>
+              )}
+              <Badge
+                variant="outline"
+                className={`shrink-0 text-xs ${getPlatformColor(build.platform)}`}
+              >
+                {getPlatformName(build.platform)}
+              </Badge>
+              <Badge
+                variant="outline"
+                className={`shrink-0 text-xs ${getStatusColor(build.status)}`}
+              >
+                {getStatusIcon(build.status)}
+                <span className="ml-1">{getStatusText(build.status)}</span>
+              </Badge>
+              {/* 所属项目（分组视图中由分组标题展示） */}
+          {!groupByProject && build.project_id && projectNames.get(build.project_id) && (
+            <Badge
+              variant="outline"
+              className="shrink-0 text-xs text-cyan-700 dark:text-cyan-400 bg-cyan-50 dark:bg-cyan-500/10 border-cyan-200 dark:border-cyan-500/20"
+            >
+              <FolderOpen className="h-3 w-3 mr-1" />
+              {projectNames.get(build.project_id)}
+            </Badge>
+          )}
+          {/* 文件大小显示 */}
+              {build.file_size && build.status === "completed" && (
+                <Badge
+                  variant="outline"
+                  className="shrink-0 text-xs text-slate-600 dark:text-slate-400 bg-slate-50 dark:bg-slate-500/10 border-slate-200 dark:border-slate-500/20"
+                >
+                  <HardDrive className="h-3 w-3 mr-1" />
+                  {formatFileSize(build.file_size)}
+                </Badge>
+              )}
+            </div>
+
+            {/* Info Row */}
+            <div className="mt-1.5 flex flex-col gap-0.5 text-sm text-muted-foreground">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="truncate">{build.package_name}</span>
+                {build.platform === "android-apk" && (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-amber-50 dark:bg-amber-500/10 text-amber-700 dark:text-amber-400 text-xs border border-amber-200 dark:border-amber-500/20">
+                    <AlertCircle className="h-3 w-3" />
+                    {currentLanguage === "zh" ? "Debug版本 (包名含.debug后缀)" : "Debug Version (package name includes .debug suffix)"}
+                  </span>
+                )}
+                {build.platform === "wechat" && build.uploaded_version && (
+                  <span
+                    className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-green-50 dark:bg-green-500/10 text-green-700 dark:text-green-400 text-xs border border-green-200 dark:border-green-500/20"
+                    title={build.upload_description || undefined}
+                  >
+                    <UploadCloud className="h-3 w-3" />
+                    {currentLanguage === "zh"
+                      ? `已上传开发版 v${build.uploaded_version}`
+                      : `Uploaded as dev version v${build.uploaded_version}`}
+                  </span>
+                )}
+              </div>
+              <a
+                href={build.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="truncate text-cyan-600 dark:text-cyan-400 hover:underline text-xs"
+              >
+                {build.url}
+              </a>
+            </div>
+
+            {/* Progress bar for processing status */}
+            {(build.status === "pending" || build.status === "processing") && (
+              <div className="mt-3">
+                <BuildProgressBarCompact
+                  progress={build.progress || 0}
+                  platform={build.platform}
+                  status={build.status}
+                  language={currentLanguage as "zh" | "en"}
+                  event={buildEvents[build.id]}
+                />
+              </div>
+            )}
+
+            {/* Error message for failed builds */}
+            {build.status === "failed" && build.error_message && (
+              <div className="mt-2 p-2 rounded-lg bg-red-500/10 text-red-500 text-xs">
+                {build.error_message}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Right: Actions & Time Info */}
+        <div className="flex flex-col gap-3 md:shrink-0 border-t md:border-t-0 md:border-l border-border/30 pt-3 md:pt-0 md:pl-4 min-w-0 items-start md:items-end">
+          {/* Buttons */}
+          <div className="flex items-center gap-2 flex-wrap justify-start md:justify-end">
+            {build.status === "completed" && build.expires_at && !isExpired(build.expires_at) && (
+              <>
+                <Button
+                  size="sm"
+                  className="h-8 sm:h-9 px-3 sm:px-4 rounded-lg sm:rounded-xl gap-1.5 sm:gap-2 bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-400 hover:to-blue-500 text-white shadow-lg shadow-cyan-500/20"
+                  onClick={() => handleDownload(build.id)}
+                >
+                  <Download className="h-4 w-4" />
+                  <span className="hidden sm:inline">{(() => {
+                    const p = build.platform;
+                    if (p === "ios-ipa") return currentLanguage === "zh" ? "下载 IPA" : "Download IPA";
+                    if (p === "harmonyos-hap") return currentLanguage === "zh" ? "下载 HAP" : "Download HAP";
+                    if (p === "android-apk") return currentLanguage === "zh" ? "下载 APK" : "Download APK";
+                    if (p === "linux" && isLinuxPackageFormat(build.package_format)) {
+                      const label = getLinuxPackageLabel(build.package_format);
+                      return currentLanguage === "zh" ? `下载 ${label}` : `Download ${label}`;
+                    }
+                    if (p === "macos" && isMacOSPackageFormat(build.package_format)) {
+                      const label = getMacOSPackageLabel(build.package_format);
+                      return currentLanguage === "zh" ? `下载 ${label}` : `Download ${label}`;
+                    }
+                    if (p === "windows" && build.package_format === "installer") {
+                      const label = getWindowsPackageLabel("installer", currentLanguage === "zh" ? "zh" : "en");
+                      return currentLanguage === "zh" ? `下载${label}` : `Download ${label}`;
+                    }
+                    const extensionTargets = p === "chrome" ? parseBrowserExtensionPackageFormat(build.package_format) : null;
+                    if (extensionTargets && extensionTargets.some((target) => target !== "chrome")) {
+                      const label = extensionTargets.map(getBrowserExtensionTargetLabel).join(" / ");
+                      return currentLanguage === "zh" ? `下载 ${label}` : `Download ${label}`;
+                    }
+                    return currentLanguage === "zh" ? "下载源码" : "Download Source";
+                  })()}</span>
+                  <span className="sm:hidden">{currentLanguage === "zh" ? "下载" : "Download"}</span>
+                </Button>
+                {/* release 签名构建额外提供 AAB（Google Play 上架） */}
+                {build.platform === "android-apk" && build.aab_file_path && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8 sm:h-9 px-2.5 sm:px-3 rounded-lg sm:rounded-xl gap-1.5 sm:gap-2"
+                    onClick={() => handleDownload(build.id, "aab")}
+                  >
+                    <Download className="h-4 w-4" />
+                    <span>AAB</span>
+                  </Button>
+                )}
+                {/* 微信小程序自动上传后提供预览二维码 */}
+                {build.platform === "wechat" && build.preview_qr_url && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8 sm:h-9 px-2.5 sm:px-3 rounded-lg sm:rounded-xl gap-1.5 sm:gap-2"
+                    onClick={() => window.open(build.preview_qr_url!, "_blank", "noopener,noreferrer")}
+                  >
+                    <QrCode className="h-4 w-4" />
+                    <span>{currentLanguage === "zh" ? "预览码" : "Preview QR"}</span>
+                  </Button>
+                )}
+                {/* 配置了深度链接的移动端构建提供网站验证文件 */}
+                {!!build.deep_link_config?.domains?.length && (build.platform.startsWith("android") || build.platform.startsWith("ios")) && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8 sm:h-9 px-2.5 sm:px-3 rounded-lg sm:rounded-xl gap-1.5 sm:gap-2"
+                    onClick={() =>
+                      handleDownloadDeepLinkFile(
+                        build.id,
+                        build.platform.startsWith("ios") ? "apple-app-site-association" : "assetlinks.json"
+                      )
+                    }
+                  >
+                    <Link2 className="h-4 w-4" />
+                    <span>{build.platform.startsWith("ios") ? "AASA" : "assetlinks"}</span>
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-8 sm:h-9 px-2.5 sm:px-3 rounded-lg sm:rounded-xl gap-1.5 sm:gap-2"
+                  onClick={() => {
+                    setShareBuild({
+                      id: build.id,
+                      name: build.app_name,
+                      expiresAt: build.expires_at,
+                    });
+                    setShareModalOpen(true);
+                  }}
+                >
+                  <Share2 className="h-4 w-4" />
+                  <span>{currentLanguage === "zh" ? "分享" : "Share"}</span>
+                </Button>
+              </>
+            )}
+            {(build.status === "pending" || build.status === "processing") && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 sm:h-9 px-2.5 sm:px-3 rounded-lg sm:rounded-xl gap-1.5 sm:gap-2"
+                onClick={() => handleCancel(build.id)}
+              >
+                <Ban className="h-4 w-4" />
+                <span>{currentLanguage === "zh" ? "取消" : "Cancel"}</span>
+              </Button>
+            )}
+            {build.expires_at && isExpired(build.expires_at) && (
+              <Badge variant="outline" className="text-xs text-gray-500 bg-gray-100 dark:bg-gray-800 border-gray-300 dark:border-gray-600">
+                <Archive className="h-3 w-3 mr-1" />
+                {currentLanguage === "zh" ? "文件已清理" : "Files cleaned"}
+              </Badge>
+            )}
+            {/* 用这次构建的配置预填生成器，只改需要改的部分 */}
+            {build.status === "completed" && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 sm:h-9 px-2.5 rounded-xl gap-1.5"
+                title={currentLanguage === "zh" ? "修改后重新构建" : "Rebuild with changes"}
+                onClick={() => window.location.href = `/generate?rebuild=${build.id}`}
+              >
+                <PencilLine className="h-4 w-4" />
+                <span className="hidden sm:inline">{currentLanguage === "zh" ? "重新构建" : "Rebuild"}</span>
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 sm:h-9 px-2.5 rounded-xl gap-1.5"
+              title={currentLanguage === "zh" ? "查看日志" : "View logs"}
+              onClick={() => setLogsBuild({ id: build.id, name: build.app_name })}
+            >
+              <ScrollText className="h-4 w-4" />
+              <span className="hidden sm:inline">{currentLanguage === "zh" ? "日志" : "Logs"}</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 sm:h-9 px-2.5 rounded-xl text-red-500 hover:text-red-600 hover:bg-red-500/10"
+              onClick={() => handleDelete(build.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          {/* 时间信息 - 优化移动端显示 */}
+          <div className="flex items-center gap-1.5 flex-wrap text-xs text-muted-foreground min-w-0 justify-center md:justify-end">
+            <Clock className="h-3 w-3 flex-shrink-0" />
+            <span className="whitespace-nowrap">{formatDate(build.created_at).date}</span>
+            <span className="whitespace-nowrap">{formatDate(build.created_at).time}</span>
+            {build.expires_at && (
+              <span className={`inline-flex items-center px-2 py-0.5 rounded-full font-medium text-xs whitespace-nowrap ${
+                getExpiresInfo(build.expires_at).urgent
+                  ? "bg-red-500/15 text-red-600 dark:text-red-400"
+                  : getExpiresInfo(build.expires_at).color === "text-orange-500"
+                  ? "bg-orange-500/15 text-orange-600 dark:text-orange-400"
+                  : "bg-muted text-muted-foreground"
+              }`}>
+                {getExpiresInfo(build.expires_at).text}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <div className="min-h-screen pt-16 sm:pt-20 pb-8 sm:pb-12">
       <div className="container mx-auto px-4 md:px-6">
@@ -814,6 +1280,18 @@ export default function BuildsClient() {
               />
               {currentLanguage === "zh" ? "全选" : "Select All"}
             </div>
+            {/* 对比按钮：选中两个构建时显示 */}
+            {selectedBuilds.size === 2 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-11 px-4 rounded-xl gap-2"
+                onClick={handleCompare}
+              >
+                <GitCompare className="h-4 w-4" />
+                {currentLanguage === "zh" ? "对比" : "Compare"}
+              </Button>
+            )}
             {/* 批量删除按钮 */}
             {selectedBuilds.size > 0 && (
               <Button
@@ -831,6 +1309,17 @@ export default function BuildsClient() {
                 {currentLanguage === "zh" ? `删除 (${selectedBuilds.size})` : `Delete (${selectedBuilds.size})`}
               </Button>
             )}
+            {projects.length > 0 && (
+              <Button
+                variant={groupByProject ? "default" : "outline"}
+                size="sm"
+                className={`h-11 px-4 rounded-xl gap-2 ${groupByProject ? "bg-gradient-to-r from-cyan-500 to-blue-600 text-white" : ""}`}
+                onClick={() => setGroupByProject((value) => !value)}
+              >
+                <FolderOpen className="h-4 w-4" />
+                {currentLanguage === "zh" ? "按项目分组" : "Group by project"}
+              </Button>
+            )}
             <Button
               variant="outline"
               size="sm"
@@ -854,190 +1343,51 @@ export default function BuildsClient() {
               </p>
             </div>
           ) : (
-            paginatedBuilds.map((build) => (
-              <div
-                key={build.id}
-                className={`p-3 sm:p-4 rounded-xl sm:rounded-2xl bg-card border shadow-sm hover:shadow-md transition-all ${
-                  selectedBuilds.has(build.id)
-                    ? "border-cyan-500 bg-cyan-500/5"
-                    : "border-border/50 hover:border-border"
-                }`}
-              >
-                <div className="flex flex-col md:flex-row gap-3 sm:gap-4 items-start">
-                  {/* Left: Checkbox + Icon & Main Info */}
-                  <div className="flex items-start gap-2 sm:gap-3 flex-1 min-w-0">
-                    {/* Checkbox */}
-                    <Checkbox
-                      checked={selectedBuilds.has(build.id)}
-                      onCheckedChange={() => toggleSelect(build.id)}
-                      className="mt-2 sm:mt-3 h-4 w-4 sm:h-5 sm:w-5 shrink-0"
-                    />
-                    {/* App Icon or Platform Icon */}
-                    <div className="w-10 h-10 sm:w-12 sm:h-12 rounded-lg sm:rounded-xl overflow-hidden shrink-0 relative">
+            groupByProject ? (
+              projectGroups.map((group) => (
+                <div key={group.project?.id || "none"} className="space-y-3">
+                  {/* 项目分组标题 */}
+                  <div className="flex items-center gap-3 px-1">
+                    <div className="w-9 h-9 rounded-lg overflow-hidden shrink-0 relative">
                       <BuildIcon
-                        build={build}
-                        getPlatformIcon={getPlatformIcon}
-                        priority={currentPage === 1 && paginatedBuilds.indexOf(build) < 3}
+                        build={{ platform: "project", app_name: group.project?.name || "", icon_url: group.project?.icon_url || null }}
+                        getPlatformIcon={() => <FolderOpen className="h-4 w-4" />}
                       />
                     </div>
                     <div className="flex-1 min-w-0">
-                      {/* Title Row */}
-                      <div className="flex items-center gap-1.5 sm:gap-2 flex-wrap">
-                        <h3 className="text-sm sm:text-base font-semibold truncate">{build.app_name}</h3>
-                        {/* 只有当有版本号时才显示 */}
-                        {build.version_name && build.version_name !== "1.0.0" && (
-                          <span className="text-sm text-muted-foreground">
-                            v{build.version_name}
-                            {build.version_code && build.version_code !== "1" && ` · Build ${build.version_code}`}
-                          </span>
-                        )}
-                        <Badge
-                          variant="outline"
-                          className={`shrink-0 text-xs ${getPlatformColor(build.platform)}`}
-                        >
-                          {getPlatformName(build.platform)}
-                        </Badge>
-                        <Badge
-                          variant="outline"
-                          className={`shrink-0 text-xs ${getStatusColor(build.status)}`}
-                        >
-                          {getStatusIcon(build.status)}
-                          <span className="ml-1">{getStatusText(build.status)}</span>
-                        </Badge>
-                        {/* 文件大小显示 */}
-                        {build.file_size && build.status === "completed" && (
-                          <Badge
-                            variant="outline"
-                            className="shrink-0 text-xs text-slate-600 dark:text-slate-400 bg-slate-50 dark:bg-slate-500/10 border-slate-200 dark:border-slate-500/20"
-                          >
-                            <HardDrive className="h-3 w-3 mr-1" />
-                            {formatFileSize(build.file_size)}
-                          </Badge>
-                        )}
+                      <div className="flex items-center gap-2">
+                        <h2 className="text-sm sm:text-base font-semibold truncate">
+                          {group.project?.name || (currentLanguage === "zh" ? "未归属项目" : "No project")}
+                        </h2>
+                        <span className="px-1.5 py-0.5 text-xs rounded-full bg-muted text-muted-foreground">{group.builds.length}</span>
                       </div>
-
-                      {/* Info Row */}
-                      <div className="mt-1.5 flex flex-col gap-0.5 text-sm text-muted-foreground">
-                        <div className="flex items-center gap-2 flex-wrap">
-                          <span className="truncate">{build.package_name}</span>
-                          {build.platform === "android-apk" && (
-                            <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-amber-50 dark:bg-amber-500/10 text-amber-700 dark:text-amber-400 text-xs border border-amber-200 dark:border-amber-500/20">
-                              <AlertCircle className="h-3 w-3" />
-                              {currentLanguage === "zh" ? "Debug版本 (包名含.debug后缀)" : "Debug Version (package name includes .debug suffix)"}
-                            </span>
-                          )}
-                        </div>
-                        <a
-                          href={build.url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="truncate text-cyan-600 dark:text-cyan-400 hover:underline text-xs"
-                        >
-                          {build.url}
-                        </a>
-                      </div>
-
-                      {/* Progress bar for processing status */}
-                      {(build.status === "pending" || build.status === "processing") && (
-                        <div className="mt-3">
-                          <BuildProgressBarCompact
-                            progress={build.progress || 0}
-                            platform={build.platform}
-                            status={build.status}
-                            language={currentLanguage as "zh" | "en"}
-                          />
-                        </div>
-                      )}
-
-                      {/* Error message for failed builds */}
-                      {build.status === "failed" && build.error_message && (
-                        <div className="mt-2 p-2 rounded-lg bg-red-500/10 text-red-500 text-xs">
-                          {build.error_message}
-                        </div>
+                      {group.project && (
+                        <p className="truncate text-xs text-muted-foreground">{group.project.url}</p>
                       )}
                     </div>
-                  </div>
-
-                  {/* Right: Actions & Time Info */}
-                  <div className="flex flex-col gap-3 md:shrink-0 border-t md:border-t-0 md:border-l border-border/30 pt-3 md:pt-0 md:pl-4 min-w-0 items-start md:items-end">
-                    {/* Buttons */}
-                    <div className="flex items-center gap-2 flex-wrap justify-start md:justify-end">
-                      {build.status === "completed" && build.expires_at && !isExpired(build.expires_at) && (
-                        <>
-                          <Button
-                            size="sm"
-                            className="h-8 sm:h-9 px-3 sm:px-4 rounded-lg sm:rounded-xl gap-1.5 sm:gap-2 bg-gradient-to-r from-cyan-500 to-blue-600 hover:from-cyan-400 hover:to-blue-500 text-white shadow-lg shadow-cyan-500/20"
-                            onClick={() => handleDownload(build.id)}
-                          >
-                            <Download className="h-4 w-4" />
-                            <span className="hidden sm:inline">{(() => {
-                              const p = build.platform;
-                              if (p === "ios-ipa") return currentLanguage === "zh" ? "下载 IPA" : "Download IPA";
-                              if (p === "harmonyos-hap") return currentLanguage === "zh" ? "下载 HAP" : "Download HAP";
-                              if (p === "android-apk") return currentLanguage === "zh" ? "下载 APK" : "Download APK";
-                              return currentLanguage === "zh" ? "下载源码" : "Download Source";
-                            })()}</span>
-                            <span className="sm:hidden">{currentLanguage === "zh" ? "下载" : "Download"}</span>
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            className="h-8 sm:h-9 px-2.5 sm:px-3 rounded-lg sm:rounded-xl gap-1.5 sm:gap-2"
-                            onClick={() => {
-                              setShareBuild({
-                                id: build.id,
-                                name: build.app_name,
-                                expiresAt: build.expires_at,
-                              });
-                              setShareModalOpen(true);
-                            }}
-                          >
-                            <Share2 className="h-4 w-4" />
-                            <span>{currentLanguage === "zh" ? "分享" : "Share"}</span>
-                          </Button>
-                        </>
-                      )}
-                      {build.expires_at && isExpired(build.expires_at) && (
-                        <Badge variant="outline" className="text-xs text-gray-500 bg-gray-100 dark:bg-gray-800 border-gray-300 dark:border-gray-600">
-                          <Archive className="h-3 w-3 mr-1" />
-                          {currentLanguage === "zh" ? "文件已清理" : "Files cleaned"}
-                        </Badge>
-                      )}
+                    {group.project && (
                       <Button
-                        variant="ghost"
                         size="sm"
-                        className="h-8 sm:h-9 px-2.5 rounded-xl text-red-500 hover:text-red-600 hover:bg-red-500/10"
-                        onClick={() => handleDelete(build.id)}
+                        variant="outline"
+                        className="h-8 sm:h-9 px-3 rounded-lg sm:rounded-xl gap-1.5 shrink-0"
+                        onClick={() => window.location.href = `/generate?project=${group.project!.id}`}
                       >
-                        <Trash2 className="h-4 w-4" />
+                        <Hammer className="h-4 w-4" />
+                        <span>{currentLanguage === "zh" ? "重新构建" : "Rebuild"}</span>
                       </Button>
-                    </div>
-                    {/* 时间信息 - 优化移动端显示 */}
-                    <div className="flex items-center gap-1.5 flex-wrap text-xs text-muted-foreground min-w-0 justify-center md:justify-end">
-                      <Clock className="h-3 w-3 flex-shrink-0" />
-                      <span className="whitespace-nowrap">{formatDate(build.created_at).date}</span>
-                      <span className="whitespace-nowrap">{formatDate(build.created_at).time}</span>
-                      {build.expires_at && (
-                        <span className={`inline-flex items-center px-2 py-0.5 rounded-full font-medium text-xs whitespace-nowrap ${
-                          getExpiresInfo(build.expires_at).urgent
-                            ? "bg-red-500/15 text-red-600 dark:text-red-400"
-                            : getExpiresInfo(build.expires_at).color === "text-orange-500"
-                            ? "bg-orange-500/15 text-orange-600 dark:text-orange-400"
-                            : "bg-muted text-muted-foreground"
-                        }`}>
-                          {getExpiresInfo(build.expires_at).text}
-                        </span>
-                      )}
-                    </div>
+                    )}
                   </div>
+                  {group.builds.map((build, index) => renderBuildCard(build, index < 3))}
                 </div>
-              </div>
-            ))
+              ))
+            ) : (
+              paginatedBuilds.map((build, index) => renderBuildCard(build, currentPage === 1 && index < 3))
+            )
           )}
         </div>
 
         {/* 分页控件 */}
-        {totalPages > 1 && (
+        {!groupByProject && totalPages > 1 && (
           <div className="flex items-center justify-center gap-2 mt-8">
             <Button
               variant="outline"
@@ -1100,6 +1450,23 @@ export default function BuildsClient() {
           buildExpiresAt={shareBuild.expiresAt}
         />
       )}
+
+      {/* Build Diff Dialog */}
+      <BuildDiffDialog
+        builds={diffPair}
+        open={!!diffPair}
+        onOpenChange={(open) => !open && setDiffPair(null)}
+        language={currentLanguage as "zh" | "en"}
+      />
+
+      {/* Build Logs Drawer */}
+      <BuildLogsDrawer
+        buildId={logsBuild?.id ?? null}
+        appName={logsBuild?.name}
+        open={!!logsBuild}
+        onOpenChange={(open) => !open && setLogsBuild(null)}
+        language={currentLanguage as "zh" | "en"}
+      />
     </div>
   );
 }
@@ -1,23 +1,92 @@
 "use client";
 
-import { useState, useEffect, useRef, Suspense } from "react";
+import { useState, useEffect, useMemo, useRef, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { useLanguage } from "@/context/LanguageContext";
 import { useAuth } from "@/context/AuthContext";
 import { useGuestBuild } from "@/hooks/useGuestBuild";
 import { useGuestBuildHistory } from "@/hooks/useGuestBuildHistory";
-import { UrlInput, AppConfig, PlatformSelector, AndroidConfig, IOSConfig, HarmonyOSConfig } from "@/components/generate";
+import { UrlInput, AppConfig, PlatformSelector, AndroidConfig, IOSConfig, HarmonyOSConfig, type SiteImportSelection } from "@/components/generate";
 import { WechatConfig } from "@/components/generate/wechat-config";
+import { AlipayConfig, XiaohongshuConfig, normalizeMiniProgramConfig } from "@/components/generate/mini-program-config";
+import {
+  DEFAULT_WECHAT_UPLOAD,
+  toWechatUploadConfig,
+  type WechatUploadState,
+} from "@/components/generate/wechat-upload-config";
+import {
+  DEFAULT_WECHAT_APPEARANCE,
+  fromWechatMiniProgramConfig,
+  toWechatMiniProgramConfig,
+  type WechatAppearanceState,
+} from "@/components/generate/wechat-appearance-config";
 import { ChromeExtensionConfig } from "@/components/generate/chrome-extension-config";
 import { WindowsConfig } from "@/components/generate/windows-config";
 import { MacOSConfig } from "@/components/generate/macos-config";
 import { LinuxConfig } from "@/components/generate/linux-config";
 import { GuestBuildHistory } from "@/components/generate/guest-build-history";
+import { NativeShellConfigSection } from "@/components/generate/native-shell-config";
+import { PushNotificationConfig } from "@/components/generate/push-notification-config";
+import { DeepLinkConfigSection, normalizeDeepLinkConfig } from "@/components/generate/deep-link-config";
+import { normalizeDesktopShellConfig } from "@/components/generate/desktop-shell-config";
+import { DEFAULT_ANDROID_SIGNING, type AndroidSigningState } from "@/components/generate/android-signing-config";
+import { AppProjectConfig, DEFAULT_APP_PROJECT_SAVE, type AppProjectSaveState } from "@/components/generate/app-project-config";
+import { IconStyleEditor } from "@/components/generate/icon-style-editor";
 import { Button } from "@/components/ui/button";
 import { Rocket, Sparkles, ArrowRight, Loader2, UserX, Layers } from "lucide-react";
 import { toast } from "sonner";
 import { IS_DOMESTIC_VERSION } from "@/config";
 import { uploadIconsBatch } from "@/lib/upload/icon-upload";
+import { fetchAppProject, loadProjectIconFile, saveAppProject, type AppProjectDetail } from "@/lib/projects/client";
+import {
+  isProjectIconPlatform,
+  MAX_PROJECT_NAME_LENGTH,
+  PROJECT_ICON_PLATFORMS,
+  type AppProjectConfig as AppProjectConfigValue,
+  type ProjectIconPlatform,
+} from "@/lib/config/app-project";
+import {
+  isVersionCodeReused,
+  validateVersionCodeInput,
+  VERSION_TRACKS,
+  type VersionTrack,
+} from "@/lib/config/version-codes";
+import { api } from "@/lib/api";
+import { isDarkColor } from "@/lib/config/site-manifest";
+import { fetchRebuildSource, getBuildIconPlatform, getGeneratorPlatform, type RebuildSource } from "@/lib/builds/rebuild";
+import { parseBuildConfigSnapshot } from "@/lib/builds/config-snapshot";
+import type { AndroidAdvancedConfig } from "@/lib/config/android-advanced";
+import { DEFAULT_ICON_STYLE, isDefaultIconStyle, type IconStyleConfig } from "@/lib/config/icon-style";
+import type { NativeShellConfig } from "@/lib/config/native-shell";
+import type { PushConfig } from "@/lib/config/push-notifications";
+import type { DeepLinkConfig } from "@/lib/config/deep-links";
+import { DEFAULT_LINUX_PACKAGE_FORMAT, isLinuxPackageFormat, type LinuxPackageFormat } from "@/lib/config/linux-packaging";
+import { DEFAULT_MACOS_PACKAGE_FORMAT, isMacOSPackageFormat, type MacOSPackageFormat } from "@/lib/config/macos-packaging";
+import {
+  DEFAULT_WINDOWS_PACKAGE_FORMAT,
+  isWindowsPackageFormat,
+  type WindowsInstallerConfig,
+  type WindowsPackageFormat,
+} from "@/lib/config/windows-installer";
+import { DEFAULT_WINDOWS_METADATA, type WindowsMetadataConfig } from "@/lib/config/windows-metadata";
+import type { DesktopShellConfig } from "@/lib/config/desktop-shell";
+import {
+  DEFAULT_BROWSER_EXTENSION_TARGETS,
+  DEFAULT_EXTENSION_MODE,
+  EXTENSION_POPUP_LIMITS,
+  isBrowserExtensionVersion,
+  parseBrowserExtensionPackageFormat,
+  type BrowserExtensionConfig,
+} from "@/lib/config/browser-extension";
+import {
+  getMiniProgramAppIdHint,
+  getMiniProgramLabel,
+  isMiniProgramAppId,
+  isMiniProgramVersion,
+  type MiniProgramConfig,
+} from "@/lib/config/mini-program";
+import type { WechatUploadConfig } from "@/lib/config/wechat-upload";
+import { parseWechatMiniProgramConfig, type WechatMiniProgramConfig } from "@/lib/config/wechat-mini-program";
 
 function GenerateContent() {
   const { t, currentLanguage } = useLanguage();
@@ -49,24 +118,49 @@ function GenerateContent() {
   // Android specific config
   const [packageName, setPackageName] = useState("");
   const [androidVersionName, setAndroidVersionName] = useState("1.0.0");
-  const [androidVersionCode, setAndroidVersionCode] = useState("1");
+  // 构建号留空时由服务端自动递增
+  const [androidVersionCode, setAndroidVersionCode] = useState("");
   const [privacyPolicy, setPrivacyPolicy] = useState("");
+  const [androidAdvancedConfig, setAndroidAdvancedConfig] = useState<AndroidAdvancedConfig>({});
+  // APK 构建类型与签名（仅单独 APK 构建时提交）
+  const [androidSigning, setAndroidSigning] = useState<AndroidSigningState>(DEFAULT_ANDROID_SIGNING);
+
+  // 移动端通用壳配置（Android / iOS / HarmonyOS 共用）
+  const [shellConfig, setShellConfig] = useState<NativeShellConfig>({});
+  // 推送通知（OneSignal / FCM），未启用时不提交
+  const [pushConfig, setPushConfig] = useState<PushConfig>({ provider: "none" });
+  // 深度链接域名（Android / iOS）
+  const [deepLinkConfig, setDeepLinkConfig] = useState<DeepLinkConfig>({ domains: [] });
+  // 图标样式（背景、边距、单色图层），应用于所有带图标的平台
+  const [iconStyle, setIconStyle] = useState<IconStyleConfig>(DEFAULT_ICON_STYLE);
 
   // iOS specific config
   const [bundleId, setBundleId] = useState("");
   const [iosVersionString, setIosVersionString] = useState("1.0.0");
-  const [iosBuildNumber, setIosBuildNumber] = useState("1");
+  const [iosBuildNumber, setIosBuildNumber] = useState("");
   const [iosPrivacyPolicy, setIosPrivacyPolicy] = useState("");
   const [iosIcon, setIosIcon] = useState<File | null>(null);
 
   // WeChat specific config
   const [wechatAppId, setWechatAppId] = useState("");
   const [wechatVersion, setWechatVersion] = useState("1.0.0");
+  const [wechatUpload, setWechatUpload] = useState<WechatUploadState>(DEFAULT_WECHAT_UPLOAD);
+  const [wechatAppearance, setWechatAppearance] = useState<WechatAppearanceState>(DEFAULT_WECHAT_APPEARANCE);
+
+  // Alipay / Xiaohongshu specific config（web-view 业务域名为网址所在域名以外的其他域名）
+  const [alipayAppId, setAlipayAppId] = useState("");
+  const [alipayVersion, setAlipayVersion] = useState("1.0.0");
+  const [alipayIcon, setAlipayIcon] = useState<File | null>(null);
+  const [alipayConfig, setAlipayConfig] = useState<MiniProgramConfig>({ webViewDomains: [] });
+  const [xiaohongshuAppId, setXiaohongshuAppId] = useState("");
+  const [xiaohongshuVersion, setXiaohongshuVersion] = useState("1.0.0");
+  const [xiaohongshuIcon, setXiaohongshuIcon] = useState<File | null>(null);
+  const [xiaohongshuConfig, setXiaohongshuConfig] = useState<MiniProgramConfig>({ webViewDomains: [] });
 
   // HarmonyOS specific config
   const [harmonyBundleName, setHarmonyBundleName] = useState("");
   const [harmonyVersionName, setHarmonyVersionName] = useState("1.0.0");
-  const [harmonyVersionCode, setHarmonyVersionCode] = useState("1");
+  const [harmonyVersionCode, setHarmonyVersionCode] = useState("");
   const [harmonyPrivacyPolicy, setHarmonyPrivacyPolicy] = useState("");
   const [harmonyIcon, setHarmonyIcon] = useState<File | null>(null);
 
@@ -75,18 +169,40 @@ function GenerateContent() {
   const [chromeExtensionVersion, setChromeExtensionVersion] = useState("1.0.0");
   const [chromeExtensionDescription, setChromeExtensionDescription] = useState("");
   const [chromeExtensionIcon, setChromeExtensionIcon] = useState<File | null>(null);
+  // 输出的浏览器（Chrome / Firefox / Edge）、打开方式、弹窗和右键菜单配置
+  const [chromeExtensionConfig, setChromeExtensionConfig] = useState<BrowserExtensionConfig>({
+    targets: DEFAULT_BROWSER_EXTENSION_TARGETS,
+    mode: DEFAULT_EXTENSION_MODE,
+    popup: { width: EXTENSION_POPUP_LIMITS.width.default, height: EXTENSION_POPUP_LIMITS.height.default },
+  });
 
   // Windows specific config
   const [windowsAppName, setWindowsAppName] = useState("");
   const [windowsIcon, setWindowsIcon] = useState<File | null>(null);
+  const [windowsPackageFormat, setWindowsPackageFormat] = useState<WindowsPackageFormat>(DEFAULT_WINDOWS_PACKAGE_FORMAT);
+  // 安装程序配置（仅 installer 格式提交），产品名称留空时使用应用名称
+  const [windowsInstallerConfig, setWindowsInstallerConfig] = useState<WindowsInstallerConfig>({
+    productName: "",
+    publisher: "",
+    version: "1.0.0",
+    installScope: "perUser",
+  });
+  // EXE 版本信息和应用程序清单
+  const [windowsMetadataConfig, setWindowsMetadataConfig] = useState<WindowsMetadataConfig>(DEFAULT_WINDOWS_METADATA);
 
   // macOS specific config
   const [macosAppName, setMacosAppName] = useState("");
   const [macosIcon, setMacosIcon] = useState<File | null>(null);
+  const [macosPackageFormat, setMacosPackageFormat] = useState<MacOSPackageFormat>(DEFAULT_MACOS_PACKAGE_FORMAT);
+  const [macosDmgBackground, setMacosDmgBackground] = useState(true);
 
   // Linux specific config
   const [linuxAppName, setLinuxAppName] = useState("");
   const [linuxIcon, setLinuxIcon] = useState<File | null>(null);
+  const [linuxPackageFormat, setLinuxPackageFormat] = useState<LinuxPackageFormat>(DEFAULT_LINUX_PACKAGE_FORMAT);
+
+  // 桌面端运行时配置（Windows / macOS / Linux 共用）
+  const [desktopConfig, setDesktopConfig] = useState<DesktopShellConfig>({});
 
   // 国内版：存储已上传图标的路径
   const [uploadedIconPaths, setUploadedIconPaths] = useState<Record<string, string>>({});
@@ -97,6 +213,12 @@ function GenerateContent() {
   // 跟踪正在进行的图标上传 Promise
   const uploadingPromisesRef = useRef<Record<string, Promise<string | null>>>({});
 
+  // 应用项目：从项目「重新构建」时预填，提交时可保存并关联构建
+  const [project, setProject] = useState<{ id: string; name: string } | null>(null);
+  const [projectSave, setProjectSave] = useState<AppProjectSaveState>(DEFAULT_APP_PROJECT_SAVE);
+  // 项目中已保存的图标文件，用于判断提交时哪些图标有变化
+  const projectIconsRef = useRef<Partial<Record<ProjectIconPlatform, File>>>({});
+
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // 国内版：即时上传图标到 CloudBase
@@ -256,21 +378,402 @@ function GenerateContent() {
     }
   }, [searchParams]);
 
+  // 项目图标与生成器图标状态的对应关系（键名与 handleIconChange 的 platform 一致）
+  const projectIconStates: Record<ProjectIconPlatform, [File | null, (file: File | null) => void]> = {
+    android: [appIcon, setAppIcon],
+    ios: [iosIcon, setIosIcon],
+    harmonyos: [harmonyIcon, setHarmonyIcon],
+    alipay: [alipayIcon, setAlipayIcon],
+    xiaohongshu: [xiaohongshuIcon, setXiaohongshuIcon],
+    chrome: [chromeExtensionIcon, setChromeExtensionIcon],
+    windows: [windowsIcon, setWindowsIcon],
+    macos: [macosIcon, setMacosIcon],
+    linux: [linuxIcon, setLinuxIcon],
+  };
+
+  // 从网站导入：名称同步到各平台，主题色填入未自定义的颜色，图标填入还没有图标的平台
+  const applySiteImport = async ({ name, themeColor, icon }: SiteImportSelection) => {
+    if (name) handleAppNameChange(name);
+
+    if (themeColor) {
+      setAndroidAdvancedConfig((prev) => ({
+        ...prev,
+        styling: {
+          ...prev.styling,
+          statusBarBackgroundColor: prev.styling?.statusBarBackgroundColor ?? themeColor,
+          accentColor: prev.styling?.accentColor ?? themeColor,
+        },
+      }));
+      setWechatAppearance((prev) =>
+        prev.navigationBar.backgroundColor === DEFAULT_WECHAT_APPEARANCE.navigationBar.backgroundColor
+          ? { ...prev, navigationBar: { backgroundColor: themeColor, textStyle: isDarkColor(themeColor) ? "white" : "black" } }
+          : prev
+      );
+    }
+
+    if (icon) {
+      await Promise.all(
+        (Object.keys(projectIconStates) as ProjectIconPlatform[])
+          .filter((platform) => !projectIconStates[platform][0])
+          .map((platform) => handleIconChange(icon, platform, projectIconStates[platform][1]))
+      );
+    }
+
+    toast.success(currentLanguage === "zh" ? "已导入网站信息" : "Website details imported");
+  };
+
+  // 保存到项目的生成器状态（签名密钥、上传密钥等凭据不保存；构建号不保存，重新构建时自动递增）
+  const getProjectConfig = (): AppProjectConfigValue => ({
+    platforms: selectedPlatforms,
+    identifiers: { packageName, bundleId, harmonyBundleName, wechatAppId, alipayAppId, xiaohongshuAppId },
+    settings: {
+      appName, appDescription,
+      androidVersionName, privacyPolicy, androidAdvancedConfig,
+      shellConfig, pushConfig, deepLinkConfig,
+      iosVersionString, iosPrivacyPolicy,
+      wechatVersion, wechatAppearance,
+      alipayVersion, alipayConfig, xiaohongshuVersion, xiaohongshuConfig,
+      harmonyVersionName, harmonyPrivacyPolicy,
+      chromeExtensionName, chromeExtensionVersion, chromeExtensionDescription, chromeExtensionConfig,
+      windowsAppName, windowsPackageFormat, windowsInstallerConfig, windowsMetadataConfig,
+      macosAppName, macosPackageFormat, macosDmgBackground,
+      linuxAppName, linuxPackageFormat,
+      desktopConfig, iconStyle,
+    },
+  });
+
+  // 用项目预填生成器，图标下载后走与手动选择相同的上传流程
+  const applyProject = async (detail: AppProjectDetail) => {
+    const { identifiers, settings } = detail.config;
+    const restore = <T,>(key: string, setter: (value: T) => void) => {
+      if (settings[key] !== undefined && settings[key] !== null) setter(settings[key] as T);
+    };
+
+    setUrl(detail.url);
+    setSelectedPlatforms(detail.config.platforms);
+    setPackageName(identifiers.packageName || "");
+    setBundleId(identifiers.bundleId || "");
+    setHarmonyBundleName(identifiers.harmonyBundleName || "");
+    setWechatAppId(identifiers.wechatAppId || "");
+    setAlipayAppId(identifiers.alipayAppId || "");
+    setXiaohongshuAppId(identifiers.xiaohongshuAppId || "");
+
+    restore("appName", setAppName);
+    restore("appDescription", setAppDescription);
+    restore("androidVersionName", setAndroidVersionName);
+    restore("privacyPolicy", setPrivacyPolicy);
+    restore("androidAdvancedConfig", setAndroidAdvancedConfig);
+    restore("shellConfig", setShellConfig);
+    restore("pushConfig", setPushConfig);
+    restore("deepLinkConfig", setDeepLinkConfig);
+    restore("iosVersionString", setIosVersionString);
+    restore("iosPrivacyPolicy", setIosPrivacyPolicy);
+    restore("wechatVersion", setWechatVersion);
+    restore("wechatAppearance", setWechatAppearance);
+    restore("alipayVersion", setAlipayVersion);
+    restore("alipayConfig", setAlipayConfig);
+    restore("xiaohongshuVersion", setXiaohongshuVersion);
+    restore("xiaohongshuConfig", setXiaohongshuConfig);
+    restore("harmonyVersionName", setHarmonyVersionName);
+    restore("harmonyPrivacyPolicy", setHarmonyPrivacyPolicy);
+    restore("chromeExtensionName", setChromeExtensionName);
+    restore("chromeExtensionVersion", setChromeExtensionVersion);
+    restore("chromeExtensionDescription", setChromeExtensionDescription);
+    restore("chromeExtensionConfig", setChromeExtensionConfig);
+    restore("windowsAppName", setWindowsAppName);
+    restore("windowsPackageFormat", setWindowsPackageFormat);
+    restore("windowsInstallerConfig", setWindowsInstallerConfig);
+    restore("windowsMetadataConfig", setWindowsMetadataConfig);
+    restore("macosAppName", setMacosAppName);
+    restore("macosPackageFormat", setMacosPackageFormat);
+    restore("macosDmgBackground", setMacosDmgBackground);
+    restore("linuxAppName", setLinuxAppName);
+    restore("linuxPackageFormat", setLinuxPackageFormat);
+    restore("desktopConfig", setDesktopConfig);
+    restore("iconStyle", setIconStyle);
+
+    setProject({ id: detail.id, name: detail.name });
+    setProjectSave({ enabled: true, name: detail.name });
+
+    projectIconsRef.current = {};
+    await Promise.all(
+      Object.entries(detail.icon_urls).map(async ([platform, iconUrl]) => {
+        if (!isProjectIconPlatform(platform)) return;
+        const file = await loadProjectIconFile(iconUrl, platform);
+        if (!file) return;
+        projectIconsRef.current[platform] = file;
+        await handleIconChange(file, platform, projectIconStates[platform][1]);
+      })
+    );
+  };
+
+  // 加载函数读取最新的表单状态，放在 ref 中，预填只随项目 ID 和用户变化执行一次
+  const loadProjectRef = useRef<((projectId: string, isCancelled: () => boolean) => Promise<void>) | null>(null);
+  loadProjectRef.current = async (projectId, isCancelled) => {
+    try {
+      const detail = await fetchAppProject(projectId);
+      if (!isCancelled()) await applyProject(detail);
+    } catch (error) {
+      console.error("[App Project] Failed to load project:", error);
+      toast.error(currentLanguage === "zh" ? "加载项目失败" : "Failed to load project");
+    }
+  };
+
+  // 从项目「重新构建」：/generate?project=<id>
+  const prefillProjectId = searchParams.get("project");
+  useEffect(() => {
+    if (!prefillProjectId || !user?.id) return;
+
+    let cancelled = false;
+    loadProjectRef.current?.(prefillProjectId, () => cancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, [prefillProjectId, user?.id]);
+
+  // 「修改后重新构建」：用构建记录预填生成器（构建号留空，提交时自动递增）
+  const applyRebuildSource = async (build: RebuildSource) => {
+    const platform = build.platform;
+    const version = build.version_name || "1.0.0";
+    const privacy = build.privacy_policy || "";
+
+    setUrl(build.url);
+    setSelectedPlatforms([getGeneratorPlatform(platform)]);
+    setAppName(build.app_name);
+
+    switch (getGeneratorPlatform(platform)) {
+      case "android-source":
+      case "android-apk":
+        setPackageName(build.package_name);
+        setAndroidVersionName(version);
+        setAndroidVersionCode("");
+        setPrivacyPolicy(privacy);
+        if (build.deep_link_config) setDeepLinkConfig(build.deep_link_config);
+        // release 构建的密钥库已托管，重新构建时自动复用
+        if (build.build_type === "release" || build.build_type === "debug") {
+          const buildType = build.build_type;
+          setAndroidSigning((prev) => ({ ...prev, buildType }));
+        }
+        break;
+      case "ios":
+      case "ios-ipa":
+        setBundleId(build.package_name);
+        setIosVersionString(version);
+        setIosBuildNumber("");
+        setIosPrivacyPolicy(privacy);
+        if (build.deep_link_config) setDeepLinkConfig(build.deep_link_config);
+        break;
+      case "harmonyos-source":
+      case "harmonyos-hap":
+        setHarmonyBundleName(build.package_name);
+        setHarmonyVersionName(version);
+        setHarmonyVersionCode("");
+        setHarmonyPrivacyPolicy(privacy);
+        break;
+      case "wechat":
+        setWechatAppId(build.package_name);
+        setWechatVersion(version);
+        break;
+      case "alipay":
+        setAlipayAppId(build.package_name);
+        setAlipayVersion(version);
+        break;
+      case "xiaohongshu":
+        setXiaohongshuAppId(build.package_name);
+        setXiaohongshuVersion(version);
+        break;
+      case "chrome": {
+        // 浏览器扩展的描述保存在 privacy_policy 字段
+        setChromeExtensionName(build.app_name);
+        setChromeExtensionVersion(version);
+        setChromeExtensionDescription(privacy);
+        const targets = parseBrowserExtensionPackageFormat(build.package_format);
+        if (targets) setChromeExtensionConfig((prev) => ({ ...prev, targets }));
+        break;
+      }
+      case "windows":
+        setWindowsAppName(build.app_name);
+        if (isWindowsPackageFormat(build.package_format)) setWindowsPackageFormat(build.package_format);
+        break;
+      case "macos":
+        setMacosAppName(build.app_name);
+        if (isMacOSPackageFormat(build.package_format)) setMacosPackageFormat(build.package_format);
+        break;
+      case "linux":
+        setLinuxAppName(build.app_name);
+        if (isLinuxPackageFormat(build.package_format)) setLinuxPackageFormat(build.package_format);
+        break;
+    }
+
+    // 构建记录字段之外的设置从配置快照恢复；快照功能上线前的构建没有快照，提示哪些设置未恢复
+    const snapshot = parseBuildConfigSnapshot(build.config_snapshot);
+    if (snapshot) {
+      if (snapshot.shellConfig) setShellConfig(snapshot.shellConfig);
+      if (snapshot.pushConfig) setPushConfig(snapshot.pushConfig);
+      if (snapshot.advancedConfig) setAndroidAdvancedConfig(snapshot.advancedConfig);
+      if (snapshot.miniProgramConfig && platform === "alipay") setAlipayConfig(snapshot.miniProgramConfig);
+      if (snapshot.miniProgramConfig && platform === "xiaohongshu") setXiaohongshuConfig(snapshot.miniProgramConfig);
+      if (snapshot.wechatConfig) setWechatAppearance(fromWechatMiniProgramConfig(snapshot.wechatConfig));
+      if (snapshot.extensionConfig) setChromeExtensionConfig(snapshot.extensionConfig);
+      if (snapshot.desktopConfig) setDesktopConfig(snapshot.desktopConfig);
+      if (snapshot.installerConfig) setWindowsInstallerConfig(snapshot.installerConfig);
+      if (snapshot.metadataConfig) setWindowsMetadataConfig(snapshot.metadataConfig);
+      if (snapshot.dmgBackground !== undefined) setMacosDmgBackground(snapshot.dmgBackground);
+      setIconStyle(snapshot.iconStyle ?? DEFAULT_ICON_STYLE);
+      if (snapshot.uploadConfig) {
+        setWechatUpload({ enabled: true, ...snapshot.uploadConfig, keyFile: null });
+        toast.info(
+          currentLanguage === "zh"
+            ? "微信上传密钥不随构建保存，请重新选择"
+            : "The WeChat upload key is not saved with builds; please select it again"
+        );
+      }
+    } else {
+      toast.info(
+        currentLanguage === "zh"
+          ? "该构建没有保存配置快照，壳配置、推送、高级设置等未恢复，请检查后再构建"
+          : "This build has no config snapshot; shell, push and advanced settings were not restored. Please review them before building"
+      );
+    }
+
+    const iconPlatform = getBuildIconPlatform(platform);
+    if (iconPlatform && build.iconUrl) {
+      const file = await loadProjectIconFile(build.iconUrl, iconPlatform);
+      if (file) await handleIconChange(file, iconPlatform, projectIconStates[iconPlatform][1]);
+    }
+  };
+
+  // 与项目预填相同，加载函数放在 ref 中，预填只随构建 ID 和用户变化执行一次
+  const loadRebuildSourceRef = useRef<((buildId: string, isCancelled: () => boolean) => Promise<void>) | null>(null);
+  loadRebuildSourceRef.current = async (buildId, isCancelled) => {
+    try {
+      const build = await fetchRebuildSource(buildId);
+      if (!isCancelled()) await applyRebuildSource(build);
+    } catch (error) {
+      console.error("[Rebuild] Failed to load build:", error);
+      toast.error(currentLanguage === "zh" ? "加载构建配置失败" : "Failed to load build configuration");
+    }
+  };
+
+  const rebuildSourceId = searchParams.get("rebuild");
+  useEffect(() => {
+    if (!rebuildSourceId || !user?.id) return;
+
+    let cancelled = false;
+    loadRebuildSourceRef.current?.(rebuildSourceId, () => cancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, [rebuildSourceId, user?.id]);
+
+  // 保存项目（只上传有变化的图标），失败时提示并继续构建
+  const persistProject = async (): Promise<string | null> => {
+    const icons: Partial<Record<ProjectIconPlatform, File | null>> = {};
+    for (const platform of PROJECT_ICON_PLATFORMS) {
+      const current = projectIconStates[platform][0];
+      if (current !== (projectIconsRef.current[platform] || null)) icons[platform] = current;
+    }
+
+    try {
+      const { project: saved, failedIcons } = await saveAppProject({
+        projectId: project?.id || null,
+        project: {
+          name: (projectSave.name.trim() || appName.trim() || url).slice(0, MAX_PROJECT_NAME_LENGTH),
+          url,
+          config: getProjectConfig(),
+        },
+        icons,
+      });
+
+      for (const [platform, file] of Object.entries(icons) as Array<[ProjectIconPlatform, File | null]>) {
+        if (failedIcons.includes(platform)) continue;
+        if (file) projectIconsRef.current[platform] = file;
+        else delete projectIconsRef.current[platform];
+      }
+      setProject({ id: saved.id, name: saved.name });
+
+      if (failedIcons.length > 0) {
+        toast.warning(
+          currentLanguage === "zh"
+            ? `项目图标保存失败: ${failedIcons.join(", ")}`
+            : `Failed to save project icons: ${failedIcons.join(", ")}`
+        );
+      }
+      return saved.id;
+    } catch (error) {
+      console.error("[App Project] Failed to save project:", error);
+      toast.warning(
+        currentLanguage === "zh"
+          ? `项目保存失败，将继续构建: ${error instanceof Error ? error.message : "未知错误"}`
+          : `Failed to save project, continuing build: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+      return null;
+    }
+  };
+
   // Check if Android is the only selected platform
   const isAndroidOnly = selectedPlatforms.length === 1 && (selectedPlatforms[0] === "android-source" || selectedPlatforms[0] === "android-apk");
   const hasAndroid = selectedPlatforms.includes("android-source") || selectedPlatforms.includes("android-apk");
   const hasIOS = selectedPlatforms.includes("ios") || selectedPlatforms.includes("ios-ipa");
   const hasWechat = selectedPlatforms.includes("wechat");
+  const hasAlipay = selectedPlatforms.includes("alipay");
+  const hasXiaohongshu = selectedPlatforms.includes("xiaohongshu");
   const hasHarmonyOS = selectedPlatforms.includes("harmonyos-source") || selectedPlatforms.includes("harmonyos-hap");
   const hasChrome = selectedPlatforms.includes("chrome");
   const hasWindows = selectedPlatforms.includes("windows");
   const hasMacos = selectedPlatforms.includes("macos");
   const hasLinux = selectedPlatforms.includes("linux");
+  // 带图标的平台（微信小程序没有图标），图标样式预览使用其中第一个已选择的图标
+  const iconPlatforms = selectedPlatforms
+    .map(getBuildIconPlatform)
+    .filter((platform): platform is ProjectIconPlatform => platform !== null);
+  const iconStylePreview = iconPlatforms.map((platform) => projectIconStates[platform][0]).find(Boolean) ?? null;
   const isIOSOnly = selectedPlatforms.length === 1 && (selectedPlatforms[0] === "ios" || selectedPlatforms[0] === "ios-ipa");
   const isWechatOnly = selectedPlatforms.length === 1 && selectedPlatforms[0] === "wechat";
   const isHarmonyOSOnly = selectedPlatforms.length === 1 && (selectedPlatforms[0] === "harmonyos-source" || selectedPlatforms[0] === "harmonyos-hap");
   const isChromeOnly = selectedPlatforms.length === 1 && selectedPlatforms[0] === "chrome";
 
+  // 各平台上次发放的构建号（登录用户，包名变化后防抖查询）
+  const [lastVersionCodes, setLastVersionCodes] = useState<Partial<Record<VersionTrack, number | null>>>({});
+  const androidVersionPackageId = hasAndroid ? packageName.trim() : "";
+  const iosVersionPackageId = hasIOS ? bundleId.trim() : "";
+  const harmonyVersionPackageId = hasHarmonyOS ? harmonyBundleName.trim() : "";
+  const versionPackageIds = useMemo<Record<VersionTrack, string>>(
+    () => ({ android: androidVersionPackageId, ios: iosVersionPackageId, harmonyos: harmonyVersionPackageId }),
+    [androidVersionPackageId, iosVersionPackageId, harmonyVersionPackageId]
+  );
+  const versionCodeInputs: Record<VersionTrack, string> = {
+    android: androidVersionCode,
+    ios: iosBuildNumber,
+    harmonyos: harmonyVersionCode,
+  };
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      VERSION_TRACKS.forEach(async (track) => {
+        const packageId = versionPackageIds[track];
+        if (!packageId) return;
+        try {
+          const response = await fetch(api.builds.versions(track, packageId));
+          if (!response.ok) return;
+          const data = await response.json();
+          if (!cancelled) {
+            setLastVersionCodes((prev) => ({ ...prev, [track]: data.lastVersionCode ?? null }));
+          }
+        } catch (error) {
+          console.error(`[Version Codes] Failed to load ${track} history:`, error);
+        }
+      });
+    }, 500);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [user?.id, versionPackageIds]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -312,7 +815,7 @@ function GenerateContent() {
 
     // Validate Android specific fields if Android is selected
     if (hasAndroid) {
-      if (!appName || !packageName || !androidVersionName || !androidVersionCode) {
+      if (!appName || !packageName || !androidVersionName) {
         toast.error(
           currentLanguage === "zh"
             ? "请填写所有必填字段"
@@ -335,7 +838,7 @@ function GenerateContent() {
 
     // Validate iOS specific fields if iOS is selected
     if (hasIOS) {
-      if (!appName || !bundleId || !iosVersionString || !iosBuildNumber) {
+      if (!appName || !bundleId || !iosVersionString) {
         toast.error(
           currentLanguage === "zh"
             ? "请填写所有必填字段"
@@ -377,11 +880,65 @@ function GenerateContent() {
         );
         return;
       }
+
+      // 自动上传要求 x.y.z 格式的版本号
+      if (wechatUpload.enabled && !isMiniProgramVersion(wechatVersion)) {
+        toast.error(
+          currentLanguage === "zh"
+            ? "自动上传要求版本号格式为 x.y.z，如 1.0.0"
+            : "Auto upload requires a version in format x.y.z, e.g. 1.0.0"
+        );
+        return;
+      }
+
+      const wechatConfigResult = parseWechatMiniProgramConfig(toWechatMiniProgramConfig(wechatAppearance));
+      if (!wechatConfigResult.success) {
+        toast.error(
+          currentLanguage === "zh"
+            ? `微信小程序外观配置有误：${wechatConfigResult.error}`
+            : `Invalid WeChat appearance settings: ${wechatConfigResult.error}`
+        );
+        return;
+      }
+    }
+
+    // Validate Alipay / Xiaohongshu specific fields if selected
+    const selectedMiniPrograms = [
+      hasAlipay && { platform: "alipay" as const, appId: alipayAppId, version: alipayVersion },
+      hasXiaohongshu && { platform: "xiaohongshu" as const, appId: xiaohongshuAppId, version: xiaohongshuVersion },
+    ].filter((item) => item !== false);
+    for (const miniProgram of selectedMiniPrograms) {
+      if (!appName || !miniProgram.appId || !miniProgram.version) {
+        toast.error(
+          currentLanguage === "zh"
+            ? "请填写所有必填字段"
+            : "Please fill in all required fields"
+        );
+        return;
+      }
+
+      if (!isMiniProgramAppId(miniProgram.platform, miniProgram.appId)) {
+        toast.error(
+          currentLanguage === "zh"
+            ? `${miniProgram.platform === "alipay" ? "支付宝" : "小红书"}小程序 AppID 格式不正确`
+            : `Invalid ${getMiniProgramLabel(miniProgram.platform)} AppID. Should be ${getMiniProgramAppIdHint(miniProgram.platform)}`
+        );
+        return;
+      }
+
+      if (!isMiniProgramVersion(miniProgram.version)) {
+        toast.error(
+          currentLanguage === "zh"
+            ? "小程序版本号格式不正确，应为 x.y.z，如 1.0.0"
+            : "Invalid mini program version. Should be x.y.z, e.g. 1.0.0"
+        );
+        return;
+      }
     }
 
     // Validate HarmonyOS specific fields if HarmonyOS is selected
     if (hasHarmonyOS) {
-      if (!appName || !harmonyBundleName || !harmonyVersionName || !harmonyVersionCode) {
+      if (!appName || !harmonyBundleName || !harmonyVersionName) {
         toast.error(
           currentLanguage === "zh"
             ? "请填写所有必填字段"
@@ -412,6 +969,14 @@ function GenerateContent() {
         );
         return;
       }
+      if (!isBrowserExtensionVersion(chromeExtensionVersion)) {
+        toast.error(
+          currentLanguage === "zh"
+            ? "扩展版本号应为 1 - 4 段数字，例如 1.0.0"
+            : "Extension version must be 1 - 4 dot-separated numbers, e.g. 1.0.0"
+        );
+        return;
+      }
     }
 
     // Validate Windows specific fields if Windows is selected
@@ -424,6 +989,14 @@ function GenerateContent() {
         );
         return;
       }
+      if (windowsPackageFormat === "installer" && (!windowsInstallerConfig.publisher.trim() || !windowsInstallerConfig.version.trim())) {
+        toast.error(
+          currentLanguage === "zh"
+            ? "请填写安装程序的发布者和版本号"
+            : "Please fill in the installer publisher and version"
+        );
+        return;
+      }
     }
 
     // Validate macOS specific fields if macOS is selected
@@ -568,7 +1141,37 @@ function GenerateContent() {
         return;
       }
 
-      // 登录用户模式：使用批量构建 API（一次请求处理所有平台，立即返回）
+      // 登录用户模式：校验构建号（留空自动递增），不高于上次构建时提醒应用商店会拒绝
+      const selectedVersionTracks = VERSION_TRACKS.filter((track) => versionPackageIds[track]);
+      for (const track of selectedVersionTracks) {
+        const versionError = validateVersionCodeInput(track, versionCodeInputs[track]);
+        if (versionError) {
+          toast.error(currentLanguage === "zh" ? `${track} 构建号格式不正确` : `${track}: ${versionError}`);
+          setIsSubmitting(false);
+          return;
+        }
+      }
+      const reusedVersionTracks = selectedVersionTracks.filter((track) =>
+        isVersionCodeReused(versionCodeInputs[track], lastVersionCodes[track])
+      );
+      if (reusedVersionTracks.length > 0) {
+        const details = reusedVersionTracks
+          .map((track) => `${track}: ${versionCodeInputs[track]} ≤ ${lastVersionCodes[track]}`)
+          .join(", ");
+        const proceed = confirm(
+          currentLanguage === "zh"
+            ? `构建号不高于上次构建（${details}），应用商店会拒绝上传。仍要继续吗？`
+            : `Build numbers are not higher than the last build (${details}); stores will reject the upload. Continue anyway?`
+        );
+        if (!proceed) {
+          setIsSubmitting(false);
+          return;
+        }
+      }
+
+      // 登录用户模式：保存项目（可选），再使用批量构建 API（一次请求处理所有平台，立即返回）
+      const projectId = projectSave.enabled ? await persistProject() : null;
+
       type PlatformConfig = {
         platform: string;
         appName: string;
@@ -576,13 +1179,27 @@ function GenerateContent() {
         versionName?: string;
         versionCode?: string;
         privacyPolicy?: string;
+        advancedConfig?: AndroidAdvancedConfig;
         bundleId?: string;
         versionString?: string;
         buildNumber?: string;
         appId?: string;
         version?: string;
+        miniProgramConfig?: MiniProgramConfig;
+        uploadConfig?: WechatUploadConfig | null;
+        wechatConfig?: WechatMiniProgramConfig;
         bundleName?: string;
+        shellConfig?: NativeShellConfig;
+        pushConfig?: PushConfig;
+        deepLinkConfig?: DeepLinkConfig;
         description?: string;
+        packageFormat?: LinuxPackageFormat | MacOSPackageFormat;
+        dmgBackground?: boolean;
+        iconStyle?: IconStyleConfig | null;
+        installerConfig?: WindowsInstallerConfig;
+        metadataConfig?: WindowsMetadataConfig;
+        desktopConfig?: DesktopShellConfig;
+        extensionConfig?: BrowserExtensionConfig;
         iconUrl?: string; // 图标 URL（替代 base64）
         iconBase64?: string; // 保留向后兼容
         iconType?: string;
@@ -604,6 +1221,8 @@ function GenerateContent() {
         const harmonyPlatform = selectedPlatforms.find(p => p === "harmonyos-source" || p === "harmonyos-hap") || "harmonyos-source";
         iconsToUpload.push({ file: harmonyIcon, platform: harmonyPlatform });
       }
+      if (hasAlipay && alipayIcon) iconsToUpload.push({ file: alipayIcon, platform: "alipay" });
+      if (hasXiaohongshu && xiaohongshuIcon) iconsToUpload.push({ file: xiaohongshuIcon, platform: "xiaohongshu" });
       if (hasChrome && chromeExtensionIcon) iconsToUpload.push({ file: chromeExtensionIcon, platform: "chrome" });
       if (hasWindows && windowsIcon) iconsToUpload.push({ file: windowsIcon, platform: "windows" });
       if (hasMacos && macosIcon) iconsToUpload.push({ file: macosIcon, platform: "macos" });
@@ -678,6 +1297,10 @@ function GenerateContent() {
       }
 
       // 构建各平台配置
+      const submittedPushConfig = pushConfig.provider !== "none" ? pushConfig : undefined;
+      const submittedDeepLinkConfig = normalizeDeepLinkConfig(deepLinkConfig);
+      const submittedDesktopConfig = normalizeDesktopShellConfig(desktopConfig);
+      const submittedIconStyle = isDefaultIconStyle(iconStyle) ? null : iconStyle;
       if (hasAndroid) {
         // 使用实际选中的 Android 平台 ID
         const androidPlatform = selectedPlatforms.find(p => p === "android-source" || p === "android-apk") || "android-source";
@@ -686,6 +1309,9 @@ function GenerateContent() {
         platforms.push({
           platform: androidPlatform, appName, packageName,
           versionName: androidVersionName, versionCode: androidVersionCode, privacyPolicy,
+          shellConfig, pushConfig: submittedPushConfig, deepLinkConfig: submittedDeepLinkConfig,
+          advancedConfig: androidAdvancedConfig,
+          iconStyle: submittedIconStyle,
           ...(IS_DOMESTIC_VERSION && latestIconPath ? { iconPath: latestIconPath } : iconUrls[androidPlatform] && { iconUrl: iconUrls[androidPlatform] }),
         });
       }
@@ -694,19 +1320,45 @@ function GenerateContent() {
         const latestIconPath = uploadedIconPathsRef.current[iosPlatform] || uploadedIconPaths[iosPlatform] || uploadedIconPathsRef.current["ios"] || uploadedIconPaths["ios"];
         platforms.push({
           platform: iosPlatform, appName, bundleId,
-          versionString: iosVersionString, buildNumber: iosBuildNumber, privacyPolicy: iosPrivacyPolicy,
+          versionString: iosVersionString, buildNumber: iosBuildNumber, privacyPolicy: iosPrivacyPolicy, shellConfig,
+          pushConfig: submittedPushConfig, deepLinkConfig: submittedDeepLinkConfig,
+          iconStyle: submittedIconStyle,
           ...(IS_DOMESTIC_VERSION && latestIconPath ? { iconPath: latestIconPath } : iconUrls[iosPlatform] && { iconUrl: iconUrls[iosPlatform] }),
         });
       }
       if (hasWechat) {
-        platforms.push({ platform: "wechat", appName, appId: wechatAppId, version: wechatVersion });
+        platforms.push({
+          platform: "wechat", appName, appId: wechatAppId, version: wechatVersion,
+          uploadConfig: await toWechatUploadConfig(wechatUpload),
+          wechatConfig: toWechatMiniProgramConfig(wechatAppearance),
+        });
+      }
+      if (hasAlipay) {
+        const latestIconPath = uploadedIconPathsRef.current.alipay || uploadedIconPaths.alipay;
+        platforms.push({
+          platform: "alipay", appName, appId: alipayAppId, version: alipayVersion,
+          miniProgramConfig: normalizeMiniProgramConfig(alipayConfig),
+          iconStyle: submittedIconStyle,
+          ...(IS_DOMESTIC_VERSION && latestIconPath ? { iconPath: latestIconPath } : iconUrls.alipay && { iconUrl: iconUrls.alipay }),
+        });
+      }
+      if (hasXiaohongshu) {
+        const latestIconPath = uploadedIconPathsRef.current.xiaohongshu || uploadedIconPaths.xiaohongshu;
+        platforms.push({
+          platform: "xiaohongshu", appName, appId: xiaohongshuAppId, version: xiaohongshuVersion,
+          miniProgramConfig: normalizeMiniProgramConfig(xiaohongshuConfig),
+          iconStyle: submittedIconStyle,
+          ...(IS_DOMESTIC_VERSION && latestIconPath ? { iconPath: latestIconPath } : iconUrls.xiaohongshu && { iconUrl: iconUrls.xiaohongshu }),
+        });
       }
       if (hasHarmonyOS) {
         const harmonyPlatform = selectedPlatforms.find(p => p === "harmonyos-source" || p === "harmonyos-hap") || "harmonyos-source";
         const latestIconPath = uploadedIconPathsRef.current[harmonyPlatform] || uploadedIconPaths[harmonyPlatform] || uploadedIconPathsRef.current["harmonyos"] || uploadedIconPaths["harmonyos"];
         platforms.push({
           platform: harmonyPlatform, appName, bundleName: harmonyBundleName,
-          versionName: harmonyVersionName, versionCode: harmonyVersionCode, privacyPolicy: harmonyPrivacyPolicy,
+          versionName: harmonyVersionName, versionCode: harmonyVersionCode, privacyPolicy: harmonyPrivacyPolicy, shellConfig,
+          pushConfig: submittedPushConfig,
+          iconStyle: submittedIconStyle,
           ...(IS_DOMESTIC_VERSION && latestIconPath ? { iconPath: latestIconPath } : iconUrls[harmonyPlatform] && { iconUrl: iconUrls[harmonyPlatform] }),
         });
       }
@@ -715,6 +1367,11 @@ function GenerateContent() {
         platforms.push({
           platform: "chrome", appName: chromeExtensionName,
           versionName: chromeExtensionVersion, description: chromeExtensionDescription,
+          extensionConfig: {
+            ...chromeExtensionConfig,
+            popup: { ...chromeExtensionConfig.popup, language: chromeExtensionConfig.popup.language || (currentLanguage === "zh" ? "zh" : "en") },
+          },
+          iconStyle: submittedIconStyle,
           ...(IS_DOMESTIC_VERSION && latestIconPath ? { iconPath: latestIconPath } : iconUrls.chrome && { iconUrl: iconUrls.chrome }),
         });
       }
@@ -723,21 +1380,34 @@ function GenerateContent() {
         const latestIconPath = uploadedIconPathsRef.current.windows || uploadedIconPaths.windows;
         console.log(`[Build Config] Windows platform - IS_DOMESTIC_VERSION: ${IS_DOMESTIC_VERSION}, uploadedIconPaths.windows: ${uploadedIconPaths.windows}, latestIconPath from ref: ${latestIconPath}, iconUrls.windows: ${iconUrls.windows}`);
         platforms.push({
-          platform: "windows", appName: windowsAppName,
+          platform: "windows", appName: windowsAppName, metadataConfig: windowsMetadataConfig,
+          desktopConfig: submittedDesktopConfig,
+          ...(windowsPackageFormat === "installer" && {
+            installerConfig: {
+              ...windowsInstallerConfig,
+              productName: windowsInstallerConfig.productName.trim() || windowsAppName,
+            },
+          }),
+          iconStyle: submittedIconStyle,
           ...(IS_DOMESTIC_VERSION && latestIconPath ? { iconPath: latestIconPath } : iconUrls.windows && { iconUrl: iconUrls.windows }),
         });
       }
       if (hasMacos) {
         const latestIconPath = uploadedIconPathsRef.current.macos || uploadedIconPaths.macos;
         platforms.push({
-          platform: "macos", appName: macosAppName,
+          platform: "macos", appName: macosAppName, packageFormat: macosPackageFormat,
+          desktopConfig: submittedDesktopConfig,
+          ...(macosPackageFormat === "dmg" && { dmgBackground: macosDmgBackground }),
+          iconStyle: submittedIconStyle,
           ...(IS_DOMESTIC_VERSION && latestIconPath ? { iconPath: latestIconPath } : iconUrls.macos && { iconUrl: iconUrls.macos }),
         });
       }
       if (hasLinux) {
         const latestIconPath = uploadedIconPathsRef.current.linux || uploadedIconPaths.linux;
         platforms.push({
-          platform: "linux", appName: linuxAppName,
+          platform: "linux", appName: linuxAppName, packageFormat: linuxPackageFormat,
+          desktopConfig: submittedDesktopConfig,
+          iconStyle: submittedIconStyle,
           ...(IS_DOMESTIC_VERSION && latestIconPath ? { iconPath: latestIconPath } : iconUrls.linux && { iconUrl: iconUrls.linux }),
         });
       }
@@ -760,6 +1430,14 @@ function GenerateContent() {
           formData.append("versionName", platforms[0].versionName || "");
           formData.append("versionCode", platforms[0].versionCode || "");
           formData.append("privacyPolicy", platforms[0].privacyPolicy || "");
+          formData.append("advancedConfig", JSON.stringify(platforms[0].advancedConfig || {}));
+          formData.append("buildType", androidSigning.buildType);
+          if (androidSigning.buildType === "release" && androidSigning.keystoreFile) {
+            formData.append("keystoreFile", androidSigning.keystoreFile);
+            formData.append("keystoreAlias", androidSigning.keystoreAlias);
+            formData.append("keystorePassword", androidSigning.keystorePassword);
+            formData.append("keyPassword", androidSigning.keyPassword);
+          }
         } else if (isIOSIpaOnly) {
           formData.append("bundleId", platforms[0].bundleId || "");
           formData.append("versionString", platforms[0].versionString || "");
@@ -772,6 +1450,17 @@ function GenerateContent() {
           formData.append("privacyPolicy", platforms[0].privacyPolicy || "");
         }
 
+        formData.append("shellConfig", JSON.stringify(platforms[0].shellConfig || {}));
+        if (platforms[0].pushConfig) {
+          formData.append("pushConfig", JSON.stringify(platforms[0].pushConfig));
+        }
+        if (platforms[0].deepLinkConfig) {
+          formData.append("deepLinkConfig", JSON.stringify(platforms[0].deepLinkConfig));
+        }
+        if (platforms[0].iconStyle) {
+          formData.append("iconStyle", JSON.stringify(platforms[0].iconStyle));
+        }
+
         const platformIconPath = (platforms[0] as any).iconPath;
         const platformIconUrl = (platforms[0] as any).iconUrl;
         // 获取对应平台的原始图标文件
@@ -809,7 +1498,7 @@ function GenerateContent() {
         response = await fetch(apiPath, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ url, platforms }),
+          body: JSON.stringify({ url, platforms, projectId }),
         });
       }
 
@@ -848,12 +1537,12 @@ function GenerateContent() {
 
   // Validation for Android
   const isAndroidValid = hasAndroid
-    ? url && appName && packageName && androidVersionName && androidVersionCode
+    ? url && appName && packageName && androidVersionName
     : true;
 
   // Validation for iOS
   const isIOSValid = hasIOS
-    ? url && appName && bundleId && iosVersionString && iosBuildNumber
+    ? url && appName && bundleId && iosVersionString
     : true;
 
   // Validation for WeChat
@@ -861,9 +1550,17 @@ function GenerateContent() {
     ? url && appName && wechatAppId && wechatVersion
     : true;
 
+  // Validation for Alipay / Xiaohongshu
+  const isAlipayValid = hasAlipay
+    ? url && appName && alipayAppId && alipayVersion
+    : true;
+  const isXiaohongshuValid = hasXiaohongshu
+    ? url && appName && xiaohongshuAppId && xiaohongshuVersion
+    : true;
+
   // Validation for HarmonyOS
   const isHarmonyOSValid = hasHarmonyOS
-    ? url && appName && harmonyBundleName && harmonyVersionName && harmonyVersionCode
+    ? url && appName && harmonyBundleName && harmonyVersionName
     : true;
 
   // Validation for Chrome Extension
@@ -873,7 +1570,7 @@ function GenerateContent() {
 
   // Validation for Windows
   const isWindowsValid = hasWindows
-    ? url && windowsAppName
+    ? url && windowsAppName && (windowsPackageFormat !== "installer" || (windowsInstallerConfig.publisher.trim() && windowsInstallerConfig.version.trim()))
     : true;
 
   // Validation for macOS
@@ -886,7 +1583,7 @@ function GenerateContent() {
     ? url && linuxAppName
     : true;
 
-  const isValid = selectedPlatforms.length > 0 && isAndroidValid && isIOSValid && isWechatValid && isHarmonyOSValid && isChromeValid && isWindowsValid && isMacosValid && isLinuxValid;
+  const isValid = selectedPlatforms.length > 0 && isAndroidValid && isIOSValid && isWechatValid && isAlipayValid && isXiaohongshuValid && isHarmonyOSValid && isChromeValid && isWindowsValid && isMacosValid && isLinuxValid;
 
   return (
     <div className="min-h-screen relative overflow-hidden pt-16 sm:pt-20">
@@ -953,7 +1650,7 @@ function GenerateContent() {
                 {currentLanguage === "zh" ? "输入网站地址" : "Enter Website URL"}
               </h2>
             </div>
-            <UrlInput value={url} onChange={setUrl} />
+            <UrlInput value={url} onChange={setUrl} onSiteImport={user ? applySiteImport : undefined} />
           </div>
 
           {/* Step 3: App Config - Dynamic based on platform */}
@@ -975,13 +1672,20 @@ function GenerateContent() {
                   versionName={androidVersionName}
                   versionCode={androidVersionCode}
                   privacyPolicy={privacyPolicy}
+                  advancedConfig={androidAdvancedConfig}
                   onNameChange={handleAppNameWithPackage}
                   onPackageNameChange={setPackageName}
                   onVersionNameChange={setAndroidVersionName}
                   onVersionCodeChange={setAndroidVersionCode}
+                  autoIncrement={!isGuestMode}
+                  lastVersionCode={lastVersionCodes.android ?? null}
                   onPrivacyPolicyChange={setPrivacyPolicy}
                   onIconChange={(file) => handleIconChange(file, "android", setAppIcon)}
+                  onAdvancedConfigChange={setAndroidAdvancedConfig}
                   isApkBuild={selectedPlatforms.includes("android-apk")}
+                  // 批量构建中的 APK 只生成源码，构建类型仅对单独 APK 构建生效
+                  signing={selectedPlatforms.length === 1 ? androidSigning : undefined}
+                  onSigningChange={setAndroidSigning}
                 />
               )}
 
@@ -998,6 +1702,8 @@ function GenerateContent() {
                     onBundleIdChange={setBundleId}
                     onVersionStringChange={setIosVersionString}
                     onBuildNumberChange={setIosBuildNumber}
+                    autoIncrement={!isGuestMode}
+                    lastVersionCode={lastVersionCodes.ios ?? null}
                     onPrivacyPolicyChange={setIosPrivacyPolicy}
                     onIconChange={(file) => handleIconChange(file, "ios", setIosIcon)}
                   />
@@ -1014,13 +1720,51 @@ function GenerateContent() {
                     onNameChange={handleAppNameChange}
                     onAppIdChange={setWechatAppId}
                     onVersionChange={setWechatVersion}
+                    upload={wechatUpload}
+                    onUploadChange={setWechatUpload}
+                    appearance={wechatAppearance}
+                    onAppearanceChange={setWechatAppearance}
+                  />
+                </div>
+              )}
+
+              {/* Show Alipay config if Alipay is selected */}
+              {hasAlipay && (
+                <div className={(hasAndroid || hasIOS || hasWechat) ? "mt-8 pt-8 border-t border-border/50" : ""}>
+                  <AlipayConfig
+                    name={appName}
+                    appId={alipayAppId}
+                    version={alipayVersion}
+                    miniProgramConfig={alipayConfig}
+                    onNameChange={handleAppNameChange}
+                    onAppIdChange={setAlipayAppId}
+                    onVersionChange={setAlipayVersion}
+                    onIconChange={(file) => handleIconChange(file, "alipay", setAlipayIcon)}
+                    onMiniProgramConfigChange={setAlipayConfig}
+                  />
+                </div>
+              )}
+
+              {/* Show Xiaohongshu config if Xiaohongshu is selected */}
+              {hasXiaohongshu && (
+                <div className={(hasAndroid || hasIOS || hasWechat || hasAlipay) ? "mt-8 pt-8 border-t border-border/50" : ""}>
+                  <XiaohongshuConfig
+                    name={appName}
+                    appId={xiaohongshuAppId}
+                    version={xiaohongshuVersion}
+                    miniProgramConfig={xiaohongshuConfig}
+                    onNameChange={handleAppNameChange}
+                    onAppIdChange={setXiaohongshuAppId}
+                    onVersionChange={setXiaohongshuVersion}
+                    onIconChange={(file) => handleIconChange(file, "xiaohongshu", setXiaohongshuIcon)}
+                    onMiniProgramConfigChange={setXiaohongshuConfig}
                   />
                 </div>
               )}
 
               {/* Show HarmonyOS config if HarmonyOS is selected */}
               {hasHarmonyOS && (
-                <div className={(hasAndroid || hasIOS || hasWechat) ? "mt-8 pt-8 border-t border-border/50" : ""}>
+                <div className={(hasAndroid || hasIOS || hasWechat || hasAlipay || hasXiaohongshu) ? "mt-8 pt-8 border-t border-border/50" : ""}>
                   <HarmonyOSConfig
                     name={appName}
                     bundleName={harmonyBundleName}
@@ -1031,15 +1775,43 @@ function GenerateContent() {
                     onBundleNameChange={setHarmonyBundleName}
                     onVersionNameChange={setHarmonyVersionName}
                     onVersionCodeChange={setHarmonyVersionCode}
+                    autoIncrement={!isGuestMode}
+                    lastVersionCode={lastVersionCodes.harmonyos ?? null}
                     onPrivacyPolicyChange={setHarmonyPrivacyPolicy}
                     onIconChange={(file) => handleIconChange(file, "harmonyos", setHarmonyIcon)}
                   />
                 </div>
               )}
 
+              {/* 移动端通用行为配置（任一移动平台选中时显示） */}
+              {(hasAndroid || hasIOS || hasHarmonyOS) && (
+                <div className="mt-8 pt-8 border-t border-border/50">
+                  <NativeShellConfigSection value={shellConfig} onChange={setShellConfig} />
+                </div>
+              )}
+
+              {/* 推送通知配置（任一移动平台选中时显示） */}
+              {(hasAndroid || hasIOS || hasHarmonyOS) && (
+                <div className="mt-8 pt-8 border-t border-border/50">
+                  <PushNotificationConfig value={pushConfig} onChange={setPushConfig} />
+                </div>
+              )}
+
+              {/* 深度链接配置（Android / iOS） */}
+              {(hasAndroid || hasIOS) && (
+                <div className="mt-8 pt-8 border-t border-border/50">
+                  <DeepLinkConfigSection
+                    value={deepLinkConfig}
+                    onChange={setDeepLinkConfig}
+                    showAndroid={hasAndroid}
+                    showIOS={hasIOS}
+                  />
+                </div>
+              )}
+
               {/* Show Chrome Extension config if Chrome is selected */}
               {hasChrome && (
-                <div className={(hasAndroid || hasIOS || hasWechat || hasHarmonyOS) ? "mt-8 pt-8 border-t border-border/50" : ""}>
+                <div className={(hasAndroid || hasIOS || hasWechat || hasAlipay || hasXiaohongshu || hasHarmonyOS) ? "mt-8 pt-8 border-t border-border/50" : ""}>
                   <ChromeExtensionConfig
                     name={chromeExtensionName}
                     versionName={chromeExtensionVersion}
@@ -1048,39 +1820,59 @@ function GenerateContent() {
                     onVersionNameChange={setChromeExtensionVersion}
                     onDescriptionChange={setChromeExtensionDescription}
                     onIconChange={(file) => handleIconChange(file, "chrome", setChromeExtensionIcon)}
+                    extensionConfig={chromeExtensionConfig}
+                    onExtensionConfigChange={setChromeExtensionConfig}
                   />
                 </div>
               )}
 
               {/* Show Windows config if Windows is selected */}
               {hasWindows && (
-                <div className={(hasAndroid || hasIOS || hasWechat || hasHarmonyOS || hasChrome) ? "mt-8 pt-8 border-t border-border/50" : ""}>
+                <div className={(hasAndroid || hasIOS || hasWechat || hasAlipay || hasXiaohongshu || hasHarmonyOS || hasChrome) ? "mt-8 pt-8 border-t border-border/50" : ""}>
                   <WindowsConfig
                     name={windowsAppName}
                     onNameChange={setWindowsAppName}
                     onIconChange={(file) => handleIconChange(file, "windows", setWindowsIcon)}
+                    packageFormat={windowsPackageFormat}
+                    onPackageFormatChange={setWindowsPackageFormat}
+                    installerConfig={windowsInstallerConfig}
+                    onInstallerConfigChange={setWindowsInstallerConfig}
+                    metadataConfig={windowsMetadataConfig}
+                    onMetadataConfigChange={setWindowsMetadataConfig}
+                    desktopConfig={desktopConfig}
+                    onDesktopConfigChange={setDesktopConfig}
                   />
                 </div>
               )}
 
               {/* Show macOS config if macOS is selected */}
               {hasMacos && (
-                <div className={(hasAndroid || hasIOS || hasWechat || hasHarmonyOS || hasChrome || hasWindows) ? "mt-8 pt-8 border-t border-border/50" : ""}>
+                <div className={(hasAndroid || hasIOS || hasWechat || hasAlipay || hasXiaohongshu || hasHarmonyOS || hasChrome || hasWindows) ? "mt-8 pt-8 border-t border-border/50" : ""}>
                   <MacOSConfig
                     name={macosAppName}
                     onNameChange={setMacosAppName}
                     onIconChange={(file) => handleIconChange(file, "macos", setMacosIcon)}
+                    packageFormat={macosPackageFormat}
+                    onPackageFormatChange={setMacosPackageFormat}
+                    dmgBackground={macosDmgBackground}
+                    onDmgBackgroundChange={setMacosDmgBackground}
+                    desktopConfig={desktopConfig}
+                    onDesktopConfigChange={setDesktopConfig}
                   />
                 </div>
               )}
 
               {/* Show Linux config if Linux is selected */}
               {hasLinux && (
-                <div className={(hasAndroid || hasIOS || hasWechat || hasHarmonyOS || hasChrome || hasWindows || hasMacos) ? "mt-8 pt-8 border-t border-border/50" : ""}>
+                <div className={(hasAndroid || hasIOS || hasWechat || hasAlipay || hasXiaohongshu || hasHarmonyOS || hasChrome || hasWindows || hasMacos) ? "mt-8 pt-8 border-t border-border/50" : ""}>
                   <LinuxConfig
                     name={linuxAppName}
                     onNameChange={setLinuxAppName}
                     onIconChange={(file) => handleIconChange(file, "linux", setLinuxIcon)}
+                    packageFormat={linuxPackageFormat}
+                    onPackageFormatChange={setLinuxPackageFormat}
+                    desktopConfig={desktopConfig}
+                    onDesktopConfigChange={setDesktopConfig}
                   />
                 </div>
               )}
@@ -1112,7 +1904,7 @@ function GenerateContent() {
                 </div>
               ) : (
                 /* Show generic config if no specific platform is selected but other platforms are */
-                !hasAndroid && !hasIOS && !hasWechat && !hasHarmonyOS && !hasChrome && !hasWindows && !hasMacos && !hasLinux && (
+                !hasAndroid && !hasIOS && !hasWechat && !hasAlipay && !hasXiaohongshu && !hasHarmonyOS && !hasChrome && !hasWindows && !hasMacos && !hasLinux && (
                   <AppConfig
                     name={appName}
                     description={appDescription}
@@ -1124,6 +1916,25 @@ function GenerateContent() {
               )}
           </div>
 
+          {/* Icon Style - Only for logged-in users */}
+          {!isGuestMode && iconPlatforms.length > 0 && (
+            <div className="bg-card/50 backdrop-blur-sm rounded-xl sm:rounded-2xl border border-border/50 p-4 sm:p-6 shadow-xl shadow-black/5">
+              <IconStyleEditor value={iconStyle} onChange={setIconStyle} icon={iconStylePreview} />
+            </div>
+          )}
+
+          {/* Save as Project - Only for logged-in users */}
+          {!isGuestMode && selectedPlatforms.length > 0 && (
+            <div className="bg-card/50 backdrop-blur-sm rounded-xl sm:rounded-2xl border border-border/50 p-4 sm:p-6 shadow-xl shadow-black/5">
+              <AppProjectConfig
+                value={projectSave}
+                onChange={setProjectSave}
+                project={project}
+                defaultName={appName}
+              />
+            </div>
+          )}
+
           {/* Submit Button */}
           <div className="flex flex-col items-center gap-3 sm:gap-4 pt-4 sm:pt-6 pb-8 sm:pb-12">
             {/* Guest Mode Notice */}
@@ -22,6 +22,8 @@ import {
   Package,
   HardDrive,
   Lock,
+  Wallet,
+  Bookmark,
 } from "lucide-react";
 
 interface ShareData {
@@ -137,6 +139,10 @@ export default function SharePage() {
         return <Apple className="h-6 w-6" />;
       case "wechat":
         return <MessageCircle className="h-6 w-6" />;
+      case "alipay":
+        return <Wallet className="h-6 w-6" />;
+      case "xiaohongshu":
+        return <Bookmark className="h-6 w-6" />;
       case "harmonyos":
         return <Hexagon className="h-6 w-6" />;
       case "chrome":
@@ -157,6 +163,8 @@ export default function SharePage() {
       case "android": return "Android";
       case "ios": return "iOS";
       case "wechat": return "WeChat";
+      case "alipay": return "Alipay";
+      case "xiaohongshu": return "Xiaohongshu";
       case "harmonyos": return "HarmonyOS";
       case "chrome": return "Chrome";
       case "windows": return "Windows";
@@ -175,6 +183,10 @@ export default function SharePage() {
         return "text-gray-600 dark:text-gray-400 bg-gray-50 dark:bg-gray-500/10 border-gray-200 dark:border-gray-500/20";
       case "wechat":
         return "text-[#07C160] bg-[#07C160]/10 border-[#07C160]/30";
+      case "alipay":
+        return "text-[#1677FF] bg-[#1677FF]/10 border-[#1677FF]/30";
+      case "xiaohongshu":
+        return "text-[#FF2442] bg-[#FF2442]/10 border-[#FF2442]/30";
       case "harmonyos":
         return "text-[#E52828] bg-[#E52828]/10 border-[#E52828]/30";
       case "chrome":
@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { cn } from "@/lib/utils";
+import { diffBuilds, type BuildDiffSource } from "@/lib/builds/diff";
+import { parseBuildConfigSnapshot, type BuildConfigSnapshot } from "@/lib/builds/config-snapshot";
+import { fetchRebuildSource } from "@/lib/builds/rebuild";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+
+interface BuildDiffDialogProps {
+  builds: [BuildDiffSource, BuildDiffSource] | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  language?: "zh" | "en";
+}
+
+function formatBuildLabel(build: BuildDiffSource) {
+  return `v${build.version_name}${build.version_code ? ` (${build.version_code})` : ""}`;
+}
+
+export function BuildDiffDialog({ builds, open, onOpenChange, language = "zh" }: BuildDiffDialogProps) {
+  const [changedOnly, setChangedOnly] = useState(false);
+  // 构建列表不返回配置快照，打开时从构建详情加载（加载失败时只比较构建记录字段）
+  const [snapshots, setSnapshots] = useState<Record<string, BuildConfigSnapshot | null>>({});
+  const [snapshotsFailed, setSnapshotsFailed] = useState(false);
+  const firstId = builds?.[0].id;
+  const secondId = builds?.[1].id;
+
+  useEffect(() => {
+    if (!open || !firstId || !secondId) return;
+
+    let cancelled = false;
+    setSnapshotsFailed(false);
+    Promise.all(
+      [firstId, secondId].map(async (id): Promise<[string, BuildConfigSnapshot | null]> => {
+        const build = await fetchRebuildSource(id);
+        return [id, parseBuildConfigSnapshot(build.config_snapshot)];
+      })
+    )
+      .then((entries) => {
+        if (!cancelled) setSnapshots(Object.fromEntries(entries));
+      })
+      .catch((error) => {
+        console.error("[Build Diff] Failed to load config snapshots:", error);
+        if (!cancelled) setSnapshotsFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, firstId, secondId]);
+
+  if (!builds) return null;
+
+  const snapshotsLoaded = builds.every((build) => build.id in snapshots);
+  const snapshotMissing = snapshotsLoaded && builds.some((build) => !snapshots[build.id]);
+  const { older, newer, fields } = diffBuilds(
+    { ...builds[0], config_snapshot: snapshots[builds[0].id] },
+    { ...builds[1], config_snapshot: snapshots[builds[1].id] }
+  );
+  const changedCount = fields.filter((field) => field.changed).length;
+  const visibleFields = changedOnly ? fields.filter((field) => field.changed) : fields;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{language === "zh" ? "构建对比" : "Compare builds"}</DialogTitle>
+          <DialogDescription className="truncate">
+            {newer.app_name} · {newer.package_name}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="text-muted-foreground">
+            {language === "zh" ? `${changedCount} 个字段有变化` : `${changedCount} field(s) changed`}
+          </span>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <Checkbox checked={changedOnly} onCheckedChange={(checked) => setChangedOnly(checked === true)} />
+            {language === "zh" ? "只看变化" : "Changed only"}
+          </label>
+        </div>
+
+        {(!snapshotsLoaded || snapshotMissing) && (
+          <p className="text-xs text-muted-foreground">
+            {snapshotsFailed
+              ? language === "zh"
+                ? "配置快照加载失败，只比较构建记录中的字段"
+                : "Failed to load config snapshots; only build record fields are compared"
+              : !snapshotsLoaded
+                ? language === "zh"
+                  ? "正在加载壳配置、推送等设置…"
+                  : "Loading shell, push and other settings…"
+                : language === "zh"
+                  ? "较早的构建没有保存配置快照，壳配置、推送、高级设置等无法比较"
+                  : "Older builds have no config snapshot; shell, push and advanced settings cannot be compared"}
+          </p>
+        )}
+
+        <div className="flex-1 overflow-y-auto rounded-lg border border-border/50 text-sm">
+          <div className="grid grid-cols-[minmax(0,0.8fr)_minmax(0,1fr)_minmax(0,1fr)] gap-px bg-border/50">
+            <div className="bg-muted px-3 py-2 font-medium">{language === "zh" ? "字段" : "Field"}</div>
+            <div className="bg-muted px-3 py-2 font-medium truncate">
+              {language === "zh" ? "较早" : "Older"} · {formatBuildLabel(older)}
+            </div>
+            <div className="bg-muted px-3 py-2 font-medium truncate">
+              {language === "zh" ? "较新" : "Newer"} · {formatBuildLabel(newer)}
+            </div>
+            {visibleFields.map((field) => (
+              <div key={field.field} className="contents">
+                <div className={cn("bg-background px-3 py-2 text-muted-foreground", field.changed && "bg-amber-500/5")}>
+                  {field.label[language]}
+                </div>
+                <div
+                  className={cn(
+                    "bg-background px-3 py-2 break-all whitespace-pre-wrap",
+                    field.changed && "bg-red-500/5 text-red-600 dark:text-red-400"
+                  )}
+                >
+                  {field.before || "—"}
+                </div>
+                <div
+                  className={cn(
+                    "bg-background px-3 py-2 break-all whitespace-pre-wrap",
+                    field.changed && "bg-green-500/5 text-green-600 dark:text-green-400"
+                  )}
+                >
+                  {field.after || "—"}
+                </div>
+              </div>
+            ))}
+          </div>
+          {visibleFields.length === 0 && (
+            <p className="px-3 py-6 text-center text-muted-foreground">
+              {language === "zh" ? "两个构建的配置相同" : "Both builds have the same configuration"}
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { api } from "@/lib/api";
+import { getPlatformStages } from "@/lib/build-progress";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { CheckCircle2, Circle, Github, Loader2, RefreshCw, XCircle } from "lucide-react";
+
+interface BuildLogEntry {
+  seq: number;
+  level: "debug" | "info" | "warn" | "error";
+  stage: string | null;
+  progress: number | null;
+  message: string;
+  created_at: string;
+}
+
+interface GitHubJobLog {
+  id: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  steps: Array<{ number: number; name: string; status: string; conclusion: string | null }>;
+  log: string | null;
+}
+
+interface BuildLogsResponse {
+  platform: string;
+  status: string;
+  logs: BuildLogEntry[];
+  github: { runId: string; jobs: GitHubJobLog[]; error?: string } | null;
+}
+
+interface BuildLogsDrawerProps {
+  buildId: string | null;
+  appName?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  language?: "zh" | "en";
+}
+
+const LEVEL_STYLES: Record<BuildLogEntry["level"], string> = {
+  debug: "text-muted-foreground",
+  info: "text-cyan-600 dark:text-cyan-400",
+  warn: "text-orange-500",
+  error: "text-red-500",
+};
+
+function formatTime(value: string) {
+  const date = new Date(value);
+  return date.toLocaleTimeString(undefined, { hour12: false }) + "." + String(date.getMilliseconds()).padStart(3, "0");
+}
+
+function StepIcon({ status, conclusion }: { status: string; conclusion: string | null }) {
+  if (status !== "completed") return <Loader2 className="h-3.5 w-3.5 animate-spin text-cyan-500" />;
+  if (conclusion === "success") return <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />;
+  if (conclusion === "skipped") return <Circle className="h-3.5 w-3.5 text-muted-foreground" />;
+  return <XCircle className="h-3.5 w-3.5 text-red-500" />;
+}
+
+export function BuildLogsDrawer({ buildId, appName, open, onOpenChange, language = "zh" }: BuildLogsDrawerProps) {
+  const [data, setData] = useState<BuildLogsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLogs = useCallback(async () => {
+    if (!buildId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(api.builds.logs(buildId));
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to load logs");
+      }
+      setData(result);
+    } catch (err) {
+      console.error("Fetch build logs error:", err);
+      setError(language === "zh" ? "加载日志失败" : "Failed to load logs");
+    } finally {
+      setLoading(false);
+    }
+  }, [buildId, language]);
+
+  useEffect(() => {
+    if (open) {
+      setData(null);
+      fetchLogs();
+    }
+  }, [open, fetchLogs]);
+
+  // 阶段日志按平台显示本地化的阶段名称
+  const getEntryMessage = (entry: BuildLogEntry) => {
+    if (!entry.stage || !data) return entry.message;
+    const stage = getPlatformStages(data.platform).find((s) => s.stage === entry.stage);
+    if (!stage || entry.level === "error") return entry.message;
+    return `${stage.label[language]}${entry.progress !== null ? ` (${entry.progress}%)` : ""}`;
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-2xl flex flex-col gap-0">
+        <SheetHeader className="border-b">
+          <div className="flex items-center justify-between gap-2 pr-8">
+            <SheetTitle>{language === "zh" ? "构建日志" : "Build logs"}</SheetTitle>
+            <Button variant="ghost" size="sm" className="h-8 gap-1.5" onClick={fetchLogs} disabled={loading}>
+              <RefreshCw className={cn("h-4 w-4", loading && "animate-spin")} />
+              {language === "zh" ? "刷新" : "Refresh"}
+            </Button>
+          </div>
+          <SheetDescription className="truncate">{appName || buildId}</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {loading && !data && (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-cyan-500" />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          {data && (
+            <section>
+              <h3 className="text-sm font-medium mb-2">{language === "zh" ? "构建步骤" : "Build steps"}</h3>
+              {data.logs.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  {language === "zh" ? "暂无日志（早期构建未记录日志）" : "No logs recorded for this build"}
+                </p>
+              ) : (
+                <div className="rounded-lg bg-muted/50 p-3 font-mono text-xs space-y-1">
+                  {data.logs.map((entry) => (
+                    <div key={`${entry.created_at}-${entry.seq}`} className="flex gap-2">
+                      <span className="shrink-0 text-muted-foreground">{formatTime(entry.created_at)}</span>
+                      <span className={cn("shrink-0 w-10 uppercase", LEVEL_STYLES[entry.level])}>{entry.level}</span>
+                      <span className="break-all whitespace-pre-wrap">{getEntryMessage(entry)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          )}
+
+          {data?.github && (
+            <section>
+              <h3 className="text-sm font-medium mb-2 flex items-center gap-1.5">
+                <Github className="h-4 w-4" />
+                {language === "zh" ? "云端编译" : "Cloud compile"}
+                <span className="text-xs text-muted-foreground font-normal">#{data.github.runId}</span>
+              </h3>
+              {data.github.error && (
+                <p className="text-xs text-red-500 mb-2">
+                  {language === "zh" ? "无法获取 GitHub Actions 日志：" : "Unable to load GitHub Actions logs: "}
+                  {data.github.error}
+                </p>
+              )}
+              <div className="space-y-3">
+                {data.github.jobs.map((job) => (
+                  <div key={job.id} className="rounded-lg border border-border/50 p-3">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      <StepIcon status={job.status} conclusion={job.conclusion} />
+                      {job.name}
+                    </div>
+                    <ul className="mt-2 space-y-1">
+                      {job.steps.map((step) => (
+                        <li key={step.number} className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <StepIcon status={step.status} conclusion={step.conclusion} />
+                          {step.name}
+                        </li>
+                      ))}
+                    </ul>
+                    {job.log ? (
+                      <details className="mt-2">
+                        <summary className="cursor-pointer text-xs text-cyan-600 dark:text-cyan-400">
+                          {language === "zh" ? "查看原始日志" : "Show raw log"}
+                        </summary>
+                        <pre className="mt-2 max-h-96 overflow-auto rounded bg-muted/50 p-2 text-[11px] leading-relaxed whitespace-pre-wrap break-all">
+                          {job.log}
+                        </pre>
+                      </details>
+                    ) : job.status !== "completed" ? (
+                      <p className="mt-2 text-xs text-muted-foreground">
+                        {language === "zh" ? "任务完成后可查看原始日志" : "Raw log is available once the job finishes"}
+                      </p>
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
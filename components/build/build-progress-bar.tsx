@@ -1,16 +1,18 @@
 "use client";
 
 import { useEffect, useState, useRef } from "react";
-import { getStageByProgress, getPlatformStages, type StageInfo } from "@/lib/build-progress";
+import { getStageByProgress, getPlatformStages, type StageInfo, type BuildProgressEvent } from "@/lib/build-progress";
 import { cn } from "@/lib/utils";
 
 interface BuildProgressBarProps {
   progress: number;
   platform: string;
-  status: "pending" | "processing" | "completed" | "failed";
+  status: "pending" | "processing" | "completed" | "failed" | "cancelled";
   language?: "zh" | "en";
   className?: string;
   showSteps?: boolean;
+  // SSE 推送的实时进度（由页面统一订阅后传入），progress / status 作为初始值和轮询兜底
+  event?: BuildProgressEvent | null;
 }
 
 export function BuildProgressBar({
@@ -20,15 +22,19 @@ export function BuildProgressBar({
   language = "zh",
   className,
   showSteps = false,
+  event = null,
 }: BuildProgressBarProps) {
   const [displayProgress, setDisplayProgress] = useState(0);
   const [currentStage, setCurrentStage] = useState<StageInfo | null>(null);
   const animationRef = useRef<number | null>(null);
   const prevProgressRef = useRef(0);
 
+  const liveProgress = event ? Math.max(progress, event.progress) : progress;
+  const liveStatus = event?.status ?? status;
+
   // 平滑动画更新进度（永不倒退）
   useEffect(() => {
-    const targetProgress = Math.max(progress, prevProgressRef.current);
+    const targetProgress = Math.max(liveProgress, prevProgressRef.current);
     const startProgress = prevProgressRef.current;
 
     // 取消之前的动画
@@ -68,7 +74,7 @@ export function BuildProgressBar({
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [progress]);
+  }, [liveProgress]);
 
   // 更新当前阶段
   useEffect(() => {
@@ -76,23 +82,31 @@ export function BuildProgressBar({
     setCurrentStage(stage);
   }, [displayProgress, platform]);
 
+  // 动画追上推送的进度后显示服务端阶段标签（失败 / 取消等状态）
+  const stageLabel = event && displayProgress >= event.progress
+    ? event.label[language]
+    : currentStage?.label[language];
+
   // 获取所有阶段用于步骤显示
   const stages = getPlatformStages(platform);
 
   // 根据状态获取进度条颜色
   const getProgressBarColor = () => {
-    if (status === "failed") {
+    if (liveStatus === "failed") {
       return "from-red-500 to-red-600";
     }
-    if (status === "completed") {
+    if (liveStatus === "completed") {
       return "from-green-500 to-emerald-500";
     }
+    if (liveStatus === "cancelled") {
+      return "from-gray-400 to-gray-500";
+    }
     return "from-cyan-500 to-blue-500";
   };
 
   // 根据状态获取背景动画
   const getBackgroundAnimation = () => {
-    if (status === "processing") {
+    if (liveStatus === "processing") {
       return "animate-pulse";
     }
     return "";
@@ -116,7 +130,7 @@ export function BuildProgressBar({
           />
 
           {/* 流光效果 - 仅在处理中显示 */}
-          {status === "processing" && displayProgress < 100 && (
+          {liveStatus === "processing" && displayProgress < 100 && (
             <div
               className="absolute top-0 h-full w-20 bg-gradient-to-r from-transparent via-white/30 to-transparent animate-shimmer"
               style={{
@@ -130,7 +144,7 @@ export function BuildProgressBar({
       {/* 进度信息 */}
       <div className="flex items-center justify-between mt-1.5">
         <p className="text-xs text-muted-foreground truncate max-w-[70%]">
-          {currentStage?.label[language] || (language === "zh" ? "准备中..." : "Preparing...")}
+          {stageLabel || (language === "zh" ? "准备中..." : "Preparing...")}
         </p>
         <p className="text-xs font-medium text-muted-foreground">
           {displayProgress}%
@@ -192,15 +206,19 @@ export function BuildProgressBarCompact({
   status,
   language = "zh",
   className,
+  event = null,
 }: Omit<BuildProgressBarProps, "showSteps">) {
   const [displayProgress, setDisplayProgress] = useState(0);
   const [currentStage, setCurrentStage] = useState<StageInfo | null>(null);
   const animationRef = useRef<number | null>(null);
   const prevProgressRef = useRef(0);
 
+  const liveProgress = event ? Math.max(progress, event.progress) : progress;
+  const liveStatus = event?.status ?? status;
+
   // 平滑动画更新进度（永不倒退）
   useEffect(() => {
-    const targetProgress = Math.max(progress, prevProgressRef.current);
+    const targetProgress = Math.max(liveProgress, prevProgressRef.current);
     const startProgress = prevProgressRef.current;
 
     if (animationRef.current) {
@@ -236,16 +254,22 @@ export function BuildProgressBarCompact({
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [progress]);
+  }, [liveProgress]);
 
   useEffect(() => {
     const stage = getStageByProgress(platform, displayProgress);
     setCurrentStage(stage);
   }, [displayProgress, platform]);
 
+  // 动画追上推送的进度后显示服务端阶段标签（失败 / 取消等状态）
+  const stageLabel = event && displayProgress >= event.progress
+    ? event.label[language]
+    : currentStage?.label[language];
+
   const getProgressBarColor = () => {
-    if (status === "failed") return "from-red-500 to-red-600";
-    if (status === "completed") return "from-green-500 to-emerald-500";
+    if (liveStatus === "failed") return "from-red-500 to-red-600";
+    if (liveStatus === "completed") return "from-green-500 to-emerald-500";
+    if (liveStatus === "cancelled") return "from-gray-400 to-gray-500";
     return "from-cyan-500 to-blue-500";
   };
 
@@ -259,7 +283,7 @@ export function BuildProgressBarCompact({
           )}
           style={{ width: `${displayProgress}%` }}
         />
-        {status === "processing" && displayProgress < 100 && (
+        {liveStatus === "processing" && displayProgress < 100 && (
           <div
             className="absolute top-0 h-full w-16 bg-gradient-to-r from-transparent via-white/25 to-transparent animate-shimmer"
             style={{ left: `${Math.max(0, displayProgress - 8)}%` }}
@@ -268,7 +292,7 @@ export function BuildProgressBarCompact({
       </div>
       <div className="flex items-center justify-between mt-1">
         <p className="text-xs text-muted-foreground truncate max-w-[75%]">
-          {currentStage?.label[language] || (language === "zh" ? "准备中" : "Preparing")}
+          {stageLabel || (language === "zh" ? "准备中" : "Preparing")}
         </p>
         <span className="text-xs font-medium text-muted-foreground">
           {displayProgress}%
@@ -0,0 +1,289 @@
+"use client";
+
+import { useState } from "react";
+import { useLanguage } from "@/context/LanguageContext";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ChevronDown, Plus, Trash2, Settings2, Navigation, Palette, Shield } from "lucide-react";
+import { ToggleRow } from "./native-shell-config";
+import type { AndroidAdvancedConfig, AndroidNavItem } from "@/lib/config/android-advanced";
+
+type NavigationConfig = NonNullable<AndroidAdvancedConfig["navigation"]>;
+type StylingConfig = NonNullable<AndroidAdvancedConfig["styling"]>;
+type PermissionsConfig = NonNullable<AndroidAdvancedConfig["permissions"]>;
+
+interface AndroidAdvancedConfigProps {
+  value: AndroidAdvancedConfig;
+  onChange: (value: AndroidAdvancedConfig) => void;
+}
+
+const inputClassName =
+  "h-10 text-sm rounded-lg border-2 border-border/50 bg-background/50 focus:border-green-500 focus:ring-4 focus:ring-green-500/20 transition-all duration-200";
+
+// 模板 appConfig.json 中的默认值，用于开关的初始显示
+const DEFAULT_NAVIGATION = {
+  showRefreshButton: false,
+};
+
+const DEFAULT_PERMISSIONS = {
+  usesGeolocation: true,
+  enableWebRTCamera: true,
+  enableWebRTCMicrophone: true,
+  downloadToPublicStorage: true,
+};
+
+export function AndroidAdvancedConfigSection({ value, onChange }: AndroidAdvancedConfigProps) {
+  const { currentLanguage } = useLanguage();
+  const [open, setOpen] = useState(false);
+  const isZh = currentLanguage === "zh";
+
+  const navigation = value.navigation || {};
+  const styling = value.styling || {};
+  const permissions = value.permissions || {};
+
+  const updateNavigation = (patch: Partial<NavigationConfig>) =>
+    onChange({ ...value, navigation: { ...navigation, ...patch } });
+  const updateStyling = (patch: Partial<StylingConfig>) =>
+    onChange({ ...value, styling: { ...styling, ...patch } });
+  const updatePermissions = (patch: Partial<PermissionsConfig>) =>
+    onChange({ ...value, permissions: { ...permissions, ...patch } });
+
+  const colorFields: Array<{ key: keyof Omit<StylingConfig, "theme">; label: string }> = [
+    { key: "backgroundColor", label: isZh ? "背景色" : "Background" },
+    { key: "backgroundColorDark", label: isZh ? "背景色（深色）" : "Background (dark)" },
+    { key: "statusBarBackgroundColor", label: isZh ? "状态栏颜色" : "Status bar" },
+    { key: "statusBarBackgroundColorDark", label: isZh ? "状态栏颜色（深色）" : "Status bar (dark)" },
+    { key: "accentColor", label: isZh ? "强调色" : "Accent" },
+    { key: "accentColorDark", label: isZh ? "强调色（深色）" : "Accent (dark)" },
+    { key: "pullToRefreshColor", label: isZh ? "下拉刷新颜色" : "Pull-to-refresh" },
+    { key: "pullToRefreshColorDark", label: isZh ? "下拉刷新颜色（深色）" : "Pull-to-refresh (dark)" },
+  ];
+
+  return (
+    <div className="rounded-xl border border-border/50 bg-background/30">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <div className="flex items-center gap-2">
+          <Settings2 className="h-4 w-4 text-green-500" />
+          <span className="font-medium">{isZh ? "高级设置" : "Advanced"}</span>
+          <span className="text-xs text-muted-foreground">
+            {isZh ? "导航、样式、权限（可选）" : "Navigation, styling, permissions (optional)"}
+          </span>
+        </div>
+        <ChevronDown className={`h-4 w-4 text-muted-foreground transition-transform ${open ? "rotate-180" : ""}`} />
+      </button>
+
+      {open && (
+        <div className="space-y-6 px-4 pb-4">
+          {/* Navigation */}
+          <div className="space-y-4">
+            <h4 className="flex items-center gap-2 text-sm font-semibold text-foreground/80">
+              <Navigation className="h-4 w-4 text-green-500" />
+              {isZh ? "导航" : "Navigation"}
+            </h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <ToggleRow
+                label={isZh ? "显示刷新按钮" : "Show refresh button"}
+                checked={navigation.showRefreshButton ?? DEFAULT_NAVIGATION.showRefreshButton}
+                onChange={(checked) => updateNavigation({ showRefreshButton: checked })}
+              />
+            </div>
+
+            <NavItemsEditor
+              title={isZh ? "底部标签栏（最多 5 项）" : "Bottom tabs (max 5)"}
+              enabled={navigation.tabNavigation?.active ?? false}
+              items={navigation.tabNavigation?.items || []}
+              maxItems={5}
+              onChange={(active, items) => updateNavigation({ tabNavigation: { active, items } })}
+            />
+
+            <NavItemsEditor
+              title={isZh ? "侧边栏菜单（最多 20 项）" : "Sidebar menu (max 20)"}
+              enabled={navigation.sidebarNavigation?.active ?? false}
+              items={navigation.sidebarNavigation?.items || []}
+              maxItems={20}
+              onChange={(active, items) => updateNavigation({ sidebarNavigation: { active, items } })}
+            />
+          </div>
+
+          {/* Styling */}
+          <div className="space-y-4">
+            <h4 className="flex items-center gap-2 text-sm font-semibold text-foreground/80">
+              <Palette className="h-4 w-4 text-green-500" />
+              {isZh ? "样式" : "Styling"}
+            </h4>
+            <div className="flex items-center justify-between gap-3 rounded-lg border border-border/50 px-3 py-2">
+              <Label htmlFor="androidTheme" className="text-sm">
+                {isZh ? "主题" : "Theme"}
+              </Label>
+              <select
+                id="androidTheme"
+                value={styling.theme || "auto"}
+                onChange={(e) => updateStyling({ theme: e.target.value as StylingConfig["theme"] })}
+                className="h-8 rounded-md border border-border/50 bg-background px-2 text-sm"
+              >
+                <option value="auto">{isZh ? "跟随系统" : "Follow system"}</option>
+                <option value="light">{isZh ? "浅色" : "Light"}</option>
+                <option value="dark">{isZh ? "深色" : "Dark"}</option>
+              </select>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {colorFields.map(({ key, label }) => (
+                <ColorField
+                  key={key}
+                  id={`android-${key}`}
+                  label={label}
+                  value={styling[key]}
+                  onChange={(color) => updateStyling({ [key]: color })}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Permissions */}
+          <div className="space-y-4">
+            <h4 className="flex items-center gap-2 text-sm font-semibold text-foreground/80">
+              <Shield className="h-4 w-4 text-green-500" />
+              {isZh ? "权限" : "Permissions"}
+            </h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <ToggleRow
+                label={isZh ? "定位" : "Geolocation"}
+                checked={permissions.usesGeolocation ?? DEFAULT_PERMISSIONS.usesGeolocation}
+                onChange={(checked) => updatePermissions({ usesGeolocation: checked })}
+              />
+              <ToggleRow
+                label={isZh ? "摄像头（WebRTC）" : "Camera (WebRTC)"}
+                checked={permissions.enableWebRTCamera ?? DEFAULT_PERMISSIONS.enableWebRTCamera}
+                onChange={(checked) => updatePermissions({ enableWebRTCamera: checked })}
+              />
+              <ToggleRow
+                label={isZh ? "麦克风（WebRTC）" : "Microphone (WebRTC)"}
+                checked={permissions.enableWebRTCMicrophone ?? DEFAULT_PERMISSIONS.enableWebRTCMicrophone}
+                onChange={(checked) => updatePermissions({ enableWebRTCMicrophone: checked })}
+              />
+              <ToggleRow
+                label={isZh ? "下载到公共存储" : "Download to public storage"}
+                checked={permissions.downloadToPublicStorage ?? DEFAULT_PERMISSIONS.downloadToPublicStorage}
+                onChange={(checked) => updatePermissions({ downloadToPublicStorage: checked })}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ColorField({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value?: string;
+  onChange: (value: string | undefined) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-3 rounded-lg border border-border/50 px-3 py-2">
+      <Label htmlFor={id} className="text-sm">
+        {label}
+      </Label>
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          aria-label={label}
+          value={value && value.length === 7 ? value : "#ffffff"}
+          onChange={(e) => onChange(e.target.value.toUpperCase())}
+          className="h-8 w-8 cursor-pointer rounded border border-border/50 bg-transparent"
+        />
+        <Input
+          id={id}
+          type="text"
+          placeholder="#RRGGBB"
+          value={value || ""}
+          onChange={(e) => onChange(e.target.value || undefined)}
+          className="h-8 w-28 text-sm font-mono"
+        />
+      </div>
+    </div>
+  );
+}
+
+function NavItemsEditor({
+  title,
+  enabled,
+  items,
+  maxItems,
+  onChange,
+}: {
+  title: string;
+  enabled: boolean;
+  items: AndroidNavItem[];
+  maxItems: number;
+  onChange: (active: boolean, items: AndroidNavItem[]) => void;
+}) {
+  const { currentLanguage } = useLanguage();
+  const isZh = currentLanguage === "zh";
+
+  const updateItem = (index: number, patch: Partial<AndroidNavItem>) =>
+    onChange(enabled, items.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">{title}</span>
+        <Switch checked={enabled} onCheckedChange={(checked) => onChange(checked, items)} />
+      </div>
+      {enabled && (
+        <>
+          {items.map((item, index) => (
+            <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_2fr_1fr_auto] gap-2">
+              <Input
+                placeholder={isZh ? "标题" : "Label"}
+                value={item.label}
+                onChange={(e) => updateItem(index, { label: e.target.value })}
+                className={inputClassName}
+              />
+              <Input
+                placeholder="https://example.com/page"
+                value={item.url}
+                onChange={(e) => updateItem(index, { url: e.target.value })}
+                className={inputClassName}
+              />
+              <Input
+                placeholder={isZh ? "图标（如 fas fa-home）" : "Icon (e.g. fas fa-home)"}
+                value={item.icon || ""}
+                onChange={(e) => updateItem(index, { icon: e.target.value || undefined })}
+                className={inputClassName}
+              />
+              <button
+                type="button"
+                onClick={() => onChange(enabled, items.filter((_, i) => i !== index))}
+                className="h-10 w-10 flex items-center justify-center rounded-lg text-muted-foreground hover:text-red-500 hover:bg-red-500/10 transition-colors"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          {items.length < maxItems && (
+            <button
+              type="button"
+              onClick={() => onChange(enabled, [...items, { label: "", url: "" }])}
+              className="flex items-center gap-1 text-sm text-green-600 hover:text-green-700 dark:text-green-400"
+            >
+              <Plus className="h-4 w-4" />
+              {isZh ? "添加菜单项" : "Add item"}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Upload, X, Package, Hash, FileText, Smartphone, AlertCircle } from "lucide-react";
+import { AndroidAdvancedConfigSection } from "./android-advanced-config";
+import type { AndroidAdvancedConfig } from "@/lib/config/android-advanced";
+import { AndroidSigningConfig, type AndroidSigningState } from "./android-signing-config";
+import { VersionCodeHint } from "./version-code-hint";
 
 interface AndroidConfigProps {
   name: string;
@@ -14,13 +18,20 @@ interface AndroidConfigProps {
   versionName: string;
   versionCode: string;
   privacyPolicy: string;
+  advancedConfig: AndroidAdvancedConfig;
   onNameChange: (value: string) => void;
   onPackageNameChange: (value: string) => void;
   onVersionNameChange: (value: string) => void;
   onVersionCodeChange: (value: string) => void;
+  // 登录用户留空时自动递增，lastVersionCode 为该包名上次发放的版本号
+  autoIncrement?: boolean;
+  lastVersionCode?: number | null;
   onPrivacyPolicyChange: (value: string) => void;
   onIconChange: (file: File | null) => void;
-  isApkBuild?: boolean; // 是否为 APK 构建（用于显示 Debug 版本说明）
+  onAdvancedConfigChange: (value: AndroidAdvancedConfig) => void;
+  isApkBuild?: boolean; // 是否为 APK 构建（用于显示构建类型和 Debug 版本说明）
+  signing?: AndroidSigningState;
+  onSigningChange?: (value: AndroidSigningState) => void;
 }
 
 export function AndroidConfig({
@@ -29,13 +40,19 @@ export function AndroidConfig({
   versionName,
   versionCode,
   privacyPolicy,
+  advancedConfig,
   onNameChange,
   onPackageNameChange,
   onVersionNameChange,
   onVersionCodeChange,
+  autoIncrement = false,
+  lastVersionCode = null,
   onPrivacyPolicyChange,
   onIconChange,
+  onAdvancedConfigChange,
   isApkBuild = false,
+  signing,
+  onSigningChange,
 }: AndroidConfigProps) {
   const { currentLanguage } = useLanguage();
   const { iconUploadEnabled, maxImageUploadMB, validateFileSize } = useUploadConfig();
@@ -223,8 +240,12 @@ export function AndroidConfig({
             ? "唯一标识符，用于应用商店发布"
             : "Unique identifier for app store publishing"}
         </p>
-        {/* Debug Version Warning - 仅在 APK 构建时显示 */}
-        {isApkBuild && (
+        {/* 构建类型与签名 - 仅在 APK 构建时显示 */}
+        {isApkBuild && signing && onSigningChange && (
+          <AndroidSigningConfig value={signing} onChange={onSigningChange} packageName={packageNameValid ? packageName : ""} />
+        )}
+        {/* Debug Version Warning - 仅在 APK Debug 构建时显示 */}
+        {isApkBuild && signing?.buildType !== "release" && (
           <div className="rounded-lg border border-amber-500/30 bg-amber-50 dark:bg-amber-500/10 p-3">
             <div className="flex items-start gap-2">
               <AlertCircle className="h-4 w-4 text-amber-600 dark:text-amber-400 mt-0.5 shrink-0" />
@@ -273,7 +294,7 @@ export function AndroidConfig({
         {/* Version Code */}
         <div className="space-y-3">
           <Label htmlFor="versionCode" className="text-base font-medium text-foreground/80">
-            {currentLanguage === "zh" ? "构建号" : "Build Number"} <span className="text-red-500">*</span>
+            {currentLanguage === "zh" ? "构建号" : "Build Number"} {!autoIncrement && <span className="text-red-500">*</span>}
           </Label>
           <div className="relative group">
             <div className="absolute left-4 top-1/2 -translate-y-1/2 text-muted-foreground group-focus-within:text-green-500 transition-colors">
@@ -283,17 +304,17 @@ export function AndroidConfig({
               id="versionCode"
               type="number"
               min="1"
-              placeholder={currentLanguage === "zh" ? "例如: 1, 2, 3" : "e.g. 1, 2, 3"}
+              placeholder={
+                autoIncrement
+                  ? currentLanguage === "zh" ? "留空自动递增" : "Leave empty to auto-increment"
+                  : currentLanguage === "zh" ? "例如: 1, 2, 3" : "e.g. 1, 2, 3"
+              }
               value={versionCode}
               onChange={(e) => onVersionCodeChange(e.target.value)}
               className="h-12 sm:h-14 pl-10 sm:pl-12 text-base rounded-xl border-2 border-border/50 bg-background/50 backdrop-blur-sm focus:border-green-500 focus:ring-4 focus:ring-green-500/20 transition-all duration-200"
             />
           </div>
-          <p className="text-xs text-muted-foreground">
-            {currentLanguage === "zh"
-              ? "整数构建号，每次更新递增"
-              : "Integer build number, increment on each update"}
-          </p>
+          <VersionCodeHint value={versionCode} autoIncrement={autoIncrement} lastVersionCode={lastVersionCode} />
         </div>
       </div>
 
@@ -325,6 +346,9 @@ export function AndroidConfig({
         </p>
       </div>
 
+      {/* Advanced Settings */}
+      <AndroidAdvancedConfigSection value={advancedConfig} onChange={onAdvancedConfigChange} />
+
       {/* Usage Instructions */}
       <div className="rounded-xl border border-green-500/20 bg-green-500/5 p-4">
         <h4 className="font-medium text-green-700 dark:text-green-300 mb-2">
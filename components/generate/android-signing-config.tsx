@@ -0,0 +1,204 @@
+"use client";
+
+import { useRef } from "react";
+import { useLanguage } from "@/context/LanguageContext";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download, KeyRound, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "@/lib/api";
+
+export interface AndroidSigningState {
+  buildType: "debug" | "release";
+  keystoreFile: File | null;
+  keystoreAlias: string;
+  keystorePassword: string;
+  keyPassword: string;
+}
+
+export const DEFAULT_ANDROID_SIGNING: AndroidSigningState = {
+  buildType: "debug",
+  keystoreFile: null,
+  keystoreAlias: "",
+  keystorePassword: "",
+  keyPassword: "",
+};
+
+interface AndroidSigningConfigProps {
+  value: AndroidSigningState;
+  onChange: (value: AndroidSigningState) => void;
+  // 格式正确的包名，为空时不显示下载托管密钥库
+  packageName?: string;
+}
+
+const inputClassName =
+  "h-10 text-sm rounded-lg border-2 border-border/50 bg-background/50 focus:border-green-500 focus:ring-4 focus:ring-green-500/20 transition-all duration-200";
+
+/**
+ * APK 构建类型与签名配置
+ * release 构建同时产出签名 APK 和 AAB；不上传密钥库时复用该包名已托管的密钥库，首次构建自动生成
+ * 自动生成的密钥库不能被上传替换，可下载备份
+ */
+export function AndroidSigningConfig({ value, onChange, packageName }: AndroidSigningConfigProps) {
+  const { currentLanguage } = useLanguage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isZh = currentLanguage === "zh";
+  const isRelease = value.buildType === "release";
+
+  const update = (patch: Partial<AndroidSigningState>) => onChange({ ...value, ...patch });
+
+  // 下载该包名托管的密钥库（zip：密钥库文件 + 别名和密码）
+  const handleDownloadKeystore = async () => {
+    if (!packageName) return;
+    try {
+      const response = await fetch(api.androidKeystore(packageName));
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        toast.error(data?.message || (isZh ? "下载失败" : "Download failed"));
+        return;
+      }
+
+      const blob = await response.blob();
+      const objectUrl = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = objectUrl;
+      link.download = `${packageName}-keystore.zip`;
+      link.click();
+      URL.revokeObjectURL(objectUrl);
+    } catch (error) {
+      console.error("Keystore download error:", error);
+      toast.error(isZh ? "下载失败" : "Download failed");
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 p-3">
+      <div className="flex items-center justify-between gap-3">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <KeyRound className="h-4 w-4 text-green-500" />
+          {isZh ? "构建类型" : "Build type"}
+        </span>
+        <div className="flex rounded-lg border border-border/50 p-0.5">
+          {(["debug", "release"] as const).map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => update({ buildType: type })}
+              className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                value.buildType === type
+                  ? "bg-green-500 text-white"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              {type === "debug" ? "Debug" : isZh ? "正式版" : "Release"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isRelease && (
+        <div className="space-y-3">
+          <p className="text-xs text-muted-foreground">
+            {isZh
+              ? "正式版同时生成签名 APK 和 AAB（用于 Google Play）。密钥库加密托管，同一包名的后续版本自动复用；不上传时首次构建将自动生成。"
+              : "Release builds produce a signed APK and an AAB for Google Play. Keystores are stored encrypted and reused for later versions of the same package; one is generated on the first build if you don't upload your own."}
+          </p>
+
+          {packageName && (
+            <button
+              type="button"
+              onClick={handleDownloadKeystore}
+              className="flex items-center gap-1 text-sm text-green-600 hover:text-green-700 dark:text-green-400"
+            >
+              <Download className="h-4 w-4" />
+              {isZh ? "下载该包名已托管的密钥库（请妥善备份）" : "Download the stored keystore for this package (keep a backup)"}
+            </button>
+          )}
+
+          <div className="flex items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".jks,.keystore,.p12,.pfx"
+              className="hidden"
+              onChange={(e) => update({ keystoreFile: e.target.files?.[0] || null })}
+            />
+            {value.keystoreFile ? (
+              <div className="flex items-center gap-2 rounded-lg border border-border/50 px-3 py-2 text-sm">
+                <span className="font-mono truncate max-w-[200px]">{value.keystoreFile.name}</span>
+                <button
+                  type="button"
+                  onClick={() => {
+                    update({ keystoreFile: null });
+                    if (fileInputRef.current) fileInputRef.current.value = "";
+                  }}
+                  className="text-muted-foreground hover:text-red-500"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-1 text-sm text-green-600 hover:text-green-700 dark:text-green-400"
+              >
+                <Upload className="h-4 w-4" />
+                {isZh ? "上传密钥库（可选，.jks / .p12）" : "Upload keystore (optional, .jks / .p12)"}
+              </button>
+            )}
+          </div>
+
+          {value.keystoreFile && (
+            <>
+              <p className="text-xs text-amber-600 dark:text-amber-400">
+                {isZh
+                  ? "上传后将替换该包名之前上传的密钥库，请确认与已发布版本使用同一签名；已自动生成的密钥库不会被替换。"
+                  : "Uploading replaces a keystore you previously uploaded for this package. Make sure it matches your published app's signature. Keystores generated by the service are never replaced."}
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="keystoreAlias" className="text-xs">
+                    {isZh ? "密钥别名" : "Key alias"}
+                  </Label>
+                  <Input
+                    id="keystoreAlias"
+                    value={value.keystoreAlias}
+                    onChange={(e) => update({ keystoreAlias: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="keystorePassword" className="text-xs">
+                    {isZh ? "密钥库密码" : "Keystore password"}
+                  </Label>
+                  <Input
+                    id="keystorePassword"
+                    type="password"
+                    autoComplete="off"
+                    value={value.keystorePassword}
+                    onChange={(e) => update({ keystorePassword: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="keyPassword" className="text-xs">
+                    {isZh ? "密钥密码（默认同上）" : "Key password (defaults to above)"}
+                  </Label>
+                  <Input
+                    id="keyPassword"
+                    type="password"
+                    autoComplete="off"
+                    value={value.keyPassword}
+                    onChange={(e) => update({ keyPassword: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { useLanguage } from "@/context/LanguageContext";
+import { Input } from "@/components/ui/input";
+import { FolderOpen } from "lucide-react";
+import { MAX_PROJECT_NAME_LENGTH } from "@/lib/config/app-project";
+
+export interface AppProjectSaveState {
+  enabled: boolean;
+  name: string;
+}
+
+export const DEFAULT_APP_PROJECT_SAVE: AppProjectSaveState = {
+  enabled: false,
+  name: "",
+};
+
+interface AppProjectConfigProps {
+  value: AppProjectSaveState;
+  onChange: (value: AppProjectSaveState) => void;
+  // 从项目「重新构建」时为当前项目
+  project: { id: string; name: string } | null;
+  // 名称留空时使用的默认值（应用名称）
+  defaultName: string;
+}
+
+/**
+ * 保存为项目
+ * 保存网址、各平台标识、图标和设置，本次构建关联到项目；签名密钥和上传密钥等凭据不保存
+ */
+export function AppProjectConfig({ value, onChange, project, defaultName }: AppProjectConfigProps) {
+  const { currentLanguage } = useLanguage();
+  const isZh = currentLanguage === "zh";
+
+  const update = (patch: Partial<AppProjectSaveState>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center justify-between gap-3 cursor-pointer">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <FolderOpen className="h-4 w-4 text-cyan-500" />
+          {project
+            ? isZh
+              ? `更新项目「${project.name}」并关联本次构建`
+              : `Update project "${project.name}" and link this build`
+            : isZh
+              ? "保存为项目，下次可一键重新构建"
+              : "Save as a project to rebuild later"}
+        </span>
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="h-4 w-4 accent-cyan-500"
+        />
+      </label>
+
+      {value.enabled && (
+        <div className="space-y-2">
+          <Input
+            value={value.name}
+            maxLength={MAX_PROJECT_NAME_LENGTH}
+            placeholder={defaultName || (isZh ? "项目名称" : "Project name")}
+            onChange={(e) => update({ name: e.target.value })}
+            className="h-10 text-sm rounded-lg border-2 border-border/50 bg-background/50 focus:border-cyan-500 focus:ring-4 focus:ring-cyan-500/20 transition-all duration-200"
+          />
+          <p className="text-xs text-muted-foreground">
+            {isZh
+              ? "保存网址、各平台包名 / AppID、图标和设置；签名密钥和上传密钥不会保存"
+              : "Saves the URL, package names / app IDs, icons and settings. Signing and upload keys are not saved"}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
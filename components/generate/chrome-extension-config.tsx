@@ -5,7 +5,23 @@ import { useLanguage } from "@/context/LanguageContext";
 import { useUploadConfig } from "@/hooks/useUploadConfig";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Upload, X, Chrome, Hash, FileText, AlertCircle } from "lucide-react";
+import {
+  BROWSER_EXTENSION_TARGETS,
+  DEFAULT_EXTENSION_POPUP_TEXTS,
+  EXTENSION_CONTEXT_MENU_CONTEXTS,
+  EXTENSION_MODES,
+  EXTENSION_POPUP_LIMITS,
+  getBrowserExtensionTargetLabel,
+  type BrowserExtensionConfig,
+  type BrowserExtensionTarget,
+  type ExtensionContextMenuConfig,
+  type ExtensionContextMenuContext,
+  type ExtensionMode,
+  type ExtensionPopupConfig,
+  type ExtensionPopupLanguage,
+} from "@/lib/config/browser-extension";
+import { ToggleRow } from "./native-shell-config";
+import { Upload, X, Chrome, Hash, FileText, AlertCircle, Globe, PanelTop, MousePointerClick } from "lucide-react";
 
 interface ChromeExtensionConfigProps {
   name: string;
@@ -15,8 +31,47 @@ interface ChromeExtensionConfigProps {
   onVersionNameChange: (value: string) => void;
   onDescriptionChange: (value: string) => void;
   onIconChange: (file: File | null) => void;
+  extensionConfig: BrowserExtensionConfig;
+  onExtensionConfigChange: (value: BrowserExtensionConfig) => void;
 }
 
+type PopupTextField = "loadingText" | "timeoutText" | "openFullText";
+
+const TARGET_DESCRIPTIONS: Record<BrowserExtensionTarget, { zh: string; en: string }> = {
+  chrome: { zh: "扩展目录，开发者模式加载", en: "Unpacked, load in developer mode" },
+  firefox: { zh: "可直接上传 Firefox 附加组件", en: "Ready for Firefox Add-ons" },
+  edge: { zh: "可直接上传 Edge 加载项", en: "Ready for Edge Add-ons" },
+};
+
+const MODE_LABELS: Record<ExtensionMode, { zh: string; en: string; description: { zh: string; en: string } }> = {
+  popup: {
+    zh: "弹窗",
+    en: "Popup",
+    description: { zh: "点击工具栏图标弹出小窗口", en: "Small window from the toolbar icon" },
+  },
+  sidePanel: {
+    zh: "侧边栏",
+    en: "Side panel",
+    description: { zh: "点击图标在浏览器侧边栏打开（Chrome 114+）", en: "Opens in the browser side panel (Chrome 114+)" },
+  },
+  newTab: {
+    zh: "新标签页",
+    en: "New tab",
+    description: { zh: "打开新标签页时显示网站", en: "Shows the website on every new tab" },
+  },
+};
+
+const CONTEXT_MENU_CONTEXT_LABELS: Record<ExtensionContextMenuContext, { zh: string; en: string }> = {
+  page: { zh: "页面", en: "Page" },
+  link: { zh: "链接", en: "Links" },
+  selection: { zh: "选中文字", en: "Selected text" },
+};
+
+const DEFAULT_CONTEXT_MENU: ExtensionContextMenuConfig = { enabled: false, contexts: ["page", "link"] };
+
+const inputClassName =
+  "h-10 text-sm rounded-lg border-2 border-border/50 bg-background/50 focus:border-blue-500 focus:ring-4 focus:ring-blue-500/20 transition-all duration-200";
+
 export function ChromeExtensionConfig({
   name,
   versionName,
@@ -25,6 +80,8 @@ export function ChromeExtensionConfig({
   onVersionNameChange,
   onDescriptionChange,
   onIconChange,
+  extensionConfig,
+  onExtensionConfigChange,
 }: ChromeExtensionConfigProps) {
   const { currentLanguage } = useLanguage();
   const { iconUploadEnabled, maxImageUploadMB, validateFileSize } = useUploadConfig();
@@ -32,6 +89,39 @@ export function ChromeExtensionConfig({
   const [uploadError, setUploadError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const popupLanguage: ExtensionPopupLanguage = extensionConfig.popup.language || (currentLanguage === "zh" ? "zh" : "en");
+  const popupDefaults = DEFAULT_EXTENSION_POPUP_TEXTS[popupLanguage];
+
+  const toggleTarget = (target: BrowserExtensionTarget) => {
+    const targets = extensionConfig.targets.includes(target)
+      ? extensionConfig.targets.filter((item) => item !== target)
+      : BROWSER_EXTENSION_TARGETS.filter((item) => item === target || extensionConfig.targets.includes(item));
+    // 至少保留一个浏览器
+    if (targets.length === 0) return;
+    onExtensionConfigChange({ ...extensionConfig, targets });
+  };
+
+  const updatePopup = (patch: Partial<ExtensionPopupConfig>) =>
+    onExtensionConfigChange({ ...extensionConfig, popup: { ...extensionConfig.popup, ...patch } });
+
+  const contextMenu = extensionConfig.contextMenu || DEFAULT_CONTEXT_MENU;
+  const updateContextMenu = (patch: Partial<ExtensionContextMenuConfig>) =>
+    onExtensionConfigChange({ ...extensionConfig, contextMenu: { ...contextMenu, ...patch } });
+
+  const toggleContextMenuContext = (context: ExtensionContextMenuContext) => {
+    const contexts = contextMenu.contexts.includes(context)
+      ? contextMenu.contexts.filter((item) => item !== context)
+      : EXTENSION_CONTEXT_MENU_CONTEXTS.filter((item) => item === context || contextMenu.contexts.includes(item));
+    if (contexts.length === 0) return;
+    updateContextMenu({ contexts });
+  };
+
+  const popupTextFields: Array<{ key: PopupTextField; label: string }> = [
+    { key: "loadingText", label: currentLanguage === "zh" ? "加载提示" : "Loading text" },
+    { key: "timeoutText", label: currentLanguage === "zh" ? "超时提示" : "Timeout text" },
+    { key: "openFullText", label: currentLanguage === "zh" ? "打开网站按钮" : "Open website button" },
+  ];
+
   const handleIconUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -219,6 +309,210 @@ export function ChromeExtensionConfig({
             : "Brief description of the extension's functionality"}
         </p>
       </div>
+
+      {/* Target Browsers */}
+      <div className="space-y-3">
+        <Label className="text-base font-medium text-foreground/80">
+          {currentLanguage === "zh" ? "目标浏览器" : "Target Browsers"}
+        </Label>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {BROWSER_EXTENSION_TARGETS.map((target) => (
+            <button
+              key={target}
+              type="button"
+              onClick={() => toggleTarget(target)}
+              className={`rounded-xl border-2 p-3 text-left transition-all duration-200 ${
+                extensionConfig.targets.includes(target)
+                  ? "border-blue-500 bg-blue-500/10"
+                  : "border-border/50 hover:border-blue-500/50 hover:bg-blue-500/5"
+              }`}
+            >
+              <span className="flex items-center gap-1.5 text-sm font-medium">
+                <Globe className="h-3.5 w-3.5 text-blue-500" />
+                {getBrowserExtensionTargetLabel(target)}
+              </span>
+              <span className="mt-1 block text-xs text-muted-foreground">
+                {TARGET_DESCRIPTIONS[target][currentLanguage === "zh" ? "zh" : "en"]}
+              </span>
+            </button>
+          ))}
+        </div>
+        {extensionConfig.targets.includes("firefox") && (
+          <div className="space-y-2">
+            <Label htmlFor="firefoxId" className="text-sm font-medium">
+              {currentLanguage === "zh" ? "Firefox 扩展 ID" : "Firefox Add-on ID"}
+            </Label>
+            <Input
+              id="firefoxId"
+              placeholder="my-extension@example.com"
+              value={extensionConfig.firefoxId || ""}
+              onChange={(e) => onExtensionConfigChange({ ...extensionConfig, firefoxId: e.target.value || undefined })}
+              className={`${inputClassName} font-mono`}
+            />
+            <p className="text-xs text-muted-foreground">
+              {currentLanguage === "zh"
+                ? "留空时根据扩展名称和网站域名生成；发布后请保持不变，否则无法作为同一扩展更新"
+                : "Generated from the extension name and website domain when empty. Keep it unchanged after publishing so updates are recognized"}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Open Mode */}
+      <div className="space-y-3">
+        <Label className="text-base font-medium text-foreground/80">
+          {currentLanguage === "zh" ? "打开方式" : "Open Mode"}
+        </Label>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {EXTENSION_MODES.map((mode) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => onExtensionConfigChange({ ...extensionConfig, mode })}
+              className={`rounded-xl border-2 p-3 text-left transition-all duration-200 ${
+                extensionConfig.mode === mode
+                  ? "border-blue-500 bg-blue-500/10"
+                  : "border-border/50 hover:border-blue-500/50 hover:bg-blue-500/5"
+              }`}
+            >
+              <span className="flex items-center gap-1.5 text-sm font-medium">
+                <PanelTop className="h-3.5 w-3.5 text-blue-500" />
+                {MODE_LABELS[mode][currentLanguage === "zh" ? "zh" : "en"]}
+              </span>
+              <span className="mt-1 block text-xs text-muted-foreground">
+                {MODE_LABELS[mode].description[currentLanguage === "zh" ? "zh" : "en"]}
+              </span>
+            </button>
+          ))}
+        </div>
+        {extensionConfig.mode === "sidePanel" && extensionConfig.targets.includes("firefox") && (
+          <p className="text-xs text-muted-foreground">
+            {currentLanguage === "zh"
+              ? "Firefox 版本使用侧边栏（sidebar_action）显示"
+              : "The Firefox package uses the sidebar (sidebar_action) instead"}
+          </p>
+        )}
+      </div>
+
+      {/* Popup */}
+      <div className="space-y-4 rounded-xl border border-border/50 p-4">
+        <h4 className="flex items-center gap-2 text-sm font-semibold text-foreground/80">
+          <PanelTop className="h-4 w-4 text-blue-500" />
+          {currentLanguage === "zh" ? "页面显示" : "Page Display"}
+        </h4>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {extensionConfig.mode === "popup" && (
+            <>
+              <div className="space-y-1.5">
+                <Label htmlFor="popupWidth" className="text-xs text-muted-foreground">
+                  {currentLanguage === "zh" ? "宽度" : "Width"} ({EXTENSION_POPUP_LIMITS.width.min}-{EXTENSION_POPUP_LIMITS.width.max})
+                </Label>
+                <Input
+                  id="popupWidth"
+                  type="number"
+                  min={EXTENSION_POPUP_LIMITS.width.min}
+                  max={EXTENSION_POPUP_LIMITS.width.max}
+                  value={extensionConfig.popup.width}
+                  onChange={(e) => updatePopup({ width: parseInt(e.target.value, 10) || EXTENSION_POPUP_LIMITS.width.default })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="popupHeight" className="text-xs text-muted-foreground">
+                  {currentLanguage === "zh" ? "高度" : "Height"} ({EXTENSION_POPUP_LIMITS.height.min}-{EXTENSION_POPUP_LIMITS.height.max})
+                </Label>
+                <Input
+                  id="popupHeight"
+                  type="number"
+                  min={EXTENSION_POPUP_LIMITS.height.min}
+                  max={EXTENSION_POPUP_LIMITS.height.max}
+                  value={extensionConfig.popup.height}
+                  onChange={(e) => updatePopup({ height: parseInt(e.target.value, 10) || EXTENSION_POPUP_LIMITS.height.default })}
+                  className={inputClassName}
+                />
+              </div>
+            </>
+          )}
+          <div className="space-y-1.5">
+            <Label htmlFor="popupLanguage" className="text-xs text-muted-foreground">
+              {currentLanguage === "zh" ? "提示语言" : "Text language"}
+            </Label>
+            <select
+              id="popupLanguage"
+              value={popupLanguage}
+              onChange={(e) => updatePopup({ language: e.target.value as ExtensionPopupLanguage })}
+              className="h-10 w-full rounded-lg border-2 border-border/50 bg-background px-2 text-sm"
+            >
+              <option value="zh">中文</option>
+              <option value="en">English</option>
+            </select>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {popupTextFields.map(({ key, label }) => (
+            <div key={key} className="space-y-1.5">
+              <Label htmlFor={`popup-${key}`} className="text-xs text-muted-foreground">
+                {label}
+              </Label>
+              <Input
+                id={`popup-${key}`}
+                placeholder={popupDefaults[key]}
+                value={extensionConfig.popup[key] || ""}
+                onChange={(e) => updatePopup({ [key]: e.target.value || undefined })}
+                className={inputClassName}
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {currentLanguage === "zh"
+            ? "未填写的提示使用所选语言的默认文案"
+            : "Empty texts use the defaults for the selected language"}
+        </p>
+      </div>
+
+      {/* Context Menu */}
+      <div className="space-y-3 rounded-xl border border-border/50 p-4">
+        <h4 className="flex items-center gap-2 text-sm font-semibold text-foreground/80">
+          <MousePointerClick className="h-4 w-4 text-blue-500" />
+          {currentLanguage === "zh" ? "右键菜单" : "Context Menu"}
+        </h4>
+        <ToggleRow
+          label={
+            currentLanguage === "zh"
+              ? `添加「在 ${name || "应用"} 中打开」`
+              : `Add "Open in ${name || "App"}"`
+          }
+          checked={contextMenu.enabled}
+          onChange={(enabled) => updateContextMenu({ enabled })}
+        />
+        {contextMenu.enabled && (
+          <>
+            <Input
+              placeholder={currentLanguage === "zh" ? "菜单文字（可选）" : "Menu title (optional)"}
+              value={contextMenu.title || ""}
+              onChange={(e) => updateContextMenu({ title: e.target.value || undefined })}
+              className={inputClassName}
+            />
+            <div className="flex flex-wrap gap-2">
+              {EXTENSION_CONTEXT_MENU_CONTEXTS.map((context) => (
+                <button
+                  key={context}
+                  type="button"
+                  onClick={() => toggleContextMenuContext(context)}
+                  className={`rounded-lg border-2 px-3 py-1.5 text-sm transition-all duration-200 ${
+                    contextMenu.contexts.includes(context)
+                      ? "border-blue-500 bg-blue-500/10"
+                      : "border-border/50 hover:border-blue-500/50"
+                  }`}
+                >
+                  {CONTEXT_MENU_CONTEXT_LABELS[context][currentLanguage === "zh" ? "zh" : "en"]}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
     </div>
   );
 }
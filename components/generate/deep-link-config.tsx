@@ -0,0 +1,113 @@
+"use client";
+
+import { useLanguage } from "@/context/LanguageContext";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Link2 } from "lucide-react";
+import type { DeepLinkConfig } from "@/lib/config/deep-links";
+
+interface DeepLinkConfigProps {
+  value: DeepLinkConfig;
+  onChange: (value: DeepLinkConfig) => void;
+  showAndroid: boolean;
+  showIOS: boolean;
+}
+
+const inputClassName =
+  "text-sm rounded-lg border-2 border-border/50 bg-background/50 focus:border-teal-500 focus:ring-4 focus:ring-teal-500/20 transition-all duration-200 font-mono";
+
+/**
+ * 去掉空行后的深度链接配置，没有域名时返回 undefined（不提交）
+ */
+export function normalizeDeepLinkConfig(value: DeepLinkConfig): DeepLinkConfig | undefined {
+  const domains = value.domains.map((domain) => domain.trim()).filter(Boolean);
+  if (domains.length === 0) return undefined;
+
+  const fingerprints = (value.sha256CertFingerprints || []).map((fp) => fp.trim()).filter(Boolean);
+  return {
+    domains,
+    ...(value.appleTeamId?.trim() && { appleTeamId: value.appleTeamId.trim() }),
+    ...(fingerprints.length > 0 && { sha256CertFingerprints: fingerprints }),
+  };
+}
+
+/**
+ * 深度链接 / App Links 配置（Android / iOS）
+ * 验证文件（assetlinks.json / apple-app-site-association）在构建完成后从构建列表下载
+ */
+export function DeepLinkConfigSection({ value, onChange, showAndroid, showIOS }: DeepLinkConfigProps) {
+  const { currentLanguage } = useLanguage();
+  const isZh = currentLanguage === "zh";
+
+  const update = (patch: Partial<DeepLinkConfig>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="w-8 h-8 sm:w-10 sm:h-10 rounded-lg sm:rounded-xl bg-gradient-to-br from-teal-500/20 to-emerald-500/20 flex items-center justify-center">
+          <Link2 className="h-4 w-4 sm:h-5 sm:w-5 text-teal-500" />
+        </div>
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold">
+            {isZh ? "深度链接" : "Deep Links"}
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {isZh
+              ? "这些域名的链接将直接在 App 中打开，构建完成后下载验证文件托管到网站 /.well-known/ 下"
+              : "Links on these domains open in the app. Download the verification files after the build and host them under /.well-known/"}
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="deepLinkDomains" className="text-sm">
+          {isZh ? "域名（每行一个）" : "Domains (one per line)"}
+        </Label>
+        <Textarea
+          id="deepLinkDomains"
+          placeholder={"example.com\n*.example.com"}
+          value={value.domains.join("\n")}
+          onChange={(e) => update({ domains: e.target.value.split("\n") })}
+          className={`min-h-[80px] resize-none ${inputClassName}`}
+        />
+      </div>
+
+      {showIOS && (
+        <div className="space-y-2">
+          <Label htmlFor="appleTeamId" className="text-sm">
+            {isZh ? "Apple Team ID（生成 apple-app-site-association 使用）" : "Apple Team ID (for apple-app-site-association)"}
+          </Label>
+          <Input
+            id="appleTeamId"
+            placeholder="ABCDE12345"
+            maxLength={10}
+            value={value.appleTeamId ?? ""}
+            onChange={(e) => update({ appleTeamId: e.target.value || undefined })}
+            className={`h-10 ${inputClassName}`}
+          />
+        </div>
+      )}
+
+      {showAndroid && (
+        <div className="space-y-2">
+          <Label htmlFor="sha256CertFingerprints" className="text-sm">
+            {isZh ? "额外的 SHA-256 证书指纹（可选，每行一个）" : "Additional SHA-256 certificate fingerprints (optional, one per line)"}
+          </Label>
+          <Textarea
+            id="sha256CertFingerprints"
+            placeholder="AB:CD:EF:..."
+            value={(value.sha256CertFingerprints || []).join("\n")}
+            onChange={(e) => update({ sha256CertFingerprints: e.target.value.split("\n") })}
+            className={`min-h-[60px] resize-none ${inputClassName}`}
+          />
+          <p className="text-xs text-muted-foreground">
+            {isZh
+              ? "正式版构建的签名证书指纹会自动加入；通过 Google Play 应用签名发布时，请填写 Play 管理中心的应用签名证书指纹。"
+              : "The release signing certificate is added automatically. If you use Play App Signing, add the app signing certificate fingerprint from Play Console."}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+"use client";
+
+import { useState } from "react";
+import { useLanguage } from "@/context/LanguageContext";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ChevronDown, Link2, Monitor, PanelTop, Plus, Settings2, Trash2 } from "lucide-react";
+import {
+  DEFAULT_DESKTOP_TRAY_MENU,
+  DEFAULT_DESKTOP_WINDOW,
+  type DesktopShellConfig,
+  type DesktopTrayAction,
+  type DesktopTrayMenuItem,
+} from "@/lib/config/desktop-shell";
+import { ToggleRow } from "./native-shell-config";
+
+type DesktopWindowConfig = NonNullable<DesktopShellConfig["window"]>;
+type WindowDimensionField = "width" | "height" | "minWidth" | "minHeight";
+
+interface DesktopShellConfigProps {
+  value: DesktopShellConfig;
+  onChange: (value: DesktopShellConfig) => void;
+}
+
+const inputClassName =
+  "h-10 text-sm rounded-lg border-2 border-border/50 bg-background/50 focus:border-blue-500 focus:ring-4 focus:ring-blue-500/20 transition-all duration-200";
+
+const TRAY_ACTION_LABELS: Record<DesktopTrayAction, { zh: string; en: string }> = {
+  show: { zh: "显示窗口", en: "Show window" },
+  reload: { zh: "重新加载", en: "Reload" },
+  openUrl: { zh: "打开链接", en: "Open URL" },
+  quit: { zh: "退出", en: "Quit" },
+};
+
+/**
+ * 提交前清理空字段，避免把空字符串 / 空数组 / 半填的菜单项发给服务端
+ */
+export function normalizeDesktopShellConfig(config: DesktopShellConfig): DesktopShellConfig | undefined {
+  const normalized: DesktopShellConfig = {};
+
+  if (config.window && Object.values(config.window).some((value) => value !== undefined)) {
+    normalized.window = config.window;
+  }
+  if (config.tray?.enabled) {
+    const menu = (config.tray.menu || [])
+      .map((item) => ({ ...item, label: item.label.trim(), url: item.action === "openUrl" ? item.url?.trim() : undefined }))
+      .filter((item) => item.label);
+    normalized.tray = { ...config.tray, menu: menu.length > 0 ? menu : undefined };
+  }
+  if (config.singleInstance !== undefined) normalized.singleInstance = config.singleInstance;
+  if (config.externalLinkRegex?.trim()) normalized.externalLinkRegex = config.externalLinkRegex.trim();
+  const allowedDomains = (config.allowedDomains || []).map((domain) => domain.trim()).filter(Boolean);
+  if (allowedDomains.length > 0) normalized.allowedDomains = allowedDomains;
+  if (config.userAgent?.trim()) normalized.userAgent = config.userAgent.trim();
+
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/**
+ * 桌面端运行时配置（Windows / macOS / Linux 共用）
+ */
+export function DesktopShellConfigSection({ value, onChange }: DesktopShellConfigProps) {
+  const { currentLanguage } = useLanguage();
+  const [open, setOpen] = useState(false);
+  const isZh = currentLanguage === "zh";
+
+  const update = (patch: Partial<DesktopShellConfig>) => onChange({ ...value, ...patch });
+  const updateWindow = (patch: Partial<DesktopWindowConfig>) => update({ window: { ...value.window, ...patch } });
+
+  const dimensionFields: Array<{ key: WindowDimensionField; label: string; placeholder: string }> = [
+    { key: "width", label: isZh ? "宽度" : "Width", placeholder: String(DEFAULT_DESKTOP_WINDOW.width) },
+    { key: "height", label: isZh ? "高度" : "Height", placeholder: String(DEFAULT_DESKTOP_WINDOW.height) },
+    { key: "minWidth", label: isZh ? "最小宽度" : "Min width", placeholder: isZh ? "不限" : "None" },
+    { key: "minHeight", label: isZh ? "最小高度" : "Min height", placeholder: isZh ? "不限" : "None" },
+  ];
+
+  return (
+    <div className="rounded-xl border border-border/50 bg-background/30">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <div className="flex items-center gap-2">
+          <Settings2 className="h-4 w-4 text-blue-500" />
+          <span className="font-medium">{isZh ? "桌面端行为" : "Desktop App Behavior"}</span>
+          <span className="text-xs text-muted-foreground">
+            {isZh ? "窗口、托盘、单实例、链接（三个桌面平台共用）" : "Window, tray, single instance, links (shared by all desktop platforms)"}
+          </span>
+        </div>
+        <ChevronDown className={`h-4 w-4 text-muted-foreground transition-transform ${open ? "rotate-180" : ""}`} />
+      </button>
+
+      {open && (
+        <div className="space-y-6 px-4 pb-4">
+          {/* Window */}
+          <div className="space-y-4">
+            <h4 className="flex items-center gap-2 text-sm font-semibold text-foreground/80">
+              <Monitor className="h-4 w-4 text-blue-500" />
+              {isZh ? "窗口" : "Window"}
+            </h4>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {dimensionFields.map(({ key, label, placeholder }) => (
+                <div key={key} className="space-y-1.5">
+                  <Label htmlFor={`desktop-${key}`} className="text-xs text-muted-foreground">
+                    {label}
+                  </Label>
+                  <Input
+                    id={`desktop-${key}`}
+                    type="number"
+                    min="200"
+                    placeholder={placeholder}
+                    value={value.window?.[key] ?? ""}
+                    onChange={(e) => updateWindow({ [key]: e.target.value ? parseInt(e.target.value, 10) : undefined })}
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <ToggleRow
+                label={isZh ? "允许调整窗口大小" : "Resizable"}
+                checked={value.window?.resizable ?? DEFAULT_DESKTOP_WINDOW.resizable}
+                onChange={(checked) => updateWindow({ resizable: checked })}
+              />
+              <ToggleRow
+                label={isZh ? "启动时最大化" : "Start maximized"}
+                checked={value.window?.maximized ?? DEFAULT_DESKTOP_WINDOW.maximized}
+                onChange={(checked) => updateWindow({ maximized: checked })}
+              />
+              <ToggleRow
+                label={isZh ? "只允许运行一个实例" : "Single instance"}
+                checked={value.singleInstance ?? false}
+                onChange={(checked) => update({ singleInstance: checked })}
+              />
+            </div>
+          </div>
+
+          {/* Tray */}
+          <div className="space-y-4">
+            <h4 className="flex items-center gap-2 text-sm font-semibold text-foreground/80">
+              <PanelTop className="h-4 w-4 text-blue-500" />
+              {isZh ? "系统托盘" : "System Tray"}
+            </h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <ToggleRow
+                label={isZh ? "显示托盘图标" : "Show tray icon"}
+                checked={value.tray?.enabled ?? false}
+                onChange={(checked) => update({ tray: { ...value.tray, enabled: checked } })}
+              />
+              {value.tray?.enabled && (
+                <ToggleRow
+                  label={isZh ? "关闭窗口时最小化到托盘" : "Close to tray"}
+                  checked={value.tray.closeToTray ?? false}
+                  onChange={(checked) => update({ tray: { ...value.tray!, closeToTray: checked } })}
+                />
+              )}
+            </div>
+            {value.tray?.enabled && (
+              <TrayMenuEditor
+                items={value.tray.menu || []}
+                onChange={(menu) => update({ tray: { ...value.tray!, menu } })}
+              />
+            )}
+          </div>
+
+          {/* Navigation */}
+          <div className="space-y-4">
+            <h4 className="flex items-center gap-2 text-sm font-semibold text-foreground/80">
+              <Link2 className="h-4 w-4 text-blue-500" />
+              {isZh ? "链接与导航" : "Links & Navigation"}
+            </h4>
+            <div className="space-y-2">
+              <Label htmlFor="desktopAllowedDomains" className="text-sm">
+                {isZh ? "允许在应用内打开的域名（每行一个）" : "Domains allowed in the app (one per line)"}
+              </Label>
+              <Textarea
+                id="desktopAllowedDomains"
+                rows={3}
+                placeholder={"example.com\n*.example.com"}
+                value={(value.allowedDomains || []).join("\n")}
+                onChange={(e) => update({ allowedDomains: e.target.value.split("\n") })}
+                className="font-mono text-sm"
+              />
+              <p className="text-xs text-muted-foreground">
+                {isZh
+                  ? "留空时不限制；其他域名的链接在系统浏览器中打开"
+                  : "Leave empty to allow all. Links to other domains open in the system browser"}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="desktopExternalLinkRegex" className="text-sm">
+                {isZh ? "始终在外部浏览器打开的链接（正则）" : "Always open externally (regex)"}
+              </Label>
+              <Input
+                id="desktopExternalLinkRegex"
+                placeholder="\.pdf$|^https?://(www\.)?youtube\.com/"
+                value={value.externalLinkRegex ?? ""}
+                onChange={(e) => update({ externalLinkRegex: e.target.value || undefined })}
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="desktopUserAgent" className="text-sm">
+                {isZh ? "自定义 User-Agent（可选，完整替换）" : "Custom user agent (optional, replaces default)"}
+              </Label>
+              <Input
+                id="desktopUserAgent"
+                placeholder="Mozilla/5.0 ..."
+                value={value.userAgent ?? ""}
+                onChange={(e) => update({ userAgent: e.target.value || undefined })}
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TrayMenuEditor({
+  items,
+  onChange,
+}: {
+  items: DesktopTrayMenuItem[];
+  onChange: (items: DesktopTrayMenuItem[]) => void;
+}) {
+  const { currentLanguage } = useLanguage();
+  const isZh = currentLanguage === "zh";
+
+  const updateItem = (index: number, patch: Partial<DesktopTrayMenuItem>) =>
+    onChange(items.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 p-3">
+      <div>
+        <span className="text-sm font-medium">{isZh ? "托盘菜单" : "Tray menu"}</span>
+        <p className="text-xs text-muted-foreground">
+          {isZh
+            ? `未添加菜单项时使用默认菜单（${DEFAULT_DESKTOP_TRAY_MENU.map((item) => TRAY_ACTION_LABELS[item.action].zh).join(" / ")}）`
+            : `Defaults to ${DEFAULT_DESKTOP_TRAY_MENU.map((item) => item.label).join(" / ")} when empty`}
+        </p>
+      </div>
+      {items.map((item, index) => (
+        <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_2fr_auto] gap-2">
+          <Input
+            placeholder={isZh ? "菜单文字" : "Label"}
+            value={item.label}
+            onChange={(e) => updateItem(index, { label: e.target.value })}
+            className={inputClassName}
+          />
+          <select
+            value={item.action}
+            onChange={(e) => updateItem(index, { action: e.target.value as DesktopTrayAction })}
+            className="h-10 rounded-lg border-2 border-border/50 bg-background px-2 text-sm"
+          >
+            {(Object.keys(TRAY_ACTION_LABELS) as DesktopTrayAction[]).map((action) => (
+              <option key={action} value={action}>
+                {TRAY_ACTION_LABELS[action][isZh ? "zh" : "en"]}
+              </option>
+            ))}
+          </select>
+          <Input
+            placeholder="https://example.com/help"
+            value={item.url || ""}
+            disabled={item.action !== "openUrl"}
+            onChange={(e) => updateItem(index, { url: e.target.value || undefined })}
+            className={`${inputClassName} font-mono`}
+          />
+          <button
+            type="button"
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+            className="h-10 w-10 flex items-center justify-center rounded-lg text-muted-foreground hover:text-red-500 hover:bg-red-500/10 transition-colors"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+      {items.length < 10 && (
+        <button
+          type="button"
+          onClick={() => onChange([...items, { label: "", action: "show" }])}
+          className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400"
+        >
+          <Plus className="h-4 w-4" />
+          {isZh ? "添加菜单项" : "Add menu item"}
+        </button>
+      )}
+    </div>
+  );
+}
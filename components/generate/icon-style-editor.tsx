@@ -0,0 +1,413 @@
+"use client";
+
+import { useEffect, useId, useState } from "react";
+import { useLanguage } from "@/context/LanguageContext";
+import { Label } from "@/components/ui/label";
+import { Palette, RotateCcw, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DEFAULT_ICON_STYLE,
+  getGradientVector,
+  isDefaultIconStyle,
+  MAX_MONOCHROME_IMAGE_BYTES,
+  MIN_ICON_SCALE,
+  type IconBackground,
+  type IconStyleConfig,
+} from "@/lib/config/icon-style";
+import { getDataUrlSize } from "@/lib/config/wechat-mini-program";
+
+interface IconStyleEditorProps {
+  value: IconStyleConfig;
+  onChange: (value: IconStyleConfig) => void;
+  // 预览使用的图标（选中平台中第一个已选择的图标）
+  icon: File | null;
+}
+
+// 单色图层统一缩放到 Android xxxhdpi 的 108dp 画布
+const MONOCHROME_IMAGE_SIZE = 432;
+
+// 超椭圆（|x|⁴ + |y|⁴ = 1）近似各启动器的「方圆形」遮罩
+const SQUIRCLE_PATH = (() => {
+  const points: string[] = [];
+  for (let i = 0; i < 64; i++) {
+    const t = (i / 64) * Math.PI * 2;
+    const cos = Math.cos(t);
+    const sin = Math.sin(t);
+    const x = 50 + 50 * Math.sign(cos) * Math.sqrt(Math.abs(cos));
+    const y = 50 + 50 * Math.sign(sin) * Math.sqrt(Math.abs(sin));
+    points.push(`${x.toFixed(2)},${y.toFixed(2)}`);
+  }
+  return `M${points.join("L")}Z`;
+})();
+
+const MASKS = [
+  { key: "circle", zh: "圆形", en: "Circle", shape: <circle cx="50" cy="50" r="50" /> },
+  { key: "squircle", zh: "方圆形", en: "Squircle", shape: <path d={SQUIRCLE_PATH} /> },
+  { key: "rounded", zh: "圆角矩形", en: "Rounded square", shape: <rect width="100" height="100" rx="22" /> },
+] as const;
+
+const BACKGROUND_TYPES: Array<{ type: IconBackground["type"]; zh: string; en: string }> = [
+  { type: "none", zh: "保持原图", en: "Original" },
+  { type: "color", zh: "纯色", en: "Solid color" },
+  { type: "gradient", zh: "渐变", en: "Gradient" },
+];
+
+const MONOCHROME_MODES: Array<{ mode: "none" | "auto"; zh: string; en: string }> = [
+  { mode: "none", zh: "不生成", en: "None" },
+  { mode: "auto", zh: "由图标生成", en: "From icon" },
+];
+
+/**
+ * 单色图层 → PNG data URL（缩放到 432px，超过大小限制时返回 null）
+ */
+async function readMonochromeImage(file: File): Promise<string | null> {
+  const bitmap = await createImageBitmap(file);
+  const ratio = Math.min(1, MONOCHROME_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * ratio));
+  canvas.height = Math.max(1, Math.round(bitmap.height * ratio));
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const dataUrl = canvas.toDataURL("image/png");
+  return getDataUrlSize(dataUrl) <= MAX_MONOCHROME_IMAGE_BYTES ? dataUrl : null;
+}
+
+function SegmentedControl<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: Array<{ key: T; label: string }>;
+  value: string;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex w-fit rounded-lg border border-border/50 p-0.5">
+      {options.map((option) => (
+        <button
+          key={option.key}
+          type="button"
+          onClick={() => onChange(option.key)}
+          className={`px-3 py-1 text-sm rounded-md transition-colors ${
+            value === option.key ? "bg-purple-500 text-white" : "text-muted-foreground hover:text-foreground"
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function ColorField({ id, label, value, onChange }: { id: string; label: string; value: string; onChange: (value: string) => void }) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">{label}</Label>
+      <div className="flex items-center gap-2">
+        <input
+          id={id}
+          type="color"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-9 w-10 rounded border border-border/50 bg-transparent cursor-pointer"
+        />
+        <span className="font-mono text-xs text-muted-foreground">{value}</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 遮罩预览：与服务端相同的合成方式（背景 + 按比例缩放并居中的图标）
+ */
+function MaskPreview({
+  iconUrl,
+  style,
+  shape,
+  label,
+}: {
+  iconUrl: string | null;
+  style: IconStyleConfig;
+  shape: React.ReactNode;
+  label: string;
+}) {
+  const id = useId().replace(/:/g, "");
+  const { background, scale } = style;
+  const offset = (100 - 100 * scale) / 2;
+  const gradient = background.type === "gradient" ? getGradientVector(background.angle) : null;
+  // 未设置背景时，透明区域在 Android 自适应图标 / iOS 上显示为白色
+  const fill = background.type === "color" ? background.color : gradient ? `url(#${id}-bg)` : "#ffffff";
+
+  return (
+    <div className="flex flex-col items-center gap-1.5">
+      <svg viewBox="0 0 100 100" className="h-16 w-16 drop-shadow-sm">
+        <defs>
+          <clipPath id={`${id}-mask`}>{shape}</clipPath>
+          {background.type === "gradient" && gradient && (
+            <linearGradient id={`${id}-bg`} {...gradient}>
+              <stop offset="0" stopColor={background.from} />
+              <stop offset="1" stopColor={background.to} />
+            </linearGradient>
+          )}
+        </defs>
+        <g clipPath={`url(#${id}-mask)`}>
+          <rect width="100" height="100" fill={fill} />
+          {iconUrl && (
+            <image
+              href={iconUrl}
+              x={offset}
+              y={offset}
+              width={100 * scale}
+              height={100 * scale}
+              preserveAspectRatio="xMidYMid meet"
+            />
+          )}
+        </g>
+      </svg>
+      <span className="text-xs text-muted-foreground">{label}</span>
+    </div>
+  );
+}
+
+/**
+ * 自适应图标编辑器：背景色 / 渐变、图案边距、Android 13 主题图标的单色图层
+ * 样式随构建请求提交，由各平台构建服务合成图标并生成分层图标资源
+ */
+export function IconStyleEditor({ value, onChange, icon }: IconStyleEditorProps) {
+  const { currentLanguage } = useLanguage();
+  const isZh = currentLanguage === "zh";
+  const idPrefix = useId();
+  const [iconUrl, setIconUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!icon) {
+      setIconUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(icon);
+    setIconUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [icon]);
+
+  const { background, monochrome, scale } = value;
+  const update = (patch: Partial<IconStyleConfig>) => onChange({ ...value, ...patch });
+
+  const changeBackgroundType = (type: IconBackground["type"]) => {
+    if (type === background.type) return;
+    const color = background.type === "color" ? background.color : background.type === "gradient" ? background.from : "#ffffff";
+    update({
+      background:
+        type === "none"
+          ? { type }
+          : type === "color"
+            ? { type, color }
+            : { type, from: color, to: background.type === "gradient" ? background.to : "#000000", angle: 135 },
+    });
+  };
+
+  const handleMonochromeUpload = async (file: File) => {
+    if (file.type !== "image/png") {
+      toast.error(isZh ? "单色图层仅支持透明背景的 PNG 图片" : "The monochrome layer must be a transparent PNG");
+      return;
+    }
+    try {
+      const image = await readMonochromeImage(file);
+      if (!image) {
+        const limit = `${MAX_MONOCHROME_IMAGE_BYTES / 1024} KB`;
+        toast.error(isZh ? `单色图层不能超过 ${limit}` : `The monochrome layer must not exceed ${limit}`);
+        return;
+      }
+      update({ monochrome: { mode: "custom", image } });
+    } catch (error) {
+      console.error("[Icon Style] Failed to read monochrome layer:", error);
+      toast.error(isZh ? "无法读取图片" : "Could not read the image");
+    }
+  };
+
+  // 主题图标预览：自定义图层或图标本身的不透明区域，着色为系统主题色
+  const monochromeSource = monochrome.mode === "custom" ? monochrome.image : monochrome.mode === "auto" ? iconUrl : null;
+  const monochromeMask = monochromeSource
+    ? {
+        maskImage: `url(${monochromeSource})`,
+        WebkitMaskImage: `url(${monochromeSource})`,
+        maskSize: `${scale * 100}%`,
+        WebkitMaskSize: `${scale * 100}%`,
+        maskPosition: "center",
+        WebkitMaskPosition: "center",
+        maskRepeat: "no-repeat",
+        WebkitMaskRepeat: "no-repeat",
+      }
+    : null;
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center justify-between gap-3">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <Palette className="h-4 w-4 text-purple-500" />
+          {isZh ? "图标样式" : "Icon Style"}
+        </span>
+        {!isDefaultIconStyle(value) && (
+          <button
+            type="button"
+            onClick={() => onChange(DEFAULT_ICON_STYLE)}
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <RotateCcw className="h-3 w-3" />
+            {isZh ? "恢复默认" : "Reset"}
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {isZh
+          ? "应用于所有平台的图标；Android 同时生成自适应图标的前景、背景和主题图标图层，HarmonyOS 生成分层图标"
+          : "Applied to the icon on every platform. Android also gets adaptive foreground, background and themed icon layers; HarmonyOS gets a layered icon"}
+      </p>
+
+      <div className="grid gap-5 sm:grid-cols-[1fr_auto]">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <span className="text-xs font-medium">{isZh ? "背景" : "Background"}</span>
+            <SegmentedControl
+              options={BACKGROUND_TYPES.map((option) => ({ key: option.type, label: isZh ? option.zh : option.en }))}
+              value={background.type}
+              onChange={changeBackgroundType}
+            />
+            {background.type === "color" && (
+              <ColorField
+                id={`${idPrefix}-color`}
+                label={isZh ? "背景色" : "Background color"}
+                value={background.color}
+                onChange={(color) => update({ background: { ...background, color } })}
+              />
+            )}
+            {background.type === "gradient" && (
+              <div className="flex flex-wrap items-end gap-4">
+                <ColorField
+                  id={`${idPrefix}-from`}
+                  label={isZh ? "起始颜色" : "From"}
+                  value={background.from}
+                  onChange={(from) => update({ background: { ...background, from } })}
+                />
+                <ColorField
+                  id={`${idPrefix}-to`}
+                  label={isZh ? "结束颜色" : "To"}
+                  value={background.to}
+                  onChange={(to) => update({ background: { ...background, to } })}
+                />
+                <div className="space-y-1">
+                  <Label htmlFor={`${idPrefix}-angle`} className="text-xs">
+                    {isZh ? `角度 ${background.angle}°` : `Angle ${background.angle}°`}
+                  </Label>
+                  <input
+                    id={`${idPrefix}-angle`}
+                    type="range"
+                    min={0}
+                    max={345}
+                    step={15}
+                    value={background.angle}
+                    onChange={(e) => update({ background: { ...background, angle: Number(e.target.value) } })}
+                    className="h-9 w-32 accent-purple-500"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor={`${idPrefix}-scale`} className="text-xs">
+              {isZh ? `图案大小 ${Math.round(scale * 100)}%` : `Artwork size ${Math.round(scale * 100)}%`}
+            </Label>
+            <input
+              id={`${idPrefix}-scale`}
+              type="range"
+              min={MIN_ICON_SCALE * 100}
+              max={100}
+              step={5}
+              value={Math.round(scale * 100)}
+              onChange={(e) => update({ scale: Number(e.target.value) / 100 })}
+              className="h-6 w-full max-w-xs accent-purple-500"
+            />
+            <p className="text-xs text-muted-foreground">
+              {isZh
+                ? "缩小图案可在四周留出边距，避免被圆形等遮罩裁切"
+                : "Shrink the artwork to add padding so masks such as circles don't crop it"}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-xs font-medium">{isZh ? "单色图层（Android 13 主题图标）" : "Monochrome layer (Android 13 themed icon)"}</span>
+            <div className="flex flex-wrap items-center gap-3">
+              {/* 上传自定义图层后两个选项都不高亮 */}
+              <SegmentedControl
+                options={MONOCHROME_MODES.map((option) => ({ key: option.mode, label: isZh ? option.zh : option.en }))}
+                value={monochrome.mode}
+                onChange={(mode) => update({ monochrome: { mode } })}
+              />
+              {monochrome.mode === "custom" ? (
+                <div className="relative group w-9 h-9">
+                  <img src={monochrome.image} alt="" className="w-9 h-9 rounded-md border border-border/50 bg-muted object-contain" />
+                  <button
+                    type="button"
+                    onClick={() => update({ monochrome: { mode: "none" } })}
+                    className="absolute -top-1.5 -right-1.5 w-4 h-4 rounded-full bg-red-500 text-white flex items-center justify-center opacity-0 group-hover:opacity-100"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ) : (
+                <label className="flex items-center gap-1.5 rounded-lg border-2 border-dashed border-border/50 px-3 py-1.5 text-xs text-muted-foreground cursor-pointer hover:border-purple-500">
+                  <Upload className="h-3.5 w-3.5" />
+                  {isZh ? "上传图层" : "Upload layer"}
+                  <input
+                    type="file"
+                    accept="image/png"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = "";
+                      if (file) handleMonochromeUpload(file);
+                    }}
+                  />
+                </label>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {isZh
+                ? "自定义图层需为透明背景的 PNG，只使用其轮廓"
+                : "A custom layer must be a transparent PNG; only its silhouette is used"}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <span className="text-xs font-medium">{isZh ? "遮罩预览" : "Mask preview"}</span>
+          <div className="flex gap-4">
+            {MASKS.map((mask) => (
+              <MaskPreview
+                key={mask.key}
+                iconUrl={iconUrl}
+                style={value}
+                shape={mask.shape}
+                label={isZh ? mask.zh : mask.en}
+              />
+            ))}
+            {monochromeMask && (
+              <div className="flex flex-col items-center gap-1.5">
+                <div className="flex h-16 w-16 items-center justify-center rounded-full bg-[#d3e3fd] drop-shadow-sm">
+                  <div className="h-full w-full bg-[#0b57d0]" style={monochromeMask} />
+                </div>
+                <span className="text-xs text-muted-foreground">{isZh ? "主题图标" : "Themed"}</span>
+              </div>
+            )}
+          </div>
+          {!iconUrl && (
+            <p className="text-xs text-muted-foreground">
+              {isZh ? "上传图标后显示预览" : "Upload an icon to see the preview"}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
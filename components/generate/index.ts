@@ -1,4 +1,5 @@
 export { UrlInput } from "./url-input";
+export type { SiteImportSelection } from "./site-manifest-import";
 export { AppConfig } from "./app-config";
 export { PlatformSelector } from "./platform-selector";
 export { AndroidConfig } from "./android-config";
@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Upload, X, Package, Hash, FileText, Apple, AlertCircle } from "lucide-react";
+import { VersionCodeHint } from "./version-code-hint";
 
 interface iOSConfigProps {
   name: string;
@@ -18,6 +19,9 @@ interface iOSConfigProps {
   onBundleIdChange: (value: string) => void;
   onVersionStringChange: (value: string) => void;
   onBuildNumberChange: (value: string) => void;
+  // 登录用户留空时自动递增，lastVersionCode 为该包名上次发放的版本号
+  autoIncrement?: boolean;
+  lastVersionCode?: number | null;
   onPrivacyPolicyChange: (value: string) => void;
   onIconChange: (file: File | null) => void;
 }
@@ -32,6 +36,8 @@ export function IOSConfig({
   onBundleIdChange,
   onVersionStringChange,
   onBuildNumberChange,
+  autoIncrement = false,
+  lastVersionCode = null,
   onPrivacyPolicyChange,
   onIconChange,
 }: iOSConfigProps) {
@@ -253,7 +259,7 @@ export function IOSConfig({
         {/* Build Number */}
         <div className="space-y-3">
           <Label htmlFor="buildNumber" className="text-base font-medium text-foreground/80">
-            {currentLanguage === "zh" ? "构建号" : "Build Number"} <span className="text-red-500">*</span>
+            {currentLanguage === "zh" ? "构建号" : "Build Number"} {!autoIncrement && <span className="text-red-500">*</span>}
           </Label>
           <div className="relative group">
             <div className="absolute left-4 top-1/2 -translate-y-1/2 text-muted-foreground group-focus-within:text-gray-500 transition-colors">
@@ -263,17 +269,17 @@ export function IOSConfig({
               id="buildNumber"
               type="number"
               min="1"
-              placeholder={currentLanguage === "zh" ? "例如: 1, 2, 3" : "e.g. 1, 2, 3"}
+              placeholder={
+                autoIncrement
+                  ? currentLanguage === "zh" ? "留空自动递增" : "Leave empty to auto-increment"
+                  : currentLanguage === "zh" ? "例如: 1, 2, 3" : "e.g. 1, 2, 3"
+              }
               value={buildNumber}
               onChange={(e) => onBuildNumberChange(e.target.value)}
               className="h-12 sm:h-14 pl-10 sm:pl-12 text-base rounded-xl border-2 border-border/50 bg-background/50 backdrop-blur-sm focus:border-gray-500 focus:ring-4 focus:ring-gray-500/20 transition-all duration-200"
             />
           </div>
-          <p className="text-xs text-muted-foreground">
-            {currentLanguage === "zh"
-              ? "整数构建号，每次更新递增"
-              : "Integer build number, increment on each update"}
-          </p>
+          <VersionCodeHint value={buildNumber} autoIncrement={autoIncrement} lastVersionCode={lastVersionCode} />
         </div>
       </div>
 
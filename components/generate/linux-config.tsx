@@ -4,19 +4,57 @@ import { useLanguage } from "@/context/LanguageContext";
 import { useUploadConfig } from "@/hooks/useUploadConfig";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Package, Image, AlertTriangle, Terminal, AlertCircle } from "lucide-react";
+import { LINUX_PACKAGE_FORMATS, getLinuxPackageLabel, type LinuxPackageFormat } from "@/lib/config/linux-packaging";
+import { Package, Image, AlertTriangle, Terminal, AlertCircle, Archive } from "lucide-react";
+import type { DesktopShellConfig } from "@/lib/config/desktop-shell";
+import { DesktopShellConfigSection } from "./desktop-shell-config";
 import { useState, useRef } from "react";
 
 interface LinuxConfigProps {
   name: string;
   onNameChange: (value: string) => void;
   onIconChange: (file: File | null) => void;
+  packageFormat: LinuxPackageFormat;
+  onPackageFormatChange: (value: LinuxPackageFormat) => void;
+  desktopConfig: DesktopShellConfig;
+  onDesktopConfigChange: (value: DesktopShellConfig) => void;
 }
 
+const PACKAGE_FORMAT_DESCRIPTIONS: Record<LinuxPackageFormat, { zh: string; en: string }> = {
+  "tar.gz": { zh: "解压即用，通用", en: "Extract and run, any distro" },
+  deb: { zh: "Ubuntu / Debian 安装包", en: "Ubuntu / Debian package" },
+  rpm: { zh: "Fedora / openSUSE 安装包", en: "Fedora / openSUSE package" },
+  appimage: { zh: "单文件，无需安装", en: "Single file, no install" },
+};
+
+// 各格式的安装 / 运行方式
+const PACKAGE_FORMAT_USAGE: Record<LinuxPackageFormat, { zh: string; en: string }> = {
+  "tar.gz": {
+    zh: "• 下载 tar.gz 文件后解压：tar -xzf AppName.tar.gz，进入目录后运行：./appname",
+    en: "• Extract after download: tar -xzf AppName.tar.gz, then run ./appname from the directory",
+  },
+  deb: {
+    zh: "• 安装：sudo apt install ./app_1.0.0_amd64.deb，之后可在应用菜单中打开",
+    en: "• Install: sudo apt install ./app_1.0.0_amd64.deb, then open it from the app menu",
+  },
+  rpm: {
+    zh: "• 安装：sudo dnf install ./app-1.0.0-1.x86_64.rpm，之后可在应用菜单中打开",
+    en: "• Install: sudo dnf install ./app-1.0.0-1.x86_64.rpm, then open it from the app menu",
+  },
+  appimage: {
+    zh: "• 添加执行权限后直接运行：chmod +x App.AppImage && ./App.AppImage",
+    en: "• Make it executable and run: chmod +x App.AppImage && ./App.AppImage",
+  },
+};
+
 export function LinuxConfig({
   name,
   onNameChange,
   onIconChange,
+  packageFormat,
+  onPackageFormatChange,
+  desktopConfig,
+  onDesktopConfigChange,
 }: LinuxConfigProps) {
   const { currentLanguage } = useLanguage();
   const { iconUploadEnabled, maxImageUploadMB, validateFileSize } = useUploadConfig();
@@ -189,6 +227,37 @@ export function LinuxConfig({
         />
       </div>
 
+      {/* Package Format */}
+      <div className="space-y-3">
+        <Label className="text-base font-medium text-foreground/80">
+          {currentLanguage === "zh" ? "安装包格式" : "Package Format"}
+        </Label>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {LINUX_PACKAGE_FORMATS.map((format) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => onPackageFormatChange(format)}
+              className={`rounded-xl border-2 p-3 text-left transition-all duration-200 ${
+                packageFormat === format
+                  ? "border-orange-500 bg-orange-500/10"
+                  : "border-border/50 hover:border-orange-500/50 hover:bg-orange-500/5"
+              }`}
+            >
+              <span className="flex items-center gap-1.5 text-sm font-medium">
+                <Archive className="h-3.5 w-3.5 text-orange-600 dark:text-orange-400" />
+                {getLinuxPackageLabel(format)}
+              </span>
+              <span className="mt-1 block text-xs text-muted-foreground">
+                {PACKAGE_FORMAT_DESCRIPTIONS[format][currentLanguage === "zh" ? "zh" : "en"]}
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <DesktopShellConfigSection value={desktopConfig} onChange={onDesktopConfigChange} />
+
       {/* Info Box - Usage Guide */}
       <div className="rounded-xl bg-orange-500/10 border border-orange-500/20 p-4">
         <div className="flex items-start gap-3">
@@ -200,13 +269,8 @@ export function LinuxConfig({
             <ul className="text-sm text-muted-foreground space-y-1">
               <li>
                 {currentLanguage === "zh"
-                  ? "• 下载 tar.gz 文件后解压：tar -xzf AppName.tar.gz"
-                  : "• Extract after download: tar -xzf AppName.tar.gz"}
-              </li>
-              <li>
-                {currentLanguage === "zh"
-                  ? "• 进入目录后运行：./appname"
-                  : "• Run from directory: ./appname"}
+                  ? PACKAGE_FORMAT_USAGE[packageFormat].zh
+                  : PACKAGE_FORMAT_USAGE[packageFormat].en}
               </li>
               <li>
                 {currentLanguage === "zh"
@@ -227,11 +291,20 @@ export function LinuxConfig({
               {currentLanguage === "zh" ? "运行提示" : "Runtime Notice"}
             </h4>
             <ul className="text-sm text-muted-foreground space-y-1">
-              <li>
-                {currentLanguage === "zh"
-                  ? "• 首次运行可能需要添加执行权限：chmod +x ./appname"
-                  : "• May need to add execute permission: chmod +x ./appname"}
-              </li>
+              {packageFormat === "tar.gz" && (
+                <li>
+                  {currentLanguage === "zh"
+                    ? "• 首次运行可能需要添加执行权限：chmod +x ./appname"
+                    : "• May need to add execute permission: chmod +x ./appname"}
+                </li>
+              )}
+              {packageFormat === "appimage" && (
+                <li>
+                  {currentLanguage === "zh"
+                    ? "• 部分发行版需要安装 FUSE（libfuse2）才能运行 AppImage"
+                    : "• Some distros need FUSE (libfuse2) to run AppImages"}
+                </li>
+              )}
               <li>
                 {currentLanguage === "zh"
                   ? "• 需要 WebKit2GTK 运行时（大多数发行版已预装）"
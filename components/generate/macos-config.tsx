@@ -4,19 +4,52 @@ import { useLanguage } from "@/context/LanguageContext";
 import { useUploadConfig } from "@/hooks/useUploadConfig";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Package, Image, AlertTriangle, Apple, AlertCircle } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { MACOS_PACKAGE_FORMATS, getMacOSPackageLabel, type MacOSPackageFormat } from "@/lib/config/macos-packaging";
+import { Package, Image, AlertTriangle, Apple, AlertCircle, Archive } from "lucide-react";
+import type { DesktopShellConfig } from "@/lib/config/desktop-shell";
+import { DesktopShellConfigSection } from "./desktop-shell-config";
 import { useState, useRef } from "react";
 
 interface MacOSConfigProps {
   name: string;
   onNameChange: (value: string) => void;
   onIconChange: (file: File | null) => void;
+  packageFormat: MacOSPackageFormat;
+  onPackageFormatChange: (value: MacOSPackageFormat) => void;
+  dmgBackground: boolean;
+  onDmgBackgroundChange: (value: boolean) => void;
+  desktopConfig: DesktopShellConfig;
+  onDesktopConfigChange: (value: DesktopShellConfig) => void;
 }
 
+const PACKAGE_FORMAT_DESCRIPTIONS: Record<MacOSPackageFormat, { zh: string; en: string }> = {
+  zip: { zh: "解压后得到 .app", en: "Extract to get the .app" },
+  dmg: { zh: "磁盘映像，拖入「应用程序」安装", en: "Disk image, drag to Applications" },
+};
+
+// 各格式的安装方式
+const PACKAGE_FORMAT_USAGE: Record<MacOSPackageFormat, { zh: string; en: string }> = {
+  zip: {
+    zh: "• 下载 ZIP 文件后解压，双击 .app 文件即可运行",
+    en: "• Extract the ZIP file, double-click the .app to run",
+  },
+  dmg: {
+    zh: "• 双击打开 DMG，在弹出的窗口中将应用拖到「应用程序」图标上",
+    en: "• Open the DMG and drag the app onto the Applications icon in the window",
+  },
+};
+
 export function MacOSConfig({
   name,
   onNameChange,
   onIconChange,
+  packageFormat,
+  onPackageFormatChange,
+  dmgBackground,
+  onDmgBackgroundChange,
+  desktopConfig,
+  onDesktopConfigChange,
 }: MacOSConfigProps) {
   const { currentLanguage } = useLanguage();
   const { iconUploadEnabled, maxImageUploadMB, validateFileSize } = useUploadConfig();
@@ -189,6 +222,52 @@ export function MacOSConfig({
         />
       </div>
 
+      {/* Package Format */}
+      <div className="space-y-3">
+        <Label className="text-base font-medium text-foreground/80">
+          {currentLanguage === "zh" ? "安装包格式" : "Package Format"}
+        </Label>
+        <div className="grid grid-cols-2 gap-2">
+          {MACOS_PACKAGE_FORMATS.map((format) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => onPackageFormatChange(format)}
+              className={`rounded-xl border-2 p-3 text-left transition-all duration-200 ${
+                packageFormat === format
+                  ? "border-gray-500 bg-gray-500/10"
+                  : "border-border/50 hover:border-gray-500/50 hover:bg-gray-500/5"
+              }`}
+            >
+              <span className="flex items-center gap-1.5 text-sm font-medium">
+                <Archive className="h-3.5 w-3.5 text-gray-600 dark:text-gray-400" />
+                {getMacOSPackageLabel(format)}
+              </span>
+              <span className="mt-1 block text-xs text-muted-foreground">
+                {PACKAGE_FORMAT_DESCRIPTIONS[format][currentLanguage === "zh" ? "zh" : "en"]}
+              </span>
+            </button>
+          ))}
+        </div>
+        {packageFormat === "dmg" && (
+          <div className="flex items-center justify-between gap-4 rounded-xl border border-border/50 p-3">
+            <div>
+              <p className="text-sm font-medium">
+                {currentLanguage === "zh" ? "品牌背景图" : "Branded Background"}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {currentLanguage === "zh"
+                  ? "以图标主色生成 DMG 窗口背景，并带有指向「应用程序」的箭头"
+                  : "Window background in your icon's main color, with an arrow to Applications"}
+              </p>
+            </div>
+            <Switch checked={dmgBackground} onCheckedChange={onDmgBackgroundChange} />
+          </div>
+        )}
+      </div>
+
+      <DesktopShellConfigSection value={desktopConfig} onChange={onDesktopConfigChange} />
+
       {/* Info Box - Usage Guide */}
       <div className="rounded-xl bg-gray-500/10 border border-gray-500/20 p-4">
         <div className="flex items-start gap-3">
@@ -200,14 +279,16 @@ export function MacOSConfig({
             <ul className="text-sm text-muted-foreground space-y-1">
               <li>
                 {currentLanguage === "zh"
-                  ? "• 下载 ZIP 文件后解压，双击 .app 文件即可运行"
-                  : "• Extract the ZIP file, double-click the .app to run"}
-              </li>
-              <li>
-                {currentLanguage === "zh"
-                  ? "• 可将 .app 拖入「应用程序」文件夹安装"
-                  : "• Drag .app to Applications folder to install"}
+                  ? PACKAGE_FORMAT_USAGE[packageFormat].zh
+                  : PACKAGE_FORMAT_USAGE[packageFormat].en}
               </li>
+              {packageFormat === "zip" && (
+                <li>
+                  {currentLanguage === "zh"
+                    ? "• 可将 .app 拖入「应用程序」文件夹安装"
+                    : "• Drag .app to Applications folder to install"}
+                </li>
+              )}
               <li>
                 {currentLanguage === "zh"
                   ? "• 基于 Tauri 构建，体积小巧（约 5-8MB）"
@@ -0,0 +1,372 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { useLanguage } from "@/context/LanguageContext";
+import { useUploadConfig } from "@/hooks/useUploadConfig";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  MAX_WEB_VIEW_DOMAINS,
+  isMiniProgramAppId,
+  type MiniProgramConfig,
+  type MiniProgramPlatform,
+} from "@/lib/config/mini-program";
+import { Package, Hash, Tag, Globe, Upload, X, AlertCircle, Wallet, Bookmark } from "lucide-react";
+
+interface MiniProgramConfigProps {
+  name: string;
+  appId: string;
+  version: string;
+  miniProgramConfig: MiniProgramConfig;
+  onNameChange: (value: string) => void;
+  onAppIdChange: (value: string) => void;
+  onVersionChange: (value: string) => void;
+  onIconChange: (file: File | null) => void;
+  onMiniProgramConfigChange: (value: MiniProgramConfig) => void;
+}
+
+// Tailwind 需要完整的类名，按平台分别列出
+const PLATFORM_STYLES: Record<MiniProgramPlatform, {
+  icon: typeof Wallet;
+  iconBox: string;
+  iconColor: string;
+  focusText: string;
+  focusInput: string;
+  uploadHover: string;
+  infoBox: string;
+  infoTitle: string;
+}> = {
+  alipay: {
+    icon: Wallet,
+    iconBox: "from-blue-400/20 to-blue-500/20",
+    iconColor: "text-blue-500",
+    focusText: "group-focus-within:text-blue-500",
+    focusInput: "focus:border-blue-500 focus:ring-4 focus:ring-blue-500/20",
+    uploadHover: "hover:border-blue-500 hover:bg-blue-500/5",
+    infoBox: "bg-blue-500/5 border-blue-500/20",
+    infoTitle: "text-blue-600",
+  },
+  xiaohongshu: {
+    icon: Bookmark,
+    iconBox: "from-red-400/20 to-pink-500/20",
+    iconColor: "text-red-500",
+    focusText: "group-focus-within:text-red-500",
+    focusInput: "focus:border-red-500 focus:ring-4 focus:ring-red-500/20",
+    uploadHover: "hover:border-red-500 hover:bg-red-500/5",
+    infoBox: "bg-red-500/5 border-red-500/20",
+    infoTitle: "text-red-600",
+  },
+};
+
+const PLATFORM_TEXTS: Record<MiniProgramPlatform, {
+  title: { zh: string; en: string };
+  console: { zh: string; en: string };
+  appIdPlaceholder: string;
+  appIdFormat: { zh: string; en: string };
+  devTools: { zh: string; en: string };
+  logoSize: number;
+}> = {
+  alipay: {
+    title: { zh: "支付宝小程序", en: "Alipay Mini Program" },
+    console: { zh: "支付宝开放平台", en: "Alipay Open Platform" },
+    appIdPlaceholder: "2021001234567890",
+    appIdFormat: { zh: "以 20 开头的 16 位数字", en: "16 digits starting with 20" },
+    devTools: { zh: "支付宝小程序开发者工具", en: "Alipay Mini Program Studio" },
+    logoSize: 180,
+  },
+  xiaohongshu: {
+    title: { zh: "小红书小程序", en: "Xiaohongshu Mini Program" },
+    console: { zh: "小红书开放平台", en: "Xiaohongshu Open Platform" },
+    appIdPlaceholder: "xhs1234567890abcd",
+    appIdFormat: { zh: "8 - 32 位字母或数字", en: "8 - 32 letters or digits" },
+    devTools: { zh: "小红书小程序开发者工具", en: "Xiaohongshu Mini Program DevTools" },
+    logoSize: 144,
+  },
+};
+
+/**
+ * 去掉空行后的小程序配置，没有额外域名时返回 undefined（不提交）
+ */
+export function normalizeMiniProgramConfig(value: MiniProgramConfig): MiniProgramConfig | undefined {
+  const webViewDomains = value.webViewDomains.map((domain) => domain.trim()).filter(Boolean);
+  if (webViewDomains.length === 0) return undefined;
+  return { webViewDomains };
+}
+
+export function AlipayConfig(props: MiniProgramConfigProps) {
+  return <MiniProgramConfigForm platform="alipay" {...props} />;
+}
+
+export function XiaohongshuConfig(props: MiniProgramConfigProps) {
+  return <MiniProgramConfigForm platform="xiaohongshu" {...props} />;
+}
+
+function MiniProgramConfigForm({
+  platform,
+  name,
+  appId,
+  version,
+  miniProgramConfig,
+  onNameChange,
+  onAppIdChange,
+  onVersionChange,
+  onIconChange,
+  onMiniProgramConfigChange,
+}: MiniProgramConfigProps & { platform: MiniProgramPlatform }) {
+  const { currentLanguage } = useLanguage();
+  const { iconUploadEnabled, maxImageUploadMB, validateFileSize } = useUploadConfig();
+  const [iconPreview, setIconPreview] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const styles = PLATFORM_STYLES[platform];
+  const texts = PLATFORM_TEXTS[platform];
+  const PlatformIcon = styles.icon;
+  const appIdValid = !appId || isMiniProgramAppId(platform, appId);
+
+  const handleIconUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const validation = validateFileSize(file);
+      if (!validation.valid) {
+        setUploadError(
+          currentLanguage === "zh"
+            ? `文件大小 (${(file.size / (1024 * 1024)).toFixed(2)}MB) 超过限制 (${maxImageUploadMB}MB)`
+            : validation.error || "File too large"
+        );
+        // 清除之前选择的文件，防止提交无效文件
+        onIconChange(null);
+        setIconPreview(null);
+        if (fileInputRef.current) fileInputRef.current.value = "";
+        return;
+      }
+      setUploadError(null);
+      onIconChange(file);
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        setIconPreview(reader.result as string);
+      };
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const removeIcon = () => {
+    setIconPreview(null);
+    setUploadError(null);
+    onIconChange(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-4">
+        <div className={`w-8 h-8 sm:w-10 sm:h-10 rounded-lg sm:rounded-xl bg-gradient-to-br ${styles.iconBox} flex items-center justify-center`}>
+          <PlatformIcon className={`h-4 w-4 sm:h-5 sm:w-5 ${styles.iconColor}`} />
+        </div>
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold">
+            {currentLanguage === "zh" ? `${texts.title.zh}配置` : `${texts.title.en} Configuration`}
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {currentLanguage === "zh"
+              ? `配置您的${texts.title.zh}基本信息`
+              : `Configure your ${texts.title.en} settings`}
+          </p>
+        </div>
+      </div>
+
+      {/* Logo & Name Row */}
+      <div className="flex flex-col md:flex-row gap-4 sm:gap-6">
+        {/* Logo */}
+        <div className="shrink-0">
+          <Label className="text-base font-medium text-foreground/80 mb-3 block">
+            {currentLanguage === "zh" ? "小程序 Logo" : "Logo"}
+          </Label>
+          {!iconUploadEnabled ? (
+            <div className="w-24 h-24 rounded-2xl border-2 border-dashed border-border/30 bg-muted/30 flex flex-col items-center justify-center">
+              <AlertCircle className="h-4 w-4 sm:h-5 sm:w-5 text-muted-foreground/50 mb-1" />
+              <span className="text-xs text-muted-foreground/50">
+                {currentLanguage === "zh" ? "已禁用" : "Disabled"}
+              </span>
+            </div>
+          ) : iconPreview ? (
+            <div className="relative group">
+              <div className="w-24 h-24 rounded-2xl overflow-hidden border-2 border-border/50 shadow-lg">
+                <img
+                  src={iconPreview}
+                  alt="Mini program logo preview"
+                  className="w-full h-full object-cover"
+                />
+              </div>
+              <button
+                type="button"
+                onClick={removeIcon}
+                className="absolute -top-2 -right-2 w-7 h-7 rounded-full bg-red-500 text-white flex items-center justify-center shadow-lg hover:bg-red-600 hover:scale-110 transition-all opacity-0 group-hover:opacity-100"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ) : (
+            <label className={`flex flex-col items-center justify-center w-24 h-24 rounded-2xl border-2 border-dashed border-border/50 cursor-pointer transition-all duration-200 bg-background/50 group ${styles.uploadHover}`}>
+              <div className={`w-8 h-8 sm:w-10 sm:h-10 rounded-lg sm:rounded-xl bg-gradient-to-br ${styles.iconBox} flex items-center justify-center mb-1`}>
+                <Upload className={`h-4 w-4 sm:h-5 sm:w-5 ${styles.iconColor}`} />
+              </div>
+              <span className="text-xs text-muted-foreground">
+                {currentLanguage === "zh" ? "上传" : "Upload"}
+              </span>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/png,image/jpeg,image/jpg"
+                className="hidden"
+                onChange={handleIconUpload}
+              />
+            </label>
+          )}
+          {uploadError && (
+            <p className="text-xs text-red-500 mt-2 flex items-center gap-1">
+              <AlertCircle className="h-3 w-3" />
+              {uploadError}
+            </p>
+          )}
+          {iconUploadEnabled && !uploadError && (
+            <p className="text-xs text-muted-foreground mt-2">
+              {currentLanguage === "zh"
+                ? `输出 ${texts.logoSize}x${texts.logoSize} PNG (最大 ${maxImageUploadMB}MB)`
+                : `Exported as ${texts.logoSize}x${texts.logoSize} PNG (max ${maxImageUploadMB}MB)`}
+            </p>
+          )}
+        </div>
+
+        {/* App Name */}
+        <div className="flex-1 space-y-3">
+          <Label htmlFor={`${platform}AppName`} className="text-base font-medium text-foreground/80">
+            {currentLanguage === "zh" ? "小程序名称" : "Mini Program Name"} <span className="text-red-500">*</span>
+          </Label>
+          <div className="relative group">
+            <div className={`absolute left-4 top-1/2 -translate-y-1/2 text-muted-foreground transition-colors ${styles.focusText}`}>
+              <Package className="h-5 w-5" />
+            </div>
+            <Input
+              id={`${platform}AppName`}
+              type="text"
+              placeholder={currentLanguage === "zh" ? "输入小程序名称" : "Enter mini program name"}
+              value={name}
+              onChange={(e) => onNameChange(e.target.value)}
+              className={`h-12 sm:h-14 pl-10 sm:pl-12 text-sm sm:text-base rounded-xl border-2 border-border/50 bg-background/50 backdrop-blur-sm transition-all duration-200 ${styles.focusInput}`}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* AppID */}
+      <div className="space-y-3">
+        <Label htmlFor={`${platform}AppId`} className="text-base font-medium text-foreground/80">
+          AppID <span className="text-red-500">*</span>
+        </Label>
+        <div className="relative group">
+          <div className={`absolute left-4 top-1/2 -translate-y-1/2 text-muted-foreground transition-colors ${styles.focusText}`}>
+            <Hash className="h-5 w-5" />
+          </div>
+          <Input
+            id={`${platform}AppId`}
+            type="text"
+            placeholder={texts.appIdPlaceholder}
+            value={appId}
+            onChange={(e) => onAppIdChange(e.target.value.trim())}
+            className={`h-12 sm:h-14 pl-10 sm:pl-12 text-sm sm:text-base rounded-xl border-2 bg-background/50 backdrop-blur-sm transition-all duration-200 ${
+              appIdValid
+                ? `border-border/50 ${styles.focusInput}`
+                : "border-red-500 focus:border-red-500 focus:ring-4 focus:ring-red-500/20"
+            }`}
+          />
+        </div>
+        {!appIdValid && (
+          <p className="text-xs text-red-500">
+            {currentLanguage === "zh"
+              ? `AppID 格式不正确，应为${texts.appIdFormat.zh}`
+              : `Invalid format. Should be ${texts.appIdFormat.en}`}
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {currentLanguage === "zh"
+            ? `在${texts.console.zh}获取的小程序 AppID`
+            : `Get your AppID from ${texts.console.en}`}
+        </p>
+      </div>
+
+      {/* Version */}
+      <div className="space-y-3">
+        <Label htmlFor={`${platform}Version`} className="text-base font-medium text-foreground/80">
+          {currentLanguage === "zh" ? "版本号" : "Version"} <span className="text-red-500">*</span>
+        </Label>
+        <div className="relative group">
+          <div className={`absolute left-4 top-1/2 -translate-y-1/2 text-muted-foreground transition-colors ${styles.focusText}`}>
+            <Tag className="h-5 w-5" />
+          </div>
+          <Input
+            id={`${platform}Version`}
+            type="text"
+            placeholder="1.0.0"
+            value={version}
+            onChange={(e) => onVersionChange(e.target.value)}
+            className={`h-12 sm:h-14 pl-10 sm:pl-12 text-sm sm:text-base rounded-xl border-2 border-border/50 bg-background/50 backdrop-blur-sm transition-all duration-200 ${styles.focusInput}`}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {currentLanguage === "zh"
+            ? "小程序版本号，格式为 x.y.z，如 1.0.0"
+            : "Mini Program version in x.y.z format, e.g. 1.0.0"}
+        </p>
+      </div>
+
+      {/* Web-view Domains */}
+      <div className="space-y-3">
+        <Label htmlFor={`${platform}WebViewDomains`} className="flex items-center gap-2 text-base font-medium text-foreground/80">
+          <Globe className={`h-4 w-4 ${styles.iconColor}`} />
+          {currentLanguage === "zh" ? "其他业务域名（每行一个）" : "Additional web-view domains (one per line)"}
+        </Label>
+        <Textarea
+          id={`${platform}WebViewDomains`}
+          placeholder={"pay.example.com\ncdn.example.com"}
+          value={miniProgramConfig.webViewDomains.join("\n")}
+          onChange={(e) => onMiniProgramConfigChange({ webViewDomains: e.target.value.split("\n") })}
+          className={`min-h-[80px] resize-none text-sm rounded-lg border-2 border-border/50 bg-background/50 font-mono transition-all duration-200 ${styles.focusInput}`}
+        />
+        <p className="text-xs text-muted-foreground">
+          {currentLanguage === "zh"
+            ? `网址所在域名会自动加入；网页内跳转到的其他域名填写在这里（最多 ${MAX_WEB_VIEW_DOMAINS} 个）`
+            : `The domain of your URL is added automatically. List other domains your pages navigate to (up to ${MAX_WEB_VIEW_DOMAINS})`}
+        </p>
+      </div>
+
+      {/* Info Box */}
+      <div className={`rounded-xl border p-4 ${styles.infoBox}`}>
+        <h4 className={`font-medium mb-2 ${styles.infoTitle}`}>
+          {currentLanguage === "zh" ? "注意事项" : "Important Notes"}
+        </h4>
+        <ul className="text-sm text-muted-foreground space-y-1">
+          <li>
+            {currentLanguage === "zh"
+              ? `• 以上所有域名都需要在${texts.console.zh}配置为 web-view 业务域名`
+              : `• All domains above must be added as web-view domains in ${texts.console.en}`}
+          </li>
+          <li>
+            {currentLanguage === "zh"
+              ? "• 所有内嵌网页必须使用 HTTPS 协议"
+              : "• All embedded pages must use HTTPS protocol"}
+          </li>
+          <li>
+            {currentLanguage === "zh"
+              ? `• 下载后需要使用${texts.devTools.zh}打开并上传`
+              : `• After download, use ${texts.devTools.en} to open and upload`}
+          </li>
+        </ul>
+      </div>
+    </div>
+  );
+}
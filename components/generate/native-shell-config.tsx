@@ -0,0 +1,187 @@
+"use client";
+
+import { useLanguage } from "@/context/LanguageContext";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Trash2, Globe } from "lucide-react";
+import type { NativeShellConfig, NativeShellLinkRule } from "@/lib/config/native-shell";
+
+interface NativeShellConfigProps {
+  value: NativeShellConfig;
+  onChange: (value: NativeShellConfig) => void;
+}
+
+const inputClassName =
+  "h-10 text-sm rounded-lg border-2 border-border/50 bg-background/50 focus:border-blue-500 focus:ring-4 focus:ring-blue-500/20 transition-all duration-200";
+
+/**
+ * 移动端通用行为配置（Android / iOS / HarmonyOS 共用）
+ */
+export function NativeShellConfigSection({ value, onChange }: NativeShellConfigProps) {
+  const { currentLanguage } = useLanguage();
+  const isZh = currentLanguage === "zh";
+
+  const update = (patch: Partial<NativeShellConfig>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="w-8 h-8 sm:w-10 sm:h-10 rounded-lg sm:rounded-xl bg-gradient-to-br from-blue-500/20 to-cyan-500/20 flex items-center justify-center">
+          <Globe className="h-4 w-4 sm:h-5 sm:w-5 text-blue-500" />
+        </div>
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold">
+            {isZh ? "移动端通用行为" : "Mobile App Behavior"}
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {isZh
+              ? "同时应用于 Android、iOS 和 HarmonyOS"
+              : "Applied to Android, iOS and HarmonyOS"}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <ToggleRow
+          label={isZh ? "下拉刷新" : "Pull to refresh"}
+          checked={value.pullToRefresh ?? false}
+          onChange={(checked) => update({ pullToRefresh: checked })}
+        />
+        <ToggleRow
+          label={isZh ? "网络异常时显示离线页" : "Show offline page"}
+          checked={value.showOfflinePage ?? true}
+          onChange={(checked) => update({ showOfflinePage: checked })}
+        />
+        <div className="flex items-center justify-between gap-3 rounded-lg border border-border/50 px-3 py-2">
+          <Label htmlFor="shellOfflineTimeout" className="text-sm">
+            {isZh ? "离线判定时间（秒）" : "Offline timeout (s)"}
+          </Label>
+          <Input
+            id="shellOfflineTimeout"
+            type="number"
+            min="1"
+            max="120"
+            placeholder="10"
+            value={value.offlineTimeoutSeconds ?? ""}
+            onChange={(e) =>
+              update({ offlineTimeoutSeconds: e.target.value ? parseInt(e.target.value, 10) : undefined })
+            }
+            className="h-8 w-20 text-sm"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-3 rounded-lg border border-border/50 px-3 py-2">
+          <Label htmlFor="shellUserAgentSuffix" className="text-sm">
+            {isZh ? "UA 后缀" : "User agent suffix"}
+          </Label>
+          <Input
+            id="shellUserAgentSuffix"
+            placeholder="MyApp/1.0"
+            value={value.userAgentSuffix ?? ""}
+            onChange={(e) => update({ userAgentSuffix: e.target.value || undefined })}
+            className="h-8 w-40 text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="shellUserAgent" className="text-sm">
+          {isZh ? "自定义 User-Agent（可选，完整替换）" : "Custom user agent (optional, replaces default)"}
+        </Label>
+        <Input
+          id="shellUserAgent"
+          placeholder="Mozilla/5.0 ..."
+          value={value.userAgent ?? ""}
+          onChange={(e) => update({ userAgent: e.target.value || undefined })}
+          className={`${inputClassName} font-mono`}
+        />
+      </div>
+
+      <LinkRulesEditor rules={value.linkRules || []} onChange={(linkRules) => update({ linkRules })} />
+    </div>
+  );
+}
+
+export function ToggleRow({
+  label,
+  checked,
+  onChange,
+}: {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <label className="flex items-center justify-between gap-3 rounded-lg border border-border/50 px-3 py-2 cursor-pointer">
+      <span className="text-sm">{label}</span>
+      <Switch checked={checked} onCheckedChange={onChange} />
+    </label>
+  );
+}
+
+function LinkRulesEditor({
+  rules,
+  onChange,
+}: {
+  rules: NativeShellLinkRule[];
+  onChange: (rules: NativeShellLinkRule[]) => void;
+}) {
+  const { currentLanguage } = useLanguage();
+  const isZh = currentLanguage === "zh";
+
+  const updateRule = (index: number, patch: Partial<NativeShellLinkRule>) =>
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 p-3">
+      <div>
+        <span className="text-sm font-medium">{isZh ? "链接打开方式" : "Link handling"}</span>
+        <p className="text-xs text-muted-foreground">
+          {isZh
+            ? "按正则匹配链接，优先于内置规则（应用内 / 外部浏览器 / 应用内浏览器）"
+            : "Match links by regex, evaluated before built-in rules (internal / external / in-app browser)"}
+        </p>
+      </div>
+      {rules.map((rule, index) => (
+        <div key={index} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_auto] gap-2">
+          <Input
+            placeholder="https?://example\.com/.*"
+            value={rule.regex}
+            onChange={(e) => updateRule(index, { regex: e.target.value })}
+            className={`${inputClassName} font-mono`}
+          />
+          <select
+            value={rule.mode}
+            onChange={(e) => updateRule(index, { mode: e.target.value as NativeShellLinkRule["mode"] })}
+            className="h-10 rounded-lg border-2 border-border/50 bg-background px-2 text-sm"
+          >
+            <option value="internal">{isZh ? "应用内" : "Internal"}</option>
+            <option value="external">{isZh ? "外部浏览器" : "External"}</option>
+            <option value="appbrowser">{isZh ? "应用内浏览器" : "In-app browser"}</option>
+          </select>
+          <Input
+            placeholder={isZh ? "备注" : "Label"}
+            value={rule.label || ""}
+            onChange={(e) => updateRule(index, { label: e.target.value || undefined })}
+            className={inputClassName}
+          />
+          <button
+            type="button"
+            onClick={() => onChange(rules.filter((_, i) => i !== index))}
+            className="h-10 w-10 flex items-center justify-center rounded-lg text-muted-foreground hover:text-red-500 hover:bg-red-500/10 transition-colors"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...rules, { regex: "", mode: "internal" }])}
+        className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400"
+      >
+        <Plus className="h-4 w-4" />
+        {isZh ? "添加规则" : "Add rule"}
+      </button>
+    </div>
+  );
+}
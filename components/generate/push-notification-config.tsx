@@ -0,0 +1,156 @@
+"use client";
+
+import { useRef } from "react";
+import { useLanguage } from "@/context/LanguageContext";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Bell, Upload, X } from "lucide-react";
+import type { PushConfig } from "@/lib/config/push-notifications";
+
+interface PushNotificationConfigProps {
+  value: PushConfig;
+  onChange: (value: PushConfig) => void;
+}
+
+const inputClassName =
+  "h-10 text-sm rounded-lg border-2 border-border/50 bg-background/50 focus:border-purple-500 focus:ring-4 focus:ring-purple-500/20 transition-all duration-200";
+
+/**
+ * 推送通知配置（Android / iOS / HarmonyOS 共用）
+ * FCM 配置文件在浏览器端读成文本，随构建请求一起提交
+ */
+export function PushNotificationConfig({ value, onChange }: PushNotificationConfigProps) {
+  const { currentLanguage } = useLanguage();
+  const isZh = currentLanguage === "zh";
+
+  const update = (patch: Partial<PushConfig>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="w-8 h-8 sm:w-10 sm:h-10 rounded-lg sm:rounded-xl bg-gradient-to-br from-purple-500/20 to-pink-500/20 flex items-center justify-center">
+          <Bell className="h-4 w-4 sm:h-5 sm:w-5 text-purple-500" />
+        </div>
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold">
+            {isZh ? "推送通知" : "Push Notifications"}
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {isZh
+              ? "可选，HarmonyOS 仅记录所选服务"
+              : "Optional. HarmonyOS only records the selected provider"}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex rounded-lg border border-border/50 p-0.5 w-fit">
+        {(["none", "onesignal", "fcm"] as const).map((provider) => (
+          <button
+            key={provider}
+            type="button"
+            onClick={() => update({ provider })}
+            className={`px-3 py-1 text-sm rounded-md transition-colors ${
+              value.provider === provider
+                ? "bg-purple-500 text-white"
+                : "text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            {provider === "none" ? (isZh ? "不启用" : "None") : provider === "onesignal" ? "OneSignal" : "Firebase (FCM)"}
+          </button>
+        ))}
+      </div>
+
+      {value.provider === "onesignal" && (
+        <div className="space-y-2">
+          <Label htmlFor="oneSignalAppId" className="text-sm">
+            OneSignal App ID
+          </Label>
+          <Input
+            id="oneSignalAppId"
+            placeholder="xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx"
+            value={value.oneSignalAppId ?? ""}
+            onChange={(e) => update({ oneSignalAppId: e.target.value || undefined })}
+            className={`${inputClassName} font-mono`}
+          />
+        </div>
+      )}
+
+      {value.provider === "fcm" && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            {isZh
+              ? "从 Firebase 控制台下载配置文件，只上传需要的平台即可"
+              : "Download the config files from the Firebase console. Upload only the platforms you need"}
+          </p>
+          <ConfigFileInput
+            label="google-services.json (Android)"
+            accept=".json,application/json"
+            content={value.googleServicesJson}
+            onChange={(googleServicesJson) => update({ googleServicesJson })}
+          />
+          <ConfigFileInput
+            label="GoogleService-Info.plist (iOS)"
+            accept=".plist"
+            content={value.googleServiceInfoPlist}
+            onChange={(googleServiceInfoPlist) => update({ googleServiceInfoPlist })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ConfigFileInput({
+  label,
+  accept,
+  content,
+  onChange,
+}: {
+  label: string;
+  accept: string;
+  content: string | undefined;
+  onChange: (content: string | undefined) => void;
+}) {
+  const { currentLanguage } = useLanguage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isZh = currentLanguage === "zh";
+
+  const handleFile = async (file: File | undefined) => {
+    onChange(file ? await file.text() : undefined);
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-3 rounded-lg border border-border/50 px-3 py-2">
+      <span className="text-sm font-mono">{label}</span>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={accept}
+        className="hidden"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      {content ? (
+        <button
+          type="button"
+          onClick={() => {
+            onChange(undefined);
+            if (fileInputRef.current) fileInputRef.current.value = "";
+          }}
+          className="flex items-center gap-1 text-sm text-muted-foreground hover:text-red-500"
+        >
+          {isZh ? "已上传" : "Uploaded"}
+          <X className="h-4 w-4" />
+        </button>
+      ) : (
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 text-sm text-purple-600 hover:text-purple-700 dark:text-purple-400"
+        >
+          <Upload className="h-4 w-4" />
+          {isZh ? "上传" : "Upload"}
+        </button>
+      )}
+    </div>
+  );
+}
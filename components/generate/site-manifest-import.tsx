@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useLanguage } from "@/context/LanguageContext";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, Sparkles } from "lucide-react";
+import type { SiteManifestResult } from "@/lib/config/site-manifest";
+import { fetchSiteManifest, siteIconToFile } from "@/lib/site-manifest/client";
+
+export interface SiteImportSelection {
+  name: string | null;
+  themeColor: string | null;
+  icon: File | null;
+}
+
+interface SiteManifestImportProps {
+  url: string;
+  onApply: (selection: SiteImportSelection) => void | Promise<void>;
+}
+
+type ImportField = "name" | "themeColor" | "icon";
+
+/**
+ * 从网站导入：读取网页标题、主题色、manifest 和图标，勾选后作为各平台配置的默认值
+ */
+export function SiteManifestImport({ url, onApply }: SiteManifestImportProps) {
+  const { currentLanguage } = useLanguage();
+  const isZh = currentLanguage === "zh";
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [site, setSite] = useState<SiteManifestResult | null>(null);
+  const [selected, setSelected] = useState<Record<ImportField, boolean>>({ name: true, themeColor: true, icon: true });
+
+  // 网址变化后之前的结果不再适用
+  useEffect(() => {
+    setSite(null);
+  }, [url]);
+
+  const handleImport = async () => {
+    setIsLoading(true);
+    try {
+      const result = await fetchSiteManifest(url);
+      setSite(result);
+      setSelected({ name: !!result.name, themeColor: !!result.themeColor, icon: !!result.icon });
+    } catch (error) {
+      console.error("[Site Import] Failed to import website:", error);
+      toast.error(
+        isZh
+          ? `无法读取网站信息: ${error instanceof Error ? error.message : "未知错误"}`
+          : `Could not read the website: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!site) return;
+    setIsApplying(true);
+    try {
+      await onApply({
+        name: selected.name ? site.name : null,
+        themeColor: selected.themeColor ? site.themeColor : null,
+        icon: selected.icon && site.icon ? await siteIconToFile(site.icon) : null,
+      });
+      setSite(null);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const fields: Array<{ key: ImportField; label: string; available: boolean; content: React.ReactNode }> = site
+    ? [
+        {
+          key: "name",
+          label: isZh ? "应用名称" : "App name",
+          available: !!site.name,
+          content: <span className="truncate">{site.name}</span>,
+        },
+        {
+          key: "themeColor",
+          label: isZh ? "主题色" : "Theme color",
+          available: !!site.themeColor,
+          content: (
+            <span className="flex items-center gap-2">
+              <span className="h-4 w-4 rounded border border-border" style={{ backgroundColor: site.themeColor || undefined }} />
+              <span className="font-mono text-xs">{site.themeColor}</span>
+            </span>
+          ),
+        },
+        {
+          key: "icon",
+          label: isZh ? "图标" : "Icon",
+          available: !!site.icon,
+          content: site.icon && (
+            <span className="flex items-center gap-2">
+              <img src={site.icon.dataUrl} alt="" className="h-8 w-8 rounded-md border border-border object-contain" />
+              <span className="text-xs text-muted-foreground">
+                {site.icon.width}×{site.icon.height}
+              </span>
+            </span>
+          ),
+        },
+      ]
+    : [];
+  const hasSelection = fields.some((field) => field.available && selected[field.key]);
+
+  return (
+    <div className="space-y-3">
+      <Button type="button" variant="outline" size="sm" onClick={handleImport} disabled={isLoading}>
+        {isLoading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+        {isZh ? "从网站导入名称、主题色和图标" : "Import name, theme color and icon from site"}
+      </Button>
+
+      {site && (
+        <div className="rounded-xl border border-border/50 bg-muted/30 p-4 space-y-3">
+          {fields.every((field) => !field.available) ? (
+            <p className="text-sm text-muted-foreground">
+              {isZh ? "没有在网站中找到可导入的信息" : "Nothing to import was found on this site"}
+            </p>
+          ) : (
+            fields
+              .filter((field) => field.available)
+              .map((field) => (
+                <label key={field.key} className="flex items-center gap-3 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={selected[field.key]}
+                    onCheckedChange={(checked) => setSelected((prev) => ({ ...prev, [field.key]: checked === true }))}
+                  />
+                  <span className="w-20 shrink-0 text-muted-foreground">{field.label}</span>
+                  <span className="min-w-0 flex-1 flex items-center">{field.content}</span>
+                </label>
+              ))
+          )}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setSite(null)}>
+              {isZh ? "取消" : "Cancel"}
+            </Button>
+            <Button type="button" size="sm" onClick={handleApply} disabled={!hasSelection || isApplying}>
+              {isApplying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isZh ? "应用到所有平台" : "Apply to all platforms"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
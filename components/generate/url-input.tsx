@@ -5,13 +5,24 @@ import { useLanguage } from "@/context/LanguageContext";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Globe, AlertCircle, CheckCircle2 } from "lucide-react";
+import { SiteManifestImport, type SiteImportSelection } from "./site-manifest-import";
 
 interface UrlInputProps {
   value: string;
   onChange: (value: string) => void;
+  // 提供时显示「从网站导入」（需要登录）
+  onSiteImport?: (selection: SiteImportSelection) => void | Promise<void>;
 }
 
-export function UrlInput({ value, onChange }: UrlInputProps) {
+function isHttpUrl(value: string) {
+  try {
+    return /^https?:$/.test(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+export function UrlInput({ value, onChange, onSiteImport }: UrlInputProps) {
   const { t, currentLanguage } = useLanguage();
   const [isValid, setIsValid] = useState<boolean | null>(null);
 
@@ -78,6 +89,7 @@ export function UrlInput({ value, onChange }: UrlInputProps) {
           t("generate.url.helper")
         )}
       </p>
+      {onSiteImport && isHttpUrl(value) && <SiteManifestImport url={value} onApply={onSiteImport} />}
     </div>
   );
 }
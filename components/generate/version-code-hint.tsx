@@ -0,0 +1,54 @@
+"use client";
+
+import { useLanguage } from "@/context/LanguageContext";
+import { AlertCircle } from "lucide-react";
+import { isVersionCodeReused } from "@/lib/config/version-codes";
+
+interface VersionCodeHintProps {
+  value: string;
+  // 登录用户留空时由服务端自动递增（游客构建不跟踪版本号）
+  autoIncrement: boolean;
+  // 该包名上次发放的版本号，未构建过时为 null
+  lastVersionCode: number | null;
+}
+
+/**
+ * 构建号说明
+ * 留空时显示将自动使用的值；手动填写不高于上次构建的值时提示应用商店会拒绝
+ */
+export function VersionCodeHint({ value, autoIncrement, lastVersionCode }: VersionCodeHintProps) {
+  const { currentLanguage } = useLanguage();
+  const isZh = currentLanguage === "zh";
+
+  if (autoIncrement && isVersionCodeReused(value, lastVersionCode)) {
+    return (
+      <p className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400">
+        <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+        {isZh
+          ? `不高于上次构建的 ${lastVersionCode}，应用商店会拒绝重复或更小的构建号`
+          : `Not higher than the last build (${lastVersionCode}); stores reject reused or lower build numbers`}
+      </p>
+    );
+  }
+
+  if (autoIncrement && !value.trim()) {
+    const next = (lastVersionCode ?? 0) + 1;
+    return (
+      <p className="text-xs text-muted-foreground">
+        {isZh
+          ? lastVersionCode !== null
+            ? `留空自动递增：上次为 ${lastVersionCode}，本次将使用 ${next}`
+            : `留空自动递增：本次将使用 ${next}`
+          : lastVersionCode !== null
+            ? `Leave empty to auto-increment: last was ${lastVersionCode}, this build uses ${next}`
+            : `Leave empty to auto-increment: this build uses ${next}`}
+      </p>
+    );
+  }
+
+  return (
+    <p className="text-xs text-muted-foreground">
+      {isZh ? "整数构建号，每次更新递增" : "Integer build number, increment on each update"}
+    </p>
+  );
+}
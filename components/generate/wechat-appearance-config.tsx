@@ -0,0 +1,432 @@
+"use client";
+
+import { useLanguage } from "@/context/LanguageContext";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Globe, LayoutGrid, Palette, Plus, Share2, Trash2, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import { MAX_WEB_VIEW_DOMAINS } from "@/lib/config/mini-program";
+import {
+  MAX_SHARE_IMAGE_BYTES,
+  MAX_SHARE_TITLE_LENGTH,
+  MAX_TAB_BAR_ITEMS,
+  MAX_TAB_ICON_BYTES,
+  MAX_TAB_TEXT_LENGTH,
+  MIN_TAB_BAR_ITEMS,
+  TAB_ICON_SIZE,
+  type WechatMiniProgramConfig,
+} from "@/lib/config/wechat-mini-program";
+
+interface WechatTabItemState {
+  text: string;
+  url: string;
+  icon?: string;
+  selectedIcon?: string;
+}
+
+export interface WechatAppearanceState {
+  webViewDomains: string[];
+  navigationBarEnabled: boolean;
+  navigationBar: { backgroundColor: string; textStyle: "black" | "white" };
+  tabBarEnabled: boolean;
+  tabBar: {
+    color: string;
+    selectedColor: string;
+    backgroundColor: string;
+    borderStyle: "black" | "white";
+    items: WechatTabItemState[];
+  };
+  shareTitle: string;
+  shareImage?: string;
+}
+
+export const DEFAULT_WECHAT_APPEARANCE: WechatAppearanceState = {
+  webViewDomains: [],
+  navigationBarEnabled: false,
+  navigationBar: { backgroundColor: "#ffffff", textStyle: "black" },
+  tabBarEnabled: false,
+  tabBar: {
+    color: "#7a7e83",
+    selectedColor: "#07c160",
+    backgroundColor: "#ffffff",
+    borderStyle: "black",
+    items: [
+      { text: "", url: "" },
+      { text: "", url: "" },
+    ],
+  },
+  shareTitle: "",
+};
+
+/**
+ * 转换为提交给构建 API 的 wechatConfig，未做任何配置时返回 undefined（不提交）
+ */
+export function toWechatMiniProgramConfig(state: WechatAppearanceState): WechatMiniProgramConfig | undefined {
+  const webViewDomains = state.webViewDomains.map((domain) => domain.trim()).filter(Boolean);
+  const shareTitle = state.shareTitle.trim();
+  const config: WechatMiniProgramConfig = {
+    webViewDomains,
+    ...(state.navigationBarEnabled && { navigationBar: state.navigationBar }),
+    ...(state.tabBarEnabled && {
+      tabBar: {
+        ...state.tabBar,
+        items: state.tabBar.items.map((item) => ({
+          text: item.text.trim(),
+          ...(item.url.trim() && { url: item.url.trim() }),
+          ...(item.icon && { icon: item.icon }),
+          ...(item.selectedIcon && { selectedIcon: item.selectedIcon }),
+        })),
+      },
+    }),
+    ...((shareTitle || state.shareImage) && {
+      share: { title: shareTitle, ...(state.shareImage && { image: state.shareImage }) },
+    }),
+  };
+
+  const isEmpty = webViewDomains.length === 0 && !config.navigationBar && !config.tabBar && !config.share;
+  return isEmpty ? undefined : config;
+}
+
+/**
+ * 由构建时提交的 wechatConfig 还原表单状态（「修改后重新构建」）
+ */
+export function fromWechatMiniProgramConfig(config: WechatMiniProgramConfig): WechatAppearanceState {
+  return {
+    webViewDomains: config.webViewDomains,
+    navigationBarEnabled: Boolean(config.navigationBar),
+    navigationBar: config.navigationBar ?? DEFAULT_WECHAT_APPEARANCE.navigationBar,
+    tabBarEnabled: Boolean(config.tabBar),
+    tabBar: config.tabBar
+      ? { ...config.tabBar, items: config.tabBar.items.map((item) => ({ ...item, url: item.url ?? "" })) }
+      : DEFAULT_WECHAT_APPEARANCE.tabBar,
+    shareTitle: config.share?.title ?? "",
+    shareImage: config.share?.image,
+  };
+}
+
+interface WechatAppearanceConfigProps {
+  value: WechatAppearanceState;
+  onChange: (value: WechatAppearanceState) => void;
+}
+
+const inputClassName =
+  "h-10 text-sm rounded-lg border-2 border-border/50 bg-background/50 focus:border-green-500 focus:ring-4 focus:ring-green-500/20 transition-all duration-200";
+
+function readImage(file: File, maxBytes: number, isZh: boolean): Promise<string | null> {
+  if (!["image/png", "image/jpeg"].includes(file.type)) {
+    toast.error(isZh ? "仅支持 PNG / JPG 图片" : "Only PNG / JPG images are supported");
+    return Promise.resolve(null);
+  }
+  if (file.size > maxBytes) {
+    const limit = `${Math.round(maxBytes / 1024)} KB`;
+    toast.error(isZh ? `图片不能超过 ${limit}` : `Image must not exceed ${limit}`);
+    return Promise.resolve(null);
+  }
+  return new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => resolve(null);
+    reader.readAsDataURL(file);
+  });
+}
+
+function ImagePicker({
+  value,
+  label,
+  maxBytes,
+  onChange,
+}: {
+  value?: string;
+  label: string;
+  maxBytes: number;
+  onChange: (value: string | undefined) => void;
+}) {
+  const { currentLanguage } = useLanguage();
+  const isZh = currentLanguage === "zh";
+
+  if (value) {
+    return (
+      <div className="relative group w-10 h-10">
+        <img src={value} alt={label} className="w-10 h-10 rounded-md border border-border/50 object-contain" />
+        <button
+          type="button"
+          onClick={() => onChange(undefined)}
+          className="absolute -top-1.5 -right-1.5 w-4 h-4 rounded-full bg-red-500 text-white flex items-center justify-center opacity-0 group-hover:opacity-100"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <label
+      title={label}
+      className="flex items-center justify-center w-10 h-10 rounded-md border-2 border-dashed border-border/50 cursor-pointer hover:border-green-500"
+    >
+      <Upload className="h-4 w-4 text-muted-foreground" />
+      <input
+        type="file"
+        accept="image/png,image/jpeg"
+        className="hidden"
+        onChange={async (e) => {
+          const file = e.target.files?.[0];
+          e.target.value = "";
+          if (file) {
+            const dataUrl = await readImage(file, maxBytes, isZh);
+            if (dataUrl) onChange(dataUrl);
+          }
+        }}
+      />
+    </label>
+  );
+}
+
+function ColorField({ id, label, value, onChange }: { id: string; label: string; value: string; onChange: (value: string) => void }) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">{label}</Label>
+      <div className="flex items-center gap-2">
+        <input
+          id={id}
+          type="color"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="h-9 w-10 rounded border border-border/50 bg-transparent cursor-pointer"
+        />
+        <span className="font-mono text-xs text-muted-foreground">{value}</span>
+      </div>
+    </div>
+  );
+}
+
+function StyleToggle({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: "black" | "white";
+  onChange: (value: "black" | "white") => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <span className="text-xs font-medium">{label}</span>
+      <div className="flex w-fit rounded-lg border border-border/50 p-0.5">
+        {(["black", "white"] as const).map((style) => (
+          <button
+            key={style}
+            type="button"
+            onClick={() => onChange(style)}
+            className={`px-3 py-1 text-sm rounded-md transition-colors ${
+              value === style ? "bg-green-500 text-white" : "text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            {style === "black" ? "Black" : "White"}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * 微信小程序外观：业务域名、导航栏颜色、底部标签栏和默认分享卡片
+ * 第一个标签为小程序首页（默认打开构建网址），其余标签各自打开一个网址
+ */
+export function WechatAppearanceConfig({ value, onChange }: WechatAppearanceConfigProps) {
+  const { currentLanguage } = useLanguage();
+  const isZh = currentLanguage === "zh";
+
+  const update = (patch: Partial<WechatAppearanceState>) => onChange({ ...value, ...patch });
+  const updateTabBar = (patch: Partial<WechatAppearanceState["tabBar"]>) =>
+    update({ tabBar: { ...value.tabBar, ...patch } });
+  const updateTabItem = (index: number, patch: Partial<WechatTabItemState>) =>
+    updateTabBar({ items: value.tabBar.items.map((item, i) => (i === index ? { ...item, ...patch } : item)) });
+
+  const tabIconLimit = `${Math.round(MAX_TAB_ICON_BYTES / 1024)} KB`;
+
+  return (
+    <div className="space-y-4">
+      {/* Web-view Domains */}
+      <div className="space-y-3">
+        <Label htmlFor="wechatWebViewDomains" className="flex items-center gap-2 text-base font-medium text-foreground/80">
+          <Globe className="h-4 w-4 text-green-500" />
+          {isZh ? "其他业务域名（每行一个）" : "Additional business domains (one per line)"}
+        </Label>
+        <Textarea
+          id="wechatWebViewDomains"
+          placeholder={"pay.example.com\ncdn.example.com"}
+          value={value.webViewDomains.join("\n")}
+          onChange={(e) => update({ webViewDomains: e.target.value.split("\n") })}
+          className="min-h-[80px] resize-none text-sm rounded-lg border-2 border-border/50 bg-background/50 font-mono focus:border-green-500 focus:ring-4 focus:ring-green-500/20 transition-all duration-200"
+        />
+        <p className="text-xs text-muted-foreground">
+          {isZh
+            ? `网址和标签页网址所在域名会自动加入；网页内跳转到的其他域名填写在这里（最多 ${MAX_WEB_VIEW_DOMAINS} 个）`
+            : `Domains of your URL and tab URLs are added automatically. List other domains your pages navigate to (up to ${MAX_WEB_VIEW_DOMAINS})`}
+        </p>
+      </div>
+
+      {/* Navigation Bar */}
+      <div className="space-y-3 rounded-lg border border-border/50 p-3">
+        <label className="flex items-center justify-between gap-3 cursor-pointer">
+          <span className="flex items-center gap-2 text-sm font-medium">
+            <Palette className="h-4 w-4 text-green-500" />
+            {isZh ? "导航栏颜色" : "Navigation bar colors"}
+          </span>
+          <input
+            type="checkbox"
+            checked={value.navigationBarEnabled}
+            onChange={(e) => update({ navigationBarEnabled: e.target.checked })}
+            className="h-4 w-4 accent-green-500"
+          />
+        </label>
+        {value.navigationBarEnabled && (
+          <div className="grid grid-cols-2 gap-3">
+            <ColorField
+              id="wechatNavBackground"
+              label={isZh ? "背景色" : "Background"}
+              value={value.navigationBar.backgroundColor}
+              onChange={(backgroundColor) => update({ navigationBar: { ...value.navigationBar, backgroundColor } })}
+            />
+            <StyleToggle
+              label={isZh ? "标题颜色" : "Title color"}
+              value={value.navigationBar.textStyle}
+              onChange={(textStyle) => update({ navigationBar: { ...value.navigationBar, textStyle } })}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Tab Bar */}
+      <div className="space-y-3 rounded-lg border border-border/50 p-3">
+        <label className="flex items-center justify-between gap-3 cursor-pointer">
+          <span className="flex items-center gap-2 text-sm font-medium">
+            <LayoutGrid className="h-4 w-4 text-green-500" />
+            {isZh ? "底部标签栏" : "Tab bar"}
+          </span>
+          <input
+            type="checkbox"
+            checked={value.tabBarEnabled}
+            onChange={(e) => update({ tabBarEnabled: e.target.checked })}
+            className="h-4 w-4 accent-green-500"
+          />
+        </label>
+        {value.tabBarEnabled && (
+          <div className="space-y-3">
+            <p className="text-xs text-muted-foreground">
+              {isZh
+                ? `${MIN_TAB_BAR_ITEMS} - ${MAX_TAB_BAR_ITEMS} 个标签，第一个标签为首页（默认打开构建网址）。图标为 PNG / JPG，不超过 ${tabIconLimit}，输出为 ${TAB_ICON_SIZE}x${TAB_ICON_SIZE}。`
+                : `${MIN_TAB_BAR_ITEMS} - ${MAX_TAB_BAR_ITEMS} tabs; the first tab is the home page (opens your URL by default). Icons must be PNG / JPG up to ${tabIconLimit} and are exported at ${TAB_ICON_SIZE}x${TAB_ICON_SIZE}.`}
+            </p>
+
+            {value.tabBar.items.map((item, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <ImagePicker
+                  value={item.icon}
+                  label={isZh ? "图标" : "Icon"}
+                  maxBytes={MAX_TAB_ICON_BYTES}
+                  onChange={(icon) => updateTabItem(index, { icon })}
+                />
+                <ImagePicker
+                  value={item.selectedIcon}
+                  label={isZh ? "选中图标（可选）" : "Selected icon (optional)"}
+                  maxBytes={MAX_TAB_ICON_BYTES}
+                  onChange={(selectedIcon) => updateTabItem(index, { selectedIcon })}
+                />
+                <Input
+                  value={item.text}
+                  maxLength={MAX_TAB_TEXT_LENGTH}
+                  placeholder={isZh ? "标签文字" : "Label"}
+                  onChange={(e) => updateTabItem(index, { text: e.target.value })}
+                  className={`${inputClassName} w-28 shrink-0`}
+                />
+                <Input
+                  value={item.url}
+                  placeholder={index === 0 ? (isZh ? "默认为构建网址" : "Defaults to your URL") : "https://"}
+                  onChange={(e) => updateTabItem(index, { url: e.target.value })}
+                  className={`${inputClassName} flex-1 min-w-0`}
+                />
+                <button
+                  type="button"
+                  disabled={value.tabBar.items.length <= MIN_TAB_BAR_ITEMS}
+                  onClick={() => updateTabBar({ items: value.tabBar.items.filter((_, i) => i !== index) })}
+                  className="text-muted-foreground hover:text-red-500 disabled:opacity-30 disabled:hover:text-muted-foreground"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+
+            {value.tabBar.items.length < MAX_TAB_BAR_ITEMS && (
+              <button
+                type="button"
+                onClick={() => updateTabBar({ items: [...value.tabBar.items, { text: "", url: "" }] })}
+                className="flex items-center gap-1 text-sm text-green-600 hover:text-green-700 dark:text-green-400"
+              >
+                <Plus className="h-4 w-4" />
+                {isZh ? "添加标签" : "Add tab"}
+              </button>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <ColorField
+                id="wechatTabColor"
+                label={isZh ? "文字颜色" : "Text"}
+                value={value.tabBar.color}
+                onChange={(color) => updateTabBar({ color })}
+              />
+              <ColorField
+                id="wechatTabSelectedColor"
+                label={isZh ? "选中颜色" : "Selected"}
+                value={value.tabBar.selectedColor}
+                onChange={(selectedColor) => updateTabBar({ selectedColor })}
+              />
+              <ColorField
+                id="wechatTabBackground"
+                label={isZh ? "背景色" : "Background"}
+                value={value.tabBar.backgroundColor}
+                onChange={(backgroundColor) => updateTabBar({ backgroundColor })}
+              />
+              <StyleToggle
+                label={isZh ? "上边框" : "Border"}
+                value={value.tabBar.borderStyle}
+                onChange={(borderStyle) => updateTabBar({ borderStyle })}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Share Card */}
+      <div className="space-y-3 rounded-lg border border-border/50 p-3">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <Share2 className="h-4 w-4 text-green-500" />
+          {isZh ? "默认分享卡片（可选）" : "Default share card (optional)"}
+        </span>
+        <div className="flex items-center gap-2">
+          <ImagePicker
+            value={value.shareImage}
+            label={isZh ? "分享图" : "Share image"}
+            maxBytes={MAX_SHARE_IMAGE_BYTES}
+            onChange={(shareImage) => update({ shareImage })}
+          />
+          <Input
+            value={value.shareTitle}
+            maxLength={MAX_SHARE_TITLE_LENGTH}
+            placeholder={isZh ? "分享标题，默认为小程序名称" : "Share title, defaults to the app name"}
+            onChange={(e) => update({ shareTitle: e.target.value })}
+            className={`${inputClassName} flex-1`}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {isZh
+            ? `分享图裁剪为 5:4（500x400），原图不超过 ${Math.round(MAX_SHARE_IMAGE_BYTES / 1024)} KB`
+            : `The share image is cropped to 5:4 (500x400); source image up to ${Math.round(MAX_SHARE_IMAGE_BYTES / 1024)} KB`}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { useLanguage } from "@/context/LanguageContext";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Package, Hash, MessageCircle, Tag } from "lucide-react";
+import { WechatUploadConfig, type WechatUploadState } from "@/components/generate/wechat-upload-config";
+import { WechatAppearanceConfig, type WechatAppearanceState } from "@/components/generate/wechat-appearance-config";
 
 interface WechatConfigProps {
   name: string;
@@ -12,6 +14,12 @@ interface WechatConfigProps {
   onNameChange: (value: string) => void;
   onAppIdChange: (value: string) => void;
   onVersionChange: (value: string) => void;
+  // 自动上传（可选）
+  upload?: WechatUploadState;
+  onUploadChange?: (value: WechatUploadState) => void;
+  // 业务域名、导航栏、标签栏和分享卡片（可选）
+  appearance?: WechatAppearanceState;
+  onAppearanceChange?: (value: WechatAppearanceState) => void;
 }
 
 export function WechatConfig({
@@ -21,6 +29,10 @@ export function WechatConfig({
   onNameChange,
   onAppIdChange,
   onVersionChange,
+  upload,
+  onUploadChange,
+  appearance,
+  onAppearanceChange,
 }: WechatConfigProps) {
   const { currentLanguage } = useLanguage();
 
@@ -132,6 +144,14 @@ export function WechatConfig({
         </p>
       </div>
 
+      {/* Appearance */}
+      {appearance && onAppearanceChange && (
+        <WechatAppearanceConfig value={appearance} onChange={onAppearanceChange} />
+      )}
+
+      {/* Auto Upload */}
+      {upload && onUploadChange && <WechatUploadConfig value={upload} onChange={onUploadChange} />}
+
       {/* Info Box */}
       <div className="rounded-xl bg-green-500/5 border border-green-500/20 p-4">
         <h4 className="font-medium text-green-600 mb-2">
@@ -145,8 +165,8 @@ export function WechatConfig({
           </li>
           <li>
             {currentLanguage === "zh"
-              ? "• 内嵌的网页 URL 必须在小程序后台配置为业务域名"
-              : "• The embedded URL must be configured as a business domain"}
+              ? "• 构建包含的业务域名必须在小程序后台「开发管理 → 业务域名」中配置"
+              : "• Business domains included in the build must be configured in the WeChat admin console (Development → Business Domains)"}
           </li>
           <li>
             {currentLanguage === "zh"
@@ -155,8 +175,8 @@ export function WechatConfig({
           </li>
           <li>
             {currentLanguage === "zh"
-              ? "• 下载后需要使用微信开发者工具打开并上传"
-              : "• After download, use WeChat DevTools to open and upload"}
+              ? "• 未开启自动上传时，下载后需要使用微信开发者工具打开并上传"
+              : "• Without auto upload, open the download in WeChat DevTools and upload it"}
           </li>
         </ul>
       </div>
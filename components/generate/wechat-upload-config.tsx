@@ -0,0 +1,148 @@
+"use client";
+
+import { useRef } from "react";
+import { useLanguage } from "@/context/LanguageContext";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { UploadCloud, Upload, X } from "lucide-react";
+import { MAX_UPLOAD_DESCRIPTION_LENGTH, MAX_UPLOAD_ROBOT, type WechatUploadConfig } from "@/lib/config/wechat-upload";
+
+export interface WechatUploadState {
+  enabled: boolean;
+  description: string;
+  robot: number;
+  keyFile: File | null;
+}
+
+export const DEFAULT_WECHAT_UPLOAD: WechatUploadState = {
+  enabled: false,
+  description: "",
+  robot: 1,
+  keyFile: null,
+};
+
+/**
+ * 转换为提交给构建 API 的 uploadConfig，未开启时返回 null
+ */
+export async function toWechatUploadConfig(state: WechatUploadState): Promise<WechatUploadConfig | null> {
+  if (!state.enabled) return null;
+  return {
+    description: state.description.trim(),
+    robot: state.robot,
+    ...(state.keyFile && { privateKey: (await state.keyFile.text()).trim() }),
+  };
+}
+
+interface WechatUploadConfigProps {
+  value: WechatUploadState;
+  onChange: (value: WechatUploadState) => void;
+}
+
+const inputClassName =
+  "h-10 text-sm rounded-lg border-2 border-border/50 bg-background/50 focus:border-green-500 focus:ring-4 focus:ring-green-500/20 transition-all duration-200";
+
+/**
+ * 自动上传配置
+ * 开启后构建完成即上传为开发版本并生成预览二维码；上传密钥加密托管，同一 AppID 的后续构建可不再上传
+ */
+export function WechatUploadConfig({ value, onChange }: WechatUploadConfigProps) {
+  const { currentLanguage } = useLanguage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isZh = currentLanguage === "zh";
+
+  const update = (patch: Partial<WechatUploadState>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 p-3">
+      <label className="flex items-center justify-between gap-3 cursor-pointer">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <UploadCloud className="h-4 w-4 text-green-500" />
+          {isZh ? "构建后自动上传并生成预览码" : "Upload and generate preview QR after build"}
+        </span>
+        <input
+          type="checkbox"
+          checked={value.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="h-4 w-4 accent-green-500"
+        />
+      </label>
+
+      {value.enabled && (
+        <div className="space-y-3">
+          <p className="text-xs text-muted-foreground">
+            {isZh
+              ? "在微信公众平台「开发管理 → 开发设置 → 小程序代码上传」中下载上传密钥，并关闭 IP 白名单或加入构建服务器 IP。密钥加密托管，同一 AppID 的后续构建可不再上传。"
+              : "Download the upload key from the WeChat admin console (Development → Development Settings → Code Upload) and disable the IP whitelist or add the build server's IP. Keys are stored encrypted and reused for later builds of the same AppID."}
+          </p>
+
+          <div className="flex items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".key,.pem,.txt"
+              className="hidden"
+              onChange={(e) => update({ keyFile: e.target.files?.[0] || null })}
+            />
+            {value.keyFile ? (
+              <div className="flex items-center gap-2 rounded-lg border border-border/50 px-3 py-2 text-sm">
+                <span className="font-mono truncate max-w-[200px]">{value.keyFile.name}</span>
+                <button
+                  type="button"
+                  onClick={() => {
+                    update({ keyFile: null });
+                    if (fileInputRef.current) fileInputRef.current.value = "";
+                  }}
+                  className="text-muted-foreground hover:text-red-500"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-1 text-sm text-green-600 hover:text-green-700 dark:text-green-400"
+              >
+                <Upload className="h-4 w-4" />
+                {isZh ? "上传密钥（首次上传必填，.key）" : "Upload key (required the first time, .key)"}
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-1 md:col-span-2">
+              <Label htmlFor="wechatUploadDescription" className="text-xs">
+                {isZh ? "版本描述" : "Version description"}
+              </Label>
+              <Input
+                id="wechatUploadDescription"
+                value={value.description}
+                maxLength={MAX_UPLOAD_DESCRIPTION_LENGTH}
+                placeholder={isZh ? "留空时使用版本号" : "Defaults to the version number"}
+                onChange={(e) => update({ description: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="wechatUploadRobot" className="text-xs">
+                {isZh ? `机器人编号（1 - ${MAX_UPLOAD_ROBOT}）` : `Robot (1 - ${MAX_UPLOAD_ROBOT})`}
+              </Label>
+              <Input
+                id="wechatUploadRobot"
+                type="number"
+                min={1}
+                max={MAX_UPLOAD_ROBOT}
+                value={value.robot}
+                onChange={(e) => {
+                  const robot = parseInt(e.target.value, 10);
+                  update({ robot: Number.isFinite(robot) ? Math.min(Math.max(robot, 1), MAX_UPLOAD_ROBOT) : 1 });
+                }}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,19 +4,59 @@ import { useLanguage } from "@/context/LanguageContext";
 import { useUploadConfig } from "@/hooks/useUploadConfig";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Package, Image, AlertTriangle, Monitor, AlertCircle } from "lucide-react";
+import {
+  WINDOWS_PACKAGE_FORMATS,
+  getWindowsPackageLabel,
+  type WindowsInstallerConfig,
+  type WindowsInstallScope,
+  type WindowsPackageFormat,
+} from "@/lib/config/windows-installer";
+import type { WindowsMetadataConfig } from "@/lib/config/windows-metadata";
+import type { DesktopShellConfig } from "@/lib/config/desktop-shell";
+import { WindowsMetadataConfigSection } from "./windows-metadata-config";
+import { DesktopShellConfigSection } from "./desktop-shell-config";
+import { Package, Image, AlertTriangle, Monitor, AlertCircle, Archive, RefreshCw } from "lucide-react";
 import { useState, useRef } from "react";
 
 interface WindowsConfigProps {
   name: string;
   onNameChange: (value: string) => void;
   onIconChange: (file: File | null) => void;
+  packageFormat: WindowsPackageFormat;
+  onPackageFormatChange: (value: WindowsPackageFormat) => void;
+  installerConfig: WindowsInstallerConfig;
+  onInstallerConfigChange: (value: WindowsInstallerConfig) => void;
+  metadataConfig: WindowsMetadataConfig;
+  onMetadataConfigChange: (value: WindowsMetadataConfig) => void;
+  desktopConfig: DesktopShellConfig;
+  onDesktopConfigChange: (value: DesktopShellConfig) => void;
 }
 
+const PACKAGE_FORMAT_DESCRIPTIONS: Record<WindowsPackageFormat, { zh: string; en: string }> = {
+  exe: { zh: "单文件便携版，无需安装", en: "Single-file portable app" },
+  installer: { zh: "安装向导，含快捷方式和卸载程序", en: "Setup with shortcuts and uninstaller" },
+};
+
+const INSTALL_SCOPE_LABELS: Record<WindowsInstallScope, { zh: string; en: string }> = {
+  perUser: { zh: "当前用户（无需管理员权限）", en: "Current user (no admin rights)" },
+  perMachine: { zh: "所有用户（需要管理员权限）", en: "All users (requires admin)" },
+};
+
+const inputClassName =
+  "h-11 text-base rounded-xl border-2 border-border/50 bg-background/50 backdrop-blur-sm focus:border-blue-500 focus:ring-4 focus:ring-blue-500/20 transition-all duration-200";
+
 export function WindowsConfig({
   name,
   onNameChange,
   onIconChange,
+  packageFormat,
+  onPackageFormatChange,
+  installerConfig,
+  onInstallerConfigChange,
+  metadataConfig,
+  onMetadataConfigChange,
+  desktopConfig,
+  onDesktopConfigChange,
 }: WindowsConfigProps) {
   const { currentLanguage } = useLanguage();
   const { iconUploadEnabled, maxImageUploadMB, validateFileSize } = useUploadConfig();
@@ -60,6 +100,14 @@ export function WindowsConfig({
     }
   };
 
+  const updateInstallerConfig = (patch: Partial<WindowsInstallerConfig>) => {
+    onInstallerConfigChange({ ...installerConfig, ...patch });
+  };
+
+  const handleGenerateUpgradeCode = () => {
+    updateInstallerConfig({ upgradeCode: `{${crypto.randomUUID().toUpperCase()}}` });
+  };
+
   const handleRemoveIcon = () => {
     onIconChange(null);
     setIconPreview(null);
@@ -189,6 +237,131 @@ export function WindowsConfig({
         />
       </div>
 
+      {/* Package Format */}
+      <div className="space-y-3">
+        <Label className="text-base font-medium text-foreground/80">
+          {currentLanguage === "zh" ? "输出格式" : "Output Format"}
+        </Label>
+        <div className="grid grid-cols-2 gap-2">
+          {WINDOWS_PACKAGE_FORMATS.map((format) => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => onPackageFormatChange(format)}
+              className={`rounded-xl border-2 p-3 text-left transition-all duration-200 ${
+                packageFormat === format
+                  ? "border-blue-500 bg-blue-500/10"
+                  : "border-border/50 hover:border-blue-500/50 hover:bg-blue-500/5"
+              }`}
+            >
+              <span className="flex items-center gap-1.5 text-sm font-medium">
+                <Archive className="h-3.5 w-3.5 text-blue-500" />
+                {getWindowsPackageLabel(format, currentLanguage === "zh" ? "zh" : "en")}
+              </span>
+              <span className="mt-1 block text-xs text-muted-foreground">
+                {PACKAGE_FORMAT_DESCRIPTIONS[format][currentLanguage === "zh" ? "zh" : "en"]}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        {packageFormat === "installer" && (
+          <div className="space-y-4 rounded-xl border border-border/50 p-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="windowsProductName" className="text-sm font-medium">
+                  {currentLanguage === "zh" ? "产品名称" : "Product Name"}
+                </Label>
+                <Input
+                  id="windowsProductName"
+                  placeholder={name || (currentLanguage === "zh" ? "默认使用应用名称" : "Defaults to app name")}
+                  value={installerConfig.productName}
+                  onChange={(e) => updateInstallerConfig({ productName: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="windowsPublisher" className="text-sm font-medium">
+                  {currentLanguage === "zh" ? "发布者" : "Publisher"} <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="windowsPublisher"
+                  placeholder={currentLanguage === "zh" ? "公司或开发者名称" : "Company or developer name"}
+                  value={installerConfig.publisher}
+                  onChange={(e) => updateInstallerConfig({ publisher: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="windowsVersion" className="text-sm font-medium">
+                  {currentLanguage === "zh" ? "版本号" : "Version"} <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="windowsVersion"
+                  placeholder="1.0.0"
+                  value={installerConfig.version}
+                  onChange={(e) => updateInstallerConfig({ version: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="windowsUpgradeCode" className="text-sm font-medium">
+                  {currentLanguage === "zh" ? "升级码" : "Upgrade Code"}
+                </Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="windowsUpgradeCode"
+                    placeholder={currentLanguage === "zh" ? "留空自动生成" : "Generated if empty"}
+                    value={installerConfig.upgradeCode || ""}
+                    onChange={(e) => updateInstallerConfig({ upgradeCode: e.target.value || undefined })}
+                    className={`${inputClassName} font-mono text-xs`}
+                  />
+                  <button
+                    type="button"
+                    onClick={handleGenerateUpgradeCode}
+                    title={currentLanguage === "zh" ? "生成新的升级码" : "Generate a new upgrade code"}
+                    className="flex h-11 w-11 flex-shrink-0 items-center justify-center rounded-xl border-2 border-border/50 text-muted-foreground hover:border-blue-500/50 hover:text-blue-500 transition-colors"
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {currentLanguage === "zh"
+                ? "同一产品的每个版本请使用相同的升级码，安装新版本时会自动替换旧版本；留空时根据发布者和产品名称生成"
+                : "Keep the same upgrade code for every version of a product so new versions replace old ones. When empty it is derived from the publisher and product name"}
+            </p>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">
+                {currentLanguage === "zh" ? "安装范围" : "Install Scope"}
+              </Label>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(INSTALL_SCOPE_LABELS) as WindowsInstallScope[]).map((scope) => (
+                  <button
+                    key={scope}
+                    type="button"
+                    onClick={() => updateInstallerConfig({ installScope: scope })}
+                    className={`rounded-xl border-2 px-3 py-2 text-left text-xs transition-all duration-200 ${
+                      installerConfig.installScope === scope
+                        ? "border-blue-500 bg-blue-500/10"
+                        : "border-border/50 hover:border-blue-500/50 hover:bg-blue-500/5"
+                    }`}
+                  >
+                    {INSTALL_SCOPE_LABELS[scope][currentLanguage === "zh" ? "zh" : "en"]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <WindowsMetadataConfigSection appName={name} value={metadataConfig} onChange={onMetadataConfigChange} />
+
+      <DesktopShellConfigSection value={desktopConfig} onChange={onDesktopConfigChange} />
+
       {/* Info Box - Usage Guide */}
       <div className="rounded-xl bg-blue-500/10 border border-blue-500/20 p-4">
         <div className="flex items-start gap-3">
@@ -197,23 +370,43 @@ export function WindowsConfig({
             <h4 className="font-medium text-blue-600 mb-2">
               {currentLanguage === "zh" ? "使用说明" : "Usage Guide"}
             </h4>
-            <ul className="text-sm text-muted-foreground space-y-1">
-              <li>
-                {currentLanguage === "zh"
-                  ? "• 下载后直接双击 EXE 文件即可运行"
-                  : "• Double-click the downloaded EXE to run"}
-              </li>
-              <li>
-                {currentLanguage === "zh"
-                  ? "• 无需安装，单文件便携版应用"
-                  : "• No installation needed, single-file portable app"}
-              </li>
-              <li>
-                {currentLanguage === "zh"
-                  ? "• 可放置在任意位置运行"
-                  : "• Can be placed and run from anywhere"}
-              </li>
-            </ul>
+            {packageFormat === "installer" ? (
+              <ul className="text-sm text-muted-foreground space-y-1">
+                <li>
+                  {currentLanguage === "zh"
+                    ? "• 双击 Setup.exe 按向导完成安装"
+                    : "• Double-click Setup.exe and follow the wizard"}
+                </li>
+                <li>
+                  {currentLanguage === "zh"
+                    ? "• 自动创建开始菜单和桌面快捷方式"
+                    : "• Creates Start menu and desktop shortcuts"}
+                </li>
+                <li>
+                  {currentLanguage === "zh"
+                    ? "• 可在「设置 → 应用」中卸载"
+                    : "• Uninstall from Settings → Apps"}
+                </li>
+              </ul>
+            ) : (
+              <ul className="text-sm text-muted-foreground space-y-1">
+                <li>
+                  {currentLanguage === "zh"
+                    ? "• 下载后直接双击 EXE 文件即可运行"
+                    : "• Double-click the downloaded EXE to run"}
+                </li>
+                <li>
+                  {currentLanguage === "zh"
+                    ? "• 无需安装，单文件便携版应用"
+                    : "• No installation needed, single-file portable app"}
+                </li>
+                <li>
+                  {currentLanguage === "zh"
+                    ? "• 可放置在任意位置运行"
+                    : "• Can be placed and run from anywhere"}
+                </li>
+              </ul>
+            )}
           </div>
         </div>
       </div>
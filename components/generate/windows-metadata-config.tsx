@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import { useLanguage } from "@/context/LanguageContext";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ChevronDown, FileText, Settings2, ShieldCheck } from "lucide-react";
+import type {
+  WindowsDpiAwareness,
+  WindowsExecutionLevel,
+  WindowsMetadataConfig,
+} from "@/lib/config/windows-metadata";
+
+type MetadataTextField = "productName" | "fileDescription" | "companyName" | "fileVersion" | "legalCopyright";
+
+interface WindowsMetadataConfigProps {
+  appName: string;
+  value: WindowsMetadataConfig;
+  onChange: (value: WindowsMetadataConfig) => void;
+}
+
+const inputClassName =
+  "h-10 text-sm rounded-lg border-2 border-border/50 bg-background/50 focus:border-blue-500 focus:ring-4 focus:ring-blue-500/20 transition-all duration-200";
+
+const DPI_AWARENESS_LABELS: Record<WindowsDpiAwareness, { zh: string; en: string }> = {
+  perMonitorV2: { zh: "按显示器缩放（推荐）", en: "Per-monitor v2 (recommended)" },
+  system: { zh: "按系统缩放", en: "System aware" },
+  unaware: { zh: "由系统拉伸（可能模糊）", en: "Unaware (bitmap stretched)" },
+};
+
+const EXECUTION_LEVEL_LABELS: Record<WindowsExecutionLevel, { zh: string; en: string }> = {
+  asInvoker: { zh: "普通权限（推荐）", en: "As invoker (recommended)" },
+  highestAvailable: { zh: "当前用户的最高权限", en: "Highest available" },
+  requireAdministrator: { zh: "始终需要管理员权限", en: "Require administrator" },
+};
+
+export function WindowsMetadataConfigSection({ appName, value, onChange }: WindowsMetadataConfigProps) {
+  const { currentLanguage } = useLanguage();
+  const [open, setOpen] = useState(false);
+  const isZh = currentLanguage === "zh";
+
+  const update = (patch: Partial<WindowsMetadataConfig>) => onChange({ ...value, ...patch });
+
+  const textFields: Array<{ key: MetadataTextField; label: string; placeholder: string }> = [
+    { key: "productName", label: isZh ? "产品名称" : "Product name", placeholder: appName || (isZh ? "默认使用应用名称" : "Defaults to app name") },
+    { key: "fileDescription", label: isZh ? "文件描述" : "File description", placeholder: isZh ? "默认使用产品名称" : "Defaults to product name" },
+    { key: "companyName", label: isZh ? "公司名称" : "Company", placeholder: isZh ? "公司或开发者名称" : "Company or developer name" },
+    { key: "fileVersion", label: isZh ? "文件版本" : "File version", placeholder: "1.0.0" },
+    { key: "legalCopyright", label: isZh ? "版权" : "Copyright", placeholder: isZh ? "默认 © 年份 公司名称" : "Defaults to © year company" },
+  ];
+
+  return (
+    <div className="rounded-xl border border-border/50 bg-background/30">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <div className="flex items-center gap-2">
+          <Settings2 className="h-4 w-4 text-blue-500" />
+          <span className="font-medium">{isZh ? "文件属性" : "File Properties"}</span>
+          <span className="text-xs text-muted-foreground">
+            {isZh ? "版本信息、DPI、运行权限（可选）" : "Version info, DPI, run level (optional)"}
+          </span>
+        </div>
+        <ChevronDown className={`h-4 w-4 text-muted-foreground transition-transform ${open ? "rotate-180" : ""}`} />
+      </button>
+
+      {open && (
+        <div className="space-y-6 px-4 pb-4">
+          {/* Version Info */}
+          <div className="space-y-4">
+            <h4 className="flex items-center gap-2 text-sm font-semibold text-foreground/80">
+              <FileText className="h-4 w-4 text-blue-500" />
+              {isZh ? "版本信息" : "Version Info"}
+            </h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {textFields.map(({ key, label, placeholder }) => (
+                <div key={key} className="space-y-1.5">
+                  <Label htmlFor={`windows-${key}`} className="text-xs text-muted-foreground">
+                    {label}
+                  </Label>
+                  <Input
+                    id={`windows-${key}`}
+                    value={value[key] || ""}
+                    placeholder={placeholder}
+                    onChange={(e) => update({ [key]: e.target.value || undefined })}
+                    className={inputClassName}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {isZh
+                ? "显示在 EXE 的「属性 → 详细信息」中；未填写的项使用应用名称或安装程序配置"
+                : "Shown in the EXE's Properties → Details tab. Empty fields fall back to the app name or installer settings"}
+            </p>
+          </div>
+
+          {/* Manifest */}
+          <div className="space-y-4">
+            <h4 className="flex items-center gap-2 text-sm font-semibold text-foreground/80">
+              <ShieldCheck className="h-4 w-4 text-blue-500" />
+              {isZh ? "应用程序清单" : "Application Manifest"}
+            </h4>
+            <div className="flex items-center justify-between gap-3 rounded-lg border border-border/50 px-3 py-2">
+              <Label htmlFor="windowsDpiAwareness" className="text-sm">
+                {isZh ? "DPI 感知" : "DPI awareness"}
+              </Label>
+              <select
+                id="windowsDpiAwareness"
+                value={value.dpiAwareness}
+                onChange={(e) => update({ dpiAwareness: e.target.value as WindowsDpiAwareness })}
+                className="h-8 rounded-md border border-border/50 bg-background px-2 text-sm"
+              >
+                {(Object.keys(DPI_AWARENESS_LABELS) as WindowsDpiAwareness[]).map((mode) => (
+                  <option key={mode} value={mode}>
+                    {DPI_AWARENESS_LABELS[mode][isZh ? "zh" : "en"]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center justify-between gap-3 rounded-lg border border-border/50 px-3 py-2">
+              <Label htmlFor="windowsExecutionLevel" className="text-sm">
+                {isZh ? "运行权限" : "Execution level"}
+              </Label>
+              <select
+                id="windowsExecutionLevel"
+                value={value.executionLevel}
+                onChange={(e) => update({ executionLevel: e.target.value as WindowsExecutionLevel })}
+                className="h-8 rounded-md border border-border/50 bg-background px-2 text-sm"
+              >
+                {(Object.keys(EXECUTION_LEVEL_LABELS) as WindowsExecutionLevel[]).map((level) => (
+                  <option key={level} value={level}>
+                    {EXECUTION_LEVEL_LABELS[level][isZh ? "zh" : "en"]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {value.executionLevel !== "asInvoker" && (
+              <p className="text-xs text-amber-600">
+                {isZh
+                  ? "每次启动都会弹出用户账户控制（UAC）确认"
+                  : "Windows will show a UAC prompt every time the app starts"}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -82,6 +82,8 @@ export function Footer() {
       linux: { zh: "Linux", en: "Linux" },
       chrome: { zh: "Chrome", en: "Chrome" },
       wechat: { zh: "微信小程序", en: "WeChat" },
+      alipay: { zh: "支付宝小程序", en: "Alipay" },
+      xiaohongshu: { zh: "小红书小程序", en: "Xiaohongshu" },
     };
     return names[platform]?.[currentLanguage] || platform;
   };
@@ -98,20 +98,20 @@ export const PLATFORMS: Platform[] = [
   {
     id: "xiaohongshu",
     name: { zh: "小红书小程序", en: "Xiaohongshu Mini Program" },
-    description: { zh: "正在开发中...", en: "Coming soon..." },
+    description: { zh: "小红书生态应用", en: "Xiaohongshu Ecosystem App" },
     category: "miniprogram",
     icon: Bookmark,
     color: "from-red-400 to-pink-500",
-    available: false,
+    available: true,
   },
   {
     id: "alipay",
     name: { zh: "支付宝小程序", en: "Alipay Mini Program" },
-    description: { zh: "正在开发中...", en: "Coming soon..." },
+    description: { zh: "支付宝生态应用", en: "Alipay Ecosystem App" },
     category: "miniprogram",
     icon: Wallet,
     color: "from-blue-400 to-blue-500",
-    available: false,
+    available: true,
   },
   // 桌面端
   {
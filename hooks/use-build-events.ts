@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { api } from "@/lib/api";
+import type { BuildProgressEvent } from "@/lib/build-progress";
+
+/**
+ * 订阅当前用户所有构建中记录的进度 SSE（GET /api/builds/events）
+ * 整个页面只建立一条连接，事件按 buildId 归档；没有构建中的记录时传 enabled=false 断开
+ * 浏览器不支持 EventSource 或连接断开时返回 connected=false，由调用方继续轮询兜底
+ */
+export function useActiveBuildEvents(
+  options: { enabled?: boolean; onEvent?: (event: BuildProgressEvent) => void } = {}
+) {
+  const { enabled = true, onEvent } = options;
+  const [events, setEvents] = useState<Record<string, BuildProgressEvent>>({});
+  const [connected, setConnected] = useState(false);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    if (!enabled || typeof window === "undefined" || typeof EventSource === "undefined") {
+      return;
+    }
+
+    const source = new EventSource(api.builds.activeEvents());
+
+    const handleEvent = (message: MessageEvent) => {
+      try {
+        const data = JSON.parse(message.data) as BuildProgressEvent;
+        setEvents((prev) => ({ ...prev, [data.buildId]: data }));
+        onEventRef.current?.(data);
+      } catch (error) {
+        console.error("Build events parse error:", error);
+      }
+    };
+
+    source.onopen = () => setConnected(true);
+    // 网络中断时浏览器会自动重连，期间由轮询兜底
+    source.onerror = () => setConnected(false);
+    source.addEventListener("stage", handleEvent);
+    source.addEventListener("progress", handleEvent);
+    source.addEventListener("done", handleEvent);
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [enabled]);
+
+  return { events, connected };
+}
@@ -35,6 +35,9 @@ export const API_ENDPOINTS = {
   BUILDS: "builds",
   BUILDS_POLLING: "builds/polling",
   BUILD_BY_ID: (id: string) => `builds/${id}`,
+  BUILD_CANCEL: (id: string) => `builds/${id}/cancel`,
+  BUILD_LOGS: (id: string) => `builds/${id}/logs`,
+  BUILD_DEEP_LINK_FILE: (id: string, file: string) => `builds/${id}/deep-links?file=${encodeURIComponent(file)}`,
 
   // 平台构建
   ANDROID_BUILD: "android/build",
@@ -52,11 +55,38 @@ export const API_ENDPOINTS = {
  */
 export const api = {
   builds: {
+    // 统一构建入口（国际版 / 国内版共用，表单 platform 字段选择平台）
+    create: () => "/api/builds",
     list: () => buildApiPath(API_ENDPOINTS.BUILDS),
     polling: () => buildApiPath(API_ENDPOINTS.BUILDS_POLLING),
     get: (id: string) => buildApiPath(API_ENDPOINTS.BUILD_BY_ID(id)),
     delete: (id: string) => buildApiPath(API_ENDPOINTS.BUILD_BY_ID(id)),
+    cancel: (id: string) => buildApiPath(API_ENDPOINTS.BUILD_CANCEL(id)),
+    logs: (id: string) => buildApiPath(API_ENDPOINTS.BUILD_LOGS(id)),
+    // 构建进度 SSE（国际版 / 国内版共用）
+    events: (id: string) => `/api/builds/${id}/events`,
+    // 当前用户所有构建中记录的进度 SSE（构建列表页共用一条连接）
+    activeEvents: () => "/api/builds/events",
+    // 版本号历史（国际版 / 国内版共用）
+    versions: (platform: string, packageId: string) =>
+      `/api/builds/versions?platform=${encodeURIComponent(platform)}&packageId=${encodeURIComponent(packageId)}`,
+    deepLinkFile: (id: string, file: string) => buildApiPath(API_ENDPOINTS.BUILD_DEEP_LINK_FILE(id, file)),
   },
+  // 应用项目（国际版 / 国内版共用，后端按部署版本选择）
+  projects: {
+    list: () => "/api/projects",
+    create: () => "/api/projects",
+    get: (id: string) => `/api/projects/${id}`,
+    update: (id: string) => `/api/projects/${id}`,
+    delete: (id: string) => `/api/projects/${id}`,
+    icon: (id: string, platform?: string) =>
+      `/api/projects/${id}/icon${platform ? `?platform=${encodeURIComponent(platform)}` : ""}`,
+  },
+  // Android 托管密钥库下载（APK 正式版构建使用，Supabase 认证）
+  androidKeystore: (packageName: string) =>
+    `/api/domestic/android-apk/keystore?packageName=${encodeURIComponent(packageName)}`,
+  // 网站信息自动导入（国际版 / 国内版共用）
+  siteManifest: () => "/api/site-manifest",
   platform: {
     android: () => buildApiPath(API_ENDPOINTS.ANDROID_BUILD),
     ios: () => buildApiPath(API_ENDPOINTS.IOS_BUILD),
@@ -15,7 +15,8 @@ export type BuildStage =
   | "uploading"
   | "finalizing"
   | "completed"
-  | "failed";
+  | "failed"
+  | "cancelled";
 
 // 阶段信息接口
 export interface StageInfo {
@@ -27,6 +28,19 @@ export interface StageInfo {
   };
 }
 
+// 支付宝、小红书小程序共用同一构建流程（下载模板 → 生成 Logo → 写入配置 → 打包源码）
+const MINI_PROGRAM_STAGES: StageInfo[] = [
+  { stage: "initializing", progress: 0, label: { zh: "初始化构建环境", en: "Initializing build environment" } },
+  { stage: "downloading", progress: 15, label: { zh: "下载模板文件", en: "Downloading template" } },
+  { stage: "extracting", progress: 30, label: { zh: "解压项目文件", en: "Extracting project files" } },
+  { stage: "processing_icons", progress: 45, label: { zh: "生成小程序 Logo", en: "Generating mini program logo" } },
+  { stage: "configuring", progress: 65, label: { zh: "配置小程序信息", en: "Configuring mini program info" } },
+  { stage: "packaging", progress: 80, label: { zh: "打包源码", en: "Packaging source code" } },
+  { stage: "uploading", progress: 92, label: { zh: "上传构建结果", en: "Uploading build result" } },
+  { stage: "finalizing", progress: 96, label: { zh: "完成构建记录", en: "Finalizing build record" } },
+  { stage: "completed", progress: 100, label: { zh: "构建完成", en: "Build completed" } },
+];
+
 // 各平台的构建阶段定义
 export const BUILD_STAGES: Record<string, StageInfo[]> = {
   // Android 构建阶段
@@ -93,6 +107,10 @@ export const BUILD_STAGES: Record<string, StageInfo[]> = {
     { stage: "completed", progress: 100, label: { zh: "构建完成", en: "Build completed" } },
   ],
 
+  // 支付宝 / 小红书小程序构建阶段
+  alipay: MINI_PROGRAM_STAGES,
+  xiaohongshu: MINI_PROGRAM_STAGES,
+
   // Windows 应用构建阶段
   windows: [
     { stage: "initializing", progress: 0, label: { zh: "初始化构建环境", en: "Initializing build environment" } },
@@ -167,6 +185,40 @@ export function getStageLabel(platform: string, progress: number, language: "zh"
   return stage.label[language];
 }
 
+// 失败 / 取消不对应进度值，按构建状态单独给出阶段信息
+const FAILED_STAGE: StageInfo = { stage: "failed", progress: 100, label: { zh: "构建失败", en: "Build failed" } };
+const CANCELLED_STAGE: StageInfo = { stage: "cancelled", progress: 100, label: { zh: "构建已取消", en: "Build cancelled" } };
+
+// 构建结束的状态，SSE 推送到这些状态后关闭连接
+export const TERMINAL_BUILD_STATUSES = ["completed", "failed", "cancelled"];
+
+// 构建中状态（进度推送只订阅这些构建）
+export const ACTIVE_BUILD_STATUSES = ["pending", "processing"];
+
+/**
+ * 根据构建状态和进度获取阶段信息
+ * 失败 / 取消的进度停留在中途，阶段按状态返回
+ */
+export function getStageByStatus(platform: string, status: string, progress: number): StageInfo {
+  if (status === "failed") return { ...FAILED_STAGE, progress };
+  if (status === "cancelled") return { ...CANCELLED_STAGE, progress };
+  if (status === "completed") return getStageByProgress(platform, 100);
+  return getStageByProgress(platform, progress);
+}
+
+/**
+ * 构建进度事件（GET /api/builds/[id]/events 推送的数据）
+ */
+export interface BuildProgressEvent {
+  buildId: string;
+  platform: string;
+  status: string;
+  progress: number;
+  stage: BuildStage;
+  label: StageInfo["label"];
+  errorMessage?: string | null;
+}
+
 /**
  * 计算平滑进度值（用于动画）
  * 在两个阶段之间进行插值，使进度条更平滑
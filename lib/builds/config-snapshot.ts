@@ -0,0 +1,90 @@
+/**
+ * 构建配置快照
+ * 构建记录的独立字段只有包名、版本、隐私政策等，壳配置、推送、高级设置等保存在 config_snapshot 中，
+ * 「修改后重新构建」据此恢复生成器，构建对比逐项比较
+ * 键名与构建请求一致；凭据（微信上传密钥）和图标不保存，Android 签名密钥库另行托管
+ */
+
+import { z } from "zod";
+import { nativeShellConfigSchema } from "@/lib/config/native-shell";
+import { pushConfigSchema } from "@/lib/config/push-notifications";
+import { androidAdvancedConfigSchema } from "@/lib/config/android-advanced";
+import { miniProgramConfigSchema } from "@/lib/config/mini-program";
+import { wechatMiniProgramConfigSchema } from "@/lib/config/wechat-mini-program";
+import { browserExtensionConfigSchema } from "@/lib/config/browser-extension";
+import { desktopShellConfigSchema } from "@/lib/config/desktop-shell";
+import { windowsInstallerConfigSchema } from "@/lib/config/windows-installer";
+import { windowsMetadataConfigSchema } from "@/lib/config/windows-metadata";
+import { iconStyleConfigSchema } from "@/lib/config/icon-style";
+
+// 逐项校验：某一项不合法（或配置结构已变化）时只丢弃该项
+function field<T extends z.ZodTypeAny>(schema: T) {
+  return schema.optional().catch(undefined);
+}
+
+const buildConfigSnapshotSchema = z.object({
+  shellConfig: field(nativeShellConfigSchema),
+  pushConfig: field(pushConfigSchema),
+  advancedConfig: field(androidAdvancedConfigSchema),
+  miniProgramConfig: field(miniProgramConfigSchema),
+  wechatConfig: field(wechatMiniProgramConfigSchema),
+  // 微信自动上传只保存版本描述和机器人编号（多余字段由 zod 去掉）
+  uploadConfig: field(z.object({ description: z.string(), robot: z.number().int() })),
+  extensionConfig: field(browserExtensionConfigSchema),
+  desktopConfig: field(desktopShellConfigSchema),
+  installerConfig: field(windowsInstallerConfigSchema),
+  metadataConfig: field(windowsMetadataConfigSchema),
+  dmgBackground: field(z.boolean()),
+  iconStyle: field(iconStyleConfigSchema),
+});
+
+export type BuildConfigSnapshot = z.infer<typeof buildConfigSnapshotSchema>;
+
+export const BUILD_CONFIG_SNAPSHOT_FIELDS: Array<{ key: keyof BuildConfigSnapshot; label: { zh: string; en: string } }> = [
+  { key: "shellConfig", label: { zh: "壳配置", en: "Shell settings" } },
+  { key: "pushConfig", label: { zh: "推送配置", en: "Push notifications" } },
+  { key: "advancedConfig", label: { zh: "Android 高级配置", en: "Android advanced settings" } },
+  { key: "miniProgramConfig", label: { zh: "小程序配置", en: "Mini program settings" } },
+  { key: "wechatConfig", label: { zh: "微信小程序配置", en: "WeChat mini program settings" } },
+  { key: "uploadConfig", label: { zh: "微信自动上传", en: "WeChat auto upload" } },
+  { key: "extensionConfig", label: { zh: "浏览器扩展配置", en: "Extension settings" } },
+  { key: "desktopConfig", label: { zh: "桌面端壳配置", en: "Desktop shell settings" } },
+  { key: "installerConfig", label: { zh: "安装程序配置", en: "Installer settings" } },
+  { key: "metadataConfig", label: { zh: "EXE 版本信息", en: "EXE metadata" } },
+  { key: "dmgBackground", label: { zh: "DMG 背景图", en: "DMG background" } },
+  { key: "iconStyle", label: { zh: "图标样式", en: "Icon style" } },
+];
+
+/**
+ * 从构建请求（批量构建的平台配置 / 编排器参数）生成快照，也用于读取已保存的快照
+ * 编排器参数中的微信上传为 wechatUpload（密钥已加密），同样只保留版本描述和机器人编号
+ * 不是对象时返回 null（快照功能上线前的构建）
+ */
+export function parseBuildConfigSnapshot(raw: unknown): BuildConfigSnapshot | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+
+  const wechatUpload = "wechatUpload" in raw ? raw.wechatUpload : undefined;
+  const result = buildConfigSnapshotSchema.safeParse({ uploadConfig: wechatUpload, ...raw });
+  return result.success ? result.data : null;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, item]) => item !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, item]) => [key, sortKeys(item)])
+    );
+  }
+  return value;
+}
+
+/**
+ * 快照中某一项的展示文本（键排序后的 JSON，便于逐项比较）
+ */
+export function formatSnapshotValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "string" ? value : JSON.stringify(sortKeys(value), null, 2);
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { diffBuilds, isSameApp, type BuildDiffSource } from "./diff";
+
+function build(overrides: Partial<BuildDiffSource> = {}): BuildDiffSource {
+  return {
+    id: "build-1",
+    platform: "android",
+    app_name: "Demo",
+    package_name: "com.example.demo",
+    version_name: "1.0.0",
+    version_code: "1",
+    url: "https://example.com",
+    status: "completed",
+    file_size: 1024,
+    created_at: "2026-10-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+function changedFields(result: ReturnType<typeof diffBuilds>): string[] {
+  return result.fields.filter((field) => field.changed).map((field) => field.field);
+}
+
+describe("isSameApp", () => {
+  it("compares builds by package name", () => {
+    expect(isSameApp(build(), build({ id: "build-2", app_name: "Renamed" }))).toBe(true);
+    expect(isSameApp(build(), build({ id: "build-2", package_name: "com.example.other" }))).toBe(false);
+  });
+});
+
+describe("diffBuilds", () => {
+  it("puts the earlier build first regardless of argument order", () => {
+    const older = build({ id: "old", version_code: "1" });
+    const newer = build({ id: "new", version_code: "2", created_at: "2026-10-02T00:00:00Z" });
+
+    const result = diffBuilds(newer, older);
+
+    expect(result.older.id).toBe("old");
+    expect(result.newer.id).toBe("new");
+    expect(result.fields.find((field) => field.field === "version_code")).toMatchObject({ before: "1", after: "2", changed: true });
+  });
+
+  it("treats missing and empty optional fields as equal", () => {
+    const result = diffBuilds(build({ privacy_policy: null }), build({ id: "build-2", privacy_policy: "" }));
+
+    expect(changedFields(result)).toEqual([]);
+  });
+
+  it("compares deep link domains and file size as text", () => {
+    const result = diffBuilds(
+      build({ deep_link_config: { domains: ["a.example.com"] }, file_size: null }),
+      build({ id: "build-2", deep_link_config: { domains: ["a.example.com", "b.example.com"] }, created_at: "2026-10-02T00:00:00Z" })
+    );
+
+    expect(changedFields(result)).toEqual(["deep_link_config", "file_size", "created_at"]);
+    expect(result.fields.find((field) => field.field === "file_size")).toMatchObject({ before: "", after: "1024" });
+  });
+
+  it("adds a row per snapshot setting either build has and ignores key order", () => {
+    const result = diffBuilds(
+      build({
+        config_snapshot: {
+          pushConfig: { provider: "onesignal", oneSignalAppId: "0f0e0d0c-0b0a-0908-0706-050403020100" },
+          dmgBackground: true,
+        },
+      }),
+      build({
+        id: "build-2",
+        config_snapshot: {
+          pushConfig: { oneSignalAppId: "0f0e0d0c-0b0a-0908-0706-050403020100", provider: "onesignal" },
+          iconStyle: { background: { type: "color", color: "#FFFFFF" }, scale: 0.8, monochrome: { mode: "none" } },
+        },
+      })
+    );
+
+    const snapshotFields = result.fields.filter((field) => field.field.startsWith("config_snapshot."));
+    expect(snapshotFields.map((field) => [field.field, field.changed])).toEqual([
+      ["config_snapshot.pushConfig", false],
+      ["config_snapshot.dmgBackground", true],
+      ["config_snapshot.iconStyle", true],
+    ]);
+    expect(snapshotFields[1]).toMatchObject({ before: "true", after: "" });
+  });
+
+  it("shows no snapshot rows when neither build has a snapshot", () => {
+    const result = diffBuilds(build(), build({ id: "build-2", config_snapshot: null }));
+
+    expect(result.fields.some((field) => field.field.startsWith("config_snapshot."))).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * 构建对比
+ * 同一应用（包名相同）的两个构建逐字段比较，QA 用来确认两个发布版本之间改了什么
+ * 构建记录字段之外，配置快照（壳配置、推送、高级设置等）逐项比较
+ */
+
+import { BUILD_CONFIG_SNAPSHOT_FIELDS, formatSnapshotValue, type BuildConfigSnapshot } from "./config-snapshot";
+
+export interface BuildDiffSource {
+  id: string;
+  platform: string;
+  app_name: string;
+  package_name: string;
+  version_name: string;
+  version_code: string;
+  url: string;
+  privacy_policy?: string | null;
+  package_format?: string | null;
+  push_provider?: string | null;
+  deep_link_config?: { domains: string[] } | null;
+  build_type?: string | null;
+  uploaded_version?: string | null;
+  upload_description?: string | null;
+  status: string;
+  file_size: number | null;
+  created_at: string;
+  // 构建列表不返回快照，由构建详情加载
+  config_snapshot?: BuildConfigSnapshot | null;
+}
+
+export interface BuildFieldDiff {
+  field: string;
+  label: { zh: string; en: string };
+  before: string;
+  after: string;
+  changed: boolean;
+}
+
+const DIFF_FIELDS: Array<{
+  field: string;
+  label: { zh: string; en: string };
+  value: (build: BuildDiffSource) => string;
+}> = [
+  { field: "platform", label: { zh: "平台", en: "Platform" }, value: (b) => b.platform },
+  { field: "app_name", label: { zh: "应用名称", en: "App name" }, value: (b) => b.app_name },
+  { field: "package_name", label: { zh: "包名 / AppID", en: "Package / App ID" }, value: (b) => b.package_name },
+  { field: "version_name", label: { zh: "版本号", en: "Version" }, value: (b) => b.version_name },
+  { field: "version_code", label: { zh: "构建号", en: "Build number" }, value: (b) => String(b.version_code ?? "") },
+  { field: "url", label: { zh: "网址", en: "URL" }, value: (b) => b.url },
+  { field: "privacy_policy", label: { zh: "隐私政策 / 描述", en: "Privacy policy / description" }, value: (b) => b.privacy_policy || "" },
+  { field: "package_format", label: { zh: "安装包格式", en: "Package format" }, value: (b) => b.package_format || "" },
+  { field: "build_type", label: { zh: "构建类型", en: "Build type" }, value: (b) => b.build_type || "" },
+  { field: "push_provider", label: { zh: "推送服务", en: "Push provider" }, value: (b) => b.push_provider || "" },
+  {
+    field: "deep_link_config",
+    label: { zh: "深度链接域名", en: "Deep link domains" },
+    value: (b) => (b.deep_link_config?.domains || []).join(", "),
+  },
+  { field: "uploaded_version", label: { zh: "已上传版本", en: "Uploaded version" }, value: (b) => b.uploaded_version || "" },
+  { field: "upload_description", label: { zh: "上传描述", en: "Upload description" }, value: (b) => b.upload_description || "" },
+  { field: "status", label: { zh: "状态", en: "Status" }, value: (b) => b.status },
+  {
+    field: "file_size",
+    label: { zh: "文件大小（字节）", en: "File size (bytes)" },
+    value: (b) => (b.file_size === null || b.file_size === undefined ? "" : String(b.file_size)),
+  },
+  { field: "created_at", label: { zh: "构建时间", en: "Built at" }, value: (b) => b.created_at },
+];
+
+/**
+ * 同一应用：包名相同（桌面端 / 浏览器扩展的包名由应用名称生成）
+ */
+export function isSameApp(a: BuildDiffSource, b: BuildDiffSource): boolean {
+  return a.package_name === b.package_name;
+}
+
+/**
+ * 快照中任一构建设置过的配置项（两个构建都没有的配置项不显示）
+ */
+function diffConfigSnapshots(older: BuildDiffSource, newer: BuildDiffSource): BuildFieldDiff[] {
+  return BUILD_CONFIG_SNAPSHOT_FIELDS.flatMap(({ key, label }) => {
+    const before = formatSnapshotValue(older.config_snapshot?.[key]);
+    const after = formatSnapshotValue(newer.config_snapshot?.[key]);
+    if (!before && !after) return [];
+    return [{ field: `config_snapshot.${key}`, label, before, after, changed: before !== after }];
+  });
+}
+
+/**
+ * 按构建时间排序后逐字段比较（before 为较早的构建）
+ */
+export function diffBuilds(a: BuildDiffSource, b: BuildDiffSource): {
+  older: BuildDiffSource;
+  newer: BuildDiffSource;
+  fields: BuildFieldDiff[];
+} {
+  const [older, newer] = new Date(a.created_at).getTime() <= new Date(b.created_at).getTime() ? [a, b] : [b, a];
+  const fields = DIFF_FIELDS.map(({ field, label, value }) => {
+    const before = value(older);
+    const after = value(newer);
+    return { field, label, before, after, changed: before !== after };
+  });
+  return { older, newer, fields: [...fields, ...diffConfigSnapshots(older, newer)] };
+}
@@ -0,0 +1,72 @@
+/**
+ * 「修改后重新构建」
+ * 构建记录保存了网址、应用名称、包名、版本、隐私政策、图标和安装包格式，其余设置保存在配置快照中，生成器据此预填；
+ * 构建号不预填，重新构建时自动递增；微信上传密钥不保存，需要重新选择
+ */
+
+import { api } from "@/lib/api";
+import type { ProjectIconPlatform } from "@/lib/config/app-project";
+
+export interface RebuildSource {
+  id: string;
+  platform: string;
+  app_name: string;
+  package_name: string;
+  version_name: string;
+  url: string;
+  privacy_policy: string | null;
+  package_format?: string | null;
+  deep_link_config?: { domains: string[] } | null;
+  build_type?: string | null;
+  // 配置快照（parseBuildConfigSnapshot 读取，快照功能上线前的构建为空）
+  config_snapshot?: unknown;
+  // 图标临时链接（已过期的构建为空）
+  iconUrl?: string | null;
+}
+
+// 批量构建把 android-source / harmonyos-source 记为 android / harmonyos
+const GENERATOR_PLATFORMS: Record<string, string> = {
+  android: "android-source",
+  harmonyos: "harmonyos-source",
+};
+
+const ICON_PLATFORMS: Record<string, ProjectIconPlatform> = {
+  android: "android",
+  "android-source": "android",
+  "android-apk": "android",
+  ios: "ios",
+  "ios-ipa": "ios",
+  harmonyos: "harmonyos",
+  "harmonyos-source": "harmonyos",
+  "harmonyos-hap": "harmonyos",
+  alipay: "alipay",
+  xiaohongshu: "xiaohongshu",
+  chrome: "chrome",
+  windows: "windows",
+  macos: "macos",
+  linux: "linux",
+};
+
+/**
+ * 构建记录的平台 → 生成器平台选择器 ID
+ */
+export function getGeneratorPlatform(platform: string): string {
+  return GENERATOR_PLATFORMS[platform] || platform;
+}
+
+/**
+ * 构建记录的平台 → 生成器图标状态（微信小程序没有图标）
+ */
+export function getBuildIconPlatform(platform: string): ProjectIconPlatform | null {
+  return ICON_PLATFORMS[platform] || null;
+}
+
+export async function fetchRebuildSource(buildId: string): Promise<RebuildSource> {
+  const response = await fetch(api.builds.get(buildId));
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.build) {
+    throw new Error(data.message || data.error || "Failed to load build");
+  }
+  // 国内版返回 CloudBase 文档（_id）
+  return { ...data.build, id: data.build.id || data.build._id || buildId };
+}
@@ -0,0 +1,198 @@
+/**
+ * Android 高级配置
+ * 对应模板 assets/appConfig.json 中的 navigation / styling / permissions 字段
+ * 前端「高级设置」表单、构建 API 校验、构建服务合并配置共用同一份 schema
+ * 跨平台通用行为见 native-shell.ts，此处字段在其之后合并，优先级更高
+ */
+
+import { z } from "zod";
+import { nativeShellLinkRuleSchema, toRegexInternalExternalRules } from "@/lib/config/native-shell";
+
+const hexColor = z
+  .string()
+  .regex(/^#([0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/, "Color must be #RRGGBB or #AARRGGBB");
+
+const httpUrl = z
+  .string()
+  .max(2048)
+  .regex(/^https?:\/\//i, "URL must start with http:// or https://");
+
+const navItemSchema = z.object({
+  label: z.string().trim().min(1).max(30),
+  url: httpUrl,
+  // Font Awesome 图标名，例如 "fas fa-home"
+  icon: z.string().trim().max(50).optional(),
+});
+
+export const androidAdvancedConfigSchema = z
+  .object({
+    navigation: z
+      .object({
+        pullToRefresh: z.boolean().optional(),
+        showOfflinePage: z.boolean().optional(),
+        offlineTimeoutSeconds: z.number().int().min(1).max(120).optional(),
+        showRefreshButton: z.boolean().optional(),
+        tabNavigation: z
+          .object({
+            active: z.boolean(),
+            items: z.array(navItemSchema).max(5),
+          })
+          .optional(),
+        sidebarNavigation: z
+          .object({
+            active: z.boolean(),
+            items: z.array(navItemSchema).max(20),
+          })
+          .optional(),
+        // 自定义链接规则，优先级高于模板内置规则
+        linkRules: z.array(nativeShellLinkRuleSchema).max(50).optional(),
+      })
+      .strict()
+      .optional(),
+    styling: z
+      .object({
+        theme: z.enum(["light", "dark", "auto"]).optional(),
+        backgroundColor: hexColor.optional(),
+        backgroundColorDark: hexColor.optional(),
+        statusBarBackgroundColor: hexColor.optional(),
+        statusBarBackgroundColorDark: hexColor.optional(),
+        accentColor: hexColor.optional(),
+        accentColorDark: hexColor.optional(),
+        pullToRefreshColor: hexColor.optional(),
+        pullToRefreshColorDark: hexColor.optional(),
+      })
+      .strict()
+      .optional(),
+    permissions: z
+      .object({
+        usesGeolocation: z.boolean().optional(),
+        enableWebRTCamera: z.boolean().optional(),
+        enableWebRTCMicrophone: z.boolean().optional(),
+        downloadToPublicStorage: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type AndroidAdvancedConfig = z.infer<typeof androidAdvancedConfigSchema>;
+export type AndroidNavItem = z.infer<typeof navItemSchema>;
+export type AndroidLinkRule = z.infer<typeof nativeShellLinkRuleSchema>;
+
+/**
+ * 校验前端提交的高级配置
+ * 接受 JSON 字符串（FormData）或对象（batch JSON 请求），空值视为未配置
+ */
+export function parseAndroidAdvancedConfig(
+  raw: unknown
+): { success: true; data: AndroidAdvancedConfig | null } | { success: false; error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { success: true, data: null };
+  }
+
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { success: false, error: "advancedConfig must be valid JSON" };
+    }
+  }
+
+  const result = androidAdvancedConfigSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.join(".") || "advancedConfig";
+    return { success: false, error: `${field}: ${issue.message}` };
+  }
+
+  return { success: true, data: result.data };
+}
+
+/**
+ * 将高级配置合并到模板 appConfig.json
+ * 只覆盖用户填写的字段，其余保持模板默认值
+ */
+export function applyAndroidAdvancedConfig(
+  appConfig: Record<string, any>,
+  advanced: AndroidAdvancedConfig | null | undefined
+): void {
+  if (!advanced) return;
+
+  const { navigation, styling, permissions } = advanced;
+
+  if (navigation) {
+    const nav = (appConfig.navigation ??= {});
+    if (navigation.pullToRefresh !== undefined) nav.androidPullToRefresh = navigation.pullToRefresh;
+    if (navigation.showOfflinePage !== undefined) nav.androidShowOfflinePage = navigation.showOfflinePage;
+    if (navigation.offlineTimeoutSeconds !== undefined) {
+      nav.androidConnectionOfflineTime = navigation.offlineTimeoutSeconds;
+    }
+    if (navigation.showRefreshButton !== undefined) nav.androidShowRefreshButton = navigation.showRefreshButton;
+
+    if (navigation.tabNavigation) {
+      const { active, items } = navigation.tabNavigation;
+      nav.tabNavigation = {
+        tabSelectionConfig: items.length > 0 ? [{ id: "1", regex: ".*" }] : [],
+        tabMenus: items.length > 0 ? [{ id: "1", items: items.map(toMenuItem) }] : [],
+        active: active && items.length > 0,
+      };
+    }
+
+    if (navigation.sidebarNavigation) {
+      const { active, items } = navigation.sidebarNavigation;
+      nav.sidebarNavigation = {
+        menuSelectionConfig: {
+          redirectLocations: [{ regex: ".*", menuName: "default", loggedIn: true }],
+        },
+        menus: [{ active: active && items.length > 0, name: "default", items: items.map(toMenuItem) }],
+      };
+    }
+
+    if (navigation.linkRules && navigation.linkRules.length > 0) {
+      const regexConfig = (nav.regexInternalExternal ??= { rules: [], active: true });
+      regexConfig.rules = [...toRegexInternalExternalRules(navigation.linkRules), ...(regexConfig.rules || [])];
+      regexConfig.active = true;
+    }
+  }
+
+  if (styling) {
+    const style = (appConfig.styling ??= {});
+    if (styling.theme !== undefined) style.androidTheme = styling.theme;
+    if (styling.backgroundColor !== undefined) style.androidBackgroundColor = styling.backgroundColor;
+    if (styling.backgroundColorDark !== undefined) style.androidBackgroundColorDark = styling.backgroundColorDark;
+    if (styling.statusBarBackgroundColor !== undefined) {
+      style.androidStatusBarBackgroundColor = styling.statusBarBackgroundColor;
+    }
+    if (styling.statusBarBackgroundColorDark !== undefined) {
+      style.androidStatusBarBackgroundColorDark = styling.statusBarBackgroundColorDark;
+    }
+    if (styling.accentColor !== undefined) style.androidAccentColor = styling.accentColor;
+    if (styling.accentColorDark !== undefined) style.androidAccentColorDark = styling.accentColorDark;
+    if (styling.pullToRefreshColor !== undefined) style.androidPullToRefreshColor = styling.pullToRefreshColor;
+    if (styling.pullToRefreshColorDark !== undefined) {
+      style.androidPullToRefreshColorDark = styling.pullToRefreshColorDark;
+    }
+  }
+
+  if (permissions) {
+    const perms = (appConfig.permissions ??= {});
+    if (permissions.usesGeolocation !== undefined) perms.usesGeolocation = permissions.usesGeolocation;
+    if (permissions.enableWebRTCamera !== undefined) perms.enableWebRTCamera = permissions.enableWebRTCamera;
+    if (permissions.enableWebRTCMicrophone !== undefined) {
+      perms.enableWebRTCMicrophone = permissions.enableWebRTCMicrophone;
+    }
+    if (permissions.downloadToPublicStorage !== undefined) {
+      perms.androidDownloadToPublicStorage = permissions.downloadToPublicStorage;
+    }
+  }
+}
+
+function toMenuItem(item: AndroidNavItem) {
+  return {
+    label: item.label,
+    url: item.url,
+    icon: item.icon || "",
+    subLinks: [],
+  };
+}
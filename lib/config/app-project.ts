@@ -0,0 +1,99 @@
+/**
+ * 应用项目配置
+ * - 保存网址、各平台标识（包名、Bundle ID、小程序 AppID、HarmonyOS bundleName）和生成器中的其他设置
+ * - 「重新构建」时用于预填生成器；设置在构建时仍由构建 API 逐项校验，这里只限制结构和大小
+ * - 图标单独存储，每个平台一份
+ */
+
+import { z } from "zod";
+
+export const MAX_PROJECT_NAME_LENGTH = 100;
+// 设置中包含推送配置文件、小程序 tabBar 图标等内容，限制序列化后的总大小
+export const MAX_PROJECT_CONFIG_BYTES = 1024 * 1024;
+
+// 可保存图标的平台（与生成器中的图标上传一一对应）
+export const PROJECT_ICON_PLATFORMS = [
+  "android",
+  "ios",
+  "harmonyos",
+  "alipay",
+  "xiaohongshu",
+  "chrome",
+  "windows",
+  "macos",
+  "linux",
+] as const;
+
+export type ProjectIconPlatform = (typeof PROJECT_ICON_PLATFORMS)[number];
+
+export function isProjectIconPlatform(value: unknown): value is ProjectIconPlatform {
+  return typeof value === "string" && (PROJECT_ICON_PLATFORMS as readonly string[]).includes(value);
+}
+
+const identifier = z.string().trim().max(255).optional();
+
+export const appProjectConfigSchema = z
+  .object({
+    // 生成器中选中的平台 ID（android-source、ios-ipa 等）
+    platforms: z.array(z.string().trim().min(1).max(40)).max(20).default([]),
+    identifiers: z
+      .object({
+        packageName: identifier,
+        bundleId: identifier,
+        harmonyBundleName: identifier,
+        wechatAppId: identifier,
+        alipayAppId: identifier,
+        xiaohongshuAppId: identifier,
+      })
+      .strict()
+      .default({}),
+    // 版本号、壳配置、高级配置等，键名与生成器状态一致
+    settings: z.record(z.unknown()).default({}),
+  })
+  .strict()
+  .refine(
+    (config) => new TextEncoder().encode(JSON.stringify(config)).length <= MAX_PROJECT_CONFIG_BYTES,
+    `Project settings must not exceed ${MAX_PROJECT_CONFIG_BYTES / 1024} KB`
+  );
+
+export const appProjectInputSchema = z
+  .object({
+    name: z.string().trim().min(1).max(MAX_PROJECT_NAME_LENGTH),
+    url: z
+      .string()
+      .trim()
+      .url()
+      .refine((value) => /^https?:\/\//.test(value), "URL must use HTTP or HTTPS"),
+    config: appProjectConfigSchema,
+  })
+  .strict();
+
+export type AppProjectConfig = z.infer<typeof appProjectConfigSchema>;
+export type AppProjectInput = z.infer<typeof appProjectInputSchema>;
+
+/**
+ * 校验前端提交的项目
+ * partial 为 true 时（更新项目）所有字段可选，未提交的字段保持不变
+ */
+export function parseAppProjectInput(
+  raw: unknown,
+  options: { partial: true }
+): { success: true; data: Partial<AppProjectInput> } | { success: false; error: string };
+export function parseAppProjectInput(
+  raw: unknown,
+  options?: { partial?: false }
+): { success: true; data: AppProjectInput } | { success: false; error: string };
+export function parseAppProjectInput(
+  raw: unknown,
+  options: { partial?: boolean } = {}
+): { success: true; data: Partial<AppProjectInput> } | { success: false; error: string } {
+  const schema = options.partial ? appProjectInputSchema.partial() : appProjectInputSchema;
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.join(".") || "project";
+    return { success: false, error: `${field}: ${issue.message}` };
+  }
+
+  return { success: true, data: result.data };
+}
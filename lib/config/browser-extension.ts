@@ -0,0 +1,216 @@
+/**
+ * 浏览器扩展输出配置
+ * - chrome：Chrome 扩展目录（开发者模式加载，与之前的输出一致）
+ * - firefox：Firefox 附加组件 ZIP（写入 browser_specific_settings.gecko，适配 MV3 差异），可直接上传 AMO
+ * - edge：Microsoft Edge 加载项 ZIP，可直接上传合作伙伴中心
+ * 打开方式（弹窗 / 侧边栏 / 新标签页）、右键菜单、弹窗尺寸和加载 / 超时文案写入 manifest.json 的 __config
+ */
+
+import { z } from "zod";
+
+export const BROWSER_EXTENSION_TARGETS = ["chrome", "firefox", "edge"] as const;
+
+export type BrowserExtensionTarget = (typeof BROWSER_EXTENSION_TARGETS)[number];
+
+export const DEFAULT_BROWSER_EXTENSION_TARGETS: BrowserExtensionTarget[] = ["chrome"];
+
+// 点击工具栏图标打开弹窗、在侧边栏中打开（Chrome 114+），或替换新标签页
+export const EXTENSION_MODES = ["popup", "sidePanel", "newTab"] as const;
+
+export type ExtensionMode = (typeof EXTENSION_MODES)[number];
+
+export const DEFAULT_EXTENSION_MODE: ExtensionMode = "popup";
+
+// 右键菜单「在 <应用> 中打开」出现的位置：页面空白处、链接、选中文字
+export const EXTENSION_CONTEXT_MENU_CONTEXTS = ["page", "link", "selection"] as const;
+
+export type ExtensionContextMenuContext = (typeof EXTENSION_CONTEXT_MENU_CONTEXTS)[number];
+
+export const EXTENSION_POPUP_LANGUAGES = ["zh", "en"] as const;
+
+export type ExtensionPopupLanguage = (typeof EXTENSION_POPUP_LANGUAGES)[number];
+
+export interface ExtensionPopupTexts {
+  loadingText: string;
+  timeoutText: string;
+  openFullText: string;
+}
+
+export const DEFAULT_EXTENSION_POPUP_TEXTS: Record<ExtensionPopupLanguage, ExtensionPopupTexts> = {
+  zh: {
+    loadingText: "加载中...",
+    timeoutText: "加载超时，请刷新或打开完整网站。",
+    openFullText: "打开完整网站",
+  },
+  en: {
+    loadingText: "Loading...",
+    timeoutText: "Loading timed out. Refresh or open the full website.",
+    openFullText: "Open full website",
+  },
+};
+
+// Chrome 限制弹窗最大 800 x 600
+export const EXTENSION_POPUP_LIMITS = {
+  width: { min: 200, max: 800, default: 360 },
+  height: { min: 200, max: 600, default: 520 },
+};
+
+// 扩展版本号：1 - 4 段整数（每段 0 - 65535），不能有前导 0，三个商店规则一致
+const EXTENSION_VERSION_PATTERN = /^(0|[1-9]\d{0,4})(\.(0|[1-9]\d{0,4})){0,3}$/;
+
+// Firefox 扩展 ID：邮箱格式或带花括号的 GUID，最长 80 个字符
+export const GECKO_ID_PATTERN =
+  /^(\{[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}|[a-z0-9-._]*@[a-z0-9-._]+)$/i;
+
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .optional()
+    .transform((value) => value || undefined);
+
+export const extensionPopupConfigSchema = z
+  .object({
+    width: z
+      .number()
+      .int()
+      .min(EXTENSION_POPUP_LIMITS.width.min)
+      .max(EXTENSION_POPUP_LIMITS.width.max)
+      .default(EXTENSION_POPUP_LIMITS.width.default),
+    height: z
+      .number()
+      .int()
+      .min(EXTENSION_POPUP_LIMITS.height.min)
+      .max(EXTENSION_POPUP_LIMITS.height.max)
+      .default(EXTENSION_POPUP_LIMITS.height.default),
+    // 未填写的文案按语言使用默认值，未指定语言时国际版用英文、国内版用中文
+    language: z.enum(EXTENSION_POPUP_LANGUAGES).optional(),
+    loadingText: optionalText(60),
+    timeoutText: optionalText(200),
+    openFullText: optionalText(60),
+  })
+  .strict();
+
+export const extensionContextMenuConfigSchema = z
+  .object({
+    enabled: z.boolean(),
+    // 留空时使用「在 <应用名称> 中打开」
+    title: optionalText(60),
+    contexts: z
+      .array(z.enum(EXTENSION_CONTEXT_MENU_CONTEXTS))
+      .min(1, "Select at least one menu location")
+      .default(["page", "link"]),
+  })
+  .strict();
+
+export const browserExtensionConfigSchema = z
+  .object({
+    targets: z
+      .array(z.enum(BROWSER_EXTENSION_TARGETS))
+      .min(1, "Select at least one browser")
+      .transform((targets) => BROWSER_EXTENSION_TARGETS.filter((target) => targets.includes(target)))
+      .default(DEFAULT_BROWSER_EXTENSION_TARGETS),
+    // 留空时由构建服务根据应用名称和网站域名生成固定的 ID
+    firefoxId: z
+      .string()
+      .trim()
+      .max(80)
+      .regex(GECKO_ID_PATTERN, "Firefox add-on ID must look like name@example.com or a {GUID}")
+      .optional()
+      .transform((value) => value || undefined),
+    mode: z.enum(EXTENSION_MODES).default(DEFAULT_EXTENSION_MODE),
+    popup: extensionPopupConfigSchema.default({}),
+    contextMenu: extensionContextMenuConfigSchema.optional(),
+  })
+  .strict();
+
+export type BrowserExtensionConfig = z.infer<typeof browserExtensionConfigSchema>;
+export type ExtensionPopupConfig = z.infer<typeof extensionPopupConfigSchema>;
+export type ExtensionContextMenuConfig = z.infer<typeof extensionContextMenuConfigSchema>;
+
+/**
+ * 校验前端提交的浏览器扩展配置
+ * 接受 JSON 字符串（FormData）或对象（batch JSON 请求），空值视为只输出 Chrome 扩展
+ */
+export function parseBrowserExtensionConfig(
+  raw: unknown
+): { success: true; data: BrowserExtensionConfig | null } | { success: false; error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { success: true, data: null };
+  }
+
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { success: false, error: "extensionConfig must be valid JSON" };
+    }
+  }
+
+  const result = browserExtensionConfigSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.join(".") || "extensionConfig";
+    return { success: false, error: `${field}: ${issue.message}` };
+  }
+
+  return { success: true, data: result.data };
+}
+
+export function isBrowserExtensionVersion(value: string): boolean {
+  return EXTENSION_VERSION_PATTERN.test(value) && value.split(".").every((part) => Number(part) <= 65535);
+}
+
+/**
+ * 合并弹窗配置：未填写的文案使用对应语言的默认值
+ */
+export function resolveExtensionPopupConfig(
+  popup: ExtensionPopupConfig | null | undefined,
+  fallbackLanguage: ExtensionPopupLanguage
+): { width: number; height: number } & ExtensionPopupTexts {
+  const defaults = DEFAULT_EXTENSION_POPUP_TEXTS[popup?.language || fallbackLanguage];
+  return {
+    width: popup?.width ?? EXTENSION_POPUP_LIMITS.width.default,
+    height: popup?.height ?? EXTENSION_POPUP_LIMITS.height.default,
+    loadingText: popup?.loadingText || defaults.loadingText,
+    timeoutText: popup?.timeoutText || defaults.timeoutText,
+    openFullText: popup?.openFullText || defaults.openFullText,
+  };
+}
+
+/**
+ * 合并右键菜单配置：未启用时返回 null，未填写标题时按语言生成
+ */
+export function resolveExtensionContextMenu(
+  contextMenu: ExtensionContextMenuConfig | null | undefined,
+  appName: string,
+  language: ExtensionPopupLanguage
+): { title: string; contexts: ExtensionContextMenuContext[] } | null {
+  if (!contextMenu?.enabled) return null;
+  return {
+    title: contextMenu.title || (language === "zh" ? `在 ${appName} 中打开` : `Open in ${appName}`),
+    contexts: contextMenu.contexts,
+  };
+}
+
+/**
+ * 构建记录 package_format 字段的值，例如 chrome,firefox
+ */
+export function getBrowserExtensionPackageFormat(targets: readonly BrowserExtensionTarget[]): string {
+  return BROWSER_EXTENSION_TARGETS.filter((target) => targets.includes(target)).join(",");
+}
+
+export function parseBrowserExtensionPackageFormat(value: unknown): BrowserExtensionTarget[] | null {
+  if (typeof value !== "string" || !value) return null;
+  const targets = value.split(",");
+  if (!targets.every((target) => (BROWSER_EXTENSION_TARGETS as readonly string[]).includes(target))) return null;
+  return targets as BrowserExtensionTarget[];
+}
+
+export function getBrowserExtensionTargetLabel(target: BrowserExtensionTarget): string {
+  if (target === "firefox") return "Firefox";
+  if (target === "edge") return "Edge";
+  return "Chrome";
+}
@@ -0,0 +1,141 @@
+/**
+ * 深度链接 / App Links 配置
+ * - Android: appConfig.navigation.deepLinkDomains + AppLinksActivity 的 autoVerify intent-filter
+ * - iOS: appConfig.navigation.deepLinkDomains + Project.entitlements 的 associated-domains
+ * 网站侧需要托管的 assetlinks.json / apple-app-site-association 由构建记录实时生成
+ */
+
+import { z } from "zod";
+
+export type DeepLinkPlatform = "android" | "ios";
+
+// 支持 *.example.com 形式的子域名通配（Android / iOS 均支持）
+const DOMAIN_PATTERN = /^(\*\.)?(?!-)[a-z0-9-]{1,63}(?<!-)(\.(?!-)[a-z0-9-]{1,63}(?<!-))*\.[a-z]{2,63}$/;
+const SHA256_FINGERPRINT_PATTERN = /^([0-9A-F]{2}:){31}[0-9A-F]{2}$/;
+
+export const deepLinkConfigSchema = z
+  .object({
+    domains: z
+      .array(
+        z
+          .string()
+          .trim()
+          .toLowerCase()
+          .regex(DOMAIN_PATTERN, "Invalid domain (use example.com, without scheme or path)")
+      )
+      .max(20),
+    // Apple Developer Team ID，用于 apple-app-site-association 的 appID（TEAMID.bundleId）
+    appleTeamId: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-Z0-9]{10}$/, "Apple Team ID must be 10 letters or digits")
+      .optional(),
+    // 额外的签名证书指纹（例如 Google Play 应用签名证书），托管密钥库的指纹会自动加入
+    sha256CertFingerprints: z
+      .array(
+        z
+          .string()
+          .trim()
+          .toUpperCase()
+          .regex(SHA256_FINGERPRINT_PATTERN, "SHA-256 fingerprint must look like AB:CD:...")
+      )
+      .max(5)
+      .optional(),
+  })
+  .strict();
+
+export type DeepLinkConfig = z.infer<typeof deepLinkConfigSchema>;
+
+/**
+ * 校验前端提交的深度链接配置
+ * 接受 JSON 字符串（FormData）或对象（batch JSON 请求），空值或没有域名视为未配置
+ */
+export function parseDeepLinkConfig(
+  raw: unknown
+): { success: true; data: DeepLinkConfig | null } | { success: false; error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { success: true, data: null };
+  }
+
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { success: false, error: "deepLinkConfig must be valid JSON" };
+    }
+  }
+
+  const result = deepLinkConfigSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.join(".") || "deepLinkConfig";
+    return { success: false, error: `${field}: ${issue.message}` };
+  }
+
+  if (result.data.domains.length === 0) {
+    return { success: true, data: null };
+  }
+
+  return {
+    success: true,
+    data: { ...result.data, domains: Array.from(new Set(result.data.domains)) },
+  };
+}
+
+/**
+ * 将深度链接域名写入模板 appConfig 对象（Android / iOS Median 模板字段相同）
+ */
+export function applyDeepLinkConfig(
+  appConfig: Record<string, any>,
+  deepLinks: DeepLinkConfig | null | undefined
+): void {
+  if (!deepLinks || deepLinks.domains.length === 0) return;
+
+  const nav = (appConfig.navigation ??= {});
+  nav.deepLinkDomains = {
+    ...nav.deepLinkDomains,
+    domains: deepLinks.domains,
+    enableAndroidApplinks: true,
+  };
+}
+
+/**
+ * 生成 Digital Asset Links 文件（https://<domain>/.well-known/assetlinks.json）
+ */
+export function buildAssetLinksJson(packageName: string, fingerprints: string[]): string {
+  const statements = [
+    {
+      relation: ["delegate_permission/common.handle_all_urls"],
+      target: {
+        namespace: "android_app",
+        package_name: packageName,
+        sha256_cert_fingerprints: Array.from(new Set(fingerprints.map((fp) => fp.toUpperCase()))),
+      },
+    },
+  ];
+  return JSON.stringify(statements, null, 2);
+}
+
+/**
+ * 生成 apple-app-site-association 文件（https://<domain>/.well-known/apple-app-site-association）
+ * 未填写 Team ID 时使用 TEAMID 占位，需替换后再托管
+ */
+export function buildAppleAppSiteAssociation(bundleId: string, appleTeamId?: string | null): string {
+  const appId = `${appleTeamId || "TEAMID"}.${bundleId}`;
+  const association = {
+    applinks: {
+      details: [
+        {
+          appIDs: [appId],
+          components: [{ "/": "*" }],
+        },
+      ],
+    },
+    webcredentials: {
+      apps: [appId],
+    },
+  };
+  return JSON.stringify(association, null, 2);
+}
@@ -0,0 +1,171 @@
+/**
+ * 桌面端壳运行时配置
+ * Windows / macOS / Linux 三个 Tauri 壳共用同一份配置，
+ * 与 url / title 一起写入 APPCONFIG 资源（Windows）或 resources/app-config.json（macOS / Linux）
+ */
+
+import { z } from "zod";
+
+// 支持 *.example.com 形式的子域名通配
+const DOMAIN_PATTERN = /^(\*\.)?(?!-)[a-z0-9-]{1,63}(?<!-)(\.(?!-)[a-z0-9-]{1,63}(?<!-))*\.[a-z]{2,63}$/;
+
+const windowDimension = (max: number) => z.number().int().min(200).max(max);
+
+export const DESKTOP_TRAY_ACTIONS = ["show", "reload", "openUrl", "quit"] as const;
+
+export type DesktopTrayAction = (typeof DESKTOP_TRAY_ACTIONS)[number];
+
+export const desktopTrayMenuItemSchema = z
+  .object({
+    label: z.string().trim().min(1, "Menu label is required").max(60),
+    action: z.enum(DESKTOP_TRAY_ACTIONS),
+    // action 为 openUrl 时在系统浏览器中打开
+    url: z.string().trim().url().max(2000).optional(),
+  })
+  .strict()
+  .refine((item) => item.action !== "openUrl" || Boolean(item.url), {
+    message: "url is required for openUrl items",
+    path: ["url"],
+  });
+
+export const desktopShellConfigSchema = z
+  .object({
+    window: z
+      .object({
+        width: windowDimension(7680).optional(),
+        height: windowDimension(4320).optional(),
+        minWidth: windowDimension(7680).optional(),
+        minHeight: windowDimension(4320).optional(),
+        resizable: z.boolean().optional(),
+        maximized: z.boolean().optional(),
+      })
+      .strict()
+      .refine((window) => !window.width || !window.minWidth || window.minWidth <= window.width, {
+        message: "minWidth must not exceed width",
+        path: ["minWidth"],
+      })
+      .refine((window) => !window.height || !window.minHeight || window.minHeight <= window.height, {
+        message: "minHeight must not exceed height",
+        path: ["minHeight"],
+      })
+      .optional(),
+    tray: z
+      .object({
+        enabled: z.boolean(),
+        // 关闭窗口时隐藏到托盘而不是退出
+        closeToTray: z.boolean().optional(),
+        menu: z.array(desktopTrayMenuItemSchema).max(10).optional(),
+      })
+      .strict()
+      .optional(),
+    // 再次启动时激活已有窗口，而不是打开第二个实例
+    singleInstance: z.boolean().optional(),
+    // 匹配的链接在系统浏览器中打开
+    externalLinkRegex: z
+      .string()
+      .max(500)
+      .refine((value) => {
+        try {
+          new RegExp(value);
+          return true;
+        } catch {
+          return false;
+        }
+      }, "Invalid regular expression")
+      .optional(),
+    // 允许在应用内导航的域名（为空时不限制），其他域名在系统浏览器中打开
+    allowedDomains: z
+      .array(
+        z
+          .string()
+          .trim()
+          .toLowerCase()
+          .regex(DOMAIN_PATTERN, "Invalid domain (use example.com, without scheme or path)")
+      )
+      .max(50)
+      .optional(),
+    // 完整替换 User-Agent；为空时使用系统 WebView 默认值
+    userAgent: z.string().trim().max(500).optional(),
+  })
+  .strict();
+
+export type DesktopShellConfig = z.infer<typeof desktopShellConfigSchema>;
+export type DesktopTrayMenuItem = z.infer<typeof desktopTrayMenuItemSchema>;
+
+export const DEFAULT_DESKTOP_WINDOW = {
+  width: 1200,
+  height: 800,
+  resizable: true,
+  maximized: false,
+};
+
+/**
+ * 启用托盘但未配置菜单时使用的默认菜单
+ */
+export const DEFAULT_DESKTOP_TRAY_MENU: DesktopTrayMenuItem[] = [
+  { label: "Show", action: "show" },
+  { label: "Quit", action: "quit" },
+];
+
+/**
+ * 校验前端提交的桌面端壳配置
+ * 接受 JSON 字符串（FormData）或对象（batch JSON 请求），空值视为未配置
+ */
+export function parseDesktopShellConfig(
+  raw: unknown
+): { success: true; data: DesktopShellConfig | null } | { success: false; error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { success: true, data: null };
+  }
+
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { success: false, error: "desktopConfig must be valid JSON" };
+    }
+  }
+
+  const result = desktopShellConfigSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.join(".") || "desktopConfig";
+    return { success: false, error: `${field}: ${issue.message}` };
+  }
+
+  return { success: true, data: result.data };
+}
+
+/**
+ * 生成三个桌面端模板共用的 app-config 对象
+ * 未配置的字段不写入，旧版模板只读取 url / title
+ */
+export function createDesktopAppConfig(
+  url: string,
+  title: string,
+  shell: DesktopShellConfig | null | undefined
+): Record<string, unknown> {
+  const appConfig: Record<string, unknown> = { url, title };
+  if (!shell) return appConfig;
+
+  if (shell.window) {
+    appConfig.window = { ...DEFAULT_DESKTOP_WINDOW, ...shell.window };
+  }
+  if (shell.tray?.enabled) {
+    appConfig.tray = {
+      enabled: true,
+      closeToTray: shell.tray.closeToTray ?? false,
+      menu: shell.tray.menu && shell.tray.menu.length > 0 ? shell.tray.menu : DEFAULT_DESKTOP_TRAY_MENU,
+    };
+  }
+  if (shell.singleInstance !== undefined) appConfig.singleInstance = shell.singleInstance;
+  if (shell.userAgent) appConfig.userAgent = shell.userAgent;
+
+  const navigation: Record<string, unknown> = {};
+  if (shell.externalLinkRegex) navigation.externalLinkRegex = shell.externalLinkRegex;
+  if (shell.allowedDomains && shell.allowedDomains.length > 0) navigation.allowedDomains = shell.allowedDomains;
+  if (Object.keys(navigation).length > 0) appConfig.navigation = navigation;
+
+  return appConfig;
+}
@@ -0,0 +1,125 @@
+/**
+ * 图标样式配置（自适应图标编辑器）
+ * 上传的图标作为前景图案，叠加背景色 / 渐变并按比例留出边距；单色图层用于 Android 13 主题图标
+ * 前端编辑器、构建 API 校验、各平台构建服务的图标处理共用同一份 schema
+ */
+
+import { z } from "zod";
+import { getDataUrlSize } from "@/lib/config/wechat-mini-program";
+
+// 图案最小占画布 40%（再小在启动器中难以辨认）
+export const MIN_ICON_SCALE = 0.4;
+// 单色图层以 data URL 随请求提交（写入 build_jobs.payload），限制大小
+export const MAX_MONOCHROME_IMAGE_BYTES = 256 * 1024;
+
+// 自适应图标安全区域占画布的比例：Android 66dp / 108dp，HarmonyOS 分层图标约 66%
+export const ANDROID_ADAPTIVE_SAFE_ZONE = 0.61;
+export const HARMONYOS_LAYERED_SAFE_ZONE = 0.66;
+
+const hexColor = z
+  .string()
+  .trim()
+  .regex(/^#[0-9a-fA-F]{6}$/, "Color must be in #RRGGBB format");
+
+const PNG_DATA_URL_PATTERN = /^data:image\/png;base64,([A-Za-z0-9+/]+={0,2})$/;
+
+export const iconStyleConfigSchema = z
+  .object({
+    background: z.discriminatedUnion("type", [
+      // 保持图标原有背景（透明区域在 iOS 等不支持透明的平台上为白色）
+      z.object({ type: z.literal("none") }).strict(),
+      z.object({ type: z.literal("color"), color: hexColor }).strict(),
+      z
+        .object({
+          type: z.literal("gradient"),
+          from: hexColor,
+          to: hexColor,
+          // CSS 角度：0 为从下到上，90 为从左到右
+          angle: z.number().int().min(0).max(359),
+        })
+        .strict(),
+    ]),
+    // 图案占画布的比例，1 表示不留边距
+    scale: z.number().min(MIN_ICON_SCALE).max(1),
+    monochrome: z.discriminatedUnion("mode", [
+      z.object({ mode: z.literal("none") }).strict(),
+      // 由图案的不透明区域生成
+      z.object({ mode: z.literal("auto") }).strict(),
+      z
+        .object({
+          mode: z.literal("custom"),
+          image: z
+            .string()
+            .regex(PNG_DATA_URL_PATTERN, "Monochrome layer must be a PNG data URL")
+            .refine(
+              (value) => getDataUrlSize(value) <= MAX_MONOCHROME_IMAGE_BYTES,
+              `Monochrome layer must not exceed ${MAX_MONOCHROME_IMAGE_BYTES / 1024} KB`
+            ),
+        })
+        .strict(),
+    ]),
+  })
+  .strict();
+
+export type IconStyleConfig = z.infer<typeof iconStyleConfigSchema>;
+export type IconBackground = IconStyleConfig["background"];
+
+export const DEFAULT_ICON_STYLE: IconStyleConfig = {
+  background: { type: "none" },
+  scale: 1,
+  monochrome: { mode: "none" },
+};
+
+/**
+ * 与默认值相同（不改变原有图标处理）
+ */
+export function isDefaultIconStyle(style: IconStyleConfig): boolean {
+  return style.background.type === "none" && style.scale === 1 && style.monochrome.mode === "none";
+}
+
+/**
+ * CSS 角度的线性渐变 → SVG objectBoundingBox 坐标（0~1），前端预览和服务端渲染共用
+ * 渐变线长度使起止颜色恰好落在对角，与 CSS linear-gradient 一致
+ */
+export function getGradientVector(angle: number): { x1: number; y1: number; x2: number; y2: number } {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const half = (Math.abs(dx) + Math.abs(dy)) / 2;
+  return {
+    x1: 0.5 - dx * half,
+    y1: 0.5 - dy * half,
+    x2: 0.5 + dx * half,
+    y2: 0.5 + dy * half,
+  };
+}
+
+/**
+ * 校验前端提交的图标样式
+ * 接受 JSON 字符串（FormData）或对象（batch JSON 请求），空值或默认样式视为未配置
+ */
+export function parseIconStyleConfig(
+  raw: unknown
+): { success: true; data: IconStyleConfig | null } | { success: false; error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { success: true, data: null };
+  }
+
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { success: false, error: "iconStyle must be valid JSON" };
+    }
+  }
+
+  const result = iconStyleConfigSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.join(".") || "iconStyle";
+    return { success: false, error: `${field}: ${issue.message}` };
+  }
+
+  return { success: true, data: isDefaultIconStyle(result.data) ? null : result.data };
+}
@@ -0,0 +1,38 @@
+/**
+ * Linux 安装包格式
+ * - tar.gz: 解压即用（附带 install.sh）
+ * - deb / rpm: 安装到 /opt/<包名>，附带桌面入口和 hicolor 图标
+ * - appimage: 单文件可执行（AppImage type 2 runtime + squashfs）
+ */
+
+export const LINUX_PACKAGE_FORMATS = ["tar.gz", "deb", "rpm", "appimage"] as const;
+
+export type LinuxPackageFormat = (typeof LINUX_PACKAGE_FORMATS)[number];
+
+export const DEFAULT_LINUX_PACKAGE_FORMAT: LinuxPackageFormat = "tar.gz";
+
+export function isLinuxPackageFormat(value: unknown): value is LinuxPackageFormat {
+  return typeof value === "string" && (LINUX_PACKAGE_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * 校验前端提交的安装包格式，空值使用默认的 tar.gz
+ */
+export function parseLinuxPackageFormat(
+  raw: unknown
+): { success: true; data: LinuxPackageFormat } | { success: false; error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { success: true, data: DEFAULT_LINUX_PACKAGE_FORMAT };
+  }
+  if (!isLinuxPackageFormat(raw)) {
+    return { success: false, error: `packageFormat must be one of: ${LINUX_PACKAGE_FORMATS.join(", ")}` };
+  }
+  return { success: true, data: raw };
+}
+
+/**
+ * 下载按钮上显示的格式名称
+ */
+export function getLinuxPackageLabel(format: LinuxPackageFormat): string {
+  return format === "appimage" ? "AppImage" : format === "tar.gz" ? "tar.gz" : format.toUpperCase();
+}
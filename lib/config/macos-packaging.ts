@@ -0,0 +1,37 @@
+/**
+ * macOS 安装包格式
+ * - zip: 解压后得到 .app
+ * - dmg: 磁盘映像（.app + 「应用程序」文件夹快捷方式，可选品牌背景图）
+ */
+
+export const MACOS_PACKAGE_FORMATS = ["zip", "dmg"] as const;
+
+export type MacOSPackageFormat = (typeof MACOS_PACKAGE_FORMATS)[number];
+
+export const DEFAULT_MACOS_PACKAGE_FORMAT: MacOSPackageFormat = "zip";
+
+export function isMacOSPackageFormat(value: unknown): value is MacOSPackageFormat {
+  return typeof value === "string" && (MACOS_PACKAGE_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * 校验前端提交的安装包格式，空值使用默认的 zip
+ */
+export function parseMacOSPackageFormat(
+  raw: unknown
+): { success: true; data: MacOSPackageFormat } | { success: false; error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { success: true, data: DEFAULT_MACOS_PACKAGE_FORMAT };
+  }
+  if (!isMacOSPackageFormat(raw)) {
+    return { success: false, error: `packageFormat must be one of: ${MACOS_PACKAGE_FORMATS.join(", ")}` };
+  }
+  return { success: true, data: raw };
+}
+
+/**
+ * 下载按钮上显示的格式名称
+ */
+export function getMacOSPackageLabel(format: MacOSPackageFormat): string {
+  return format.toUpperCase();
+}
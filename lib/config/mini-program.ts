@@ -0,0 +1,96 @@
+/**
+ * 支付宝 / 小红书小程序配置
+ * - AppID 格式按平台校验
+ * - web-view 业务域名写入 appConfig.js，模板中的 web-view 页面只加载这些域名下的网页
+ */
+
+import { z } from "zod";
+
+export const MINI_PROGRAM_PLATFORMS = ["alipay", "xiaohongshu"] as const;
+
+export type MiniProgramPlatform = (typeof MINI_PROGRAM_PLATFORMS)[number];
+
+// 支付宝小程序 AppID 为 16 位数字（以 20 开头）；小红书小程序 AppID 为开放平台分配的字母数字串
+const MINI_PROGRAM_APP_ID_PATTERNS: Record<MiniProgramPlatform, RegExp> = {
+  alipay: /^20\d{14}$/,
+  xiaohongshu: /^[a-z0-9]{8,32}$/i,
+};
+
+// 两个平台上传时都要求 x.y.z 格式的版本号
+const MINI_PROGRAM_VERSION_PATTERN = /^\d{1,3}\.\d{1,3}\.\d{1,3}$/;
+
+// 业务域名不带协议和路径，不支持通配符
+const DOMAIN_PATTERN = /^(?!-)[a-z0-9-]{1,63}(?<!-)(\.(?!-)[a-z0-9-]{1,63}(?<!-))*\.[a-z]{2,63}$/;
+
+export const MAX_WEB_VIEW_DOMAINS = 20;
+
+// 网址所在域名由构建服务自动加入，这里填写网页内跳转到的其他域名（微信小程序共用）
+export const webViewDomainsSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .toLowerCase()
+      .regex(DOMAIN_PATTERN, "Invalid domain (use example.com, without scheme or path)")
+  )
+  .max(MAX_WEB_VIEW_DOMAINS)
+  .transform((domains) => Array.from(new Set(domains)))
+  .default([]);
+
+export const miniProgramConfigSchema = z
+  .object({
+    webViewDomains: webViewDomainsSchema,
+  })
+  .strict();
+
+export type MiniProgramConfig = z.infer<typeof miniProgramConfigSchema>;
+
+/**
+ * 校验前端提交的小程序配置
+ * 接受 JSON 字符串（FormData）或对象（batch JSON 请求），空值视为未配置
+ */
+export function parseMiniProgramConfig(
+  raw: unknown
+): { success: true; data: MiniProgramConfig | null } | { success: false; error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { success: true, data: null };
+  }
+
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { success: false, error: "miniProgramConfig must be valid JSON" };
+    }
+  }
+
+  const result = miniProgramConfigSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.join(".") || "miniProgramConfig";
+    return { success: false, error: `${field}: ${issue.message}` };
+  }
+
+  return { success: true, data: result.data };
+}
+
+export function isMiniProgramPlatform(value: unknown): value is MiniProgramPlatform {
+  return typeof value === "string" && (MINI_PROGRAM_PLATFORMS as readonly string[]).includes(value);
+}
+
+export function isMiniProgramAppId(platform: MiniProgramPlatform, value: string): boolean {
+  return MINI_PROGRAM_APP_ID_PATTERNS[platform].test(value);
+}
+
+export function isMiniProgramVersion(value: string): boolean {
+  return MINI_PROGRAM_VERSION_PATTERN.test(value);
+}
+
+export function getMiniProgramAppIdHint(platform: MiniProgramPlatform): string {
+  return platform === "alipay" ? "16 digits starting with 20" : "8 - 32 letters or digits";
+}
+
+export function getMiniProgramLabel(platform: MiniProgramPlatform): string {
+  return platform === "alipay" ? "Alipay" : "Xiaohongshu";
+}
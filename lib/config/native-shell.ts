@@ -0,0 +1,158 @@
+/**
+ * 移动端原生壳通用配置
+ * Android / iOS / HarmonyOS 三个 WebView 壳共用同一份行为配置，
+ * 由各平台 mapper 写入对应模板的 appConfig.json（字段名各不相同）
+ */
+
+import { z } from "zod";
+
+export type NativeShellPlatform = "android" | "ios" | "harmonyos";
+
+export const nativeShellLinkRuleSchema = z.object({
+  regex: z
+    .string()
+    .min(1)
+    .max(500)
+    .refine((value) => {
+      try {
+        new RegExp(value);
+        return true;
+      } catch {
+        return false;
+      }
+    }, "Invalid regular expression"),
+  // internal: 应用内打开; external: 系统浏览器; appbrowser: 应用内浏览器（HarmonyOS 按 external 处理）
+  mode: z.enum(["internal", "external", "appbrowser"]),
+  label: z.string().trim().max(60).optional(),
+});
+
+export const nativeShellConfigSchema = z
+  .object({
+    pullToRefresh: z.boolean().optional(),
+    showOfflinePage: z.boolean().optional(),
+    offlineTimeoutSeconds: z.number().int().min(1).max(120).optional(),
+    // 完整替换 User-Agent；为空时保持各平台默认（Android 默认使用 Chrome UA）
+    userAgent: z.string().trim().max(500).optional(),
+    // 追加到默认 User-Agent 末尾，便于网站识别 App 内访问
+    userAgentSuffix: z
+      .string()
+      .trim()
+      .max(100)
+      .regex(/^[\x20-\x7E]*$/, "User agent suffix must be ASCII")
+      .optional(),
+    linkRules: z.array(nativeShellLinkRuleSchema).max(50).optional(),
+  })
+  .strict();
+
+export type NativeShellConfig = z.infer<typeof nativeShellConfigSchema>;
+export type NativeShellLinkRule = z.infer<typeof nativeShellLinkRuleSchema>;
+
+/**
+ * 校验前端提交的原生壳配置
+ * 接受 JSON 字符串（FormData）或对象（batch JSON 请求），空值视为未配置
+ */
+export function parseNativeShellConfig(
+  raw: unknown
+): { success: true; data: NativeShellConfig | null } | { success: false; error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { success: true, data: null };
+  }
+
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { success: false, error: "shellConfig must be valid JSON" };
+    }
+  }
+
+  const result = nativeShellConfigSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.join(".") || "shellConfig";
+    return { success: false, error: `${field}: ${issue.message}` };
+  }
+
+  return { success: true, data: result.data };
+}
+
+/**
+ * 将链接规则转换为模板 regexInternalExternal 规则格式
+ */
+export function toRegexInternalExternalRules(rules: NativeShellLinkRule[]) {
+  return rules.map((rule) => ({
+    regex: rule.regex,
+    mode: rule.mode,
+    label: rule.label || rule.regex,
+    pagesToTrigger: "custom",
+  }));
+}
+
+type AppConfigJson = Record<string, any>;
+
+// Median 模板（Android / iOS）字段前缀不同，其余结构一致
+function mapMedianShell(prefix: "android" | "ios") {
+  return (appConfig: AppConfigJson, shell: NativeShellConfig) => {
+    const general = (appConfig.general ??= {});
+    const nav = (appConfig.navigation ??= {});
+
+    if (shell.pullToRefresh !== undefined) nav[`${prefix}PullToRefresh`] = shell.pullToRefresh;
+    if (shell.showOfflinePage !== undefined) nav[`${prefix}ShowOfflinePage`] = shell.showOfflinePage;
+    if (shell.offlineTimeoutSeconds !== undefined) {
+      nav[`${prefix}ConnectionOfflineTime`] = shell.offlineTimeoutSeconds;
+    }
+
+    if (shell.userAgent) {
+      general.forceUserAgent = shell.userAgent;
+      general[`${prefix}ForceUserAgent`] = shell.userAgent;
+    }
+    if (shell.userAgentSuffix !== undefined) {
+      general.userAgentAdd = shell.userAgentSuffix;
+      general[`${prefix}UserAgentAdd`] = shell.userAgentSuffix;
+    }
+
+    if (shell.linkRules && shell.linkRules.length > 0) {
+      const regexConfig = (nav.regexInternalExternal ??= { rules: [], active: true });
+      regexConfig.rules = [...toRegexInternalExternalRules(shell.linkRules), ...(regexConfig.rules || [])];
+      regexConfig.active = true;
+    }
+  };
+}
+
+// HarmonyOS 壳（entry/src/main/ets/pages/Index.ets）读取的精简结构
+function mapHarmonyOSShell(appConfig: AppConfigJson, shell: NativeShellConfig) {
+  const general = (appConfig.general ??= {});
+  const nav = (appConfig.navigation ??= {});
+
+  if (shell.pullToRefresh !== undefined) nav.pullToRefresh = shell.pullToRefresh;
+  if (shell.showOfflinePage !== undefined) nav.showOfflinePage = shell.showOfflinePage;
+  if (shell.offlineTimeoutSeconds !== undefined) nav.connectionOfflineTime = shell.offlineTimeoutSeconds;
+  if (shell.userAgent) general.forceUserAgent = shell.userAgent;
+  if (shell.userAgentSuffix !== undefined) general.userAgentAdd = shell.userAgentSuffix;
+
+  if (shell.linkRules && shell.linkRules.length > 0) {
+    nav.regexInternalExternal = {
+      rules: toRegexInternalExternalRules(shell.linkRules),
+      active: true,
+    };
+  }
+}
+
+const NATIVE_SHELL_MAPPERS: Record<NativeShellPlatform, (appConfig: AppConfigJson, shell: NativeShellConfig) => void> = {
+  android: mapMedianShell("android"),
+  ios: mapMedianShell("ios"),
+  harmonyos: mapHarmonyOSShell,
+};
+
+/**
+ * 将原生壳配置写入对应平台模板的 appConfig 对象
+ */
+export function applyNativeShellConfig(
+  appConfig: AppConfigJson,
+  shell: NativeShellConfig | null | undefined,
+  platform: NativeShellPlatform
+): void {
+  if (!shell) return;
+  NATIVE_SHELL_MAPPERS[platform](appConfig, shell);
+}
@@ -0,0 +1,150 @@
+/**
+ * 推送通知配置（OneSignal / Firebase Cloud Messaging）
+ * 前端「推送通知」步骤、构建 API 校验、构建服务写入模板共用同一份 schema
+ * - OneSignal: 只需 App ID，写入 appConfig.json 的 services.oneSignalV5
+ * - FCM: 需要 Firebase 配置文件（Android google-services.json / iOS GoogleService-Info.plist）
+ */
+
+import { z } from "zod";
+
+export type PushProvider = "onesignal" | "fcm";
+export type PushPlatform = "android" | "ios" | "harmonyos";
+
+const MAX_CONFIG_FILE_LENGTH = 100 * 1024;
+
+const googleServicesJson = z
+  .string()
+  .max(MAX_CONFIG_FILE_LENGTH)
+  .refine((value) => {
+    try {
+      const parsed = JSON.parse(value);
+      return !!parsed.project_info && Array.isArray(parsed.client);
+    } catch {
+      return false;
+    }
+  }, "google-services.json is not a valid Firebase config");
+
+const googleServiceInfoPlist = z
+  .string()
+  .max(MAX_CONFIG_FILE_LENGTH)
+  .refine(
+    (value) => value.includes("<plist") && value.includes("GOOGLE_APP_ID"),
+    "GoogleService-Info.plist is not a valid Firebase config"
+  );
+
+export const pushConfigSchema = z
+  .object({
+    provider: z.enum(["none", "onesignal", "fcm"]),
+    oneSignalAppId: z
+      .string()
+      .trim()
+      .regex(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i, "OneSignal App ID must be a UUID")
+      .optional(),
+    googleServicesJson: googleServicesJson.optional(),
+    googleServiceInfoPlist: googleServiceInfoPlist.optional(),
+  })
+  .strict()
+  .superRefine((value, ctx) => {
+    if (value.provider === "onesignal" && !value.oneSignalAppId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["oneSignalAppId"], message: "OneSignal App ID is required" });
+    }
+    if (value.provider === "fcm" && !value.googleServicesJson && !value.googleServiceInfoPlist) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["googleServicesJson"],
+        message: "A Firebase config file is required",
+      });
+    }
+  });
+
+export type PushConfig = z.infer<typeof pushConfigSchema>;
+
+/**
+ * 校验前端提交的推送配置
+ * 接受 JSON 字符串（FormData）或对象（batch JSON 请求），空值视为未配置
+ */
+export function parsePushConfig(
+  raw: unknown
+): { success: true; data: PushConfig | null } | { success: false; error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { success: true, data: null };
+  }
+
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { success: false, error: "pushConfig must be valid JSON" };
+    }
+  }
+
+  const result = pushConfigSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.join(".") || "pushConfig";
+    return { success: false, error: `${field}: ${issue.message}` };
+  }
+
+  return { success: true, data: result.data.provider === "none" ? null : result.data };
+}
+
+/**
+ * 构建实际使用的推送服务（写入 builds.push_provider）
+ * FCM 缺少该平台的配置文件时视为未启用
+ */
+export function getPushProvider(
+  push: PushConfig | null | undefined,
+  platform: PushPlatform
+): PushProvider | null {
+  if (!push || push.provider === "none") return null;
+  if (push.provider === "onesignal") return "onesignal";
+
+  if (platform === "android") return push.googleServicesJson ? "fcm" : null;
+  if (platform === "ios") return push.googleServiceInfoPlist ? "fcm" : null;
+  return "fcm";
+}
+
+/**
+ * 将推送配置写入模板 appConfig 对象
+ * Android / iOS 为 Median 模板（services.oneSignalV5 / services.firebaseMessaging）；
+ * HarmonyOS 没有 OneSignal / FCM 原生 SDK，只在 services.push 中记录所选服务
+ */
+export function applyPushConfig(
+  appConfig: Record<string, any>,
+  push: PushConfig | null | undefined,
+  platform: PushPlatform
+): void {
+  const provider = getPushProvider(push, platform);
+  if (!push || !provider) return;
+
+  const services = (appConfig.services ??= {});
+
+  if (platform === "harmonyos") {
+    services.push = {
+      provider,
+      ...(provider === "onesignal" && { oneSignalAppId: push.oneSignalAppId }),
+    };
+    return;
+  }
+
+  if (provider === "onesignal") {
+    services.oneSignalV5 = {
+      ...services.oneSignalV5,
+      active: true,
+      applicationId: push.oneSignalAppId,
+      autoRegister: true,
+      requiresUserPrivacyConsent: false,
+    };
+    // Android build.gradle 从 services.oneSignal.applicationId 读取 manifest placeholder
+    if (platform === "android") {
+      services.oneSignal = { ...services.oneSignal, applicationId: push.oneSignalAppId };
+    }
+  } else {
+    services.firebaseMessaging = {
+      ...services.firebaseMessaging,
+      active: true,
+      autoRegister: true,
+    };
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * 网站信息自动导入配置
+ * 服务端抓取目标网页的 <title>、theme-color、Web App Manifest 和图标链接，
+ * 作为生成器中应用名称、主题色和图标的默认值
+ */
+
+// 网页 / manifest 只解析前 1 MB，图标最大 5 MB（与图标上传限制一致）
+export const MAX_SITE_HTML_BYTES = 1024 * 1024;
+export const MAX_SITE_ICON_BYTES = 5 * 1024 * 1024;
+
+// 导入的图标统一转为 PNG，超过该尺寸时缩小
+export const MAX_IMPORTED_ICON_SIZE = 1024;
+
+export type SiteIconSource = "manifest" | "apple-touch-icon" | "icon";
+
+export interface SiteIconCandidate {
+  url: string;
+  source: SiteIconSource;
+  // 声明的最大边长（sizes 属性），未声明或为 any 时为 null
+  size: number | null;
+  type: string | null;
+  purpose: string | null;
+}
+
+export interface SiteManifestResult {
+  // 重定向后的最终地址
+  url: string;
+  name: string | null;
+  shortName: string | null;
+  themeColor: string | null;
+  backgroundColor: string | null;
+  manifestUrl: string | null;
+  icons: SiteIconCandidate[];
+  // 分辨率最高的可用图标（已转为 PNG）
+  icon: {
+    url: string;
+    width: number;
+    height: number;
+    dataUrl: string;
+  } | null;
+}
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * 规范化颜色为 #rrggbb，只接受十六进制颜色（构建配置中的颜色字段均为十六进制）
+ */
+export function normalizeHexColor(value: string | null | undefined): string | null {
+  const trimmed = value?.trim() || "";
+  if (!HEX_COLOR_PATTERN.test(trimmed)) return null;
+  const hex = trimmed.slice(1).toLowerCase();
+  return hex.length === 3 ? `#${hex.split("").map((c) => c + c).join("")}` : `#${hex}`;
+}
+
+/**
+ * 解析 sizes 属性（如 "192x192 512x512"），返回最大边长
+ */
+export function parseIconSizes(sizes: string | null | undefined): number | null {
+  let max: number | null = null;
+  for (const token of (sizes || "").trim().toLowerCase().split(/\s+/)) {
+    const match = token.match(/^(\d+)x(\d+)$/);
+    if (!match) continue;
+    const size = Math.max(Number(match[1]), Number(match[2]));
+    if (max === null || size > max) max = size;
+  }
+  return max;
+}
+
+/**
+ * 深色背景上使用白色文字（微信导航栏 textStyle）
+ */
+export function isDarkColor(hex: string): boolean {
+  const normalized = normalizeHexColor(hex);
+  if (!normalized) return false;
+  const r = parseInt(normalized.slice(1, 3), 16);
+  const g = parseInt(normalized.slice(3, 5), 16);
+  const b = parseInt(normalized.slice(5, 7), 16);
+  return 0.299 * r + 0.587 * g + 0.114 * b < 150;
+}
+
+/**
+ * 校验要导入的网址，只允许 http / https
+ */
+export function parseSiteUrl(raw: unknown): { success: true; data: URL } | { success: false; error: string } {
+  if (typeof raw !== "string" || !raw.trim()) {
+    return { success: false, error: "url is required" };
+  }
+  try {
+    const url = new URL(raw.trim());
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return { success: false, error: "url must start with http:// or https://" };
+    }
+    return { success: true, data: url };
+  } catch {
+    return { success: false, error: "url is not a valid URL" };
+  }
+}
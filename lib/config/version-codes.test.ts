@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  getVersionTrack,
+  isVersionCodeReused,
+  MAX_VERSION_CODE,
+  parseVersionCode,
+  validateVersionCodeInput,
+} from "./version-codes";
+
+describe("getVersionTrack", () => {
+  it("shares one track between source packages and compiled packages", () => {
+    expect(getVersionTrack("android-source")).toBe("android");
+    expect(getVersionTrack("android-apk")).toBe("android");
+    expect(getVersionTrack("ios-ipa")).toBe("ios");
+    expect(getVersionTrack("harmonyos-hap")).toBe("harmonyos");
+    expect(getVersionTrack("wechat")).toBeNull();
+  });
+});
+
+describe("parseVersionCode", () => {
+  it("accepts integers from 1 to the store limit", () => {
+    expect(parseVersionCode(" 42 ")).toBe(42);
+    expect(parseVersionCode(String(MAX_VERSION_CODE))).toBe(MAX_VERSION_CODE);
+  });
+
+  it("rejects empty, zero, out of range and non-integer values", () => {
+    expect(parseVersionCode(undefined)).toBeNull();
+    expect(parseVersionCode("")).toBeNull();
+    expect(parseVersionCode("0")).toBeNull();
+    expect(parseVersionCode(String(MAX_VERSION_CODE + 1))).toBeNull();
+    expect(parseVersionCode("1.2")).toBeNull();
+    expect(parseVersionCode("-1")).toBeNull();
+  });
+});
+
+describe("validateVersionCodeInput", () => {
+  it("allows an empty value for automatic issuance", () => {
+    expect(validateVersionCodeInput("android", "  ")).toBeNull();
+  });
+
+  it("allows dotted build numbers only on iOS", () => {
+    expect(validateVersionCodeInput("ios", "1.2.3")).toBeNull();
+    expect(validateVersionCodeInput("android", "1.2.3")).toMatch(/integer/);
+    expect(validateVersionCodeInput("harmonyos", "abc")).toMatch(/integer/);
+  });
+});
+
+describe("isVersionCodeReused", () => {
+  it("flags integer codes that are not above the last issued code", () => {
+    expect(isVersionCodeReused("5", 5)).toBe(true);
+    expect(isVersionCodeReused("4", 5)).toBe(true);
+    expect(isVersionCodeReused("6", 5)).toBe(false);
+  });
+
+  it("ignores codes without history and dotted iOS build numbers", () => {
+    expect(isVersionCodeReused("1", null)).toBe(false);
+    expect(isVersionCodeReused("1.0.0", 5)).toBe(false);
+  });
+});
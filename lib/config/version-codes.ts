@@ -0,0 +1,63 @@
+/**
+ * 版本号自动递增配置
+ * Android versionCode、iOS buildNumber（CFBundleVersion）和 HarmonyOS versionCode 按（用户、平台、包名）记录上次发放的值，
+ * 留空时自动在上次基础上加 1；应用商店会拒绝重复使用的版本号
+ */
+
+export const VERSION_TRACKS = ["android", "ios", "harmonyos"] as const;
+export type VersionTrack = (typeof VERSION_TRACKS)[number];
+
+// Google Play versionCode 上限（HarmonyOS / iOS 使用同一上限）
+export const MAX_VERSION_CODE = 2100000000;
+
+// 同一应用的不同产物共用一个版本号序列（源码包和 GitHub Actions 编译包上传到同一个商店条目）
+const TRACK_PLATFORMS: Record<VersionTrack, string[]> = {
+  android: ["android", "android-source", "android-apk"],
+  ios: ["ios", "ios-ipa"],
+  harmonyos: ["harmonyos", "harmonyos-source", "harmonyos-hap"],
+};
+
+export function isVersionTrack(value: unknown): value is VersionTrack {
+  return typeof value === "string" && (VERSION_TRACKS as readonly string[]).includes(value);
+}
+
+export function getVersionTrack(platform: string): VersionTrack | null {
+  return VERSION_TRACKS.find((track) => TRACK_PLATFORMS[track].includes(platform)) || null;
+}
+
+export function getVersionTrackPlatforms(track: VersionTrack): string[] {
+  return TRACK_PLATFORMS[track];
+}
+
+/**
+ * 解析整数版本号，不是 1 ~ MAX_VERSION_CODE 的整数时返回 null
+ */
+export function parseVersionCode(value: string | null | undefined): number | null {
+  const trimmed = value?.trim() || "";
+  if (!/^\d+$/.test(trimmed)) return null;
+  const code = Number(trimmed);
+  return code >= 1 && code <= MAX_VERSION_CODE ? code : null;
+}
+
+/**
+ * 校验手动填写的版本号，留空表示自动递增
+ * iOS buildNumber 还允许 1.2.3 形式（原样使用，不参与递增）
+ * @returns 错误信息，合法时返回 null
+ */
+export function validateVersionCodeInput(track: VersionTrack, value: string | null | undefined): string | null {
+  const trimmed = value?.trim() || "";
+  if (!trimmed || parseVersionCode(trimmed) !== null) return null;
+  if (track === "ios" && /^\d+(\.\d+){1,2}$/.test(trimmed)) return null;
+
+  return track === "ios"
+    ? `Build number must be an integer between 1 and ${MAX_VERSION_CODE} or dot-separated numbers like 1.2.3`
+    : `Version code must be an integer between 1 and ${MAX_VERSION_CODE}`;
+}
+
+/**
+ * 手动填写的整数版本号不高于上次发放的版本号（应用商店会拒绝）
+ */
+export function isVersionCodeReused(value: string, lastVersionCode: number | null | undefined): boolean {
+  const code = parseVersionCode(value);
+  return code !== null && lastVersionCode !== null && lastVersionCode !== undefined && code <= lastVersionCode;
+}
@@ -0,0 +1,128 @@
+/**
+ * 微信小程序外观配置
+ * - web-view 业务域名、导航栏颜色、底部标签栏（页面、图标、颜色）和默认分享卡片
+ * - 图标和分享图以 data URL 提交，按微信的大小限制校验（标签栏图标不超过 40 KB）
+ */
+
+import { z } from "zod";
+import { webViewDomainsSchema } from "@/lib/config/mini-program";
+
+// 微信只支持 #RRGGBB 形式的颜色
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const IMAGE_DATA_URL_PATTERN = /^data:image\/(png|jpeg);base64,([A-Za-z0-9+/]+={0,2})$/;
+
+export const MIN_TAB_BAR_ITEMS = 2;
+export const MAX_TAB_BAR_ITEMS = 5;
+export const MAX_TAB_TEXT_LENGTH = 10;
+// 微信限制标签栏图标不超过 40 KB，建议 81x81
+export const MAX_TAB_ICON_BYTES = 40 * 1024;
+export const TAB_ICON_SIZE = 81;
+// 分享图按 5:4 裁剪后写入；以 data URL 随请求提交，限制原图大小以免超过请求体上限
+export const MAX_SHARE_IMAGE_BYTES = 512 * 1024;
+export const MAX_SHARE_TITLE_LENGTH = 50;
+// 主包（不使用分包）上限 2 MB
+export const MAX_MAIN_PACKAGE_BYTES = 2 * 1024 * 1024;
+
+const hexColor = z.string().trim().regex(HEX_COLOR_PATTERN, "Color must be in #RRGGBB format");
+
+/**
+ * data URL 解码后的字节数
+ */
+export function getDataUrlSize(dataUrl: string): number {
+  const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1);
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+function imageDataUrl(maxBytes: number) {
+  return z
+    .string()
+    .regex(IMAGE_DATA_URL_PATTERN, "Image must be a PNG or JPEG data URL")
+    .refine((value) => getDataUrlSize(value) <= maxBytes, `Image must not exceed ${Math.round(maxBytes / 1024)} KB`);
+}
+
+const tabBarItemSchema = z
+  .object({
+    text: z.string().trim().min(1).max(MAX_TAB_TEXT_LENGTH),
+    // 第一个标签为小程序首页，未填写时使用构建网址
+    url: z
+      .string()
+      .trim()
+      .url()
+      .refine((value) => value.startsWith("https://"), "Tab URL must use HTTPS")
+      .optional(),
+    icon: imageDataUrl(MAX_TAB_ICON_BYTES).optional(),
+    // 未设置时使用 icon
+    selectedIcon: imageDataUrl(MAX_TAB_ICON_BYTES).optional(),
+  })
+  .strict();
+
+export const wechatMiniProgramConfigSchema = z
+  .object({
+    webViewDomains: webViewDomainsSchema,
+    navigationBar: z
+      .object({
+        backgroundColor: hexColor.default("#ffffff"),
+        textStyle: z.enum(["black", "white"]).default("black"),
+      })
+      .strict()
+      .optional(),
+    tabBar: z
+      .object({
+        color: hexColor.default("#7a7e83"),
+        selectedColor: hexColor.default("#07c160"),
+        backgroundColor: hexColor.default("#ffffff"),
+        borderStyle: z.enum(["black", "white"]).default("black"),
+        items: z.array(tabBarItemSchema).min(MIN_TAB_BAR_ITEMS).max(MAX_TAB_BAR_ITEMS),
+      })
+      .strict()
+      .superRefine((tabBar, ctx) => {
+        tabBar.items.forEach((item, index) => {
+          if (index > 0 && !item.url) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["items", index, "url"], message: "Required" });
+          }
+        });
+      })
+      .optional(),
+    share: z
+      .object({
+        title: z.string().trim().max(MAX_SHARE_TITLE_LENGTH).default(""),
+        image: imageDataUrl(MAX_SHARE_IMAGE_BYTES).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type WechatMiniProgramConfig = z.infer<typeof wechatMiniProgramConfigSchema>;
+export type WechatTabBarConfig = NonNullable<WechatMiniProgramConfig["tabBar"]>;
+
+/**
+ * 校验前端提交的微信小程序配置
+ * 接受 JSON 字符串（FormData）或对象（batch JSON 请求），空值视为未配置
+ */
+export function parseWechatMiniProgramConfig(
+  raw: unknown
+): { success: true; data: WechatMiniProgramConfig | null } | { success: false; error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { success: true, data: null };
+  }
+
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { success: false, error: "wechatConfig must be valid JSON" };
+    }
+  }
+
+  const result = wechatMiniProgramConfigSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.join(".") || "wechatConfig";
+    return { success: false, error: `${field}: ${issue.message}` };
+  }
+
+  return { success: true, data: result.data };
+}
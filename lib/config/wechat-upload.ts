@@ -0,0 +1,63 @@
+/**
+ * 微信小程序自动上传配置
+ * - 构建完成后使用小程序代码上传密钥上传为开发版本，并生成预览二维码
+ * - 上传密钥在微信公众平台「开发管理 → 开发设置 → 小程序代码上传」中下载，需同时配置 IP 白名单
+ * - 未填写密钥时使用该 AppID 上次上传时托管的密钥
+ */
+
+import { z } from "zod";
+
+// 微信后台显示的版本描述
+export const MAX_UPLOAD_DESCRIPTION_LENGTH = 200;
+
+// miniprogram-ci 支持 1 - 30 号机器人，不同机器人上传的开发版本互不覆盖
+export const MAX_UPLOAD_ROBOT = 30;
+
+// 上传密钥为 PEM 格式的 RSA 私钥，通常不到 2 KB
+const MAX_PRIVATE_KEY_LENGTH = 8 * 1024;
+const PRIVATE_KEY_PATTERN = /^-----BEGIN (RSA )?PRIVATE KEY-----[\s\S]+-----END (RSA )?PRIVATE KEY-----$/;
+
+export const wechatUploadConfigSchema = z
+  .object({
+    description: z.string().trim().max(MAX_UPLOAD_DESCRIPTION_LENGTH).default(""),
+    robot: z.number().int().min(1).max(MAX_UPLOAD_ROBOT).default(1),
+    privateKey: z
+      .string()
+      .trim()
+      .max(MAX_PRIVATE_KEY_LENGTH)
+      .regex(PRIVATE_KEY_PATTERN, "Upload key must be the PEM private key downloaded from the WeChat admin console")
+      .optional(),
+  })
+  .strict();
+
+export type WechatUploadConfig = z.infer<typeof wechatUploadConfigSchema>;
+
+/**
+ * 校验前端提交的上传配置
+ * 接受 JSON 字符串（FormData）或对象（batch JSON 请求），空值视为不上传
+ */
+export function parseWechatUploadConfig(
+  raw: unknown
+): { success: true; data: WechatUploadConfig | null } | { success: false; error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { success: true, data: null };
+  }
+
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { success: false, error: "uploadConfig must be valid JSON" };
+    }
+  }
+
+  const result = wechatUploadConfigSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.join(".") || "uploadConfig";
+    return { success: false, error: `${field}: ${issue.message}` };
+  }
+
+  return { success: true, data: result.data };
+}
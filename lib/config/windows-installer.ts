@@ -0,0 +1,87 @@
+/**
+ * Windows 安装包配置
+ * - 未配置时输出单文件便携版 EXE
+ * - 配置后输出安装程序：预构建安装器 stub + 修改后的应用 EXE
+ *   安装时创建开始菜单 / 桌面快捷方式并注册卸载程序，支持当前用户安装（无需管理员权限）
+ */
+
+import { z } from "zod";
+
+export const WINDOWS_PACKAGE_FORMATS = ["exe", "installer"] as const;
+
+export type WindowsPackageFormat = (typeof WINDOWS_PACKAGE_FORMATS)[number];
+
+export const DEFAULT_WINDOWS_PACKAGE_FORMAT: WindowsPackageFormat = "exe";
+
+export const WINDOWS_INSTALL_SCOPES = ["perUser", "perMachine"] as const;
+
+export type WindowsInstallScope = (typeof WINDOWS_INSTALL_SCOPES)[number];
+
+// 升级码：同一产品的所有版本保持一致，安装新版本时据此覆盖旧版本
+const UPGRADE_CODE_PATTERN = /^\{?[0-9A-F]{8}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{4}-[0-9A-F]{12}\}?$/i;
+// Windows 版本资源最多 4 段，每段 0 - 65535
+const VERSION_PATTERN = /^\d{1,5}(\.\d{1,5}){0,3}$/;
+
+export const windowsInstallerConfigSchema = z
+  .object({
+    productName: z.string().trim().min(1, "Product name is required").max(100),
+    publisher: z.string().trim().min(1, "Publisher is required").max(100),
+    version: z
+      .string()
+      .trim()
+      .regex(VERSION_PATTERN, "Version must look like 1.0.0")
+      .refine((value) => value.split(".").every((part) => Number(part) <= 65535), "Version parts must be 0 - 65535"),
+    // 留空时由构建服务根据发布者和产品名称生成固定的升级码
+    upgradeCode: z
+      .string()
+      .trim()
+      .regex(UPGRADE_CODE_PATTERN, "Upgrade code must be a GUID like {XXXXXXXX-XXXX-XXXX-XXXX-XXXXXXXXXXXX}")
+      .transform((value) => `{${value.replace(/[{}]/g, "").toUpperCase()}}`)
+      .optional(),
+    installScope: z.enum(WINDOWS_INSTALL_SCOPES).default("perUser"),
+  })
+  .strict();
+
+export type WindowsInstallerConfig = z.infer<typeof windowsInstallerConfigSchema>;
+
+/**
+ * 校验前端提交的安装包配置
+ * 接受 JSON 字符串（FormData）或对象（batch JSON 请求），空值视为只输出便携版 EXE
+ */
+export function parseWindowsInstallerConfig(
+  raw: unknown
+): { success: true; data: WindowsInstallerConfig | null } | { success: false; error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { success: true, data: null };
+  }
+
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { success: false, error: "installerConfig must be valid JSON" };
+    }
+  }
+
+  const result = windowsInstallerConfigSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.join(".") || "installerConfig";
+    return { success: false, error: `${field}: ${issue.message}` };
+  }
+
+  return { success: true, data: result.data };
+}
+
+export function isWindowsPackageFormat(value: unknown): value is WindowsPackageFormat {
+  return typeof value === "string" && (WINDOWS_PACKAGE_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * 下载按钮上显示的格式名称
+ */
+export function getWindowsPackageLabel(format: WindowsPackageFormat, language: "zh" | "en" = "en"): string {
+  if (format === "installer") return language === "zh" ? "安装程序" : "Installer";
+  return "EXE";
+}
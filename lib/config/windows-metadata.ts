@@ -0,0 +1,81 @@
+/**
+ * Windows EXE 元数据
+ * - 版本信息资源（VERSIONINFO）：资源管理器「属性 → 详细信息」中显示的产品名称、描述、公司、版本和版权
+ * - 应用程序清单（RT_MANIFEST）：DPI 感知模式和请求的执行级别
+ * 未填写的文本字段使用应用名称 / 安装程序配置兜底，不再保留 Tauri 模板的默认值
+ */
+
+import { z } from "zod";
+
+export const WINDOWS_DPI_AWARENESS_MODES = ["unaware", "system", "perMonitorV2"] as const;
+
+export type WindowsDpiAwareness = (typeof WINDOWS_DPI_AWARENESS_MODES)[number];
+
+export const WINDOWS_EXECUTION_LEVELS = ["asInvoker", "highestAvailable", "requireAdministrator"] as const;
+
+export type WindowsExecutionLevel = (typeof WINDOWS_EXECUTION_LEVELS)[number];
+
+// Windows 版本资源最多 4 段，每段 0 - 65535
+const VERSION_PATTERN = /^\d{1,5}(\.\d{1,5}){0,3}$/;
+
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .optional()
+    .transform((value) => value || undefined);
+
+export const windowsMetadataConfigSchema = z
+  .object({
+    productName: optionalText(100),
+    fileDescription: optionalText(200),
+    companyName: optionalText(100),
+    legalCopyright: optionalText(200),
+    fileVersion: z
+      .string()
+      .trim()
+      .regex(VERSION_PATTERN, "Version must look like 1.0.0")
+      .refine((value) => value.split(".").every((part) => Number(part) <= 65535), "Version parts must be 0 - 65535")
+      .optional(),
+    dpiAwareness: z.enum(WINDOWS_DPI_AWARENESS_MODES).default("perMonitorV2"),
+    executionLevel: z.enum(WINDOWS_EXECUTION_LEVELS).default("asInvoker"),
+  })
+  .strict();
+
+export type WindowsMetadataConfig = z.infer<typeof windowsMetadataConfigSchema>;
+
+export const DEFAULT_WINDOWS_METADATA: WindowsMetadataConfig = {
+  dpiAwareness: "perMonitorV2",
+  executionLevel: "asInvoker",
+};
+
+/**
+ * 校验前端提交的 EXE 元数据
+ * 接受 JSON 字符串（FormData）或对象（batch JSON 请求），空值视为全部使用默认值
+ */
+export function parseWindowsMetadataConfig(
+  raw: unknown
+): { success: true; data: WindowsMetadataConfig | null } | { success: false; error: string } {
+  if (raw === null || raw === undefined || raw === "") {
+    return { success: true, data: null };
+  }
+
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { success: false, error: "metadataConfig must be valid JSON" };
+    }
+  }
+
+  const result = windowsMetadataConfigSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.join(".") || "metadataConfig";
+    return { success: false, error: `${field}: ${issue.message}` };
+  }
+
+  return { success: true, data: result.data };
+}
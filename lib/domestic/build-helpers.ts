@@ -160,7 +160,8 @@ export async function updateBuildStatus(
     await connector.initialize();
     const db = connector.getClient();
 
-    await db.collection("builds").doc(buildId).update({
+    // 已取消的构建不再更新状态
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
       status,
       updated_at: new Date().toISOString(),
       ...extraData,
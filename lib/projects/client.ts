@@ -0,0 +1,88 @@
+/**
+ * 客户端应用项目工具
+ * 生成器通过这些函数加载项目（预填表单）和保存项目（配置 + 各平台图标）
+ */
+
+import { api } from "@/lib/api";
+import type { AppProjectInput, ProjectIconPlatform } from "@/lib/config/app-project";
+import type { AppProjectRecord } from "@/lib/services/app-projects/types";
+
+export type AppProjectDetail = AppProjectRecord & { icon_urls: Record<string, string> };
+export type AppProjectSummary = AppProjectRecord & { icon_url: string | null };
+
+async function readProjectResponse(response: Response): Promise<AppProjectDetail> {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || data.error || "Project request failed");
+  }
+  return data.project;
+}
+
+export async function fetchAppProjects(): Promise<AppProjectSummary[]> {
+  const response = await fetch(api.projects.list());
+  if (!response.ok) {
+    throw new Error("Failed to fetch projects");
+  }
+  const data = await response.json();
+  return data.projects || [];
+}
+
+export async function fetchAppProject(projectId: string): Promise<AppProjectDetail> {
+  return readProjectResponse(await fetch(api.projects.get(projectId)));
+}
+
+/**
+ * 下载项目图标并转为 File，交给生成器的图标上传流程
+ */
+export async function loadProjectIconFile(iconUrl: string, platform: string): Promise<File | null> {
+  try {
+    const response = await fetch(iconUrl);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return new File([blob], `${platform}.png`, { type: blob.type || "image/png" });
+  } catch (error) {
+    console.error(`[App Project] Failed to load ${platform} icon:`, error);
+    return null;
+  }
+}
+
+/**
+ * 创建或更新项目
+ * icons 只需包含有变化的平台：File 为新图标，null 为删除图标
+ * 图标上传失败不影响项目保存，返回值中的 failedIcons 列出失败的平台
+ */
+export async function saveAppProject(input: {
+  projectId: string | null;
+  project: AppProjectInput;
+  icons: Partial<Record<ProjectIconPlatform, File | null>>;
+}): Promise<{ project: AppProjectDetail; failedIcons: string[] }> {
+  const project = await readProjectResponse(
+    await fetch(input.projectId ? api.projects.update(input.projectId) : api.projects.create(), {
+      method: input.projectId ? "PATCH" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input.project),
+    })
+  );
+
+  const failedIcons: string[] = [];
+  await Promise.all(
+    Object.entries(input.icons).map(async ([platform, file]) => {
+      try {
+        let response: Response;
+        if (file) {
+          const formData = new FormData();
+          formData.append("icon", file);
+          formData.append("platform", platform);
+          response = await fetch(api.projects.icon(project.id), { method: "POST", body: formData });
+        } else {
+          response = await fetch(api.projects.icon(project.id, platform), { method: "DELETE" });
+        }
+        if (!response.ok) failedIcons.push(platform);
+      } catch {
+        failedIcons.push(platform);
+      }
+    })
+  );
+
+  return { project, failedIcons };
+}
@@ -1,11 +1,20 @@
 import { createServiceClient } from "@/lib/supabase/server";
 import { BuildProgressHelper } from "@/lib/build-progress";
 import { trackBuildCompleteEvent } from "@/services/analytics";
+import { applyNativeShellConfig, type NativeShellConfig } from "@/lib/config/native-shell";
+import { applyAndroidAdvancedConfig, type AndroidAdvancedConfig } from "@/lib/config/android-advanced";
+import { applyPushConfig, type PushConfig } from "@/lib/config/push-notifications";
+import { applyDeepLinkConfig, type DeepLinkConfig } from "@/lib/config/deep-links";
+import { ANDROID_ADAPTIVE_SAFE_ZONE, type IconStyleConfig } from "@/lib/config/icon-style";
+import { installAndroidPushFiles } from "@/lib/services/push-notifications";
+import { installAndroidDeepLinks } from "@/lib/services/deep-links";
+import { installAndroidAdaptiveIcon, renderStyledIcon } from "@/lib/services/icon-style";
 import AdmZip from "adm-zip";
 import sharp from "sharp";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { isBuildCancelledError, updateBuildProgress } from "@/lib/services/build-cancellation";
 
 interface BuildConfig {
   url: string;
@@ -15,6 +24,11 @@ interface BuildConfig {
   versionCode: string;
   privacyPolicy: string;
   iconPath: string | null;
+  shellConfig?: NativeShellConfig | null;
+  advancedConfig?: AndroidAdvancedConfig | null;
+  pushConfig?: PushConfig | null;
+  deepLinkConfig?: DeepLinkConfig | null;
+  iconStyle?: IconStyleConfig | null;
   iconUrl?: string | null;
   iconBuffer?: Buffer | null;
 }
@@ -159,6 +173,10 @@ export async function processAndroidBuild(
     }
 
     await updateAppConfig(configPath, config);
+    // FCM 需要 google-services.json 并启用 Gradle 插件
+    installAndroidPushFiles(projectRoot, config.pushConfig);
+    // App Links：AppLinksActivity intent-filter + assetlinks.json
+    installAndroidDeepLinks(projectRoot, config.deepLinkConfig, config.packageName);
 
     // Step 3.5: Update AndroidManifest.xml version
     console.log(`[Build ${buildId}] Updating AndroidManifest.xml...`);
@@ -228,7 +246,7 @@ export async function processAndroidBuild(
         }
 
         if (iconBuffer) {
-          await processIcons(projectRoot, iconBuffer, buildId);
+          await processIcons(projectRoot, iconBuffer, buildId, config.iconStyle);
           console.log(`[Build ${buildId}] ===== ICON PROCESSING COMPLETE =====`);
         } else {
           console.error(`[Build ${buildId}] No icon data obtained from any source`);
@@ -280,7 +298,8 @@ export async function processAndroidBuild(
     const { error: updateError } = await supabase
       .from("builds")
       .update(updatePayload)
-      .eq("id", buildId);
+      .eq("id", buildId)
+      .neq("status", "cancelled");
 
     if (updateError) {
       throw new Error(`Failed to update build record: ${updateError.message}`);
@@ -300,6 +319,10 @@ export async function processAndroidBuild(
       });
     }
   } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`[Build ${buildId}] Cancelled, stopping at stage boundary`);
+      return;
+    }
     console.error(`[Build ${buildId}] Error:`, error);
 
     // Update build status to failed
@@ -309,7 +332,8 @@ export async function processAndroidBuild(
         status: "failed",
         error_message: error instanceof Error ? error.message : "Unknown error",
       })
-      .eq("id", buildId);
+      .eq("id", buildId)
+      .neq("status", "cancelled");
 
     // 记录构建失败事件
     if (userId) {
@@ -341,10 +365,8 @@ async function updateBuildStatus(
   status: string,
   progress: number
 ): Promise<void> {
-  await supabase
-    .from("builds")
-    .update({ status, progress })
-    .eq("id", buildId);
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgress(supabase, buildId, status, progress);
 }
 
 /**
@@ -405,6 +427,12 @@ async function updateAppConfig(configPath: string, config: BuildConfig): Promise
     appConfig.general.androidForceUserAgent = chromeUA;
   }
 
+  // 合并移动端通用壳配置，再合并 Android 专属高级配置（导航、样式、权限）
+  applyNativeShellConfig(appConfig, config.shellConfig, "android");
+  applyAndroidAdvancedConfig(appConfig, config.advancedConfig);
+  applyPushConfig(appConfig, config.pushConfig, "android");
+  applyDeepLinkConfig(appConfig, config.deepLinkConfig);
+
   fs.writeFileSync(configPath, JSON.stringify(appConfig, null, 2), "utf-8");
 }
 
@@ -421,7 +449,12 @@ async function updateAndroidManifest(manifestPath: string, config: BuildConfig):
   fs.writeFileSync(manifestPath, manifestContent, "utf-8");
 }
 
-async function processIcons(projectRoot: string, iconBuffer: Buffer, buildId: string): Promise<void> {
+async function processIcons(
+  projectRoot: string,
+  iconBuffer: Buffer,
+  buildId: string,
+  iconStyle?: IconStyleConfig | null
+): Promise<void> {
   const resDir = path.join(projectRoot, "app", "src", "main", "res");
 
   console.log(`[Build ${buildId}] Processing icons, res directory: ${resDir}`);
@@ -432,15 +465,9 @@ async function processIcons(projectRoot: string, iconBuffer: Buffer, buildId: st
   }
 
   // Step 1: 预处理 - 将用户上传的图片标准化为 1024x1024 正方形
-  // 使用 contain 模式保持宽高比，居中显示，透明背景填充
+  // 使用 contain 模式保持宽高比，居中显示，透明背景填充；配置了图标样式时叠加背景并留出边距
   console.log(`[Build ${buildId}] Normalizing icon to 1024x1024...`);
-  const normalizedBuffer = await sharp(iconBuffer)
-    .resize(1024, 1024, {
-      fit: "contain",           // 保持宽高比，完整显示图片
-      background: { r: 0, g: 0, b: 0, alpha: 0 }, // 透明背景
-    })
-    .png()
-    .toBuffer();
+  const normalizedBuffer = await renderStyledIcon(iconBuffer, iconStyle);
 
   console.log(`[Build ${buildId}] Icon normalized successfully`);
 
@@ -512,9 +539,14 @@ async function processIcons(projectRoot: string, iconBuffer: Buffer, buildId: st
   }
 
   // 2. 自适应图标前景层 (ic_launcher_foreground.png) - 需要添加安全边距
+  // 配置了图标样式时前景只含图案，另外写入背景层和 Android 13 主题图标的单色层
   console.log(`[Build ${buildId}] Processing app icon foreground (ic_launcher_foreground.png)...`);
-  for (const { folder, size } of APP_ICON_FOREGROUND_SIZES) {
-    await processForegroundIcon(folder, size, "ic_launcher_foreground.png");
+  if (iconStyle) {
+    await installAndroidAdaptiveIcon(resDir, iconBuffer, iconStyle, APP_ICON_FOREGROUND_SIZES, ANDROID_ADAPTIVE_SAFE_ZONE);
+  } else {
+    for (const { folder, size } of APP_ICON_FOREGROUND_SIZES) {
+      await processForegroundIcon(folder, size, "ic_launcher_foreground.png");
+    }
   }
 
   // 3. 启动页图标 (splash.png) - Android 12+ 也会裁剪，需要添加安全边距
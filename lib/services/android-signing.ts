@@ -0,0 +1,430 @@
+/**
+ * Android 正式版签名服务
+ * - 密钥库按 (user_id, package_name) 托管，同一包名的后续版本复用同一签名
+ * - 密钥库文件和密码使用 AES-256-GCM 加密后存入 android_keystores 表
+ * - GitHub Actions 通过 /api/domestic/builds/[buildId]/signing 拉取签名材料，
+ *   用户未上传密钥库时由 workflow 使用 keytool 生成并回传托管
+ * - 生成的密钥库不会被上传覆盖，用户通过 /api/domestic/android-apk/keystore 下载备份
+ */
+
+import crypto from "crypto";
+import AdmZip from "adm-zip";
+import { createServiceClient } from "@/lib/supabase/server";
+
+export type AndroidBuildType = "debug" | "release";
+
+export interface KeystoreUpload {
+  keystore: Buffer;
+  alias: string;
+  storePassword: string;
+  keyPassword: string;
+}
+
+export interface AndroidSigningMaterial {
+  alias: string;
+  storePassword: string;
+  keyPassword: string;
+  // 为空表示尚未生成，由 workflow 生成后回传
+  keystoreBase64: string | null;
+}
+
+type SigningResult<T> = { success: true; data: T } | { success: false; error: string; status?: number };
+
+const KEYSTORE_TABLE = "android_keystores";
+const MAX_KEYSTORE_SIZE = 64 * 1024;
+// 签名材料只在构建开始后的时间窗口内可拉取
+const SIGNING_WINDOW_MS = 2 * 60 * 60 * 1000;
+const ALIAS_REGEX = /^[A-Za-z0-9._-]{1,64}$/;
+const SHA256_FINGERPRINT_REGEX = /^([0-9A-F]{2}:){31}[0-9A-F]{2}$/;
+
+function getEncryptionKey(): Buffer {
+  const raw = process.env.ANDROID_KEYSTORE_ENCRYPTION_KEY?.trim();
+  if (!raw) {
+    throw new Error("ANDROID_KEYSTORE_ENCRYPTION_KEY is not configured");
+  }
+  const key = Buffer.from(raw, "base64");
+  if (key.length !== 32) {
+    throw new Error("ANDROID_KEYSTORE_ENCRYPTION_KEY must be a base64-encoded 32-byte key");
+  }
+  return key;
+}
+
+// 密文格式: base64(iv).base64(authTag).base64(ciphertext)
+function encrypt(plain: Buffer): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plain), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64")).join(".");
+}
+
+function decrypt(payload: string): Buffer {
+  const [iv, tag, ciphertext] = payload.split(".").map((part) => Buffer.from(part, "base64"));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error("Malformed encrypted payload");
+  }
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function generatePassword(): string {
+  return crypto.randomBytes(24).toString("base64url");
+}
+
+// JKS 以 0xFEEDFEED 开头，PKCS12 为 ASN.1 SEQUENCE（0x30）
+function isKeystoreFile(buffer: Buffer): boolean {
+  if (buffer.length < 4) return false;
+  if (buffer.readUInt32BE(0) === 0xfeedfeed) return true;
+  return buffer[0] === 0x30;
+}
+
+/**
+ * 是否已配置正式版签名所需的环境变量
+ */
+export function isAndroidSigningConfigured(): boolean {
+  return !!process.env.ANDROID_KEYSTORE_ENCRYPTION_KEY?.trim() && !!process.env.ANDROID_SIGNING_API_SECRET?.trim();
+}
+
+/**
+ * 校验 GitHub Actions 请求签名接口时携带的 Bearer Token
+ */
+export function verifySigningApiToken(authorization: string | null): boolean {
+  const secret = process.env.ANDROID_SIGNING_API_SECRET?.trim();
+  const token = authorization?.replace(/^Bearer\s+/i, "").trim();
+  if (!secret || !token) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * 解析表单中的密钥库上传字段
+ * 未上传文件时返回 null（使用已托管或自动生成的密钥库）
+ */
+export async function parseKeystoreUpload(formData: FormData): Promise<SigningResult<KeystoreUpload | null>> {
+  const file = formData.get("keystoreFile") as File | null;
+  if (!file || file.size === 0) {
+    return { success: true, data: null };
+  }
+
+  if (file.size > MAX_KEYSTORE_SIZE) {
+    return { success: false, error: "Keystore file is too large (max 64 KB)" };
+  }
+
+  const alias = ((formData.get("keystoreAlias") as string) || "").trim();
+  const storePassword = (formData.get("keystorePassword") as string) || "";
+  const keyPassword = (formData.get("keyPassword") as string) || storePassword;
+
+  if (!ALIAS_REGEX.test(alias)) {
+    return { success: false, error: "Key alias is required (letters, digits, '.', '_' or '-')" };
+  }
+  if (storePassword.length < 6 || keyPassword.length < 6) {
+    return { success: false, error: "Keystore and key passwords must be at least 6 characters" };
+  }
+
+  const keystore = Buffer.from(await file.arrayBuffer());
+  if (!isKeystoreFile(keystore)) {
+    return { success: false, error: "Unsupported keystore format (JKS or PKCS12 expected)" };
+  }
+
+  return { success: true, data: { keystore, alias, storePassword, keyPassword } };
+}
+
+interface KeystoreRecord {
+  id: string;
+  source: "uploaded" | "generated";
+  encrypted_keystore: string | null;
+  cert_sha256: string | null;
+}
+
+async function findKeystore(userId: string, packageName: string): Promise<KeystoreRecord | null> {
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from(KEYSTORE_TABLE)
+    .select("id, source, encrypted_keystore, cert_sha256")
+    .eq("user_id", userId)
+    .eq("package_name", packageName)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to query keystore: ${error.message}`);
+  }
+  return data;
+}
+
+// 服务生成的密钥库一旦生成（或已签过名），用户手中只有通过下载接口取得的副本，不允许被上传覆盖
+function isProtectedKeystore(record: KeystoreRecord): boolean {
+  return record.source === "generated" && (!!record.encrypted_keystore || !!record.cert_sha256);
+}
+
+const PROTECTED_KEYSTORE_ERROR =
+  "A keystore generated by this service is already in use for this package and cannot be replaced. Download it from the signing settings instead.";
+
+/**
+ * 正式版构建的签名预检（扣额度、创建构建记录之前调用，不写入任何数据）
+ */
+export async function checkAndroidReleaseSigning(
+  userId: string,
+  packageName: string,
+  upload: KeystoreUpload | null
+): Promise<SigningResult<null>> {
+  if (!upload) {
+    return { success: true, data: null };
+  }
+  const existing = await findKeystore(userId, packageName);
+  if (existing && isProtectedKeystore(existing)) {
+    return { success: false, error: PROTECTED_KEYSTORE_ERROR, status: 409 };
+  }
+  return { success: true, data: null };
+}
+
+/**
+ * 为正式版构建准备密钥库（额度已扣除、构建记录已创建后调用）
+ * - 上传了密钥库：加密后替换该包名之前上传的密钥库；服务生成的密钥库不会被替换
+ * - 未上传且已有托管：直接复用
+ * - 未上传且无托管：创建待生成记录（随机别名密码），由 workflow 生成后回传
+ */
+export async function prepareAndroidReleaseSigning(
+  userId: string,
+  packageName: string,
+  upload: KeystoreUpload | null
+): Promise<SigningResult<{ source: "uploaded" | "generated"; reused: boolean }>> {
+  const supabase = createServiceClient();
+  const now = new Date().toISOString();
+  const existing = await findKeystore(userId, packageName);
+
+  if (upload) {
+    const record = {
+      source: "uploaded" as const,
+      key_alias: upload.alias,
+      encrypted_keystore: encrypt(upload.keystore),
+      encrypted_store_password: encrypt(Buffer.from(upload.storePassword)),
+      encrypted_key_password: encrypt(Buffer.from(upload.keyPassword)),
+      // 新密钥库的证书指纹由下一次构建的 workflow 回传
+      cert_sha256: null,
+      updated_at: now,
+    };
+
+    if (!existing) {
+      const { error } = await supabase
+        .from(KEYSTORE_TABLE)
+        .insert({ user_id: userId, package_name: packageName, ...record });
+      if (error) {
+        throw new Error(`Failed to save keystore: ${error.message}`);
+      }
+      return { success: true, data: { source: "uploaded", reused: false } };
+    }
+
+    if (isProtectedKeystore(existing)) {
+      return { success: false, error: PROTECTED_KEYSTORE_ERROR, status: 409 };
+    }
+
+    // 条件更新：预检之后 workflow 可能刚回传了生成的密钥库
+    console.warn(`[Android Signing] Replacing ${existing.source} keystore for ${packageName} (user ${userId})`);
+    const { data: updated, error } = await supabase
+      .from(KEYSTORE_TABLE)
+      .update(record)
+      .eq("id", existing.id)
+      .or("source.eq.uploaded,and(encrypted_keystore.is.null,cert_sha256.is.null)")
+      .select("id");
+    if (error) {
+      throw new Error(`Failed to save keystore: ${error.message}`);
+    }
+    if (!updated || updated.length === 0) {
+      return { success: false, error: PROTECTED_KEYSTORE_ERROR, status: 409 };
+    }
+    return { success: true, data: { source: "uploaded", reused: false } };
+  }
+
+  if (existing) {
+    return { success: true, data: { source: existing.source, reused: true } };
+  }
+
+  const password = generatePassword();
+  const { error } = await supabase.from(KEYSTORE_TABLE).insert({
+    user_id: userId,
+    package_name: packageName,
+    source: "generated",
+    key_alias: "upload",
+    encrypted_keystore: null,
+    encrypted_store_password: encrypt(Buffer.from(password)),
+    encrypted_key_password: encrypt(Buffer.from(password)),
+  });
+  if (error) {
+    throw new Error(`Failed to create keystore record: ${error.message}`);
+  }
+  return { success: true, data: { source: "generated", reused: false } };
+}
+
+/**
+ * 导出该包名托管的密钥库（zip：密钥库文件 + 别名、密码和证书指纹）
+ * 服务生成的密钥库只能通过这里取回，丢失后将无法为已发布的应用更新签名
+ */
+export async function exportAndroidKeystore(
+  userId: string,
+  packageName: string
+): Promise<SigningResult<{ fileName: string; archive: Buffer }>> {
+  const supabase = createServiceClient();
+  const { data: row, error } = await supabase
+    .from(KEYSTORE_TABLE)
+    .select("source, key_alias, encrypted_keystore, encrypted_store_password, encrypted_key_password, cert_sha256")
+    .eq("user_id", userId)
+    .eq("package_name", packageName)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to query keystore: ${error.message}`);
+  }
+  if (!row || !row.encrypted_keystore) {
+    return { success: false, error: "No keystore is stored for this package yet", status: 404 };
+  }
+
+  const baseName = packageName.replace(/[^A-Za-z0-9._-]/g, "_");
+  const credentials = [
+    `package_name=${packageName}`,
+    `source=${row.source}`,
+    `key_alias=${row.key_alias}`,
+    `store_password=${decrypt(row.encrypted_store_password).toString()}`,
+    `key_password=${decrypt(row.encrypted_key_password).toString()}`,
+    ...(row.cert_sha256 ? [`cert_sha256=${row.cert_sha256}`] : []),
+    "",
+  ].join("\n");
+
+  const zip = new AdmZip();
+  zip.addFile(`${baseName}.keystore`, decrypt(row.encrypted_keystore));
+  zip.addFile("credentials.txt", Buffer.from(credentials, "utf-8"));
+
+  return { success: true, data: { fileName: `${baseName}-keystore.zip`, archive: zip.toBuffer() } };
+}
+
+/**
+ * 查找正在进行中的 release 构建，返回其对应的密钥库记录
+ */
+async function getKeystoreForActiveBuild(buildId: string): Promise<SigningResult<{ id: string; row: any }>> {
+  const supabase = createServiceClient();
+
+  const { data: build } = await supabase
+    .from("builds")
+    .select("user_id, package_name, platform, status, build_type, created_at")
+    .eq("id", buildId)
+    .single();
+
+  if (!build || build.platform !== "android-apk" || build.build_type !== "release") {
+    return { success: false, error: "Build not found", status: 404 };
+  }
+  const isActive = build.status === "pending" || build.status === "processing";
+  if (!isActive || Date.now() - new Date(build.created_at).getTime() > SIGNING_WINDOW_MS) {
+    return { success: false, error: "Build is no longer active", status: 410 };
+  }
+
+  const { data: row } = await supabase
+    .from(KEYSTORE_TABLE)
+    .select("*")
+    .eq("user_id", build.user_id)
+    .eq("package_name", build.package_name)
+    .maybeSingle();
+
+  if (!row) {
+    return { success: false, error: "Keystore not found", status: 404 };
+  }
+
+  return { success: true, data: { id: row.id, row } };
+}
+
+/**
+ * 解密构建所需的签名材料（供 GitHub Actions 拉取）
+ */
+export async function getAndroidSigningMaterial(buildId: string): Promise<SigningResult<AndroidSigningMaterial>> {
+  const result = await getKeystoreForActiveBuild(buildId);
+  if (!result.success) return result;
+
+  const { row } = result.data;
+  return {
+    success: true,
+    data: {
+      alias: row.key_alias,
+      storePassword: decrypt(row.encrypted_store_password).toString(),
+      keyPassword: decrypt(row.encrypted_key_password).toString(),
+      keystoreBase64: row.encrypted_keystore ? decrypt(row.encrypted_keystore).toString("base64") : null,
+    },
+  };
+}
+
+/**
+ * 托管 workflow 生成的密钥库
+ * 只在记录尚无密钥库时写入，已有密钥库（并发构建先回传）时返回 409
+ */
+export async function escrowGeneratedKeystore(
+  buildId: string,
+  keystoreBase64: string
+): Promise<SigningResult<{ id: string }>> {
+  const keystore = Buffer.from(keystoreBase64, "base64");
+  if (keystore.length === 0 || keystore.length > MAX_KEYSTORE_SIZE || !isKeystoreFile(keystore)) {
+    return { success: false, error: "Invalid keystore", status: 400 };
+  }
+
+  const result = await getKeystoreForActiveBuild(buildId);
+  if (!result.success) return result;
+
+  const supabase = createServiceClient();
+  const { data: updated, error } = await supabase
+    .from(KEYSTORE_TABLE)
+    .update({ encrypted_keystore: encrypt(keystore), updated_at: new Date().toISOString() })
+    .eq("id", result.data.id)
+    .is("encrypted_keystore", null)
+    .select("id");
+
+  if (error) {
+    return { success: false, error: `Failed to escrow keystore: ${error.message}`, status: 500 };
+  }
+  if (!updated || updated.length === 0) {
+    return { success: false, error: "Keystore already escrowed", status: 409 };
+  }
+
+  console.log(`[Android Signing] Escrowed generated keystore for build ${buildId}`);
+  return { success: true, data: { id: result.data.id } };
+}
+
+/**
+ * 记录 workflow 从密钥库读取的签名证书 SHA-256 指纹（用于生成 assetlinks.json）
+ */
+export async function recordKeystoreFingerprint(
+  buildId: string,
+  fingerprint: string
+): Promise<SigningResult<{ id: string }>> {
+  const normalized = fingerprint.trim().toUpperCase();
+  if (!SHA256_FINGERPRINT_REGEX.test(normalized)) {
+    return { success: false, error: "Invalid SHA-256 fingerprint", status: 400 };
+  }
+
+  const result = await getKeystoreForActiveBuild(buildId);
+  if (!result.success) return result;
+
+  const supabase = createServiceClient();
+  const { error } = await supabase
+    .from(KEYSTORE_TABLE)
+    .update({ cert_sha256: normalized, updated_at: new Date().toISOString() })
+    .eq("id", result.data.id);
+
+  if (error) {
+    return { success: false, error: `Failed to record fingerprint: ${error.message}`, status: 500 };
+  }
+
+  return { success: true, data: { id: result.data.id } };
+}
+
+/**
+ * 获取该包名托管密钥库的证书指纹，尚未构建过 release 时返回 null
+ */
+export async function getKeystoreFingerprint(userId: string, packageName: string): Promise<string | null> {
+  const supabase = createServiceClient();
+  const { data } = await supabase
+    .from(KEYSTORE_TABLE)
+    .select("cert_sha256")
+    .eq("user_id", userId)
+    .eq("package_name", packageName)
+    .maybeSingle();
+
+  return data?.cert_sha256 || null;
+}
@@ -0,0 +1,59 @@
+/**
+ * 应用项目
+ * 保存网址、各平台标识、图标和生成器设置，「重新构建」时预填生成器；构建记录通过 project_id 关联到项目
+ */
+
+import { IS_DOMESTIC_VERSION } from "@/config";
+import type { BuildBackendKind } from "@/lib/services/build-orchestrator/types";
+import { appProjectStores } from "./stores";
+import type { AppProjectRecord, AppProjectStore } from "./types";
+
+export type { AppProjectRecord, AppProjectStore, AppProjectUpdate } from "./types";
+
+/**
+ * 未指定后端时按当前部署版本选择
+ */
+export function getAppProjectStore(kind?: BuildBackendKind): AppProjectStore {
+  return appProjectStores[kind || (IS_DOMESTIC_VERSION ? "cloudbase" : "supabase")];
+}
+
+/**
+ * 附加各平台图标的临时访问链接
+ */
+export async function withProjectIconUrls(
+  store: AppProjectStore,
+  project: AppProjectRecord
+): Promise<AppProjectRecord & { icon_urls: Record<string, string> }> {
+  const entries = await Promise.all(
+    Object.entries(project.icon_paths || {}).map(async ([platform, path]) => {
+      const url = path ? await store.getFileUrl(path) : null;
+      return url ? ([platform, url] as const) : null;
+    })
+  );
+  return {
+    ...project,
+    icon_urls: Object.fromEntries(entries.filter((entry): entry is readonly [string, string] => entry !== null)),
+  };
+}
+
+/**
+ * 校验批量构建请求中的项目 ID（必须属于当前用户），未提交时返回 null
+ */
+export async function resolveBuildProject(
+  store: AppProjectStore,
+  userId: string,
+  projectId: unknown
+): Promise<{ success: true; data: string | null } | { success: false; error: string }> {
+  if (projectId === null || projectId === undefined || projectId === "") {
+    return { success: true, data: null };
+  }
+  if (typeof projectId !== "string") {
+    return { success: false, error: "projectId must be a string" };
+  }
+
+  const project = await store.get(userId, projectId);
+  if (!project) {
+    return { success: false, error: "Project not found" };
+  }
+  return { success: true, data: project.id };
+}
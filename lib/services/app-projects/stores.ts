@@ -0,0 +1,231 @@
+/**
+ * 应用项目存储实现
+ * - supabase: 国际版，app_projects 表（仅服务端访问）+ user-builds 存储桶
+ * - cloudbase: 国内版，app_projects 集合 + 云存储
+ */
+
+import { createClient, createServiceClient } from "@/lib/supabase/server";
+import { authenticateUser } from "@/lib/domestic/build-helpers";
+import { CloudBaseConnector } from "@/lib/cloudbase/connector";
+import { getCloudBaseStorage } from "@/lib/cloudbase/storage";
+import type { BuildBackendKind } from "@/lib/services/build-orchestrator/types";
+import type { AppProjectRecord, AppProjectStore } from "./types";
+
+// 签名链接有效期（秒）
+const SIGNED_URL_EXPIRES_IN = 3600;
+// app_projects.id 为 UUID，其他格式直接视为不存在（避免数据库类型错误）
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const unauthorized = {
+  success: false as const,
+  error: { status: 401, body: { error: "Unauthorized", message: "Please login to manage projects" } },
+};
+
+export const supabaseProjectStore: AppProjectStore = {
+  kind: "supabase",
+
+  async authenticate() {
+    const supabase = await createClient();
+    const { data: { user }, error } = await supabase.auth.getUser();
+    if (error || !user) return unauthorized;
+    return { success: true, data: { userId: user.id } };
+  },
+
+  async list(userId) {
+    const { data, error } = await createServiceClient()
+      .from("app_projects")
+      .select("*")
+      .eq("user_id", userId)
+      .order("updated_at", { ascending: false });
+    if (error) throw new Error(error.message);
+    return (data || []) as AppProjectRecord[];
+  },
+
+  async get(userId, projectId) {
+    if (!UUID_PATTERN.test(projectId)) return null;
+    const { data, error } = await createServiceClient()
+      .from("app_projects")
+      .select("*")
+      .eq("id", projectId)
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as AppProjectRecord | null) || null;
+  },
+
+  async create(userId, input) {
+    const { data, error } = await createServiceClient()
+      .from("app_projects")
+      .insert({ user_id: userId, name: input.name, url: input.url, config: input.config, icon_paths: {} })
+      .select("*")
+      .single();
+    if (error || !data) throw new Error(error?.message || "No project returned");
+    return data as AppProjectRecord;
+  },
+
+  async update(userId, projectId, update) {
+    if (!UUID_PATTERN.test(projectId)) return null;
+    const { data, error } = await createServiceClient()
+      .from("app_projects")
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq("id", projectId)
+      .eq("user_id", userId)
+      .select("*")
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as AppProjectRecord | null) || null;
+  },
+
+  async remove(userId, projectId) {
+    if (!UUID_PATTERN.test(projectId)) return false;
+    // builds.project_id 外键为 ON DELETE SET NULL，构建记录保留
+    const { data, error } = await createServiceClient()
+      .from("app_projects")
+      .delete()
+      .eq("id", projectId)
+      .eq("user_id", userId)
+      .select("id");
+    if (error) throw new Error(error.message);
+    return (data || []).length > 0;
+  },
+
+  getIconPath(userId, projectId, platform) {
+    return `projects/${userId}/${projectId}/${platform}-${Date.now()}.png`;
+  },
+
+  async uploadFile(path, buffer, contentType) {
+    const { error } = await createServiceClient()
+      .storage.from("user-builds")
+      .upload(path, buffer, { contentType, upsert: true });
+    if (error) throw new Error(error.message);
+  },
+
+  async getFileUrl(path) {
+    try {
+      const { data } = await createServiceClient()
+        .storage.from("user-builds")
+        .createSignedUrl(path, SIGNED_URL_EXPIRES_IN);
+      return data?.signedUrl || null;
+    } catch {
+      return null;
+    }
+  },
+
+  async deleteFiles(paths) {
+    if (paths.length === 0) return;
+    const { error } = await createServiceClient().storage.from("user-builds").remove(paths);
+    if (error) console.error("[App Projects] Failed to delete files:", error);
+  },
+};
+
+async function getCloudBaseDb() {
+  const connector = new CloudBaseConnector();
+  await connector.initialize();
+  return connector.getClient();
+}
+
+function fromCloudBaseDoc(doc: any): AppProjectRecord {
+  const { _id, ...rest } = doc;
+  return { id: _id, ...rest };
+}
+
+export const cloudbaseProjectStore: AppProjectStore = {
+  kind: "cloudbase",
+
+  async authenticate() {
+    const authResult = await authenticateUser();
+    if (!authResult.success || !authResult.user) return unauthorized;
+    return { success: true, data: { userId: authResult.user.id } };
+  },
+
+  async list(userId) {
+    const db = await getCloudBaseDb();
+    const { data } = await db
+      .collection("app_projects")
+      .where({ user_id: userId })
+      .orderBy("updated_at", "desc")
+      .limit(100)
+      .get();
+    return (data || []).map(fromCloudBaseDoc);
+  },
+
+  async get(userId, projectId) {
+    const db = await getCloudBaseDb();
+    const { data } = await db.collection("app_projects").where({ _id: projectId, user_id: userId }).get();
+    return data?.[0] ? fromCloudBaseDoc(data[0]) : null;
+  },
+
+  async create(userId, input) {
+    const db = await getCloudBaseDb();
+    const now = new Date().toISOString();
+    const doc = {
+      user_id: userId,
+      name: input.name,
+      url: input.url,
+      config: input.config,
+      icon_paths: {},
+      created_at: now,
+      updated_at: now,
+    };
+    const result = await db.collection("app_projects").add(doc);
+    return { id: result.id, ...doc };
+  },
+
+  async update(userId, projectId, update) {
+    const db = await getCloudBaseDb();
+    // 对象字段整体替换（db.command.set），避免与旧值合并
+    const _ = db.command;
+    const patch: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    if (update.name !== undefined) patch.name = update.name;
+    if (update.url !== undefined) patch.url = update.url;
+    if (update.config !== undefined) patch.config = _.set(update.config);
+    if (update.icon_paths !== undefined) patch.icon_paths = _.set(update.icon_paths);
+
+    const result = await db.collection("app_projects").where({ _id: projectId, user_id: userId }).update(patch);
+    if (!result.updated) return null;
+    return this.get(userId, projectId);
+  },
+
+  async remove(userId, projectId) {
+    const db = await getCloudBaseDb();
+    const result = await db.collection("app_projects").where({ _id: projectId, user_id: userId }).remove();
+    if (!result.deleted) return false;
+
+    await db
+      .collection("builds")
+      .where({ user_id: userId, project_id: projectId })
+      .update({ project_id: null })
+      .catch((error: unknown) => console.error("[App Projects] Failed to unlink builds:", error));
+    return true;
+  },
+
+  getIconPath(userId, projectId, platform) {
+    return `user-builds/projects/${userId}/${projectId}/${platform}-${Date.now()}.png`;
+  },
+
+  async uploadFile(path, buffer) {
+    await getCloudBaseStorage().uploadFile(path, buffer);
+  },
+
+  async getFileUrl(path) {
+    try {
+      return await getCloudBaseStorage().getTempDownloadUrl(path);
+    } catch {
+      return null;
+    }
+  },
+
+  async deleteFiles(paths) {
+    const storage = getCloudBaseStorage();
+    await Promise.all(
+      paths.map((path) =>
+        storage.deleteFile(path).catch((error) => console.error("[App Projects] Failed to delete file:", error))
+      )
+    );
+  },
+};
+
+export const appProjectStores: Record<BuildBackendKind, AppProjectStore> = {
+  supabase: supabaseProjectStore,
+  cloudbase: cloudbaseProjectStore,
+};
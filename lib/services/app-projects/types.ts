@@ -0,0 +1,41 @@
+/**
+ * 应用项目存储类型定义
+ * 国际版（Supabase app_projects 表 + user-builds 存储桶）与国内版（CloudBase app_projects 集合 + 云存储）实现同一接口
+ */
+
+import type { AppProjectConfig, AppProjectInput, ProjectIconPlatform } from "@/lib/config/app-project";
+import type { BuildBackendKind, BuildStepResult } from "@/lib/services/build-orchestrator/types";
+
+export interface AppProjectRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  url: string;
+  config: AppProjectConfig;
+  // 各平台图标的存储路径
+  icon_paths: Partial<Record<ProjectIconPlatform, string>>;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AppProjectUpdate = Partial<AppProjectInput> & {
+  icon_paths?: AppProjectRecord["icon_paths"];
+};
+
+export interface AppProjectStore {
+  kind: BuildBackendKind;
+  authenticate(): Promise<BuildStepResult<{ userId: string }>>;
+  // 按最近更新时间倒序
+  list(userId: string): Promise<AppProjectRecord[]>;
+  // 不存在或不属于该用户时返回 null
+  get(userId: string, projectId: string): Promise<AppProjectRecord | null>;
+  create(userId: string, input: AppProjectInput): Promise<AppProjectRecord>;
+  update(userId: string, projectId: string, update: AppProjectUpdate): Promise<AppProjectRecord | null>;
+  // 同时解除构建记录与项目的关联
+  remove(userId: string, projectId: string): Promise<boolean>;
+  getIconPath(userId: string, projectId: string, platform: ProjectIconPlatform): string;
+  uploadFile(path: string, buffer: Buffer, contentType: string): Promise<void>;
+  // 失败时返回 null
+  getFileUrl(path: string): Promise<string | null>;
+  deleteFiles(paths: string[]): Promise<void>;
+}
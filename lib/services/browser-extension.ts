@@ -0,0 +1,275 @@
+/**
+ * 浏览器扩展 manifest 处理和商店包
+ * - applyExtensionManifest：写入名称、版本、描述，按打开方式（弹窗 / 侧边栏 / 新标签页）和右键菜单添加所需字段和权限，
+ *   以及 __config（目标网址、打开方式、弹窗尺寸和文案、右键菜单）
+ * - createStoreManifest：按目标商店调整 manifest（Firefox 写入 gecko ID、后台 service worker 改为 scripts，去掉 Chrome 专用字段）
+ * - assertStoreManifest：打包前按各商店的规则校验，不通过时构建失败
+ * - addStorePackages：Firefox / Edge 分别打包为 manifest.json 位于根目录的 ZIP，放入输出包
+ */
+
+import AdmZip from "adm-zip";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  DEFAULT_EXTENSION_MODE,
+  GECKO_ID_PATTERN,
+  getBrowserExtensionTargetLabel,
+  isBrowserExtensionVersion,
+  resolveExtensionContextMenu,
+  resolveExtensionPopupConfig,
+  type BrowserExtensionConfig,
+  type BrowserExtensionTarget,
+  type ExtensionPopupLanguage,
+} from "@/lib/config/browser-extension";
+
+export type ExtensionManifest = Record<string, any>;
+
+// Firefox 从 109 开始支持 Manifest V3
+const FIREFOX_MIN_VERSION = "109.0";
+// chrome.sidePanel 从 Chrome 114 开始提供
+const SIDE_PANEL_MIN_CHROME_VERSION = "114";
+// 模板中的页面（iframe 加载目标网址），侧边栏 / 新标签页复用同一页面
+const DEFAULT_EXTENSION_PAGE = "popup.html";
+
+// Firefox 不识别的 Chrome 专用字段 / 权限
+const CHROME_ONLY_KEYS = ["key", "update_url", "minimum_chrome_version", "side_panel", "offline_enabled"];
+const CHROME_ONLY_PERMISSIONS = ["sidePanel", "offscreen"];
+
+// 商店要求的图标尺寸
+const REQUIRED_ICON_SIZES: Record<BrowserExtensionTarget, string[]> = {
+  chrome: ["128"],
+  edge: ["128"],
+  firefox: ["48"],
+};
+
+// 不放入商店包的系统文件
+const IGNORED_FILES = new Set([".DS_Store", "Thumbs.db", "__MACOSX"]);
+
+export interface ExtensionManifestInput {
+  url: string;
+  appName: string;
+  versionName: string;
+  description: string;
+}
+
+export interface StorePackageOptions {
+  projectRoot: string;
+  appName: string;
+  url: string;
+  targets: BrowserExtensionTarget[];
+  firefoxId?: string;
+}
+
+function addPermission(manifest: ExtensionManifest, permission: string): void {
+  const permissions: string[] = Array.isArray(manifest.permissions) ? manifest.permissions : [];
+  if (!permissions.includes(permission)) permissions.push(permission);
+  manifest.permissions = permissions;
+}
+
+/**
+ * 写入扩展基本信息、打开方式和右键菜单
+ * __config 由模板中的页面和后台脚本读取：侧边栏模式下后台脚本调用 chrome.sidePanel.setPanelBehavior，
+ * 启用右键菜单时后台脚本按 contextMenu 创建菜单项
+ */
+export function applyExtensionManifest(
+  manifest: ExtensionManifest,
+  input: ExtensionManifestInput,
+  extensionConfig: BrowserExtensionConfig | null | undefined,
+  fallbackLanguage: ExtensionPopupLanguage
+): void {
+  const mode = extensionConfig?.mode || DEFAULT_EXTENSION_MODE;
+  const language = extensionConfig?.popup.language || fallbackLanguage;
+  const contextMenu = resolveExtensionContextMenu(extensionConfig?.contextMenu, input.appName, language);
+  const page: string = manifest.action?.default_popup || DEFAULT_EXTENSION_PAGE;
+
+  manifest.name = input.appName;
+  manifest.version = input.versionName;
+  if (input.description) manifest.description = input.description;
+  if (manifest.action) manifest.action.default_title = input.appName;
+
+  // 以选择的打开方式为准，去掉模板中可能存在的其他入口
+  delete manifest.side_panel;
+  delete manifest.chrome_url_overrides;
+  if (mode === "sidePanel") {
+    manifest.side_panel = { default_path: page };
+    addPermission(manifest, "sidePanel");
+    manifest.minimum_chrome_version = SIDE_PANEL_MIN_CHROME_VERSION;
+    // 没有 default_popup 时点击图标才会打开侧边栏
+    if (manifest.action) delete manifest.action.default_popup;
+  } else if (mode === "newTab") {
+    manifest.chrome_url_overrides = { newtab: page };
+  }
+  if (contextMenu) addPermission(manifest, "contextMenus");
+
+  manifest.__config = {
+    targetUrl: input.url,
+    mode,
+    popup: resolveExtensionPopupConfig(extensionConfig?.popup, fallbackLanguage),
+    ...(contextMenu && { contextMenu }),
+  };
+}
+
+/**
+ * 未填写 Firefox ID 时根据应用名称和网站域名生成，同一应用多次构建保持一致（AMO 按 ID 识别更新）
+ */
+export function getDefaultFirefoxId(appName: string, url: string): string {
+  const slug =
+    appName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 30) || "webapp";
+  let host = "";
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/[^a-z0-9.-]/g, "");
+  } catch {
+    // URL 已在 API 层校验，这里只做兜底
+  }
+  return `${slug}@${host || "extension"}`.slice(0, 80);
+}
+
+/**
+ * 按目标商店生成 manifest，不修改传入的对象
+ */
+export function createStoreManifest(
+  manifest: ExtensionManifest,
+  target: BrowserExtensionTarget,
+  firefoxId: string
+): ExtensionManifest {
+  const result: ExtensionManifest = JSON.parse(JSON.stringify(manifest));
+  // 商店包不能指定自己的更新地址和私钥派生的 key
+  delete result.update_url;
+  delete result.key;
+
+  if (target !== "firefox") return result;
+
+  // Chrome 侧边栏对应 Firefox 的 sidebar_action
+  if (result.side_panel?.default_path) {
+    result.sidebar_action = { default_panel: result.side_panel.default_path, default_title: result.name };
+  }
+  for (const key of CHROME_ONLY_KEYS) delete result[key];
+  if (Array.isArray(result.permissions)) {
+    result.permissions = result.permissions.filter((permission: string) => !CHROME_ONLY_PERMISSIONS.includes(permission));
+  }
+
+  // Firefox MV3 后台使用事件页（background.scripts），不支持 service_worker
+  if (result.background?.service_worker) {
+    const { service_worker: serviceWorker, ...background } = result.background;
+    result.background = { ...background, scripts: [serviceWorker] };
+  }
+
+  result.browser_specific_settings = {
+    ...result.browser_specific_settings,
+    gecko: {
+      ...result.browser_specific_settings?.gecko,
+      id: firefoxId,
+      strict_min_version: FIREFOX_MIN_VERSION,
+    },
+  };
+
+  return result;
+}
+
+/**
+ * 按商店规则校验 manifest，返回所有问题
+ */
+export function validateStoreManifest(
+  manifest: ExtensionManifest,
+  target: BrowserExtensionTarget,
+  projectRoot: string
+): string[] {
+  const issues: string[] = [];
+  const isChromium = target !== "firefox";
+
+  if (isChromium && manifest.manifest_version !== 3) {
+    issues.push("manifest_version must be 3");
+  }
+  if (typeof manifest.name !== "string" || !manifest.name.trim()) {
+    issues.push("name is required");
+  } else if (manifest.name.length > 75) {
+    issues.push("name must be at most 75 characters");
+  }
+  if (typeof manifest.version !== "string" || !isBrowserExtensionVersion(manifest.version)) {
+    issues.push("version must be 1 - 4 dot-separated numbers (0 - 65535) without leading zeros");
+  }
+  if (isChromium && typeof manifest.description === "string" && manifest.description.length > 132) {
+    issues.push("description must be at most 132 characters");
+  }
+
+  const icons: Record<string, string> = manifest.icons || {};
+  for (const size of REQUIRED_ICON_SIZES[target]) {
+    if (!icons[size]) issues.push(`icons.${size} is required`);
+  }
+  for (const [size, file] of Object.entries(icons)) {
+    if (!fs.existsSync(path.join(projectRoot, file))) issues.push(`icons.${size} file not found: ${file}`);
+  }
+
+  if (target === "firefox") {
+    const geckoId = manifest.browser_specific_settings?.gecko?.id;
+    if (typeof geckoId !== "string" || geckoId.length > 80 || !GECKO_ID_PATTERN.test(geckoId)) {
+      issues.push("browser_specific_settings.gecko.id must look like name@example.com or a {GUID}");
+    }
+    if (manifest.background?.service_worker) {
+      issues.push("background.service_worker is not supported, use background.scripts");
+    }
+  } else {
+    if (manifest.update_url) issues.push("update_url is not allowed in store packages");
+    if (manifest.side_panel && !manifest.permissions?.includes("sidePanel")) {
+      issues.push("side_panel requires the sidePanel permission");
+    }
+  }
+
+  return issues;
+}
+
+export function assertStoreManifest(
+  manifest: ExtensionManifest,
+  target: BrowserExtensionTarget,
+  projectRoot: string
+): void {
+  const issues = validateStoreManifest(manifest, target, projectRoot);
+  if (issues.length > 0) {
+    throw new Error(`${getBrowserExtensionTargetLabel(target)} manifest validation failed: ${issues.join("; ")}`);
+  }
+}
+
+function addStoreFiles(zip: AdmZip, dirPath: string, zipPath: string): void {
+  for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+    if (IGNORED_FILES.has(entry.name)) continue;
+    const fullPath = path.join(dirPath, entry.name);
+    const entryZipPath = zipPath ? `${zipPath}/${entry.name}` : entry.name;
+
+    if (entry.isDirectory()) {
+      addStoreFiles(zip, fullPath, entryZipPath);
+    } else if (entryZipPath !== "manifest.json") {
+      zip.addFile(entryZipPath, fs.readFileSync(fullPath));
+    }
+  }
+}
+
+/**
+ * 为 Chrome 以外的目标生成商店 ZIP，加入输出包根目录（<名称>-firefox-<版本>.zip 等）
+ */
+export function addStorePackages(outputZip: AdmZip, options: StorePackageOptions): void {
+  const manifest: ExtensionManifest = JSON.parse(
+    fs.readFileSync(path.join(options.projectRoot, "manifest.json"), "utf-8")
+  );
+  const firefoxId = options.firefoxId || getDefaultFirefoxId(options.appName, options.url);
+  const slug =
+    options.appName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "extension";
+
+  for (const target of options.targets) {
+    if (target === "chrome") continue;
+
+    const storeManifest = createStoreManifest(manifest, target, firefoxId);
+    assertStoreManifest(storeManifest, target, options.projectRoot);
+
+    const storeZip = new AdmZip();
+    storeZip.addFile("manifest.json", Buffer.from(JSON.stringify(storeManifest, null, 2), "utf-8"));
+    addStoreFiles(storeZip, options.projectRoot, "");
+    outputZip.addFile(`${slug}-${target}-${storeManifest.version}.zip`, storeZip.toBuffer());
+  }
+}
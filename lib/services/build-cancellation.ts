@@ -0,0 +1,248 @@
+/**
+ * 构建取消
+ *
+ * 取消接口把构建记录置为 cancelled 并退还额度；构建服务每次进入新阶段（更新进度）时
+ * 使用条件更新，发现记录已取消就抛出 CANCELLED 错误中止后续步骤。
+ * GitHub Actions 构建（android-apk / ios-ipa / harmonyos-hap）同时取消对应的 workflow 运行。
+ */
+
+import { createServiceClient } from "@/lib/supabase/server";
+import { CloudBaseConnector } from "@/lib/cloudbase/connector";
+import { refundBuildQuota } from "@/services/wallet-supabase";
+import { refundDailyBuildQuota } from "@/services/wallet";
+import { cancelGitHubBuild } from "@/lib/services/github-builder";
+import { BuildError, BuildErrorType } from "@/lib/services/build-timeout";
+import { recordBuildStage } from "@/lib/services/build-logs";
+
+export const CANCELLABLE_BUILD_STATUSES = ["pending", "processing"];
+
+const GITHUB_BUILD_PLATFORMS = ["android-apk", "ios-ipa", "harmonyos-hap"] as const;
+type GitHubBuildPlatform = (typeof GITHUB_BUILD_PLATFORMS)[number];
+
+function isGitHubBuildPlatform(platform: string): platform is GitHubBuildPlatform {
+  return (GITHUB_BUILD_PLATFORMS as readonly string[]).includes(platform);
+}
+
+export function createBuildCancelledError(buildId: string): BuildError {
+  return new BuildError(`Build ${buildId} was cancelled`, BuildErrorType.CANCELLED);
+}
+
+export function isBuildCancelledError(error: unknown): boolean {
+  return error instanceof BuildError && error.type === BuildErrorType.CANCELLED;
+}
+
+/**
+ * 阶段边界更新进度（Supabase）
+ * 记录已取消（或已删除）时不更新，并抛出 CANCELLED 错误；更新成功时写入构建日志
+ */
+export async function updateBuildProgress(
+  supabase: ReturnType<typeof createServiceClient>,
+  buildId: string,
+  status: string,
+  progress: number
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("builds")
+    .update({ status, progress })
+    .eq("id", buildId)
+    .neq("status", "cancelled")
+    .select("id");
+
+  if (!error && (!data || data.length === 0)) {
+    throw createBuildCancelledError(buildId);
+  }
+  recordBuildStage(status, progress);
+}
+
+/**
+ * 阶段边界更新进度（CloudBase）
+ */
+export async function updateBuildProgressDomestic(
+  db: any,
+  buildId: string,
+  status: string,
+  progress: number
+): Promise<void> {
+  const result = await db
+    .collection("builds")
+    .where({ _id: buildId, status: db.command.neq("cancelled") })
+    .update({
+      status,
+      progress,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (result && typeof result.updated === "number" && result.updated === 0) {
+    throw createBuildCancelledError(buildId);
+  }
+  recordBuildStage(status, progress);
+}
+
+/**
+ * 构建记录是否已被取消（Supabase）
+ */
+export async function isBuildCancelled(
+  supabase: ReturnType<typeof createServiceClient>,
+  buildId: string
+): Promise<boolean> {
+  const { data } = await supabase.from("builds").select("status").eq("id", buildId).single();
+  return data?.status === "cancelled";
+}
+
+export type CancelBuildResult =
+  | { success: true; githubCancelled?: boolean }
+  | { success: false; status: number; error: string; message: string };
+
+interface CancellableBuild {
+  platform: string;
+  status: string;
+  github_run_id?: string | null;
+}
+
+const BUILD_NOT_FOUND: CancelBuildResult = { success: false, status: 404, error: "Not found", message: "Build not found" };
+
+function checkCancellable(build: CancellableBuild): CancelBuildResult | null {
+  if (!CANCELLABLE_BUILD_STATUSES.includes(build.status)) {
+    return {
+      success: false,
+      status: 409,
+      error: "Build cannot be cancelled",
+      message: `Build is already ${build.status}`,
+    };
+  }
+  return null;
+}
+
+async function cancelGitHubRun(buildId: string, build: CancellableBuild): Promise<boolean | undefined> {
+  if (!isGitHubBuildPlatform(build.platform) || !build.github_run_id) return undefined;
+
+  const result = await cancelGitHubBuild(String(build.github_run_id), build.platform);
+  if (!result.success) {
+    console.error(`[Build ${buildId}] Failed to cancel GitHub run ${build.github_run_id}:`, result.error);
+  }
+  return result.success;
+}
+
+/**
+ * 停止队列中尚未执行的任务，并标记额度已退还（避免任务回收时再次退还）
+ */
+async function cancelQueuedJobs(supabase: ReturnType<typeof createServiceClient>, buildId: string): Promise<void> {
+  await supabase
+    .from("build_jobs")
+    .update({
+      status: "failed",
+      last_error: "Build cancelled by user",
+      last_error_type: BuildErrorType.CANCELLED,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("build_id", buildId)
+    .eq("status", "queued");
+
+  await supabase
+    .from("build_jobs")
+    .update({ quota_refunded: true, updated_at: new Date().toISOString() })
+    .eq("build_id", buildId);
+}
+
+/**
+ * 取消国际版构建（Supabase）
+ */
+export async function cancelSupabaseBuild(userId: string, buildId: string): Promise<CancelBuildResult> {
+  const supabase = createServiceClient();
+
+  const { data: build } = await supabase
+    .from("builds")
+    .select("id, platform, status, github_run_id")
+    .eq("id", buildId)
+    .eq("user_id", userId)
+    .single();
+
+  if (!build) return BUILD_NOT_FOUND;
+  const invalid = checkCancellable(build);
+  if (invalid) return invalid;
+
+  // 条件更新，避免与构建完成 / 失败同时发生时重复退还额度
+  const { data: cancelled } = await supabase
+    .from("builds")
+    .update({ status: "cancelled", updated_at: new Date().toISOString() })
+    .eq("id", buildId)
+    .in("status", CANCELLABLE_BUILD_STATUSES)
+    .select("id");
+
+  if (!cancelled || cancelled.length === 0) {
+    return { success: false, status: 409, error: "Build cannot be cancelled", message: "Build already finished" };
+  }
+
+  await cancelQueuedJobs(supabase, buildId).catch((error) => {
+    console.error(`[Build ${buildId}] Failed to cancel queued jobs:`, error);
+  });
+  const githubCancelled = await cancelGitHubRun(buildId, build);
+
+  const refund = await refundBuildQuota(userId, 1);
+  if (!refund.success) {
+    console.error(`[Build ${buildId}] Quota refund after cancel failed:`, refund.error);
+  }
+
+  console.log(`[Build ${buildId}] Cancelled by user ${userId}`);
+  return { success: true, githubCancelled };
+}
+
+/**
+ * 取消国内版构建（CloudBase）
+ * GitHub Actions 构建同时写入 Supabase 并从 Supabase 钱包扣额度，需一并处理
+ */
+export async function cancelCloudBaseBuild(userId: string, buildId: string): Promise<CancelBuildResult> {
+  const connector = new CloudBaseConnector();
+  await connector.initialize();
+  const db = connector.getClient();
+
+  const { data: builds } = await db
+    .collection("builds")
+    .where({ _id: buildId, user_id: userId })
+    .limit(1)
+    .get();
+  const build = builds?.[0] as CancellableBuild | undefined;
+
+  if (!build) return BUILD_NOT_FOUND;
+  const invalid = checkCancellable(build);
+  if (invalid) return invalid;
+
+  const result = await db
+    .collection("builds")
+    .where({ _id: buildId, status: db.command.in(CANCELLABLE_BUILD_STATUSES) })
+    .update({ status: "cancelled", updated_at: new Date().toISOString() });
+
+  if (result && typeof result.updated === "number" && result.updated === 0) {
+    return { success: false, status: 409, error: "Build cannot be cancelled", message: "Build already finished" };
+  }
+
+  if (isGitHubBuildPlatform(build.platform)) {
+    const supabase = createServiceClient();
+    const { data: sbBuild } = await supabase
+      .from("builds")
+      .update({ status: "cancelled", updated_at: new Date().toISOString() })
+      .eq("id", buildId)
+      .in("status", CANCELLABLE_BUILD_STATUSES)
+      .select("github_run_id")
+      .maybeSingle();
+
+    const githubCancelled = await cancelGitHubRun(buildId, {
+      ...build,
+      github_run_id: build.github_run_id || sbBuild?.github_run_id,
+    });
+
+    const refund = await refundBuildQuota(userId, 1);
+    if (!refund.success) {
+      console.error(`[Domestic Build ${buildId}] Quota refund after cancel failed:`, refund.error);
+    }
+    console.log(`[Domestic Build ${buildId}] Cancelled by user ${userId}`);
+    return { success: true, githubCancelled };
+  }
+
+  const refund = await refundDailyBuildQuota(userId, 1);
+  if (!refund.success) {
+    console.error(`[Domestic Build ${buildId}] Quota refund after cancel failed:`, refund.error);
+  }
+  console.log(`[Domestic Build ${buildId}] Cancelled by user ${userId}`);
+  return { success: true };
+}
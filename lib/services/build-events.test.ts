@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { BuildProgressEvent } from "@/lib/build-progress";
+
+vi.mock("@/lib/supabase/server", () => ({ createServiceClient: vi.fn() }));
+vi.mock("@/lib/cloudbase/connector", () => ({ CloudBaseConnector: vi.fn() }));
+
+import { createActiveBuildsEventStream, createBuildEventStream } from "./build-events";
+
+function event(buildId: string, status: string, progress: number, stage = "packaging"): BuildProgressEvent {
+  return { buildId, platform: "android", status, progress, stage: stage as BuildProgressEvent["stage"], label: { zh: "", en: "" } };
+}
+
+/**
+ * 推进 10 秒（5 次读取）后断开连接，返回收到的 SSE 事件名和 buildId
+ */
+async function collect(stream: (signal: AbortSignal) => ReadableStream<Uint8Array>): Promise<Array<[string, string]>> {
+  const controller = new AbortController();
+  const reader = stream(controller.signal).getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+
+  const done = (async () => {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      text += decoder.decode(value);
+    }
+  })();
+  await vi.advanceTimersByTimeAsync(10_000);
+  controller.abort();
+  await done;
+
+  return [...text.matchAll(/event: (\w+)\ndata: (.*)\n/g)].map((match) => {
+    const data = JSON.parse(match[2]);
+    return [match[1], data.buildId ?? data.message];
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createActiveBuildsEventStream", () => {
+  it("pushes changes for every active build on one connection", async () => {
+    const reads = [
+      [event("a", "processing", 10, "downloading"), event("b", "pending", 0, "initializing")],
+      [event("a", "processing", 20, "downloading"), event("b", "pending", 0, "initializing")],
+      [event("a", "completed", 100, "completed"), event("b", "processing", 40, "configuring")],
+      [event("b", "processing", 40, "configuring")],
+    ];
+    const read = vi.fn(async () => reads.shift() ?? []);
+
+    const events = await collect((signal) => createActiveBuildsEventStream(read, signal));
+
+    expect(events).toEqual([
+      ["stage", "a"],
+      ["stage", "b"],
+      ["progress", "a"],
+      ["stage", "a"],
+      ["done", "a"],
+      ["stage", "b"],
+    ]);
+  });
+});
+
+describe("createBuildEventStream", () => {
+  it("closes once the build finishes", async () => {
+    const reads = [event("a", "processing", 10), event("a", "failed", 10, "failed")];
+    const read = vi.fn(async () => reads.shift() ?? null);
+
+    const events = await collect((signal) => createBuildEventStream(read, signal));
+
+    expect(events).toEqual([["stage", "a"], ["stage", "a"], ["done", "a"]]);
+    expect(read).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports builds that no longer exist", async () => {
+    const events = await collect((signal) => createBuildEventStream(async () => null, signal));
+
+    expect(events).toEqual([["gone", "Build not found"]]);
+  });
+});
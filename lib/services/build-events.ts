@@ -0,0 +1,237 @@
+/**
+ * 构建进度 SSE 推送
+ *
+ * 服务端按固定间隔读取构建记录，进度或状态变化时推送事件：
+ * - stage：进入 BUILD_STAGES 中的新阶段（或状态变化），携带中英文阶段标签
+ * - progress：同一阶段内进度变化
+ * - done：构建完成 / 失败 / 取消
+ * - gone：构建不存在或无权访问（仅单个构建的连接）
+ * 单个构建的连接在构建结束后关闭；用户级连接推送当前用户所有构建中的记录，直到客户端断开
+ * 只读取构建记录，GitHub Actions 构建的同步由定时任务完成（见 github-build-sync）
+ */
+
+import { createServiceClient } from "@/lib/supabase/server";
+import { CloudBaseConnector } from "@/lib/cloudbase/connector";
+import {
+  ACTIVE_BUILD_STATUSES,
+  getStageByStatus,
+  TERMINAL_BUILD_STATUSES,
+  type BuildProgressEvent,
+} from "@/lib/build-progress";
+import type { BuildBackendKind } from "@/lib/services/build-orchestrator";
+
+// 读取构建记录的间隔
+const POLL_INTERVAL_MS = 2000;
+// 无变化时发送心跳，防止代理断开空闲连接
+const HEARTBEAT_INTERVAL_MS = 15000;
+// 单次连接最长时间，略小于路由 maxDuration；断开后 EventSource 会自动重连
+const MAX_STREAM_DURATION_MS = 280 * 1000;
+// 用户级连接单次最多推送的构建数
+const MAX_ACTIVE_BUILDS = 50;
+
+type BuildProgressReader = () => Promise<BuildProgressEvent | null>;
+type ActiveBuildsReader = () => Promise<BuildProgressEvent[]>;
+
+function toEvent(buildId: string, build: any): BuildProgressEvent {
+  const progress = typeof build.progress === "number" ? build.progress : 0;
+  const stage = getStageByStatus(build.platform, build.status, progress);
+  return {
+    buildId,
+    platform: build.platform,
+    status: build.status,
+    progress,
+    stage: stage.stage,
+    label: stage.label,
+    errorMessage: build.error_message ?? null,
+  };
+}
+
+/**
+ * 创建构建进度读取器（只读取当前用户自己的构建）
+ */
+export async function createBuildProgressReader(
+  kind: BuildBackendKind,
+  userId: string,
+  buildId: string
+): Promise<BuildProgressReader> {
+  if (kind === "supabase") {
+    const supabase = createServiceClient();
+    return async () => {
+      const { data } = await supabase
+        .from("builds")
+        .select("platform, status, progress, error_message")
+        .eq("id", buildId)
+        .eq("user_id", userId)
+        .maybeSingle();
+      return data ? toEvent(buildId, data) : null;
+    };
+  }
+
+  const connector = new CloudBaseConnector();
+  await connector.initialize();
+  const db = connector.getClient();
+  return async () => {
+    const { data } = await db
+      .collection("builds")
+      .where({ _id: buildId, user_id: userId })
+      .field({ platform: true, status: true, progress: true, error_message: true })
+      .limit(1)
+      .get();
+    const build = data?.[0];
+    return build ? toEvent(buildId, build) : null;
+  };
+}
+
+/**
+ * 创建用户构建中记录的读取器
+ * 上次读到仍在构建中的记录会继续读取一次，保证推送其结束状态
+ */
+export async function createActiveBuildsReader(kind: BuildBackendKind, userId: string): Promise<ActiveBuildsReader> {
+  let tracked: string[] = [];
+  const track = (events: BuildProgressEvent[]) => {
+    tracked = events.filter((event) => !TERMINAL_BUILD_STATUSES.includes(event.status)).map((event) => event.buildId);
+    return events;
+  };
+
+  if (kind === "supabase") {
+    const supabase = createServiceClient();
+    return async () => {
+      let query = supabase
+        .from("builds")
+        .select("id, platform, status, progress, error_message")
+        .eq("user_id", userId);
+      query = tracked.length > 0
+        ? query.or(`status.in.(${ACTIVE_BUILD_STATUSES.join(",")}),id.in.(${tracked.join(",")})`)
+        : query.in("status", ACTIVE_BUILD_STATUSES);
+      const { data } = await query.order("created_at", { ascending: false }).limit(MAX_ACTIVE_BUILDS);
+      return track((data || []).map((build) => toEvent(build.id, build)));
+    };
+  }
+
+  const connector = new CloudBaseConnector();
+  await connector.initialize();
+  const db = connector.getClient();
+  const _ = db.command;
+  return async () => {
+    const active = { user_id: userId, status: _.in(ACTIVE_BUILD_STATUSES) };
+    const { data } = await db
+      .collection("builds")
+      .where(tracked.length > 0 ? _.or([active, { user_id: userId, _id: _.in(tracked) }]) : active)
+      .field({ platform: true, status: true, progress: true, error_message: true })
+      .orderBy("created_at", "desc")
+      .limit(MAX_ACTIVE_BUILDS)
+      .get();
+    return track((data || []).map((build: any) => toEvent(build._id, build)));
+  };
+}
+
+function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * SSE 数据流的公共部分：重连间隔、心跳、最长连接时间和客户端断开
+ * @param tick 每次读取后推送事件，返回 false 时关闭连接
+ */
+function createEventStream(tick: (send: SendEvent) => Promise<boolean>, signal?: AbortSignal): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const startedAt = Date.now();
+      let lastSentAt = startedAt;
+
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const send: SendEvent = (event, data) => {
+        write(formatEvent(event, data));
+        lastSentAt = Date.now();
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+      signal?.addEventListener("abort", close);
+
+      // 断线重连间隔
+      write("retry: 3000\n\n");
+
+      try {
+        while (!closed && Date.now() - startedAt < MAX_STREAM_DURATION_MS) {
+          if (!(await tick(send))) break;
+
+          if (Date.now() - lastSentAt >= HEARTBEAT_INTERVAL_MS) {
+            write(": ping\n\n");
+            lastSentAt = Date.now();
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        console.error("[Build Events] Stream error:", error);
+      } finally {
+        signal?.removeEventListener("abort", close);
+        close();
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+}
+
+/**
+ * 与上次推送的事件比较，推送阶段或进度变化
+ */
+function sendChange(send: SendEvent, current: BuildProgressEvent, last: BuildProgressEvent | undefined): void {
+  if (!last || current.stage !== last.stage || current.status !== last.status) {
+    send("stage", current);
+  } else if (current.progress !== last.progress) {
+    send("progress", current);
+  }
+  if (TERMINAL_BUILD_STATUSES.includes(current.status)) {
+    send("done", current);
+  }
+}
+
+/**
+ * 创建单个构建的 SSE 数据流，构建结束后关闭
+ * @param signal 客户端断开时停止读取
+ */
+export function createBuildEventStream(read: BuildProgressReader, signal?: AbortSignal): ReadableStream<Uint8Array> {
+  let last: BuildProgressEvent | undefined;
+
+  return createEventStream(async (send) => {
+    const current = await read();
+    if (!current) {
+      send("gone", { message: "Build not found" });
+      return false;
+    }
+    sendChange(send, current, last);
+    last = current;
+    return !TERMINAL_BUILD_STATUSES.includes(current.status);
+  }, signal);
+}
+
+/**
+ * 创建用户级 SSE 数据流：推送所有构建中记录的变化，直到客户端断开或达到最长连接时间
+ * @param signal 客户端断开时停止读取
+ */
+export function createActiveBuildsEventStream(read: ActiveBuildsReader, signal?: AbortSignal): ReadableStream<Uint8Array> {
+  let last = new Map<string, BuildProgressEvent>();
+
+  return createEventStream(async (send) => {
+    const next = new Map<string, BuildProgressEvent>();
+    for (const current of await read()) {
+      sendChange(send, current, last.get(current.buildId));
+      next.set(current.buildId, current);
+    }
+    last = next;
+    return true;
+  }, signal);
+}
@@ -0,0 +1,283 @@
+/**
+ * 构建日志
+ *
+ * 构建执行期间通过 AsyncLocalStorage 绑定当前构建的日志收集器：
+ * - 阶段切换：构建服务更新进度时（updateBuildProgress）自动记录 BUILD_STAGES 对应阶段
+ * - 步骤日志：buildLog.info / warn / error，同时输出到控制台
+ * - 构建结束：读取构建记录，写入完成 / 失败（含 error_message）/ 取消
+ * 日志批量写入 Supabase build_logs 表或 CloudBase build_logs 集合，写入失败不影响构建
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { createServiceClient } from "@/lib/supabase/server";
+import { CloudBaseConnector } from "@/lib/cloudbase/connector";
+import { getStageByStatus, type BuildStage } from "@/lib/build-progress";
+import type { BuildBackendKind } from "@/lib/services/build-orchestrator/types";
+
+export type BuildLogLevel = "debug" | "info" | "warn" | "error";
+
+export interface BuildLogEntry {
+  seq: number;
+  level: BuildLogLevel;
+  stage: BuildStage | null;
+  progress: number | null;
+  message: string;
+  created_at: string;
+}
+
+// 缓冲条数达到上限或出现警告 / 错误时立即写入
+const FLUSH_BATCH_SIZE = 20;
+// 查看日志时返回的最大条数
+const MAX_LOG_ENTRIES = 500;
+
+interface BuildLogStore {
+  append(buildId: string, entries: BuildLogEntry[]): Promise<void>;
+  list(buildId: string): Promise<BuildLogEntry[]>;
+  remove(buildId: string): Promise<void>;
+  readOutcome(buildId: string): Promise<{ status: string; error_message?: string | null } | null>;
+}
+
+const supabaseLogStore: BuildLogStore = {
+  async append(buildId, entries) {
+    const { error } = await createServiceClient()
+      .from("build_logs")
+      .insert(entries.map((entry) => ({ build_id: buildId, ...entry })));
+    if (error) throw new Error(error.message);
+  },
+
+  async list(buildId) {
+    const { data } = await createServiceClient()
+      .from("build_logs")
+      .select("seq, level, stage, progress, message, created_at")
+      .eq("build_id", buildId)
+      .order("created_at", { ascending: true })
+      .order("seq", { ascending: true })
+      .limit(MAX_LOG_ENTRIES);
+    return (data || []) as BuildLogEntry[];
+  },
+
+  async remove(buildId) {
+    await createServiceClient().from("build_logs").delete().eq("build_id", buildId);
+  },
+
+  async readOutcome(buildId) {
+    const { data } = await createServiceClient()
+      .from("builds")
+      .select("status, error_message")
+      .eq("id", buildId)
+      .maybeSingle();
+    return data;
+  },
+};
+
+async function getCloudBaseDb() {
+  const connector = new CloudBaseConnector();
+  await connector.initialize();
+  return connector.getClient();
+}
+
+const cloudbaseLogStore: BuildLogStore = {
+  async append(buildId, entries) {
+    const db = await getCloudBaseDb();
+    await Promise.all(
+      entries.map((entry) => db.collection("build_logs").add({ build_id: buildId, ...entry }))
+    );
+  },
+
+  async list(buildId) {
+    const db = await getCloudBaseDb();
+    const { data } = await db
+      .collection("build_logs")
+      .where({ build_id: buildId })
+      .orderBy("created_at", "asc")
+      .orderBy("seq", "asc")
+      .limit(MAX_LOG_ENTRIES)
+      .get();
+    return (data || []).map((doc: any) => ({
+      seq: doc.seq,
+      level: doc.level,
+      stage: doc.stage ?? null,
+      progress: doc.progress ?? null,
+      message: doc.message,
+      created_at: doc.created_at,
+    }));
+  },
+
+  async remove(buildId) {
+    const db = await getCloudBaseDb();
+    await db.collection("build_logs").where({ build_id: buildId }).remove();
+  },
+
+  async readOutcome(buildId) {
+    const db = await getCloudBaseDb();
+    const { data } = await db.collection("builds").doc(buildId).get();
+    return data?.[0] || null;
+  },
+};
+
+const buildLogStores: Record<BuildBackendKind, BuildLogStore> = {
+  supabase: supabaseLogStore,
+  cloudbase: cloudbaseLogStore,
+};
+
+/**
+ * 单个构建的日志收集器
+ */
+export class BuildLogSink {
+  private buffer: BuildLogEntry[] = [];
+  private seq = 0;
+  private lastStageKey: string | null = null;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly kind: BuildBackendKind,
+    readonly buildId: string,
+    readonly platform: string
+  ) {}
+
+  log(level: BuildLogLevel, message: string, extra: { stage?: BuildStage; progress?: number } = {}): void {
+    this.buffer.push({
+      seq: this.seq++,
+      level,
+      stage: extra.stage ?? null,
+      progress: extra.progress ?? null,
+      message,
+      created_at: new Date().toISOString(),
+    });
+
+    if (level === "warn" || level === "error" || this.buffer.length >= FLUSH_BATCH_SIZE) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * 记录阶段切换（同一阶段重复更新只记录一次）
+   */
+  stage(status: string, progress: number): void {
+    const stage = getStageByStatus(this.platform, status, progress);
+    const key = `${stage.stage}:${progress}`;
+    if (key === this.lastStageKey) return;
+    this.lastStageKey = key;
+
+    this.log(stage.stage === "failed" ? "error" : "info", stage.label.en, { stage: stage.stage, progress });
+    // 阶段切换时写入，查看日志时能看到构建进行到哪一步
+    void this.flush();
+  }
+
+  /**
+   * 写入缓冲区中的日志（串行执行，保证顺序）
+   */
+  flush(): Promise<void> {
+    this.pending = this.pending.then(async () => {
+      if (this.buffer.length === 0) return;
+      const entries = this.buffer;
+      this.buffer = [];
+      try {
+        await buildLogStores[this.kind].append(this.buildId, entries);
+      } catch (error) {
+        console.error(`[Build ${this.buildId}] Failed to write build logs:`, error);
+      }
+    });
+    return this.pending;
+  }
+
+  /**
+   * 构建执行结束：按构建记录的最终状态写入结果
+   * 构建服务会自行捕获错误并写入 error_message，因此不能只依赖抛出的异常
+   */
+  async finish(): Promise<void> {
+    try {
+      const outcome = await buildLogStores[this.kind].readOutcome(this.buildId);
+      if (outcome?.status === "completed") {
+        this.stage("completed", 100);
+      } else if (outcome?.status === "failed") {
+        this.log("error", outcome.error_message || "Build failed", { stage: "failed" });
+      } else if (outcome?.status === "cancelled") {
+        this.log("warn", "Build cancelled by user", { stage: "cancelled" });
+      }
+    } catch (error) {
+      console.error(`[Build ${this.buildId}] Failed to read build outcome for logs:`, error);
+    }
+    await this.flush();
+  }
+}
+
+const buildLogContext = new AsyncLocalStorage<BuildLogSink>();
+
+export function createBuildLogSink(kind: BuildBackendKind, buildId: string, platform: string): BuildLogSink {
+  return new BuildLogSink(kind, buildId, platform);
+}
+
+/**
+ * 在日志上下文中执行构建，结束后写入构建结果
+ * @param startMessage 开始日志（任务队列记录第几次尝试）
+ */
+export function runWithBuildLog<T>(sink: BuildLogSink, fn: () => Promise<T>, startMessage?: string): Promise<T> {
+  return buildLogContext.run(sink, async () => {
+    sink.log("info", startMessage || `Build started (${sink.platform})`);
+    try {
+      return await fn();
+    } catch (error) {
+      sink.log("error", error instanceof Error ? error.message : String(error));
+      throw error;
+    } finally {
+      await sink.finish();
+    }
+  });
+}
+
+/**
+ * 记录阶段切换（不在构建日志上下文中时忽略）
+ */
+export function recordBuildStage(status: string, progress: number): void {
+  buildLogContext.getStore()?.stage(status, progress);
+}
+
+function logToCurrentBuild(level: BuildLogLevel, message: string): void {
+  const sink = buildLogContext.getStore();
+  if (!sink) return;
+  const line = `[Build ${sink.buildId}] ${message}`;
+  if (level === "error") console.error(line);
+  else if (level === "warn") console.warn(line);
+  else console.log(line);
+  sink.log(level, message);
+}
+
+/**
+ * 当前构建的步骤日志
+ */
+export const buildLog = {
+  debug: (message: string) => logToCurrentBuild("debug", message),
+  info: (message: string) => logToCurrentBuild("info", message),
+  warn: (message: string) => logToCurrentBuild("warn", message),
+  error: (message: string) => logToCurrentBuild("error", message),
+};
+
+/**
+ * 在构建执行之外追加单条日志（任务重试、GitHub 构建同步等）
+ */
+export async function appendBuildLog(
+  kind: BuildBackendKind,
+  buildId: string,
+  level: BuildLogLevel,
+  message: string,
+  extra: { stage?: BuildStage; progress?: number } = {}
+): Promise<void> {
+  const sink = new BuildLogSink(kind, buildId, "");
+  sink.log(level, message, extra);
+  await sink.flush();
+}
+
+/**
+ * 读取构建日志（调用方负责校验构建归属）
+ */
+export function getBuildLogs(kind: BuildBackendKind, buildId: string): Promise<BuildLogEntry[]> {
+  return buildLogStores[kind].list(buildId);
+}
+
+/**
+ * 删除构建日志（删除构建时调用）
+ */
+export function deleteBuildLogs(kind: BuildBackendKind, buildId: string): Promise<void> {
+  return buildLogStores[kind].remove(buildId);
+}
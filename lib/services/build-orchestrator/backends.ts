@@ -0,0 +1,265 @@
+/**
+ * 构建编排器后端实现
+ * - supabase: 国际版，Supabase Auth / Storage / builds 表，构建任务写入 build_jobs 队列
+ * - cloudbase: 国内版，CloudBase 认证 / 云存储 / builds 集合，异步执行后台任务
+ */
+
+import { waitUntil } from "@vercel/functions";
+import { createClient, createServiceClient } from "@/lib/supabase/server";
+import { deductBuildQuota, checkBuildQuota, getEffectiveSupabaseUserWallet, refundBuildQuota } from "@/services/wallet-supabase";
+import { getPlanBuildExpireDays } from "@/utils/plan-limits";
+import {
+  authenticateUser,
+  checkAndDeductQuota,
+  createBuildRecord,
+  updateBuildStatus,
+  refundDailyBuildQuota,
+} from "@/lib/domestic/build-helpers";
+import { getCloudBaseStorage } from "@/lib/cloudbase/storage";
+import { enqueueBuildJob, runBuildWorker } from "@/lib/services/build-queue";
+import type { BuildBackend, BuildBackendKind } from "./types";
+
+// 使用安全的文件名（避免中文等特殊字符）
+function getSafeIconFileName(icon: File): string {
+  const fileExt = icon.name.split(".").pop()?.toLowerCase() || "png";
+  return `icon_${Date.now()}.${fileExt}`;
+}
+
+export const supabaseBuildBackend: BuildBackend = {
+  kind: "supabase",
+
+  async authenticate() {
+    const supabase = await createClient();
+    const { data: { user }, error } = await supabase.auth.getUser();
+    if (error || !user) {
+      return {
+        success: false,
+        error: { status: 401, body: { error: "Unauthorized", message: "Please login to create a build" } },
+      };
+    }
+    return { success: true, data: { userId: user.id } };
+  },
+
+  async reserveQuota(userId, count) {
+    const quotaCheck = await checkBuildQuota(userId, count);
+    if (!quotaCheck.allowed) {
+      return {
+        success: false,
+        error: {
+          status: 429,
+          body: {
+            error: "Quota exceeded",
+            message: `Daily build quota exceeded. Remaining: ${quotaCheck.remaining}/${quotaCheck.limit}`,
+            remaining: quotaCheck.remaining,
+            limit: quotaCheck.limit,
+          },
+        },
+      };
+    }
+
+    const deductResult = await deductBuildQuota(userId, count);
+    if (!deductResult.success) {
+      return {
+        success: false,
+        error: {
+          status: 500,
+          body: { error: "Quota deduction failed", message: deductResult.error || "Failed to deduct build quota" },
+        },
+      };
+    }
+    return { success: true, data: null };
+  },
+
+  async refundQuota(userId, count) {
+    await refundBuildQuota(userId, count);
+  },
+
+  async uploadIcon(userId, icon) {
+    const iconPath = `icons/${userId}/${getSafeIconFileName(icon)}`;
+    const { error } = await createServiceClient()
+      .storage.from("user-builds")
+      .upload(iconPath, Buffer.from(await icon.arrayBuffer()), {
+        contentType: icon.type,
+        upsert: true,
+      });
+
+    if (error) {
+      console.warn("[BuildOrchestrator] Icon upload failed:", error);
+      return null;
+    }
+    return iconPath;
+  },
+
+  resolvePreUploadedIcon() {
+    // 国际版前端直接随表单上传图标文件
+    return null;
+  },
+
+  async createBuildRecord(userId, record) {
+    try {
+      const wallet = await getEffectiveSupabaseUserWallet(userId);
+      const expireDays = getPlanBuildExpireDays(wallet?.plan || "Free");
+      const expiresAt = new Date(Date.now() + expireDays * 24 * 60 * 60 * 1000).toISOString();
+
+      const { data: build, error } = await createServiceClient()
+        .from("builds")
+        .insert({
+          user_id: userId,
+          app_name: record.appName,
+          package_name: record.packageName,
+          version_name: record.versionName,
+          version_code: record.versionCode,
+          privacy_policy: record.privacyPolicy || "",
+          url: record.url,
+          platform: record.platform,
+          status: "pending",
+          progress: 0,
+          icon_path: record.iconPath,
+          expires_at: expiresAt,
+          ...record.extra,
+        })
+        .select("id")
+        .single();
+
+      if (error || !build) {
+        throw new Error(error?.message || "No build returned");
+      }
+      return { success: true, data: { buildId: build.id } };
+    } catch (error) {
+      console.error("[BuildOrchestrator] Database insert error:", error);
+      await refundBuildQuota(userId, 1);
+      return {
+        success: false,
+        error: { status: 500, body: { error: "Database error", message: "Failed to create build record" } },
+      };
+    }
+  },
+
+  async dispatch(buildId, job) {
+    // 写入持久化队列后立即触发一次 worker；定时任务会继续处理重试和租约过期的任务
+    const enqueueResult = await enqueueBuildJob({
+      buildId,
+      userId: job.userId,
+      platform: job.platform,
+      payload: job.payload,
+    });
+
+    if (!enqueueResult.success) {
+      // 队列不可用时退回到请求内执行，避免构建无人处理
+      console.error(`[BuildOrchestrator] Enqueue failed for ${buildId}, running inline:`, enqueueResult.error);
+      waitUntil(
+        job.run().catch((err) => {
+          console.error(`[API] Build process error for ${buildId}:`, err);
+        })
+      );
+      return;
+    }
+
+    waitUntil(
+      runBuildWorker({ limit: 1 }).catch((err) => {
+        console.error(`[BuildOrchestrator] Worker kick failed after enqueueing ${buildId}:`, err);
+      })
+    );
+  },
+};
+
+export const cloudbaseBuildBackend: BuildBackend = {
+  kind: "cloudbase",
+
+  async authenticate() {
+    const authResult = await authenticateUser();
+    if (!authResult.success || !authResult.user) {
+      return {
+        success: false,
+        error: { status: authResult.status || 401, body: { error: "Unauthorized", message: authResult.error } },
+      };
+    }
+    return { success: true, data: { userId: authResult.user.id } };
+  },
+
+  async reserveQuota(userId, count) {
+    const quotaResult = await checkAndDeductQuota(userId, count);
+    if (!quotaResult.success) {
+      return {
+        success: false,
+        error: {
+          status: quotaResult.allowed === false ? 429 : 500,
+          body: {
+            error: quotaResult.allowed === false ? "Quota exceeded" : "Quota deduction failed",
+            message: quotaResult.error,
+            remaining: quotaResult.remaining,
+            limit: quotaResult.limit,
+          },
+        },
+      };
+    }
+    return { success: true, data: null };
+  },
+
+  async refundQuota(userId, count) {
+    await refundDailyBuildQuota(userId, count);
+  },
+
+  async uploadIcon(userId, icon) {
+    const iconPath = `user-builds/icons/${userId}/${getSafeIconFileName(icon)}`;
+    try {
+      await getCloudBaseStorage().uploadFile(iconPath, Buffer.from(await icon.arrayBuffer()));
+      return iconPath;
+    } catch (error) {
+      console.warn("[BuildOrchestrator] Icon upload failed:", error);
+      return null;
+    }
+  },
+
+  resolvePreUploadedIcon(userId, iconPath) {
+    // /api/domestic/upload-icon 预上传到 user-builds/temp-icons/<userId>/
+    if (!iconPath || !iconPath.startsWith(`user-builds/temp-icons/${userId}/`)) {
+      return null;
+    }
+    return iconPath;
+  },
+
+  async createBuildRecord(userId, record) {
+    // createBuildRecord 写入失败时会自行退还额度
+    const result = await createBuildRecord({
+      userId,
+      platform: record.platform,
+      appName: record.appName,
+      url: record.url,
+      packageName: record.packageName,
+      versionName: record.versionName,
+      versionCode: parseInt(record.versionCode, 10) || 1,
+      privacyPolicy: record.privacyPolicy,
+      iconPath: record.iconPath,
+      extraData: record.extra,
+    });
+
+    if (!result.success || !result.buildId) {
+      return {
+        success: false,
+        error: { status: 500, body: { error: "Failed to create build", message: result.error } },
+      };
+    }
+    return { success: true, data: { buildId: result.buildId } };
+  },
+
+  async dispatch(buildId, job) {
+    const run = async () => {
+      try {
+        await updateBuildStatus(buildId, "processing");
+        await job.run();
+      } catch (error) {
+        console.error(`[Domestic Build ${buildId}] Async processing error:`, error);
+        await updateBuildStatus(buildId, "failed", {
+          error_message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    };
+    run().catch(console.error);
+  },
+};
+
+export const buildBackends: Record<BuildBackendKind, BuildBackend> = {
+  supabase: supabaseBuildBackend,
+  cloudbase: cloudbaseBuildBackend,
+};
@@ -0,0 +1,651 @@
+/**
+ * 平台处理器注册表
+ * 每个处理器负责解析本平台的表单字段，并指明国际版 / 国内版各自调用的构建服务
+ */
+
+import { processAndroidBuild } from "@/lib/services/android-builder";
+import { processiOSBuild } from "@/lib/services/ios-builder";
+import { processHarmonyOSBuild } from "@/lib/services/harmonyos-builder";
+import { processChromeExtensionBuild } from "@/lib/services/chrome-extension-builder";
+import { processWechatBuild } from "@/lib/services/wechat-builder";
+import { processAlipayBuild, processXiaohongshuBuild } from "@/lib/services/mini-program-builder";
+import { processWindowsExeBuild } from "@/lib/services/windows-exe-builder";
+import { processMacOSAppBuild } from "@/lib/services/macos-app-builder";
+import { processLinuxAppBuild } from "@/lib/services/linux-app-builder";
+import { processAndroidBuildDomestic } from "@/lib/services/domestic/android-builder";
+import { processiOSBuildDomestic } from "@/lib/services/domestic/ios-builder";
+import { processHarmonyOSBuildDomestic } from "@/lib/services/domestic/harmonyos-builder";
+import { processChromeExtensionBuildDomestic } from "@/lib/services/domestic/chrome-extension-builder";
+import { processWechatBuildDomestic } from "@/lib/services/domestic/wechat-builder";
+import {
+  processAlipayBuildDomestic,
+  processXiaohongshuBuildDomestic,
+} from "@/lib/services/domestic/mini-program-builder";
+import { processWindowsExeBuildDomestic } from "@/lib/services/domestic/windows-exe-builder";
+import { processMacOSAppBuildDomestic } from "@/lib/services/domestic/macos-app-builder";
+import { processLinuxAppBuildDomestic } from "@/lib/services/domestic/linux-app-builder";
+import { z } from "zod";
+import { nativeShellConfigSchema, parseNativeShellConfig, type NativeShellConfig } from "@/lib/config/native-shell";
+import { androidAdvancedConfigSchema, parseAndroidAdvancedConfig } from "@/lib/config/android-advanced";
+import { parsePushConfig, getPushProvider, pushConfigSchema, type PushConfig } from "@/lib/config/push-notifications";
+import { deepLinkConfigSchema, parseDeepLinkConfig, type DeepLinkConfig } from "@/lib/config/deep-links";
+import { LINUX_PACKAGE_FORMATS, parseLinuxPackageFormat } from "@/lib/config/linux-packaging";
+import { MACOS_PACKAGE_FORMATS, parseMacOSPackageFormat } from "@/lib/config/macos-packaging";
+import { parseWindowsInstallerConfig, windowsInstallerConfigSchema } from "@/lib/config/windows-installer";
+import { parseWindowsMetadataConfig, windowsMetadataConfigSchema } from "@/lib/config/windows-metadata";
+import { desktopShellConfigSchema, parseDesktopShellConfig, type DesktopShellConfig } from "@/lib/config/desktop-shell";
+import {
+  DEFAULT_BROWSER_EXTENSION_TARGETS,
+  getBrowserExtensionPackageFormat,
+  isBrowserExtensionVersion,
+  browserExtensionConfigSchema,
+  parseBrowserExtensionConfig,
+} from "@/lib/config/browser-extension";
+import {
+  getMiniProgramAppIdHint,
+  isMiniProgramAppId,
+  isMiniProgramVersion,
+  miniProgramConfigSchema,
+  parseMiniProgramConfig,
+  type MiniProgramPlatform,
+} from "@/lib/config/mini-program";
+import { parseWechatMiniProgramConfig, wechatMiniProgramConfigSchema } from "@/lib/config/wechat-mini-program";
+import { parseWechatUploadConfig } from "@/lib/config/wechat-upload";
+import {
+  isWechatUploadConfigured,
+  prepareWechatUploadRequest,
+  type WechatUploadRequest,
+} from "@/lib/services/wechat-upload";
+import { validateVersionCodeInput } from "@/lib/config/version-codes";
+import { registerPlatformHandler } from "./registry";
+import type { BuildApiError, BuildStepResult, PlatformHandler, RegisteredPlatformHandler } from "./types";
+
+const PACKAGE_NAME_REGEX = /^[a-z][a-z0-9_]*(\.[a-z][a-z0-9_]*)+$/i;
+const WECHAT_APP_ID_REGEX = /^wx[a-f0-9]{16}$/i;
+
+function getField(formData: FormData, key: string, fallback = ""): string {
+  const value = formData.get(key);
+  return typeof value === "string" && value ? value : fallback;
+}
+
+function badRequest(error: string, message: string): { success: false; error: BuildApiError } {
+  return { success: false, error: { status: 400, body: { error, message } } };
+}
+
+/**
+ * 校验移动端共用的 JSON 配置字段（壳配置、推送、深度链接）
+ */
+function parseMobileConfigs(
+  formData: FormData,
+  options: { deepLinks: boolean }
+): BuildStepResult<{
+  shellConfig: NativeShellConfig | null;
+  pushConfig: PushConfig | null;
+  deepLinkConfig: DeepLinkConfig | null;
+}> {
+  const shellResult = parseNativeShellConfig(formData.get("shellConfig"));
+  if (!shellResult.success) return badRequest("Invalid shell config", shellResult.error);
+
+  const pushResult = parsePushConfig(formData.get("pushConfig"));
+  if (!pushResult.success) return badRequest("Invalid push config", pushResult.error);
+
+  let deepLinkConfig: DeepLinkConfig | null = null;
+  if (options.deepLinks) {
+    const deepLinkResult = parseDeepLinkConfig(formData.get("deepLinkConfig"));
+    if (!deepLinkResult.success) return badRequest("Invalid deep link config", deepLinkResult.error);
+    deepLinkConfig = deepLinkResult.data;
+  }
+
+  return {
+    success: true,
+    data: { shellConfig: shellResult.data, pushConfig: pushResult.data, deepLinkConfig },
+  };
+}
+
+// 移动端共用的 JSON 配置
+const mobileConfigsShape = {
+  shellConfig: nativeShellConfigSchema.nullable(),
+  pushConfig: pushConfigSchema.nullable(),
+};
+
+const androidParamsSchema = z.object({
+  packageName: z.string(),
+  versionName: z.string(),
+  versionCode: z.string(),
+  privacyPolicy: z.string(),
+  ...mobileConfigsShape,
+  deepLinkConfig: deepLinkConfigSchema.nullable(),
+  advancedConfig: androidAdvancedConfigSchema.nullable(),
+});
+
+type AndroidParams = z.infer<typeof androidParamsSchema>;
+
+const androidHandler: PlatformHandler<AndroidParams> = {
+  platform: "android",
+  supportsIcon: true,
+  paramsSchema: androidParamsSchema,
+  parse(formData) {
+    const packageName = getField(formData, "packageName");
+    if (!packageName) return badRequest("Missing required fields", "url, appName, and packageName are required");
+    if (!PACKAGE_NAME_REGEX.test(packageName)) {
+      return badRequest("Invalid package name", "Package name should be in format: com.example.app");
+    }
+
+    const configs = parseMobileConfigs(formData, { deepLinks: true });
+    if (!configs.success) return configs;
+
+    const advancedResult = parseAndroidAdvancedConfig(formData.get("advancedConfig"));
+    if (!advancedResult.success) return badRequest("Invalid advanced config", advancedResult.error);
+
+    // 留空时由编排器自动递增
+    const versionCode = getField(formData, "versionCode");
+    const versionError = validateVersionCodeInput("android", versionCode);
+    if (versionError) return badRequest("Invalid version code", versionError);
+
+    const params: AndroidParams = {
+      packageName,
+      versionName: getField(formData, "versionName", "1.0.0"),
+      versionCode,
+      privacyPolicy: getField(formData, "privacyPolicy"),
+      ...configs.data,
+      advancedConfig: advancedResult.data,
+    };
+
+    return {
+      success: true,
+      data: {
+        record: {
+          packageName,
+          versionName: params.versionName,
+          versionCode: params.versionCode,
+          privacyPolicy: params.privacyPolicy,
+          extra: {
+            push_provider: getPushProvider(params.pushConfig, "android"),
+            deep_link_config: params.deepLinkConfig,
+          },
+        },
+        params,
+      },
+    };
+  },
+  builders: {
+    supabase: processAndroidBuild,
+    cloudbase: processAndroidBuildDomestic,
+  },
+  versioning: {
+    track: "android",
+    apply: ({ record, params }, versionCode) => ({
+      record: { ...record, versionCode },
+      params: { ...params, versionCode },
+    }),
+  },
+};
+
+const iosParamsSchema = z.object({
+  bundleId: z.string(),
+  versionString: z.string(),
+  buildNumber: z.string(),
+  privacyPolicy: z.string(),
+  ...mobileConfigsShape,
+  deepLinkConfig: deepLinkConfigSchema.nullable(),
+});
+
+type IOSParams = z.infer<typeof iosParamsSchema>;
+
+const iosHandler: PlatformHandler<IOSParams> = {
+  platform: "ios",
+  supportsIcon: true,
+  paramsSchema: iosParamsSchema,
+  parse(formData) {
+    const bundleId = getField(formData, "bundleId");
+    if (!bundleId) return badRequest("Missing required fields", "url, appName, and bundleId are required");
+    if (!PACKAGE_NAME_REGEX.test(bundleId)) {
+      return badRequest("Invalid bundle ID", "Bundle ID should be in format: com.example.app");
+    }
+
+    const configs = parseMobileConfigs(formData, { deepLinks: true });
+    if (!configs.success) return configs;
+
+    // 留空时由编排器自动递增
+    const buildNumber = getField(formData, "buildNumber");
+    const versionError = validateVersionCodeInput("ios", buildNumber);
+    if (versionError) return badRequest("Invalid build number", versionError);
+
+    const params: IOSParams = {
+      bundleId,
+      // 旧版国内 API 使用 versionName 字段
+      versionString: getField(formData, "versionString", getField(formData, "versionName", "1.0.0")),
+      buildNumber,
+      privacyPolicy: getField(formData, "privacyPolicy"),
+      ...configs.data,
+    };
+
+    return {
+      success: true,
+      data: {
+        record: {
+          packageName: bundleId,
+          versionName: params.versionString,
+          versionCode: params.buildNumber,
+          privacyPolicy: params.privacyPolicy,
+          extra: {
+            push_provider: getPushProvider(params.pushConfig, "ios"),
+            deep_link_config: params.deepLinkConfig,
+          },
+        },
+        params,
+      },
+    };
+  },
+  builders: {
+    supabase: processiOSBuild,
+    cloudbase: processiOSBuildDomestic,
+  },
+  versioning: {
+    track: "ios",
+    apply: ({ record, params }, buildNumber) => ({
+      record: { ...record, versionCode: buildNumber },
+      params: { ...params, buildNumber },
+    }),
+  },
+};
+
+const harmonyosParamsSchema = z.object({
+  bundleName: z.string(),
+  versionName: z.string(),
+  versionCode: z.string(),
+  privacyPolicy: z.string(),
+  ...mobileConfigsShape,
+});
+
+type HarmonyOSParams = z.infer<typeof harmonyosParamsSchema>;
+
+const harmonyosHandler: PlatformHandler<HarmonyOSParams> = {
+  platform: "harmonyos",
+  supportsIcon: true,
+  paramsSchema: harmonyosParamsSchema,
+  parse(formData) {
+    const bundleName = getField(formData, "bundleName");
+    if (!bundleName) return badRequest("Missing required fields", "url, appName, and bundleName are required");
+    if (!PACKAGE_NAME_REGEX.test(bundleName)) {
+      return badRequest("Invalid bundle name", "Bundle name should be in format: com.example_harmony.app");
+    }
+
+    const configs = parseMobileConfigs(formData, { deepLinks: false });
+    if (!configs.success) return configs;
+
+    // 留空时由编排器自动递增
+    const versionCode = getField(formData, "versionCode");
+    const versionError = validateVersionCodeInput("harmonyos", versionCode);
+    if (versionError) return badRequest("Invalid version code", versionError);
+
+    const params: HarmonyOSParams = {
+      bundleName,
+      versionName: getField(formData, "versionName", "1.0.0"),
+      versionCode,
+      privacyPolicy: getField(formData, "privacyPolicy"),
+      shellConfig: configs.data.shellConfig,
+      pushConfig: configs.data.pushConfig,
+    };
+
+    return {
+      success: true,
+      data: {
+        record: {
+          packageName: bundleName,
+          versionName: params.versionName,
+          versionCode: params.versionCode,
+          privacyPolicy: params.privacyPolicy,
+          extra: { push_provider: getPushProvider(params.pushConfig, "harmonyos") },
+        },
+        params,
+      },
+    };
+  },
+  builders: {
+    supabase: processHarmonyOSBuild,
+    cloudbase: processHarmonyOSBuildDomestic,
+  },
+  versioning: {
+    track: "harmonyos",
+    apply: ({ record, params }, versionCode) => ({
+      record: { ...record, versionCode },
+      params: { ...params, versionCode },
+    }),
+  },
+};
+
+const chromeParamsSchema = z.object({
+  versionName: z.string(),
+  description: z.string(),
+  extensionConfig: browserExtensionConfigSchema.nullable(),
+});
+
+type ChromeParams = z.infer<typeof chromeParamsSchema>;
+
+/**
+ * 浏览器扩展可同时输出 Chrome / Firefox / Edge，目标浏览器记录在构建的 package_format 字段
+ */
+const chromeHandler: PlatformHandler<ChromeParams> = {
+  platform: "chrome",
+  supportsIcon: true,
+  paramsSchema: chromeParamsSchema,
+  parse(formData) {
+    const appName = getField(formData, "appName");
+    const versionName = getField(formData, "versionName", "1.0.0");
+    if (!isBrowserExtensionVersion(versionName)) {
+      return badRequest("Invalid version", "Version must be 1 - 4 dot-separated numbers, e.g. 1.0.0");
+    }
+
+    const extensionResult = parseBrowserExtensionConfig(formData.get("extensionConfig"));
+    if (!extensionResult.success) return badRequest("Invalid extension config", extensionResult.error);
+
+    const params: ChromeParams = {
+      versionName,
+      description: getField(formData, "description"),
+      extensionConfig: extensionResult.data,
+    };
+    const targets = params.extensionConfig?.targets || DEFAULT_BROWSER_EXTENSION_TARGETS;
+
+    return {
+      success: true,
+      data: {
+        record: {
+          packageName: `chrome.extension.${appName.toLowerCase().replace(/\s+/g, "")}`,
+          versionName: params.versionName,
+          versionCode: "1",
+          privacyPolicy: params.description,
+          extra: { package_format: getBrowserExtensionPackageFormat(targets) },
+        },
+        params,
+      },
+    };
+  },
+  builders: {
+    supabase: processChromeExtensionBuild,
+    cloudbase: processChromeExtensionBuildDomestic,
+  },
+};
+
+const wechatUploadRequestSchema: z.ZodType<WechatUploadRequest, z.ZodTypeDef, unknown> = z.object({
+  description: z.string(),
+  robot: z.number().int(),
+  encryptedPrivateKey: z.string().nullable(),
+});
+
+const wechatParamsSchema = z.object({
+  appId: z.string(),
+  version: z.string(),
+  wechatConfig: wechatMiniProgramConfigSchema.nullable(),
+  wechatUpload: wechatUploadRequestSchema.nullable(),
+});
+
+type WechatParams = z.infer<typeof wechatParamsSchema>;
+
+const wechatHandler: PlatformHandler<WechatParams> = {
+  platform: "wechat",
+  supportsIcon: false,
+  paramsSchema: wechatParamsSchema,
+  parse(formData) {
+    const appId = getField(formData, "appId");
+    if (!appId) return badRequest("Missing required fields", "url, appName, and appId are required");
+    if (!WECHAT_APP_ID_REGEX.test(appId)) {
+      return badRequest("Invalid AppID", "AppID should be in format: wx + 16 hex characters");
+    }
+
+    const version = getField(formData, "version", "1.0.0");
+
+    const configResult = parseWechatMiniProgramConfig(formData.get("wechatConfig"));
+    if (!configResult.success) return badRequest("Invalid WeChat config", configResult.error);
+
+    // 可选的自动上传：校验配置并加密上传密钥
+    const uploadResult = parseWechatUploadConfig(formData.get("uploadConfig"));
+    if (!uploadResult.success) return badRequest("Invalid upload config", uploadResult.error);
+    if (uploadResult.data) {
+      if (!isWechatUploadConfigured()) {
+        return {
+          success: false,
+          error: {
+            status: 503,
+            body: { error: "WeChat upload unavailable", message: "WeChat upload is not configured on this server" },
+          },
+        };
+      }
+      if (!isMiniProgramVersion(version)) {
+        return badRequest("Invalid version", "Version must be in format x.y.z, e.g. 1.0.0");
+      }
+    }
+    const prepared = prepareWechatUploadRequest(uploadResult.data);
+    if (!prepared.success) return badRequest("Invalid upload config", prepared.error);
+
+    const params: WechatParams = {
+      appId,
+      version,
+      wechatConfig: configResult.data,
+      wechatUpload: prepared.data,
+    };
+
+    return {
+      success: true,
+      data: {
+        // package_name 字段存储 AppID
+        record: { packageName: appId, versionName: params.version, versionCode: "1" },
+        params,
+      },
+    };
+  },
+  builders: {
+    supabase: processWechatBuild,
+    cloudbase: processWechatBuildDomestic,
+  },
+};
+
+const miniProgramParamsSchema = z.object({
+  appId: z.string(),
+  version: z.string(),
+  miniProgramConfig: miniProgramConfigSchema.nullable(),
+});
+
+type MiniProgramParams = z.infer<typeof miniProgramParamsSchema>;
+
+/**
+ * 支付宝 / 小红书小程序共用的表单解析，AppID 格式按平台校验
+ */
+function createMiniProgramHandler(
+  platform: MiniProgramPlatform,
+  builders: PlatformHandler<MiniProgramParams>["builders"]
+): PlatformHandler<MiniProgramParams> {
+  return {
+    platform,
+    supportsIcon: true,
+    paramsSchema: miniProgramParamsSchema,
+    parse(formData) {
+      const appId = getField(formData, "appId");
+      if (!appId) return badRequest("Missing required fields", "url, appName, and appId are required");
+      if (!isMiniProgramAppId(platform, appId)) {
+        return badRequest("Invalid AppID", `AppID should be ${getMiniProgramAppIdHint(platform)}`);
+      }
+
+      const version = getField(formData, "version", "1.0.0");
+      if (!isMiniProgramVersion(version)) {
+        return badRequest("Invalid version", "Version must be in format x.y.z, e.g. 1.0.0");
+      }
+
+      const configResult = parseMiniProgramConfig(formData.get("miniProgramConfig"));
+      if (!configResult.success) return badRequest("Invalid mini program config", configResult.error);
+
+      return {
+        success: true,
+        data: {
+          // package_name 字段存储 AppID
+          record: { packageName: appId, versionName: version, versionCode: "1" },
+          params: { appId, version, miniProgramConfig: configResult.data },
+        },
+      };
+    },
+    builders,
+  };
+}
+
+const alipayHandler = createMiniProgramHandler("alipay", {
+  supabase: processAlipayBuild,
+  cloudbase: processAlipayBuildDomestic,
+});
+
+const xiaohongshuHandler = createMiniProgramHandler("xiaohongshu", {
+  supabase: processXiaohongshuBuild,
+  cloudbase: processXiaohongshuBuildDomestic,
+});
+
+function getDesktopRecord(formData: FormData) {
+  const appName = getField(formData, "appName");
+  return {
+    packageName: appName.replace(/\s+/g, "-").toLowerCase(),
+    versionName: "1.0.0",
+    versionCode: "1",
+  };
+}
+
+/**
+ * 校验桌面端共用的壳配置（窗口、托盘、单实例、外链策略）
+ */
+function parseDesktopConfig(formData: FormData): BuildStepResult<DesktopShellConfig | null> {
+  const result = parseDesktopShellConfig(formData.get("desktopConfig"));
+  if (!result.success) return badRequest("Invalid desktop config", result.error);
+  return result;
+}
+
+const windowsParamsSchema = z.object({
+  installerConfig: windowsInstallerConfigSchema.nullable(),
+  metadataConfig: windowsMetadataConfigSchema.nullable(),
+  desktopConfig: desktopShellConfigSchema.nullable(),
+});
+
+type WindowsParams = z.infer<typeof windowsParamsSchema>;
+
+/**
+ * Windows 可选输出安装程序，未配置时为便携版 EXE；文件版本（或安装程序版本）写入构建的 version_name
+ */
+const windowsHandler: PlatformHandler<WindowsParams> = {
+  platform: "windows",
+  supportsIcon: true,
+  paramsSchema: windowsParamsSchema,
+  parse(formData) {
+    const installerResult = parseWindowsInstallerConfig(formData.get("installerConfig"));
+    if (!installerResult.success) return badRequest("Invalid installer config", installerResult.error);
+
+    const metadataResult = parseWindowsMetadataConfig(formData.get("metadataConfig"));
+    if (!metadataResult.success) return badRequest("Invalid metadata config", metadataResult.error);
+
+    const desktopResult = parseDesktopConfig(formData);
+    if (!desktopResult.success) return desktopResult;
+
+    const installerConfig = installerResult.data;
+    const metadataConfig = metadataResult.data;
+    const record = getDesktopRecord(formData);
+
+    return {
+      success: true,
+      data: {
+        record: {
+          ...record,
+          versionName: metadataConfig?.fileVersion || installerConfig?.version || record.versionName,
+          extra: { package_format: installerConfig ? "installer" : "exe" },
+        },
+        params: { installerConfig, metadataConfig, desktopConfig: desktopResult.data },
+      },
+    };
+  },
+  builders: {
+    supabase: processWindowsExeBuild,
+    cloudbase: processWindowsExeBuildDomestic,
+  },
+};
+
+const linuxParamsSchema = z.object({
+  packageFormat: z.enum(LINUX_PACKAGE_FORMATS),
+  desktopConfig: desktopShellConfigSchema.nullable(),
+});
+
+type LinuxParams = z.infer<typeof linuxParamsSchema>;
+
+/**
+ * Linux 额外选择安装包格式（tar.gz / deb / rpm / AppImage），记录在构建的 package_format 字段
+ */
+const linuxHandler: PlatformHandler<LinuxParams> = {
+  platform: "linux",
+  supportsIcon: true,
+  paramsSchema: linuxParamsSchema,
+  parse(formData) {
+    const formatResult = parseLinuxPackageFormat(formData.get("packageFormat"));
+    if (!formatResult.success) return badRequest("Invalid package format", formatResult.error);
+
+    const desktopResult = parseDesktopConfig(formData);
+    if (!desktopResult.success) return desktopResult;
+
+    return {
+      success: true,
+      data: {
+        record: { ...getDesktopRecord(formData), extra: { package_format: formatResult.data } },
+        params: { packageFormat: formatResult.data, desktopConfig: desktopResult.data },
+      },
+    };
+  },
+  builders: {
+    supabase: processLinuxAppBuild,
+    cloudbase: processLinuxAppBuildDomestic,
+  },
+};
+
+const macosParamsSchema = z.object({
+  packageFormat: z.enum(MACOS_PACKAGE_FORMATS),
+  dmgBackground: z.boolean(),
+  desktopConfig: desktopShellConfigSchema.nullable(),
+});
+
+type MacOSParams = z.infer<typeof macosParamsSchema>;
+
+/**
+ * macOS 额外选择 ZIP 或 DMG（DMG 可带品牌背景图），格式记录在构建的 package_format 字段
+ */
+const macosHandler: PlatformHandler<MacOSParams> = {
+  platform: "macos",
+  supportsIcon: true,
+  paramsSchema: macosParamsSchema,
+  parse(formData) {
+    const formatResult = parseMacOSPackageFormat(formData.get("packageFormat"));
+    if (!formatResult.success) return badRequest("Invalid package format", formatResult.error);
+
+    const desktopResult = parseDesktopConfig(formData);
+    if (!desktopResult.success) return desktopResult;
+
+    return {
+      success: true,
+      data: {
+        record: { ...getDesktopRecord(formData), extra: { package_format: formatResult.data } },
+        params: {
+          packageFormat: formatResult.data,
+          dmgBackground: formatResult.data === "dmg" && getField(formData, "dmgBackground") === "true",
+          desktopConfig: desktopResult.data,
+        },
+      },
+    };
+  },
+  builders: {
+    supabase: processMacOSAppBuild,
+    cloudbase: processMacOSAppBuildDomestic,
+  },
+};
+
+export const defaultPlatformHandlers: RegisteredPlatformHandler[] = [
+  registerPlatformHandler(androidHandler),
+  registerPlatformHandler(iosHandler),
+  registerPlatformHandler(harmonyosHandler),
+  registerPlatformHandler(chromeHandler),
+  registerPlatformHandler(wechatHandler),
+  registerPlatformHandler(alipayHandler),
+  registerPlatformHandler(xiaohongshuHandler),
+  registerPlatformHandler(windowsHandler),
+  registerPlatformHandler(macosHandler),
+  registerPlatformHandler(linuxHandler),
+];
@@ -0,0 +1,210 @@
+/**
+ * 统一构建编排器
+ *
+ * 认证 → 解析表单 → 校验图标 → 扣额度 → 发放版本号 → 上传图标 → 创建构建记录 → 后台执行构建，
+ * 这套流程对所有平台一致；平台差异由 PlatformHandler 描述，国际版 / 国内版差异由 BuildBackend 描述。
+ * 新增平台只需在 handlers.ts 中实现并注册一个处理器。
+ *
+ * GitHub Actions 构建（android-apk / ios-ipa / harmonyos-hap）、批量构建和游客构建仍使用各自的路由。
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { IS_DOMESTIC_VERSION } from "@/config";
+import { isIconUploadEnabled, validateImageSize } from "@/lib/config/upload";
+import { parseIconStyleConfig } from "@/lib/config/icon-style";
+import { createBuildLogSink, runWithBuildLog } from "@/lib/services/build-logs";
+import { getVersionCodeStore, issueVersionCode } from "@/lib/services/version-codes";
+import { buildBackends } from "./backends";
+import { defaultPlatformHandlers } from "./handlers";
+import type { BuildApiError, BuildBackend, BuildBackendKind, RegisteredPlatformHandler } from "./types";
+
+export { registerPlatformHandler } from "./registry";
+export type { BuildBackendKind, PlatformHandler, RegisteredPlatformHandler } from "./types";
+
+function errorResponse(error: BuildApiError): NextResponse {
+  return NextResponse.json(error.body, { status: error.status });
+}
+
+export class BuildOrchestrator {
+  private handlers = new Map<string, RegisteredPlatformHandler>();
+
+  constructor(private backend: BuildBackend) {}
+
+  register(handler: RegisteredPlatformHandler): this {
+    this.handlers.set(handler.platform, handler);
+    return this;
+  }
+
+  getPlatforms(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+
+  /**
+   * 处理构建请求
+   * @param platform 平台路由直接指定；统一入口 /api/builds 从表单 platform 字段读取
+   */
+  async handle(request: NextRequest, platform?: string): Promise<NextResponse> {
+    const logPrefix = `[BuildOrchestrator ${this.backend.kind}]`;
+    let reservedUserId: string | null = null;
+
+    try {
+      const authResult = await this.backend.authenticate();
+      if (!authResult.success) return errorResponse(authResult.error);
+      const { userId } = authResult.data;
+
+      const formData = await request.formData();
+      const platformName = platform || (formData.get("platform") as string | null) || "";
+      const handler = this.handlers.get(platformName);
+      if (!handler) {
+        return NextResponse.json(
+          {
+            error: "Unsupported platform",
+            message: `platform must be one of: ${this.getPlatforms().join(", ")}`,
+          },
+          { status: 400 }
+        );
+      }
+
+      const url = formData.get("url") as string;
+      const appName = formData.get("appName") as string;
+      if (!url || !appName) {
+        return NextResponse.json(
+          { error: "Missing required fields", message: "url and appName are required" },
+          { status: 400 }
+        );
+      }
+
+      // Validate URL format
+      try {
+        new URL(url);
+      } catch {
+        return NextResponse.json({ error: "Invalid URL", message: "Please provide a valid URL" }, { status: 400 });
+      }
+
+      const parsed = handler.parse(formData);
+      if (!parsed.success) return errorResponse(parsed.error);
+      let prepared = parsed.data;
+
+      // 图标样式（背景、边距、单色图层），各平台构建服务处理图标时使用
+      const iconStyleResult = parseIconStyleConfig(handler.supportsIcon ? formData.get("iconStyle") : null);
+      if (!iconStyleResult.success) {
+        return NextResponse.json({ error: "Invalid icon style", message: iconStyleResult.error }, { status: 400 });
+      }
+      const iconStyle = iconStyleResult.data;
+
+      // 预校验图标（避免先扣额度后失败）
+      const icon = handler.supportsIcon ? (formData.get("icon") as File | null) : null;
+      if (icon && icon.size > 0) {
+        if (!isIconUploadEnabled()) {
+          return NextResponse.json(
+            { error: "Icon upload disabled", message: "Icon upload is currently disabled" },
+            { status: 400 }
+          );
+        }
+
+        const sizeValidation = validateImageSize(icon.size);
+        if (!sizeValidation.valid) {
+          return NextResponse.json(
+            { error: "Icon too large", message: `Icon size (${sizeValidation.fileSizeMB}MB) exceeds limit (${sizeValidation.maxSizeMB}MB)` },
+            { status: 400 }
+          );
+        }
+      }
+
+      const quotaResult = await this.backend.reserveQuota(userId, 1);
+      if (!quotaResult.success) return errorResponse(quotaResult.error);
+      reservedUserId = userId;
+
+      // 版本号留空时在上次构建的基础上自动递增，发放失败时拒绝构建并退还额度
+      if (handler.versionTrack) {
+        let versionCode: string;
+        try {
+          versionCode = await issueVersionCode(
+            getVersionCodeStore(this.backend.kind),
+            userId,
+            handler.versionTrack,
+            prepared.record.packageName,
+            prepared.record.versionCode
+          );
+        } catch (error) {
+          console.error(`${logPrefix} Version code error:`, error);
+          reservedUserId = null;
+          await this.backend.refundQuota(userId, 1).catch(console.error);
+          return NextResponse.json(
+            { error: "Version code unavailable", message: "Failed to issue a version code, please try again" },
+            { status: 503 }
+          );
+        }
+        prepared = prepared.withVersionCode(versionCode);
+      }
+
+      // 图标上传失败不影响构建继续
+      let iconPath: string | null = null;
+      if (icon && icon.size > 0) {
+        iconPath = await this.backend.uploadIcon(userId, icon);
+      } else if (handler.supportsIcon) {
+        iconPath = this.backend.resolvePreUploadedIcon(userId, formData.get("iconPath") as string | null);
+      }
+
+      const buildResult = await this.backend.createBuildRecord(userId, {
+        ...prepared.record,
+        extra: { ...prepared.record.extra, config_snapshot: prepared.configSnapshot(iconStyle) },
+        platform: handler.platform,
+        appName,
+        url,
+        iconPath,
+      });
+      // 创建记录失败时后端已退还额度
+      reservedUserId = null;
+      if (!buildResult.success) return errorResponse(buildResult.error);
+
+      const { buildId } = buildResult.data;
+      console.log(`${logPrefix} Build ${buildId} created for platform ${handler.platform}`);
+
+      // 立即返回 buildId，构建在后台执行，前端轮询进度
+      const { payload, run } = prepared.bind({ url, appName, iconPath, iconStyle });
+      await this.backend.dispatch(buildId, {
+        userId,
+        platform: handler.platform,
+        payload,
+        run: () => runWithBuildLog(
+          createBuildLogSink(this.backend.kind, buildId, handler.platform),
+          () => run(this.backend.kind, buildId)
+        ),
+      });
+
+      return NextResponse.json({
+        success: true,
+        buildId,
+        message: "Build task created successfully",
+        status: "pending",
+      });
+    } catch (error) {
+      console.error(`${logPrefix} Error:`, error);
+      if (reservedUserId) {
+        await this.backend.refundQuota(reservedUserId, 1).catch(console.error);
+      }
+      return NextResponse.json(
+        { error: "Internal server error", message: "An unexpected error occurred" },
+        { status: 500 }
+      );
+    }
+  }
+}
+
+const orchestrators = new Map<BuildBackendKind, BuildOrchestrator>();
+
+/**
+ * 获取注册了全部平台处理器的编排器（按后端缓存）
+ * 未指定后端时按当前部署版本选择
+ */
+export function getBuildOrchestrator(kind?: BuildBackendKind): BuildOrchestrator {
+  const backendKind: BuildBackendKind = kind || (IS_DOMESTIC_VERSION ? "cloudbase" : "supabase");
+  let orchestrator = orchestrators.get(backendKind);
+  if (!orchestrator) {
+    orchestrator = new BuildOrchestrator(buildBackends[backendKind]);
+    defaultPlatformHandlers.forEach((handler) => orchestrator!.register(handler));
+    orchestrators.set(backendKind, orchestrator);
+  }
+  return orchestrator;
+}
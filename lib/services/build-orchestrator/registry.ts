@@ -0,0 +1,82 @@
+/**
+ * 平台处理器注册
+ * 把 PlatformHandler<P> 包装为与参数类型无关的 RegisteredPlatformHandler，
+ * 表单解析得到的 params 和队列中读出的 payload 都在这里与构建服务的参数类型对上
+ */
+
+import { z } from "zod";
+import { iconStyleConfigSchema } from "@/lib/config/icon-style";
+import { parseBuildConfigSnapshot } from "@/lib/builds/config-snapshot";
+import { BuildError, BuildErrorType } from "@/lib/services/build-timeout";
+import type {
+  BuildPayload,
+  BuildRunnerBase,
+  PlatformBuildRequest,
+  PlatformHandler,
+  PreparedPlatformBuild,
+  RegisteredPlatformHandler,
+} from "./types";
+
+const buildRunnerBaseSchema: z.ZodType<BuildRunnerBase, z.ZodTypeDef, unknown> = z.object({
+  url: z.string().url(),
+  appName: z.string().min(1),
+  iconPath: z.string().nullable(),
+  iconStyle: iconStyleConfigSchema.nullable(),
+});
+
+function prepare<P>(handler: PlatformHandler<P>, request: PlatformBuildRequest<P>): PreparedPlatformBuild {
+  return {
+    record: request.record,
+    withVersionCode(versionCode) {
+      return handler.versioning ? prepare(handler, handler.versioning.apply(request, versionCode)) : this;
+    },
+    configSnapshot(iconStyle) {
+      return parseBuildConfigSnapshot({ ...request.params, iconStyle });
+    },
+    bind(base) {
+      const payload: BuildPayload<P> = { ...request.params, ...base };
+      return {
+        payload,
+        run: (kind, buildId) => handler.builders[kind](buildId, payload),
+      };
+    },
+  };
+}
+
+function invalidPayload(platform: string, error: z.ZodError): { success: false; error: string } {
+  const issue = error.issues[0];
+  return { success: false, error: `Invalid ${platform} build payload: ${issue.path.join(".") || "payload"}: ${issue.message}` };
+}
+
+/**
+ * 校验队列中的 payload（结构与 bind 写入的一致）
+ */
+export function parseBuildPayload<P>(
+  handler: Pick<PlatformHandler<P>, "platform" | "paramsSchema">,
+  raw: unknown
+): { success: true; data: BuildPayload<P> } | { success: false; error: string } {
+  const base = buildRunnerBaseSchema.safeParse(raw);
+  if (!base.success) return invalidPayload(handler.platform, base.error);
+  const params = handler.paramsSchema.safeParse(raw);
+  if (!params.success) return invalidPayload(handler.platform, params.error);
+  return { success: true, data: { ...params.data, ...base.data } };
+}
+
+export function registerPlatformHandler<P>(handler: PlatformHandler<P>): RegisteredPlatformHandler {
+  return {
+    platform: handler.platform,
+    supportsIcon: handler.supportsIcon,
+    versionTrack: handler.versioning?.track ?? null,
+    parse(formData) {
+      const parsed = handler.parse(formData);
+      return parsed.success ? { success: true, data: prepare(handler, parsed.data) } : parsed;
+    },
+    async runPayload(kind, buildId, raw) {
+      const payload = parseBuildPayload(handler, raw);
+      if (!payload.success) {
+        throw new BuildError(payload.error, BuildErrorType.VALIDATION);
+      }
+      await handler.builders[kind](buildId, payload.data);
+    },
+  };
+}
@@ -0,0 +1,133 @@
+import type { z } from "zod";
+import type { IconStyleConfig } from "@/lib/config/icon-style";
+import type { VersionTrack } from "@/lib/config/version-codes";
+import type { BuildConfigSnapshot } from "@/lib/builds/config-snapshot";
+
+/**
+ * 构建编排器类型定义
+ * 平台处理器（解析表单 + 调用构建服务）与存储/数据库后端（Supabase / CloudBase）互相独立
+ */
+
+export type BuildBackendKind = "supabase" | "cloudbase";
+
+export interface BuildApiError {
+  status: number;
+  body: { error: string; message?: string; [key: string]: unknown };
+}
+
+export type BuildStepResult<T> = { success: true; data: T } | { success: false; error: BuildApiError };
+
+/**
+ * 写入 builds 表 / 集合的通用字段
+ */
+export interface BuildRecordInput {
+  platform: string;
+  appName: string;
+  url: string;
+  packageName: string;
+  versionName: string;
+  versionCode: string;
+  privacyPolicy?: string;
+  iconPath: string | null;
+  // 平台专属字段（push_provider、deep_link_config 等）
+  extra?: Record<string, unknown>;
+}
+
+/**
+ * 存储/数据库后端
+ * 认证、额度、图标存储、构建记录和后台执行方式在国际版（Supabase + Vercel）和国内版（CloudBase）之间不同
+ */
+export interface BuildBackend {
+  kind: BuildBackendKind;
+  authenticate(): Promise<BuildStepResult<{ userId: string }>>;
+  reserveQuota(userId: string, count: number): Promise<BuildStepResult<null>>;
+  refundQuota(userId: string, count: number): Promise<void>;
+  // 上传失败返回 null，不影响构建继续
+  uploadIcon(userId: string, icon: File): Promise<string | null>;
+  // 前端预上传的图标路径（只接受当前用户目录下的文件）
+  resolvePreUploadedIcon(userId: string, iconPath: string | null): string | null;
+  // 失败时由后端自行退还已扣除的额度
+  createBuildRecord(userId: string, record: BuildRecordInput): Promise<BuildStepResult<{ buildId: string }>>;
+  // 提交构建任务（国际版写入持久化队列，国内版在后台直接执行），不等待构建完成
+  dispatch(buildId: string, job: BuildDispatchJob): Promise<void>;
+}
+
+// 传给构建服务的参数（BuildPayload<P>），需可序列化为 JSON；按 platform 对应的处理器解读
+export type BuildJobPayload = object;
+
+export interface BuildDispatchJob {
+  userId: string;
+  platform: string;
+  // 写入 build_jobs.payload，worker 执行前由该平台处理器的 paramsSchema 校验
+  payload: BuildJobPayload;
+  run: () => Promise<void>;
+}
+
+/**
+ * 编排器在图标上传后补充、所有平台构建服务共用的参数
+ */
+export interface BuildRunnerBase {
+  url: string;
+  appName: string;
+  iconPath: string | null;
+  iconStyle: IconStyleConfig | null;
+}
+
+export type BuildPayload<P> = P & BuildRunnerBase;
+
+/**
+ * 平台处理器解析表单后的结果
+ * params 会在图标上传后补上 BuildRunnerBase，再交给对应后端的构建服务
+ */
+export interface PlatformBuildRequest<P> {
+  record: Omit<BuildRecordInput, "platform" | "url" | "appName" | "iconPath">;
+  params: P;
+}
+
+export type PlatformBuildRunner<P> = (buildId: string, params: BuildPayload<P>) => Promise<void>;
+
+/**
+ * 平台处理器：新增平台只需实现并注册一个处理器
+ */
+export interface PlatformHandler<P> {
+  platform: string;
+  // 是否接受图标上传（微信小程序不需要）
+  supportsIcon: boolean;
+  parse(formData: FormData): BuildStepResult<PlatformBuildRequest<P>>;
+  // params 的结构，队列 worker 读取 build_jobs.payload 时按它校验（多余字段会被去掉）
+  paramsSchema: z.ZodType<P, z.ZodTypeDef, unknown>;
+  builders: Record<BuildBackendKind, PlatformBuildRunner<P>>;
+  // 版本号自动递增（record.versionCode 为请求值，留空表示自动），apply 写回发放的版本号
+  versioning?: {
+    track: VersionTrack;
+    apply(request: PlatformBuildRequest<P>, versionCode: string): PlatformBuildRequest<P>;
+  };
+}
+
+/**
+ * 解析完成、等待发放版本号和上传图标的构建
+ */
+export interface PreparedPlatformBuild {
+  record: PlatformBuildRequest<unknown>["record"];
+  // 写回自动发放的版本号
+  withVersionCode(versionCode: string): PreparedPlatformBuild;
+  // 写入构建记录的配置快照（图标样式由编排器统一解析，在这里补上）
+  configSnapshot(iconStyle: IconStyleConfig | null): BuildConfigSnapshot | null;
+  // 补上公共参数，得到写入队列的 payload 和执行构建的函数
+  bind(base: BuildRunnerBase): {
+    payload: BuildJobPayload;
+    run(kind: BuildBackendKind, buildId: string): Promise<void>;
+  };
+}
+
+/**
+ * 注册表中的处理器：params 的类型在内部闭合，编排器和队列 worker 不需要知道各平台的参数类型
+ */
+export interface RegisteredPlatformHandler {
+  platform: string;
+  supportsIcon: boolean;
+  versionTrack: VersionTrack | null;
+  parse(formData: FormData): BuildStepResult<PreparedPlatformBuild>;
+  // 校验队列中的 payload 后执行构建，payload 与处理器参数不符时抛出 VALIDATION 错误（不重试）
+  runPayload(kind: BuildBackendKind, buildId: string, payload: unknown): Promise<void>;
+}
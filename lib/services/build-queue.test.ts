@@ -0,0 +1,248 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { BuildError, BuildErrorType } from "@/lib/services/build-timeout";
+import { getRetryDelaySeconds, reapStaleBuildJobs, runBuildWorker } from "./build-queue";
+
+type Query = { table: string; update?: Record<string, unknown>; filters: Array<[string, string, unknown]> };
+
+const db = vi.hoisted(() => ({
+  rpc: {} as Record<string, unknown>,
+  rpcCalls: [] as Array<{ name: string; args: Record<string, unknown> }>,
+  build: null as { status: string; error_message: string | null } | null,
+  queries: [] as Query[],
+}));
+
+const runPayload = vi.hoisted(() => vi.fn());
+const refundBuildQuota = vi.hoisted(() => vi.fn());
+
+function createQuery(table: string) {
+  const query: Query = { table, filters: [] };
+  db.queries.push(query);
+  const chain = {
+    select: () => chain,
+    update: (values: Record<string, unknown>) => {
+      query.update = values;
+      return chain;
+    },
+    eq: (column: string, value: unknown) => {
+      query.filters.push(["eq", column, value]);
+      return chain;
+    },
+    neq: (column: string, value: unknown) => {
+      query.filters.push(["neq", column, value]);
+      return chain;
+    },
+    single: () => Promise.resolve({ data: db.build, error: null }),
+    then: (resolve: (value: { data: null; error: null }) => unknown) => resolve({ data: null, error: null }),
+  };
+  return chain;
+}
+
+vi.mock("@/lib/supabase/server", () => ({
+  createServiceClient: () => ({
+    from: createQuery,
+    rpc: async (name: string, args: Record<string, unknown>) => {
+      db.rpcCalls.push({ name, args });
+      return { data: db.rpc[name] ?? null, error: null };
+    },
+  }),
+}));
+
+vi.mock("@/services/wallet-supabase", () => ({ refundBuildQuota }));
+
+vi.mock("@/lib/services/build-orchestrator/handlers", () => ({
+  defaultPlatformHandlers: [{ platform: "android", runPayload }],
+}));
+
+vi.mock("@/lib/services/build-logs", () => ({
+  appendBuildLog: vi.fn(),
+  createBuildLogSink: vi.fn(),
+  runWithBuildLog: (_sink: unknown, fn: () => Promise<unknown>) => fn(),
+}));
+
+const job = {
+  id: "job-1",
+  build_id: "build-1",
+  user_id: "user-1",
+  platform: "android",
+  payload: {},
+  status: "running",
+  attempts: 1,
+  max_attempts: 3,
+  last_error: null,
+  last_error_type: null,
+};
+
+function buildUpdates() {
+  return db.queries.filter((q) => q.table === "builds" && q.update).map((q) => q.update);
+}
+
+function rpcNames() {
+  return db.rpcCalls.map((call) => call.name);
+}
+
+beforeEach(() => {
+  db.rpc = { claim_build_jobs: [job] };
+  db.rpcCalls = [];
+  db.build = null;
+  db.queries = [];
+  runPayload.mockReset();
+  refundBuildQuota.mockReset().mockResolvedValue({ success: true });
+});
+
+describe("getRetryDelaySeconds", () => {
+  it("backs off exponentially from the error type's base delay", () => {
+    expect(getRetryDelaySeconds(BuildErrorType.NETWORK, 1)).toBe(15);
+    expect(getRetryDelaySeconds(BuildErrorType.NETWORK, 2)).toBe(30);
+    expect(getRetryDelaySeconds(BuildErrorType.TIMEOUT, 3)).toBe(120);
+    expect(getRetryDelaySeconds(BuildErrorType.UNKNOWN, 0)).toBe(30);
+  });
+
+  it("caps the delay at 10 minutes", () => {
+    expect(getRetryDelaySeconds(BuildErrorType.STORAGE, 10)).toBe(600);
+  });
+
+  it("does not retry validation errors or cancellations", () => {
+    expect(getRetryDelaySeconds(BuildErrorType.VALIDATION, 1)).toBeNull();
+    expect(getRetryDelaySeconds(BuildErrorType.CANCELLED, 1)).toBeNull();
+  });
+});
+
+describe("runBuildWorker", () => {
+  it("requeues retryable failures and resets the build to pending", async () => {
+    runPayload.mockRejectedValue(new BuildError("fetch failed", BuildErrorType.NETWORK));
+    db.rpc.fail_build_job = "queued";
+
+    const result = await runBuildWorker({ workerId: "w" });
+
+    expect(result.processed).toEqual([{ jobId: "job-1", buildId: "build-1", status: "queued" }]);
+    expect(db.rpcCalls.find((call) => call.name === "fail_build_job")?.args).toMatchObject({
+      p_error_type: BuildErrorType.NETWORK,
+      p_retry_delay_seconds: 15,
+    });
+    expect(buildUpdates()).toEqual([{ status: "pending", progress: 0, error_message: null }]);
+    expect(rpcNames()).not.toContain("mark_build_job_refunded");
+    expect(refundBuildQuota).not.toHaveBeenCalled();
+  });
+
+  it("marks the build failed and refunds when a non-retryable error fails the job", async () => {
+    runPayload.mockRejectedValue(new BuildError("Invalid android build payload", BuildErrorType.VALIDATION));
+    db.rpc.fail_build_job = "failed";
+    db.rpc.mark_build_job_refunded = true;
+
+    const result = await runBuildWorker({ workerId: "w" });
+
+    expect(result.processed[0].status).toBe("failed");
+    expect(db.rpcCalls.find((call) => call.name === "fail_build_job")?.args).toMatchObject({
+      p_error_type: BuildErrorType.VALIDATION,
+      p_retry_delay_seconds: null,
+    });
+    expect(buildUpdates()).toEqual([{ status: "failed", error_message: "Invalid android build payload" }]);
+    expect(db.rpcCalls.find((call) => call.name === "mark_build_job_refunded")?.args).toEqual({ p_job_id: "job-1" });
+    expect(refundBuildQuota).toHaveBeenCalledWith("user-1", 1);
+  });
+
+  it("refunds dead jobs once retries are exhausted", async () => {
+    runPayload.mockResolvedValue(undefined);
+    db.build = { status: "failed", error_message: "Gradle build failed" };
+    db.rpc.fail_build_job = "dead";
+    db.rpc.mark_build_job_refunded = true;
+
+    const result = await runBuildWorker({ workerId: "w" });
+
+    expect(result.processed[0].status).toBe("dead");
+    expect(buildUpdates()).toEqual([{ status: "failed", error_message: "Gradle build failed" }]);
+    expect(refundBuildQuota).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not refund again when the quota was already refunded", async () => {
+    runPayload.mockResolvedValue(undefined);
+    db.build = { status: "cancelled", error_message: null };
+    db.rpc.fail_build_job = "failed";
+    db.rpc.mark_build_job_refunded = false;
+
+    await runBuildWorker({ workerId: "w" });
+
+    expect(db.rpcCalls.find((call) => call.name === "fail_build_job")?.args).toMatchObject({
+      p_error_type: BuildErrorType.CANCELLED,
+    });
+    const update = db.queries.find((q) => q.table === "builds" && q.update);
+    expect(update?.filters).toContainEqual(["neq", "status", "cancelled"]);
+    expect(refundBuildQuota).not.toHaveBeenCalled();
+  });
+
+  it("completes the job when the build finished", async () => {
+    runPayload.mockResolvedValue(undefined);
+    db.build = { status: "completed", error_message: null };
+
+    const result = await runBuildWorker({ workerId: "w" });
+
+    expect(result.processed[0].status).toBe("succeeded");
+    expect(rpcNames()).toEqual(["claim_build_jobs", "complete_build_job"]);
+  });
+
+  it("renews the lease while the build runs and stops once it ends", async () => {
+    vi.useFakeTimers();
+    try {
+      let finishBuild = () => {};
+      runPayload.mockReturnValue(new Promise<void>((resolve) => (finishBuild = resolve)));
+      db.build = { status: "completed", error_message: null };
+
+      const worker = runBuildWorker({ workerId: "w" });
+      await vi.advanceTimersByTimeAsync(45_000);
+      finishBuild();
+      await worker;
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      const renewals = db.rpcCalls.filter((call) => call.name === "renew_build_job_lease");
+      expect(renewals).toHaveLength(2);
+      expect(renewals[0].args).toEqual({ p_job_id: "job-1", p_worker_id: "w", p_lease_seconds: 60 });
+      expect(db.rpcCalls.find((call) => call.name === "claim_build_jobs")?.args).toMatchObject({ p_lease_seconds: 60 });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("claims one job at a time up to the limit", async () => {
+    runPayload.mockResolvedValue(undefined);
+    db.build = { status: "completed", error_message: null };
+
+    const result = await runBuildWorker({ workerId: "w", limit: 2 });
+
+    expect(result.processed).toHaveLength(2);
+    expect(db.rpcCalls.filter((call) => call.name === "claim_build_jobs").map((call) => call.args.p_limit)).toEqual([1, 1]);
+  });
+
+  it("fails jobs for unknown platforms without retrying", async () => {
+    db.rpc.claim_build_jobs = [{ ...job, platform: "symbian" }];
+    db.rpc.fail_build_job = "failed";
+    db.rpc.mark_build_job_refunded = true;
+
+    await runBuildWorker({ workerId: "w" });
+
+    expect(db.rpcCalls.find((call) => call.name === "fail_build_job")?.args).toMatchObject({
+      p_error: "Unsupported platform: symbian",
+      p_retry_delay_seconds: null,
+    });
+    expect(refundBuildQuota).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("reapStaleBuildJobs", () => {
+  it("requeues jobs with attempts left and finalizes dead ones", async () => {
+    db.rpc.reap_stale_build_jobs = [
+      { ...job, id: "job-1", build_id: "build-1", status: "queued" },
+      { ...job, id: "job-2", build_id: "build-2", status: "dead" },
+    ];
+    db.rpc.mark_build_job_refunded = true;
+
+    const result = await reapStaleBuildJobs();
+
+    expect(result).toEqual({ requeued: 1, dead: 1 });
+    expect(buildUpdates()).toEqual([
+      { status: "pending", progress: 0, error_message: null },
+      { status: "failed", error_message: "Build worker timed out" },
+    ]);
+    expect(db.rpcCalls.find((call) => call.name === "mark_build_job_refunded")?.args).toEqual({ p_job_id: "job-2" });
+    expect(refundBuildQuota).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * 持久化构建任务队列（国际版 / Supabase）
+ *
+ * 构建请求只负责写入 build_jobs，由 worker 通过租约领取执行：
+ * - 失败按 BuildErrorType 退避重试，次数用尽后标记为 dead 并退还额度
+ * - 不可重试的错误直接标记为 failed，同样将构建置为失败并退还额度
+ * - 执行期间定时续租；worker 被平台强制结束时任务停留在 running，租约过期后由 reapStaleBuildJobs 回收
+ * 状态流转和 SQL 函数见 supabase/migrations/20261019004_build_jobs.sql（续租见 20261019016_build_jobs_lease_renewal.sql）
+ */
+
+import crypto, { randomUUID } from "crypto";
+import { createServiceClient } from "@/lib/supabase/server";
+import { refundBuildQuota } from "@/services/wallet-supabase";
+import { BuildError, BuildErrorType, classifyBuildError } from "@/lib/services/build-timeout";
+import { defaultPlatformHandlers } from "@/lib/services/build-orchestrator/handlers";
+import type { BuildJobPayload } from "@/lib/services/build-orchestrator/types";
+import { appendBuildLog, createBuildLogSink, runWithBuildLog } from "@/lib/services/build-logs";
+
+// 租约短于最短的函数执行时间（请求内启动的 worker 随 /api/builds 的 maxDuration 120 秒结束），
+// 执行期间每 20 秒续租；worker 被强制结束后租约最多 60 秒过期，由每分钟的回收任务重新入队
+const JOB_LEASE_SECONDS = 60;
+const LEASE_RENEW_INTERVAL_MS = 20_000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+export type BuildJobStatus = "queued" | "running" | "succeeded" | "failed" | "dead";
+
+export interface BuildJob {
+  id: string;
+  build_id: string;
+  user_id: string;
+  platform: string;
+  // 按 platform 对应处理器的 paramsSchema 校验后使用
+  payload: unknown;
+  status: BuildJobStatus;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  last_error_type: string | null;
+}
+
+/**
+ * 各错误类型的重试策略
+ * retryable 为 false 的错误重试也不会成功（参数问题），直接标记为 failed
+ */
+const RETRY_POLICY: Record<BuildErrorType, { retryable: boolean; baseDelaySeconds: number }> = {
+  [BuildErrorType.TIMEOUT]: { retryable: true, baseDelaySeconds: 30 },
+  [BuildErrorType.NETWORK]: { retryable: true, baseDelaySeconds: 15 },
+  [BuildErrorType.STORAGE]: { retryable: true, baseDelaySeconds: 60 },
+  [BuildErrorType.VALIDATION]: { retryable: false, baseDelaySeconds: 0 },
+  [BuildErrorType.CANCELLED]: { retryable: false, baseDelaySeconds: 0 },
+  [BuildErrorType.UNKNOWN]: { retryable: true, baseDelaySeconds: 30 },
+};
+
+/**
+ * 指数退避：base * 2^(attempts-1)，最多 10 分钟
+ */
+export function getRetryDelaySeconds(type: BuildErrorType, attempts: number): number | null {
+  const policy = RETRY_POLICY[type];
+  if (!policy.retryable) return null;
+  return Math.min(policy.baseDelaySeconds * 2 ** Math.max(0, attempts - 1), 600);
+}
+
+/**
+ * 校验 worker 接口的 Bearer Token（Vercel Cron 自动携带 CRON_SECRET）
+ */
+export function verifyWorkerToken(authorization: string | null): boolean {
+  const secret = process.env.CRON_SECRET?.trim();
+  const token = authorization?.replace(/^Bearer\s+/i, "").trim();
+  if (!secret || !token) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * 写入构建任务
+ */
+export async function enqueueBuildJob(params: {
+  buildId: string;
+  userId: string;
+  platform: string;
+  payload: BuildJobPayload;
+  maxAttempts?: number;
+}): Promise<{ success: boolean; jobId?: string; error?: string }> {
+  const { data, error } = await createServiceClient()
+    .from("build_jobs")
+    .insert({
+      build_id: params.buildId,
+      user_id: params.userId,
+      platform: params.platform,
+      payload: params.payload,
+      max_attempts: params.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    return { success: false, error: error?.message || "Failed to enqueue build job" };
+  }
+  return { success: true, jobId: data.id };
+}
+
+/**
+ * 构建执行期间定时续租，返回停止续租的函数
+ */
+function keepLeaseAlive(job: BuildJob, workerId: string): () => void {
+  const timer = setInterval(() => {
+    void createServiceClient()
+      .rpc("renew_build_job_lease", { p_job_id: job.id, p_worker_id: workerId, p_lease_seconds: JOB_LEASE_SECONDS })
+      .then(({ error }) => {
+        if (error) console.error(`[BuildQueue] Failed to renew lease for job ${job.id}:`, error);
+      });
+  }, LEASE_RENEW_INTERVAL_MS);
+  return () => clearInterval(timer);
+}
+
+/**
+ * 执行单个任务：构建服务自行捕获错误并写入构建记录，因此以构建记录的最终状态判断结果
+ */
+async function runBuildJob(job: BuildJob, workerId: string): Promise<BuildJobStatus | null> {
+  const supabase = createServiceClient();
+  const handler = defaultPlatformHandlers.find((h) => h.platform === job.platform);
+
+  let failure: unknown = null;
+  if (!handler) {
+    failure = new Error(`Unsupported platform: ${job.platform}`);
+  } else {
+    const stopRenewal = keepLeaseAlive(job, workerId);
+    try {
+      await runWithBuildLog(
+        createBuildLogSink("supabase", job.build_id, job.platform),
+        () => handler.runPayload("supabase", job.build_id, job.payload),
+        `Attempt ${job.attempts}/${job.max_attempts} started by ${workerId}`
+      );
+      const { data: build } = await supabase
+        .from("builds")
+        .select("status, error_message")
+        .eq("id", job.build_id)
+        .single();
+
+      if (build?.status === "completed") {
+        await supabase.rpc("complete_build_job", { p_job_id: job.id, p_worker_id: workerId });
+        return "succeeded";
+      }
+      // 用户取消的构建不重试（取消接口已退还额度）
+      if (build?.status === "cancelled") {
+        failure = new BuildError("Build cancelled by user", BuildErrorType.CANCELLED);
+      } else {
+        failure = new Error(build?.error_message || `Build ended with status ${build?.status ?? "unknown"}`);
+      }
+    } catch (error) {
+      failure = error;
+    } finally {
+      stopRenewal();
+    }
+  }
+
+  const errorType = handler ? classifyBuildError(failure) : BuildErrorType.VALIDATION;
+  const errorMessage = failure instanceof Error ? failure.message : String(failure);
+  const retryDelay = getRetryDelaySeconds(errorType, job.attempts);
+
+  const { data: status, error } = await supabase.rpc("fail_build_job", {
+    p_job_id: job.id,
+    p_worker_id: workerId,
+    p_error: errorMessage,
+    p_error_type: errorType,
+    p_retry_delay_seconds: retryDelay,
+  });
+  if (error) {
+    console.error(`[BuildQueue] Failed to record failure for job ${job.id}:`, error);
+    return null;
+  }
+
+  if (status === "queued") {
+    console.log(`[BuildQueue] Job ${job.id} (${errorType}) will retry in ${retryDelay}s, attempt ${job.attempts}/${job.max_attempts}`);
+    await appendBuildLog("supabase", job.build_id, "warn", `${errorType} error, retrying in ${retryDelay}s`);
+    await supabase
+      .from("builds")
+      .update({ status: "pending", progress: 0, error_message: null })
+      .eq("id", job.build_id)
+      .neq("status", "cancelled");
+  } else if (status === "dead" || status === "failed") {
+    await finalizeTerminalJob({ ...job, last_error: errorMessage });
+  }
+  return status as BuildJobStatus | null;
+}
+
+/**
+ * failed / dead 任务：构建记录置为失败并退还额度（mark_build_job_refunded 保证只退一次）
+ * 用户取消的构建保持 cancelled，取消时已标记 quota_refunded，不会再次退还
+ */
+async function finalizeTerminalJob(job: Pick<BuildJob, "id" | "build_id" | "user_id" | "last_error">): Promise<void> {
+  const supabase = createServiceClient();
+
+  await supabase
+    .from("builds")
+    .update({ status: "failed", error_message: job.last_error || "Build failed after retries" })
+    .eq("id", job.build_id)
+    .neq("status", "cancelled");
+
+  const { data: shouldRefund } = await supabase.rpc("mark_build_job_refunded", { p_job_id: job.id });
+  if (shouldRefund) {
+    const refund = await refundBuildQuota(job.user_id, 1);
+    if (!refund.success) {
+      console.error(`[BuildQueue] Quota refund failed for job ${job.id}:`, refund.error);
+    }
+  }
+}
+
+/**
+ * 逐个领取并执行任务（一次领取多个时，排在后面的任务会在等待期间租约过期）
+ */
+export async function runBuildWorker(options: { workerId?: string; limit?: number } = {}): Promise<{
+  workerId: string;
+  processed: Array<{ jobId: string; buildId: string; status: BuildJobStatus | null }>;
+}> {
+  const workerId = options.workerId || `worker-${randomUUID()}`;
+  const supabase = createServiceClient();
+
+  const processed: Array<{ jobId: string; buildId: string; status: BuildJobStatus | null }> = [];
+  for (let index = 0; index < (options.limit ?? 1); index++) {
+    const { data: jobs, error } = await supabase.rpc("claim_build_jobs", {
+      p_worker_id: workerId,
+      p_limit: 1,
+      p_lease_seconds: JOB_LEASE_SECONDS,
+    });
+    if (error) {
+      throw new Error(`Failed to claim build jobs: ${error.message}`);
+    }
+
+    const job = (jobs as BuildJob[] | null)?.[0];
+    if (!job) break;
+    console.log(`[BuildQueue] ${workerId} claimed job ${job.id} (build ${job.build_id}, attempt ${job.attempts})`);
+    const status = await runBuildJob(job, workerId);
+    processed.push({ jobId: job.id, buildId: job.build_id, status });
+  }
+  return { workerId, processed };
+}
+
+/**
+ * 回收租约过期的任务：可重试的重新入队，次数用尽的置为失败并退还额度
+ */
+export async function reapStaleBuildJobs(): Promise<{ requeued: number; dead: number }> {
+  const supabase = createServiceClient();
+  const { data: jobs, error } = await supabase.rpc("reap_stale_build_jobs", {
+    p_retry_delay_seconds: getRetryDelaySeconds(BuildErrorType.TIMEOUT, 1),
+  });
+  if (error) {
+    throw new Error(`Failed to reap build jobs: ${error.message}`);
+  }
+
+  let requeued = 0;
+  let dead = 0;
+  for (const job of (jobs || []) as BuildJob[]) {
+    if (job.status === "dead") {
+      dead++;
+      await finalizeTerminalJob({ ...job, last_error: "Build worker timed out" });
+      await appendBuildLog("supabase", job.build_id, "error", "Build worker timed out, no attempts left", { stage: "failed" });
+    } else {
+      requeued++;
+      await appendBuildLog("supabase", job.build_id, "warn", "Build worker timed out, job requeued");
+      await supabase
+        .from("builds")
+        .update({ status: "pending", progress: 0, error_message: null })
+        .eq("id", job.build_id)
+        .neq("status", "cancelled");
+    }
+  }
+
+  if (requeued || dead) {
+    console.log(`[BuildQueue] Reaped stale jobs: ${requeued} requeued, ${dead} dead`);
+  }
+  return { requeued, dead };
+}
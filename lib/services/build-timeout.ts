@@ -21,6 +21,7 @@ export enum BuildErrorType {
   NETWORK = "NETWORK",
   VALIDATION = "VALIDATION",
   STORAGE = "STORAGE",
+  CANCELLED = "CANCELLED",
   UNKNOWN = "UNKNOWN",
 }
 
@@ -37,6 +38,24 @@ export class BuildError extends Error {
   }
 }
 
+/**
+ * 推断错误类型
+ * 构建服务通常只把 error_message 写入构建记录，这里按消息内容归类，供任务队列决定是否重试
+ */
+export function classifyBuildError(error: unknown): BuildErrorType {
+  if (error instanceof BuildError) return error.type;
+
+  const message = (error instanceof Error ? error.message : String(error ?? "")).toLowerCase();
+  if (!message) return BuildErrorType.UNKNOWN;
+  if (/timed out|timeout|超时/.test(message)) return BuildErrorType.TIMEOUT;
+  if (/fetch failed|network|econn|enotfound|eai_again|socket hang up|\b5\d\d\b/.test(message)) {
+    return BuildErrorType.NETWORK;
+  }
+  if (/storage|upload|bucket|download/.test(message)) return BuildErrorType.STORAGE;
+  if (/invalid|required|not found|missing|unsupported/.test(message)) return BuildErrorType.VALIDATION;
+  return BuildErrorType.UNKNOWN;
+}
+
 // 获取用户友好的错误消息
 export function getErrorMessage(error: unknown, lang: "zh" | "en" = "en"): string {
   if (error instanceof BuildError) {
@@ -57,6 +76,10 @@ export function getErrorMessage(error: unknown, lang: "zh" | "en" = "en"): strin
         zh: "存储错误，请稍后重试",
         en: "Storage error, please try again later",
       },
+      [BuildErrorType.CANCELLED]: {
+        zh: "构建已取消",
+        en: "Build was cancelled",
+      },
       [BuildErrorType.UNKNOWN]: {
         zh: "未知错误，请稍后重试",
         en: "Unknown error, please try again later",
@@ -7,6 +7,11 @@ import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import { BUILD_TIMEOUT, withTimeout } from "./build-timeout";
+import { isBuildCancelledError, updateBuildProgress } from "@/lib/services/build-cancellation";
+import { addStorePackages, applyExtensionManifest, assertStoreManifest } from "@/lib/services/browser-extension";
+import { DEFAULT_BROWSER_EXTENSION_TARGETS, type BrowserExtensionConfig } from "@/lib/config/browser-extension";
+import type { IconStyleConfig } from "@/lib/config/icon-style";
+import { applyIconStyle } from "@/lib/services/icon-style";
 
 interface BuildConfig {
   url: string;
@@ -14,6 +19,9 @@ interface BuildConfig {
   versionName: string;
   description: string;
   iconPath: string | null;
+  iconStyle?: IconStyleConfig | null;
+  // 输出的浏览器（Chrome / Firefox / Edge）和弹窗配置，未设置时只输出 Chrome 扩展
+  extensionConfig?: BrowserExtensionConfig | null;
 }
 
 // Chrome Extension icon sizes
@@ -57,6 +65,10 @@ export async function processChromeExtensionBuild(
       });
     }
   } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`[Build ${buildId}] Cancelled, stopping at stage boundary`);
+      return;
+    }
     console.error(`[Build ${buildId}] Build failed:`, error);
 
     // Update build record with failure
@@ -66,7 +78,8 @@ export async function processChromeExtensionBuild(
         status: "failed",
         error_message: error instanceof Error ? error.message : "Unknown error",
       })
-      .eq("id", buildId);
+      .eq("id", buildId)
+      .neq("status", "cancelled");
 
     // 记录构建失败事件
     if (userId) {
@@ -146,21 +159,33 @@ async function buildChromeExtension(
   // Step 4: Process icons if provided
   if (config.iconPath) {
     console.log(`[Build ${buildId}] Processing icons...`);
-    await processIcons(supabase, projectRoot, config.iconPath);
+    await processIcons(supabase, projectRoot, config.iconPath, config.iconStyle);
   }
   await updateBuildStatus(supabase, buildId, "processing", progressHelper.getProgressForStage("processing_icons"));
 
-  // Step 5: Create new zip (包裹在 googleplugin 文件夹内)
+  // Step 5: Create new zip (Chrome 包裹在 googleplugin 文件夹内，Firefox / Edge 为商店 ZIP)
   console.log(`[Build ${buildId}] Creating output zip...`);
+  const targets = config.extensionConfig?.targets || DEFAULT_BROWSER_EXTENSION_TARGETS;
   const outputZip = new AdmZip();
-  addDirectoryToZip(outputZip, projectRoot, "googleplugin");
+  if (targets.includes("chrome")) {
+    assertStoreManifest(JSON.parse(fs.readFileSync(manifestPath, "utf-8")), "chrome", projectRoot);
+    addDirectoryToZip(outputZip, projectRoot, "googleplugin");
+  }
+  addStorePackages(outputZip, {
+    projectRoot,
+    appName: config.appName,
+    url: config.url,
+    targets,
+    firefoxId: config.extensionConfig?.firefoxId,
+  });
 
   const outputBuffer = outputZip.toBuffer();
   await updateBuildStatus(supabase, buildId, "processing", progressHelper.getProgressForStage("packaging"));
 
   // Step 6: Upload result
   console.log(`[Build ${buildId}] Uploading result...`);
-  const outputPath = `builds/${buildId}/chrome-extension.zip`;
+  const outputName = targets.length === 1 && targets[0] === "chrome" ? "chrome-extension" : "browser-extension";
+  const outputPath = `builds/${buildId}/${outputName}.zip`;
   const { error: uploadError } = await supabase.storage
     .from("user-builds")
     .upload(outputPath, outputBuffer, {
@@ -183,7 +208,8 @@ async function buildChromeExtension(
       output_file_path: outputPath,
       file_size: outputBuffer.length,
     })
-    .eq("id", buildId);
+    .eq("id", buildId)
+    .neq("status", "cancelled");
 
   if (updateError) {
     throw new Error(`Failed to update build record: ${updateError.message}`);
@@ -225,23 +251,17 @@ async function updateManifest(manifestPath: string, config: BuildConfig): Promis
   const manifestContent = fs.readFileSync(manifestPath, "utf-8");
   const manifest = JSON.parse(manifestContent);
 
-  // Update standard manifest fields
-  manifest.name = config.appName;
-  manifest.version = config.versionName;
-  manifest.description = config.description;
-  manifest.action.default_title = config.appName;
-
-  // Update custom config fields
-  manifest.__config = {
-    targetUrl: config.url,
-    popup: {
-      width: 360,
-      height: 520,
-      loadingText: "加载中...",
-      timeoutText: "加载超时，请刷新或打开完整网站。",
-      openFullText: "打开完整网站",
+  applyExtensionManifest(
+    manifest,
+    {
+      url: config.url,
+      appName: config.appName,
+      versionName: config.versionName,
+      description: config.description,
     },
-  };
+    config.extensionConfig,
+    "en"
+  );
 
   fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), "utf-8");
 }
@@ -249,7 +269,8 @@ async function updateManifest(manifestPath: string, config: BuildConfig): Promis
 async function processIcons(
   supabase: ReturnType<typeof createServiceClient>,
   projectRoot: string,
-  iconPath: string
+  iconPath: string,
+  iconStyle?: IconStyleConfig | null
 ): Promise<void> {
   // Download user's icon
   const { data: iconData, error: iconError } = await supabase.storage
@@ -261,7 +282,7 @@ async function processIcons(
     return;
   }
 
-  const iconBuffer = Buffer.from(await iconData.arrayBuffer());
+  const iconBuffer = await applyIconStyle(Buffer.from(await iconData.arrayBuffer()), iconStyle);
 
   // Standardize to 1024x1024 first
   const standardizedIcon = await sharp(iconBuffer)
@@ -312,8 +333,6 @@ async function updateBuildStatus(
   status: string,
   progress: number
 ): Promise<void> {
-  await supabase
-    .from("builds")
-    .update({ status, progress })
-    .eq("id", buildId);
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgress(supabase, buildId, status, progress);
 }
@@ -0,0 +1,149 @@
+/**
+ * 深度链接模板文件写入
+ * appConfig.json 字段由 lib/config/deep-links.ts 负责，这里处理 Manifest / entitlements，
+ * 并把网站需要托管的验证文件放进源码包的 deep-links/ 目录
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  buildAssetLinksJson,
+  buildAppleAppSiteAssociation,
+  type DeepLinkConfig,
+} from "@/lib/config/deep-links";
+import { getKeystoreFingerprint } from "@/lib/services/android-signing";
+
+// Median 模板 AppLinksActivity 中预留的插入点
+const ANDROID_INTENT_FILTER_MARKER = "<!--additional intent filters-->";
+const ASSOCIATED_DOMAINS_KEY = "com.apple.developer.associated-domains";
+
+const DEEP_LINK_OUTPUT_DIR = "deep-links";
+
+export const DEEP_LINK_FILES = ["assetlinks.json", "apple-app-site-association"] as const;
+export type DeepLinkFileName = (typeof DEEP_LINK_FILES)[number];
+
+interface DeepLinkBuildRecord {
+  user_id: string;
+  platform: string;
+  package_name: string | null;
+  deep_link_config?: DeepLinkConfig | null;
+}
+
+/**
+ * Android：为每个域名添加 autoVerify 的 https intent-filter，并输出 assetlinks.json
+ */
+export function installAndroidDeepLinks(
+  projectRoot: string,
+  deepLinks: DeepLinkConfig | null | undefined,
+  packageName: string
+): void {
+  if (!deepLinks || deepLinks.domains.length === 0) return;
+
+  const manifestPath = path.join(projectRoot, "app", "src", "main", "AndroidManifest.xml");
+  if (fs.existsSync(manifestPath)) {
+    const manifest = fs.readFileSync(manifestPath, "utf-8");
+    if (manifest.includes(ANDROID_INTENT_FILTER_MARKER)) {
+      const hosts = deepLinks.domains.map((domain) => `                <data android:host="${domain}" />`).join("\n");
+      const intentFilter = [
+        ANDROID_INTENT_FILTER_MARKER,
+        `            <intent-filter android:autoVerify="true">`,
+        `                <action android:name="android.intent.action.VIEW" />`,
+        `                <category android:name="android.intent.category.DEFAULT" />`,
+        `                <category android:name="android.intent.category.BROWSABLE" />`,
+        `                <data android:scheme="https" />`,
+        `                <data android:scheme="http" />`,
+        hosts,
+        `            </intent-filter>`,
+      ].join("\n");
+      fs.writeFileSync(manifestPath, manifest.replace(ANDROID_INTENT_FILTER_MARKER, intentFilter), "utf-8");
+    }
+  }
+
+  // 没有证书指纹时 assetlinks.json 无法通过验证，留给构建详情页（包含托管密钥库指纹）下载
+  if (deepLinks.sha256CertFingerprints?.length) {
+    writeDeepLinkFile(projectRoot, "assetlinks.json", buildAssetLinksJson(packageName, deepLinks.sha256CertFingerprints));
+  }
+}
+
+/**
+ * iOS：写入 associated-domains entitlement，并输出 apple-app-site-association
+ */
+export function installIOSDeepLinks(
+  projectRoot: string,
+  deepLinks: DeepLinkConfig | null | undefined,
+  bundleId: string
+): void {
+  if (!deepLinks || deepLinks.domains.length === 0) return;
+
+  const entitlementsPath = path.join(projectRoot, "Project.entitlements");
+  if (fs.existsSync(entitlementsPath)) {
+    const entitlements = fs.readFileSync(entitlementsPath, "utf-8");
+    const entry = [
+      `\t<key>${ASSOCIATED_DOMAINS_KEY}</key>`,
+      `\t<array>`,
+      ...deepLinks.domains.map((domain) => `\t\t<string>applinks:${domain}</string>`),
+      `\t</array>`,
+    ].join("\n");
+
+    let updated = entitlements;
+    if (!entitlements.includes(ASSOCIATED_DOMAINS_KEY)) {
+      updated = entitlements.includes("<dict/>")
+        ? entitlements.replace("<dict/>", `<dict>\n${entry}\n</dict>`)
+        : entitlements.replace(/<\/dict>\s*<\/plist>/, `${entry}\n</dict>\n</plist>`);
+    }
+    fs.writeFileSync(entitlementsPath, updated, "utf-8");
+  }
+
+  writeDeepLinkFile(
+    projectRoot,
+    "apple-app-site-association",
+    buildAppleAppSiteAssociation(bundleId, deepLinks.appleTeamId)
+  );
+}
+
+function writeDeepLinkFile(projectRoot: string, fileName: string, content: string): void {
+  const outputDir = path.join(projectRoot, DEEP_LINK_OUTPUT_DIR);
+  fs.mkdirSync(outputDir, { recursive: true });
+  fs.writeFileSync(path.join(outputDir, fileName), content, "utf-8");
+}
+
+/**
+ * 按构建记录实时生成网站需要托管的验证文件
+ * assetlinks.json 合并用户填写的指纹和托管密钥库指纹（release 构建后由 workflow 回传）
+ */
+export async function renderDeepLinkFile(
+  build: DeepLinkBuildRecord,
+  fileName: DeepLinkFileName
+): Promise<{ success: true; content: string } | { success: false; error: string; status: number }> {
+  const deepLinks = build.deep_link_config;
+  if (!deepLinks || deepLinks.domains.length === 0 || !build.package_name) {
+    return { success: false, error: "Deep links are not configured for this build", status: 404 };
+  }
+
+  if (fileName === "apple-app-site-association") {
+    if (!build.platform.startsWith("ios")) {
+      return { success: false, error: "apple-app-site-association is only available for iOS builds", status: 400 };
+    }
+    return { success: true, content: buildAppleAppSiteAssociation(build.package_name, deepLinks.appleTeamId) };
+  }
+
+  if (!build.platform.startsWith("android")) {
+    return { success: false, error: "assetlinks.json is only available for Android builds", status: 400 };
+  }
+
+  const fingerprints = [...(deepLinks.sha256CertFingerprints || [])];
+  // 国内版 CloudBase 构建可能没有对应的密钥库记录，查询失败不影响用户填写的指纹
+  const keystoreFingerprint = await getKeystoreFingerprint(build.user_id, build.package_name).catch(() => null);
+  if (keystoreFingerprint) {
+    fingerprints.push(keystoreFingerprint);
+  }
+  if (fingerprints.length === 0) {
+    return {
+      success: false,
+      error: "No signing certificate fingerprint yet. Run a release build or add a SHA-256 fingerprint.",
+      status: 409,
+    };
+  }
+
+  return { success: true, content: buildAssetLinksJson(build.package_name, fingerprints) };
+}
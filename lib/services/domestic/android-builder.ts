@@ -8,11 +8,20 @@ import { getCloudBaseStorage } from "@/lib/cloudbase/storage";
 import { downloadIconBuffer } from "@/lib/services/domestic/icon-download";
 import { BuildProgressHelper } from "@/lib/build-progress";
 import { trackBuildCompleteEvent } from "@/services/analytics";
+import { applyNativeShellConfig, type NativeShellConfig } from "@/lib/config/native-shell";
+import { applyAndroidAdvancedConfig, type AndroidAdvancedConfig } from "@/lib/config/android-advanced";
+import { applyPushConfig, type PushConfig } from "@/lib/config/push-notifications";
+import { applyDeepLinkConfig, type DeepLinkConfig } from "@/lib/config/deep-links";
+import { ANDROID_ADAPTIVE_SAFE_ZONE, type IconStyleConfig } from "@/lib/config/icon-style";
+import { installAndroidPushFiles } from "@/lib/services/push-notifications";
+import { installAndroidDeepLinks } from "@/lib/services/deep-links";
+import { installAndroidAdaptiveIcon, renderStyledIcon } from "@/lib/services/icon-style";
 import AdmZip from "adm-zip";
 import sharp from "sharp";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { isBuildCancelledError, updateBuildProgressDomestic } from "@/lib/services/build-cancellation";
 
 interface BuildConfig {
   url: string;
@@ -22,6 +31,11 @@ interface BuildConfig {
   versionCode: string;
   privacyPolicy: string;
   iconPath: string | null;
+  shellConfig?: NativeShellConfig | null;
+  advancedConfig?: AndroidAdvancedConfig | null;
+  pushConfig?: PushConfig | null;
+  deepLinkConfig?: DeepLinkConfig | null;
+  iconStyle?: IconStyleConfig | null;
 }
 
 // Icon sizes for Android
@@ -148,6 +162,10 @@ export async function processAndroidBuildDomestic(
     }
 
     await updateAppConfig(configPath, config);
+    // FCM 需要 google-services.json 并启用 Gradle 插件
+    installAndroidPushFiles(projectRoot, config.pushConfig);
+    // App Links：AppLinksActivity intent-filter + assetlinks.json
+    installAndroidDeepLinks(projectRoot, config.deepLinkConfig, config.packageName);
 
     // Step 3.5: Update AndroidManifest.xml version
     console.log(`[Domestic Build ${buildId}] Updating AndroidManifest.xml...`);
@@ -181,7 +199,7 @@ export async function processAndroidBuildDomestic(
 
         // 处理图标
         console.log(`[Domestic Build ${buildId}] Starting icon processing...`);
-        await processIcons(projectRoot, iconBuffer, buildId);
+        await processIcons(projectRoot, iconBuffer, buildId, config.iconStyle);
         console.log(`[Domestic Build ${buildId}] ✓ Icon processing completed successfully`);
         console.log(`[Domestic Build ${buildId}] ========== ICON PROCESSING END ==========`);
       } catch (iconError) {
@@ -218,7 +236,7 @@ export async function processAndroidBuildDomestic(
     // Step 8: Get download URL and update build record
     const downloadUrl = await storage.getTempDownloadUrl(outputPath);
 
-    await db.collection("builds").doc(buildId).update({
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
       status: "completed",
       progress: progressHelper.getProgressForStage("completed"),
       output_file_path: outputPath,
@@ -241,9 +259,13 @@ export async function processAndroidBuildDomestic(
       });
     }
   } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`[Domestic Build ${buildId}] Cancelled, stopping at stage boundary`);
+      return;
+    }
     console.error(`[Domestic Build ${buildId}] Error:`, error);
 
-    await db.collection("builds").doc(buildId).update({
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
       status: "failed",
       error_message: error instanceof Error ? error.message : "Unknown error",
       updated_at: new Date().toISOString(),
@@ -278,11 +300,8 @@ async function updateBuildStatus(
   status: string,
   progress: number
 ): Promise<void> {
-  await db.collection("builds").doc(buildId).update({
-    status,
-    progress,
-    updated_at: new Date().toISOString(),
-  });
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgressDomestic(db, buildId, status, progress);
 }
 
 function findProjectRoot(dir: string, maxDepth: number = 3): string | null {
@@ -327,6 +346,12 @@ async function updateAppConfig(configPath: string, config: BuildConfig): Promise
     appConfig.general.androidForceUserAgent = chromeUA;
   }
 
+  // 合并移动端通用壳配置，再合并 Android 专属高级配置（导航、样式、权限）
+  applyNativeShellConfig(appConfig, config.shellConfig, "android");
+  applyAndroidAdvancedConfig(appConfig, config.advancedConfig);
+  applyPushConfig(appConfig, config.pushConfig, "android");
+  applyDeepLinkConfig(appConfig, config.deepLinkConfig);
+
   fs.writeFileSync(configPath, JSON.stringify(appConfig, null, 2), "utf-8");
 }
 
@@ -339,7 +364,12 @@ async function updateAndroidManifest(manifestPath: string, config: BuildConfig):
   fs.writeFileSync(manifestPath, manifestContent, "utf-8");
 }
 
-async function processIcons(projectRoot: string, iconBuffer: Buffer, buildId: string): Promise<void> {
+async function processIcons(
+  projectRoot: string,
+  iconBuffer: Buffer,
+  buildId: string,
+  iconStyle?: IconStyleConfig | null
+): Promise<void> {
   const resDir = path.join(projectRoot, "app", "src", "main", "res");
 
   console.log(`[Domestic Build ${buildId}] Processing icons, res directory: ${resDir}`);
@@ -349,15 +379,9 @@ async function processIcons(projectRoot: string, iconBuffer: Buffer, buildId: st
     throw new Error(`Res directory not found: ${resDir}`);
   }
 
-  // Normalize icon to 1024x1024
+  // Normalize icon to 1024x1024（配置了图标样式时叠加背景并留出边距）
   console.log(`[Domestic Build ${buildId}] Normalizing icon to 1024x1024...`);
-  const normalizedBuffer = await sharp(iconBuffer)
-    .resize(1024, 1024, {
-      fit: "contain",
-      background: { r: 0, g: 0, b: 0, alpha: 0 },
-    })
-    .png()
-    .toBuffer();
+  const normalizedBuffer = await renderStyledIcon(iconBuffer, iconStyle);
 
   console.log(`[Domestic Build ${buildId}] Icon normalized successfully`);
 
@@ -417,9 +441,14 @@ async function processIcons(projectRoot: string, iconBuffer: Buffer, buildId: st
     await processIcon(folder, size, "ic_launcher.png");
   }
 
+  // 配置了图标样式时前景只含图案，另外写入背景层和 Android 13 主题图标的单色层
   console.log(`[Domestic Build ${buildId}] Processing app icon foreground (ic_launcher_foreground.png)...`);
-  for (const { folder, size } of APP_ICON_FOREGROUND_SIZES) {
-    await processForegroundIcon(folder, size, "ic_launcher_foreground.png");
+  if (iconStyle) {
+    await installAndroidAdaptiveIcon(resDir, iconBuffer, iconStyle, APP_ICON_FOREGROUND_SIZES, ANDROID_ADAPTIVE_SAFE_ZONE);
+  } else {
+    for (const { folder, size } of APP_ICON_FOREGROUND_SIZES) {
+      await processForegroundIcon(folder, size, "ic_launcher_foreground.png");
+    }
   }
 
   console.log(`[Domestic Build ${buildId}] Processing splash icons (splash.png)...`);
@@ -13,6 +13,11 @@ import sharp from "sharp";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { isBuildCancelledError, updateBuildProgressDomestic } from "@/lib/services/build-cancellation";
+import { addStorePackages, applyExtensionManifest, assertStoreManifest } from "@/lib/services/browser-extension";
+import { DEFAULT_BROWSER_EXTENSION_TARGETS, type BrowserExtensionConfig } from "@/lib/config/browser-extension";
+import type { IconStyleConfig } from "@/lib/config/icon-style";
+import { applyIconStyle } from "@/lib/services/icon-style";
 
 interface ChromeExtensionBuildConfig {
   url: string;
@@ -20,6 +25,9 @@ interface ChromeExtensionBuildConfig {
   versionName: string;
   description: string;
   iconPath: string | null;
+  iconStyle?: IconStyleConfig | null;
+  // 输出的浏览器（Chrome / Firefox / Edge）和弹窗配置，未设置时只输出 Chrome 扩展
+  extensionConfig?: BrowserExtensionConfig | null;
 }
 
 export async function processChromeExtensionBuildDomestic(
@@ -66,9 +74,17 @@ export async function processChromeExtensionBuildDomestic(
     if (fs.existsSync(manifestPath)) {
       const manifestContent = fs.readFileSync(manifestPath, "utf-8");
       const manifest = JSON.parse(manifestContent);
-      manifest.name = config.appName;
-      manifest.version = config.versionName;
-      manifest.description = config.description || manifest.description;
+      applyExtensionManifest(
+        manifest,
+        {
+          url: config.url,
+          appName: config.appName,
+          versionName: config.versionName,
+          description: config.description,
+        },
+        config.extensionConfig,
+        "zh"
+      );
       fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), "utf-8");
     }
 
@@ -98,7 +114,7 @@ export async function processChromeExtensionBuildDomestic(
         console.log(`[Domestic Chrome Build ${buildId}] ✓ Icon downloaded, size: ${iconBuffer.length} bytes`);
 
         console.log(`[Domestic Chrome Build ${buildId}] Starting icon processing...`);
-        await processIcons(projectRoot, iconBuffer);
+        await processIcons(projectRoot, await applyIconStyle(iconBuffer, config.iconStyle));
         console.log(`[Domestic Chrome Build ${buildId}] ✓ Icon processing completed successfully`);
         console.log(`[Domestic Chrome Build ${buildId}] ========== ICON PROCESSING END ==========`);
       } catch (iconError) {
@@ -116,18 +132,31 @@ export async function processChromeExtensionBuildDomestic(
 
     await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("processing_icons"));
 
+    const targets = config.extensionConfig?.targets || DEFAULT_BROWSER_EXTENSION_TARGETS;
     const newZip = new AdmZip();
-    addFolderToZip(newZip, tempDir, "");
+    if (targets.includes("chrome")) {
+      assertStoreManifest(JSON.parse(fs.readFileSync(manifestPath, "utf-8")), "chrome", projectRoot);
+      addFolderToZip(newZip, tempDir, "");
+    }
+    // Firefox / Edge 商店 ZIP（manifest.json 位于根目录）
+    addStorePackages(newZip, {
+      projectRoot,
+      appName: config.appName,
+      url: config.url,
+      targets,
+      firefoxId: config.extensionConfig?.firefoxId,
+    });
     const outputBuffer = newZip.toBuffer();
 
     await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("packaging"));
 
-    const outputPath = `user-builds/builds/${buildId}/chrome-extension.zip`;
+    const outputName = targets.length === 1 && targets[0] === "chrome" ? "chrome-extension" : "browser-extension";
+    const outputPath = `user-builds/builds/${buildId}/${outputName}.zip`;
     await storage.uploadFile(outputPath, outputBuffer);
 
     const downloadUrl = await storage.getTempDownloadUrl(outputPath);
 
-    await db.collection("builds").doc(buildId).update({
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
       status: "completed",
       progress: progressHelper.getProgressForStage("completed"),
       output_file_path: outputPath,
@@ -150,9 +179,13 @@ export async function processChromeExtensionBuildDomestic(
       });
     }
   } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`[Domestic Build ${buildId}] Cancelled, stopping at stage boundary`);
+      return;
+    }
     console.error(`[Domestic Chrome Build ${buildId}] Error:`, error);
 
-    await db.collection("builds").doc(buildId).update({
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
       status: "failed",
       error_message: error instanceof Error ? error.message : "Unknown error",
       updated_at: new Date().toISOString(),
@@ -180,11 +213,8 @@ export async function processChromeExtensionBuildDomestic(
 }
 
 async function updateBuildStatus(db: any, buildId: string, status: string, progress: number): Promise<void> {
-  await db.collection("builds").doc(buildId).update({
-    status,
-    progress,
-    updated_at: new Date().toISOString(),
-  });
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgressDomestic(db, buildId, status, progress);
 }
 
 function findProjectRoot(dir: string, maxDepth: number = 3): string | null {
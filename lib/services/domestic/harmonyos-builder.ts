@@ -7,11 +7,16 @@ import { CloudBaseConnector } from "@/lib/cloudbase/connector";
 import { getCloudBaseStorage } from "@/lib/cloudbase/storage";
 import { downloadIconBuffer } from "@/lib/services/domestic/icon-download";
 import { trackBuildCompleteEvent } from "@/services/analytics";
+import { applyNativeShellConfig, type NativeShellConfig } from "@/lib/config/native-shell";
+import { applyPushConfig, type PushConfig } from "@/lib/config/push-notifications";
+import { HARMONYOS_LAYERED_SAFE_ZONE, type IconStyleConfig } from "@/lib/config/icon-style";
+import { renderIconLayers, renderStyledIcon } from "@/lib/services/icon-style";
 import AdmZip from "adm-zip";
 import sharp from "sharp";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { isBuildCancelledError, updateBuildProgressDomestic } from "@/lib/services/build-cancellation";
 
 interface HarmonyOSBuildConfig {
   url: string;
@@ -21,6 +26,9 @@ interface HarmonyOSBuildConfig {
   versionCode: string;
   privacyPolicy: string;
   iconPath: string | null;
+  shellConfig?: NativeShellConfig | null;
+  pushConfig?: PushConfig | null;
+  iconStyle?: IconStyleConfig | null;
 }
 
 export async function processHarmonyOSBuildDomestic(
@@ -61,18 +69,20 @@ export async function processHarmonyOSBuildDomestic(
       throw new Error("Invalid zip structure");
     }
 
-    // Update appConfig.json
-    const configPath = path.join(projectRoot, "appConfig.json");
+    // Update appConfig.json（与国际版一致：rawfile 目录，字段名与 Index.ets 读取的结构对应）
+    const configPath = path.join(projectRoot, "entry", "src", "main", "resources", "rawfile", "appConfig.json");
     if (fs.existsSync(configPath)) {
       const configContent = fs.readFileSync(configPath, "utf-8");
       const appConfig = JSON.parse(configContent);
       if (appConfig.general) {
         appConfig.general.initialUrl = config.url;
         appConfig.general.appName = config.appName;
-        appConfig.general.harmonyBundleName = config.bundleName;
-        appConfig.general.harmonyVersionName = config.versionName;
-        appConfig.general.harmonyVersionCode = parseInt(config.versionCode, 10) || 1;
+        appConfig.general.bundleName = config.bundleName;
+        appConfig.general.versionName = config.versionName;
+        appConfig.general.versionCode = parseInt(config.versionCode, 10) || 1;
       }
+      applyNativeShellConfig(appConfig, config.shellConfig, "harmonyos");
+      applyPushConfig(appConfig, config.pushConfig, "harmonyos");
       fs.writeFileSync(configPath, JSON.stringify(appConfig, null, 2), "utf-8");
     }
 
@@ -108,7 +118,7 @@ export async function processHarmonyOSBuildDomestic(
         console.log(`[Domestic HarmonyOS Build ${buildId}] ✓ Icon downloaded, size: ${iconBuffer.length} bytes`);
 
         console.log(`[Domestic HarmonyOS Build ${buildId}] Starting icon processing...`);
-        await processIcons(projectRoot, iconBuffer);
+        await processIcons(projectRoot, iconBuffer, config.iconStyle);
         console.log(`[Domestic HarmonyOS Build ${buildId}] ✓ Icon processing completed successfully`);
         console.log(`[Domestic HarmonyOS Build ${buildId}] ========== ICON PROCESSING END ==========`);
       } catch (iconError) {
@@ -137,7 +147,7 @@ export async function processHarmonyOSBuildDomestic(
 
     const downloadUrl = await storage.getTempDownloadUrl(outputPath);
 
-    await db.collection("builds").doc(buildId).update({
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
       status: "completed",
       progress: 100,
       output_file_path: outputPath,
@@ -160,9 +170,13 @@ export async function processHarmonyOSBuildDomestic(
       });
     }
   } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`[Domestic Build ${buildId}] Cancelled, stopping at stage boundary`);
+      return;
+    }
     console.error(`[Domestic HarmonyOS Build ${buildId}] Error:`, error);
 
-    await db.collection("builds").doc(buildId).update({
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
       status: "failed",
       error_message: error instanceof Error ? error.message : "Unknown error",
       updated_at: new Date().toISOString(),
@@ -190,11 +204,8 @@ export async function processHarmonyOSBuildDomestic(
 }
 
 async function updateBuildStatus(db: any, buildId: string, status: string, progress: number): Promise<void> {
-  await db.collection("builds").doc(buildId).update({
-    status,
-    progress,
-    updated_at: new Date().toISOString(),
-  });
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgressDomestic(db, buildId, status, progress);
 }
 
 function findProjectRoot(dir: string, maxDepth: number = 3): string | null {
@@ -218,26 +229,36 @@ function findProjectRoot(dir: string, maxDepth: number = 3): string | null {
   return null;
 }
 
-async function processIcons(projectRoot: string, iconBuffer: Buffer): Promise<void> {
+async function processIcons(projectRoot: string, iconBuffer: Buffer, iconStyle?: IconStyleConfig | null): Promise<void> {
   const mediaDir = path.join(projectRoot, "entry", "src", "main", "resources", "base", "media");
 
   if (!fs.existsSync(mediaDir)) {
     fs.mkdirSync(mediaDir, { recursive: true });
   }
 
-  // App icon
+  // App icon（配置了图标样式时叠加背景并留出边距）
   const iconPath = path.join(mediaDir, "app_icon.png");
-  await sharp(iconBuffer)
-    .resize(192, 192, { fit: "contain", background: { r: 0, g: 0, b: 0, alpha: 0 } })
+  await sharp(await renderStyledIcon(iconBuffer, iconStyle))
+    .resize(192, 192)
     .png()
     .toFile(iconPath);
 
   // Foreground icon
   const foregroundPath = path.join(mediaDir, "foreground.png");
-  await sharp(iconBuffer)
-    .resize(288, 288, { fit: "contain", background: { r: 0, g: 0, b: 0, alpha: 0 } })
-    .png()
-    .toFile(foregroundPath);
+  if (!iconStyle) {
+    await sharp(iconBuffer)
+      .resize(288, 288, { fit: "contain", background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .png()
+      .toFile(foregroundPath);
+    return;
+  }
+
+  // 分层图标：前景只含图案，背景使用配置的背景
+  const layers = await renderIconLayers(iconBuffer, iconStyle, { size: 1024, safeZone: HARMONYOS_LAYERED_SAFE_ZONE });
+  await sharp(layers.foreground).resize(288, 288).png().toFile(foregroundPath);
+  if (layers.background) {
+    await sharp(layers.background).resize(288, 288).png().toFile(path.join(mediaDir, "background.png"));
+  }
 }
 
 function addFolderToZip(zip: AdmZip, folderPath: string, zipPath: string): void {
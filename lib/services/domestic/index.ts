@@ -11,3 +11,4 @@ export { processLinuxAppBuildDomestic } from "./linux-app-builder";
 export { processHarmonyOSBuildDomestic } from "./harmonyos-builder";
 export { processWechatBuildDomestic } from "./wechat-builder";
 export { processChromeExtensionBuildDomestic } from "./chrome-extension-builder";
+export { processAlipayBuildDomestic, processXiaohongshuBuildDomestic } from "./mini-program-builder";
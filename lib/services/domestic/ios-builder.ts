@@ -7,11 +7,19 @@ import { CloudBaseConnector } from "@/lib/cloudbase/connector";
 import { getCloudBaseStorage } from "@/lib/cloudbase/storage";
 import { downloadIconBuffer } from "@/lib/services/domestic/icon-download";
 import { trackBuildCompleteEvent } from "@/services/analytics";
+import { applyNativeShellConfig, type NativeShellConfig } from "@/lib/config/native-shell";
+import { applyPushConfig, type PushConfig } from "@/lib/config/push-notifications";
+import { applyDeepLinkConfig, type DeepLinkConfig } from "@/lib/config/deep-links";
+import { installIOSPushFiles } from "@/lib/services/push-notifications";
+import { installIOSDeepLinks } from "@/lib/services/deep-links";
 import AdmZip from "adm-zip";
 import sharp from "sharp";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { isBuildCancelledError, updateBuildProgressDomestic } from "@/lib/services/build-cancellation";
+import type { IconStyleConfig } from "@/lib/config/icon-style";
+import { applyIconStyle } from "@/lib/services/icon-style";
 
 interface iOSBuildConfig {
   url: string;
@@ -21,6 +29,10 @@ interface iOSBuildConfig {
   buildNumber: string;
   privacyPolicy: string;
   iconPath: string | null;
+  iconStyle?: IconStyleConfig | null;
+  shellConfig?: NativeShellConfig | null;
+  pushConfig?: PushConfig | null;
+  deepLinkConfig?: DeepLinkConfig | null;
 }
 
 const IOS_APP_ICON_SIZES = [
@@ -99,6 +111,10 @@ export async function processiOSBuildDomestic(
       throw new Error(`Config file not found: ${configPath}`);
     }
     await updateAppConfig(configPath, config);
+    // FCM 需要替换 GoogleService-Info.plist
+    installIOSPushFiles(projectRoot, config.pushConfig);
+    // Universal Links：associated-domains entitlement + apple-app-site-association
+    installIOSDeepLinks(projectRoot, config.deepLinkConfig, config.bundleId);
 
     await updateBuildStatus(db, buildId, "processing", 35);
 
@@ -132,7 +148,7 @@ export async function processiOSBuildDomestic(
         console.log(`[Domestic iOS Build ${buildId}] ✓ Icon downloaded, size: ${iconBuffer.length} bytes`);
 
         console.log(`[Domestic iOS Build ${buildId}] Starting icon processing...`);
-        await processIcons(projectRoot, iconBuffer, buildId);
+        await processIcons(projectRoot, await applyIconStyle(iconBuffer, config.iconStyle), buildId);
         console.log(`[Domestic iOS Build ${buildId}] ✓ Icon processing completed successfully`);
         console.log(`[Domestic iOS Build ${buildId}] ========== ICON PROCESSING END ==========`);
       } catch (iconError) {
@@ -166,7 +182,7 @@ export async function processiOSBuildDomestic(
     // Step 9: Get download URL and update record
     const downloadUrl = await storage.getTempDownloadUrl(outputPath);
 
-    await db.collection("builds").doc(buildId).update({
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
       status: "completed",
       progress: 100,
       output_file_path: outputPath,
@@ -189,9 +205,13 @@ export async function processiOSBuildDomestic(
       });
     }
   } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`[Domestic Build ${buildId}] Cancelled, stopping at stage boundary`);
+      return;
+    }
     console.error(`[Domestic iOS Build ${buildId}] Error:`, error);
 
-    await db.collection("builds").doc(buildId).update({
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
       status: "failed",
       error_message: error instanceof Error ? error.message : "Unknown error",
       updated_at: new Date().toISOString(),
@@ -219,11 +239,8 @@ export async function processiOSBuildDomestic(
 }
 
 async function updateBuildStatus(db: any, buildId: string, status: string, progress: number): Promise<void> {
-  await db.collection("builds").doc(buildId).update({
-    status,
-    progress,
-    updated_at: new Date().toISOString(),
-  });
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgressDomestic(db, buildId, status, progress);
 }
 
 function findProjectRoot(dir: string, maxDepth: number = 3): string | null {
@@ -274,6 +291,10 @@ async function updateAppConfig(configPath: string, config: iOSBuildConfig): Prom
     appConfig.general.iosBuildNumber = parseInt(config.buildNumber, 10) || 1;
   }
 
+  applyNativeShellConfig(appConfig, config.shellConfig, "ios");
+  applyPushConfig(appConfig, config.pushConfig, "ios");
+  applyDeepLinkConfig(appConfig, config.deepLinkConfig);
+
   fs.writeFileSync(configPath, JSON.stringify(appConfig, null, 2), "utf-8");
 }
 
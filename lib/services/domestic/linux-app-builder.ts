@@ -13,11 +13,24 @@ import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import { PassThrough } from "stream";
+import { isBuildCancelledError, updateBuildProgressDomestic } from "@/lib/services/build-cancellation";
+import { createLinuxPackage, type LinuxPackageResult } from "@/lib/services/linux-packaging";
+import { DEFAULT_LINUX_PACKAGE_FORMAT, type LinuxPackageFormat } from "@/lib/config/linux-packaging";
+import { createDesktopAppConfig, type DesktopShellConfig } from "@/lib/config/desktop-shell";
+import type { IconStyleConfig } from "@/lib/config/icon-style";
+import { applyIconStyle } from "@/lib/services/icon-style";
+
+// AppImage type 2 runtime, stored alongside the template
+const APPIMAGE_RUNTIME_PATH = "LinuxApp/appimage-runtime-x86_64";
 
 interface LinuxBuildConfig {
   url: string;
   appName: string;
   iconPath: string | null;
+  iconStyle?: IconStyleConfig | null;
+  packageFormat?: LinuxPackageFormat;
+  // 窗口、托盘、单实例、外链策略等运行时配置
+  desktopConfig?: DesktopShellConfig | null;
 }
 
 export async function processLinuxAppBuildDomestic(
@@ -33,6 +46,7 @@ export async function processLinuxAppBuildDomestic(
   let userId: string | null = null;
   const buildStartTime = Date.now();
   const progressHelper = new BuildProgressHelper("linux");
+  const packageFormat = config.packageFormat || DEFAULT_LINUX_PACKAGE_FORMAT;
 
   try {
     // 获取构建记录以获取 user_id
@@ -75,10 +89,7 @@ export async function processLinuxAppBuildDomestic(
     const resourcesDir = path.join(appDir, "resources");
     fs.mkdirSync(resourcesDir, { recursive: true });
 
-    const appConfig = {
-      url: config.url,
-      title: config.appName,
-    };
+    const appConfig = createDesktopAppConfig(config.url, config.appName, config.desktopConfig);
     const configPath = path.join(resourcesDir, "app-config.json");
     fs.writeFileSync(configPath, JSON.stringify(appConfig, null, 2), "utf-8");
 
@@ -97,7 +108,7 @@ export async function processLinuxAppBuildDomestic(
     // Step 6: Replace icon if provided
     if (config.iconPath) {
       console.log(`[Domestic Linux Build ${buildId}] Replacing icon...`);
-      await replaceAppIcon(resourcesDir, config.iconPath);
+      await replaceAppIcon(resourcesDir, config.iconPath, config.iconStyle);
     }
 
     await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("processing_icons"));
@@ -110,57 +121,37 @@ export async function processLinuxAppBuildDomestic(
 
     await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("packaging"));
 
-    // Step 8: Create tar.gz archive with archiver
-    console.log(`[Domestic Linux Build ${buildId}] Creating tar.gz archive...`);
-    const archiver = (await import("archiver")).default;
-
-    const outputBuffer = await new Promise<Buffer>((resolve, reject) => {
-      const chunks: Buffer[] = [];
-      const passThrough = new PassThrough();
-
-      passThrough.on("data", (chunk: Buffer) => chunks.push(chunk));
-      passThrough.on("end", () => resolve(Buffer.concat(chunks)));
-      passThrough.on("error", reject);
-
-      const archive = archiver("tar", { gzip: true, gzipOptions: { level: 9 } });
-      archive.on("error", reject);
-      archive.pipe(passThrough);
-
-      // Recursively add files with correct Unix permissions
-      const addFolderToArchive = (folderPath: string, zipPath: string) => {
-        const entries = fs.readdirSync(folderPath, { withFileTypes: true });
-        for (const entry of entries) {
-          const fullPath = path.join(folderPath, entry.name);
-          const entryZipPath = zipPath ? `${zipPath}/${entry.name}` : entry.name;
-
-          if (entry.isDirectory()) {
-            addFolderToArchive(fullPath, entryZipPath);
-          } else {
-            const fileData = fs.readFileSync(fullPath);
-            const isExecutable = entry.name === "install.sh" ||
-                                 entry.name === "tauri-shell" ||
-                                 !entry.name.includes(".");
-            const mode = isExecutable ? 0o755 : 0o644;
-
-            archive.append(fileData, { name: entryZipPath, mode });
-          }
-        }
+    // Step 8: Package in the selected format
+    let packageResult: LinuxPackageResult;
+    if (packageFormat === "tar.gz") {
+      console.log(`[Domestic Linux Build ${buildId}] Creating tar.gz archive...`);
+      packageResult = {
+        buffer: await createTarGzArchive(newAppDir, safeAppName),
+        fileName: `${safeAppName}.tar.gz`,
+        contentType: "application/gzip",
       };
-
-      addFolderToArchive(newAppDir, safeAppName);
-      archive.finalize();
-    });
+    } else {
+      console.log(`[Domestic Linux Build ${buildId}] Creating ${packageFormat} package...`);
+      packageResult = await createLinuxPackage(packageFormat, {
+        buildId,
+        appDir: newAppDir,
+        appName: config.appName,
+        url: config.url,
+        appImageRuntime: packageFormat === "appimage" ? await storage.downloadFile(APPIMAGE_RUNTIME_PATH) : undefined,
+      });
+    }
+    const outputBuffer = packageResult.buffer;
 
     await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("uploading"));
 
     // Step 9: Upload result
     console.log(`[Domestic Linux Build ${buildId}] Uploading result...`);
-    const outputPath = `user-builds/builds/${buildId}/${safeAppName}.tar.gz`;
+    const outputPath = `user-builds/builds/${buildId}/${packageResult.fileName}`;
     await storage.uploadFile(outputPath, outputBuffer);
 
     const downloadUrl = await storage.getTempDownloadUrl(outputPath);
 
-    await db.collection("builds").doc(buildId).update({
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
       status: "completed",
       progress: progressHelper.getProgressForStage("completed"),
       output_file_path: outputPath,
@@ -183,9 +174,13 @@ export async function processLinuxAppBuildDomestic(
       });
     }
   } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`[Domestic Build ${buildId}] Cancelled, stopping at stage boundary`);
+      return;
+    }
     console.error(`[Domestic Linux Build ${buildId}] Error:`, error);
 
-    await db.collection("builds").doc(buildId).update({
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
       status: "failed",
       error_message: error instanceof Error ? error.message : "Unknown error",
       updated_at: new Date().toISOString(),
@@ -213,10 +208,51 @@ export async function processLinuxAppBuildDomestic(
 }
 
 async function updateBuildStatus(db: any, buildId: string, status: string, progress: number): Promise<void> {
-  await db.collection("builds").doc(buildId).update({
-    status,
-    progress,
-    updated_at: new Date().toISOString(),
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgressDomestic(db, buildId, status, progress);
+}
+
+/**
+ * Create tar.gz archive with archiver (correct Unix permissions, includes install.sh)
+ */
+async function createTarGzArchive(appDir: string, rootName: string): Promise<Buffer> {
+  const archiver = (await import("archiver")).default;
+
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const passThrough = new PassThrough();
+
+    passThrough.on("data", (chunk: Buffer) => chunks.push(chunk));
+    passThrough.on("end", () => resolve(Buffer.concat(chunks)));
+    passThrough.on("error", reject);
+
+    const archive = archiver("tar", { gzip: true, gzipOptions: { level: 9 } });
+    archive.on("error", reject);
+    archive.pipe(passThrough);
+
+    // Recursively add files with correct Unix permissions
+    const addFolderToArchive = (folderPath: string, zipPath: string) => {
+      const entries = fs.readdirSync(folderPath, { withFileTypes: true });
+      for (const entry of entries) {
+        const fullPath = path.join(folderPath, entry.name);
+        const entryZipPath = zipPath ? `${zipPath}/${entry.name}` : entry.name;
+
+        if (entry.isDirectory()) {
+          addFolderToArchive(fullPath, entryZipPath);
+        } else {
+          const fileData = fs.readFileSync(fullPath);
+          const isExecutable = entry.name === "install.sh" ||
+                               entry.name === "tauri-shell" ||
+                               !entry.name.includes(".");
+          const mode = isExecutable ? 0o755 : 0o644;
+
+          archive.append(fileData, { name: entryZipPath, mode });
+        }
+      }
+    };
+
+    addFolderToArchive(appDir, rootName);
+    archive.finalize();
   });
 }
 
@@ -246,10 +282,11 @@ function findAppDirectory(baseDir: string): string | null {
 
 async function replaceAppIcon(
   resourcesDir: string,
-  iconPath: string
+  iconPath: string,
+  iconStyle?: IconStyleConfig | null
 ): Promise<void> {
   try {
-    const iconBuffer = await downloadIconBuffer(iconPath);
+    const iconBuffer = await applyIconStyle(await downloadIconBuffer(iconPath), iconStyle);
 
     const processedIcon = await sharp(iconBuffer)
       .resize(512, 512, { fit: "cover" })
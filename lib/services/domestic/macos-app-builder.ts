@@ -9,16 +9,26 @@ import { downloadIconBuffer } from "@/lib/services/domestic/icon-download";
 import { BuildProgressHelper } from "@/lib/build-progress";
 import { trackBuildCompleteEvent } from "@/services/analytics";
 import AdmZip from "adm-zip";
-import sharp from "sharp";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import { PassThrough } from "stream";
+import { isBuildCancelledError, updateBuildProgressDomestic } from "@/lib/services/build-cancellation";
+import { createMacOSDmg, writeAppIcns, type MacOSPackageResult } from "@/lib/services/macos-packaging";
+import { DEFAULT_MACOS_PACKAGE_FORMAT, type MacOSPackageFormat } from "@/lib/config/macos-packaging";
+import { createDesktopAppConfig, type DesktopShellConfig } from "@/lib/config/desktop-shell";
+import type { IconStyleConfig } from "@/lib/config/icon-style";
+import { applyIconStyle } from "@/lib/services/icon-style";
 
 interface MacOSBuildConfig {
   url: string;
   appName: string;
   iconPath: string | null;
+  iconStyle?: IconStyleConfig | null;
+  packageFormat?: MacOSPackageFormat;
+  // 窗口、托盘、单实例、外链策略等运行时配置
+  desktopConfig?: DesktopShellConfig | null;
+  dmgBackground?: boolean;
 }
 
 export async function processMacOSAppBuildDomestic(
@@ -34,6 +44,7 @@ export async function processMacOSAppBuildDomestic(
   let userId: string | null = null;
   const buildStartTime = Date.now();
   const progressHelper = new BuildProgressHelper("macos");
+  const packageFormat = config.packageFormat || DEFAULT_MACOS_PACKAGE_FORMAT;
 
   try {
     // 获取构建记录以获取 user_id
@@ -70,10 +81,7 @@ export async function processMacOSAppBuildDomestic(
     const resourcesDir = path.join(appDir, "Contents", "Resources");
     fs.mkdirSync(resourcesDir, { recursive: true });
 
-    const appConfig = {
-      url: config.url,
-      title: config.appName,
-    };
+    const appConfig = createDesktopAppConfig(config.url, config.appName, config.desktopConfig);
     const configPath = path.join(resourcesDir, "app-config.json");
     fs.writeFileSync(configPath, JSON.stringify(appConfig, null, 2), "utf-8");
 
@@ -84,9 +92,10 @@ export async function processMacOSAppBuildDomestic(
     await updateInfoPlist(appDir, config.appName);
 
     // Step 7: Replace icon if provided
+    let iconBuffer: Buffer | null = null;
     if (config.iconPath) {
       console.log(`[Domestic macOS Build ${buildId}] Replacing icon...`);
-      await replaceAppIcon(appDir, config.iconPath);
+      iconBuffer = await replaceAppIcon(appDir, config.iconPath, config.iconStyle);
     }
 
     await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("processing_icons"));
@@ -100,56 +109,36 @@ export async function processMacOSAppBuildDomestic(
 
     await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("packaging"));
 
-    // Step 9: Create ZIP archive with archiver (preserves Unix permissions)
-    console.log(`[Domestic macOS Build ${buildId}] Creating ZIP archive...`);
-    const archiver = (await import("archiver")).default;
-
-    const outputBuffer = await new Promise<Buffer>((resolve, reject) => {
-      const chunks: Buffer[] = [];
-      const passThrough = new PassThrough();
-
-      passThrough.on("data", (chunk: Buffer) => chunks.push(chunk));
-      passThrough.on("end", () => resolve(Buffer.concat(chunks)));
-      passThrough.on("error", reject);
-
-      const archive = archiver("zip", { zlib: { level: 9 } });
-      archive.on("error", reject);
-      archive.pipe(passThrough);
-
-      // Recursively add files with correct Unix permissions
-      const addFolderToArchive = (folderPath: string, zipPath: string) => {
-        const entries = fs.readdirSync(folderPath, { withFileTypes: true });
-        for (const entry of entries) {
-          const fullPath = path.join(folderPath, entry.name);
-          const entryZipPath = zipPath ? `${zipPath}/${entry.name}` : entry.name;
-
-          if (entry.isDirectory()) {
-            addFolderToArchive(fullPath, entryZipPath);
-          } else {
-            const fileData = fs.readFileSync(fullPath);
-            // Check if it's an executable in MacOS directory
-            const isMacOSExecutable = entryZipPath.includes("/Contents/MacOS/");
-            const mode = isMacOSExecutable ? 0o755 : 0o644;
-
-            archive.append(fileData, { name: entryZipPath, mode });
-          }
-        }
+    // Step 9: Package in the selected format
+    let packageResult: MacOSPackageResult;
+    if (packageFormat === "dmg") {
+      console.log(`[Domestic macOS Build ${buildId}] Creating DMG image...`);
+      packageResult = await createMacOSDmg({
+        appDir: newAppDir,
+        volumeName: safeAppName,
+        background: config.dmgBackground,
+        iconBuffer,
+      });
+    } else {
+      console.log(`[Domestic macOS Build ${buildId}] Creating ZIP archive...`);
+      packageResult = {
+        buffer: await createZipArchive(newAppDir, `${safeAppName}.app`),
+        fileName: `${safeAppName}.app.zip`,
+        contentType: "application/zip",
       };
-
-      addFolderToArchive(newAppDir, `${safeAppName}.app`);
-      archive.finalize();
-    });
+    }
+    const outputBuffer = packageResult.buffer;
 
     await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("uploading"));
 
     // Step 10: Upload result
     console.log(`[Domestic macOS Build ${buildId}] Uploading result...`);
-    const outputPath = `user-builds/builds/${buildId}/${safeAppName}.app.zip`;
+    const outputPath = `user-builds/builds/${buildId}/${packageResult.fileName}`;
     await storage.uploadFile(outputPath, outputBuffer);
 
     const downloadUrl = await storage.getTempDownloadUrl(outputPath);
 
-    await db.collection("builds").doc(buildId).update({
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
       status: "completed",
       progress: progressHelper.getProgressForStage("completed"),
       output_file_path: outputPath,
@@ -172,9 +161,13 @@ export async function processMacOSAppBuildDomestic(
       });
     }
   } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`[Domestic Build ${buildId}] Cancelled, stopping at stage boundary`);
+      return;
+    }
     console.error(`[Domestic macOS Build ${buildId}] Error:`, error);
 
-    await db.collection("builds").doc(buildId).update({
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
       status: "failed",
       error_message: error instanceof Error ? error.message : "Unknown error",
       updated_at: new Date().toISOString(),
@@ -202,10 +195,50 @@ export async function processMacOSAppBuildDomestic(
 }
 
 async function updateBuildStatus(db: any, buildId: string, status: string, progress: number): Promise<void> {
-  await db.collection("builds").doc(buildId).update({
-    status,
-    progress,
-    updated_at: new Date().toISOString(),
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgressDomestic(db, buildId, status, progress);
+}
+
+/**
+ * Create ZIP archive with archiver (preserves Unix permissions)
+ */
+async function createZipArchive(appDir: string, rootName: string): Promise<Buffer> {
+  const archiver = (await import("archiver")).default;
+
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const passThrough = new PassThrough();
+
+    passThrough.on("data", (chunk: Buffer) => chunks.push(chunk));
+    passThrough.on("end", () => resolve(Buffer.concat(chunks)));
+    passThrough.on("error", reject);
+
+    const archive = archiver("zip", { zlib: { level: 9 } });
+    archive.on("error", reject);
+    archive.pipe(passThrough);
+
+    // Recursively add files with correct Unix permissions
+    const addFolderToArchive = (folderPath: string, zipPath: string) => {
+      const entries = fs.readdirSync(folderPath, { withFileTypes: true });
+      for (const entry of entries) {
+        const fullPath = path.join(folderPath, entry.name);
+        const entryZipPath = zipPath ? `${zipPath}/${entry.name}` : entry.name;
+
+        if (entry.isDirectory()) {
+          addFolderToArchive(fullPath, entryZipPath);
+        } else {
+          const fileData = fs.readFileSync(fullPath);
+          // Check if it's an executable in MacOS directory
+          const isMacOSExecutable = entryZipPath.includes("/Contents/MacOS/");
+          const mode = isMacOSExecutable ? 0o755 : 0o644;
+
+          archive.append(fileData, { name: entryZipPath, mode });
+        }
+      }
+    };
+
+    addFolderToArchive(appDir, rootName);
+    archive.finalize();
   });
 }
 
@@ -272,101 +305,19 @@ function escapeXml(str: string): string {
 
 async function replaceAppIcon(
   appDir: string,
-  iconPath: string
-): Promise<void> {
+  iconPath: string,
+  iconStyle?: IconStyleConfig | null
+): Promise<Buffer | null> {
   try {
-    const iconBuffer = await downloadIconBuffer(iconPath);
+    const iconBuffer = await applyIconStyle(await downloadIconBuffer(iconPath), iconStyle);
 
-    // Generate ICNS file
-    const icnsBuffer = await generateIcns(iconBuffer);
-
-    // Write to Resources directory
-    const resourcesDir = path.join(appDir, "Contents", "Resources");
-    const icnsPath = path.join(resourcesDir, "AppIcon.icns");
-
-    // Find existing icns file and replace
-    const existingIcns = findExistingIcns(resourcesDir);
-    if (existingIcns) {
-      fs.writeFileSync(existingIcns, icnsBuffer);
-    } else {
-      fs.writeFileSync(icnsPath, icnsBuffer);
-    }
+    // Generate ICNS into Resources and point CFBundleIconFile at it
+    await writeAppIcns(appDir, iconBuffer);
 
     console.log("[Domestic macOS Build] Icon replaced successfully");
+    return iconBuffer;
   } catch (error) {
     console.warn("[Domestic macOS Build] Icon replacement failed:", error);
+    return null;
   }
 }
-
-function findExistingIcns(resourcesDir: string): string | null {
-  if (!fs.existsSync(resourcesDir)) return null;
-
-  const entries = fs.readdirSync(resourcesDir);
-  for (const entry of entries) {
-    if (entry.endsWith(".icns")) {
-      return path.join(resourcesDir, entry);
-    }
-  }
-  return null;
-}
-
-/**
- * Generate macOS ICNS icon file
- */
-async function generateIcns(pngBuffer: Buffer): Promise<Buffer> {
-  const iconTypes: Array<{ size: number; type: string }> = [
-    { size: 16, type: "icp4" },
-    { size: 32, type: "icp5" },
-    { size: 64, type: "icp6" },
-    { size: 128, type: "ic07" },
-    { size: 256, type: "ic08" },
-    { size: 512, type: "ic09" },
-    { size: 1024, type: "ic10" },
-  ];
-
-  const iconEntries: Array<{ type: string; data: Buffer }> = [];
-
-  for (const { size, type } of iconTypes) {
-    try {
-      const resized = await sharp(pngBuffer)
-        .resize(size, size, { fit: "cover" })
-        .png()
-        .toBuffer();
-
-      iconEntries.push({ type, data: resized });
-    } catch {
-      // Skip sizes that can't be generated
-    }
-  }
-
-  // Build ICNS file
-  let totalSize = 8; // header
-  for (const entry of iconEntries) {
-    totalSize += 8 + entry.data.length;
-  }
-
-  const icnsBuffer = Buffer.alloc(totalSize);
-  let offset = 0;
-
-  // Magic number
-  icnsBuffer.write("icns", offset);
-  offset += 4;
-
-  // File size (big endian)
-  icnsBuffer.writeUInt32BE(totalSize, offset);
-  offset += 4;
-
-  // Write entries
-  for (const entry of iconEntries) {
-    icnsBuffer.write(entry.type, offset);
-    offset += 4;
-
-    icnsBuffer.writeUInt32BE(8 + entry.data.length, offset);
-    offset += 4;
-
-    entry.data.copy(icnsBuffer, offset);
-    offset += entry.data.length;
-  }
-
-  return icnsBuffer;
-}
@@ -0,0 +1,183 @@
+/**
+ * 国内版支付宝 / 小红书小程序构建服务
+ * 使用 CloudBase 云存储和数据库
+ */
+
+import { CloudBaseConnector } from "@/lib/cloudbase/connector";
+import { getCloudBaseStorage } from "@/lib/cloudbase/storage";
+import { BuildProgressHelper } from "@/lib/build-progress";
+import { trackBuildCompleteEvent } from "@/services/analytics";
+import AdmZip from "adm-zip";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { isBuildCancelledError, updateBuildProgressDomestic } from "@/lib/services/build-cancellation";
+import { downloadIconBuffer } from "@/lib/services/domestic/icon-download";
+import {
+  MINI_PROGRAM_TEMPLATES,
+  addMiniProgramFiles,
+  applyMiniProgramProject,
+  findMiniProgramRoot,
+  writeMiniProgramIcon,
+} from "@/lib/services/mini-program";
+import { getMiniProgramLabel, type MiniProgramConfig, type MiniProgramPlatform } from "@/lib/config/mini-program";
+import type { IconStyleConfig } from "@/lib/config/icon-style";
+import { applyIconStyle } from "@/lib/services/icon-style";
+
+interface MiniProgramBuildConfig {
+  url: string;
+  appName: string;
+  appId: string;
+  version: string;
+  iconPath: string | null;
+  iconStyle?: IconStyleConfig | null;
+  miniProgramConfig?: MiniProgramConfig | null;
+}
+
+export async function processAlipayBuildDomestic(buildId: string, config: MiniProgramBuildConfig): Promise<void> {
+  await processMiniProgramBuildDomestic("alipay", buildId, config);
+}
+
+export async function processXiaohongshuBuildDomestic(buildId: string, config: MiniProgramBuildConfig): Promise<void> {
+  await processMiniProgramBuildDomestic("xiaohongshu", buildId, config);
+}
+
+async function processMiniProgramBuildDomestic(
+  platform: MiniProgramPlatform,
+  buildId: string,
+  config: MiniProgramBuildConfig
+): Promise<void> {
+  const connector = new CloudBaseConnector();
+  await connector.initialize();
+  const db = connector.getClient();
+  const storage = getCloudBaseStorage();
+  const progressHelper = new BuildProgressHelper(platform);
+  const template = MINI_PROGRAM_TEMPLATES[platform];
+  const logPrefix = `[Domestic ${getMiniProgramLabel(platform)} Build ${buildId}]`;
+
+  let tempDir: string | null = null;
+  let userId: string | null = null;
+  const buildStartTime = Date.now();
+
+  try {
+    // 获取构建记录以获取 user_id
+    const buildRecord = await db.collection("builds").doc(buildId).get();
+    userId = buildRecord?.data?.[0]?.user_id || null;
+
+    await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("initializing"));
+
+    console.log(`${logPrefix} Downloading ${template.file}...`);
+    const zipBuffer = await storage.downloadFile(`${template.bucket}/${template.file}`);
+
+    await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("downloading"));
+
+    tempDir = path.join(os.tmpdir(), `${platform}-build-${buildId}-${Date.now()}`);
+    fs.mkdirSync(tempDir, { recursive: true });
+
+    const zip = new AdmZip(zipBuffer);
+    zip.extractAllTo(tempDir, true);
+
+    const projectRoot = findMiniProgramRoot(tempDir);
+    if (!projectRoot) {
+      throw new Error("Invalid zip structure");
+    }
+
+    await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("extracting"));
+
+    // 图标处理失败不影响构建，使用模板自带的 Logo
+    let logo: string | null = null;
+    if (config.iconPath) {
+      try {
+        const iconBuffer = await downloadIconBuffer(config.iconPath);
+        logo = await writeMiniProgramIcon(projectRoot, platform, await applyIconStyle(iconBuffer, config.iconStyle));
+      } catch (iconError) {
+        console.warn(`${logPrefix} Failed to process icon, using template logo:`, iconError);
+      }
+    }
+
+    await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("processing_icons"));
+
+    applyMiniProgramProject(projectRoot, platform, {
+      url: config.url,
+      appName: config.appName,
+      appId: config.appId,
+      version: config.version,
+      miniProgramConfig: config.miniProgramConfig,
+      logo,
+    });
+
+    await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("configuring"));
+
+    const newZip = new AdmZip();
+    addMiniProgramFiles(newZip, tempDir, "");
+    const outputBuffer = newZip.toBuffer();
+
+    await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("packaging"));
+
+    const outputPath = `user-builds/builds/${buildId}/${platform}-miniprogram.zip`;
+    await storage.uploadFile(outputPath, outputBuffer);
+
+    const downloadUrl = await storage.getTempDownloadUrl(outputPath);
+
+    await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("uploading"));
+
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
+      status: "completed",
+      progress: progressHelper.getProgressForStage("completed"),
+      output_file_path: outputPath,
+      download_url: downloadUrl,
+      file_size: outputBuffer.length,
+      updated_at: new Date().toISOString(),
+    });
+
+    console.log(`${logPrefix} Completed successfully!`);
+
+    // 记录构建完成事件用于统计
+    if (userId) {
+      await trackBuildCompleteEvent(userId, {
+        buildId,
+        platform,
+        success: true,
+        durationMs: Date.now() - buildStartTime,
+      }).catch((err) => {
+        console.error(`${logPrefix} Failed to track build complete event:`, err);
+      });
+    }
+  } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`${logPrefix} Cancelled, stopping at stage boundary`);
+      return;
+    }
+    console.error(`${logPrefix} Error:`, error);
+
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
+      status: "failed",
+      error_message: error instanceof Error ? error.message : "Unknown error",
+      updated_at: new Date().toISOString(),
+    });
+
+    // 记录构建失败事件
+    if (userId) {
+      await trackBuildCompleteEvent(userId, {
+        buildId,
+        platform,
+        success: false,
+        durationMs: Date.now() - buildStartTime,
+        errorMessage: error instanceof Error ? error.message : "Unknown error",
+      }).catch((err) => {
+        console.error(`${logPrefix} Failed to track build failure event:`, err);
+      });
+    }
+  } finally {
+    if (tempDir && fs.existsSync(tempDir)) {
+      try {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      } catch { /* ignore */ }
+    }
+  }
+}
+
+async function updateBuildStatus(db: any, buildId: string, status: string, progress: number): Promise<void> {
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgressDomestic(db, buildId, status, progress);
+}
@@ -10,12 +10,18 @@ import AdmZip from "adm-zip";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { isBuildCancelledError, updateBuildProgressDomestic } from "@/lib/services/build-cancellation";
+import { runWechatUpload, type WechatUploadRequest } from "@/lib/services/wechat-upload";
+import { applyWechatProject, assertWechatPackageSize, writeWechatAssets } from "@/lib/services/wechat-mini-program";
+import type { WechatMiniProgramConfig } from "@/lib/config/wechat-mini-program";
 
 interface WechatBuildConfig {
   url: string;
   appName: string;
   appId: string;
   version: string;
+  wechatConfig?: WechatMiniProgramConfig | null;
+  wechatUpload?: WechatUploadRequest | null;
 }
 
 export async function processWechatBuildDomestic(
@@ -56,40 +62,19 @@ export async function processWechatBuildDomestic(
       throw new Error("Invalid zip structure");
     }
 
-    // Update project.config.json
-    const projectConfigPath = path.join(projectRoot, "project.config.json");
-    if (fs.existsSync(projectConfigPath)) {
-      const configContent = fs.readFileSync(projectConfigPath, "utf-8");
-      const projectConfig = JSON.parse(configContent);
-      projectConfig.projectname = config.appName;
-      if (config.appId) {
-        projectConfig.appid = config.appId;
-      }
-      fs.writeFileSync(projectConfigPath, JSON.stringify(projectConfig, null, 2), "utf-8");
-    }
+    const assets = await writeWechatAssets(projectRoot, config.wechatConfig);
 
-    // Update app.json
-    const appJsonPath = path.join(projectRoot, "app.json");
-    if (fs.existsSync(appJsonPath)) {
-      const appJsonContent = fs.readFileSync(appJsonPath, "utf-8");
-      const appJson = JSON.parse(appJsonContent);
-      if (appJson.window) {
-        appJson.window.navigationBarTitleText = config.appName;
-      }
-      fs.writeFileSync(appJsonPath, JSON.stringify(appJson, null, 2), "utf-8");
-    }
+    await updateBuildStatus(db, buildId, "processing", 50);
 
-    // Update appConfig.json if exists
-    const configPath = path.join(projectRoot, "appConfig.json");
-    if (fs.existsSync(configPath)) {
-      const configContent = fs.readFileSync(configPath, "utf-8");
-      const appConfig = JSON.parse(configContent);
-      if (appConfig.general) {
-        appConfig.general.initialUrl = config.url;
-        appConfig.general.appName = config.appName;
-      }
-      fs.writeFileSync(configPath, JSON.stringify(appConfig, null, 2), "utf-8");
-    }
+    applyWechatProject(projectRoot, {
+      url: config.url,
+      appName: config.appName,
+      appId: config.appId,
+      version: config.version,
+      wechatConfig: config.wechatConfig,
+      assets,
+    });
+    assertWechatPackageSize(projectRoot);
 
     await updateBuildStatus(db, buildId, "processing", 70);
 
@@ -104,12 +89,38 @@ export async function processWechatBuildDomestic(
 
     const downloadUrl = await storage.getTempDownloadUrl(outputPath);
 
-    await db.collection("builds").doc(buildId).update({
+    // 可选：上传为开发版本，预览二维码存入构建输出目录
+    let uploadRecord: Record<string, string> = {};
+    if (config.wechatUpload) {
+      await updateBuildStatus(db, buildId, "processing", 92);
+
+      console.log(`[Domestic Wechat Build ${buildId}] Uploading to WeChat as v${config.version}...`);
+      const uploadResult = await runWechatUpload({
+        kind: "cloudbase",
+        userId,
+        appId: config.appId,
+        version: config.version,
+        projectRoot,
+        request: config.wechatUpload,
+      });
+
+      const qrPath = `user-builds/builds/${buildId}/wechat-preview.png`;
+      await storage.uploadFile(qrPath, uploadResult.qrCode);
+
+      uploadRecord = {
+        uploaded_version: uploadResult.version,
+        upload_description: uploadResult.description,
+        preview_qr_path: qrPath,
+      };
+    }
+
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
       status: "completed",
       progress: 100,
       output_file_path: outputPath,
       download_url: downloadUrl,
       file_size: outputBuffer.length,
+      ...uploadRecord,
       updated_at: new Date().toISOString(),
     });
 
@@ -127,9 +138,13 @@ export async function processWechatBuildDomestic(
       });
     }
   } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`[Domestic Build ${buildId}] Cancelled, stopping at stage boundary`);
+      return;
+    }
     console.error(`[Domestic Wechat Build ${buildId}] Error:`, error);
 
-    await db.collection("builds").doc(buildId).update({
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
       status: "failed",
       error_message: error instanceof Error ? error.message : "Unknown error",
       updated_at: new Date().toISOString(),
@@ -157,11 +172,8 @@ export async function processWechatBuildDomestic(
 }
 
 async function updateBuildStatus(db: any, buildId: string, status: string, progress: number): Promise<void> {
-  await db.collection("builds").doc(buildId).update({
-    status,
-    progress,
-    updated_at: new Date().toISOString(),
-  });
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgressDomestic(db, buildId, status, progress);
 }
 
 function findProjectRoot(dir: string, maxDepth: number = 3): string | null {
@@ -12,11 +12,26 @@ import sharp from "sharp";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { isBuildCancelledError, updateBuildProgressDomestic } from "@/lib/services/build-cancellation";
+import { createWindowsInstaller } from "@/lib/services/windows-installer";
+import { applyApplicationManifest, applyVersionInfo, resolveWindowsVersionValues } from "@/lib/services/windows-metadata";
+import type { WindowsInstallerConfig } from "@/lib/config/windows-installer";
+import type { WindowsMetadataConfig } from "@/lib/config/windows-metadata";
+import { createDesktopAppConfig, type DesktopShellConfig } from "@/lib/config/desktop-shell";
+import type { IconStyleConfig } from "@/lib/config/icon-style";
+import { applyIconStyle } from "@/lib/services/icon-style";
 
 interface WindowsBuildConfig {
   url: string;
   appName: string;
   iconPath: string | null;
+  iconStyle?: IconStyleConfig | null;
+  // Wrap the EXE in an installer (Setup.exe) instead of uploading it as a portable app
+  installerConfig?: WindowsInstallerConfig | null;
+  // Version info strings and application manifest settings (DPI awareness, execution level)
+  metadataConfig?: WindowsMetadataConfig | null;
+  // Window, tray, single-instance and link policy options embedded in APPCONFIG
+  desktopConfig?: DesktopShellConfig | null;
 }
 
 export async function processWindowsExeBuildDomestic(
@@ -59,25 +74,40 @@ export async function processWindowsExeBuildDomestic(
 
     // Step 4: Modify EXE resources (icon and metadata)
     console.log(`[Domestic Windows Build ${buildId}] Modifying resources...`);
-    await modifyExeResources(storage, exePath, config);
+    const icoBuffer = await modifyExeResources(storage, exePath, config);
 
     await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("processing_icons"));
 
     await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("packaging"));
 
-    // Step 5: Read modified EXE
-    const outputBuffer = fs.readFileSync(exePath);
+    // Step 5: Read modified EXE, optionally wrapping it in the installer
+    let outputBuffer: Buffer = fs.readFileSync(exePath);
+    let outputFileName = `${safeAppName}.exe`;
+
+    if (config.installerConfig) {
+      console.log(`[Domestic Windows Build ${buildId}] Downloading installer-stub.exe...`);
+      const stubBuffer = await storage.downloadFile("WindowsApp/installer-stub.exe");
+      const installer = await createWindowsInstaller({
+        stub: stubBuffer,
+        appExe: outputBuffer,
+        exeName: `${safeAppName}.exe`,
+        config: config.installerConfig,
+        icoBuffer,
+      });
+      outputBuffer = installer.buffer;
+      outputFileName = installer.fileName;
+    }
 
     await updateBuildStatus(db, buildId, "processing", progressHelper.getProgressForStage("uploading"));
 
     // Step 6: Upload result (single EXE file)
     console.log(`[Domestic Windows Build ${buildId}] Uploading result...`);
-    const outputPath = `user-builds/builds/${buildId}/${safeAppName}.exe`;
+    const outputPath = `user-builds/builds/${buildId}/${outputFileName}`;
     await storage.uploadFile(outputPath, outputBuffer);
 
     const downloadUrl = await storage.getTempDownloadUrl(outputPath);
 
-    await db.collection("builds").doc(buildId).update({
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
       status: "completed",
       progress: progressHelper.getProgressForStage("completed"),
       output_file_path: outputPath,
@@ -100,9 +130,13 @@ export async function processWindowsExeBuildDomestic(
       });
     }
   } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`[Domestic Build ${buildId}] Cancelled, stopping at stage boundary`);
+      return;
+    }
     console.error(`[Domestic Windows Build ${buildId}] Error:`, error);
 
-    await db.collection("builds").doc(buildId).update({
+    await db.collection("builds").where({ _id: buildId, status: db.command.neq("cancelled") }).update({
       status: "failed",
       error_message: error instanceof Error ? error.message : "Unknown error",
       updated_at: new Date().toISOString(),
@@ -130,39 +164,26 @@ export async function processWindowsExeBuildDomestic(
 }
 
 async function updateBuildStatus(db: any, buildId: string, status: string, progress: number): Promise<void> {
-  await db.collection("builds").doc(buildId).update({
-    status,
-    progress,
-    updated_at: new Date().toISOString(),
-  });
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgressDomestic(db, buildId, status, progress);
 }
 
 async function modifyExeResources(
   storage: ReturnType<typeof getCloudBaseStorage>,
   exePath: string,
   config: WindowsBuildConfig
-): Promise<void> {
+): Promise<Buffer | null> {
+  let icoBuffer: Buffer | null = null;
   try {
     const ResEdit = await import("resedit");
     const exeData = fs.readFileSync(exePath);
     const exe = ResEdit.NtExecutable.from(exeData);
     const res = ResEdit.NtExecutableResource.from(exe);
 
-    const viList = ResEdit.Resource.VersionInfo.fromEntries(res.entries);
-    if (viList.length > 0) {
-      const vi = viList[0];
-      vi.setStringValues(
-        { lang: 0x0409, codepage: 1200 },
-        {
-          ProductName: config.appName,
-          FileDescription: config.appName,
-          CompanyName: "",
-          LegalCopyright: "",
-          InternalName: config.appName,
-          OriginalFilename: `${config.appName}.exe`,
-        }
-      );
-      vi.outputToResourceEntries(res.entries);
+    // Rewrite version info (metadata form → installer config → app name) and the application manifest
+    await applyVersionInfo(res, resolveWindowsVersionValues(config.appName, config.metadataConfig, config.installerConfig));
+    if (config.metadataConfig) {
+      applyApplicationManifest(res, config.metadataConfig);
     }
 
     if (config.iconPath) {
@@ -174,11 +195,11 @@ async function modifyExeResources(
         console.log(`[Domestic Windows Build] Icon downloaded, size: ${iconBuffer.length} bytes`);
 
         console.log(`[Domestic Windows Build] Converting to ICO format...`);
-        const icoBuffer = await generateIco(iconBuffer);
-        console.log(`[Domestic Windows Build] ICO generated successfully, size: ${icoBuffer.length} bytes`);
+        const generatedIco = await generateIco(await applyIconStyle(iconBuffer, config.iconStyle));
+        console.log(`[Domestic Windows Build] ICO generated successfully, size: ${generatedIco.length} bytes`);
 
         console.log(`[Domestic Windows Build] Parsing ICO file...`);
-        const iconFile = ResEdit.Data.IconFile.from(icoBuffer);
+        const iconFile = ResEdit.Data.IconFile.from(generatedIco);
         console.log(`[Domestic Windows Build] ICO parsed successfully, icons count: ${iconFile.icons.length}`);
 
         // Remove existing icon resources (14 = RT_GROUP_ICON, 3 = RT_ICON)
@@ -192,6 +213,7 @@ async function modifyExeResources(
         ResEdit.Resource.IconGroupEntry.replaceIconsForResource(
           res.entries, 1, 0x0409, iconFile.icons.map((icon) => icon.data)
         );
+        icoBuffer = generatedIco;
         console.log("[Domestic Windows Build] Icon replaced successfully");
       } catch (iconError) {
         console.error("[Domestic Windows Build] Icon replacement failed:", iconError);
@@ -206,7 +228,7 @@ async function modifyExeResources(
     }
 
     // Embed app config into APPCONFIG resource
-    const appConfig = { url: config.url, title: config.appName };
+    const appConfig = createDesktopAppConfig(config.url, config.appName, config.desktopConfig);
     const configJson = JSON.stringify(appConfig);
     const configBuffer = Buffer.from(configJson, "utf-8");
 
@@ -224,7 +246,9 @@ async function modifyExeResources(
     console.log("[Domestic Windows Build] EXE resources modified successfully");
   } catch (error) {
     console.warn("[Domestic Windows Build] Resource modification failed:", error);
+    return null;
   }
+  return icoBuffer;
 }
 
 async function generateIco(pngBuffer: Buffer): Promise<Buffer> {
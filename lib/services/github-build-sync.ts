@@ -0,0 +1,177 @@
+/**
+ * 国际版 GitHub Actions 构建同步
+ * 检测云端构建（APK/IPA/HAP）是否完成，下载 artifact 上传到 Supabase 存储并更新构建记录
+ * 由定时任务调用（/api/international/builds/sync），不在轮询 / SSE 读取路径中执行
+ */
+
+import { createServiceClient } from "@/lib/supabase/server";
+import { getGitHubBuildStatus, downloadGitHubArtifact, getAndroidArtifactConfig } from "@/lib/services/github-builder";
+import { githubRateLimiter } from "@/lib/services/github-rate-limiter";
+import { appendBuildLog } from "@/lib/services/build-logs";
+import AdmZip from "adm-zip";
+
+export const GITHUB_SYNC_PLATFORMS = ["android-apk", "ios-ipa", "harmonyos-hap"];
+
+// 防止并发同步
+const syncingBuilds = new Set<string>();
+const completedBuilds = new Map<string, number>();
+const COMPLETED_CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * 同步最近 1 小时内仍在构建中的 GitHub Actions 构建
+ */
+export async function syncGitHubBuilds(): Promise<{ checked: number }> {
+  const supabase = createServiceClient();
+  const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+  const { data: builds, error } = await supabase
+    .from("builds")
+    .select("id,status,platform,build_type,github_run_id,output_file_path,updated_at")
+    .in("status", ["pending", "processing"])
+    .in("platform", GITHUB_SYNC_PLATFORMS)
+    .not("github_run_id", "is", null)
+    .gte("created_at", oneHourAgo)
+    .order("created_at", { ascending: false })
+    .limit(20);
+
+  if (error) {
+    throw new Error(`Failed to query GitHub builds: ${error.message}`);
+  }
+
+  if (builds && builds.length > 0) {
+    await syncBuilds(supabase, builds);
+  }
+  return { checked: builds?.length || 0 };
+}
+
+async function syncBuilds(
+  supabase: ReturnType<typeof createServiceClient>,
+  builds: any[]
+) {
+  const now = Date.now();
+
+  // Clean expired cache
+  for (const [id, ts] of completedBuilds.entries()) {
+    if (now - ts > COMPLETED_CACHE_TTL) completedBuilds.delete(id);
+  }
+
+  if (githubRateLimiter.shouldThrottle()) {
+    console.warn("[International GitHubSync] GitHub API rate limit high, skipping");
+    return;
+  }
+
+  for (const build of builds) {
+    if (!GITHUB_SYNC_PLATFORMS.includes(build.platform)) continue;
+    if (!build.github_run_id) continue;
+    if (completedBuilds.has(build.id)) continue;
+    if (syncingBuilds.has(build.id)) continue;
+
+    // Skip if artifact already uploaded
+    const alreadyUploaded = build.output_file_path &&
+      (build.output_file_path.endsWith('.apk') ||
+       build.output_file_path.endsWith('.ipa') ||
+       build.output_file_path.endsWith('.hap'));
+    if (alreadyUploaded) continue;
+
+    syncingBuilds.add(build.id);
+    console.log(`[International GitHubSync] Checking build ${build.id} (${build.platform})`);
+
+    try {
+      const status = await getGitHubBuildStatus(build.github_run_id, build.platform);
+
+      if (status.error) {
+        console.error(`[International GitHubSync] GitHub status error: ${status.error}`);
+        continue;
+      }
+
+      if (status.status === "completed" && status.conclusion === "success") {
+        console.log(`[International GitHubSync] Build completed, downloading artifact...`);
+
+        const platformConfig: Record<string, { prefix: string; ext: string; findEntry: (e: { entryName: string }) => boolean; findBundleEntry?: ((e: { entryName: string }) => boolean) | null }> = {
+          "android-apk": getAndroidArtifactConfig(build.build_type),
+          "ios-ipa": {
+            prefix: "ipa-release", ext: ".ipa",
+            findEntry: (e) => e.entryName.endsWith('.ipa'),
+          },
+          "harmonyos-hap": {
+            prefix: "hap-release", ext: ".hap",
+            findEntry: (e) => e.entryName.endsWith('.hap'),
+          },
+        };
+
+        const config = platformConfig[build.platform];
+        if (!config) continue;
+
+        const artifactName = `${config.prefix}-${build.id}`;
+        const artifactBuffer = await downloadGitHubArtifact(build.github_run_id, artifactName, build.platform);
+
+        if (!artifactBuffer) {
+          console.error(`[International GitHubSync] Download failed for ${build.id}`);
+          continue;
+        }
+
+        // Extract file from zip
+        const zip = new AdmZip(artifactBuffer);
+        const fileEntry = zip.getEntries().find(entry => config.findEntry(entry));
+
+        if (!fileEntry) {
+          console.error(`[International GitHubSync] ${config.ext} not found in zip`);
+          continue;
+        }
+
+        const fileBuffer = fileEntry.getData();
+        const fileName = `builds/${build.id}/${config.prefix}${config.ext}`;
+        console.log(`[International GitHubSync] Uploading ${(fileBuffer.length / 1024 / 1024).toFixed(2)} MB...`);
+
+        // Upload to Supabase storage
+        await supabase.storage.from("user-builds").upload(fileName, fileBuffer, {
+          contentType: "application/octet-stream",
+          upsert: true,
+        });
+
+        // Release builds also ship an AAB for Google Play
+        let aabFileName: string | null = null;
+        const bundleEntry = config.findBundleEntry
+          ? zip.getEntries().find(entry => config.findBundleEntry!(entry))
+          : undefined;
+        if (bundleEntry) {
+          aabFileName = `builds/${build.id}/${config.prefix}.aab`;
+          await supabase.storage.from("user-builds").upload(aabFileName, bundleEntry.getData(), {
+            contentType: "application/octet-stream",
+            upsert: true,
+          });
+        } else if (config.findBundleEntry) {
+          console.warn(`[International GitHubSync] .aab not found in zip for ${build.id}`);
+        }
+
+        // Update build record (keep user-cancelled builds as cancelled)
+        await supabase.from("builds").update({
+          status: "completed",
+          progress: 100,
+          output_file_path: fileName,
+          ...(aabFileName && { aab_file_path: aabFileName }),
+          updated_at: new Date().toISOString(),
+        }).eq("id", build.id).neq("status", "cancelled");
+
+        console.log(`[International GitHubSync] Build ${build.id} synced successfully`);
+        await appendBuildLog("supabase", build.id, "info", `GitHub Actions run ${build.github_run_id} succeeded, artifact uploaded`, { stage: "completed", progress: 100 });
+        completedBuilds.set(build.id, Date.now());
+
+      } else if (status.status === "completed" && status.conclusion === "failure") {
+        await supabase.from("builds").update({
+          status: "failed",
+          progress: 100,
+          error_message: "GitHub Actions build failed",
+          updated_at: new Date().toISOString(),
+        }).eq("id", build.id).neq("status", "cancelled");
+
+        await appendBuildLog("supabase", build.id, "error", `GitHub Actions run ${build.github_run_id} failed`, { stage: "failed" });
+        completedBuilds.set(build.id, Date.now());
+      }
+    } catch (error) {
+      console.error(`[International GitHubSync] Error for ${build.id}:`, error instanceof Error ? error.message : String(error));
+    } finally {
+      syncingBuilds.delete(build.id);
+    }
+  }
+}
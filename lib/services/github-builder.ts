@@ -60,6 +60,8 @@ interface GitHubBuildConfig {
   sourceUrl: string;
   callbackUrl?: string;
   platform: "android-apk" | "ios-ipa" | "harmonyos-hap";
+  // 平台专属 workflow 输入（需在对应 workflow 中声明，否则 dispatch 会被拒绝）
+  extraInputs?: Record<string, string>;
 }
 
 interface GitHubBuildResult {
@@ -147,6 +149,7 @@ export async function triggerGitHubBuild(
             build_id: config.buildId,
             source_url: config.sourceUrl,
             callback_url: config.callbackUrl || "",
+            ...config.extraInputs,
           },
         }),
       }
@@ -293,6 +296,152 @@ export async function getGitHubBuildStatus(
   }
 }
 
+// 每个 job 日志只保留最后若干行，避免日志过大
+const MAX_JOB_LOG_LINES = 400;
+
+export interface GitHubJobLog {
+  id: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  steps: Array<{
+    number: number;
+    name: string;
+    status: string;
+    conclusion: string | null;
+    startedAt: string | null;
+    completedAt: string | null;
+  }>;
+  // job 运行中时 GitHub 还不提供日志下载
+  log: string | null;
+}
+
+/**
+ * 获取 GitHub Actions workflow 运行的 job 步骤和日志
+ */
+export async function getGitHubRunLogs(
+  runId: string,
+  platform?: "android-apk" | "ios-ipa" | "harmonyos-hap"
+): Promise<{ success: boolean; jobs?: GitHubJobLog[]; error?: string }> {
+  const token = process.env.GITHUB_TOKEN?.trim();
+  const owner = process.env.GITHUB_OWNER?.trim();
+  const repo = platform
+    ? getGitHubRepoConfig(platform).repo
+    : getGitHubRepoForPlatform(runId);
+
+  if (!token || !owner || !repo) {
+    return { success: false, error: "GitHub configuration missing" };
+  }
+
+  const headers = {
+    "Authorization": `Bearer ${token}`,
+    "Accept": "application/vnd.github+json",
+    "X-GitHub-Api-Version": "2022-11-28",
+  };
+
+  try {
+    monitoring.recordApiCall('github_api', true);
+
+    const response = await fetch(
+      `https://api.github.com/repos/${owner}/${repo}/actions/runs/${runId}/jobs?per_page=20`,
+      { headers }
+    );
+    githubRateLimiter.updateRateLimit(response.headers);
+
+    if (!response.ok) {
+      return { success: false, error: `GitHub API error: ${response.status}` };
+    }
+
+    const data = await response.json();
+    const jobs: GitHubJobLog[] = await Promise.all(
+      (data.jobs || []).map(async (job: any) => {
+        let log: string | null = null;
+        if (job.status === "completed") {
+          // 返回 302 跳转到临时下载地址，fetch 会自动跟随
+          const logResponse = await fetch(
+            `https://api.github.com/repos/${owner}/${repo}/actions/jobs/${job.id}/logs`,
+            { headers }
+          ).catch(() => null);
+          if (logResponse?.ok) {
+            const lines = (await logResponse.text()).split("\n");
+            log = lines.slice(-MAX_JOB_LOG_LINES).join("\n");
+          }
+        }
+
+        return {
+          id: job.id,
+          name: job.name,
+          status: job.status,
+          conclusion: job.conclusion ?? null,
+          startedAt: job.started_at ?? null,
+          completedAt: job.completed_at ?? null,
+          steps: (job.steps || []).map((step: any) => ({
+            number: step.number,
+            name: step.name,
+            status: step.status,
+            conclusion: step.conclusion ?? null,
+            startedAt: step.started_at ?? null,
+            completedAt: step.completed_at ?? null,
+          })),
+          log,
+        };
+      })
+    );
+
+    return { success: true, jobs };
+  } catch (error) {
+    monitoring.recordApiCall('github_api', false);
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
+/**
+ * 取消 GitHub Actions workflow 运行
+ * 运行已结束时 GitHub 返回 409，视为无需取消
+ */
+export async function cancelGitHubBuild(
+  runId: string,
+  platform?: "android-apk" | "ios-ipa" | "harmonyos-hap"
+): Promise<{ success: boolean; error?: string }> {
+  const token = process.env.GITHUB_TOKEN?.trim();
+  const owner = process.env.GITHUB_OWNER?.trim();
+  const repo = platform
+    ? getGitHubRepoConfig(platform).repo
+    : getGitHubRepoForPlatform(runId);
+
+  if (!token || !owner || !repo) {
+    return { success: false, error: "GitHub configuration missing" };
+  }
+
+  try {
+    monitoring.recordApiCall('github_api', true);
+
+    const response = await fetch(
+      `https://api.github.com/repos/${owner}/${repo}/actions/runs/${runId}/cancel`,
+      {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${token}`,
+          "Accept": "application/vnd.github+json",
+          "X-GitHub-Api-Version": "2022-11-28",
+        },
+      }
+    );
+
+    githubRateLimiter.updateRateLimit(response.headers);
+
+    if (response.status === 202 || response.status === 409) {
+      return { success: true };
+    }
+    return { success: false, error: `GitHub API error: ${response.status}` };
+  } catch (error) {
+    monitoring.recordApiCall('github_api', false);
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
+
 /**
  * 下载 GitHub Actions 构建产物
  */
@@ -427,6 +576,41 @@ async function performDownload(
   }
 }
 
+/**
+ * Android APK 构建产物配置
+ * debug: app-debug-{buildId}，仅 APK
+ * release: app-release-{buildId}，包含签名 APK 和 AAB
+ */
+export function getAndroidArtifactConfig(buildType?: string | null): {
+  prefix: string;
+  ext: string;
+  findEntry: (entry: { entryName: string }) => boolean;
+  findBundleEntry: ((entry: { entryName: string }) => boolean) | null;
+} {
+  if (buildType === "release") {
+    return {
+      prefix: "app-release",
+      ext: ".apk",
+      findEntry: (entry) =>
+        entry.entryName.includes('android/app/build/outputs/apk/normal/release/') &&
+        entry.entryName.endsWith('.apk'),
+      findBundleEntry: (entry) =>
+        entry.entryName.includes('android/app/build/outputs/bundle/normalRelease/') &&
+        entry.entryName.endsWith('.aab'),
+    };
+  }
+
+  return {
+    prefix: "app-debug",
+    ext: ".apk",
+    findEntry: (entry) =>
+      (entry.entryName.includes('android/app/build/outputs/apk/normal/debug/') ||
+       entry.entryName.includes('android/app/build/outputs/apk/normal/release/')) &&
+      entry.entryName.endsWith('.apk'),
+    findBundleEntry: null,
+  };
+}
+
 /**
  * 设置 runId 对应的 repo（供外部回调使用）
  */
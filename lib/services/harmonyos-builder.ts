@@ -1,10 +1,15 @@
 import { createServiceClient } from "@/lib/supabase/server";
 import { trackBuildCompleteEvent } from "@/services/analytics";
+import { applyNativeShellConfig, type NativeShellConfig } from "@/lib/config/native-shell";
+import { applyPushConfig, type PushConfig } from "@/lib/config/push-notifications";
+import { HARMONYOS_LAYERED_SAFE_ZONE, type IconStyleConfig } from "@/lib/config/icon-style";
+import { renderIconLayers, renderStyledIcon } from "@/lib/services/icon-style";
 import AdmZip from "adm-zip";
 import sharp from "sharp";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { isBuildCancelledError, updateBuildProgress } from "@/lib/services/build-cancellation";
 
 interface BuildConfig {
   url: string;
@@ -14,6 +19,9 @@ interface BuildConfig {
   versionCode: string;
   privacyPolicy: string;
   iconPath: string | null;
+  shellConfig?: NativeShellConfig | null;
+  pushConfig?: PushConfig | null;
+  iconStyle?: IconStyleConfig | null;
 }
 
 export async function processHarmonyOSBuild(
@@ -132,7 +140,7 @@ export async function processHarmonyOSBuild(
         } else if (iconData) {
           console.log(`[Build ${buildId}] Icon downloaded successfully, size: ${iconData.size} bytes`);
           const iconBuffer = Buffer.from(await iconData.arrayBuffer());
-          await processIcons(projectRoot, iconBuffer, buildId);
+          await processIcons(projectRoot, iconBuffer, buildId, config.iconStyle);
           console.log(`[Build ${buildId}] Icon processing completed`);
         }
       } catch (iconProcessError) {
@@ -181,7 +189,8 @@ export async function processHarmonyOSBuild(
     const { error: updateError } = await supabase
       .from("builds")
       .update(updatePayload)
-      .eq("id", buildId);
+      .eq("id", buildId)
+      .neq("status", "cancelled");
 
     if (updateError) {
       throw new Error(`Failed to update build record: ${updateError.message}`);
@@ -201,6 +210,10 @@ export async function processHarmonyOSBuild(
       });
     }
   } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`[Build ${buildId}] Cancelled, stopping at stage boundary`);
+      return;
+    }
     console.error(`[Build ${buildId}] Error:`, error);
 
     // Update build status to failed
@@ -210,7 +223,8 @@ export async function processHarmonyOSBuild(
         status: "failed",
         error_message: error instanceof Error ? error.message : "Unknown error",
       })
-      .eq("id", buildId);
+      .eq("id", buildId)
+      .neq("status", "cancelled");
 
     // 记录构建失败事件
     if (userId) {
@@ -242,10 +256,8 @@ async function updateBuildStatus(
   status: string,
   progress: number
 ): Promise<void> {
-  await supabase
-    .from("builds")
-    .update({ status, progress })
-    .eq("id", buildId);
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgress(supabase, buildId, status, progress);
 }
 
 /**
@@ -305,6 +317,9 @@ async function updateAppConfig(configPath: string, config: BuildConfig): Promise
     appConfig.general.versionCode = parseInt(config.versionCode, 10) || 1;
   }
 
+  applyNativeShellConfig(appConfig, config.shellConfig, "harmonyos");
+  applyPushConfig(appConfig, config.pushConfig, "harmonyos");
+
   fs.writeFileSync(configPath, JSON.stringify(appConfig, null, 2), "utf-8");
 }
 
@@ -356,17 +371,20 @@ async function updateStringJson(stringJsonPath: string, value: string, fieldName
  * 处理鸿蒙应用图标
  * 根据 harmonyos_switch.md 文档，需要处理 6 个图标文件
  */
-async function processIcons(projectRoot: string, iconBuffer: Buffer, buildId: string): Promise<void> {
+async function processIcons(
+  projectRoot: string,
+  iconBuffer: Buffer,
+  buildId: string,
+  iconStyle?: IconStyleConfig | null
+): Promise<void> {
   console.log(`[Build ${buildId}] Processing HarmonyOS icons...`);
 
-  // 预处理 - 将用户上传的图片标准化为 1024x1024 正方形
-  const normalizedBuffer = await sharp(iconBuffer)
-    .resize(1024, 1024, {
-      fit: "contain",
-      background: { r: 0, g: 0, b: 0, alpha: 0 },
-    })
-    .png()
-    .toBuffer();
+  // 预处理 - 将用户上传的图片标准化为 1024x1024 正方形（配置了图标样式时叠加背景并留出边距）
+  const normalizedBuffer = await renderStyledIcon(iconBuffer, iconStyle);
+  // 配置了图标样式时分层图标的前景只含图案，背景使用配置的背景
+  const layers = iconStyle
+    ? await renderIconLayers(iconBuffer, iconStyle, { size: 1024, safeZone: HARMONYOS_LAYERED_SAFE_ZONE })
+    : null;
 
   // 辅助函数：处理普通图标
   const processIcon = async (iconPath: string, size: number) => {
@@ -396,6 +414,12 @@ async function processIcons(projectRoot: string, iconBuffer: Buffer, buildId: st
     }
 
     try {
+      if (layers) {
+        await sharp(layers.foreground).resize(size, size).png().toFile(iconPath);
+        console.log(`[Build ${buildId}] Created styled foreground: ${iconPath} (${size}x${size})`);
+        return;
+      }
+
       // 计算安全区域大小（约 66% 的画布尺寸）
       const safeSize = Math.round(size * 0.66);
       const padding = Math.round((size - safeSize) / 2);
@@ -433,10 +457,10 @@ async function processIcons(projectRoot: string, iconBuffer: Buffer, buildId: st
   const appScopeForegroundPath = path.join(projectRoot, "AppScope", "resources", "base", "media", "foreground.png");
   await processForegroundIcon(appScopeForegroundPath, 1024);
 
-  // 5. Entry 背景图层 (background.png) - 1024x1024 纯白色背景
-  const entryBackgroundPath = path.join(projectRoot, "entry", "src", "main", "resources", "base", "media", "background.png");
-  if (fs.existsSync(path.dirname(entryBackgroundPath))) {
-    await sharp({
+  // 背景图层默认为纯白色，配置了图标样式时使用配置的背景
+  const backgroundBuffer =
+    layers?.background ||
+    (await sharp({
       create: {
         width: 1024,
         height: 1024,
@@ -444,6 +468,13 @@ async function processIcons(projectRoot: string, iconBuffer: Buffer, buildId: st
         background: { r: 255, g: 255, b: 255, alpha: 1 },
       },
     })
+      .png()
+      .toBuffer());
+
+  // 5. Entry 背景图层 (background.png) - 1024x1024 纯白色背景
+  const entryBackgroundPath = path.join(projectRoot, "entry", "src", "main", "resources", "base", "media", "background.png");
+  if (fs.existsSync(path.dirname(entryBackgroundPath))) {
+    await sharp(backgroundBuffer)
       .png()
       .toFile(entryBackgroundPath);
     console.log(`[Build ${buildId}] Created background: ${entryBackgroundPath}`);
@@ -452,14 +483,7 @@ async function processIcons(projectRoot: string, iconBuffer: Buffer, buildId: st
   // 6. AppScope 背景图层 (background.png) - 1024x1024 纯白色背景
   const appScopeBackgroundPath = path.join(projectRoot, "AppScope", "resources", "base", "media", "background.png");
   if (fs.existsSync(path.dirname(appScopeBackgroundPath))) {
-    await sharp({
-      create: {
-        width: 1024,
-        height: 1024,
-        channels: 4,
-        background: { r: 255, g: 255, b: 255, alpha: 1 },
-      },
-    })
+    await sharp(backgroundBuffer)
       .png()
       .toFile(appScopeBackgroundPath);
     console.log(`[Build ${buildId}] Created background: ${appScopeBackgroundPath}`);
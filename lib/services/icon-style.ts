@@ -0,0 +1,203 @@
+/**
+ * 图标样式渲染
+ * - renderStyledIcon / applyIconStyle: 背景 + 按比例缩放的图案合成为完整图标，供各平台原有的尺寸表使用
+ * - renderIconLayers: 分层图标（Android 自适应图标 / HarmonyOS 分层图标）的前景、背景和单色图层
+ * - installAndroidAdaptiveIcon: 写入 ic_launcher_background / ic_launcher_monochrome 并更新 mipmap-anydpi 的 XML
+ * 未配置样式时与原有处理一致（1024x1024，contain，透明填充）
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import sharp from "sharp";
+import { getGradientVector, type IconBackground, type IconStyleConfig } from "@/lib/config/icon-style";
+
+export const ICON_CANVAS_SIZE = 1024;
+
+const TRANSPARENT = { r: 0, g: 0, b: 0, alpha: 0 };
+
+export interface IconLayers {
+  // 透明背景上的图案（已按安全区域和缩放比例留出边距）
+  foreground: Buffer;
+  background: Buffer | null;
+  monochrome: Buffer | null;
+}
+
+function decodeDataUrl(dataUrl: string): Buffer {
+  return Buffer.from(dataUrl.slice(dataUrl.indexOf(",") + 1), "base64");
+}
+
+/**
+ * 图案等比缩放到 contentSize 并居中放到 size 的透明画布上
+ */
+async function renderArtwork(icon: Buffer, size: number, contentSize: number): Promise<Buffer> {
+  const content = Math.max(1, Math.min(size, Math.round(contentSize)));
+  const before = Math.floor((size - content) / 2);
+  const after = size - content - before;
+  return sharp(icon)
+    .resize(content, content, { fit: "contain", background: TRANSPARENT })
+    .extend({ top: before, bottom: after, left: before, right: after, background: TRANSPARENT })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * 背景图层（纯色或线性渐变）
+ */
+async function renderBackground(background: IconBackground, size: number): Promise<Buffer | null> {
+  if (background.type === "none") return null;
+
+  const fill = background.type === "color" ? background.color : "url(#g)";
+  let defs = "";
+  if (background.type === "gradient") {
+    const { x1, y1, x2, y2 } = getGradientVector(background.angle);
+    defs =
+      `<defs><linearGradient id="g" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}">` +
+      `<stop offset="0" stop-color="${background.from}"/><stop offset="1" stop-color="${background.to}"/>` +
+      `</linearGradient></defs>`;
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">${defs}<rect width="100%" height="100%" fill="${fill}"/></svg>`;
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+/**
+ * 白色剪影：保留图案的透明度，用于 Android 13 主题图标
+ */
+async function renderSilhouette(layer: Buffer, size: number): Promise<Buffer> {
+  const alpha = await sharp(layer).ensureAlpha().extractChannel(3).toBuffer();
+  return sharp({ create: { width: size, height: size, channels: 3, background: { r: 255, g: 255, b: 255 } } })
+    .joinChannel(alpha)
+    .png()
+    .toBuffer();
+}
+
+/**
+ * 合成完整图标（背景 + 图案），未配置样式时只做标准化
+ */
+export async function renderStyledIcon(
+  icon: Buffer,
+  style: IconStyleConfig | null | undefined,
+  size = ICON_CANVAS_SIZE
+): Promise<Buffer> {
+  const artwork = await renderArtwork(icon, size, size * (style?.scale ?? 1));
+  const background = style ? await renderBackground(style.background, size) : null;
+  if (!background) return artwork;
+  return sharp(background).composite([{ input: artwork }]).png().toBuffer();
+}
+
+/**
+ * 各平台构建服务在原有图标处理之前调用，未配置样式时原样返回
+ */
+export async function applyIconStyle(icon: Buffer, style: IconStyleConfig | null | undefined): Promise<Buffer> {
+  return style ? renderStyledIcon(icon, style) : icon;
+}
+
+/**
+ * 分层图标
+ * @param safeZone 系统裁剪后必定可见的区域占画布的比例
+ */
+export async function renderIconLayers(
+  icon: Buffer,
+  style: IconStyleConfig | null | undefined,
+  options: { size: number; safeZone: number }
+): Promise<IconLayers> {
+  const { size, safeZone } = options;
+  const contentSize = size * safeZone * (style?.scale ?? 1);
+  const foreground = await renderArtwork(icon, size, contentSize);
+
+  let monochrome: Buffer | null = null;
+  if (style?.monochrome.mode === "auto") {
+    monochrome = await renderSilhouette(foreground, size);
+  } else if (style?.monochrome.mode === "custom") {
+    // 自定义单色图层与前景使用相同的位置和大小，只取透明度
+    monochrome = await renderSilhouette(await renderArtwork(decodeDataUrl(style.monochrome.image), size, contentSize), size);
+  }
+
+  return {
+    foreground,
+    background: style ? await renderBackground(style.background, size) : null,
+    monochrome,
+  };
+}
+
+const ADAPTIVE_ICON_XML_FILES = ["ic_launcher.xml", "ic_launcher_round.xml"];
+const ADAPTIVE_ICON_DIRS = ["mipmap-anydpi-v26", "mipmap-anydpi"];
+
+function buildAdaptiveIconXml(options: { background: boolean; monochrome: boolean }): string {
+  return [
+    `<?xml version="1.0" encoding="utf-8"?>`,
+    `<adaptive-icon xmlns:android="http://schemas.android.com/apk/res/android">`,
+    options.background
+      ? `    <background android:drawable="@mipmap/ic_launcher_background" />`
+      : `    <background android:drawable="@android:color/white" />`,
+    `    <foreground android:drawable="@mipmap/ic_launcher_foreground" />`,
+    ...(options.monochrome ? [`    <monochrome android:drawable="@mipmap/ic_launcher_monochrome" />`] : []),
+    `</adaptive-icon>`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * 更新模板中的自适应图标 XML（保留模板原有的背景，除非配置了背景）
+ */
+function patchAdaptiveIconXml(xml: string, options: { background: boolean; monochrome: boolean }): string {
+  let patched = xml.replace(/<foreground\b[^>]*\/>/, `<foreground android:drawable="@mipmap/ic_launcher_foreground" />`);
+  if (options.background) {
+    patched = patched.replace(/<background\b[^>]*\/>/, `<background android:drawable="@mipmap/ic_launcher_background" />`);
+  }
+  patched = patched.replace(/\s*<monochrome\b[^>]*\/>/, "");
+  if (options.monochrome) {
+    patched = patched.replace(
+      /(\s*)<\/adaptive-icon>/,
+      `\n    <monochrome android:drawable="@mipmap/ic_launcher_monochrome" />$1</adaptive-icon>`
+    );
+  }
+  return patched;
+}
+
+/**
+ * Android 自适应图标：按各密度写入前景 / 背景 / 单色图层，并让 mipmap-anydpi 的 XML 引用它们
+ * @param sizes 各密度的 108dp 画布尺寸（与 ic_launcher_foreground 相同）
+ */
+export async function installAndroidAdaptiveIcon(
+  resDir: string,
+  icon: Buffer,
+  style: IconStyleConfig,
+  sizes: Array<{ folder: string; size: number }>,
+  safeZone: number
+): Promise<void> {
+  const layers = await renderIconLayers(icon, style, { size: ICON_CANVAS_SIZE, safeZone });
+  const files: Array<[string, Buffer | null]> = [
+    ["ic_launcher_foreground.png", layers.foreground],
+    ["ic_launcher_background.png", layers.background],
+    ["ic_launcher_monochrome.png", layers.monochrome],
+  ];
+
+  for (const { folder, size } of sizes) {
+    const dir = path.join(resDir, folder);
+    fs.mkdirSync(dir, { recursive: true });
+    for (const [fileName, layer] of files) {
+      if (!layer) continue;
+      await sharp(layer).resize(size, size).png().toFile(path.join(dir, fileName));
+    }
+  }
+
+  const options = { background: !!layers.background, monochrome: !!layers.monochrome };
+  const existing = ADAPTIVE_ICON_DIRS.flatMap((dirName) =>
+    ADAPTIVE_ICON_XML_FILES.map((fileName) => path.join(resDir, dirName, fileName))
+  ).filter((file) => fs.existsSync(file));
+
+  if (existing.length > 0) {
+    for (const file of existing) {
+      fs.writeFileSync(file, patchAdaptiveIconXml(fs.readFileSync(file, "utf-8"), options), "utf-8");
+    }
+    return;
+  }
+
+  // 模板没有自适应图标时新建（Android 8.0+ 使用，低版本继续使用 ic_launcher.png）
+  const anydpiDir = path.join(resDir, ADAPTIVE_ICON_DIRS[0]);
+  fs.mkdirSync(anydpiDir, { recursive: true });
+  for (const fileName of ADAPTIVE_ICON_XML_FILES) {
+    fs.writeFileSync(path.join(anydpiDir, fileName), buildAdaptiveIconXml(options), "utf-8");
+  }
+}
@@ -1,10 +1,18 @@
 import { createServiceClient } from "@/lib/supabase/server";
 import { trackBuildCompleteEvent } from "@/services/analytics";
+import { applyNativeShellConfig, type NativeShellConfig } from "@/lib/config/native-shell";
+import { applyPushConfig, type PushConfig } from "@/lib/config/push-notifications";
+import { applyDeepLinkConfig, type DeepLinkConfig } from "@/lib/config/deep-links";
+import { installIOSPushFiles } from "@/lib/services/push-notifications";
+import { installIOSDeepLinks } from "@/lib/services/deep-links";
 import AdmZip from "adm-zip";
 import sharp from "sharp";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { isBuildCancelledError, updateBuildProgress } from "@/lib/services/build-cancellation";
+import type { IconStyleConfig } from "@/lib/config/icon-style";
+import { applyIconStyle } from "@/lib/services/icon-style";
 
 interface iOSBuildConfig {
   url: string;
@@ -14,6 +22,10 @@ interface iOSBuildConfig {
   buildNumber: string;
   privacyPolicy: string;
   iconPath: string | null;
+  iconStyle?: IconStyleConfig | null;
+  shellConfig?: NativeShellConfig | null;
+  pushConfig?: PushConfig | null;
+  deepLinkConfig?: DeepLinkConfig | null;
 }
 
 interface iOSBuildOptions {
@@ -111,6 +123,10 @@ export async function processiOSBuild(
       throw new Error(`Config file not found: ${configPath}`);
     }
     await updateAppConfig(configPath, config);
+    // FCM 需要替换 GoogleService-Info.plist
+    installIOSPushFiles(projectRoot, config.pushConfig);
+    // Universal Links：associated-domains entitlement + apple-app-site-association
+    installIOSDeepLinks(projectRoot, config.deepLinkConfig, config.bundleId);
 
     await updateBuildStatus(supabase, buildId, "processing", 35);
 
@@ -155,7 +171,7 @@ export async function processiOSBuild(
         } else if (iconData) {
           console.log(`[Build ${buildId}] Icon downloaded successfully, size: ${iconData.size} bytes`);
           const iconBuffer = Buffer.from(await iconData.arrayBuffer());
-          await processIcons(projectRoot, iconBuffer, buildId);
+          await processIcons(projectRoot, await applyIconStyle(iconBuffer, config.iconStyle), buildId);
           console.log(`[Build ${buildId}] Icon processing completed`);
         }
       } catch (iconProcessError) {
@@ -205,7 +221,8 @@ export async function processiOSBuild(
     const { error: updateError } = await supabase
       .from("builds")
       .update(updateData)
-      .eq("id", buildId);
+      .eq("id", buildId)
+      .neq("status", "cancelled");
 
     if (updateError) {
       throw new Error(`Failed to update build record: ${updateError.message}`);
@@ -225,6 +242,10 @@ export async function processiOSBuild(
       });
     }
   } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`[Build ${buildId}] Cancelled, stopping at stage boundary`);
+      return;
+    }
     console.error(`[Build ${buildId}] Error:`, error);
 
     await supabase
@@ -233,7 +254,8 @@ export async function processiOSBuild(
         status: "failed",
         error_message: error instanceof Error ? error.message : "Unknown error",
       })
-      .eq("id", buildId);
+      .eq("id", buildId)
+      .neq("status", "cancelled");
 
     // 记录构建失败事件
     if (userId) {
@@ -265,10 +287,8 @@ async function updateBuildStatus(
   status: string,
   progress: number
 ): Promise<void> {
-  await supabase
-    .from("builds")
-    .update({ status, progress })
-    .eq("id", buildId);
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgress(supabase, buildId, status, progress);
 }
 
 /**
@@ -337,6 +357,10 @@ async function updateAppConfig(configPath: string, config: iOSBuildConfig): Prom
     appConfig.general.iosBuildNumber = parseInt(config.buildNumber, 10) || 1;
   }
 
+  applyNativeShellConfig(appConfig, config.shellConfig, "ios");
+  applyPushConfig(appConfig, config.pushConfig, "ios");
+  applyDeepLinkConfig(appConfig, config.deepLinkConfig);
+
   fs.writeFileSync(configPath, JSON.stringify(appConfig, null, 2), "utf-8");
 }
 
@@ -4,11 +4,23 @@ import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import { PassThrough } from "stream";
+import { isBuildCancelledError, updateBuildProgress } from "@/lib/services/build-cancellation";
+import { createLinuxPackage, type LinuxPackageResult } from "@/lib/services/linux-packaging";
+import { DEFAULT_LINUX_PACKAGE_FORMAT, type LinuxPackageFormat } from "@/lib/config/linux-packaging";
+import { createDesktopAppConfig, type DesktopShellConfig } from "@/lib/config/desktop-shell";
+import type { IconStyleConfig } from "@/lib/config/icon-style";
+import { applyIconStyle } from "@/lib/services/icon-style";
+
+const APPIMAGE_RUNTIME_PATH = "appimage-runtime-x86_64";
 
 interface LinuxBuildConfig {
   url: string;
   appName: string;
   iconPath: string | null;
+  iconStyle?: IconStyleConfig | null;
+  packageFormat?: LinuxPackageFormat;
+  // 窗口、托盘、单实例、外链策略等运行时配置
+  desktopConfig?: DesktopShellConfig | null;
 }
 
 /**
@@ -18,7 +30,7 @@ interface LinuxBuildConfig {
  * 1. 从 Supabase Storage 下载预构建的 Linux 模板（tar.gz 格式）
  * 2. 解压并修改配置文件（app-config.json）
  * 3. 替换图标（如果提供）
- * 4. 重新打包并上传
+ * 4. 按选择的格式打包（tar.gz / deb / rpm / AppImage）并上传
  *
  * 预构建模板需要通过 GitHub Actions 在 Linux runner 上编译
  */
@@ -30,6 +42,7 @@ export async function processLinuxAppBuild(
   let tempDir: string | null = null;
   let userId: string | null = null;
   const buildStartTime = Date.now();
+  const packageFormat = config.packageFormat || DEFAULT_LINUX_PACKAGE_FORMAT;
 
   try {
     // 获取构建记录以获取 user_id
@@ -85,10 +98,7 @@ export async function processLinuxAppBuild(
     const resourcesDir = path.join(appDir, "resources");
     fs.mkdirSync(resourcesDir, { recursive: true });
 
-    const appConfig = {
-      url: config.url,
-      title: config.appName,
-    };
+    const appConfig = createDesktopAppConfig(config.url, config.appName, config.desktopConfig);
     const configPath = path.join(resourcesDir, "app-config.json");
     fs.writeFileSync(configPath, JSON.stringify(appConfig, null, 2), "utf-8");
 
@@ -107,7 +117,7 @@ export async function processLinuxAppBuild(
     // Step 6: 替换图标（如果提供）
     if (config.iconPath) {
       console.log("[Linux Build] Replacing icon...");
-      await replaceAppIcon(supabase, resourcesDir, config.iconPath);
+      await replaceAppIcon(supabase, resourcesDir, config.iconPath, config.iconStyle);
     }
 
     await updateBuildStatus(supabase, buildId, "processing", 65);
@@ -120,58 +130,36 @@ export async function processLinuxAppBuild(
 
     await updateBuildStatus(supabase, buildId, "processing", 75);
 
-    // Step 8: 打包为 tar.gz（使用 archiver 正确设置 Unix 可执行权限）
-    console.log("[Linux Build] Creating tar.gz archive with archiver...");
-    const archiver = (await import("archiver")).default;
-
-    const outputBuffer = await new Promise<Buffer>((resolve, reject) => {
-      const chunks: Buffer[] = [];
-      const passThrough = new PassThrough();
-
-      passThrough.on("data", (chunk: Buffer) => chunks.push(chunk));
-      passThrough.on("end", () => resolve(Buffer.concat(chunks)));
-      passThrough.on("error", reject);
-
-      const archive = archiver("tar", { gzip: true, gzipOptions: { level: 9 } });
-      archive.on("error", reject);
-      archive.pipe(passThrough);
-
-      // 递归添加文件并设置正确的 Unix 权限
-      const addFolderToArchive = (folderPath: string, zipPath: string) => {
-        const entries = fs.readdirSync(folderPath, { withFileTypes: true });
-        for (const entry of entries) {
-          const fullPath = path.join(folderPath, entry.name);
-          const entryZipPath = zipPath ? `${zipPath}/${entry.name}` : entry.name;
-
-          if (entry.isDirectory()) {
-            addFolderToArchive(fullPath, entryZipPath);
-          } else {
-            const fileData = fs.readFileSync(fullPath);
-            // 检查是否是可执行文件（二进制文件或脚本）
-            const isExecutable = entry.name === "install.sh" ||
-                                 entry.name === "tauri-shell" ||
-                                 !entry.name.includes(".");
-            // Unix 权限: 0o755 (rwxr-xr-x) 用于可执行文件, 0o644 (rw-r--r--) 用于普通文件
-            const mode = isExecutable ? 0o755 : 0o644;
-
-            archive.append(fileData, { name: entryZipPath, mode });
-          }
-        }
+    // Step 8: 按选择的格式打包（tar.gz 使用 archiver 正确设置 Unix 可执行权限）
+    let packageResult: LinuxPackageResult;
+    if (packageFormat === "tar.gz") {
+      console.log("[Linux Build] Creating tar.gz archive with archiver...");
+      packageResult = {
+        buffer: await createTarGzArchive(newAppDir, safeAppName),
+        fileName: `${safeAppName}.tar.gz`,
+        contentType: "application/gzip",
       };
-
-      addFolderToArchive(newAppDir, safeAppName);
-      archive.finalize();
-    });
+    } else {
+      console.log(`[Linux Build] Creating ${packageFormat} package...`);
+      packageResult = await createLinuxPackage(packageFormat, {
+        buildId,
+        appDir: newAppDir,
+        appName: config.appName,
+        url: config.url,
+        appImageRuntime: packageFormat === "appimage" ? await downloadAppImageRuntime(supabase) : undefined,
+      });
+    }
+    const outputBuffer = packageResult.buffer;
 
     await updateBuildStatus(supabase, buildId, "processing", 85);
 
     // Step 9: 上传结果
     console.log("[Linux Build] Uploading result...");
-    const outputPath = `builds/${buildId}/${safeAppName}.tar.gz`;
+    const outputPath = `builds/${buildId}/${packageResult.fileName}`;
     const { error: uploadError } = await supabase.storage
       .from("user-builds")
       .upload(outputPath, outputBuffer, {
-        contentType: "application/gzip",
+        contentType: packageResult.contentType,
         upsert: true,
       });
 
@@ -190,7 +178,8 @@ export async function processLinuxAppBuild(
         output_file_path: outputPath,
         file_size: outputBuffer.length,
       })
-      .eq("id", buildId);
+      .eq("id", buildId)
+      .neq("status", "cancelled");
 
     if (updateError) {
       throw new Error(`Failed to update build record: ${updateError.message}`);
@@ -210,6 +199,10 @@ export async function processLinuxAppBuild(
       });
     }
   } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`[Build ${buildId}] Cancelled, stopping at stage boundary`);
+      return;
+    }
     console.error("[Linux Build] Error:", error);
 
     await supabase
@@ -218,7 +211,8 @@ export async function processLinuxAppBuild(
         status: "failed",
         error_message: error instanceof Error ? error.message : "Unknown error",
       })
-      .eq("id", buildId);
+      .eq("id", buildId)
+      .neq("status", "cancelled");
 
     // 记录构建失败事件
     if (userId) {
@@ -250,10 +244,70 @@ async function updateBuildStatus(
   status: string,
   progress: number
 ): Promise<void> {
-  await supabase
-    .from("builds")
-    .update({ status, progress })
-    .eq("id", buildId);
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgress(supabase, buildId, status, progress);
+}
+
+/**
+ * 打包为 tar.gz（解压即用，附带 install.sh）
+ */
+async function createTarGzArchive(appDir: string, rootName: string): Promise<Buffer> {
+  const archiver = (await import("archiver")).default;
+
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const passThrough = new PassThrough();
+
+    passThrough.on("data", (chunk: Buffer) => chunks.push(chunk));
+    passThrough.on("end", () => resolve(Buffer.concat(chunks)));
+    passThrough.on("error", reject);
+
+    const archive = archiver("tar", { gzip: true, gzipOptions: { level: 9 } });
+    archive.on("error", reject);
+    archive.pipe(passThrough);
+
+    // 递归添加文件并设置正确的 Unix 权限
+    const addFolderToArchive = (folderPath: string, zipPath: string) => {
+      const entries = fs.readdirSync(folderPath, { withFileTypes: true });
+      for (const entry of entries) {
+        const fullPath = path.join(folderPath, entry.name);
+        const entryZipPath = zipPath ? `${zipPath}/${entry.name}` : entry.name;
+
+        if (entry.isDirectory()) {
+          addFolderToArchive(fullPath, entryZipPath);
+        } else {
+          const fileData = fs.readFileSync(fullPath);
+          // 检查是否是可执行文件（二进制文件或脚本）
+          const isExecutable = entry.name === "install.sh" ||
+                               entry.name === "tauri-shell" ||
+                               !entry.name.includes(".");
+          // Unix 权限: 0o755 (rwxr-xr-x) 用于可执行文件, 0o644 (rw-r--r--) 用于普通文件
+          const mode = isExecutable ? 0o755 : 0o644;
+
+          archive.append(fileData, { name: entryZipPath, mode });
+        }
+      }
+    };
+
+    addFolderToArchive(appDir, rootName);
+    archive.finalize();
+  });
+}
+
+/**
+ * 下载 AppImage type 2 runtime（与 Linux 模板一起存放在 LinuxApp 存储桶）
+ */
+async function downloadAppImageRuntime(
+  supabase: ReturnType<typeof createServiceClient>
+): Promise<Buffer> {
+  const { data, error } = await supabase.storage
+    .from("LinuxApp")
+    .download(APPIMAGE_RUNTIME_PATH);
+
+  if (error || !data) {
+    throw new Error(`Failed to download AppImage runtime: ${error?.message || "No data"}`);
+  }
+  return Buffer.from(await data.arrayBuffer());
 }
 
 function findAppDirectory(baseDir: string): string | null {
@@ -284,7 +338,8 @@ function findAppDirectory(baseDir: string): string | null {
 async function replaceAppIcon(
   supabase: ReturnType<typeof createServiceClient>,
   resourcesDir: string,
-  iconPath: string
+  iconPath: string,
+  iconStyle?: IconStyleConfig | null
 ): Promise<void> {
   try {
     // 下载用户图标
@@ -297,7 +352,7 @@ async function replaceAppIcon(
       return;
     }
 
-    const iconBuffer = Buffer.from(await iconData.arrayBuffer());
+    const iconBuffer = await applyIconStyle(Buffer.from(await iconData.arrayBuffer()), iconStyle);
 
     // 使用 sharp 处理图标（缩放到 512x512）
     const sharp = (await import("sharp")).default;
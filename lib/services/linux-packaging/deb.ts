@@ -0,0 +1,90 @@
+/**
+ * Debian 软件包（.deb）
+ * ar 归档，依次包含 debian-binary、control.tar.gz、data.tar.gz
+ */
+
+import * as crypto from "crypto";
+import * as zlib from "zlib";
+import { createTarArchive } from "./tar";
+import { withParentDirectories, type PackageEntry } from "./types";
+
+export interface DebControl {
+  packageName: string;
+  version: string;
+  architecture: string;
+  maintainer: string;
+  depends: string;
+  section: string;
+  homepage: string;
+  summary: string;
+  description: string;
+}
+
+function createArMember(name: string, data: Buffer, mtime: number): Buffer {
+  const header = Buffer.alloc(60, " ");
+  header.write(name, 0, "latin1");
+  header.write(String(mtime), 16, "latin1");
+  header.write("0", 28, "latin1");
+  header.write("0", 34, "latin1");
+  header.write("100644", 40, "latin1");
+  header.write(String(data.length), 48, "latin1");
+  header.write("`\n", 58, "latin1");
+  // 成员数据按 2 字节对齐
+  return Buffer.concat([header, data, data.length % 2 ? Buffer.from("\n") : Buffer.alloc(0)]);
+}
+
+function formatControl(control: DebControl, installedSizeKb: number): string {
+  // 多行描述：续行以空格开头，空行写作 " ."
+  const description = control.description
+    .split("\n")
+    .map((line) => ` ${line.trim() || "."}`)
+    .join("\n");
+
+  return [
+    `Package: ${control.packageName}`,
+    `Version: ${control.version}`,
+    `Architecture: ${control.architecture}`,
+    `Maintainer: ${control.maintainer}`,
+    `Installed-Size: ${installedSizeKb}`,
+    `Depends: ${control.depends}`,
+    `Section: ${control.section}`,
+    "Priority: optional",
+    `Homepage: ${control.homepage}`,
+    `Description: ${control.summary}`,
+    description,
+    "",
+  ].join("\n");
+}
+
+export function createDebPackage(control: DebControl, files: PackageEntry[], mtime: number): Buffer {
+  const dataEntries = withParentDirectories(files);
+
+  let installedSize = 0;
+  const md5sums: string[] = [];
+  for (const entry of dataEntries) {
+    if (entry.type === "file") {
+      installedSize += entry.data.length;
+      md5sums.push(`${crypto.createHash("md5").update(entry.data).digest("hex")}  ${entry.path}`);
+    }
+  }
+
+  const controlEntries: PackageEntry[] = [
+    {
+      type: "file",
+      path: "control",
+      mode: 0o644,
+      data: Buffer.from(formatControl(control, Math.ceil(installedSize / 1024)), "utf-8"),
+    },
+    { type: "file", path: "md5sums", mode: 0o644, data: Buffer.from(md5sums.join("\n") + "\n", "utf-8") },
+  ];
+
+  const controlTar = zlib.gzipSync(createTarArchive(controlEntries, { mtime, rootPrefix: "./" }), { level: 9 });
+  const dataTar = zlib.gzipSync(createTarArchive(dataEntries, { mtime, rootPrefix: "./" }), { level: 9 });
+
+  return Buffer.concat([
+    Buffer.from("!<arch>\n", "latin1"),
+    createArMember("debian-binary", Buffer.from("2.0\n"), mtime),
+    createArMember("control.tar.gz", controlTar, mtime),
+    createArMember("data.tar.gz", dataTar, mtime),
+  ]);
+}
@@ -0,0 +1,304 @@
+/**
+ * Linux 原生安装包（deb / rpm / AppImage）
+ *
+ * 在解压并写入配置后的 Tauri 模板目录基础上，纯 TypeScript 组装安装包，不依赖 dpkg / rpmbuild / appimagetool：
+ * - deb / rpm：应用安装到 /opt/<包名>，/usr/bin/<包名> 指向可执行文件，附带 .desktop 和 hicolor 图标
+ * - AppImage：AppDir（AppRun + .desktop + 图标 + usr/lib/<包名>）打包为 squashfs，拼接在 type 2 runtime 之后
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { LinuxPackageFormat } from "@/lib/config/linux-packaging";
+import { createDebPackage } from "./deb";
+import { createRpmPackage } from "./rpm";
+import { createSquashfsImage } from "./squashfs";
+import type { PackageEntry } from "./types";
+
+export type { PackageEntry } from "./types";
+
+// hicolor 主题的常用尺寸
+const HICOLOR_ICON_SIZES = [16, 24, 32, 48, 64, 128, 256, 512];
+
+// 预构建模板为 x86_64
+const DEB_ARCH = "amd64";
+const RPM_ARCH = "x86_64";
+
+// Tauri 2 使用 WebKitGTK 4.1，旧模板使用 4.0
+const DEB_DEPENDS = "libwebkit2gtk-4.1-0 | libwebkit2gtk-4.0-37, libgtk-3-0";
+const RPM_REQUIRES = ["(webkit2gtk4.1 or webkit2gtk4.0)", "gtk3"];
+
+export interface LinuxPackageInput {
+  buildId: string;
+  // 已写入 app-config.json 和图标的模板目录
+  appDir: string;
+  appName: string;
+  url: string;
+  version?: string;
+  // AppImage type 2 runtime（与模板一起存放在 LinuxApp 存储桶）
+  appImageRuntime?: Buffer;
+}
+
+export interface LinuxPackageResult {
+  buffer: Buffer;
+  fileName: string;
+  contentType: string;
+}
+
+/**
+ * 生成符合 Debian / RPM 命名规则的包名（小写字母、数字和连字符）
+ * 应用名称不含英文字母时（例如中文名称）使用构建 ID 生成
+ */
+export function getLinuxPackageName(appName: string, buildId: string): string {
+  const slug = appName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 50);
+  return slug.length >= 2 ? slug : `webapp-${buildId.replace(/[^a-z0-9]/gi, "").slice(0, 8).toLowerCase()}`;
+}
+
+function isExecutableFile(name: string, mode: number): boolean {
+  // 与 tar.gz 打包一致：模板中的二进制和脚本没有扩展名
+  return (mode & 0o111) !== 0 || name === "tauri-shell" || !name.includes(".");
+}
+
+/**
+ * 读取模板目录，路径挂到 prefix 之下（install.sh 只用于 tar.gz，不进入安装包）
+ */
+function readAppFiles(appDir: string, prefix: string): PackageEntry[] {
+  const entries: PackageEntry[] = [{ type: "dir", path: prefix, mode: 0o755 }];
+
+  const walk = (dir: string, relative: string) => {
+    for (const item of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (!relative && item.name === "install.sh") continue;
+      const fullPath = path.join(dir, item.name);
+      const entryPath = `${prefix}/${relative ? `${relative}/` : ""}${item.name}`;
+      const childRelative = relative ? `${relative}/${item.name}` : item.name;
+
+      if (item.isSymbolicLink()) {
+        entries.push({ type: "symlink", path: entryPath, target: fs.readlinkSync(fullPath) });
+      } else if (item.isDirectory()) {
+        entries.push({ type: "dir", path: entryPath, mode: 0o755 });
+        walk(fullPath, childRelative);
+      } else {
+        const stat = fs.statSync(fullPath);
+        entries.push({
+          type: "file",
+          path: entryPath,
+          mode: isExecutableFile(item.name, stat.mode) ? 0o755 : 0o644,
+          data: fs.readFileSync(fullPath),
+        });
+      }
+    }
+  };
+
+  walk(appDir, "");
+  return entries;
+}
+
+/**
+ * 查找模板中的主程序（默认 tauri-shell）
+ */
+function findExecutableName(appDir: string): string {
+  if (fs.existsSync(path.join(appDir, "tauri-shell"))) return "tauri-shell";
+  const candidate = fs
+    .readdirSync(appDir, { withFileTypes: true })
+    .find((item) => item.isFile() && item.name !== "install.sh" && !item.name.includes("."));
+  if (!candidate) {
+    throw new Error("Could not find app executable in template");
+  }
+  return candidate.name;
+}
+
+async function createHicolorIcons(appDir: string, packageName: string): Promise<Map<number, Buffer>> {
+  const icons = new Map<number, Buffer>();
+  const iconPath = path.join(appDir, "resources", "icon.png");
+  if (!fs.existsSync(iconPath)) return icons;
+
+  const sharp = (await import("sharp")).default;
+  const source = fs.readFileSync(iconPath);
+  for (const size of HICOLOR_ICON_SIZES) {
+    icons.set(size, await sharp(source).resize(size, size, { fit: "cover" }).png().toBuffer());
+  }
+  console.log(`[Linux Package] Generated ${icons.size} hicolor icons for ${packageName}`);
+  return icons;
+}
+
+function iconEntries(icons: Map<number, Buffer>, prefix: string, packageName: string): PackageEntry[] {
+  return [...icons].map(([size, data]) => ({
+    type: "file" as const,
+    path: `${prefix}share/icons/hicolor/${size}x${size}/apps/${packageName}.png`,
+    mode: 0o644,
+    data,
+  }));
+}
+
+function createDesktopEntry(options: {
+  appName: string;
+  url: string;
+  exec: string;
+  icon: string;
+  version?: string;
+}): Buffer {
+  const escape = (value: string) => value.replace(/[\r\n]+/g, " ").trim();
+  const lines = [
+    "[Desktop Entry]",
+    "Type=Application",
+    `Name=${escape(options.appName)}`,
+    `Comment=${escape(options.url)}`,
+    `Exec=${options.exec}`,
+    `Icon=${options.icon}`,
+    "Terminal=false",
+    "Categories=Network;WebBrowser;",
+    "StartupNotify=true",
+    ...(options.version ? [`X-AppImage-Version=${options.version}`] : []),
+    "",
+  ];
+  return Buffer.from(lines.join("\n"), "utf-8");
+}
+
+function getMaintainer(appName: string, url: string): string {
+  let host = "localhost";
+  try {
+    host = new URL(url).hostname || host;
+  } catch {
+    // 使用默认值
+  }
+  const name = appName.replace(/[<>\r\n]/g, "").trim() || "App";
+  return `${name} <noreply@${host}>`;
+}
+
+/**
+ * deb / rpm 共用的文件布局
+ */
+function createSystemLayout(
+  input: LinuxPackageInput,
+  packageName: string,
+  executable: string,
+  icons: Map<number, Buffer>
+): PackageEntry[] {
+  return [
+    ...readAppFiles(input.appDir, `opt/${packageName}`),
+    { type: "symlink", path: `usr/bin/${packageName}`, target: `/opt/${packageName}/${executable}` },
+    {
+      type: "file",
+      path: `usr/share/applications/${packageName}.desktop`,
+      mode: 0o644,
+      data: createDesktopEntry({ appName: input.appName, url: input.url, exec: packageName, icon: packageName }),
+    },
+    ...iconEntries(icons, "usr/", packageName),
+  ];
+}
+
+/**
+ * AppDir 布局：AppRun 通过自身路径定位应用目录，可以从任意位置运行
+ */
+function createAppDirLayout(
+  input: LinuxPackageInput,
+  packageName: string,
+  executable: string,
+  icons: Map<number, Buffer>,
+  version: string
+): PackageEntry[] {
+  const appRun = [
+    "#!/bin/sh",
+    'HERE="$(dirname "$(readlink -f "$0")")"',
+    `exec "$HERE/usr/lib/${packageName}/${executable}" "$@"`,
+    "",
+  ].join("\n");
+
+  const entries: PackageEntry[] = [
+    { type: "file", path: "AppRun", mode: 0o755, data: Buffer.from(appRun, "utf-8") },
+    {
+      type: "file",
+      path: `${packageName}.desktop`,
+      mode: 0o644,
+      data: createDesktopEntry({ appName: input.appName, url: input.url, exec: packageName, icon: packageName, version }),
+    },
+    ...readAppFiles(input.appDir, `usr/lib/${packageName}`),
+    ...iconEntries(icons, "usr/", packageName),
+  ];
+
+  const rootIcon = icons.get(256);
+  if (rootIcon) {
+    entries.push(
+      { type: "file", path: `${packageName}.png`, mode: 0o644, data: rootIcon },
+      { type: "symlink", path: ".DirIcon", target: `${packageName}.png` }
+    );
+  }
+  return entries;
+}
+
+/**
+ * 生成 Linux 原生安装包（tar.gz 由构建服务自行打包）
+ */
+export async function createLinuxPackage(
+  format: Exclude<LinuxPackageFormat, "tar.gz">,
+  input: LinuxPackageInput
+): Promise<LinuxPackageResult> {
+  const packageName = getLinuxPackageName(input.appName, input.buildId);
+  const version = input.version || "1.0.0";
+  const executable = findExecutableName(input.appDir);
+  const icons = await createHicolorIcons(input.appDir, packageName);
+  const mtime = Math.floor(Date.now() / 1000);
+  const summary = input.appName.replace(/[\r\n]+/g, " ").trim() || packageName;
+  const description = `${summary} desktop app for ${input.url}`;
+
+  if (format === "deb") {
+    const buffer = createDebPackage(
+      {
+        packageName,
+        version,
+        architecture: DEB_ARCH,
+        maintainer: getMaintainer(input.appName, input.url),
+        depends: DEB_DEPENDS,
+        section: "web",
+        homepage: input.url,
+        summary,
+        description,
+      },
+      createSystemLayout(input, packageName, executable, icons),
+      mtime
+    );
+    return {
+      buffer,
+      fileName: `${packageName}_${version}_${DEB_ARCH}.deb`,
+      contentType: "application/vnd.debian.binary-package",
+    };
+  }
+
+  if (format === "rpm") {
+    // 只列出软件包拥有的文件，系统目录（/usr/bin 等）不进入文件列表
+    const buffer = createRpmPackage(
+      {
+        name: packageName,
+        version,
+        release: "1",
+        arch: RPM_ARCH,
+        summary,
+        description,
+        license: "Proprietary",
+        group: "Applications/Internet",
+        url: input.url,
+        requires: RPM_REQUIRES,
+      },
+      createSystemLayout(input, packageName, executable, icons),
+      mtime
+    );
+    return {
+      buffer,
+      fileName: `${packageName}-${version}-1.${RPM_ARCH}.rpm`,
+      contentType: "application/x-rpm",
+    };
+  }
+
+  if (!input.appImageRuntime) {
+    throw new Error("AppImage runtime is required to build an AppImage");
+  }
+  const squashfs = createSquashfsImage(createAppDirLayout(input, packageName, executable, icons, version), mtime);
+  return {
+    buffer: Buffer.concat([input.appImageRuntime, squashfs]),
+    fileName: `${packageName}-${version}-x86_64.AppImage`,
+    contentType: "application/vnd.appimage",
+  };
+}
@@ -0,0 +1,317 @@
+/**
+ * RPM 软件包（.rpm，v3 lead + v4 header）
+ * 结构：lead（96 字节）→ 签名头（SIZE / MD5 / SHA1 / SHA256 摘要）→ 主头 → gzip 压缩的 cpio（newc）负载
+ * 文件列表只包含软件包拥有的路径，/usr/share/... 等系统目录由 rpm 安装时自动创建
+ */
+
+import * as crypto from "crypto";
+import * as zlib from "zlib";
+import { getEntryMode, getEntrySize, sortEntries, type PackageEntry } from "./types";
+
+export interface RpmMetadata {
+  name: string;
+  version: string;
+  release: string;
+  arch: string;
+  summary: string;
+  description: string;
+  license: string;
+  group: string;
+  url: string;
+  // 运行时依赖（支持 rich dependency，例如 "(a or b)"）
+  requires: string[];
+}
+
+// Header 数据类型
+const RPM_INT16 = 3;
+const RPM_INT32 = 4;
+const RPM_STRING = 6;
+const RPM_BIN = 7;
+const RPM_STRING_ARRAY = 8;
+const RPM_I18NSTRING = 9;
+
+// Header 标签
+const RPMTAG_HEADERSIGNATURES = 62;
+const RPMTAG_HEADERIMMUTABLE = 63;
+const RPMTAG_HEADERI18NTABLE = 100;
+const RPMSIGTAG_SHA1 = 269;
+const RPMSIGTAG_SHA256 = 273;
+const RPMSIGTAG_SIZE = 1000;
+const RPMSIGTAG_MD5 = 1004;
+const RPMSIGTAG_PAYLOADSIZE = 1007;
+
+const RPMTAG = {
+  NAME: 1000,
+  VERSION: 1001,
+  RELEASE: 1002,
+  SUMMARY: 1004,
+  DESCRIPTION: 1005,
+  BUILDTIME: 1006,
+  BUILDHOST: 1007,
+  SIZE: 1009,
+  LICENSE: 1014,
+  GROUP: 1016,
+  URL: 1020,
+  OS: 1021,
+  ARCH: 1022,
+  FILESIZES: 1028,
+  FILEMODES: 1030,
+  FILERDEVS: 1033,
+  FILEMTIMES: 1034,
+  FILEDIGESTS: 1035,
+  FILELINKTOS: 1036,
+  FILEFLAGS: 1037,
+  FILEUSERNAME: 1039,
+  FILEGROUPNAME: 1040,
+  SOURCERPM: 1044,
+  PROVIDENAME: 1047,
+  REQUIREFLAGS: 1048,
+  REQUIRENAME: 1049,
+  REQUIREVERSION: 1050,
+  FILEDEVICES: 1095,
+  FILEINODES: 1096,
+  FILELANGS: 1097,
+  PROVIDEFLAGS: 1112,
+  PROVIDEVERSION: 1113,
+  DIRINDEXES: 1116,
+  BASENAMES: 1117,
+  DIRNAMES: 1118,
+  PAYLOADFORMAT: 1124,
+  PAYLOADCOMPRESSOR: 1125,
+  PAYLOADFLAGS: 1126,
+  FILEDIGESTALGO: 5011,
+};
+
+const RPMSENSE_LESS = 1 << 1;
+const RPMSENSE_EQUAL = 1 << 3;
+const RPMSENSE_RPMLIB = 1 << 24;
+const PGPHASHALGO_SHA256 = 8;
+
+const HEADER_MAGIC = Buffer.from([0x8e, 0xad, 0xe8, 0x01, 0x00, 0x00, 0x00, 0x00]);
+
+interface HeaderTag {
+  tag: number;
+  type: number;
+  value: number[] | string | string[] | Buffer;
+}
+
+function encodeTag(tag: HeaderTag): { data: Buffer; count: number; align: number } {
+  const { type, value } = tag;
+  if (type === RPM_INT16 || type === RPM_INT32) {
+    const numbers = value as number[];
+    const size = type === RPM_INT16 ? 2 : 4;
+    const data = Buffer.alloc(numbers.length * size);
+    numbers.forEach((n, i) => (size === 2 ? data.writeUInt16BE(n, i * 2) : data.writeUInt32BE(n >>> 0, i * 4)));
+    return { data, count: numbers.length, align: size };
+  }
+  if (type === RPM_STRING || type === RPM_I18NSTRING) {
+    return { data: Buffer.from(`${value as string}\0`, "utf-8"), count: 1, align: 1 };
+  }
+  if (type === RPM_STRING_ARRAY) {
+    const strings = value as string[];
+    return { data: Buffer.from(strings.map((s) => `${s}\0`).join(""), "utf-8"), count: strings.length, align: 1 };
+  }
+  const data = value as Buffer;
+  return { data, count: data.length, align: 1 };
+}
+
+/**
+ * 生成带 region 标签的 header（HEADERIMMUTABLE / HEADERSIGNATURES）
+ */
+function createHeader(tags: HeaderTag[], regionTag: number): Buffer {
+  const sorted = [...tags].sort((a, b) => a.tag - b.tag);
+  const indexCount = sorted.length + 1;
+  const index = Buffer.alloc(indexCount * 16);
+  const store: Buffer[] = [];
+  let storeLength = 0;
+
+  sorted.forEach((tag, i) => {
+    const { data, count, align } = encodeTag(tag);
+    const padding = (align - (storeLength % align)) % align;
+    if (padding) {
+      store.push(Buffer.alloc(padding));
+      storeLength += padding;
+    }
+    const entry = (i + 1) * 16;
+    index.writeUInt32BE(tag.tag, entry);
+    index.writeUInt32BE(tag.type, entry + 4);
+    index.writeUInt32BE(storeLength, entry + 8);
+    index.writeUInt32BE(count, entry + 12);
+    store.push(data);
+    storeLength += data.length;
+  });
+
+  // region 尾部：一个指向整个索引的 index entry（偏移为负的索引长度）
+  const trailer = Buffer.alloc(16);
+  trailer.writeUInt32BE(regionTag, 0);
+  trailer.writeUInt32BE(RPM_BIN, 4);
+  trailer.writeInt32BE(-indexCount * 16, 8);
+  trailer.writeUInt32BE(16, 12);
+  index.writeUInt32BE(regionTag, 0);
+  index.writeUInt32BE(RPM_BIN, 4);
+  index.writeUInt32BE(storeLength, 8);
+  index.writeUInt32BE(16, 12);
+  store.push(trailer);
+  storeLength += trailer.length;
+
+  const counts = Buffer.alloc(8);
+  counts.writeUInt32BE(indexCount, 0);
+  counts.writeUInt32BE(storeLength, 4);
+  return Buffer.concat([HEADER_MAGIC, counts, index, ...store]);
+}
+
+function createLead(name: string): Buffer {
+  const lead = Buffer.alloc(96);
+  lead.writeUInt32BE(0xedabeedb, 0);
+  lead.writeUInt8(3, 4);
+  lead.writeUInt8(0, 5);
+  lead.writeUInt16BE(0, 6); // binary package
+  lead.writeUInt16BE(1, 8); // archnum (i386/x86_64)
+  Buffer.from(name, "utf-8").subarray(0, 65).copy(lead, 10);
+  lead.writeUInt16BE(1, 76); // osnum (Linux)
+  lead.writeUInt16BE(5, 78); // RPMSIGTYPE_HEADERSIG
+  return lead;
+}
+
+/**
+ * cpio newc 格式负载（路径带 "./" 前缀，对应 rpmlib(PayloadFilesHavePrefix)）
+ */
+function createCpioArchive(entries: PackageEntry[], mtime: number): Buffer {
+  const chunks: Buffer[] = [];
+  const pad4 = (length: number) => {
+    const padding = (4 - (length % 4)) % 4;
+    if (padding) chunks.push(Buffer.alloc(padding));
+  };
+  const hex = (value: number) => (value >>> 0).toString(16).padStart(8, "0");
+
+  const writeEntry = (name: string, ino: number, mode: number, nlink: number, data: Buffer) => {
+    const nameBytes = Buffer.from(`${name}\0`, "utf-8");
+    const fields = [ino, mode, 0, 0, nlink, mtime, data.length, 0, 0, 0, 0, nameBytes.length, 0];
+    const header = Buffer.from("070701" + fields.map(hex).join(""), "latin1");
+    chunks.push(header, nameBytes);
+    pad4(header.length + nameBytes.length);
+    if (data.length) {
+      chunks.push(data);
+      pad4(data.length);
+    }
+  };
+
+  entries.forEach((entry, i) => {
+    const data =
+      entry.type === "file" ? entry.data : entry.type === "symlink" ? Buffer.from(entry.target, "utf-8") : Buffer.alloc(0);
+    writeEntry(`./${entry.path}`, i + 1, getEntryMode(entry), entry.type === "dir" ? 2 : 1, data);
+  });
+  writeEntry("TRAILER!!!", 0, 0, 1, Buffer.alloc(0));
+
+  return Buffer.concat(chunks);
+}
+
+export function createRpmPackage(metadata: RpmMetadata, files: PackageEntry[], mtime: number): Buffer {
+  const entries = sortEntries(files);
+  const evr = `${metadata.version}-${metadata.release}`;
+  const nevr = `${metadata.name}-${evr}`;
+
+  // 文件列表按目录 + 文件名压缩存储（rpmlib(CompressedFileNames)）
+  const dirNames: string[] = [];
+  const dirIndexes: number[] = [];
+  const baseNames: string[] = [];
+  for (const entry of entries) {
+    const slash = entry.path.lastIndexOf("/");
+    const dirName = `/${entry.path.slice(0, slash + 1)}`;
+    let dirIndex = dirNames.indexOf(dirName);
+    if (dirIndex === -1) {
+      dirIndex = dirNames.push(dirName) - 1;
+    }
+    dirIndexes.push(dirIndex);
+    baseNames.push(entry.path.slice(slash + 1));
+  }
+
+  const fileSizes = entries.map((entry) => (entry.type === "dir" ? 4096 : getEntrySize(entry)));
+  const requires: Array<[string, number, string]> = [
+    ["rpmlib(CompressedFileNames)", RPMSENSE_RPMLIB | RPMSENSE_LESS | RPMSENSE_EQUAL, "3.0.4-1"],
+    ["rpmlib(FileDigests)", RPMSENSE_RPMLIB | RPMSENSE_LESS | RPMSENSE_EQUAL, "4.6.0-1"],
+    ["rpmlib(PayloadFilesHavePrefix)", RPMSENSE_RPMLIB | RPMSENSE_LESS | RPMSENSE_EQUAL, "4.0-1"],
+    ...(metadata.requires.some((name) => name.startsWith("("))
+      ? [["rpmlib(RichDependencies)", RPMSENSE_RPMLIB | RPMSENSE_LESS | RPMSENSE_EQUAL, "4.12.0-1"] as [string, number, string]]
+      : []),
+    ...metadata.requires.map((name) => [name, 0, ""] as [string, number, string]),
+  ];
+  const archProvide = `${metadata.name}(${metadata.arch === "x86_64" ? "x86-64" : metadata.arch})`;
+
+  const tags: HeaderTag[] = [
+    { tag: RPMTAG_HEADERI18NTABLE, type: RPM_STRING_ARRAY, value: ["C"] },
+    { tag: RPMTAG.NAME, type: RPM_STRING, value: metadata.name },
+    { tag: RPMTAG.VERSION, type: RPM_STRING, value: metadata.version },
+    { tag: RPMTAG.RELEASE, type: RPM_STRING, value: metadata.release },
+    { tag: RPMTAG.SUMMARY, type: RPM_I18NSTRING, value: metadata.summary },
+    { tag: RPMTAG.DESCRIPTION, type: RPM_I18NSTRING, value: metadata.description },
+    { tag: RPMTAG.BUILDTIME, type: RPM_INT32, value: [mtime] },
+    { tag: RPMTAG.BUILDHOST, type: RPM_STRING, value: "localhost" },
+    { tag: RPMTAG.SIZE, type: RPM_INT32, value: [fileSizes.reduce((sum, size) => sum + size, 0)] },
+    { tag: RPMTAG.LICENSE, type: RPM_STRING, value: metadata.license },
+    { tag: RPMTAG.GROUP, type: RPM_I18NSTRING, value: metadata.group },
+    { tag: RPMTAG.URL, type: RPM_STRING, value: metadata.url },
+    { tag: RPMTAG.OS, type: RPM_STRING, value: "linux" },
+    { tag: RPMTAG.ARCH, type: RPM_STRING, value: metadata.arch },
+    { tag: RPMTAG.FILESIZES, type: RPM_INT32, value: fileSizes },
+    { tag: RPMTAG.FILEMODES, type: RPM_INT16, value: entries.map(getEntryMode) },
+    { tag: RPMTAG.FILERDEVS, type: RPM_INT16, value: entries.map(() => 0) },
+    { tag: RPMTAG.FILEMTIMES, type: RPM_INT32, value: entries.map(() => mtime) },
+    {
+      tag: RPMTAG.FILEDIGESTS,
+      type: RPM_STRING_ARRAY,
+      value: entries.map((entry) =>
+        entry.type === "file" ? crypto.createHash("sha256").update(entry.data).digest("hex") : ""
+      ),
+    },
+    {
+      tag: RPMTAG.FILELINKTOS,
+      type: RPM_STRING_ARRAY,
+      value: entries.map((entry) => (entry.type === "symlink" ? entry.target : "")),
+    },
+    { tag: RPMTAG.FILEFLAGS, type: RPM_INT32, value: entries.map(() => 0) },
+    { tag: RPMTAG.FILEUSERNAME, type: RPM_STRING_ARRAY, value: entries.map(() => "root") },
+    { tag: RPMTAG.FILEGROUPNAME, type: RPM_STRING_ARRAY, value: entries.map(() => "root") },
+    // 存在 SOURCERPM 标签的才会被识别为二进制包
+    { tag: RPMTAG.SOURCERPM, type: RPM_STRING, value: `${nevr}.src.rpm` },
+    { tag: RPMTAG.PROVIDENAME, type: RPM_STRING_ARRAY, value: [metadata.name, archProvide] },
+    { tag: RPMTAG.PROVIDEFLAGS, type: RPM_INT32, value: [RPMSENSE_EQUAL, RPMSENSE_EQUAL] },
+    { tag: RPMTAG.PROVIDEVERSION, type: RPM_STRING_ARRAY, value: [evr, evr] },
+    { tag: RPMTAG.REQUIRENAME, type: RPM_STRING_ARRAY, value: requires.map(([name]) => name) },
+    { tag: RPMTAG.REQUIREFLAGS, type: RPM_INT32, value: requires.map(([, flags]) => flags) },
+    { tag: RPMTAG.REQUIREVERSION, type: RPM_STRING_ARRAY, value: requires.map(([, , version]) => version) },
+    { tag: RPMTAG.FILEDEVICES, type: RPM_INT32, value: entries.map(() => 1) },
+    { tag: RPMTAG.FILEINODES, type: RPM_INT32, value: entries.map((_, i) => i + 1) },
+    { tag: RPMTAG.FILELANGS, type: RPM_STRING_ARRAY, value: entries.map(() => "") },
+    { tag: RPMTAG.DIRINDEXES, type: RPM_INT32, value: dirIndexes },
+    { tag: RPMTAG.BASENAMES, type: RPM_STRING_ARRAY, value: baseNames },
+    { tag: RPMTAG.DIRNAMES, type: RPM_STRING_ARRAY, value: dirNames },
+    { tag: RPMTAG.PAYLOADFORMAT, type: RPM_STRING, value: "cpio" },
+    { tag: RPMTAG.PAYLOADCOMPRESSOR, type: RPM_STRING, value: "gzip" },
+    { tag: RPMTAG.PAYLOADFLAGS, type: RPM_STRING, value: "9" },
+    { tag: RPMTAG.FILEDIGESTALGO, type: RPM_INT32, value: [PGPHASHALGO_SHA256] },
+  ];
+
+  const header = createHeader(tags, RPMTAG_HEADERIMMUTABLE);
+  const cpio = createCpioArchive(entries, mtime);
+  const payload = zlib.gzipSync(cpio, { level: 9 });
+
+  const signature = createHeader(
+    [
+      { tag: RPMSIGTAG_SHA1, type: RPM_STRING, value: crypto.createHash("sha1").update(header).digest("hex") },
+      { tag: RPMSIGTAG_SHA256, type: RPM_STRING, value: crypto.createHash("sha256").update(header).digest("hex") },
+      { tag: RPMSIGTAG_SIZE, type: RPM_INT32, value: [header.length + payload.length] },
+      {
+        tag: RPMSIGTAG_MD5,
+        type: RPM_BIN,
+        value: crypto.createHash("md5").update(header).update(payload).digest(),
+      },
+      { tag: RPMSIGTAG_PAYLOADSIZE, type: RPM_INT32, value: [cpio.length] },
+    ],
+    RPMTAG_HEADERSIGNATURES
+  );
+  // 签名头后按 8 字节对齐
+  const signaturePadding = Buffer.alloc((8 - (signature.length % 8)) % 8);
+
+  return Buffer.concat([createLead(nevr), signature, signaturePadding, header, payload]);
+}
@@ -0,0 +1,305 @@
+/**
+ * squashfs 4.0 镜像（AppImage 的文件系统部分）
+ *
+ * 只实现 AppImage 需要的子集：
+ * - 普通文件 / 目录 / 符号链接（basic inode），属主 root
+ * - gzip（zlib）压缩，压缩后不变小的块按未压缩存储
+ * - 不使用 fragment、xattr 和 export 表
+ * 布局：superblock → 数据块 → inode 表 → 目录表 → id 表
+ */
+
+import * as zlib from "zlib";
+import type { PackageEntry } from "./types";
+
+const SQUASHFS_MAGIC = 0x73717368;
+const BLOCK_SIZE = 128 * 1024;
+const BLOCK_LOG = 17;
+const METADATA_SIZE = 8192;
+const SUPERBLOCK_SIZE = 96;
+const COMPRESSION_GZIP = 1;
+const FLAG_NO_FRAGMENTS = 0x0010;
+const FLAG_NO_XATTRS = 0x0200;
+const INVALID_OFFSET = BigInt("0xffffffffffffffff");
+
+const DIR_TYPE = 1;
+const FILE_TYPE = 2;
+const SYMLINK_TYPE = 3;
+
+interface MetadataPosition {
+  // 所在元数据块相对表起点的偏移
+  block: number;
+  // 块内（解压后）的偏移
+  offset: number;
+}
+
+interface TreeNode {
+  name: string;
+  entry: PackageEntry;
+  children: Map<string, TreeNode>;
+  inodeNumber: number;
+  inodeRef?: MetadataPosition;
+  blocksStart?: number;
+  blockSizes?: number[];
+}
+
+/**
+ * 元数据表（inode 表 / 目录表 / id 表）按 8KB 分块压缩
+ */
+class MetadataWriter {
+  private blocks: Buffer[] = [];
+  private written = 0;
+  private pending: Buffer[] = [];
+  private pendingLength = 0;
+
+  position(): MetadataPosition {
+    return { block: this.written, offset: this.pendingLength };
+  }
+
+  write(data: Buffer): void {
+    this.pending.push(data);
+    this.pendingLength += data.length;
+    while (this.pendingLength >= METADATA_SIZE) {
+      const all = Buffer.concat(this.pending);
+      this.flushBlock(all.subarray(0, METADATA_SIZE));
+      const rest = all.subarray(METADATA_SIZE);
+      this.pending = [rest];
+      this.pendingLength = rest.length;
+    }
+  }
+
+  finish(): Buffer {
+    if (this.pendingLength > 0) {
+      this.flushBlock(Buffer.concat(this.pending));
+      this.pending = [];
+      this.pendingLength = 0;
+    }
+    return Buffer.concat(this.blocks);
+  }
+
+  private flushBlock(data: Buffer): void {
+    const compressed = zlib.deflateSync(data, { level: 9 });
+    const useCompressed = compressed.length < data.length;
+    const payload = useCompressed ? compressed : data;
+    const header = Buffer.alloc(2);
+    // 最高位表示未压缩
+    header.writeUInt16LE(payload.length | (useCompressed ? 0 : 0x8000));
+    this.blocks.push(header, payload);
+    this.written += header.length + payload.length;
+  }
+}
+
+function buildTree(entries: PackageEntry[]): TreeNode {
+  const root: TreeNode = {
+    name: "",
+    entry: { type: "dir", path: "", mode: 0o755 },
+    children: new Map(),
+    inodeNumber: 0,
+  };
+
+  for (const entry of entries) {
+    const parts = entry.path.split("/");
+    let node = root;
+    parts.forEach((part, i) => {
+      const isLeaf = i === parts.length - 1;
+      let child = node.children.get(part);
+      if (!child) {
+        child = {
+          name: part,
+          entry: isLeaf ? entry : { type: "dir", path: parts.slice(0, i + 1).join("/"), mode: 0o755 },
+          children: new Map(),
+          inodeNumber: 0,
+        };
+        node.children.set(part, child);
+      } else if (isLeaf) {
+        child.entry = entry;
+      }
+      node = child;
+    });
+  }
+
+  return root;
+}
+
+function sortedChildren(node: TreeNode): TreeNode[] {
+  return [...node.children.values()].sort((a, b) => Buffer.compare(Buffer.from(a.name), Buffer.from(b.name)));
+}
+
+function getInodeType(node: TreeNode): number {
+  return node.entry.type === "dir" ? DIR_TYPE : node.entry.type === "file" ? FILE_TYPE : SYMLINK_TYPE;
+}
+
+function createInodeHeader(node: TreeNode, mtime: number): Buffer {
+  const header = Buffer.alloc(16);
+  header.writeUInt16LE(getInodeType(node), 0);
+  header.writeUInt16LE(node.entry.type === "symlink" ? 0o777 : node.entry.mode, 2);
+  header.writeUInt16LE(0, 4); // uid 在 id 表中的下标
+  header.writeUInt16LE(0, 6); // gid 在 id 表中的下标
+  header.writeUInt32LE(mtime, 8);
+  header.writeUInt32LE(node.inodeNumber, 12);
+  return header;
+}
+
+/**
+ * 目录项按 inode 所在元数据块分组，每组最多 256 项
+ */
+function createDirectoryListing(children: TreeNode[]): Buffer {
+  const chunks: Buffer[] = [];
+  let i = 0;
+  while (i < children.length) {
+    const first = children[i];
+    const group: TreeNode[] = [];
+    while (
+      i < children.length &&
+      group.length < 256 &&
+      children[i].inodeRef!.block === first.inodeRef!.block &&
+      Math.abs(children[i].inodeNumber - first.inodeNumber) <= 32767
+    ) {
+      group.push(children[i]);
+      i++;
+    }
+
+    const header = Buffer.alloc(12);
+    header.writeUInt32LE(group.length - 1, 0);
+    header.writeUInt32LE(first.inodeRef!.block, 4);
+    header.writeUInt32LE(first.inodeNumber, 8);
+    chunks.push(header);
+
+    for (const child of group) {
+      const name = Buffer.from(child.name, "utf-8");
+      const entry = Buffer.alloc(8);
+      entry.writeUInt16LE(child.inodeRef!.offset, 0);
+      entry.writeInt16LE(child.inodeNumber - first.inodeNumber, 2);
+      entry.writeUInt16LE(getInodeType(child), 4);
+      entry.writeUInt16LE(name.length - 1, 6);
+      chunks.push(entry, name);
+    }
+  }
+  return Buffer.concat(chunks);
+}
+
+export function createSquashfsImage(entries: PackageEntry[], mtime: number): Buffer {
+  const root = buildTree(entries);
+
+  // 1. 后序分配 inode 编号（子节点先于父目录），根目录编号最大
+  let inodeCount = 0;
+  const assignNumbers = (node: TreeNode) => {
+    sortedChildren(node).forEach(assignNumbers);
+    node.inodeNumber = ++inodeCount;
+  };
+  assignNumbers(root);
+
+  // 2. 写入文件数据块
+  const dataChunks: Buffer[] = [];
+  let dataOffset = SUPERBLOCK_SIZE;
+  const writeData = (node: TreeNode) => {
+    if (node.entry.type === "file") {
+      const data = node.entry.data;
+      node.blocksStart = dataOffset;
+      node.blockSizes = [];
+      for (let start = 0; start < data.length; start += BLOCK_SIZE) {
+        const block = data.subarray(start, start + BLOCK_SIZE);
+        const compressed = zlib.deflateSync(block, { level: 9 });
+        const useCompressed = compressed.length < block.length;
+        const payload = useCompressed ? compressed : block;
+        // 第 24 位表示未压缩
+        node.blockSizes.push(payload.length | (useCompressed ? 0 : 1 << 24));
+        dataChunks.push(payload);
+        dataOffset += payload.length;
+      }
+    }
+    sortedChildren(node).forEach(writeData);
+  };
+  writeData(root);
+
+  // 3. 后序写入目录表和 inode 表（目录 inode 需要子节点的 inode 位置）
+  const inodeTable = new MetadataWriter();
+  const directoryTable = new MetadataWriter();
+
+  const writeInode = (node: TreeNode, parentInodeNumber: number) => {
+    const entry = node.entry;
+
+    if (entry.type === "dir") {
+      const children = sortedChildren(node);
+      children.forEach((child) => writeInode(child, node.inodeNumber));
+
+      const listingPosition = directoryTable.position();
+      const listing = createDirectoryListing(children);
+      if (listing.length + 3 > 0xffff) {
+        throw new Error(`Directory too large for squashfs basic inode: ${entry.path || "/"}`);
+      }
+      directoryTable.write(listing);
+
+      const body = Buffer.alloc(16);
+      body.writeUInt32LE(listingPosition.block, 0);
+      body.writeUInt32LE(2 + children.filter((child) => child.entry.type === "dir").length, 4);
+      body.writeUInt16LE(listing.length + 3, 8);
+      body.writeUInt16LE(listingPosition.offset, 10);
+      body.writeUInt32LE(parentInodeNumber, 12);
+
+      node.inodeRef = inodeTable.position();
+      inodeTable.write(Buffer.concat([createInodeHeader(node, mtime), body]));
+    } else if (entry.type === "file") {
+      const blockSizes = node.blockSizes || [];
+      const body = Buffer.alloc(16 + blockSizes.length * 4);
+      body.writeUInt32LE(node.blocksStart || 0, 0);
+      body.writeUInt32LE(0xffffffff, 4); // 不使用 fragment
+      body.writeUInt32LE(0, 8);
+      body.writeUInt32LE(entry.data.length, 12);
+      blockSizes.forEach((size, i) => body.writeUInt32LE(size >>> 0, 16 + i * 4));
+
+      node.inodeRef = inodeTable.position();
+      inodeTable.write(Buffer.concat([createInodeHeader(node, mtime), body]));
+    } else {
+      const target = Buffer.from(entry.target, "utf-8");
+      const body = Buffer.alloc(8);
+      body.writeUInt32LE(1, 0);
+      body.writeUInt32LE(target.length, 4);
+
+      node.inodeRef = inodeTable.position();
+      inodeTable.write(Buffer.concat([createInodeHeader(node, mtime), body, target]));
+    }
+  };
+  writeInode(root, inodeCount + 1);
+
+  const inodeTableData = inodeTable.finish();
+  const directoryTableData = directoryTable.finish();
+
+  // 4. id 表：只有 root（0）
+  const idTable = new MetadataWriter();
+  idTable.write(Buffer.alloc(4));
+  const idTableData = idTable.finish();
+
+  const inodeTableStart = dataOffset;
+  const directoryTableStart = inodeTableStart + inodeTableData.length;
+  const idBlockStart = directoryTableStart + directoryTableData.length;
+  const idTableStart = idBlockStart + idTableData.length;
+  const idTableIndex = Buffer.alloc(8);
+  idTableIndex.writeBigUInt64LE(BigInt(idBlockStart));
+  const bytesUsed = idTableStart + idTableIndex.length;
+
+  const superblock = Buffer.alloc(SUPERBLOCK_SIZE);
+  superblock.writeUInt32LE(SQUASHFS_MAGIC, 0);
+  superblock.writeUInt32LE(inodeCount, 4);
+  superblock.writeUInt32LE(mtime, 8);
+  superblock.writeUInt32LE(BLOCK_SIZE, 12);
+  superblock.writeUInt32LE(0, 16); // fragment 数量
+  superblock.writeUInt16LE(COMPRESSION_GZIP, 20);
+  superblock.writeUInt16LE(BLOCK_LOG, 22);
+  superblock.writeUInt16LE(FLAG_NO_FRAGMENTS | FLAG_NO_XATTRS, 24);
+  superblock.writeUInt16LE(1, 26); // id 数量
+  superblock.writeUInt16LE(4, 28);
+  superblock.writeUInt16LE(0, 30);
+  superblock.writeBigUInt64LE((BigInt(root.inodeRef!.block) << BigInt(16)) | BigInt(root.inodeRef!.offset), 32);
+  superblock.writeBigUInt64LE(BigInt(bytesUsed), 40);
+  superblock.writeBigUInt64LE(BigInt(idTableStart), 48);
+  superblock.writeBigUInt64LE(INVALID_OFFSET, 56); // xattr 表
+  superblock.writeBigUInt64LE(BigInt(inodeTableStart), 64);
+  superblock.writeBigUInt64LE(BigInt(directoryTableStart), 72);
+  superblock.writeBigUInt64LE(BigInt(idBlockStart), 80); // fragment 表（空）
+  superblock.writeBigUInt64LE(INVALID_OFFSET, 88); // export 表
+
+  const image = Buffer.concat([superblock, ...dataChunks, inodeTableData, directoryTableData, idTableData, idTableIndex]);
+  // 镜像按 4KB 对齐（bytes_used 不含填充）
+  const padding = (4096 - (image.length % 4096)) % 4096;
+  return padding ? Buffer.concat([image, Buffer.alloc(padding)]) : image;
+}
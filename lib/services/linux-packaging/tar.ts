@@ -0,0 +1,89 @@
+/**
+ * ustar 归档（deb 的 control.tar / data.tar）
+ * 所有条目属主固定为 root:root，权限由调用方指定
+ */
+
+import type { PackageEntry } from "./types";
+
+const BLOCK = 512;
+
+function writeString(header: Buffer, value: string, offset: number, length: number) {
+  const bytes = Buffer.from(value, "utf-8");
+  if (bytes.length > length) {
+    throw new Error(`tar header field too long: ${value}`);
+  }
+  bytes.copy(header, offset);
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+  writeString(header, value.toString(8).padStart(length - 1, "0"), offset, length - 1);
+}
+
+/**
+ * 超过 100 字节的路径拆分到 prefix 字段（最长 155 字节）
+ */
+function splitName(name: string): { name: string; prefix: string } {
+  if (Buffer.byteLength(name) <= 100) return { name, prefix: "" };
+  for (let i = name.indexOf("/"); i !== -1; i = name.indexOf("/", i + 1)) {
+    const prefix = name.slice(0, i);
+    const rest = name.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(rest) <= 100) {
+      return { name: rest, prefix };
+    }
+  }
+  throw new Error(`Path too long for tar archive: ${name}`);
+}
+
+function createHeader(entry: PackageEntry, name: string, mtime: number): Buffer {
+  const header = Buffer.alloc(BLOCK);
+  const split = splitName(name);
+  const size = entry.type === "file" ? entry.data.length : 0;
+
+  writeString(header, split.name, 0, 100);
+  writeOctal(header, entry.type === "symlink" ? 0o777 : entry.mode, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  header.fill(" ", 148, 156);
+  header.write(entry.type === "dir" ? "5" : entry.type === "symlink" ? "2" : "0", 156, "latin1");
+  if (entry.type === "symlink") {
+    writeString(header, entry.target, 157, 100);
+  }
+  header.write("ustar\0", 257, "latin1");
+  header.write("00", 263, "latin1");
+  writeString(header, "root", 265, 32);
+  writeString(header, "root", 297, 32);
+  writeString(header, split.prefix, 345, 155);
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  header.write(checksum.toString(8).padStart(6, "0") + "\0 ", 148, "latin1");
+  return header;
+}
+
+/**
+ * @param rootPrefix 条目路径前缀（deb 约定使用 "./"）
+ */
+export function createTarArchive(entries: PackageEntry[], options: { mtime: number; rootPrefix?: string }): Buffer {
+  const rootPrefix = options.rootPrefix ?? "";
+  const chunks: Buffer[] = [];
+
+  if (rootPrefix) {
+    chunks.push(createHeader({ type: "dir", path: "", mode: 0o755 }, rootPrefix, options.mtime));
+  }
+
+  for (const entry of entries) {
+    const name = rootPrefix + entry.path + (entry.type === "dir" ? "/" : "");
+    chunks.push(createHeader(entry, name, options.mtime));
+    if (entry.type === "file" && entry.data.length > 0) {
+      chunks.push(entry.data);
+      const padding = (BLOCK - (entry.data.length % BLOCK)) % BLOCK;
+      if (padding) chunks.push(Buffer.alloc(padding));
+    }
+  }
+
+  // 两个空块表示归档结束
+  chunks.push(Buffer.alloc(BLOCK * 2));
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,51 @@
+/**
+ * Linux 安装包文件树
+ * deb / rpm / AppImage 共用同一份内存中的文件列表，路径为相对根目录的路径（不带前导 / 或 ./）
+ */
+
+export type PackageEntry =
+  | { type: "dir"; path: string; mode: number }
+  | { type: "file"; path: string; mode: number; data: Buffer }
+  | { type: "symlink"; path: string; target: string };
+
+// 文件类型位（与 stat.st_mode 一致）
+export const S_IFDIR = 0o040000;
+export const S_IFREG = 0o100000;
+export const S_IFLNK = 0o120000;
+
+export function getEntryMode(entry: PackageEntry): number {
+  if (entry.type === "dir") return S_IFDIR | entry.mode;
+  if (entry.type === "file") return S_IFREG | entry.mode;
+  return S_IFLNK | 0o777;
+}
+
+export function getEntrySize(entry: PackageEntry): number {
+  if (entry.type === "file") return entry.data.length;
+  if (entry.type === "symlink") return Buffer.byteLength(entry.target);
+  return 0;
+}
+
+/**
+ * 按路径字节序排序（rpm 文件列表和 cpio 负载要求同序）
+ */
+export function sortEntries(entries: PackageEntry[]): PackageEntry[] {
+  return [...entries].sort((a, b) => Buffer.compare(Buffer.from(a.path), Buffer.from(b.path)));
+}
+
+/**
+ * 补齐所有父目录（deb 的 data.tar 需要显式的目录条目）
+ */
+export function withParentDirectories(entries: PackageEntry[]): PackageEntry[] {
+  const result = new Map<string, PackageEntry>();
+  for (const entry of entries) {
+    const parts = entry.path.split("/");
+    for (let i = 1; i < parts.length; i++) {
+      const dirPath = parts.slice(0, i).join("/");
+      if (!result.has(dirPath)) {
+        result.set(dirPath, { type: "dir", path: dirPath, mode: 0o755 });
+      }
+    }
+    result.set(entry.path, entry);
+  }
+  return sortEntries([...result.values()]);
+}
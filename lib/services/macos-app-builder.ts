@@ -5,11 +5,23 @@ import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import { PassThrough } from "stream";
+import { isBuildCancelledError, updateBuildProgress } from "@/lib/services/build-cancellation";
+import { createMacOSDmg, writeAppIcns, type MacOSPackageResult } from "@/lib/services/macos-packaging";
+import { DEFAULT_MACOS_PACKAGE_FORMAT, type MacOSPackageFormat } from "@/lib/config/macos-packaging";
+import { createDesktopAppConfig, type DesktopShellConfig } from "@/lib/config/desktop-shell";
+import type { IconStyleConfig } from "@/lib/config/icon-style";
+import { applyIconStyle } from "@/lib/services/icon-style";
 
 interface MacOSBuildConfig {
   url: string;
   appName: string;
   iconPath: string | null;
+  iconStyle?: IconStyleConfig | null;
+  packageFormat?: MacOSPackageFormat;
+  // 窗口、托盘、单实例、外链策略等运行时配置
+  desktopConfig?: DesktopShellConfig | null;
+  // DMG 是否生成品牌背景图
+  dmgBackground?: boolean;
 }
 
 /**
@@ -18,8 +30,8 @@ interface MacOSBuildConfig {
  * 由于 macOS 应用必须在 macOS 环境编译，此服务采用以下策略：
  * 1. 从 Supabase Storage 下载预构建的 .app 模板（ZIP 格式）
  * 2. 解压并修改配置文件（app-config.json）
- * 3. 替换图标（如果提供）
- * 4. 重新打包并上传
+ * 3. 替换图标（如果提供，生成 ICNS）
+ * 4. 按选择的格式打包（ZIP / DMG）并上传
  *
  * 预构建模板需要通过 GitHub Actions 在 macOS runner 上编译
  */
@@ -32,6 +44,7 @@ export async function processMacOSAppBuild(
   let tempDir: string | null = null;
   let userId: string | null = null;
   const buildStartTime = Date.now();
+  const packageFormat = config.packageFormat || DEFAULT_MACOS_PACKAGE_FORMAT;
 
   try {
     // 获取构建记录以获取 user_id
@@ -81,10 +94,7 @@ export async function processMacOSAppBuild(
     const resourcesDir = path.join(appDir, "Contents", "Resources");
     fs.mkdirSync(resourcesDir, { recursive: true });
 
-    const appConfig = {
-      url: config.url,
-      title: config.appName,
-    };
+    const appConfig = createDesktopAppConfig(config.url, config.appName, config.desktopConfig);
     const configPath = path.join(resourcesDir, "app-config.json");
     fs.writeFileSync(configPath, JSON.stringify(appConfig, null, 2), "utf-8");
 
@@ -95,9 +105,10 @@ export async function processMacOSAppBuild(
     await updateInfoPlist(appDir, config.appName);
 
     // Step 7: 替换图标（如果提供）
+    let iconBuffer: Buffer | null = null;
     if (config.iconPath) {
       console.log("[macOS Build] Replacing icon...");
-      await replaceAppIcon(supabase, appDir, config.iconPath);
+      iconBuffer = await replaceAppIcon(supabase, appDir, config.iconPath, config.iconStyle);
     }
 
     await updateBuildStatus(supabase, buildId, "processing", progressHelper.getProgressForStage("processing_icons"));
@@ -109,56 +120,35 @@ export async function processMacOSAppBuild(
       fs.renameSync(appDir, newAppDir);
     }
 
-    // Step 9: 打包为 ZIP（使用 archiver 正确设置 Unix 可执行权限）
-    console.log("[macOS Build] Creating ZIP archive with archiver...");
-    const archiver = (await import("archiver")).default;
-
-    const outputBuffer = await new Promise<Buffer>((resolve, reject) => {
-      const chunks: Buffer[] = [];
-      const passThrough = new PassThrough();
-
-      passThrough.on("data", (chunk: Buffer) => chunks.push(chunk));
-      passThrough.on("end", () => resolve(Buffer.concat(chunks)));
-      passThrough.on("error", reject);
-
-      const archive = archiver("zip", { zlib: { level: 9 } });
-      archive.on("error", reject);
-      archive.pipe(passThrough);
-
-      // 递归添加文件并设置正确的 Unix 权限
-      const addFolderToArchive = (folderPath: string, zipPath: string) => {
-        const entries = fs.readdirSync(folderPath, { withFileTypes: true });
-        for (const entry of entries) {
-          const fullPath = path.join(folderPath, entry.name);
-          const entryZipPath = zipPath ? `${zipPath}/${entry.name}` : entry.name;
-
-          if (entry.isDirectory()) {
-            addFolderToArchive(fullPath, entryZipPath);
-          } else {
-            const fileData = fs.readFileSync(fullPath);
-            // 检查是否是 MacOS 目录下的可执行文件
-            const isMacOSExecutable = entryZipPath.includes("/Contents/MacOS/");
-            // Unix 权限: 0o755 (rwxr-xr-x) 用于可执行文件, 0o644 (rw-r--r--) 用于普通文件
-            const mode = isMacOSExecutable ? 0o755 : 0o644;
-
-            archive.append(fileData, { name: entryZipPath, mode });
-          }
-        }
+    // Step 9: 按选择的格式打包
+    let packageResult: MacOSPackageResult;
+    if (packageFormat === "dmg") {
+      console.log("[macOS Build] Creating DMG image...");
+      packageResult = await createMacOSDmg({
+        appDir: newAppDir,
+        volumeName: safeAppName,
+        background: config.dmgBackground,
+        iconBuffer,
+      });
+    } else {
+      console.log("[macOS Build] Creating ZIP archive with archiver...");
+      packageResult = {
+        buffer: await createZipArchive(newAppDir, `${safeAppName}.app`),
+        fileName: `${safeAppName}.app.zip`,
+        contentType: "application/zip",
       };
-
-      addFolderToArchive(newAppDir, `${safeAppName}.app`);
-      archive.finalize();
-    });
+    }
+    const outputBuffer = packageResult.buffer;
 
     await updateBuildStatus(supabase, buildId, "processing", progressHelper.getProgressForStage("packaging"));
 
     // Step 10: 上传结果
     console.log("[macOS Build] Uploading result...");
-    const outputPath = `builds/${buildId}/${safeAppName}.app.zip`;
+    const outputPath = `builds/${buildId}/${packageResult.fileName}`;
     const { error: uploadError } = await supabase.storage
       .from("user-builds")
       .upload(outputPath, outputBuffer, {
-        contentType: "application/zip",
+        contentType: packageResult.contentType,
         upsert: true,
       });
 
@@ -177,7 +167,8 @@ export async function processMacOSAppBuild(
         output_file_path: outputPath,
         file_size: outputBuffer.length,
       })
-      .eq("id", buildId);
+      .eq("id", buildId)
+      .neq("status", "cancelled");
 
     if (updateError) {
       throw new Error(`Failed to update build record: ${updateError.message}`);
@@ -197,6 +188,10 @@ export async function processMacOSAppBuild(
       });
     }
   } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`[Build ${buildId}] Cancelled, stopping at stage boundary`);
+      return;
+    }
     console.error("[macOS Build] Error:", error);
 
     await supabase
@@ -205,7 +200,8 @@ export async function processMacOSAppBuild(
         status: "failed",
         error_message: error instanceof Error ? error.message : "Unknown error",
       })
-      .eq("id", buildId);
+      .eq("id", buildId)
+      .neq("status", "cancelled");
 
     // 记录构建失败事件
     if (userId) {
@@ -237,10 +233,52 @@ async function updateBuildStatus(
   status: string,
   progress: number
 ): Promise<void> {
-  await supabase
-    .from("builds")
-    .update({ status, progress })
-    .eq("id", buildId);
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgress(supabase, buildId, status, progress);
+}
+
+/**
+ * 打包为 ZIP（使用 archiver 正确设置 Unix 可执行权限）
+ */
+async function createZipArchive(appDir: string, rootName: string): Promise<Buffer> {
+  const archiver = (await import("archiver")).default;
+
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const passThrough = new PassThrough();
+
+    passThrough.on("data", (chunk: Buffer) => chunks.push(chunk));
+    passThrough.on("end", () => resolve(Buffer.concat(chunks)));
+    passThrough.on("error", reject);
+
+    const archive = archiver("zip", { zlib: { level: 9 } });
+    archive.on("error", reject);
+    archive.pipe(passThrough);
+
+    // 递归添加文件并设置正确的 Unix 权限
+    const addFolderToArchive = (folderPath: string, zipPath: string) => {
+      const entries = fs.readdirSync(folderPath, { withFileTypes: true });
+      for (const entry of entries) {
+        const fullPath = path.join(folderPath, entry.name);
+        const entryZipPath = zipPath ? `${zipPath}/${entry.name}` : entry.name;
+
+        if (entry.isDirectory()) {
+          addFolderToArchive(fullPath, entryZipPath);
+        } else {
+          const fileData = fs.readFileSync(fullPath);
+          // 检查是否是 MacOS 目录下的可执行文件
+          const isMacOSExecutable = entryZipPath.includes("/Contents/MacOS/");
+          // Unix 权限: 0o755 (rwxr-xr-x) 用于可执行文件, 0o644 (rw-r--r--) 用于普通文件
+          const mode = isMacOSExecutable ? 0o755 : 0o644;
+
+          archive.append(fileData, { name: entryZipPath, mode });
+        }
+      }
+    };
+
+    addFolderToArchive(appDir, rootName);
+    archive.finalize();
+  });
 }
 
 function findAppDirectory(baseDir: string): string | null {
@@ -307,8 +345,9 @@ function escapeXml(str: string): string {
 async function replaceAppIcon(
   supabase: ReturnType<typeof createServiceClient>,
   appDir: string,
-  iconPath: string
-): Promise<void> {
+  iconPath: string,
+  iconStyle?: IconStyleConfig | null
+): Promise<Buffer | null> {
   try {
     // 下载用户图标
     const { data: iconData, error: iconError } = await supabase.storage
@@ -317,113 +356,18 @@ async function replaceAppIcon(
 
     if (iconError || !iconData) {
       console.warn("[macOS Build] Failed to download icon:", iconError);
-      return;
+      return null;
     }
 
-    const iconBuffer = Buffer.from(await iconData.arrayBuffer());
-
-    // 生成 ICNS 文件
-    const icnsBuffer = await generateIcns(iconBuffer);
+    const iconBuffer = await applyIconStyle(Buffer.from(await iconData.arrayBuffer()), iconStyle);
 
-    // 写入到 Resources 目录
-    const resourcesDir = path.join(appDir, "Contents", "Resources");
-    const icnsPath = path.join(resourcesDir, "AppIcon.icns");
-
-    // 查找现有的 icns 文件并替换
-    const existingIcns = findExistingIcns(resourcesDir);
-    if (existingIcns) {
-      fs.writeFileSync(existingIcns, icnsBuffer);
-    } else {
-      fs.writeFileSync(icnsPath, icnsBuffer);
-    }
+    // 生成 ICNS 写入 Resources 目录，并更新 CFBundleIconFile
+    await writeAppIcns(appDir, iconBuffer);
 
     console.log("[macOS Build] Icon replaced successfully");
+    return iconBuffer;
   } catch (error) {
     console.warn("[macOS Build] Icon replacement failed:", error);
+    return null;
   }
 }
-
-function findExistingIcns(resourcesDir: string): string | null {
-  if (!fs.existsSync(resourcesDir)) return null;
-
-  const entries = fs.readdirSync(resourcesDir);
-  for (const entry of entries) {
-    if (entry.endsWith(".icns")) {
-      return path.join(resourcesDir, entry);
-    }
-  }
-  return null;
-}
-
-/**
- * 生成 macOS ICNS 图标文件
- * ICNS 格式包含多种尺寸的图标
- */
-async function generateIcns(pngBuffer: Buffer): Promise<Buffer> {
-  const sharp = (await import("sharp")).default;
-
-  // ICNS 图标尺寸和类型
-  const iconTypes: Array<{ size: number; type: string }> = [
-    { size: 16, type: "icp4" },   // 16x16
-    { size: 32, type: "icp5" },   // 32x32
-    { size: 64, type: "icp6" },   // 64x64
-    { size: 128, type: "ic07" },  // 128x128
-    { size: 256, type: "ic08" },  // 256x256
-    { size: 512, type: "ic09" },  // 512x512
-    { size: 1024, type: "ic10" }, // 1024x1024
-  ];
-
-  const iconEntries: Array<{ type: string; data: Buffer }> = [];
-
-  for (const { size, type } of iconTypes) {
-    try {
-      const resized = await sharp(pngBuffer)
-        .resize(size, size, { fit: "cover" })
-        .png()
-        .toBuffer();
-
-      iconEntries.push({ type, data: resized });
-    } catch {
-      // 跳过无法生成的尺寸
-    }
-  }
-
-  // 构建 ICNS 文件
-  // ICNS 文件格式：
-  // - 4 bytes: 'icns' magic
-  // - 4 bytes: file size (big endian)
-  // - entries: each entry has 4 byte type + 4 byte size + data
-
-  let totalSize = 8; // header
-  for (const entry of iconEntries) {
-    totalSize += 8 + entry.data.length;
-  }
-
-  const icnsBuffer = Buffer.alloc(totalSize);
-  let offset = 0;
-
-  // Magic number
-  icnsBuffer.write("icns", offset);
-  offset += 4;
-
-  // File size (big endian)
-  icnsBuffer.writeUInt32BE(totalSize, offset);
-  offset += 4;
-
-  // Write entries
-  for (const entry of iconEntries) {
-    // Type (4 bytes)
-    icnsBuffer.write(entry.type, offset);
-    offset += 4;
-
-    // Size (4 bytes, big endian) - includes type and size fields
-    icnsBuffer.writeUInt32BE(8 + entry.data.length, offset);
-    offset += 4;
-
-    // Data
-    entry.data.copy(icnsBuffer, offset);
-    offset += entry.data.length;
-  }
-
-  return icnsBuffer;
-}
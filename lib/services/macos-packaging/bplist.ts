@@ -0,0 +1,118 @@
+/**
+ * 二进制 plist（bplist00）
+ * 只支持 .DS_Store 视图设置用到的类型：字典 / 字符串 / 整数 / 浮点数 / 布尔 / 二进制数据
+ */
+
+// 整数直接用 number，浮点数用 { real } 包装
+export interface PlistReal {
+  real: number;
+}
+
+export interface PlistDict {
+  [key: string]: PlistValue;
+}
+
+export type PlistValue = string | number | boolean | Buffer | PlistReal | PlistDict;
+
+function isReal(value: PlistValue): value is PlistReal {
+  return typeof value === "object" && !Buffer.isBuffer(value) && typeof value.real === "number";
+}
+
+function isDict(value: PlistValue): value is PlistDict {
+  return typeof value === "object" && !Buffer.isBuffer(value) && !isReal(value);
+}
+
+function encodeLength(marker: number, length: number): Buffer {
+  if (length < 15) return Buffer.from([marker | length]);
+  return Buffer.concat([Buffer.from([marker | 0x0f]), encodeInteger(length)]);
+}
+
+function encodeInteger(value: number): Buffer {
+  if (value >= 0 && value <= 0xff) return Buffer.from([0x10, value]);
+  if (value >= 0 && value <= 0xffff) {
+    const data = Buffer.alloc(3);
+    data[0] = 0x11;
+    data.writeUInt16BE(value, 1);
+    return data;
+  }
+  if (value >= 0 && value <= 0xffffffff) {
+    const data = Buffer.alloc(5);
+    data[0] = 0x12;
+    data.writeUInt32BE(value, 1);
+    return data;
+  }
+  const data = Buffer.alloc(9);
+  data[0] = 0x13;
+  data.writeBigInt64BE(BigInt(value), 1);
+  return data;
+}
+
+function encodeString(value: string): Buffer {
+  // 纯 ASCII 用单字节编码，否则使用 UTF-16BE
+  if (/^[\x00-\x7f]*$/.test(value)) {
+    return Buffer.concat([encodeLength(0x50, value.length), Buffer.from(value, "ascii")]);
+  }
+  return Buffer.concat([encodeLength(0x60, value.length), Buffer.from(value, "utf16le").swap16()]);
+}
+
+export function createBinaryPlist(root: PlistValue): Buffer {
+  const objects: Array<{ value: PlistValue; refs: number[] }> = [];
+
+  // 先序遍历分配对象编号，字典的键和值也是独立对象
+  const collect = (value: PlistValue): number => {
+    const index = objects.length;
+    const item = { value, refs: [] as number[] };
+    objects.push(item);
+    if (isDict(value)) {
+      const keys = Object.keys(value);
+      const keyRefs = keys.map((key) => collect(key));
+      const valueRefs = keys.map((key) => collect(value[key]));
+      item.refs = [...keyRefs, ...valueRefs];
+    }
+    return index;
+  };
+  collect(root);
+
+  const refSize = objects.length <= 0xff ? 1 : 2;
+  const writeRef = (ref: number) => {
+    const data = Buffer.alloc(refSize);
+    if (refSize === 1) data.writeUInt8(ref);
+    else data.writeUInt16BE(ref);
+    return data;
+  };
+
+  const encoded = objects.map(({ value, refs }) => {
+    if (typeof value === "string") return encodeString(value);
+    if (typeof value === "boolean") return Buffer.from([value ? 0x09 : 0x08]);
+    if (typeof value === "number") return encodeInteger(value);
+    if (Buffer.isBuffer(value)) return Buffer.concat([encodeLength(0x40, value.length), value]);
+    if (isReal(value)) {
+      const data = Buffer.alloc(9);
+      data[0] = 0x23;
+      data.writeDoubleBE(value.real, 1);
+      return data;
+    }
+    return Buffer.concat([encodeLength(0xd0, refs.length / 2), ...refs.map(writeRef)]);
+  });
+
+  const header = Buffer.from("bplist00", "ascii");
+  const offsets: number[] = [];
+  let offset = header.length;
+  for (const data of encoded) {
+    offsets.push(offset);
+    offset += data.length;
+  }
+
+  const offsetSize = offset <= 0xff ? 1 : offset <= 0xffff ? 2 : 4;
+  const offsetTable = Buffer.alloc(offsets.length * offsetSize);
+  offsets.forEach((value, i) => offsetTable.writeUIntBE(value, i * offsetSize, offsetSize));
+
+  const trailer = Buffer.alloc(32);
+  trailer.writeUInt8(offsetSize, 6);
+  trailer.writeUInt8(refSize, 7);
+  trailer.writeBigUInt64BE(BigInt(objects.length), 8);
+  trailer.writeBigUInt64BE(BigInt(0), 16);
+  trailer.writeBigUInt64BE(BigInt(offset), 24);
+
+  return Buffer.concat([header, ...encoded, offsetTable, trailer]);
+}
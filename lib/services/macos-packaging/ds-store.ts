@@ -0,0 +1,280 @@
+/**
+ * .DS_Store（Finder 窗口设置）
+ *
+ * 文件结构为 buddy allocator：
+ * - 4 字节对齐标记 + 32 字节头（'Bud1'、根块位置）
+ * - 根块：块地址表、目录（"DSDB" → B-tree 元数据块）、空闲块链表
+ * - DSDB 块指向一个 B-tree 叶子节点，记录按（文件名，属性代码）排序
+ * 磁盘映像只需要一个叶子节点，全部记录写入同一个 4KB 块
+ */
+
+import { createBinaryPlist, type PlistDict } from "./bplist";
+
+// 块偏移都相对于文件第 4 字节，[0, 32) 为文件头
+const HEADER_BLOCK = { offset: 0, log2: 5 };
+const ROOT_BLOCK = { offset: 2048, log2: 11 };
+const DSDB_BLOCK = { offset: 32, log2: 5 };
+const LEAF_BLOCK = { offset: 4096, log2: 12 };
+const ADDRESS_SPACE_LOG2 = 31;
+
+// Finder 标题栏高度（WindowBounds 包含标题栏）
+const TITLE_BAR_HEIGHT = 28;
+
+export interface DsStoreLayout {
+  windowWidth: number;
+  windowHeight: number;
+  iconSize: number;
+  // 图标中心坐标
+  iconPositions: Array<{ name: string; x: number; y: number }>;
+  // 背景图 alias 记录（没有时使用白色背景）
+  backgroundAlias?: Buffer;
+}
+
+interface DsStoreRecord {
+  name: string;
+  code: string;
+  type: "long" | "blob";
+  value: number | Buffer;
+}
+
+function encodeUtf16(value: string): Buffer {
+  return Buffer.from(value, "utf16le").swap16();
+}
+
+function encodeRecord(record: DsStoreRecord): Buffer {
+  const name = encodeUtf16(record.name);
+  const head = Buffer.alloc(4);
+  head.writeUInt32BE(record.name.length);
+  const codes = Buffer.from(record.code + record.type, "latin1");
+
+  let value: Buffer;
+  if (record.type === "long") {
+    value = Buffer.alloc(4);
+    value.writeUInt32BE(record.value as number);
+  } else {
+    const data = record.value as Buffer;
+    value = Buffer.alloc(4 + data.length);
+    value.writeUInt32BE(data.length);
+    data.copy(value, 4);
+  }
+  return Buffer.concat([head, name, codes, value]);
+}
+
+function compareRecords(a: DsStoreRecord, b: DsStoreRecord): number {
+  const nameA = a.name.toLowerCase();
+  const nameB = b.name.toLowerCase();
+  if (nameA !== nameB) return nameA < nameB ? -1 : 1;
+  return a.code < b.code ? -1 : a.code > b.code ? 1 : 0;
+}
+
+function createIconLocation(x: number, y: number): Buffer {
+  const data = Buffer.alloc(16, 0xff);
+  data.writeUInt32BE(x, 0);
+  data.writeUInt32BE(y, 4);
+  data.writeUInt16BE(0, 14);
+  return data;
+}
+
+function createRecords(layout: DsStoreLayout): DsStoreRecord[] {
+  const browserSettings = createBinaryPlist({
+    ContainerShowSidebar: false,
+    ShowPathbar: false,
+    ShowSidebar: false,
+    ShowStatusBar: false,
+    ShowTabView: false,
+    ShowToolbar: false,
+    SidebarWidth: 0,
+    WindowBounds: `{{200, 120}, {${layout.windowWidth}, ${layout.windowHeight + TITLE_BAR_HEIGHT}}}`,
+  });
+
+  const iconViewSettings: PlistDict = {
+    arrangeBy: "none",
+    backgroundColorBlue: { real: 1 },
+    backgroundColorGreen: { real: 1 },
+    backgroundColorRed: { real: 1 },
+    // 1 = 纯色背景，2 = 图片背景
+    backgroundType: layout.backgroundAlias ? 2 : 1,
+    gridOffsetX: { real: 0 },
+    gridOffsetY: { real: 0 },
+    gridSpacing: { real: 100 },
+    iconSize: { real: layout.iconSize },
+    labelOnBottom: true,
+    showIconPreview: true,
+    showItemInfo: false,
+    textSize: { real: 13 },
+    viewOptionsVersion: 1,
+  };
+  if (layout.backgroundAlias) {
+    iconViewSettings.backgroundImageAlias = layout.backgroundAlias;
+  }
+
+  return [
+    { name: ".", code: "bwsp", type: "blob" as const, value: browserSettings },
+    { name: ".", code: "icvp", type: "blob" as const, value: createBinaryPlist(iconViewSettings) },
+    { name: ".", code: "vSrn", type: "long" as const, value: 1 },
+    ...layout.iconPositions.map((icon) => ({
+      name: icon.name,
+      code: "Iloc",
+      type: "blob" as const,
+      value: createIconLocation(icon.x, icon.y),
+    })),
+  ].sort(compareRecords);
+}
+
+/**
+ * buddy allocator 的空闲链表：未被占用的地址空间按 2 的幂对齐拆分
+ */
+function getFreeLists(used: Array<{ offset: number; log2: number }>): number[][] {
+  const lists: number[][] = Array.from({ length: 32 }, () => []);
+  const visit = (offset: number, log2: number) => {
+    const size = 2 ** log2;
+    const overlapping = used.filter((block) => block.offset < offset + size && block.offset + 2 ** block.log2 > offset);
+    if (overlapping.length === 0) {
+      lists[log2].push(offset);
+      return;
+    }
+    if (overlapping.some((block) => block.offset === offset && block.log2 === log2)) return;
+    visit(offset, log2 - 1);
+    visit(offset + size / 2, log2 - 1);
+  };
+  visit(0, ADDRESS_SPACE_LOG2);
+  return lists;
+}
+
+export function createDsStore(layout: DsStoreLayout): Buffer {
+  const records = createRecords(layout).map(encodeRecord);
+
+  // 叶子节点：P = 0（叶子）+ 记录数 + 记录
+  const leafHead = Buffer.alloc(8);
+  leafHead.writeUInt32BE(records.length, 4);
+  const leaf = Buffer.concat([leafHead, ...records]);
+  if (leaf.length > 2 ** LEAF_BLOCK.log2) {
+    throw new Error(".DS_Store records exceed a single B-tree node");
+  }
+
+  // DSDB：根节点块号、内部节点层数、记录数、节点数、页大小
+  const dsdb = Buffer.alloc(20);
+  dsdb.writeUInt32BE(2, 0);
+  dsdb.writeUInt32BE(0, 4);
+  dsdb.writeUInt32BE(records.length, 8);
+  dsdb.writeUInt32BE(1, 12);
+  dsdb.writeUInt32BE(0x1000, 16);
+
+  // 根块：块 0 为根块自身，块 1 为 DSDB，块 2 为叶子节点
+  const blocks = [ROOT_BLOCK, DSDB_BLOCK, LEAF_BLOCK];
+  const rootParts: Buffer[] = [];
+  const addressTable = Buffer.alloc(8 + 256 * 4);
+  addressTable.writeUInt32BE(blocks.length, 0);
+  blocks.forEach((block, i) => addressTable.writeUInt32BE(block.offset | block.log2, 8 + i * 4));
+  rootParts.push(addressTable);
+
+  const toc = Buffer.alloc(4 + 1 + 4 + 4);
+  toc.writeUInt32BE(1, 0);
+  toc.writeUInt8(4, 4);
+  toc.write("DSDB", 5, "latin1");
+  toc.writeUInt32BE(1, 9);
+  rootParts.push(toc);
+
+  const freeLists = getFreeLists([HEADER_BLOCK, ...blocks]);
+  for (const list of freeLists) {
+    const data = Buffer.alloc(4 + list.length * 4);
+    data.writeUInt32BE(list.length, 0);
+    list.forEach((offset, i) => data.writeUInt32BE(offset, 4 + i * 4));
+    rootParts.push(data);
+  }
+  const root = Buffer.concat(rootParts);
+  if (root.length > 2 ** ROOT_BLOCK.log2) {
+    throw new Error(".DS_Store root block overflow");
+  }
+
+  const file = Buffer.alloc(4 + LEAF_BLOCK.offset + 2 ** LEAF_BLOCK.log2);
+  file.writeUInt32BE(1, 0);
+  file.write("Bud1", 4, "latin1");
+  file.writeUInt32BE(ROOT_BLOCK.offset, 8);
+  file.writeUInt32BE(2 ** ROOT_BLOCK.log2, 12);
+  file.writeUInt32BE(ROOT_BLOCK.offset, 16);
+  Buffer.from("0000100c000000870000200b00000000", "hex").copy(file, 20);
+  dsdb.copy(file, 4 + DSDB_BLOCK.offset);
+  root.copy(file, 4 + ROOT_BLOCK.offset);
+  leaf.copy(file, 4 + LEAF_BLOCK.offset);
+  return file;
+}
+
+/**
+ * 卷内文件的 alias 记录（version 2），Finder 通过它找到窗口背景图
+ * 解析时优先使用卷名 + 创建时间 + CNID，找不到时回退到 POSIX 路径
+ */
+export function createFileAlias(target: {
+  volumeName: string;
+  // HFS 时间（1904 纪元）
+  volumeCreateDate: number;
+  parentName: string;
+  parentCnid: number;
+  fileName: string;
+  fileCnid: number;
+  fileCreateDate: number;
+}): Buffer {
+  const pascal = (value: string, size: number) => {
+    const data = Buffer.alloc(size);
+    const bytes = Buffer.from(value, "utf-8").subarray(0, size - 1);
+    data.writeUInt8(bytes.length, 0);
+    bytes.copy(data, 1);
+    return data;
+  };
+  const unicode = (value: string) => {
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(value.length);
+    return Buffer.concat([length, encodeUtf16(value)]);
+  };
+  const cnidPath = Buffer.alloc(4);
+  cnidPath.writeUInt32BE(target.parentCnid);
+
+  const body = Buffer.alloc(150 - 8);
+  let offset = 0;
+  body.writeUInt16BE(0, offset); // kind：文件
+  offset += 2;
+  pascal(target.volumeName, 28).copy(body, offset);
+  offset += 28;
+  body.writeUInt32BE(target.volumeCreateDate, offset);
+  offset += 4;
+  body.write("H+", offset, "latin1");
+  offset += 2;
+  body.writeUInt16BE(5, offset); // 可移除磁盘
+  offset += 2;
+  body.writeUInt32BE(target.parentCnid, offset);
+  offset += 4;
+  pascal(target.fileName, 64).copy(body, offset);
+  offset += 64;
+  body.writeUInt32BE(target.fileCnid, offset);
+  offset += 4;
+  body.writeUInt32BE(target.fileCreateDate, offset);
+  offset += 4 + 8; // 文件类型 / 创建者
+  body.writeInt16BE(-1, offset);
+  body.writeInt16BE(-1, offset + 2);
+
+  const posixPath = `/${target.parentName}/${target.fileName}`;
+  const tags: Array<[number, Buffer]> = [
+    [0, Buffer.from(target.parentName, "utf-8")],
+    [1, cnidPath],
+    [2, Buffer.from(`${target.volumeName}:${target.parentName}:${target.fileName}`, "utf-8")],
+    [14, unicode(target.fileName)],
+    [15, unicode(target.volumeName)],
+    [18, Buffer.from(posixPath, "utf-8")],
+    [19, Buffer.from(`/Volumes/${target.volumeName}`, "utf-8")],
+  ];
+  const tagParts = tags.map(([tag, data]) => {
+    const head = Buffer.alloc(4);
+    head.writeInt16BE(tag, 0);
+    head.writeUInt16BE(data.length, 2);
+    return Buffer.concat([head, data, Buffer.alloc(data.length % 2)]);
+  });
+  const end = Buffer.alloc(4);
+  end.writeInt16BE(-1, 0);
+
+  // 头部：应用信息（4 字节）+ 记录长度 + 版本 2
+  const header = Buffer.alloc(8);
+  const alias = Buffer.concat([header, body, ...tagParts, end]);
+  alias.writeUInt16BE(alias.length, 4);
+  alias.writeUInt16BE(2, 6);
+  return alias;
+}
@@ -0,0 +1,532 @@
+/**
+ * HFS+ 卷镜像（DMG 的文件系统部分）
+ *
+ * 只实现只读磁盘映像需要的子集：
+ * - 普通文件 / 目录 / 符号链接（HFS+ 约定的 slnk/rhap 文件），无资源分支、无扩展属性、无日志
+ * - 每个文件的数据连续存放，只用一个 extent，extents overflow 树为空
+ * - catalog B-tree 一次性按键排序写入（叶子节点 + 逐层索引节点）
+ * 布局：引导块 + 卷头 → 分配位图 → extents 树 → catalog 树 → 文件数据 → 备用卷头
+ */
+
+import * as crypto from "crypto";
+import {
+  S_IFDIR,
+  S_IFLNK,
+  S_IFREG,
+  withParentDirectories,
+  type PackageEntry,
+} from "@/lib/services/linux-packaging/types";
+
+const BLOCK_SIZE = 4096;
+const NODE_SIZE = 4096;
+// 1904-01-01 到 1970-01-01 的秒数
+const HFS_EPOCH_OFFSET = 2082844800;
+const MIN_TOTAL_BLOCKS = 256;
+
+const ROOT_PARENT_ID = 1;
+const ROOT_FOLDER_ID = 2;
+const FIRST_USER_CNID = 16;
+
+const FOLDER_RECORD = 1;
+const FILE_RECORD = 2;
+const FOLDER_THREAD_RECORD = 3;
+const FILE_THREAD_RECORD = 4;
+
+const NODE_KIND_INDEX = 0;
+const NODE_KIND_HEADER = 1;
+const NODE_KIND_LEAF = -1;
+
+const HFS_THREAD_EXISTS = 0x0002;
+const HFS_VOLUME_UNMOUNTED = 0x0100;
+const BT_BIG_KEYS = 0x0002;
+const BT_VARIABLE_INDEX_KEYS = 0x0004;
+const CATALOG_MAX_KEY_LENGTH = 516;
+const EXTENTS_MAX_KEY_LENGTH = 10;
+
+const FINDER_INVISIBLE = 0x4000;
+const FINDER_HAS_CUSTOM_ICON = 0x0400;
+// 挂载时映射为当前用户的 unknown 用户
+const UNKNOWN_OWNER_ID = 99;
+
+export interface HfsPlusOptions {
+  volumeName: string;
+  // Unix 秒，同时用作卷创建时间（alias 记录需要一致）
+  createDate: number;
+  // 根目录使用 .VolumeIcon.icns 作为卷图标
+  customIcon?: boolean;
+}
+
+interface CatalogNode {
+  cnid: number;
+  parentId: number;
+  name: string;
+  entry: PackageEntry;
+  children: CatalogNode[];
+  startBlock: number;
+  blockCount: number;
+}
+
+interface CatalogRecord {
+  parentId: number;
+  name: string;
+  foldedName: number[];
+  key: Buffer;
+  data: Buffer;
+}
+
+export function toHfsDate(unixSeconds: number): number {
+  return unixSeconds + HFS_EPOCH_OFFSET;
+}
+
+/**
+ * 按路径排序后依次分配 CNID（调用方需要提前知道目录 / 文件的 CNID 来生成 alias）
+ * 只要路径集合相同，分配结果就相同
+ */
+export function getHfsPlusCatalogIds(entries: PackageEntry[]): Map<string, number> {
+  const ids = new Map<string, number>();
+  withParentDirectories(entries).forEach((entry, i) => ids.set(entry.path, FIRST_USER_CNID + i));
+  return ids;
+}
+
+function toHfsName(name: string): string {
+  // HFS+ 文件名使用分解形式（NFD），POSIX 的 ":" 在 HFS+ 中存为 "/"
+  const hfsName = name.normalize("NFD").replace(/:/g, "/");
+  if (hfsName.length > 255) {
+    throw new Error(`File name too long for HFS+: ${name}`);
+  }
+  return hfsName;
+}
+
+function encodeUtf16(value: string): Buffer {
+  return Buffer.from(value, "utf16le").swap16();
+}
+
+/**
+ * HFS+ 不区分大小写的名称比较（近似 FastUnicodeCompare：逐个 UTF-16 单元折叠为小写，忽略 NUL）
+ */
+function foldName(name: string): number[] {
+  const units: number[] = [];
+  for (const char of name) {
+    const lower = char.toLowerCase();
+    const folded = lower.length === char.length ? lower : char;
+    for (let i = 0; i < folded.length; i++) {
+      const code = folded.charCodeAt(i);
+      if (code !== 0) units.push(code);
+    }
+  }
+  return units;
+}
+
+function compareRecords(a: CatalogRecord, b: CatalogRecord): number {
+  if (a.parentId !== b.parentId) return a.parentId - b.parentId;
+  const length = Math.min(a.foldedName.length, b.foldedName.length);
+  for (let i = 0; i < length; i++) {
+    if (a.foldedName[i] !== b.foldedName[i]) return a.foldedName[i] - b.foldedName[i];
+  }
+  return a.foldedName.length - b.foldedName.length;
+}
+
+function createCatalogKey(parentId: number, name: string): Buffer {
+  const nameData = encodeUtf16(name);
+  const key = Buffer.alloc(8 + nameData.length);
+  key.writeUInt16BE(6 + nameData.length, 0);
+  key.writeUInt32BE(parentId, 2);
+  key.writeUInt16BE(name.length, 6);
+  nameData.copy(key, 8);
+  return key;
+}
+
+function createRecord(parentId: number, name: string, data: Buffer): CatalogRecord {
+  return { parentId, name, foldedName: foldName(name), key: createCatalogKey(parentId, name), data };
+}
+
+function createBsdInfo(mode: number): Buffer {
+  const info = Buffer.alloc(16);
+  info.writeUInt32BE(UNKNOWN_OWNER_ID, 0);
+  info.writeUInt32BE(UNKNOWN_OWNER_ID, 4);
+  info.writeUInt16BE(mode, 10);
+  return info;
+}
+
+function writeDates(record: Buffer, offset: number, hfsDate: number): void {
+  // createDate / contentModDate / attributeModDate / accessDate，backupDate 为 0
+  for (let i = 0; i < 4; i++) record.writeUInt32BE(hfsDate, offset + i * 4);
+}
+
+function writeForkData(target: Buffer, offset: number, fork: { logicalSize: number; startBlock: number; blockCount: number; clumpSize?: number }): void {
+  target.writeBigUInt64BE(BigInt(fork.logicalSize), offset);
+  target.writeUInt32BE(fork.clumpSize || 0, offset + 8);
+  target.writeUInt32BE(fork.blockCount, offset + 12);
+  if (fork.blockCount > 0) {
+    target.writeUInt32BE(fork.startBlock, offset + 16);
+    target.writeUInt32BE(fork.blockCount, offset + 20);
+  }
+}
+
+function getFinderFlags(node: CatalogNode, options: HfsPlusOptions): number {
+  if (node.cnid === ROOT_FOLDER_ID) return options.customIcon ? FINDER_HAS_CUSTOM_ICON : 0;
+  return node.name.startsWith(".") ? FINDER_INVISIBLE : 0;
+}
+
+function createFolderRecord(node: CatalogNode, hfsDate: number, finderFlags: number): Buffer {
+  const record = Buffer.alloc(88);
+  record.writeInt16BE(FOLDER_RECORD, 0);
+  record.writeUInt32BE(node.children.length, 4);
+  record.writeUInt32BE(node.cnid, 8);
+  writeDates(record, 12, hfsDate);
+  createBsdInfo(S_IFDIR | (node.entry.type === "dir" ? node.entry.mode : 0o755)).copy(record, 32);
+  record.writeUInt16BE(finderFlags, 56);
+  return record;
+}
+
+function getForkData(node: CatalogNode): Buffer {
+  if (node.entry.type === "file") return node.entry.data;
+  if (node.entry.type === "symlink") return Buffer.from(node.entry.target, "utf-8");
+  return Buffer.alloc(0);
+}
+
+function createFileRecord(node: CatalogNode, hfsDate: number, finderFlags: number): Buffer {
+  const record = Buffer.alloc(248);
+  const entry = node.entry;
+  record.writeInt16BE(FILE_RECORD, 0);
+  record.writeUInt16BE(HFS_THREAD_EXISTS, 2);
+  record.writeUInt32BE(node.cnid, 8);
+  writeDates(record, 12, hfsDate);
+  createBsdInfo(entry.type === "symlink" ? S_IFLNK | 0o755 : S_IFREG | (entry.type === "file" ? entry.mode : 0o644)).copy(record, 32);
+  if (entry.type === "symlink") {
+    // Finder 识别符号链接的文件类型 / 创建者
+    record.write("slnk", 48, "latin1");
+    record.write("rhap", 52, "latin1");
+  }
+  record.writeUInt16BE(finderFlags, 56);
+  writeForkData(record, 88, {
+    logicalSize: getForkData(node).length,
+    startBlock: node.startBlock,
+    blockCount: node.blockCount,
+  });
+  return record;
+}
+
+function createThreadRecord(type: number, parentId: number, name: string): Buffer {
+  const nameData = encodeUtf16(name);
+  const record = Buffer.alloc(10 + nameData.length);
+  record.writeInt16BE(type, 0);
+  record.writeUInt32BE(parentId, 4);
+  record.writeUInt16BE(name.length, 8);
+  nameData.copy(record, 10);
+  return record;
+}
+
+function buildCatalogTree(entries: PackageEntry[], volumeName: string): { root: CatalogNode; nodes: CatalogNode[] } {
+  const ids = getHfsPlusCatalogIds(entries);
+  const root: CatalogNode = {
+    cnid: ROOT_FOLDER_ID,
+    parentId: ROOT_PARENT_ID,
+    name: toHfsName(volumeName),
+    entry: { type: "dir", path: "", mode: 0o755 },
+    children: [],
+    startBlock: 0,
+    blockCount: 0,
+  };
+
+  const byPath = new Map<string, CatalogNode>([["", root]]);
+  const nodes: CatalogNode[] = [];
+  for (const entry of withParentDirectories(entries)) {
+    const slash = entry.path.lastIndexOf("/");
+    const parent = byPath.get(slash === -1 ? "" : entry.path.slice(0, slash))!;
+    const node: CatalogNode = {
+      cnid: ids.get(entry.path)!,
+      parentId: parent.cnid,
+      name: toHfsName(entry.path.slice(slash + 1)),
+      entry,
+      children: [],
+      startBlock: 0,
+      blockCount: 0,
+    };
+    parent.children.push(node);
+    byPath.set(entry.path, node);
+    nodes.push(node);
+  }
+  return { root, nodes };
+}
+
+function createCatalogRecords(root: CatalogNode, nodes: CatalogNode[], options: HfsPlusOptions): CatalogRecord[] {
+  const hfsDate = toHfsDate(options.createDate);
+  const records: CatalogRecord[] = [];
+
+  for (const node of [root, ...nodes]) {
+    const isFolder = node.entry.type === "dir";
+    const finderFlags = getFinderFlags(node, options);
+    records.push(
+      createRecord(
+        node.parentId,
+        node.name,
+        isFolder ? createFolderRecord(node, hfsDate, finderFlags) : createFileRecord(node, hfsDate, finderFlags)
+      ),
+      createRecord(
+        node.cnid,
+        "",
+        createThreadRecord(isFolder ? FOLDER_THREAD_RECORD : FILE_THREAD_RECORD, node.parentId, node.name)
+      )
+    );
+  }
+
+  return records.sort(compareRecords);
+}
+
+function createNode(kind: number, height: number, records: Buffer[], fLink: number, bLink: number): Buffer {
+  const node = Buffer.alloc(NODE_SIZE);
+  node.writeUInt32BE(fLink, 0);
+  node.writeUInt32BE(bLink, 4);
+  node.writeInt8(kind, 8);
+  node.writeUInt8(height, 9);
+  node.writeUInt16BE(records.length, 10);
+
+  // 记录从描述符之后顺序存放，偏移表倒序存放在节点末尾（最后一项为空闲空间起点）
+  let offset = 14;
+  const offsets: number[] = [];
+  for (const record of records) {
+    record.copy(node, offset);
+    offsets.push(offset);
+    offset += record.length;
+  }
+  offsets.push(offset);
+  offsets.forEach((value, i) => node.writeUInt16BE(value, NODE_SIZE - 2 * (i + 1)));
+  return node;
+}
+
+/**
+ * 按节点容量切分记录
+ */
+function packRecords(records: Buffer[]): Buffer[][] {
+  const groups: Buffer[][] = [];
+  let current: Buffer[] = [];
+  let used = 14 + 2;
+  for (const record of records) {
+    if (used + record.length + 2 > NODE_SIZE && current.length > 0) {
+      groups.push(current);
+      current = [];
+      used = 14 + 2;
+    }
+    current.push(record);
+    used += record.length + 2;
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+}
+
+interface BTree {
+  // 不含头节点，按节点号（从 1 开始）排列
+  nodes: Buffer[];
+  treeDepth: number;
+  rootNode: number;
+  leafRecords: number;
+  firstLeafNode: number;
+  lastLeafNode: number;
+}
+
+/**
+ * 由已排序的叶子记录自底向上生成 B-tree：叶子节点在前，之后逐层写入索引节点
+ */
+function buildBTree(records: CatalogRecord[]): BTree {
+  const nodes: Buffer[] = [];
+  let level: Array<{ key: Buffer; record: Buffer }> = records.map((record) => ({
+    key: record.key,
+    record: Buffer.concat([record.key, record.data]),
+  }));
+  let kind = NODE_KIND_LEAF;
+  let height = 1;
+  let firstLeafNode = 0;
+  let lastLeafNode = 0;
+
+  while (true) {
+    const groups = packRecords(level.map((item) => item.record));
+    const firstNode = nodes.length + 1;
+    let cursor = 0;
+    const nextLevel: typeof level = [];
+
+    groups.forEach((group, i) => {
+      const nodeNumber = firstNode + i;
+      const fLink = i < groups.length - 1 ? nodeNumber + 1 : 0;
+      const bLink = i > 0 ? nodeNumber - 1 : 0;
+      nodes.push(createNode(kind, height, group, fLink, bLink));
+
+      // 索引记录：子节点第一条记录的键 + 子节点号
+      const pointer = Buffer.alloc(4);
+      pointer.writeUInt32BE(nodeNumber);
+      nextLevel.push({ key: level[cursor].key, record: Buffer.concat([level[cursor].key, pointer]) });
+      cursor += group.length;
+    });
+
+    if (kind === NODE_KIND_LEAF) {
+      firstLeafNode = firstNode;
+      lastLeafNode = firstNode + groups.length - 1;
+    }
+    if (groups.length === 1) {
+      return { nodes, treeDepth: height, rootNode: firstNode, leafRecords: records.length, firstLeafNode, lastLeafNode };
+    }
+
+    level = nextLevel;
+    kind = NODE_KIND_INDEX;
+    height++;
+  }
+}
+
+function createHeaderNode(options: {
+  tree: Omit<BTree, "nodes"> | null;
+  totalNodes: number;
+  usedNodes: number;
+  maxKeyLength: number;
+  attributes: number;
+}): Buffer {
+  const header = Buffer.alloc(106);
+  const tree = options.tree;
+  if (tree) {
+    header.writeUInt16BE(tree.treeDepth, 0);
+    header.writeUInt32BE(tree.rootNode, 2);
+    header.writeUInt32BE(tree.leafRecords, 6);
+    header.writeUInt32BE(tree.firstLeafNode, 10);
+    header.writeUInt32BE(tree.lastLeafNode, 14);
+  }
+  header.writeUInt16BE(NODE_SIZE, 18);
+  header.writeUInt16BE(options.maxKeyLength, 20);
+  header.writeUInt32BE(options.totalNodes, 22);
+  header.writeUInt32BE(options.totalNodes - options.usedNodes, 26);
+  header.writeUInt32BE(options.totalNodes * NODE_SIZE, 32);
+  header.writeUInt32BE(options.attributes, 38);
+
+  // 头节点剩余空间全部用作节点位图
+  const map = Buffer.alloc(NODE_SIZE - 14 - 106 - 128 - 8);
+  if (options.usedNodes > map.length * 8) {
+    throw new Error("HFS+ catalog too large for header node map");
+  }
+  for (let i = 0; i < options.usedNodes; i++) {
+    map[i >> 3] |= 0x80 >> (i & 7);
+  }
+
+  return createNode(NODE_KIND_HEADER, 0, [header, Buffer.alloc(128), map], 0, 0);
+}
+
+function createVolumeHeader(fields: {
+  hfsDate: number;
+  fileCount: number;
+  folderCount: number;
+  totalBlocks: number;
+  freeBlocks: number;
+  nextAllocation: number;
+  nextCatalogId: number;
+  allocation: { startBlock: number; blockCount: number };
+  extents: { startBlock: number; blockCount: number };
+  catalog: { startBlock: number; blockCount: number };
+}): Buffer {
+  const header = Buffer.alloc(512);
+  header.write("H+", 0, "latin1");
+  header.writeUInt16BE(4, 2);
+  header.writeUInt32BE(HFS_VOLUME_UNMOUNTED, 4);
+  header.write("10.0", 8, "latin1");
+  for (let i = 0; i < 4; i++) header.writeUInt32BE(fields.hfsDate, 16 + i * 4);
+  header.writeUInt32BE(fields.fileCount, 32);
+  header.writeUInt32BE(fields.folderCount, 36);
+  header.writeUInt32BE(BLOCK_SIZE, 40);
+  header.writeUInt32BE(fields.totalBlocks, 44);
+  header.writeUInt32BE(fields.freeBlocks, 48);
+  header.writeUInt32BE(fields.nextAllocation, 52);
+  header.writeUInt32BE(65536, 56);
+  header.writeUInt32BE(65536, 60);
+  header.writeUInt32BE(fields.nextCatalogId, 64);
+  header.writeUInt32BE(1, 68);
+  header.writeBigUInt64BE(BigInt(1), 72); // MacRoman
+  // finderInfo[6..7]：卷的 64 位唯一 ID
+  crypto.randomBytes(8).copy(header, 80 + 24);
+
+  const specialFiles = [fields.allocation, fields.extents, fields.catalog];
+  specialFiles.forEach((fork, i) => {
+    writeForkData(header, 112 + i * 80, {
+      logicalSize: fork.blockCount * BLOCK_SIZE,
+      clumpSize: BLOCK_SIZE,
+      startBlock: fork.startBlock,
+      blockCount: fork.blockCount,
+    });
+  });
+  return header;
+}
+
+export function createHfsPlusImage(entries: PackageEntry[], options: HfsPlusOptions): Buffer {
+  const { root, nodes } = buildCatalogTree(entries, options.volumeName);
+  const hfsDate = toHfsDate(options.createDate);
+
+  // 1. 记录长度与 extent 取值无关：先用占位数据确定 catalog 节点数，再分配数据块
+  const catalogNodes = 1 + buildBTree(createCatalogRecords(root, nodes, options)).nodes.length;
+  const extentsBlocks = 1;
+  const dataBlocks = nodes.reduce((sum, node) => sum + Math.ceil(getForkData(node).length / BLOCK_SIZE), 0);
+  const fixedBlocks = 1 + extentsBlocks + catalogNodes + dataBlocks + 1;
+
+  let allocationBlocks = 1;
+  let totalBlocks = Math.max(fixedBlocks + allocationBlocks, MIN_TOTAL_BLOCKS);
+  while (Math.ceil(totalBlocks / 8 / BLOCK_SIZE) > allocationBlocks) {
+    allocationBlocks = Math.ceil(totalBlocks / 8 / BLOCK_SIZE);
+    totalBlocks = Math.max(fixedBlocks + allocationBlocks, MIN_TOTAL_BLOCKS);
+  }
+
+  const allocation = { startBlock: 1, blockCount: allocationBlocks };
+  const extents = { startBlock: allocation.startBlock + allocationBlocks, blockCount: extentsBlocks };
+  const catalog = { startBlock: extents.startBlock + extentsBlocks, blockCount: catalogNodes };
+
+  let nextBlock = catalog.startBlock + catalogNodes;
+  for (const node of nodes) {
+    node.blockCount = Math.ceil(getForkData(node).length / BLOCK_SIZE);
+    node.startBlock = node.blockCount > 0 ? nextBlock : 0;
+    nextBlock += node.blockCount;
+  }
+
+  // 2. 用真实的 extent 重新生成 catalog
+  const tree = buildBTree(createCatalogRecords(root, nodes, options));
+  const image = Buffer.alloc(totalBlocks * BLOCK_SIZE);
+
+  createHeaderNode({
+    tree,
+    totalNodes: catalogNodes,
+    usedNodes: catalogNodes,
+    maxKeyLength: CATALOG_MAX_KEY_LENGTH,
+    attributes: BT_BIG_KEYS | BT_VARIABLE_INDEX_KEYS,
+  }).copy(image, catalog.startBlock * BLOCK_SIZE);
+  tree.nodes.forEach((node, i) => node.copy(image, (catalog.startBlock + 1 + i) * BLOCK_SIZE));
+
+  createHeaderNode({
+    tree: null,
+    totalNodes: extentsBlocks,
+    usedNodes: 1,
+    maxKeyLength: EXTENTS_MAX_KEY_LENGTH,
+    attributes: BT_BIG_KEYS,
+  }).copy(image, extents.startBlock * BLOCK_SIZE);
+
+  for (const node of nodes) {
+    if (node.blockCount > 0) getForkData(node).copy(image, node.startBlock * BLOCK_SIZE);
+  }
+
+  // 3. 分配位图：已用区域 + 最后一块（备用卷头）
+  const bitmapOffset = allocation.startBlock * BLOCK_SIZE;
+  const markUsed = (block: number) => {
+    image[bitmapOffset + (block >> 3)] |= 0x80 >> (block & 7);
+  };
+  for (let block = 0; block < nextBlock; block++) markUsed(block);
+  markUsed(totalBlocks - 1);
+  const usedBlocks = nextBlock + 1;
+
+  const volumeHeader = createVolumeHeader({
+    hfsDate,
+    fileCount: nodes.filter((node) => node.entry.type !== "dir").length,
+    folderCount: nodes.filter((node) => node.entry.type === "dir").length,
+    totalBlocks,
+    freeBlocks: totalBlocks - usedBlocks,
+    nextAllocation: nextBlock,
+    nextCatalogId: FIRST_USER_CNID + nodes.length,
+    allocation,
+    extents,
+    catalog,
+  });
+  volumeHeader.copy(image, 1024);
+  volumeHeader.copy(image, image.length - 1024);
+
+  return image;
+}
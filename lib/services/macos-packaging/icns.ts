@@ -0,0 +1,110 @@
+/**
+ * macOS ICNS 图标
+ * 所有尺寸都以 PNG 编码写入（macOS 10.7+ 支持），包含 Retina（@2x）条目
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+const ICNS_TYPES: Array<{ size: number; type: string }> = [
+  { size: 16, type: "icp4" },
+  { size: 32, type: "icp5" },
+  { size: 64, type: "icp6" },
+  { size: 128, type: "ic07" },
+  { size: 256, type: "ic08" },
+  { size: 512, type: "ic09" },
+  { size: 1024, type: "ic10" }, // 512x512@2x
+  { size: 32, type: "ic11" }, // 16x16@2x
+  { size: 64, type: "ic12" }, // 32x32@2x
+  { size: 256, type: "ic13" }, // 128x128@2x
+  { size: 512, type: "ic14" }, // 256x256@2x
+];
+
+const DEFAULT_ICON_FILE = "AppIcon.icns";
+
+/**
+ * 生成 ICNS 文件：'icns' + 文件长度，之后每个条目为 4 字节类型 + 4 字节长度（含条目头）+ PNG 数据
+ */
+export async function generateIcns(imageBuffer: Buffer): Promise<Buffer> {
+  const sharp = (await import("sharp")).default;
+
+  const pngBySize = new Map<number, Buffer>();
+  for (const size of new Set(ICNS_TYPES.map((item) => item.size))) {
+    try {
+      pngBySize.set(size, await sharp(imageBuffer).resize(size, size, { fit: "cover" }).png().toBuffer());
+    } catch {
+      // 跳过无法生成的尺寸
+    }
+  }
+
+  const chunks: Buffer[] = [];
+  for (const { size, type } of ICNS_TYPES) {
+    const data = pngBySize.get(size);
+    if (!data) continue;
+    const header = Buffer.alloc(8);
+    header.write(type, 0, "latin1");
+    header.writeUInt32BE(8 + data.length, 4);
+    chunks.push(header, data);
+  }
+
+  if (chunks.length === 0) {
+    throw new Error("Failed to generate any icon size for ICNS");
+  }
+
+  const body = Buffer.concat(chunks);
+  const fileHeader = Buffer.alloc(8);
+  fileHeader.write("icns", 0, "latin1");
+  fileHeader.writeUInt32BE(8 + body.length, 4);
+  return Buffer.concat([fileHeader, body]);
+}
+
+/**
+ * 查找 .app 中 CFBundleIconFile 指向的图标（没有时取 Resources 下第一个 .icns）
+ */
+export function findAppIcns(appDir: string): string | null {
+  const resourcesDir = path.join(appDir, "Contents", "Resources");
+  if (!fs.existsSync(resourcesDir)) return null;
+
+  const iconFile = readBundleIconFile(appDir);
+  if (iconFile) {
+    const iconPath = path.join(resourcesDir, iconFile.endsWith(".icns") ? iconFile : `${iconFile}.icns`);
+    if (fs.existsSync(iconPath)) return iconPath;
+  }
+
+  const entry = fs.readdirSync(resourcesDir).find((name) => name.endsWith(".icns"));
+  return entry ? path.join(resourcesDir, entry) : null;
+}
+
+/**
+ * 用上传的图标生成 ICNS 写入 .app，并保证 Info.plist 的 CFBundleIconFile 指向它
+ */
+export async function writeAppIcns(appDir: string, imageBuffer: Buffer): Promise<void> {
+  const icnsBuffer = await generateIcns(imageBuffer);
+  const resourcesDir = path.join(appDir, "Contents", "Resources");
+  fs.mkdirSync(resourcesDir, { recursive: true });
+
+  const icnsPath = findAppIcns(appDir) || path.join(resourcesDir, DEFAULT_ICON_FILE);
+  fs.writeFileSync(icnsPath, icnsBuffer);
+  setBundleIconFile(appDir, path.basename(icnsPath));
+}
+
+function readBundleIconFile(appDir: string): string | null {
+  const plistPath = path.join(appDir, "Contents", "Info.plist");
+  if (!fs.existsSync(plistPath)) return null;
+  const match = fs
+    .readFileSync(plistPath, "utf-8")
+    .match(/<key>CFBundleIconFile<\/key>\s*<string>([^<]*)<\/string>/);
+  return match?.[1]?.trim() || null;
+}
+
+function setBundleIconFile(appDir: string, iconFile: string): void {
+  const plistPath = path.join(appDir, "Contents", "Info.plist");
+  if (!fs.existsSync(plistPath)) return;
+
+  const plistContent = fs.readFileSync(plistPath, "utf-8");
+  const entry = `<key>CFBundleIconFile</key>\n\t<string>${iconFile}</string>`;
+  const updated = /<key>CFBundleIconFile<\/key>\s*<string>[^<]*<\/string>/.test(plistContent)
+    ? plistContent.replace(/<key>CFBundleIconFile<\/key>\s*<string>[^<]*<\/string>/, entry)
+    : plistContent.replace(/<dict>/, `<dict>\n\t${entry}`);
+  fs.writeFileSync(plistPath, updated, "utf-8");
+}
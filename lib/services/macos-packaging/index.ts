@@ -0,0 +1,172 @@
+/**
+ * macOS 磁盘映像（.dmg）
+ *
+ * 在写入配置和图标后的 .app 基础上，纯 TypeScript 组装 DMG，不依赖 hdiutil：
+ * - 卷根目录：<App>.app、指向 /Applications 的符号链接、.VolumeIcon.icns（取自 .app 图标）
+ * - 可选品牌背景：.background/background.png，由 .DS_Store 设置为 Finder 窗口背景并摆放图标位置
+ * - HFS+ 卷按 UDZO（zlib）压缩封装为 UDIF
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { PackageEntry } from "@/lib/services/linux-packaging/types";
+import { createDsStore, createFileAlias } from "./ds-store";
+import { createHfsPlusImage, getHfsPlusCatalogIds, toHfsDate } from "./hfsplus";
+import { findAppIcns } from "./icns";
+import { createUdifImage } from "./udif";
+
+export { writeAppIcns } from "./icns";
+
+const WINDOW_WIDTH = 640;
+const WINDOW_HEIGHT = 400;
+const ICON_SIZE = 128;
+const APP_ICON_POSITION = { x: 160, y: 190 };
+const APPLICATIONS_ICON_POSITION = { x: 480, y: 190 };
+const BACKGROUND_DIR = ".background";
+const BACKGROUND_FILE = "background.png";
+// HFS+ 卷名在 alias 记录中最多 27 字节，Finder 窗口标题也以短名称为宜
+const MAX_VOLUME_NAME_LENGTH = 27;
+
+export interface MacOSDmgInput {
+  // 已重命名为 <App>.app 的目录
+  appDir: string;
+  volumeName: string;
+  // 生成 Finder 窗口背景（以图标主色为基调）
+  background?: boolean;
+  // 用户上传的图标，用于提取背景主色
+  iconBuffer?: Buffer | null;
+}
+
+export interface MacOSPackageResult {
+  buffer: Buffer;
+  fileName: string;
+  contentType: string;
+}
+
+/**
+ * 读取 .app 目录（Contents/MacOS 下的文件为可执行文件，与 ZIP 打包一致）
+ */
+function readAppBundle(appDir: string, prefix: string): PackageEntry[] {
+  const entries: PackageEntry[] = [{ type: "dir", path: prefix, mode: 0o755 }];
+
+  const walk = (dir: string, relative: string) => {
+    for (const item of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, item.name);
+      const childRelative = relative ? `${relative}/${item.name}` : item.name;
+      const entryPath = `${prefix}/${childRelative}`;
+
+      if (item.isSymbolicLink()) {
+        entries.push({ type: "symlink", path: entryPath, target: fs.readlinkSync(fullPath) });
+      } else if (item.isDirectory()) {
+        entries.push({ type: "dir", path: entryPath, mode: 0o755 });
+        walk(fullPath, childRelative);
+      } else {
+        const isExecutable = childRelative.startsWith("Contents/MacOS/") || (fs.statSync(fullPath).mode & 0o111) !== 0;
+        entries.push({ type: "file", path: entryPath, mode: isExecutable ? 0o755 : 0o644, data: fs.readFileSync(fullPath) });
+      }
+    }
+  };
+
+  walk(appDir, "");
+  return entries;
+}
+
+/**
+ * 品牌背景：图标主色与白色混合的浅色渐变 + 指向「应用程序」的箭头（不含文字，避免依赖服务器字体）
+ */
+async function createBackgroundImage(iconBuffer: Buffer | null | undefined): Promise<Buffer> {
+  const sharp = (await import("sharp")).default;
+
+  let color = { r: 120, g: 130, b: 145 };
+  if (iconBuffer) {
+    try {
+      const { dominant } = await sharp(iconBuffer).stats();
+      color = dominant;
+    } catch {
+      // 使用默认颜色
+    }
+  }
+
+  const mix = (amount: number) =>
+    `rgb(${[color.r, color.g, color.b].map((value) => Math.round(value * amount + 255 * (1 - amount))).join(",")})`;
+  const arrowY = APP_ICON_POSITION.y;
+  const arrowStart = APP_ICON_POSITION.x + ICON_SIZE / 2 + 24;
+  const arrowEnd = APPLICATIONS_ICON_POSITION.x - ICON_SIZE / 2 - 24;
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${WINDOW_WIDTH}" height="${WINDOW_HEIGHT}">
+  <defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="0" y2="1">
+      <stop offset="0" stop-color="${mix(0.08)}"/>
+      <stop offset="1" stop-color="${mix(0.22)}"/>
+    </linearGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="url(#bg)"/>
+  <rect y="${WINDOW_HEIGHT - 6}" width="100%" height="6" fill="${mix(0.85)}"/>
+  <g stroke="${mix(0.6)}" stroke-width="8" stroke-linecap="round" stroke-linejoin="round" fill="none">
+    <line x1="${arrowStart}" y1="${arrowY}" x2="${arrowEnd}" y2="${arrowY}"/>
+    <polyline points="${arrowEnd - 22},${arrowY - 22} ${arrowEnd},${arrowY} ${arrowEnd - 22},${arrowY + 22}"/>
+  </g>
+</svg>`;
+
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+function getVolumeName(appName: string): string {
+  return appName.replace(/[:/]/g, "").trim().slice(0, MAX_VOLUME_NAME_LENGTH) || "App";
+}
+
+export async function createMacOSDmg(input: MacOSDmgInput): Promise<MacOSPackageResult> {
+  const appName = path.basename(input.appDir);
+  const volumeName = getVolumeName(input.volumeName);
+  const createDate = Math.floor(Date.now() / 1000);
+
+  const entries: PackageEntry[] = [
+    ...readAppBundle(input.appDir, appName),
+    { type: "symlink", path: "Applications", target: "/Applications" },
+  ];
+
+  const icnsPath = findAppIcns(input.appDir);
+  if (icnsPath) {
+    entries.push({ type: "file", path: ".VolumeIcon.icns", mode: 0o644, data: fs.readFileSync(icnsPath) });
+  }
+
+  const backgroundPath = `${BACKGROUND_DIR}/${BACKGROUND_FILE}`;
+  if (input.background) {
+    entries.push({ type: "file", path: backgroundPath, mode: 0o644, data: await createBackgroundImage(input.iconBuffer) });
+  }
+
+  // .DS_Store 的 alias 需要背景图的 CNID：先用占位文件确定 CNID，再写入真实内容
+  const dsStoreEntry: PackageEntry = { type: "file", path: ".DS_Store", mode: 0o644, data: Buffer.alloc(0) };
+  entries.push(dsStoreEntry);
+  const ids = getHfsPlusCatalogIds(entries);
+
+  dsStoreEntry.data = createDsStore({
+    windowWidth: WINDOW_WIDTH,
+    windowHeight: WINDOW_HEIGHT,
+    iconSize: ICON_SIZE,
+    iconPositions: [
+      { name: appName, ...APP_ICON_POSITION },
+      { name: "Applications", ...APPLICATIONS_ICON_POSITION },
+    ],
+    backgroundAlias: input.background
+      ? createFileAlias({
+          volumeName,
+          volumeCreateDate: toHfsDate(createDate),
+          parentName: BACKGROUND_DIR,
+          parentCnid: ids.get(BACKGROUND_DIR)!,
+          fileName: BACKGROUND_FILE,
+          fileCnid: ids.get(backgroundPath)!,
+          fileCreateDate: toHfsDate(createDate),
+        })
+      : undefined,
+  });
+
+  const volume = createHfsPlusImage(entries, { volumeName, createDate, customIcon: Boolean(icnsPath) });
+  console.log(`[macOS Package] Created HFS+ volume "${volumeName}" (${volume.length} bytes)`);
+
+  return {
+    buffer: createUdifImage(volume),
+    fileName: `${appName.replace(/\.app$/, "")}.dmg`,
+    contentType: "application/x-apple-diskimage",
+  };
+}
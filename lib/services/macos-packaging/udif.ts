@@ -0,0 +1,184 @@
+/**
+ * UDIF 磁盘映像（.dmg，UDZO：zlib 压缩、只读）
+ *
+ * 结构：数据分支（按块压缩的卷数据）→ XML plist（blkx 资源，内含 mish 块表）→ 512 字节 koly 尾部
+ * 整个卷作为一个无分区表的 Apple_HFS 分区（等同 hdiutil create -layout NONE）
+ */
+
+import * as crypto from "crypto";
+import * as zlib from "zlib";
+
+const SECTOR_SIZE = 512;
+const CHUNK_SECTORS = 2048;
+
+const CHUNK_ZERO_FILL = 0x00000000;
+const CHUNK_RAW = 0x00000001;
+const CHUNK_ZLIB = 0x80000005;
+const CHUNK_TERMINATOR = 0xffffffff;
+
+const CHECKSUM_CRC32 = 2;
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffers: Buffer[]): number {
+  let crc = 0xffffffff;
+  for (const buffer of buffers) {
+    for (let i = 0; i < buffer.length; i++) {
+      crc = CRC32_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * UDIF 校验和字段：类型 + 位数 + 32 个 UInt32（CRC32 只用第一个）
+ */
+function writeChecksum(target: Buffer, offset: number, value: number): void {
+  target.writeUInt32BE(CHECKSUM_CRC32, offset);
+  target.writeUInt32BE(32, offset + 4);
+  target.writeUInt32BE(value, offset + 8);
+}
+
+interface Chunk {
+  type: number;
+  sectorNumber: number;
+  sectorCount: number;
+  compressedOffset: number;
+  compressedLength: number;
+}
+
+function createBlkxTable(chunks: Chunk[], sectorCount: number, dataChecksum: number): Buffer {
+  const table = Buffer.alloc(204 + chunks.length * 40);
+  table.write("mish", 0, "latin1");
+  table.writeUInt32BE(1, 4);
+  table.writeBigUInt64BE(BigInt(0), 8);
+  table.writeBigUInt64BE(BigInt(sectorCount), 16);
+  table.writeBigUInt64BE(BigInt(0), 24);
+  table.writeUInt32BE(CHUNK_SECTORS + 8, 32); // 解压缓冲区扇区数
+  table.writeUInt32BE(0, 36);
+  writeChecksum(table, 64, dataChecksum);
+  table.writeUInt32BE(chunks.length, 200);
+
+  chunks.forEach((chunk, i) => {
+    const offset = 204 + i * 40;
+    table.writeUInt32BE(chunk.type, offset);
+    table.writeBigUInt64BE(BigInt(chunk.sectorNumber), offset + 8);
+    table.writeBigUInt64BE(BigInt(chunk.sectorCount), offset + 16);
+    table.writeBigUInt64BE(BigInt(chunk.compressedOffset), offset + 24);
+    table.writeBigUInt64BE(BigInt(chunk.compressedLength), offset + 32);
+  });
+  return table;
+}
+
+function createPlist(blkx: Buffer): Buffer {
+  const name = "whole disk (Apple_HFS : 0)";
+  // base64 按 52 字节换行，与 hdiutil 输出一致
+  const data = (blkx.toString("base64").match(/.{1,52}/g) || []).map((line) => `\t\t\t\t${line}`).join("\n");
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+    '<plist version="1.0">',
+    "<dict>",
+    "\t<key>resource-fork</key>",
+    "\t<dict>",
+    "\t\t<key>blkx</key>",
+    "\t\t<array>",
+    "\t\t\t<dict>",
+    "\t\t\t\t<key>Attributes</key>",
+    "\t\t\t\t<string>0x0050</string>",
+    "\t\t\t\t<key>CFName</key>",
+    `\t\t\t\t<string>${name}</string>`,
+    "\t\t\t\t<key>Data</key>",
+    "\t\t\t\t<data>",
+    data,
+    "\t\t\t\t</data>",
+    "\t\t\t\t<key>ID</key>",
+    "\t\t\t\t<string>-1</string>",
+    "\t\t\t\t<key>Name</key>",
+    `\t\t\t\t<string>${name}</string>`,
+    "\t\t\t</dict>",
+    "\t\t</array>",
+    "\t</dict>",
+    "</dict>",
+    "</plist>",
+    "",
+  ].join("\n");
+  return Buffer.from(xml, "utf-8");
+}
+
+/**
+ * 将原始卷数据（长度为 512 的整数倍）封装为 UDZO 映像
+ */
+export function createUdifImage(volume: Buffer): Buffer {
+  if (volume.length % SECTOR_SIZE !== 0) {
+    throw new Error("UDIF volume size must be a multiple of 512 bytes");
+  }
+
+  const sectorCount = volume.length / SECTOR_SIZE;
+  const chunks: Chunk[] = [];
+  const dataParts: Buffer[] = [];
+  let dataLength = 0;
+  const zeroChunk = Buffer.alloc(CHUNK_SECTORS * SECTOR_SIZE);
+
+  for (let sector = 0; sector < sectorCount; sector += CHUNK_SECTORS) {
+    const count = Math.min(CHUNK_SECTORS, sectorCount - sector);
+    const raw = volume.subarray(sector * SECTOR_SIZE, (sector + count) * SECTOR_SIZE);
+
+    // 全零块不占数据分支空间
+    if (raw.equals(zeroChunk.subarray(0, raw.length))) {
+      chunks.push({ type: CHUNK_ZERO_FILL, sectorNumber: sector, sectorCount: count, compressedOffset: dataLength, compressedLength: 0 });
+      continue;
+    }
+
+    const compressed = zlib.deflateSync(raw, { level: 9 });
+    const useCompressed = compressed.length < raw.length;
+    const payload = useCompressed ? compressed : raw;
+    chunks.push({
+      type: useCompressed ? CHUNK_ZLIB : CHUNK_RAW,
+      sectorNumber: sector,
+      sectorCount: count,
+      compressedOffset: dataLength,
+      compressedLength: payload.length,
+    });
+    dataParts.push(payload);
+    dataLength += payload.length;
+  }
+  chunks.push({ type: CHUNK_TERMINATOR, sectorNumber: sectorCount, sectorCount: 0, compressedOffset: dataLength, compressedLength: 0 });
+
+  const volumeChecksum = crc32([volume]);
+  const plist = createPlist(createBlkxTable(chunks, sectorCount, volumeChecksum));
+
+  // 主校验和：各 blkx 校验值（大端）拼接后的 CRC32
+  const blkxChecksum = Buffer.alloc(4);
+  blkxChecksum.writeUInt32BE(volumeChecksum);
+
+  const koly = Buffer.alloc(512);
+  koly.write("koly", 0, "latin1");
+  koly.writeUInt32BE(4, 4);
+  koly.writeUInt32BE(512, 8);
+  koly.writeUInt32BE(1, 12); // flattened
+  koly.writeBigUInt64BE(BigInt(0), 16);
+  koly.writeBigUInt64BE(BigInt(0), 24);
+  koly.writeBigUInt64BE(BigInt(dataLength), 32);
+  koly.writeBigUInt64BE(BigInt(0), 40);
+  koly.writeBigUInt64BE(BigInt(0), 48);
+  koly.writeUInt32BE(1, 56);
+  koly.writeUInt32BE(1, 60);
+  crypto.randomBytes(16).copy(koly, 64);
+  writeChecksum(koly, 80, crc32(dataParts));
+  koly.writeBigUInt64BE(BigInt(dataLength), 216);
+  koly.writeBigUInt64BE(BigInt(plist.length), 224);
+  writeChecksum(koly, 352, crc32([blkxChecksum]));
+  koly.writeUInt32BE(1, 488);
+  koly.writeBigUInt64BE(BigInt(sectorCount), 492);
+
+  return Buffer.concat([...dataParts, plist, koly]);
+}
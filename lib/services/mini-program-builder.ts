@@ -0,0 +1,233 @@
+/**
+ * 支付宝 / 小红书小程序构建服务
+ * 流程与微信小程序一致：下载模板 → 更新 appConfig.js 和项目配置 → 生成 Logo → 打包源码
+ */
+
+import { createServiceClient } from "@/lib/supabase/server";
+import { BuildProgressHelper } from "@/lib/build-progress";
+import { trackBuildCompleteEvent } from "@/services/analytics";
+import AdmZip from "adm-zip";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { isBuildCancelledError, updateBuildProgress } from "@/lib/services/build-cancellation";
+import {
+  MINI_PROGRAM_TEMPLATES,
+  addMiniProgramFiles,
+  applyMiniProgramProject,
+  findMiniProgramRoot,
+  writeMiniProgramIcon,
+} from "@/lib/services/mini-program";
+import { getMiniProgramLabel, type MiniProgramConfig, type MiniProgramPlatform } from "@/lib/config/mini-program";
+import type { IconStyleConfig } from "@/lib/config/icon-style";
+import { applyIconStyle } from "@/lib/services/icon-style";
+
+interface MiniProgramBuildConfig {
+  url: string;
+  appName: string;
+  appId: string;
+  version: string;
+  iconPath: string | null;
+  iconStyle?: IconStyleConfig | null;
+  // 网页内跳转到的其他 web-view 业务域名
+  miniProgramConfig?: MiniProgramConfig | null;
+}
+
+export async function processAlipayBuild(buildId: string, config: MiniProgramBuildConfig): Promise<void> {
+  await processMiniProgramBuild("alipay", buildId, config);
+}
+
+export async function processXiaohongshuBuild(buildId: string, config: MiniProgramBuildConfig): Promise<void> {
+  await processMiniProgramBuild("xiaohongshu", buildId, config);
+}
+
+async function processMiniProgramBuild(
+  platform: MiniProgramPlatform,
+  buildId: string,
+  config: MiniProgramBuildConfig
+): Promise<void> {
+  const supabase = createServiceClient();
+  const progressHelper = new BuildProgressHelper(platform);
+  const template = MINI_PROGRAM_TEMPLATES[platform];
+  const logPrefix = `[${getMiniProgramLabel(platform)} Build ${buildId}]`;
+  let tempDir: string | null = null;
+  let userId: string | null = null;
+  const buildStartTime = Date.now();
+
+  try {
+    // 获取构建记录以获取 user_id
+    const { data: buildRecord } = await supabase
+      .from("builds")
+      .select("user_id")
+      .eq("id", buildId)
+      .single();
+
+    userId = buildRecord?.user_id || null;
+
+    await updateBuildStatus(supabase, buildId, "processing", progressHelper.getProgressForStage("initializing"));
+
+    // Step 1: Download template from Storage
+    console.log(`${logPrefix} Downloading ${template.file}...`);
+    const { data: zipData, error: downloadError } = await supabase.storage
+      .from(template.bucket)
+      .download(template.file);
+
+    if (downloadError || !zipData) {
+      throw new Error(`Failed to download ${template.file}: ${downloadError?.message || "No data"}`);
+    }
+
+    await updateBuildStatus(supabase, buildId, "processing", progressHelper.getProgressForStage("downloading"));
+
+    // Step 2: Extract zip to temp directory
+    console.log(`${logPrefix} Extracting zip...`);
+    tempDir = path.join(os.tmpdir(), `${platform}-build-${buildId}-${Date.now()}`);
+    fs.mkdirSync(tempDir, { recursive: true });
+
+    const zip = new AdmZip(Buffer.from(await zipData.arrayBuffer()));
+    zip.extractAllTo(tempDir, true);
+
+    const projectRoot = findMiniProgramRoot(tempDir);
+    if (!projectRoot) {
+      throw new Error("Invalid zip structure: cannot find 'app.json'");
+    }
+    console.log(`${logPrefix} Project root found: ${projectRoot}`);
+
+    await updateBuildStatus(supabase, buildId, "processing", progressHelper.getProgressForStage("extracting"));
+
+    // Step 3: Generate logo (图标处理失败不影响构建，使用模板自带的 Logo)
+    let logo: string | null = null;
+    if (config.iconPath) {
+      console.log(`${logPrefix} Processing icon...`);
+      try {
+        const { data: iconData, error: iconError } = await supabase.storage
+          .from("user-builds")
+          .download(config.iconPath);
+        if (iconError || !iconData) {
+          throw new Error(iconError?.message || "No data");
+        }
+        logo = await writeMiniProgramIcon(
+          projectRoot,
+          platform,
+          await applyIconStyle(Buffer.from(await iconData.arrayBuffer()), config.iconStyle)
+        );
+      } catch (iconError) {
+        console.warn(`${logPrefix} Failed to process icon, using template logo:`, iconError);
+      }
+    }
+
+    await updateBuildStatus(supabase, buildId, "processing", progressHelper.getProgressForStage("processing_icons"));
+
+    // Step 4: Update appConfig.js / project config / app.json
+    console.log(`${logPrefix} Updating ${template.projectConfigFile} and appConfig.js...`);
+    applyMiniProgramProject(projectRoot, platform, {
+      url: config.url,
+      appName: config.appName,
+      appId: config.appId,
+      version: config.version,
+      miniProgramConfig: config.miniProgramConfig,
+      logo,
+    });
+
+    await updateBuildStatus(supabase, buildId, "processing", progressHelper.getProgressForStage("configuring"));
+
+    // Step 5: Repack zip
+    console.log(`${logPrefix} Repacking zip...`);
+    const newZip = new AdmZip();
+    addMiniProgramFiles(newZip, tempDir, "");
+    const outputBuffer = newZip.toBuffer();
+
+    await updateBuildStatus(supabase, buildId, "processing", progressHelper.getProgressForStage("packaging"));
+
+    // Step 6: Upload result
+    console.log(`${logPrefix} Uploading result...`);
+    const outputPath = `builds/${buildId}/${platform}-source.zip`;
+    const { error: uploadError } = await supabase.storage
+      .from("user-builds")
+      .upload(outputPath, outputBuffer, {
+        contentType: "application/zip",
+        upsert: true,
+      });
+
+    if (uploadError) {
+      throw new Error(`Failed to upload result: ${uploadError.message}`);
+    }
+
+    await updateBuildStatus(supabase, buildId, "processing", progressHelper.getProgressForStage("uploading"));
+
+    // Step 7: Update build record with output path
+    const { error: updateError } = await supabase
+      .from("builds")
+      .update({
+        status: "completed",
+        progress: progressHelper.getProgressForStage("completed"),
+        output_file_path: outputPath,
+        file_size: outputBuffer.length,
+      })
+      .eq("id", buildId)
+      .neq("status", "cancelled");
+
+    if (updateError) {
+      throw new Error(`Failed to update build record: ${updateError.message}`);
+    }
+
+    console.log(`${logPrefix} Completed successfully!`);
+
+    // 记录构建完成事件用于统计
+    if (userId) {
+      await trackBuildCompleteEvent(userId, {
+        buildId,
+        platform,
+        success: true,
+        durationMs: Date.now() - buildStartTime,
+      }).catch((err) => {
+        console.error(`${logPrefix} Failed to track build complete event:`, err);
+      });
+    }
+  } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`${logPrefix} Cancelled, stopping at stage boundary`);
+      return;
+    }
+    console.error(`${logPrefix} Error:`, error);
+
+    await supabase
+      .from("builds")
+      .update({
+        status: "failed",
+        error_message: error instanceof Error ? error.message : "Unknown error",
+      })
+      .eq("id", buildId)
+      .neq("status", "cancelled");
+
+    // 记录构建失败事件
+    if (userId) {
+      await trackBuildCompleteEvent(userId, {
+        buildId,
+        platform,
+        success: false,
+        durationMs: Date.now() - buildStartTime,
+        errorMessage: error instanceof Error ? error.message : "Unknown error",
+      }).catch((err) => {
+        console.error(`${logPrefix} Failed to track build failure event:`, err);
+      });
+    }
+  } finally {
+    if (tempDir && fs.existsSync(tempDir)) {
+      try {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      } catch (cleanupError) {
+        console.warn(`${logPrefix} Failed to cleanup temp dir:`, cleanupError);
+      }
+    }
+  }
+}
+
+async function updateBuildStatus(
+  supabase: ReturnType<typeof createServiceClient>,
+  buildId: string,
+  status: string,
+  progress: number
+): Promise<void> {
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgress(supabase, buildId, status, progress);
+}
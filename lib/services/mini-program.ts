@@ -0,0 +1,182 @@
+/**
+ * 支付宝 / 小红书小程序模板处理
+ * - 模板存放在 Storage（Alipay/alipay.zip、Xiaohongshu/xiaohongshu.zip），结构与微信小程序模板一致
+ * - applyMiniProgramProject：更新 appConfig.js（网址、名称、AppID、版本、web-view 业务域名、图标）、
+ *   项目配置（支付宝 mini.project.json / 小红书 project.config.json）和 app.json 的导航栏标题
+ * - writeMiniProgramIcon：生成小程序 Logo，后台上传时使用同一张图片
+ */
+
+import AdmZip from "adm-zip";
+import sharp from "sharp";
+import * as fs from "fs";
+import * as path from "path";
+import type { MiniProgramConfig, MiniProgramPlatform } from "@/lib/config/mini-program";
+
+interface MiniProgramTemplate {
+  bucket: string;
+  file: string;
+  // 开发者工具读取的项目配置文件
+  projectConfigFile: string;
+  // app.json window 中的导航栏标题字段
+  titleKey: string;
+  // 后台要求的 Logo 尺寸
+  iconSize: number;
+}
+
+export const MINI_PROGRAM_TEMPLATES: Record<MiniProgramPlatform, MiniProgramTemplate> = {
+  alipay: {
+    bucket: "Alipay",
+    file: "alipay.zip",
+    projectConfigFile: "mini.project.json",
+    titleKey: "defaultTitle",
+    iconSize: 180,
+  },
+  xiaohongshu: {
+    bucket: "Xiaohongshu",
+    file: "xiaohongshu.zip",
+    projectConfigFile: "project.config.json",
+    titleKey: "navigationBarTitleText",
+    iconSize: 144,
+  },
+};
+
+const MINI_PROGRAM_ICON_PATH = "images/logo.png";
+
+// 不放入输出包的系统文件
+const IGNORED_FILES = new Set([".DS_Store", "Thumbs.db", "__MACOSX"]);
+
+export interface MiniProgramProjectInput {
+  url: string;
+  appName: string;
+  appId: string;
+  version: string;
+  miniProgramConfig?: MiniProgramConfig | null;
+  // writeMiniProgramIcon 返回的路径，未上传图标时使用模板自带的 Logo
+  logo?: string | null;
+}
+
+/**
+ * 递归查找包含 app.json 的项目根目录
+ */
+export function findMiniProgramRoot(dir: string, maxDepth: number = 3): string | null {
+  if (fs.existsSync(path.join(dir, "app.json"))) return dir;
+  if (maxDepth <= 0) return null;
+
+  try {
+    for (const item of fs.readdirSync(dir)) {
+      const itemPath = path.join(dir, item);
+      if (fs.statSync(itemPath).isDirectory()) {
+        const result = findMiniProgramRoot(itemPath, maxDepth - 1);
+        if (result) return result;
+      }
+    }
+  } catch {
+    // 忽略读取错误
+  }
+
+  return null;
+}
+
+/**
+ * web-view 业务域名：网址所在域名在前，加上用户填写的其他域名
+ */
+export function getWebViewDomains(url: string, config: MiniProgramConfig | null | undefined): string[] {
+  const domains: string[] = [];
+  try {
+    domains.push(new URL(url).hostname.toLowerCase());
+  } catch {
+    // URL 已在 API 层校验，这里只做兜底
+  }
+  for (const domain of config?.webViewDomains || []) {
+    if (!domains.includes(domain)) domains.push(domain);
+  }
+  return domains;
+}
+
+function readAppConfig(configPath: string): Record<string, any> | null {
+  if (!fs.existsSync(configPath)) return null;
+
+  // 格式为 module.exports = { ... };
+  const match = fs.readFileSync(configPath, "utf-8").match(/module\.exports\s*=\s*(\{[\s\S]*\});?\s*$/);
+  if (!match) return null;
+
+  try {
+    return new Function(`return ${match[1]}`)();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 写入小程序基本信息，模板缺少的配置文件按默认结构创建
+ */
+export function applyMiniProgramProject(
+  projectRoot: string,
+  platform: MiniProgramPlatform,
+  input: MiniProgramProjectInput
+): void {
+  const template = MINI_PROGRAM_TEMPLATES[platform];
+
+  const appConfigPath = path.join(projectRoot, "appConfig.js");
+  const appConfig = readAppConfig(appConfigPath) || {};
+  appConfig.general = {
+    ...appConfig.general,
+    initialUrl: input.url,
+    appName: input.appName,
+    appId: input.appId,
+    version: input.version,
+    webViewDomains: getWebViewDomains(input.url, input.miniProgramConfig),
+    ...(input.logo && { logo: input.logo }),
+  };
+  fs.writeFileSync(
+    appConfigPath,
+    `// appConfig.js - 集中化配置文件\nmodule.exports = ${JSON.stringify(appConfig, null, 2)};\n`,
+    "utf-8"
+  );
+
+  const projectConfigPath = path.join(projectRoot, template.projectConfigFile);
+  if (fs.existsSync(projectConfigPath)) {
+    const projectConfig = JSON.parse(fs.readFileSync(projectConfigPath, "utf-8"));
+    projectConfig.appid = input.appId;
+    fs.writeFileSync(projectConfigPath, JSON.stringify(projectConfig, null, 2), "utf-8");
+  }
+
+  const appJsonPath = path.join(projectRoot, "app.json");
+  const appJson = JSON.parse(fs.readFileSync(appJsonPath, "utf-8"));
+  appJson.window = { ...appJson.window, [template.titleKey]: input.appName };
+  fs.writeFileSync(appJsonPath, JSON.stringify(appJson, null, 2), "utf-8");
+}
+
+/**
+ * 生成小程序 Logo，返回 appConfig.js 中引用的路径
+ */
+export async function writeMiniProgramIcon(
+  projectRoot: string,
+  platform: MiniProgramPlatform,
+  iconBuffer: Buffer
+): Promise<string> {
+  const { iconSize } = MINI_PROGRAM_TEMPLATES[platform];
+  const iconPath = path.join(projectRoot, MINI_PROGRAM_ICON_PATH);
+  fs.mkdirSync(path.dirname(iconPath), { recursive: true });
+
+  await sharp(iconBuffer)
+    .resize(iconSize, iconSize, { fit: "cover" })
+    .png()
+    .toFile(iconPath);
+
+  return `/${MINI_PROGRAM_ICON_PATH}`;
+}
+
+export function addMiniProgramFiles(zip: AdmZip, folderPath: string, zipPath: string): void {
+  for (const entry of fs.readdirSync(folderPath, { withFileTypes: true })) {
+    if (IGNORED_FILES.has(entry.name)) continue;
+    const fullPath = path.join(folderPath, entry.name);
+    const entryZipPath = zipPath ? `${zipPath}/${entry.name}` : entry.name;
+
+    if (entry.isDirectory()) {
+      addMiniProgramFiles(zip, fullPath, entryZipPath);
+    } else {
+      zip.addFile(entryZipPath, fs.readFileSync(fullPath));
+    }
+  }
+}
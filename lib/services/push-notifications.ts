@@ -0,0 +1,41 @@
+/**
+ * 推送通知模板文件写入
+ * appConfig.json 字段由 lib/config/push-notifications.ts 负责，这里处理 FCM 需要的原生配置文件
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { getPushProvider, type PushConfig } from "@/lib/config/push-notifications";
+
+// Median 模板中由构建器按需启用的行，去掉前缀即可生效
+const BUILDER_MARKER = "//[enabled by builder] ";
+
+function enableBuilderLine(filePath: string, match: string): void {
+  if (!fs.existsSync(filePath)) return;
+  const content = fs.readFileSync(filePath, "utf-8");
+  const updated = content
+    .split("\n")
+    .map((line) => (line.includes(BUILDER_MARKER) && line.includes(match) ? line.replace(BUILDER_MARKER, "") : line))
+    .join("\n");
+  fs.writeFileSync(filePath, updated, "utf-8");
+}
+
+/**
+ * Android FCM：写入 app/google-services.json 并启用 google-services Gradle 插件
+ */
+export function installAndroidPushFiles(projectRoot: string, push: PushConfig | null | undefined): void {
+  if (getPushProvider(push, "android") !== "fcm" || !push?.googleServicesJson) return;
+
+  fs.writeFileSync(path.join(projectRoot, "app", "google-services.json"), push.googleServicesJson, "utf-8");
+  enableBuilderLine(path.join(projectRoot, "build.gradle"), "com.google.gms:google-services");
+  enableBuilderLine(path.join(projectRoot, "app", "build.gradle"), "com.google.gms.google-services");
+}
+
+/**
+ * iOS FCM：替换项目根目录的 GoogleService-Info.plist（Xcode 工程已引用该文件）
+ */
+export function installIOSPushFiles(projectRoot: string, push: PushConfig | null | undefined): void {
+  if (getPushProvider(push, "ios") !== "fcm" || !push?.googleServiceInfoPlist) return;
+
+  fs.writeFileSync(path.join(projectRoot, "GoogleService-Info.plist"), push.googleServiceInfoPlist, "utf-8");
+}
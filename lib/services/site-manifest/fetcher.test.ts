@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { LookupAddress } from "dns";
+import { fetch, Response } from "undici";
+import { httpSiteFetcher, isPrivateAddress, lookupPublicAddress } from "./fetcher";
+
+const dns = vi.hoisted(() => ({ lookup: vi.fn() }));
+
+vi.mock("dns/promises", () => ({ lookup: dns.lookup }));
+
+vi.mock("undici", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("undici")>()),
+  fetch: vi.fn(),
+}));
+
+const fetchMock = vi.mocked(fetch);
+
+function lookupAsync(hostname: string, all: boolean): Promise<string | LookupAddress[]> {
+  return new Promise((resolve, reject) => {
+    lookupPublicAddress(hostname, { all }, (error, address) => (error ? reject(error) : resolve(address)));
+  });
+}
+
+function redirect(location: string): Response {
+  return new Response(null, { status: 302, headers: { location } });
+}
+
+describe("isPrivateAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.16.0.1",
+    "192.168.1.1",
+    "100.64.0.1",
+    "169.254.169.254",
+    "0.0.0.0",
+    "224.0.0.1",
+    "255.255.255.255",
+    "::",
+    "::1",
+    "::ffff:127.0.0.1",
+    "::ffff:7f00:1",
+    "::ffff:a9fe:a9fe",
+    "::127.0.0.1",
+    "64:ff9b::7f00:1",
+    "64:ff9b::10.0.0.1",
+    "64:ff9b:1::1",
+    "2002:7f00:1::1",
+    "2001:0:4136:e378::1",
+    "fc00::1",
+    "fd12:3456::1",
+    "fe80::1",
+    "fe80::1%eth0",
+    "ff02::1",
+    "not-an-ip",
+  ])("blocks %s", (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(["8.8.8.8", "93.184.216.34", "2606:4700:4700::1111", "::ffff:8.8.8.8", "::ffff:808:808", "64:ff9b::808:808", "2002:808:808::1"])(
+    "allows %s",
+    (address) => {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  );
+});
+
+describe("lookupPublicAddress", () => {
+  beforeEach(() => {
+    dns.lookup.mockReset();
+  });
+
+  it("connects only to the vetted addresses", async () => {
+    dns.lookup.mockResolvedValue([
+      { address: "93.184.216.34", family: 4 },
+      { address: "2606:4700:4700::1111", family: 6 },
+    ]);
+
+    await expect(lookupAsync("example.com", false)).resolves.toBe("93.184.216.34");
+    await expect(lookupAsync("example.com", true)).resolves.toEqual([
+      { address: "93.184.216.34", family: 4 },
+      { address: "2606:4700:4700::1111", family: 6 },
+    ]);
+  });
+
+  it("refuses hosts that resolve to any private address", async () => {
+    dns.lookup.mockResolvedValue([
+      { address: "93.184.216.34", family: 4 },
+      { address: "::ffff:7f00:1", family: 6 },
+    ]);
+
+    await expect(lookupAsync("rebind.example.com", false)).rejects.toThrow("Refusing to fetch private address");
+  });
+});
+
+describe("httpSiteFetcher", () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it("re-checks every redirect target before following it", async () => {
+    fetchMock.mockResolvedValueOnce(redirect("http://[::ffff:7f00:1]/admin"));
+
+    await expect(httpSiteFetcher.fetch("https://example.com", { maxBytes: 1024, accept: "text/html" })).rejects.toThrow(
+      "Refusing to fetch private address"
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("follows public redirects through the pinned agent", async () => {
+    fetchMock
+      .mockResolvedValueOnce(redirect("/home"))
+      .mockResolvedValueOnce(new Response("<html></html>", { headers: { "content-type": "text/html" } }));
+
+    const result = await httpSiteFetcher.fetch("https://example.com", { maxBytes: 1024, accept: "text/html" });
+
+    expect(result).toMatchObject({ url: "https://example.com/home", contentType: "text/html" });
+    expect(result.body.toString()).toBe("<html></html>");
+    const dispatchers = fetchMock.mock.calls.map(([, init]) => init?.dispatcher);
+    expect(dispatchers[0]).toBeDefined();
+    expect(dispatchers[1]).toBe(dispatchers[0]);
+  });
+
+  it("rejects private IP literals and unsupported protocols without connecting", async () => {
+    const options = { maxBytes: 1024, accept: "text/html" };
+
+    await expect(httpSiteFetcher.fetch("http://169.254.169.254/latest/meta-data", options)).rejects.toThrow(
+      "Refusing to fetch private address"
+    );
+    await expect(httpSiteFetcher.fetch("file:///etc/passwd", options)).rejects.toThrow("Unsupported protocol");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("surfaces connection errors instead of a generic fetch failure", async () => {
+    fetchMock.mockRejectedValueOnce(
+      new TypeError("fetch failed", { cause: new Error("Refusing to fetch private address: rebind.example.com") })
+    );
+
+    await expect(httpSiteFetcher.fetch("https://rebind.example.com", { maxBytes: 1024, accept: "text/html" })).rejects.toThrow(
+      "Refusing to fetch private address: rebind.example.com"
+    );
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * 网页抓取接口
+ * - http: 服务端直接请求目标网站（拒绝内网地址，手动跟随重定向并逐跳校验）
+ * - stub: 本地模拟实现，不访问网络，用于测试和本地开发（SITE_FETCH_MODE=stub）
+ *
+ * 域名在建立连接时解析并校验，连接直接使用校验过的地址（避免 DNS 重绑定：校验时解析到公网、连接时解析到内网）
+ */
+
+import { lookup } from "dns/promises";
+import { BlockList, isIP, type LookupFunction } from "net";
+import type { LookupAddress } from "dns";
+import sharp from "sharp";
+import { Agent, fetch, type Response } from "undici";
+
+export interface SiteFetchResponse {
+  // 重定向后的最终地址
+  url: string;
+  contentType: string;
+  body: Buffer;
+}
+
+export interface SiteFetcher {
+  mode: "http" | "stub";
+  fetch(url: string, options: { maxBytes: number; accept: string }): Promise<SiteFetchResponse>;
+}
+
+const FETCH_TIMEOUT_MS = 8000;
+const MAX_REDIRECTS = 5;
+const USER_AGENT = "Mozilla/5.0 (compatible; AppBuilder/1.0; +site-import)";
+
+// 不允许访问的 IPv4 地址段（本机、内网、链路本地、保留和组播地址）
+const blockedIPv4 = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedIPv4.addSubnet(network, prefix, "ipv4");
+}
+
+// 不允许访问的 IPv6 地址段（未指定、本机、ULA、链路本地、站点本地、组播、文档、Teredo、NAT64 本地前缀）
+const blockedIPv6 = new BlockList();
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["100::", 64],
+  ["64:ff9b:1::", 48],
+  ["2001::", 32],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["fec0::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedIPv6.addSubnet(network, prefix, "ipv6");
+}
+
+// 内嵌 IPv4 地址的 IPv6 前缀，按内嵌的 IPv4 地址校验（::ffff:7f00:1 即 127.0.0.1）
+const EMBEDDED_IPV4_PREFIXES: Array<{ network: BlockList; offset: number }> = [
+  // IPv4 映射（::ffff:0:0/96）、IPv4 兼容（::/96）、NAT64（64:ff9b::/96）：末尾 32 位
+  { network: subnet("::ffff:0:0", 96), offset: 6 },
+  { network: subnet("::", 96), offset: 6 },
+  { network: subnet("64:ff9b::", 96), offset: 6 },
+  // 6to4（2002::/16）：第 16 ~ 47 位
+  { network: subnet("2002::", 16), offset: 1 },
+];
+
+function subnet(network: string, prefix: number): BlockList {
+  const list = new BlockList();
+  list.addSubnet(network, prefix, "ipv6");
+  return list;
+}
+
+/**
+ * IPv6 地址展开为 8 个 16 位分组（支持 :: 缩写和末尾的点分 IPv4）
+ */
+function parseIPv6Groups(address: string): number[] {
+  let text = address;
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted[1].split(".").map(Number);
+    text = `${text.slice(0, -dotted[1].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split("::");
+  const parse = (part: string | undefined) => (part ? part.split(":").map((group) => parseInt(group, 16)) : []);
+  const headGroups = parse(head);
+  const tailGroups = parse(tail);
+  const fill = tail === undefined ? [] : new Array(8 - headGroups.length - tailGroups.length).fill(0);
+  return [...headGroups, ...fill, ...tailGroups];
+}
+
+/**
+ * 是否为不允许访问的地址（非公网地址，含各种内嵌 IPv4 的 IPv6 写法）
+ */
+export function isPrivateAddress(address: string): boolean {
+  // 去掉链路本地地址的 zone（fe80::1%eth0）
+  const ip = address.split("%")[0];
+  const family = isIP(ip);
+  if (family === 4) return blockedIPv4.check(ip, "ipv4");
+  if (family !== 6) return true;
+
+  const embedded = EMBEDDED_IPV4_PREFIXES.find(({ network }) => network.check(ip, "ipv6"));
+  if (embedded) {
+    const groups = parseIPv6Groups(ip);
+    const high = groups[embedded.offset];
+    const low = groups[embedded.offset + 1];
+    return blockedIPv4.check(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`, "ipv4");
+  }
+  return blockedIPv6.check(ip, "ipv6");
+}
+
+/**
+ * 解析域名，任一地址不是公网地址时拒绝
+ */
+async function resolvePublicAddresses(hostname: string): Promise<LookupAddress[]> {
+  const addresses = isIP(hostname) ? [{ address: hostname, family: isIP(hostname) }] : await lookup(hostname, { all: true });
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new Error(`Refusing to fetch private address: ${hostname}`);
+  }
+  return addresses;
+}
+
+/**
+ * 建立连接时使用的 DNS 解析：只返回校验过的公网地址，连接不会再做一次解析
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  resolvePublicAddresses(hostname).then(
+    (addresses) => {
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    },
+    (error: NodeJS.ErrnoException) => callback(error, "")
+  );
+};
+
+const publicAgent = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+/**
+ * 每一跳发出请求前的校验：协议，以及 IP 字面量（IP 直连不经过 DNS 解析）
+ */
+function assertPublicUrl(url: URL) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Unsupported protocol: ${url.protocol}`);
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new Error(`Refusing to fetch private address: ${url.hostname}`);
+  }
+}
+
+async function readLimited(response: Response, maxBytes: number): Promise<Buffer> {
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > maxBytes) {
+    throw new Error(`Response too large (${declared} bytes)`);
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const chunks: Buffer[] = [];
+  let total = 0;
+  const reader = response.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Response too large (over ${maxBytes} bytes)`);
+    }
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks);
+}
+
+async function fetchPublic(url: URL, accept: string): Promise<Response> {
+  try {
+    return await fetch(url, {
+      redirect: "manual",
+      headers: { "User-Agent": USER_AGENT, Accept: accept },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      dispatcher: publicAgent,
+    });
+  } catch (error) {
+    // 连接阶段的错误（包括地址校验失败）包装在 fetch 的 TypeError 中
+    if (error instanceof TypeError && error.cause instanceof Error) throw error.cause;
+    throw error;
+  }
+}
+
+export const httpSiteFetcher: SiteFetcher = {
+  mode: "http",
+
+  async fetch(url, { maxBytes, accept }) {
+    let current = new URL(url);
+    for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+      assertPublicUrl(current);
+
+      const response = await fetchPublic(current, accept);
+
+      const location = response.headers.get("location");
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        current = new URL(location, current);
+        continue;
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} for ${current.toString()}`);
+      }
+
+      return {
+        url: current.toString(),
+        contentType: response.headers.get("content-type") || "",
+        body: await readLimited(response, maxBytes),
+      };
+    }
+    throw new Error(`Too many redirects for ${url}`);
+  },
+};
+
+/**
+ * 本地模拟实现：任意网址都返回同一个带 manifest 和图标的示例站点
+ */
+export const stubSiteFetcher: SiteFetcher = {
+  mode: "stub",
+
+  async fetch(url) {
+    const { pathname } = new URL(url);
+
+    if (pathname === "/manifest.webmanifest") {
+      const manifest = {
+        name: "Stub Site",
+        short_name: "Stub",
+        theme_color: "#1e88e5",
+        background_color: "#ffffff",
+        icons: [
+          { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png" },
+          { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png" },
+        ],
+      };
+      return { url, contentType: "application/manifest+json", body: Buffer.from(JSON.stringify(manifest)) };
+    }
+
+    const iconMatch = pathname.match(/^\/(?:icons\/icon-(\d+)|apple-touch-icon)\.png$/);
+    if (iconMatch) {
+      const size = Number(iconMatch[1] || 180);
+      const body = await sharp({
+        create: { width: size, height: size, channels: 4, background: "#1e88e5" },
+      })
+        .png()
+        .toBuffer();
+      return { url, contentType: "image/png", body };
+    }
+
+    const html = `<!doctype html><html><head>
+<title>Stub Site</title>
+<meta name="theme-color" content="#1e88e5">
+<link rel="manifest" href="/manifest.webmanifest">
+<link rel="apple-touch-icon" href="/apple-touch-icon.png">
+</head><body></body></html>`;
+    return { url, contentType: "text/html; charset=utf-8", body: Buffer.from(html) };
+  },
+};
+
+export function getSiteFetcher(): SiteFetcher {
+  return process.env.SITE_FETCH_MODE === "stub" ? stubSiteFetcher : httpSiteFetcher;
+}
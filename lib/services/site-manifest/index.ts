@@ -0,0 +1,125 @@
+/**
+ * 网站信息自动导入
+ *
+ * 抓取目标网页，合并 Web App Manifest 与 <head> 中的信息：
+ * - 应用名称：manifest name → application-name → <title>
+ * - 主题色：manifest theme_color → <meta name="theme-color">
+ * - 图标：manifest icons、apple-touch-icon、favicon 中分辨率最高且能解码的一个，转为 PNG
+ * 抓取通过可替换的 SiteFetcher 完成，离线环境使用 stub 实现。
+ */
+
+import sharp from "sharp";
+import {
+  MAX_IMPORTED_ICON_SIZE,
+  MAX_SITE_HTML_BYTES,
+  MAX_SITE_ICON_BYTES,
+  type SiteIconCandidate,
+  type SiteManifestResult,
+} from "@/lib/config/site-manifest";
+import { getSiteFetcher, type SiteFetcher } from "./fetcher";
+import { parseManifest, parseSiteHead } from "./parser";
+
+export { getSiteFetcher, httpSiteFetcher, stubSiteFetcher } from "./fetcher";
+export type { SiteFetcher, SiteFetchResponse } from "./fetcher";
+
+// 最多尝试下载的图标数量（声明的尺寸可能不准确，或格式无法解码）
+const MAX_ICON_ATTEMPTS = 4;
+
+function isSvg(icon: SiteIconCandidate): boolean {
+  return icon.type === "image/svg+xml" || /\.svg($|\?)/i.test(icon.url);
+}
+
+/**
+ * 图标排序：只用于自适应遮罩（maskable）或单色（monochrome）的图标排在后面，其余按尺寸从大到小
+ * SVG 可以任意缩放，视为最大尺寸
+ */
+function rankIcons(icons: SiteIconCandidate[]): SiteIconCandidate[] {
+  const score = (icon: SiteIconCandidate) => {
+    const purposes = (icon.purpose || "any").split(/\s+/);
+    const generalPurpose = purposes.includes("any") ? 1 : 0;
+    const size = isSvg(icon) ? MAX_IMPORTED_ICON_SIZE : icon.size ?? 0;
+    return generalPurpose * 100000 + size;
+  };
+  const unique = icons.filter((icon, index) => icons.findIndex((other) => other.url === icon.url) === index);
+  return unique.sort((a, b) => score(b) - score(a));
+}
+
+async function downloadIcon(fetcher: SiteFetcher, icon: SiteIconCandidate): Promise<SiteManifestResult["icon"]> {
+  const response = await fetcher.fetch(icon.url, { maxBytes: MAX_SITE_ICON_BYTES, accept: "image/*" });
+  const { data, info } = await sharp(response.body, { density: 300 })
+    .resize({
+      width: MAX_IMPORTED_ICON_SIZE,
+      height: MAX_IMPORTED_ICON_SIZE,
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    url: icon.url,
+    width: info.width,
+    height: info.height,
+    dataUrl: `data:image/png;base64,${data.toString("base64")}`,
+  };
+}
+
+export async function importSiteManifest(
+  url: string,
+  fetcher: SiteFetcher = getSiteFetcher()
+): Promise<SiteManifestResult> {
+  const page = await fetcher.fetch(url, {
+    maxBytes: MAX_SITE_HTML_BYTES,
+    accept: "text/html,application/xhtml+xml",
+  });
+  const head = parseSiteHead(page.body.toString("utf-8"), page.url);
+
+  // manifest 获取失败时仍使用网页中的信息
+  let manifest: ReturnType<typeof parseManifest> | null = null;
+  if (head.manifestUrl) {
+    try {
+      const response = await fetcher.fetch(head.manifestUrl, {
+        maxBytes: MAX_SITE_HTML_BYTES,
+        accept: "application/manifest+json,application/json",
+      });
+      manifest = parseManifest(response.body.toString("utf-8"), response.url);
+    } catch (error) {
+      console.warn(`[Site Manifest] Failed to load manifest ${head.manifestUrl}:`, error);
+    }
+  }
+
+  const declaredIcons = [...(manifest?.icons || []), ...head.icons];
+  // 没有声明任何图标时尝试默认的 /favicon.ico
+  if (declaredIcons.length === 0) {
+    declaredIcons.push({
+      url: new URL("/favicon.ico", page.url).toString(),
+      source: "icon",
+      size: null,
+      type: null,
+      purpose: null,
+    });
+  }
+  const icons = rankIcons(declaredIcons);
+
+  let icon: SiteManifestResult["icon"] = null;
+  for (const candidate of icons.slice(0, MAX_ICON_ATTEMPTS)) {
+    try {
+      icon = await downloadIcon(fetcher, candidate);
+      break;
+    } catch (error) {
+      // 例如 sharp 无法解码的 .ico
+      console.warn(`[Site Manifest] Skipping icon ${candidate.url}:`, error);
+    }
+  }
+
+  return {
+    url: page.url,
+    name: manifest?.name || head.applicationName || head.title,
+    shortName: manifest?.shortName || null,
+    themeColor: manifest?.themeColor || head.themeColor,
+    backgroundColor: manifest?.backgroundColor || null,
+    manifestUrl: head.manifestUrl,
+    icons,
+    icon,
+  };
+}
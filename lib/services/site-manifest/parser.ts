@@ -0,0 +1,162 @@
+/**
+ * 网页 <head> 与 Web App Manifest 解析
+ * 只需要少量标签，用正则扫描而不是完整的 HTML 解析器
+ */
+
+import {
+  normalizeHexColor,
+  parseIconSizes,
+  type SiteIconCandidate,
+} from "@/lib/config/site-manifest";
+
+export interface ParsedSiteHead {
+  title: string | null;
+  applicationName: string | null;
+  themeColor: string | null;
+  manifestUrl: string | null;
+  icons: SiteIconCandidate[];
+}
+
+export interface ParsedManifest {
+  name: string | null;
+  shortName: string | null;
+  themeColor: string | null;
+  backgroundColor: string | null;
+  icons: SiteIconCandidate[];
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  // 跳过标签名
+  const body = tag.replace(/^<\s*[a-z]+/i, "").replace(/\/?>$/, "");
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body))) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+function resolveUrl(href: string | undefined, baseUrl: string): string | null {
+  if (!href?.trim()) return null;
+  try {
+    const url = new URL(href.trim(), baseUrl);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function cleanText(value: string | null | undefined): string | null {
+  const text = decodeEntities(value || "").replace(/\s+/g, " ").trim();
+  return text || null;
+}
+
+/**
+ * 解析网页头部：标题、theme-color、manifest 链接、apple-touch-icon 和 favicon
+ */
+export function parseSiteHead(html: string, pageUrl: string): ParsedSiteHead {
+  const head = html.match(/<head[\s>][\s\S]*?<\/head>/i)?.[0] || html;
+
+  // <base href> 会改变相对链接的基准
+  const baseTag = head.match(/<base\s[^>]*>/i)?.[0];
+  const baseUrl = (baseTag && resolveUrl(parseAttributes(baseTag).href, pageUrl)) || pageUrl;
+
+  const result: ParsedSiteHead = {
+    title: cleanText(head.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]),
+    applicationName: null,
+    themeColor: null,
+    manifestUrl: null,
+    icons: [],
+  };
+
+  for (const tag of head.match(/<meta\s[^>]*>/gi) || []) {
+    const attributes = parseAttributes(tag);
+    const name = (attributes.name || attributes.property || "").toLowerCase();
+    // 带 media 的 theme-color（深色模式等）优先级低于不带 media 的
+    if (name === "theme-color" && (!result.themeColor || !attributes.media)) {
+      result.themeColor = normalizeHexColor(attributes.content) || result.themeColor;
+    } else if ((name === "application-name" || name === "apple-mobile-web-app-title") && !result.applicationName) {
+      result.applicationName = cleanText(attributes.content);
+    }
+  }
+
+  for (const tag of head.match(/<link\s[^>]*>/gi) || []) {
+    const attributes = parseAttributes(tag);
+    const rel = (attributes.rel || "").toLowerCase().split(/\s+/);
+    const url = resolveUrl(attributes.href, baseUrl);
+    if (!url) continue;
+
+    if (rel.includes("manifest")) {
+      result.manifestUrl = result.manifestUrl || url;
+    } else if (rel.includes("apple-touch-icon") || rel.includes("apple-touch-icon-precomposed")) {
+      // 未声明 sizes 的 apple-touch-icon 约定为 180x180
+      result.icons.push({
+        url,
+        source: "apple-touch-icon",
+        size: parseIconSizes(attributes.sizes) ?? 180,
+        type: attributes.type || null,
+        purpose: null,
+      });
+    } else if (rel.includes("icon")) {
+      result.icons.push({
+        url,
+        source: "icon",
+        size: parseIconSizes(attributes.sizes),
+        type: attributes.type || null,
+        purpose: null,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 解析 Web App Manifest，图标地址相对于 manifest 地址
+ */
+export function parseManifest(raw: string, manifestUrl: string): ParsedManifest {
+  let data: Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(raw);
+    data = parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    data = {};
+  }
+
+  const text = (value: unknown) => (typeof value === "string" ? cleanText(value) : null);
+  const icons: SiteIconCandidate[] = [];
+  for (const icon of Array.isArray(data.icons) ? data.icons : []) {
+    if (!icon || typeof icon !== "object") continue;
+    const { src, sizes, type, purpose } = icon as Record<string, unknown>;
+    const url = resolveUrl(typeof src === "string" ? src : undefined, manifestUrl);
+    if (!url) continue;
+    icons.push({
+      url,
+      source: "manifest",
+      size: parseIconSizes(typeof sizes === "string" ? sizes : null),
+      type: typeof type === "string" ? type : null,
+      purpose: typeof purpose === "string" ? purpose.toLowerCase() : null,
+    });
+  }
+
+  return {
+    name: text(data.name),
+    shortName: text(data.short_name),
+    themeColor: normalizeHexColor(typeof data.theme_color === "string" ? data.theme_color : null),
+    backgroundColor: normalizeHexColor(typeof data.background_color === "string" ? data.background_color : null),
+    icons,
+  };
+}
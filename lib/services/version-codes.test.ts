@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { cloudbaseVersionCodeStore, issueVersionCode, type VersionCodeStore } from "./version-codes";
+
+type Counter = { _id: string; user_id: string; track: string; package_id: string; last_version_code: number };
+
+const cloudbase = vi.hoisted(() => ({ counters: [] as Counter[] }));
+
+// 内存中的 version_counters 集合，支持 doc().get / add（_id 重复时报错）/ where().update（返回更新条数）
+function createCounterCollection() {
+  const matches = (counter: Counter, where: Partial<Counter>) =>
+    Object.entries(where).every(([key, value]) => counter[key as keyof Counter] === value);
+  return {
+    doc: (id: string) => ({
+      get: async () => ({
+        data: cloudbase.counters.filter((counter) => counter._id === id).map((counter) => ({ ...counter })),
+      }),
+    }),
+    add: async (values: Counter) => {
+      if (cloudbase.counters.some((counter) => counter._id === values._id)) {
+        throw new Error("duplicate key");
+      }
+      cloudbase.counters.push({ ...values });
+    },
+    where: (where: Partial<Counter>) => ({
+      update: async (values: Partial<Counter>) => {
+        const updated = cloudbase.counters.filter((counter) => matches(counter, where));
+        updated.forEach((counter) => Object.assign(counter, values));
+        return { updated: updated.length };
+      },
+    }),
+  };
+}
+
+vi.mock("@/lib/supabase/server", () => ({ createServiceClient: vi.fn() }));
+
+vi.mock("@/lib/cloudbase/connector", () => ({
+  CloudBaseConnector: class {
+    async initialize() {}
+    getClient() {
+      return {
+        collection: () => createCounterCollection(),
+      };
+    }
+  },
+}));
+
+function fakeStore(issue: VersionCodeStore["issue"]): VersionCodeStore {
+  return { kind: "supabase", issue: vi.fn(issue), getLast: vi.fn(), listHistory: vi.fn() };
+}
+
+describe("issueVersionCode", () => {
+  it("passes integer requests to the store and returns the issued code", async () => {
+    const store = fakeStore(async (_userId, _track, _packageId, requested) => ({ versionCode: requested ?? 8, previous: 7 }));
+
+    await expect(issueVersionCode(store, "user-1", "android", "com.example.app", "")).resolves.toBe("8");
+    await expect(issueVersionCode(store, "user-1", "android", "com.example.app", " 20 ")).resolves.toBe("20");
+    expect(store.issue).toHaveBeenNthCalledWith(1, "user-1", "android", "com.example.app", null);
+    expect(store.issue).toHaveBeenNthCalledWith(2, "user-1", "android", "com.example.app", 20);
+  });
+
+  it("uses dotted iOS build numbers as is without touching the counter", async () => {
+    const store = fakeStore(async () => ({ versionCode: 1, previous: null }));
+
+    await expect(issueVersionCode(store, "user-1", "ios", "com.example.app", "1.2.3")).resolves.toBe("1.2.3");
+    expect(store.issue).not.toHaveBeenCalled();
+  });
+
+  it("refuses to issue a code without a package ID", async () => {
+    const store = fakeStore(async () => ({ versionCode: 9, previous: 8 }));
+
+    await expect(issueVersionCode(store, "user-1", "android", "", "")).rejects.toThrow("without a package ID");
+    expect(store.issue).not.toHaveBeenCalled();
+  });
+
+  it("fails instead of handing out a fallback code when the store fails", async () => {
+    const store = fakeStore(async () => {
+      throw new Error("counter unavailable");
+    });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(issueVersionCode(store, "user-1", "android", "com.example.app", "")).rejects.toThrow(
+      "Failed to issue android version code for com.example.app"
+    );
+    await expect(issueVersionCode(store, "user-1", "android", "com.example.app", "12")).rejects.toThrow();
+  });
+});
+
+describe("cloudbaseVersionCodeStore.issue", () => {
+  beforeEach(() => {
+    cloudbase.counters = [];
+  });
+
+  it("starts a new counter at 1 and increments it on later builds", async () => {
+    await expect(cloudbaseVersionCodeStore.issue("user-1", "android", "com.example.app", null)).resolves.toEqual({
+      versionCode: 1,
+      previous: null,
+    });
+    await expect(cloudbaseVersionCodeStore.issue("user-1", "android", "com.example.app", null)).resolves.toEqual({
+      versionCode: 2,
+      previous: 1,
+    });
+  });
+
+  it("keeps separate counters per track and package", async () => {
+    await cloudbaseVersionCodeStore.issue("user-1", "android", "com.example.app", 10);
+
+    await expect(cloudbaseVersionCodeStore.issue("user-1", "harmonyos", "com.example.app", null)).resolves.toMatchObject({
+      versionCode: 1,
+    });
+    await expect(cloudbaseVersionCodeStore.issue("user-1", "android", "com.example.other", null)).resolves.toMatchObject({
+      versionCode: 1,
+    });
+    await expect(cloudbaseVersionCodeStore.issue("user-1", "android", "com.example.app", null)).resolves.toMatchObject({
+      versionCode: 11,
+    });
+  });
+
+  it("never moves the counter back when a lower code is requested", async () => {
+    await cloudbaseVersionCodeStore.issue("user-1", "android", "com.example.app", 10);
+
+    await expect(cloudbaseVersionCodeStore.issue("user-1", "android", "com.example.app", 3)).resolves.toEqual({
+      versionCode: 3,
+      previous: 10,
+    });
+    await expect(cloudbaseVersionCodeStore.issue("user-1", "android", "com.example.app", null)).resolves.toMatchObject({
+      versionCode: 11,
+    });
+  });
+
+  it("gives concurrent builds distinct codes", async () => {
+    const issued = await Promise.all(
+      [1, 2, 3].map(() => cloudbaseVersionCodeStore.issue("user-1", "android", "com.example.app", null))
+    );
+
+    expect(issued.map(({ versionCode }) => versionCode).sort()).toEqual([1, 2, 3]);
+    expect(cloudbase.counters).toHaveLength(1);
+  });
+});
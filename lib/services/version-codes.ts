@@ -0,0 +1,213 @@
+/**
+ * 版本号发放
+ *
+ * 按（用户、平台、包名）记录已发放的最大版本号：请求留空时在此基础上加 1，手动填写时原样使用，
+ * 计数器只增不减（手动填写更小的值不会让后续自动版本号回退）。
+ * - supabase: version_counters 表，issue_version_code 函数保证并发构建拿到不同的版本号
+ * - cloudbase: version_counters 集合，文档 _id 由（用户、平台、包名）决定，按上次的值比较后更新，并发构建冲突时重试
+ * 历史记录直接从 builds 表 / 集合读取。
+ */
+
+import { IS_DOMESTIC_VERSION } from "@/config";
+import { createServiceClient } from "@/lib/supabase/server";
+import { CloudBaseConnector } from "@/lib/cloudbase/connector";
+import { getVersionTrackPlatforms, parseVersionCode, type VersionTrack } from "@/lib/config/version-codes";
+import type { BuildBackendKind } from "@/lib/services/build-orchestrator/types";
+
+export interface VersionHistoryEntry {
+  id: string;
+  platform: string;
+  version_name: string;
+  version_code: string;
+  status: string;
+  created_at: string;
+}
+
+export interface VersionCodeStore {
+  kind: BuildBackendKind;
+  // requested 为 null 时自动递增；返回本次发放的版本号和之前记录的最大值
+  issue(
+    userId: string,
+    track: VersionTrack,
+    packageId: string,
+    requested: number | null
+  ): Promise<{ versionCode: number; previous: number | null }>;
+  getLast(userId: string, track: VersionTrack, packageId: string): Promise<number | null>;
+  listHistory(userId: string, track: VersionTrack, packageId: string, limit: number): Promise<VersionHistoryEntry[]>;
+}
+
+export const supabaseVersionCodeStore: VersionCodeStore = {
+  kind: "supabase",
+
+  async issue(userId, track, packageId, requested) {
+    const { data, error } = await createServiceClient().rpc("issue_version_code", {
+      p_user_id: userId,
+      p_track: track,
+      p_package_id: packageId,
+      p_requested: requested,
+    });
+    const row = Array.isArray(data) ? data[0] : data;
+    if (error || !row) throw new Error(error?.message || "No version code returned");
+    return { versionCode: row.issued_version_code, previous: row.previous_version_code ?? null };
+  },
+
+  async getLast(userId, track, packageId) {
+    const { data, error } = await createServiceClient()
+      .from("version_counters")
+      .select("last_version_code")
+      .eq("user_id", userId)
+      .eq("track", track)
+      .eq("package_id", packageId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return data?.last_version_code ?? null;
+  },
+
+  async listHistory(userId, track, packageId, limit) {
+    const { data, error } = await createServiceClient()
+      .from("builds")
+      .select("id, platform, version_name, version_code, status, created_at")
+      .eq("user_id", userId)
+      .eq("package_name", packageId)
+      .in("platform", getVersionTrackPlatforms(track))
+      .order("created_at", { ascending: false })
+      .limit(limit);
+    if (error) throw new Error(error.message);
+    return (data || []) as VersionHistoryEntry[];
+  },
+};
+
+async function getCloudBaseDb() {
+  const connector = new CloudBaseConnector();
+  await connector.initialize();
+  return connector.getClient();
+}
+
+// 并发构建冲突时的最大重试次数
+const MAX_ISSUE_ATTEMPTS = 5;
+
+// 并发的首次构建写入同一个文档，不会各自创建计数器
+function cloudbaseCounterId(userId: string, track: VersionTrack, packageId: string): string {
+  return `${userId}_${track}_${packageId}`;
+}
+
+export const cloudbaseVersionCodeStore: VersionCodeStore = {
+  kind: "cloudbase",
+
+  async issue(userId, track, packageId, requested) {
+    const db = await getCloudBaseDb();
+    const counters = db.collection("version_counters");
+    const id = cloudbaseCounterId(userId, track, packageId);
+
+    for (let attempt = 0; attempt < MAX_ISSUE_ATTEMPTS; attempt++) {
+      const now = new Date().toISOString();
+      const { data } = await counters.doc(id).get();
+      const counter = data?.[0];
+
+      if (!counter) {
+        const versionCode = requested ?? 1;
+        try {
+          await counters.add({
+            _id: id,
+            user_id: userId,
+            track,
+            package_id: packageId,
+            last_version_code: versionCode,
+            created_at: now,
+            updated_at: now,
+          });
+          return { versionCode, previous: null };
+        } catch (error) {
+          // 其他构建已创建计数器时重新读取，否则是写入失败
+          const { data: existing } = await counters.doc(id).get();
+          if (!existing?.[0]) throw error;
+          continue;
+        }
+      }
+
+      const previous: number = counter.last_version_code;
+      const versionCode = requested ?? previous + 1;
+      if (versionCode <= previous) {
+        return { versionCode, previous };
+      }
+
+      // 期间其他构建已发放版本号时不会更新（updated 为 0），重新读取后再试
+      const { updated } = await counters
+        .where({ _id: id, last_version_code: previous })
+        .update({ last_version_code: versionCode, updated_at: now });
+      if (updated === 1) {
+        return { versionCode, previous };
+      }
+    }
+
+    throw new Error(`Version counter for ${packageId} is busy`);
+  },
+
+  async getLast(userId, track, packageId) {
+    const db = await getCloudBaseDb();
+    const { data } = await db.collection("version_counters").doc(cloudbaseCounterId(userId, track, packageId)).get();
+    return data?.[0]?.last_version_code ?? null;
+  },
+
+  async listHistory(userId, track, packageId, limit) {
+    const db = await getCloudBaseDb();
+    const { data } = await db
+      .collection("builds")
+      .where({
+        user_id: userId,
+        package_name: packageId,
+        platform: db.command.in(getVersionTrackPlatforms(track)),
+      })
+      .orderBy("created_at", "desc")
+      .limit(limit)
+      .get();
+    return (data || []).map((build: any) => ({
+      id: build._id,
+      platform: build.platform,
+      version_name: build.version_name,
+      version_code: String(build.version_code ?? ""),
+      status: build.status,
+      created_at: build.created_at,
+    }));
+  },
+};
+
+const versionCodeStores: Record<BuildBackendKind, VersionCodeStore> = {
+  supabase: supabaseVersionCodeStore,
+  cloudbase: cloudbaseVersionCodeStore,
+};
+
+/**
+ * 未指定后端时按当前部署版本选择
+ */
+export function getVersionCodeStore(kind?: BuildBackendKind): VersionCodeStore {
+  return versionCodeStores[kind || (IS_DOMESTIC_VERSION ? "cloudbase" : "supabase")];
+}
+
+/**
+ * 为一次构建发放版本号（requested 已通过 validateVersionCodeInput 校验）
+ * 非整数的 iOS buildNumber 原样使用；没有包名或计数器不可用时抛出错误，
+ * 由调用方拒绝本次构建并退还额度（回退的版本号会被应用商店当作重复或降级拒绝）
+ */
+export async function issueVersionCode(
+  store: VersionCodeStore,
+  userId: string,
+  track: VersionTrack,
+  packageId: string,
+  requested: string | null | undefined
+): Promise<string> {
+  const trimmed = requested?.trim() || "";
+  const requestedCode = parseVersionCode(trimmed);
+  if (trimmed && requestedCode === null) return trimmed;
+  if (!packageId) {
+    throw new Error(`Cannot issue ${track} version code without a package ID`);
+  }
+
+  try {
+    const { versionCode } = await store.issue(userId, track, packageId, requestedCode);
+    return String(versionCode);
+  } catch (error) {
+    console.error(`[Version Codes] Failed to issue ${track} version code for ${packageId}:`, error);
+    throw new Error(`Failed to issue ${track} version code for ${packageId}`);
+  }
+}
@@ -4,12 +4,20 @@ import AdmZip from "adm-zip";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { isBuildCancelledError, updateBuildProgress } from "@/lib/services/build-cancellation";
+import { runWechatUpload, type WechatUploadRequest } from "@/lib/services/wechat-upload";
+import { applyWechatProject, assertWechatPackageSize, writeWechatAssets } from "@/lib/services/wechat-mini-program";
+import type { WechatMiniProgramConfig } from "@/lib/config/wechat-mini-program";
 
 interface WechatBuildConfig {
   url: string;
   appName: string;
   appId: string;
   version: string;
+  // 业务域名、导航栏、标签栏和分享卡片
+  wechatConfig?: WechatMiniProgramConfig | null;
+  // 可选：打包后上传为开发版本并生成预览二维码
+  wechatUpload?: WechatUploadRequest | null;
 }
 
 export async function processWechatBuild(
@@ -64,24 +72,23 @@ export async function processWechatBuild(
     }
     console.log(`[Build ${buildId}] Project root found: ${projectRoot}`);
 
-    // Step 3: Update appConfig.js
-    console.log(`[Build ${buildId}] Updating appConfig.js...`);
-    const appConfigPath = path.join(projectRoot, "appConfig.js");
-    if (fs.existsSync(appConfigPath)) {
-      await updateAppConfig(appConfigPath, config);
-    } else {
-      console.warn(`[Build ${buildId}] appConfig.js not found, creating new one`);
-      await createAppConfig(appConfigPath, config);
-    }
+    // Step 3: Write tab bar icons and share image
+    console.log(`[Build ${buildId}] Writing assets...`);
+    const assets = await writeWechatAssets(projectRoot, config.wechatConfig);
 
     await updateBuildStatus(supabase, buildId, "processing", 50);
 
-    // Step 4: Update project.config.json
-    console.log(`[Build ${buildId}] Updating project.config.json...`);
-    const projectConfigPath = path.join(projectRoot, "project.config.json");
-    if (fs.existsSync(projectConfigPath)) {
-      await updateProjectConfig(projectConfigPath, config);
-    }
+    // Step 4: Update appConfig.js, project.config.json, app.json and page JSON
+    console.log(`[Build ${buildId}] Updating appConfig.js and app.json...`);
+    applyWechatProject(projectRoot, {
+      url: config.url,
+      appName: config.appName,
+      appId: config.appId,
+      version: config.version,
+      wechatConfig: config.wechatConfig,
+      assets,
+    });
+    assertWechatPackageSize(projectRoot);
 
     await updateBuildStatus(supabase, buildId, "processing", 80);
 
@@ -109,7 +116,41 @@ export async function processWechatBuild(
 
     await updateBuildStatus(supabase, buildId, "processing", 95);
 
-    // Step 9: Update build record with output path
+    // Step 9 (optional): Upload to WeChat and store preview QR code
+    let uploadRecord: Record<string, string> = {};
+    if (config.wechatUpload) {
+      console.log(`[Build ${buildId}] Uploading to WeChat as v${config.version}...`);
+      const uploadResult = await runWechatUpload({
+        kind: "supabase",
+        userId,
+        appId: config.appId,
+        version: config.version,
+        projectRoot,
+        request: config.wechatUpload,
+      });
+
+      const qrPath = `builds/${buildId}/wechat-preview.png`;
+      const { error: qrUploadError } = await supabase.storage
+        .from("user-builds")
+        .upload(qrPath, uploadResult.qrCode, {
+          contentType: "image/png",
+          upsert: true,
+        });
+
+      if (qrUploadError) {
+        throw new Error(`Failed to upload preview QR code: ${qrUploadError.message}`);
+      }
+
+      uploadRecord = {
+        uploaded_version: uploadResult.version,
+        upload_description: uploadResult.description,
+        preview_qr_path: qrPath,
+      };
+
+      await updateBuildStatus(supabase, buildId, "processing", 98);
+    }
+
+    // Step 10: Update build record with output path
     const { error: updateError } = await supabase
       .from("builds")
       .update({
@@ -117,8 +158,10 @@ export async function processWechatBuild(
         progress: 100,
         output_file_path: outputPath,
         file_size: outputBuffer.length,
+        ...uploadRecord,
       })
-      .eq("id", buildId);
+      .eq("id", buildId)
+      .neq("status", "cancelled");
 
     if (updateError) {
       throw new Error(`Failed to update build record: ${updateError.message}`);
@@ -138,6 +181,10 @@ export async function processWechatBuild(
       });
     }
   } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`[Build ${buildId}] Cancelled, stopping at stage boundary`);
+      return;
+    }
     console.error(`[Build ${buildId}] Error:`, error);
 
     // Update build status to failed
@@ -147,7 +194,8 @@ export async function processWechatBuild(
         status: "failed",
         error_message: error instanceof Error ? error.message : "Unknown error",
       })
-      .eq("id", buildId);
+      .eq("id", buildId)
+      .neq("status", "cancelled");
 
     // 记录构建失败事件
     if (userId) {
@@ -179,10 +227,8 @@ async function updateBuildStatus(
   status: string,
   progress: number
 ): Promise<void> {
-  await supabase
-    .from("builds")
-    .update({ status, progress })
-    .eq("id", buildId);
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgress(supabase, buildId, status, progress);
 }
 
 /**
@@ -219,72 +265,6 @@ function findProjectRoot(dir: string, maxDepth: number = 3): string | null {
   return null;
 }
 
-async function updateAppConfig(configPath: string, config: WechatBuildConfig): Promise<void> {
-  const configContent = fs.readFileSync(configPath, "utf-8");
-
-  // Parse JS module content to extract the config object
-  // The format is: module.exports = { ... };
-  const match = configContent.match(/module\.exports\s*=\s*(\{[\s\S]*\});?\s*$/);
-  if (!match) {
-    // If can't parse, create new config
-    await createAppConfig(configPath, config);
-    return;
-  }
-
-  try {
-    // Use Function constructor to safely evaluate the object literal
-    const evalFunc = new Function(`return ${match[1]}`);
-    const appConfig = evalFunc();
-
-    // Only update essential fields: url, appName, appId, version
-    if (appConfig.general) {
-      appConfig.general.initialUrl = config.url;
-      appConfig.general.appName = config.appName;
-      appConfig.general.appId = config.appId;
-      appConfig.general.version = config.version;
-    }
-
-    // Write back as JS module
-    const newContent = `// appConfig.js - 集中化配置文件
-module.exports = ${JSON.stringify(appConfig, null, 2)};
-`;
-    fs.writeFileSync(configPath, newContent, "utf-8");
-  } catch {
-    // If parsing fails, create new config
-    await createAppConfig(configPath, config);
-  }
-}
-
-async function createAppConfig(configPath: string, config: WechatBuildConfig): Promise<void> {
-  const appConfig = {
-    general: {
-      initialUrl: config.url,
-      appName: config.appName,
-      appId: config.appId,
-      version: config.version
-    },
-    login: {
-      enableWxLogin: true,
-      defaultAvatarUrl: "https://mmbiz.qpic.cn/mmbiz/icTdbqWNOwNRna42FI242Lcia07jQodd2FJGIYQfG0LAJGFxM4FbnQP6yfMxBgJ0F3YRqJCJ1aPAK2dQagdusBZg/0"
-    }
-  };
-
-  const content = `// appConfig.js - 集中化配置文件
-module.exports = ${JSON.stringify(appConfig, null, 2)};
-`;
-  fs.writeFileSync(configPath, content, "utf-8");
-}
-
-async function updateProjectConfig(configPath: string, config: WechatBuildConfig): Promise<void> {
-  const configContent = fs.readFileSync(configPath, "utf-8");
-  const projectConfig = JSON.parse(configContent);
-
-  // Only update appid, keep projectname as default
-  projectConfig.appid = config.appId;
-
-  fs.writeFileSync(configPath, JSON.stringify(projectConfig, null, 2), "utf-8");
-}
-
 function addFolderToZip(zip: AdmZip, folderPath: string, zipPath: string): void {
   const items = fs.readdirSync(folderPath);
 
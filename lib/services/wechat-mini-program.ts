@@ -0,0 +1,289 @@
+/**
+ * 微信小程序模板处理
+ * - applyWechatProject：更新 appConfig.js（网址、名称、AppID、版本、业务域名、标签页网址、分享卡片）、
+ *   project.config.json 的 appid、app.json（导航栏颜色、标签栏）和各页面 JSON
+ * - writeWechatAssets：标签栏图标和分享图，写入后按微信的大小限制校验
+ * - 第一个标签使用模板首页（构建网址），其余标签生成独立的 web-view 页面
+ */
+
+import sharp from "sharp";
+import * as fs from "fs";
+import * as path from "path";
+import { getWebViewDomains } from "@/lib/services/mini-program";
+import {
+  MAX_MAIN_PACKAGE_BYTES,
+  MAX_TAB_ICON_BYTES,
+  TAB_ICON_SIZE,
+  type WechatMiniProgramConfig,
+} from "@/lib/config/wechat-mini-program";
+
+const TAB_ICON_DIR = "images/tabbar";
+const SHARE_IMAGE_PATH = "images/share.jpg";
+// 微信分享卡片图片比例为 5:4
+const SHARE_IMAGE_WIDTH = 500;
+const SHARE_IMAGE_HEIGHT = 400;
+
+const DEFAULT_LOGIN_CONFIG = {
+  enableWxLogin: true,
+  defaultAvatarUrl: "https://mmbiz.qpic.cn/mmbiz/icTdbqWNOwNRna42FI242Lcia07jQodd2FJGIYQfG0LAJGFxM4FbnQP6yfMxBgJ0F3YRqJCJ1aPAK2dQagdusBZg/0",
+};
+
+export interface WechatProjectInput {
+  url: string;
+  appName: string;
+  appId: string;
+  version: string;
+  wechatConfig?: WechatMiniProgramConfig | null;
+  // writeWechatAssets 的返回值
+  assets?: WechatAssets | null;
+}
+
+export interface WechatAssets {
+  // 与 tabBar.items 一一对应，未上传图标的标签为 null
+  tabIcons: Array<{ iconPath: string; selectedIconPath: string } | null>;
+  shareImage: string | null;
+}
+
+function getTabPagePath(index: number): string {
+  return `pages/tab${index + 1}/index`;
+}
+
+function readJson(filePath: string): Record<string, any> | null {
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+function writeJson(filePath: string, value: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(value, null, 2), "utf-8");
+}
+
+function readAppConfig(configPath: string): Record<string, any> | null {
+  if (!fs.existsSync(configPath)) return null;
+
+  // 格式为 module.exports = { ... };
+  const match = fs.readFileSync(configPath, "utf-8").match(/module\.exports\s*=\s*(\{[\s\S]*\});?\s*$/);
+  if (!match) return null;
+
+  try {
+    return new Function(`return ${match[1]}`)();
+  } catch {
+    return null;
+  }
+}
+
+function decodeDataUrl(dataUrl: string): Buffer {
+  return Buffer.from(dataUrl.slice(dataUrl.indexOf(",") + 1), "base64");
+}
+
+/**
+ * 生成标签页：web-view 加载 appConfig.js 中对应标签的网址，分享时使用默认分享卡片
+ */
+function writeTabPage(projectRoot: string, index: number, title: string): void {
+  const pagePath = path.join(projectRoot, getTabPagePath(index));
+  fs.mkdirSync(path.dirname(pagePath), { recursive: true });
+
+  fs.writeFileSync(
+    `${pagePath}.js`,
+    `const appConfig = require("../../appConfig.js");
+
+Page({
+  data: {
+    url: appConfig.tabBar[${index}].url,
+  },
+  onShareAppMessage() {
+    const share = appConfig.general.share || {};
+    return {
+      title: share.title || appConfig.general.appName,
+      path: "/${getTabPagePath(index)}",
+      imageUrl: share.imageUrl,
+    };
+  },
+});
+`,
+    "utf-8"
+  );
+  fs.writeFileSync(`${pagePath}.wxml`, `<web-view src="{{url}}"></web-view>\n`, "utf-8");
+  writeJson(`${pagePath}.json`, { navigationBarTitleText: title, usingComponents: {} });
+}
+
+/**
+ * 写入标签栏图标和分享图，返回 app.json / appConfig.js 中引用的路径
+ * 标签栏图标统一输出为 81x81 PNG，处理后仍超过 40 KB 时构建失败
+ */
+export async function writeWechatAssets(
+  projectRoot: string,
+  config: WechatMiniProgramConfig | null | undefined
+): Promise<WechatAssets> {
+  const assets: WechatAssets = { tabIcons: [], shareImage: null };
+
+  const writeTabIcon = async (dataUrl: string, fileName: string): Promise<string> => {
+    const relativePath = `${TAB_ICON_DIR}/${fileName}`;
+    const outputPath = path.join(projectRoot, relativePath);
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+
+    const output = await sharp(decodeDataUrl(dataUrl))
+      .resize(TAB_ICON_SIZE, TAB_ICON_SIZE, { fit: "contain", background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .png({ compressionLevel: 9, palette: true })
+      .toBuffer();
+    if (output.length > MAX_TAB_ICON_BYTES) {
+      throw new Error(`Tab bar icon ${fileName} is ${Math.ceil(output.length / 1024)} KB, exceeding WeChat's 40 KB limit`);
+    }
+    fs.writeFileSync(outputPath, output);
+    return relativePath;
+  };
+
+  for (const [index, item] of (config?.tabBar?.items || []).entries()) {
+    if (!item.icon) {
+      assets.tabIcons.push(null);
+      continue;
+    }
+    const iconPath = await writeTabIcon(item.icon, `tab${index + 1}.png`);
+    const selectedIconPath = item.selectedIcon
+      ? await writeTabIcon(item.selectedIcon, `tab${index + 1}-active.png`)
+      : iconPath;
+    assets.tabIcons.push({ iconPath, selectedIconPath });
+  }
+
+  if (config?.share?.image) {
+    const outputPath = path.join(projectRoot, SHARE_IMAGE_PATH);
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    await sharp(decodeDataUrl(config.share.image))
+      .resize(SHARE_IMAGE_WIDTH, SHARE_IMAGE_HEIGHT, { fit: "cover" })
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: 80 })
+      .toFile(outputPath);
+    assets.shareImage = `/${SHARE_IMAGE_PATH}`;
+  }
+
+  return assets;
+}
+
+/**
+ * 写入小程序配置，模板缺少 appConfig.js 时按默认结构创建
+ */
+export function applyWechatProject(projectRoot: string, input: WechatProjectInput): void {
+  const { wechatConfig, assets } = input;
+  const tabBar = wechatConfig?.tabBar;
+  const tabUrls = (tabBar?.items || []).map((item, index) => (index === 0 ? item.url || input.url : item.url!));
+
+  // 标签页网址所在域名同样需要配置为业务域名
+  const webViewDomains = getWebViewDomains(input.url, wechatConfig);
+  for (const tabUrl of tabUrls.slice(1)) {
+    for (const domain of getWebViewDomains(tabUrl, null)) {
+      if (!webViewDomains.includes(domain)) webViewDomains.push(domain);
+    }
+  }
+
+  // appConfig.js
+  const appConfigPath = path.join(projectRoot, "appConfig.js");
+  const appConfig = readAppConfig(appConfigPath) || { login: DEFAULT_LOGIN_CONFIG };
+  appConfig.general = {
+    ...appConfig.general,
+    initialUrl: tabUrls[0] || input.url,
+    appName: input.appName,
+    appId: input.appId,
+    version: input.version,
+    webViewDomains,
+  };
+  if (wechatConfig?.share) {
+    appConfig.general.share = {
+      title: wechatConfig.share.title,
+      ...(assets?.shareImage && { imageUrl: assets.shareImage }),
+    };
+  }
+  if (tabBar) {
+    appConfig.tabBar = tabBar.items.map((item, index) => ({ text: item.text, url: tabUrls[index] }));
+  }
+  fs.writeFileSync(
+    appConfigPath,
+    `// appConfig.js - 集中化配置文件\nmodule.exports = ${JSON.stringify(appConfig, null, 2)};\n`,
+    "utf-8"
+  );
+
+  // project.config.json（只更新 appid，保留模板的 projectname）
+  const projectConfigPath = path.join(projectRoot, "project.config.json");
+  const projectConfig = readJson(projectConfigPath);
+  if (projectConfig) {
+    projectConfig.appid = input.appId;
+    writeJson(projectConfigPath, projectConfig);
+  }
+
+  // app.json
+  const appJsonPath = path.join(projectRoot, "app.json");
+  const appJson = readJson(appJsonPath);
+  if (!appJson) {
+    throw new Error("Invalid app.json in template");
+  }
+  const pages: string[] = Array.isArray(appJson.pages) ? appJson.pages : [];
+  const navigationBar = wechatConfig?.navigationBar;
+  appJson.window = {
+    ...appJson.window,
+    navigationBarTitleText: input.appName,
+    ...(navigationBar && {
+      navigationBarBackgroundColor: navigationBar.backgroundColor,
+      navigationBarTextStyle: navigationBar.textStyle,
+    }),
+  };
+
+  if (tabBar) {
+    if (pages.length === 0) {
+      throw new Error("Invalid app.json in template: no pages");
+    }
+    const tabPages = tabBar.items.map((item, index) => {
+      if (index === 0) return pages[0];
+      writeTabPage(projectRoot, index, item.text);
+      return getTabPagePath(index);
+    });
+    appJson.pages = [...pages, ...tabPages.slice(1).filter((page) => !pages.includes(page))];
+    appJson.tabBar = {
+      color: tabBar.color,
+      selectedColor: tabBar.selectedColor,
+      backgroundColor: tabBar.backgroundColor,
+      borderStyle: tabBar.borderStyle,
+      list: tabBar.items.map((item, index) => ({
+        pagePath: tabPages[index],
+        text: item.text,
+        ...assets?.tabIcons[index],
+      })),
+    };
+  }
+  writeJson(appJsonPath, appJson);
+
+  // 页面 JSON 中的导航栏颜色会覆盖 app.json，统一改为配置的颜色
+  if (navigationBar) {
+    for (const page of appJson.pages as string[]) {
+      const pageJsonPath = path.join(projectRoot, `${page}.json`);
+      const pageJson = readJson(pageJsonPath);
+      if (!pageJson) continue;
+      pageJson.navigationBarBackgroundColor = navigationBar.backgroundColor;
+      pageJson.navigationBarTextStyle = navigationBar.textStyle;
+      writeJson(pageJsonPath, pageJson);
+    }
+  }
+}
+
+/**
+ * 主包大小（项目目录下全部文件），超过 2 MB 时微信拒绝上传
+ */
+export function getWechatPackageSize(dir: string): number {
+  let total = 0;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    total += entry.isDirectory() ? getWechatPackageSize(fullPath) : fs.statSync(fullPath).size;
+  }
+  return total;
+}
+
+export function assertWechatPackageSize(projectRoot: string): void {
+  const size = getWechatPackageSize(projectRoot);
+  if (size > MAX_MAIN_PACKAGE_BYTES) {
+    throw new Error(
+      `Mini program package is ${(size / (1024 * 1024)).toFixed(2)} MB, exceeding WeChat's 2 MB main package limit`
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { prepareWechatUploadRequest, runWechatUpload } from "./index";
+import { decryptUploadKey, getStoredUploadKey, saveUploadKey } from "./keys";
+
+const storedKeys = vi.hoisted(() => new Map<string, string>());
+
+vi.mock("./keys", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./keys")>()),
+  saveUploadKey: vi.fn(async (kind: string, userId: string, appId: string, encryptedPrivateKey: string) => {
+    storedKeys.set(`${kind}:${userId}:${appId}`, encryptedPrivateKey);
+  }),
+  getStoredUploadKey: vi.fn(
+    async (kind: string, userId: string, appId: string) => storedKeys.get(`${kind}:${userId}:${appId}`) ?? null
+  ),
+}));
+
+const APP_ID = "wx1234567890abcdef";
+const PRIVATE_KEY = crypto
+  .generateKeyPairSync("rsa", { modulusLength: 1024 })
+  .privateKey.export({ type: "pkcs1", format: "pem" })
+  .toString();
+
+let projectRoot: string;
+
+function writeProjectConfig(appid: string) {
+  fs.writeFileSync(path.join(projectRoot, "project.config.json"), JSON.stringify({ appid }));
+}
+
+beforeEach(() => {
+  vi.stubEnv("WECHAT_UPLOAD_MODE", "stub");
+  vi.stubEnv("WECHAT_UPLOAD_KEY_ENCRYPTION_KEY", crypto.randomBytes(32).toString("base64"));
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  storedKeys.clear();
+  projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "wechat-upload-test-"));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  fs.rmSync(projectRoot, { recursive: true, force: true });
+});
+
+describe("prepareWechatUploadRequest", () => {
+  it("returns no request when upload is disabled", () => {
+    expect(prepareWechatUploadRequest(null)).toEqual({ success: true, data: null });
+  });
+
+  it("rejects keys that are not private keys", () => {
+    const result = prepareWechatUploadRequest({ description: "", robot: 1, privateKey: "not a key" });
+
+    expect(result).toEqual({ success: false, error: "privateKey: Upload key is not a valid private key" });
+  });
+
+  it("encrypts the key so the queued payload never holds it in plain text", () => {
+    const result = prepareWechatUploadRequest({ description: "release", robot: 2, privateKey: PRIVATE_KEY });
+
+    expect(result.success).toBe(true);
+    const request = result.success ? result.data : null;
+    expect(request).toMatchObject({ description: "release", robot: 2 });
+    expect(request?.encryptedPrivateKey).not.toContain("PRIVATE KEY");
+    expect(decryptUploadKey(request!.encryptedPrivateKey!)).toBe(PRIVATE_KEY);
+  });
+});
+
+describe("runWechatUpload (stub uploader)", () => {
+  function prepared() {
+    const result = prepareWechatUploadRequest({ description: "", robot: 3, privateKey: PRIVATE_KEY });
+    if (!result.success || !result.data) throw new Error("request not prepared");
+    return result.data;
+  }
+
+  it("stores the new key, uploads and returns a PNG preview code", async () => {
+    writeProjectConfig(APP_ID);
+
+    const result = await runWechatUpload({
+      kind: "supabase",
+      userId: "user-1",
+      appId: APP_ID,
+      version: "1.2.0",
+      projectRoot,
+      request: prepared(),
+    });
+
+    expect(result.description).toBe("v1.2.0");
+    expect(result.qrCode.subarray(0, 4).toString("hex")).toBe("89504e47");
+    expect(saveUploadKey).toHaveBeenCalledWith("supabase", "user-1", APP_ID, expect.any(String));
+  });
+
+  it("reuses the key stored for the same backend when no new key is provided", async () => {
+    await runWechatUpload({ kind: "cloudbase", userId: "user-1", appId: APP_ID, version: "1.0.0", projectRoot, request: prepared() });
+
+    await expect(
+      runWechatUpload({
+        kind: "cloudbase",
+        userId: "user-1",
+        appId: APP_ID,
+        version: "1.0.1",
+        projectRoot,
+        request: { description: "fix", robot: 3, encryptedPrivateKey: null },
+      })
+    ).resolves.toMatchObject({ version: "1.0.1", description: "fix" });
+    expect(getStoredUploadKey).toHaveBeenCalledWith("cloudbase", "user-1", APP_ID);
+  });
+
+  it("fails when no key was ever stored for the AppID", async () => {
+    await expect(
+      runWechatUpload({
+        kind: "supabase",
+        userId: "user-1",
+        appId: APP_ID,
+        version: "1.0.0",
+        projectRoot,
+        request: { description: "", robot: 1, encryptedPrivateKey: null },
+      })
+    ).rejects.toThrow(`No upload key stored for ${APP_ID}`);
+  });
+
+  it("reports project AppID mismatches as upload failures", async () => {
+    writeProjectConfig("wx0000000000000000");
+
+    await expect(
+      runWechatUpload({ kind: "supabase", userId: "user-1", appId: APP_ID, version: "1.0.0", projectRoot, request: prepared() })
+    ).rejects.toThrow("WeChat upload failed (stub): project.config.json appid wx0000000000000000 does not match");
+  });
+});
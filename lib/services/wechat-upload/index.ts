@@ -0,0 +1,116 @@
+/**
+ * 微信小程序自动上传
+ *
+ * 构建生成源码包后，可选地用小程序代码上传密钥：
+ * - 上传为开发版本（版本号 + 描述），用户在公众平台提交审核即可
+ * - 生成预览二维码，存入构建输出目录
+ * 请求阶段只校验配置并加密密钥（构建参数会写入 build_jobs.payload），构建阶段才托管和使用密钥。
+ */
+
+import crypto from "crypto";
+import type { WechatUploadConfig } from "@/lib/config/wechat-upload";
+import type { BuildBackendKind } from "@/lib/services/build-orchestrator/types";
+import { decryptUploadKey, encryptUploadKey, getStoredUploadKey, saveUploadKey } from "./keys";
+import { getWechatUploader } from "./uploader";
+
+export { getWechatUploader, stubWechatUploader, ciWechatUploader } from "./uploader";
+export type { WechatUploader, WechatUploadInput } from "./uploader";
+
+/**
+ * 传给构建服务的上传参数，密钥已加密
+ */
+export interface WechatUploadRequest {
+  description: string;
+  robot: number;
+  // 为空时使用该 AppID 已托管的密钥
+  encryptedPrivateKey: string | null;
+}
+
+export interface WechatUploadResult {
+  version: string;
+  description: string;
+  // 预览二维码 PNG
+  qrCode: Buffer;
+}
+
+type UploadPrepareResult = { success: true; data: WechatUploadRequest | null } | { success: false; error: string };
+
+/**
+ * 是否已配置上传密钥的加密密钥
+ */
+export function isWechatUploadConfigured(): boolean {
+  return !!process.env.WECHAT_UPLOAD_KEY_ENCRYPTION_KEY?.trim();
+}
+
+/**
+ * 校验上传密钥能被解析为私钥，并加密后放入构建参数
+ */
+export function prepareWechatUploadRequest(config: WechatUploadConfig | null): UploadPrepareResult {
+  if (!config) {
+    return { success: true, data: null };
+  }
+
+  let encryptedPrivateKey: string | null = null;
+  if (config.privateKey) {
+    try {
+      crypto.createPrivateKey(config.privateKey);
+    } catch {
+      return { success: false, error: "privateKey: Upload key is not a valid private key" };
+    }
+    encryptedPrivateKey = encryptUploadKey(config.privateKey);
+  }
+
+  return {
+    success: true,
+    data: { description: config.description, robot: config.robot, encryptedPrivateKey },
+  };
+}
+
+/**
+ * 上传开发版本并生成预览二维码
+ * 提供了新密钥时先覆盖托管的密钥，上传失败时密钥仍会保留，便于修正 IP 白名单后重试
+ */
+export async function runWechatUpload(options: {
+  // 上传密钥托管在构建所属版本的数据库中
+  kind: BuildBackendKind;
+  userId: string | null;
+  appId: string;
+  version: string;
+  projectRoot: string;
+  request: WechatUploadRequest;
+}): Promise<WechatUploadResult> {
+  const { kind, userId, appId, version, projectRoot, request } = options;
+  if (!userId) {
+    throw new Error("Cannot upload mini program without a build owner");
+  }
+
+  let encryptedPrivateKey = request.encryptedPrivateKey;
+  if (encryptedPrivateKey) {
+    await saveUploadKey(kind, userId, appId, encryptedPrivateKey);
+  } else {
+    encryptedPrivateKey = await getStoredUploadKey(kind, userId, appId);
+    if (!encryptedPrivateKey) {
+      throw new Error(`No upload key stored for ${appId}, please provide the mini program upload key`);
+    }
+  }
+
+  const uploader = getWechatUploader();
+  const description = request.description || `v${version}`;
+  const input = {
+    appId,
+    projectPath: projectRoot,
+    privateKey: decryptUploadKey(encryptedPrivateKey),
+    version,
+    description,
+    robot: request.robot,
+  };
+
+  try {
+    await uploader.upload(input);
+    const qrCode = await uploader.preview(input);
+    return { version, description, qrCode };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`WeChat upload failed (${uploader.mode}): ${message}`);
+  }
+}
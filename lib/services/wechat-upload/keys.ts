@@ -0,0 +1,131 @@
+/**
+ * 小程序代码上传密钥托管
+ * - 按 (user_id, app_id) 存储，同一 AppID 的后续构建可直接复用
+ * - 使用 AES-256-GCM 加密后存入 Supabase wechat_upload_keys 表（国际版）或 CloudBase wechat_upload_keys 集合（国内版）
+ */
+
+import crypto from "crypto";
+import { createServiceClient } from "@/lib/supabase/server";
+import { CloudBaseConnector } from "@/lib/cloudbase/connector";
+import type { BuildBackendKind } from "@/lib/services/build-orchestrator/types";
+
+const UPLOAD_KEY_TABLE = "wechat_upload_keys";
+
+function getEncryptionKey(): Buffer {
+  const raw = process.env.WECHAT_UPLOAD_KEY_ENCRYPTION_KEY?.trim();
+  if (!raw) {
+    throw new Error("WECHAT_UPLOAD_KEY_ENCRYPTION_KEY is not configured");
+  }
+  const key = Buffer.from(raw, "base64");
+  if (key.length !== 32) {
+    throw new Error("WECHAT_UPLOAD_KEY_ENCRYPTION_KEY must be a base64-encoded 32-byte key");
+  }
+  return key;
+}
+
+// 密文格式: base64(iv).base64(authTag).base64(ciphertext)
+export function encryptUploadKey(privateKey: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(privateKey, "utf-8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64")).join(".");
+}
+
+export function decryptUploadKey(payload: string): string {
+  const [iv, tag, ciphertext] = payload.split(".").map((part) => Buffer.from(part, "base64"));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error("Malformed encrypted payload");
+  }
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf-8");
+}
+
+interface UploadKeyStore {
+  save(userId: string, appId: string, encryptedPrivateKey: string): Promise<void>;
+  get(userId: string, appId: string): Promise<string | null>;
+}
+
+const supabaseUploadKeyStore: UploadKeyStore = {
+  async save(userId, appId, encryptedPrivateKey) {
+    const { error } = await createServiceClient().from(UPLOAD_KEY_TABLE).upsert(
+      {
+        user_id: userId,
+        app_id: appId,
+        encrypted_private_key: encryptedPrivateKey,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,app_id" }
+    );
+    if (error) {
+      throw new Error(`Failed to save upload key: ${error.message}`);
+    }
+  },
+
+  async get(userId, appId) {
+    const { data, error } = await createServiceClient()
+      .from(UPLOAD_KEY_TABLE)
+      .select("encrypted_private_key")
+      .eq("user_id", userId)
+      .eq("app_id", appId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to query upload key: ${error.message}`);
+    }
+    return data?.encrypted_private_key || null;
+  },
+};
+
+async function getCloudBaseDb() {
+  const connector = new CloudBaseConnector();
+  await connector.initialize();
+  return connector.getClient();
+}
+
+// 文档 _id 由用户和 AppID 决定，set 覆盖写入，同一 AppID 只有一份
+function cloudbaseUploadKeyId(userId: string, appId: string): string {
+  return `${userId}_${appId}`;
+}
+
+const cloudbaseUploadKeyStore: UploadKeyStore = {
+  async save(userId, appId, encryptedPrivateKey) {
+    const db = await getCloudBaseDb();
+    await db.collection(UPLOAD_KEY_TABLE).doc(cloudbaseUploadKeyId(userId, appId)).set({
+      user_id: userId,
+      app_id: appId,
+      encrypted_private_key: encryptedPrivateKey,
+      updated_at: new Date().toISOString(),
+    });
+  },
+
+  async get(userId, appId) {
+    const db = await getCloudBaseDb();
+    const { data } = await db.collection(UPLOAD_KEY_TABLE).doc(cloudbaseUploadKeyId(userId, appId)).get();
+    return data?.[0]?.encrypted_private_key || null;
+  },
+};
+
+const uploadKeyStores: Record<BuildBackendKind, UploadKeyStore> = {
+  supabase: supabaseUploadKeyStore,
+  cloudbase: cloudbaseUploadKeyStore,
+};
+
+/**
+ * 保存（覆盖）该 AppID 的上传密钥
+ */
+export async function saveUploadKey(
+  kind: BuildBackendKind,
+  userId: string,
+  appId: string,
+  encryptedPrivateKey: string
+): Promise<void> {
+  await uploadKeyStores[kind].save(userId, appId, encryptedPrivateKey);
+}
+
+/**
+ * 获取该 AppID 已托管的上传密钥（加密形式），未上传过时返回 null
+ */
+export async function getStoredUploadKey(kind: BuildBackendKind, userId: string, appId: string): Promise<string | null> {
+  return uploadKeyStores[kind].get(userId, appId);
+}
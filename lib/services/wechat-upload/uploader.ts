@@ -0,0 +1,102 @@
+/**
+ * 小程序代码上传接口
+ * - ci: 通过 miniprogram-ci 调用微信上传 / 预览接口（需在公众平台配置服务器 IP 白名单）
+ * - stub: 本地模拟实现，不访问微信，用于测试和本地开发（WECHAT_UPLOAD_MODE=stub）
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import QRCode from "qrcode";
+
+export interface WechatUploadInput {
+  appId: string;
+  // 包含 app.json 和 project.config.json 的项目根目录
+  projectPath: string;
+  privateKey: string;
+  version: string;
+  description: string;
+  robot: number;
+}
+
+export interface WechatUploader {
+  mode: "ci" | "stub";
+  // 上传为开发版本
+  upload(input: WechatUploadInput): Promise<void>;
+  // 生成预览二维码，返回 PNG
+  preview(input: WechatUploadInput): Promise<Buffer>;
+}
+
+async function createCiProject(input: WechatUploadInput) {
+  const ci = await import("miniprogram-ci");
+  const project = new ci.Project({
+    appid: input.appId,
+    type: "miniProgram",
+    projectPath: input.projectPath,
+    privateKey: input.privateKey,
+    ignores: ["node_modules/**/*"],
+  });
+  return { ci, project };
+}
+
+export const ciWechatUploader: WechatUploader = {
+  mode: "ci",
+
+  async upload(input) {
+    const { ci, project } = await createCiProject(input);
+    await ci.upload({
+      project,
+      version: input.version,
+      desc: input.description,
+      robot: input.robot,
+      setting: { useProjectConfig: true },
+    });
+  },
+
+  async preview(input) {
+    const { ci, project } = await createCiProject(input);
+    // 二维码写到项目目录之外，避免被当作代码文件
+    const qrcodePath = path.join(os.tmpdir(), `wechat-preview-${input.appId}-${Date.now()}.png`);
+    try {
+      await ci.preview({
+        project,
+        version: input.version,
+        desc: input.description,
+        robot: input.robot,
+        setting: { useProjectConfig: true },
+        qrcodeFormat: "image",
+        qrcodeOutputDest: qrcodePath,
+      });
+      return fs.readFileSync(qrcodePath);
+    } finally {
+      fs.rmSync(qrcodePath, { force: true });
+    }
+  },
+};
+
+/**
+ * 本地模拟实现：校验项目结构后直接返回，预览码内容为可识别的占位链接
+ */
+export const stubWechatUploader: WechatUploader = {
+  mode: "stub",
+
+  async upload(input) {
+    const projectConfigPath = path.join(input.projectPath, "project.config.json");
+    if (fs.existsSync(projectConfigPath)) {
+      const projectConfig = JSON.parse(fs.readFileSync(projectConfigPath, "utf-8"));
+      if (projectConfig.appid && projectConfig.appid !== input.appId) {
+        throw new Error(`project.config.json appid ${projectConfig.appid} does not match ${input.appId}`);
+      }
+    }
+    console.log(`[WeChat Upload Stub] Uploaded ${input.appId} v${input.version} (robot ${input.robot})`);
+  },
+
+  async preview(input) {
+    const params = new URLSearchParams({ appid: input.appId, version: input.version, robot: String(input.robot) });
+    return QRCode.toBuffer(`https://stub.invalid/wechat-preview?${params.toString()}`, { type: "png", width: 280 });
+  },
+};
+
+export function getWechatUploader(): WechatUploader {
+  return process.env.WECHAT_UPLOAD_MODE === "stub" ? stubWechatUploader : ciWechatUploader;
+}
@@ -5,16 +5,32 @@ import sharp from "sharp";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
+import { isBuildCancelledError, updateBuildProgress } from "@/lib/services/build-cancellation";
+import { createWindowsInstaller } from "@/lib/services/windows-installer";
+import { applyApplicationManifest, applyVersionInfo, resolveWindowsVersionValues } from "@/lib/services/windows-metadata";
+import type { WindowsInstallerConfig } from "@/lib/config/windows-installer";
+import type { WindowsMetadataConfig } from "@/lib/config/windows-metadata";
+import { createDesktopAppConfig, type DesktopShellConfig } from "@/lib/config/desktop-shell";
+import type { IconStyleConfig } from "@/lib/config/icon-style";
+import { applyIconStyle } from "@/lib/services/icon-style";
 
 interface WindowsBuildConfig {
   url: string;
   appName: string;
   iconPath: string | null;
+  iconStyle?: IconStyleConfig | null;
+  // Wrap the EXE in an installer (Setup.exe) instead of uploading it as a portable app
+  installerConfig?: WindowsInstallerConfig | null;
+  // Version info strings and application manifest settings (DPI awareness, execution level)
+  metadataConfig?: WindowsMetadataConfig | null;
+  // Window, tray, single-instance and link policy options embedded in APPCONFIG
+  desktopConfig?: DesktopShellConfig | null;
 }
 
 /**
  * Windows EXE Builder
  * Downloads pre-built Tauri EXE, modifies icon and metadata, then provides for download
+ * (as a portable EXE, or wrapped in the prebuilt installer stub when installerConfig is set)
  */
 export async function processWindowsExeBuild(
   buildId: string,
@@ -64,20 +80,42 @@ export async function processWindowsExeBuild(
 
     // Step 4: Modify EXE resources (icon, metadata, and config)
     console.log("[Windows Build] Modifying resources...");
-    await modifyExeResources(supabase, exePath, config);
+    const icoBuffer = await modifyExeResources(supabase, exePath, config);
 
     await updateBuildStatus(supabase, buildId, "processing", progressHelper.getProgressForStage("processing_icons"));
 
-    await updateBuildStatus(supabase, buildId, "processing", progressHelper.getProgressForStage("packaging"));
+    // Step 5: Read modified EXE, optionally wrapping it in the installer
+    let outputBuffer: Buffer = fs.readFileSync(exePath);
+    let outputFileName = `${safeAppName}.exe`;
+
+    if (config.installerConfig) {
+      console.log("[Windows Build] Downloading installer stub...");
+      const { data: stubData, error: stubError } = await supabase.storage
+        .from("WindowsApp")
+        .download("installer-stub.exe");
 
-    // Step 5: Read modified EXE
-    const outputBuffer = fs.readFileSync(exePath);
+      if (stubError || !stubData) {
+        throw new Error(`Failed to download Windows installer stub: ${stubError?.message || "No data"}`);
+      }
+
+      const installer = await createWindowsInstaller({
+        stub: Buffer.from(await stubData.arrayBuffer()),
+        appExe: outputBuffer,
+        exeName: `${safeAppName}.exe`,
+        config: config.installerConfig,
+        icoBuffer,
+      });
+      outputBuffer = installer.buffer;
+      outputFileName = installer.fileName;
+    }
+
+    await updateBuildStatus(supabase, buildId, "processing", progressHelper.getProgressForStage("packaging"));
 
     await updateBuildStatus(supabase, buildId, "processing", progressHelper.getProgressForStage("uploading"));
 
     // Step 6: Upload result (single EXE file)
     console.log("[Windows Build] Uploading result...");
-    const outputPath = `builds/${buildId}/${safeAppName}.exe`;
+    const outputPath = `builds/${buildId}/${outputFileName}`;
     const { error: uploadError } = await supabase.storage
       .from("user-builds")
       .upload(outputPath, outputBuffer, {
@@ -100,7 +138,8 @@ export async function processWindowsExeBuild(
         output_file_path: outputPath,
         file_size: outputBuffer.length,
       })
-      .eq("id", buildId);
+      .eq("id", buildId)
+      .neq("status", "cancelled");
 
     if (updateError) {
       throw new Error(`Failed to update build record: ${updateError.message}`);
@@ -120,6 +159,10 @@ export async function processWindowsExeBuild(
       });
     }
   } catch (error) {
+    if (isBuildCancelledError(error)) {
+      console.log(`[Build ${buildId}] Cancelled, stopping at stage boundary`);
+      return;
+    }
     console.error("[Windows Build] Error:", error);
 
     await supabase
@@ -128,7 +171,8 @@ export async function processWindowsExeBuild(
         status: "failed",
         error_message: error instanceof Error ? error.message : "Unknown error",
       })
-      .eq("id", buildId);
+      .eq("id", buildId)
+      .neq("status", "cancelled");
 
     // 记录构建失败事件
     if (userId) {
@@ -159,41 +203,28 @@ async function updateBuildStatus(
   status: string,
   progress: number
 ): Promise<void> {
-  await supabase
-    .from("builds")
-    .update({ status, progress })
-    .eq("id", buildId);
+  // 构建已取消时抛出 CANCELLED 错误，在阶段边界中止构建
+  await updateBuildProgress(supabase, buildId, status, progress);
 }
 
 async function modifyExeResources(
   supabase: ReturnType<typeof createServiceClient>,
   exePath: string,
   config: WindowsBuildConfig
-): Promise<void> {
+): Promise<Buffer | null> {
   const ResEdit = await import("resedit");
   const exeData = fs.readFileSync(exePath);
   const exe = ResEdit.NtExecutable.from(exeData);
   const res = ResEdit.NtExecutableResource.from(exe);
 
-  // Modify version info
-  const viList = ResEdit.Resource.VersionInfo.fromEntries(res.entries);
-  if (viList.length > 0) {
-    const vi = viList[0];
-    vi.setStringValues(
-      { lang: 0x0409, codepage: 1200 },
-      {
-        ProductName: config.appName,
-        FileDescription: config.appName,
-        CompanyName: "",
-        LegalCopyright: "",
-        InternalName: config.appName,
-        OriginalFilename: `${config.appName}.exe`,
-      }
-    );
-    vi.outputToResourceEntries(res.entries);
+  // Rewrite version info (metadata form → installer config → app name) and the application manifest
+  await applyVersionInfo(res, resolveWindowsVersionValues(config.appName, config.metadataConfig, config.installerConfig));
+  if (config.metadataConfig) {
+    applyApplicationManifest(res, config.metadataConfig);
   }
 
   // Replace icon if provided
+  let icoBuffer: Buffer | null = null;
   if (config.iconPath) {
     try {
       const { data: iconData } = await supabase.storage
@@ -202,8 +233,8 @@ async function modifyExeResources(
 
       if (iconData) {
         const iconBuffer = Buffer.from(await iconData.arrayBuffer());
-        const icoBuffer = await generateIco(iconBuffer);
-        const iconFile = ResEdit.Data.IconFile.from(icoBuffer);
+        const generatedIco = await generateIco(await applyIconStyle(iconBuffer, config.iconStyle));
+        const iconFile = ResEdit.Data.IconFile.from(generatedIco);
 
         // Remove existing icon resources (14 = RT_GROUP_ICON, 3 = RT_ICON)
         res.entries = res.entries.filter(e => e.type !== 14 && e.type !== 3);
@@ -211,6 +242,7 @@ async function modifyExeResources(
         ResEdit.Resource.IconGroupEntry.replaceIconsForResource(
           res.entries, 1, 0x0409, iconFile.icons.map((icon) => icon.data)
         );
+        icoBuffer = generatedIco;
         console.log("[Windows Build] Icon replaced successfully");
       }
     } catch (iconError) {
@@ -220,7 +252,7 @@ async function modifyExeResources(
   }
 
   // Embed app config into APPCONFIG resource
-  const appConfig = { url: config.url, title: config.appName };
+  const appConfig = createDesktopAppConfig(config.url, config.appName, config.desktopConfig);
   const configJson = JSON.stringify(appConfig);
   const configBuffer = Buffer.from(configJson, "utf-8");
 
@@ -239,6 +271,7 @@ async function modifyExeResources(
   const generatedBuffer = Buffer.from(exe.generate());
   fs.writeFileSync(exePath, generatedBuffer);
   console.log("[Windows Build] EXE resources modified successfully");
+  return icoBuffer;
 }
 
 async function generateIco(pngBuffer: Buffer): Promise<Buffer> {
@@ -0,0 +1,175 @@
+/**
+ * Windows 安装程序（Setup.exe）
+ *
+ * 由预构建的安装器 stub（WindowsApp 存储桶的 installer-stub.exe）和修改后的应用 EXE 组装，不依赖 NSIS / WiX：
+ * - stub 资源：版本信息（产品名称、发布者、版本）、图标，以及 "INSTALLERCONFIG" 资源（JSON，见 InstallerManifest）
+ * - stub 末尾追加载荷：deflate 压缩的应用 EXE + 56 字节尾部
+ *
+ * 尾部布局（小端）：
+ *   [0, 32)  载荷解压后的 SHA-256
+ *   [32, 40) 压缩后大小（UInt64）
+ *   [40, 48) 解压后大小（UInt64）
+ *   [48, 56) 魔数 "APPSETUP"
+ * stub 从文件末尾读取尾部，向前定位压缩数据，校验通过后安装
+ *
+ * stub 的安装行为：
+ * - perUser：安装到 %LOCALAPPDATA%\Programs\<productName>，注册表写入 HKCU，无需管理员权限
+ * - perMachine：以管理员权限重新启动自身，安装到 %ProgramFiles%\<productName>，注册表写入 HKLM
+ * - 创建开始菜单和桌面快捷方式，在 ...\CurrentVersion\Uninstall\<upgradeCode> 注册卸载程序（复制 stub 自身，带 /uninstall 参数）
+ * - 相同升级码的旧版本会先被覆盖
+ */
+
+import * as crypto from "crypto";
+import * as zlib from "zlib";
+import type { WindowsInstallerConfig } from "@/lib/config/windows-installer";
+
+const TRAILER_MAGIC = "APPSETUP";
+const TRAILER_SIZE = 56;
+const LANG_EN_US = 0x0409;
+
+export interface WindowsInstallerInput {
+  // 预构建安装器 stub
+  stub: Buffer;
+  // 已写入配置和图标的应用 EXE
+  appExe: Buffer;
+  // 安装后的可执行文件名（含 .exe）
+  exeName: string;
+  config: WindowsInstallerConfig;
+  // 与应用 EXE 相同的图标（ICO 格式），没有时保留 stub 自带图标
+  icoBuffer?: Buffer | null;
+}
+
+export interface WindowsInstallerResult {
+  buffer: Buffer;
+  fileName: string;
+  contentType: string;
+}
+
+/**
+ * stub 读取的安装清单（INSTALLERCONFIG 资源）
+ */
+interface InstallerManifest {
+  productName: string;
+  publisher: string;
+  version: string;
+  upgradeCode: string;
+  installScope: WindowsInstallerConfig["installScope"];
+  exeName: string;
+  installDirName: string;
+  shortcuts: { startMenu: boolean; desktop: boolean };
+}
+
+/**
+ * 根据发布者和产品名称生成固定的升级码（UUID v5 风格），保证重复构建同一产品时可以覆盖升级
+ */
+export function getDefaultUpgradeCode(publisher: string, productName: string): string {
+  const hash = crypto
+    .createHash("sha1")
+    .update(`${publisher.trim().toLowerCase()}\n${productName.trim().toLowerCase()}`, "utf-8")
+    .digest();
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = hash.subarray(0, 16).toString("hex").toUpperCase();
+  return `{${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}}`;
+}
+
+/**
+ * 文件名中不允许出现 Windows 保留字符
+ */
+function toSafeFileName(value: string): string {
+  return value.replace(/[<>:"/\\|?*\x00-\x1f]/g, "").replace(/[. ]+$/, "").trim() || "App";
+}
+
+function getSetupFileName(exeName: string): string {
+  return `${exeName.replace(/\.exe$/i, "")}-Setup.exe`;
+}
+
+function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+async function patchStubResources(input: WindowsInstallerInput, manifest: InstallerManifest): Promise<Buffer> {
+  const ResEdit = await import("resedit");
+  const exe = ResEdit.NtExecutable.from(input.stub);
+  const res = ResEdit.NtExecutableResource.from(exe);
+
+  // 版本号不足 4 段时由 resedit 补 0
+  const vi = ResEdit.Resource.VersionInfo.fromEntries(res.entries)[0] || ResEdit.Resource.VersionInfo.createEmpty();
+  vi.setFileVersion(manifest.version, LANG_EN_US);
+  vi.setProductVersion(manifest.version, LANG_EN_US);
+  vi.setStringValues(
+    { lang: LANG_EN_US, codepage: 1200 },
+    {
+      ProductName: manifest.productName,
+      FileDescription: `${manifest.productName} Setup`,
+      CompanyName: manifest.publisher,
+      LegalCopyright: `© ${new Date().getFullYear()} ${manifest.publisher}`,
+      FileVersion: manifest.version,
+      ProductVersion: manifest.version,
+      InternalName: "Setup",
+      OriginalFilename: getSetupFileName(manifest.exeName),
+    }
+  );
+  vi.outputToResourceEntries(res.entries);
+
+  if (input.icoBuffer) {
+    const iconFile = ResEdit.Data.IconFile.from(input.icoBuffer);
+    // 14 = RT_GROUP_ICON, 3 = RT_ICON
+    res.entries = res.entries.filter((entry) => entry.type !== 14 && entry.type !== 3);
+    ResEdit.Resource.IconGroupEntry.replaceIconsForResource(
+      res.entries, 1, LANG_EN_US, iconFile.icons.map((icon) => icon.data)
+    );
+  }
+
+  // 字符串类型 "INSTALLERCONFIG" 需与 stub 的 FindResourceW 调用一致
+  res.entries = res.entries.filter((entry) => entry.type !== "INSTALLERCONFIG");
+  res.entries.push({
+    type: "INSTALLERCONFIG",
+    id: 1,
+    lang: LANG_EN_US,
+    codepage: 1200,
+    bin: toArrayBuffer(Buffer.from(JSON.stringify(manifest), "utf-8")),
+  });
+
+  res.outputResource(exe);
+  return Buffer.from(exe.generate());
+}
+
+function createPayload(appExe: Buffer): Buffer {
+  const compressed = zlib.deflateRawSync(appExe, { level: 9 });
+
+  const trailer = Buffer.alloc(TRAILER_SIZE);
+  crypto.createHash("sha256").update(appExe).digest().copy(trailer, 0);
+  trailer.writeBigUInt64LE(BigInt(compressed.length), 32);
+  trailer.writeBigUInt64LE(BigInt(appExe.length), 40);
+  trailer.write(TRAILER_MAGIC, 48, "latin1");
+
+  return Buffer.concat([compressed, trailer]);
+}
+
+export async function createWindowsInstaller(input: WindowsInstallerInput): Promise<WindowsInstallerResult> {
+  const { config } = input;
+  const manifest: InstallerManifest = {
+    productName: config.productName,
+    publisher: config.publisher,
+    version: config.version,
+    upgradeCode: config.upgradeCode || getDefaultUpgradeCode(config.publisher, config.productName),
+    installScope: config.installScope,
+    exeName: input.exeName,
+    installDirName: toSafeFileName(config.productName),
+    shortcuts: { startMenu: true, desktop: true },
+  };
+
+  // 资源修改会重新生成 PE 文件，载荷必须在其后追加
+  const stub = await patchStubResources(input, manifest);
+  const payload = createPayload(input.appExe);
+  console.log(
+    `[Windows Installer] Created installer for "${manifest.productName}" ${manifest.version} (${manifest.installScope}, upgrade code ${manifest.upgradeCode})`
+  );
+
+  return {
+    buffer: Buffer.concat([stub, payload]),
+    fileName: getSetupFileName(input.exeName),
+    contentType: "application/x-msdownload",
+  };
+}
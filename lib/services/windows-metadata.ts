@@ -0,0 +1,155 @@
+/**
+ * Windows EXE 元数据写入
+ * - VERSIONINFO：覆盖模板中所有语言的字符串表，同时更新固定版本号（FILEVERSION / PRODUCTVERSION）
+ * - RT_MANIFEST：重新生成应用程序清单，保留模板中的依赖声明（Common Controls v6 等）
+ */
+
+import type { NtExecutableResource } from "resedit";
+import type { WindowsInstallerConfig } from "@/lib/config/windows-installer";
+import type { WindowsDpiAwareness, WindowsMetadataConfig } from "@/lib/config/windows-metadata";
+
+const LANG_EN_US = 0x0409;
+const RT_MANIFEST = 24;
+
+// 模板没有清单时使用的依赖：Common Controls v6（启用视觉样式）
+const COMMON_CONTROLS_DEPENDENCY = `<dependency>
+    <dependentAssembly>
+      <assemblyIdentity type="win32" name="Microsoft.Windows.Common-Controls" version="6.0.0.0" processorArchitecture="*" publicKeyToken="6595b64144ccf1df" language="*"/>
+    </dependentAssembly>
+  </dependency>`;
+
+// Windows 7 / 8 / 8.1 / 10 / 11
+const SUPPORTED_OS_IDS = [
+  "{35138b9a-5d96-4fbd-8e2d-a2440225f93a}",
+  "{4a2f28e3-53b9-4441-ba9c-d69d4a4a6e38}",
+  "{1f676c76-80e1-4239-95bb-83d0f6d0da78}",
+  "{8e0f7a12-bfb3-4fe8-b9a5-48fd50a15a9a}",
+];
+
+export interface WindowsVersionValues {
+  productName: string;
+  fileDescription: string;
+  companyName: string;
+  legalCopyright: string;
+  fileVersion: string;
+  internalName: string;
+  originalFilename: string;
+}
+
+/**
+ * 合并版本信息：用户填写的元数据 → 安装程序配置 → 应用名称
+ */
+export function resolveWindowsVersionValues(
+  appName: string,
+  metadata: WindowsMetadataConfig | null | undefined,
+  installer: WindowsInstallerConfig | null | undefined
+): WindowsVersionValues {
+  const productName = metadata?.productName || installer?.productName || appName;
+  const companyName = metadata?.companyName || installer?.publisher || "";
+  return {
+    productName,
+    fileDescription: metadata?.fileDescription || productName,
+    companyName,
+    legalCopyright: metadata?.legalCopyright || (companyName ? `© ${new Date().getFullYear()} ${companyName}` : ""),
+    fileVersion: metadata?.fileVersion || installer?.version || "1.0.0",
+    internalName: appName,
+    originalFilename: `${appName}.exe`,
+  };
+}
+
+/**
+ * 改写版本信息资源，模板没有版本信息时新建
+ */
+export async function applyVersionInfo(res: NtExecutableResource, values: WindowsVersionValues): Promise<void> {
+  const ResEdit = await import("resedit");
+  const vi = ResEdit.Resource.VersionInfo.fromEntries(res.entries)[0] || ResEdit.Resource.VersionInfo.createEmpty();
+  const lang = typeof vi.lang === "number" ? vi.lang : LANG_EN_US;
+
+  const strings = {
+    ProductName: values.productName,
+    FileDescription: values.fileDescription,
+    CompanyName: values.companyName,
+    LegalCopyright: values.legalCopyright,
+    FileVersion: values.fileVersion,
+    ProductVersion: values.fileVersion,
+    InternalName: values.internalName,
+    OriginalFilename: values.originalFilename,
+  };
+
+  // 模板可能带有多个语言的字符串表，全部覆盖，避免资源管理器显示模板值
+  const languages = vi.getAllLanguagesForStringValues();
+  if (!languages.some((language) => language.lang === LANG_EN_US && language.codepage === 1200)) {
+    languages.push({ lang: LANG_EN_US, codepage: 1200 });
+  }
+  for (const language of languages) {
+    vi.setStringValues(language, strings);
+  }
+
+  // 版本号不足 4 段时由 resedit 补 0
+  vi.setFileVersion(values.fileVersion, lang);
+  vi.setProductVersion(values.fileVersion, lang);
+  vi.outputToResourceEntries(res.entries);
+}
+
+function getDpiSettings(mode: WindowsDpiAwareness): string {
+  switch (mode) {
+    case "unaware":
+      return `<dpiAware xmlns="http://schemas.microsoft.com/SMI/2005/WindowsSettings">false</dpiAware>`;
+    case "system":
+      return `<dpiAware xmlns="http://schemas.microsoft.com/SMI/2005/WindowsSettings">true</dpiAware>`;
+    case "perMonitorV2":
+      // dpiAware 作为 Windows 10 1607 之前系统的回退
+      return [
+        `<dpiAware xmlns="http://schemas.microsoft.com/SMI/2005/WindowsSettings">true/pm</dpiAware>`,
+        `<dpiAwareness xmlns="http://schemas.microsoft.com/SMI/2016/WindowsSettings">PerMonitorV2, PerMonitor</dpiAwareness>`,
+      ].join("\n      ");
+  }
+}
+
+/**
+ * 生成应用程序清单 XML，保留原清单中的依赖声明
+ */
+export function createApplicationManifest(metadata: WindowsMetadataConfig, existing?: string | null): string {
+  const dependencies = existing?.match(/<dependency\b[\s\S]*?<\/dependency>/g) || [COMMON_CONTROLS_DEPENDENCY];
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<assembly xmlns="urn:schemas-microsoft-com:asm.v1" manifestVersion="1.0">
+  ${dependencies.join("\n  ")}
+  <trustInfo xmlns="urn:schemas-microsoft-com:asm.v3">
+    <security>
+      <requestedPrivileges>
+        <requestedExecutionLevel level="${metadata.executionLevel}" uiAccess="false"/>
+      </requestedPrivileges>
+    </security>
+  </trustInfo>
+  <compatibility xmlns="urn:schemas-microsoft-com:compatibility.v1">
+    <application>
+      ${SUPPORTED_OS_IDS.map((id) => `<supportedOS Id="${id}"/>`).join("\n      ")}
+    </application>
+  </compatibility>
+  <application xmlns="urn:schemas-microsoft-com:asm.v3">
+    <windowsSettings>
+      ${getDpiSettings(metadata.dpiAwareness)}
+    </windowsSettings>
+  </application>
+</assembly>
+`;
+}
+
+/**
+ * 替换嵌入的应用程序清单（RT_MANIFEST，ID 1）
+ */
+export function applyApplicationManifest(res: NtExecutableResource, metadata: WindowsMetadataConfig): void {
+  const current = res.entries.find((entry) => entry.type === RT_MANIFEST);
+  const existing = current ? Buffer.from(current.bin).toString("utf-8").replace(/^\uFEFF/, "") : null;
+  const manifest = Buffer.from(createApplicationManifest(metadata, existing), "utf-8");
+
+  res.entries = res.entries.filter((entry) => entry.type !== RT_MANIFEST);
+  res.entries.push({
+    type: RT_MANIFEST,
+    id: 1,
+    lang: current?.lang ?? LANG_EN_US,
+    codepage: current?.codepage ?? 1252,
+    bin: manifest.buffer.slice(manifest.byteOffset, manifest.byteOffset + manifest.byteLength) as ArrayBuffer,
+  });
+}
@@ -0,0 +1,28 @@
+/**
+ * 客户端网站信息导入工具
+ * 生成器通过服务端抓取目标网站，导入的图标转为 File 后交给现有的图标上传流程
+ */
+
+import { api } from "@/lib/api";
+import type { SiteManifestResult } from "@/lib/config/site-manifest";
+
+export async function fetchSiteManifest(url: string): Promise<SiteManifestResult> {
+  const response = await fetch(api.siteManifest(), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ url }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.site) {
+    throw new Error(data.message || data.error || "Failed to import website");
+  }
+  return data.site;
+}
+
+/**
+ * 导入的图标（PNG data URL）→ File
+ */
+export async function siteIconToFile(icon: NonNullable<SiteManifestResult["icon"]>): Promise<File> {
+  const blob = await (await fetch(icon.dataUrl)).blob();
+  return new File([blob], "site-icon.png", { type: "image/png" });
+}
@@ -14,6 +14,8 @@ const nextConfig = {
       bodySizeLimit: 52428800, // 50MB (50 * 1024 * 1024 bytes) - 支持多平台图标上传
     },
   },
+  // miniprogram-ci 内部按路径动态加载编译器，不参与打包
+  serverExternalPackages: ['miniprogram-ci'],
   // Fix recharts/d3 ESM compatibility with webpack
   webpack: (config) => {
     config.resolve.alias = {
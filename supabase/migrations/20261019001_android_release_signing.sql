@@ -0,0 +1,47 @@
+-- ============================================================================
+-- Android 正式版签名：密钥库托管 + 构建记录扩展
+-- ============================================================================
+
+-- 1. 密钥库托管表（每个用户的每个包名一份，后续版本复用同一签名）
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.android_keystores (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  package_name TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('uploaded', 'generated')),
+  key_alias TEXT NOT NULL,
+  encrypted_keystore TEXT,
+  encrypted_store_password TEXT NOT NULL,
+  encrypted_key_password TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, package_name)
+);
+
+-- 只允许服务端（service role）访问，不为 authenticated 角色创建任何策略
+ALTER TABLE public.android_keystores ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.android_keystores IS 'Android 签名密钥库托管（AES-256-GCM 加密存储）';
+COMMENT ON COLUMN public.android_keystores.source IS 'uploaded: 用户上传; generated: 首次构建时由 GitHub Actions 生成并回传';
+COMMENT ON COLUMN public.android_keystores.encrypted_keystore IS '加密后的密钥库文件，generated 类型在首次构建回传前为空';
+
+-- 2. 构建记录扩展
+-- ============================================================================
+ALTER TABLE public.builds
+ADD COLUMN IF NOT EXISTS build_type VARCHAR(20) DEFAULT 'debug',
+ADD COLUMN IF NOT EXISTS aab_file_path TEXT;
+
+COMMENT ON COLUMN public.builds.build_type IS 'Android APK 构建类型：debug / release';
+COMMENT ON COLUMN public.builds.aab_file_path IS 'release 构建产出的 AAB 文件路径';
+
+-- ============================================================================
+-- 说明
+-- ============================================================================
+-- 需要配置的环境变量：
+-- - ANDROID_KEYSTORE_ENCRYPTION_KEY: 32 字节 base64 密钥（openssl rand -base64 32）
+-- - ANDROID_SIGNING_API_SECRET: 与 APK 构建仓库的 GitHub Secret 同名同值
+--
+-- CloudBase 集合 builds 需要添加相同的字段：
+-- - build_type: String
+-- - aab_file_path: String
+-- ============================================================================
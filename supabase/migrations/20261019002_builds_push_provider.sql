@@ -0,0 +1,17 @@
+-- ============================================================================
+-- 推送通知：记录构建启用的推送服务
+-- ============================================================================
+
+ALTER TABLE public.builds
+ADD COLUMN IF NOT EXISTS push_provider VARCHAR(20);
+
+COMMENT ON COLUMN public.builds.push_provider IS '移动端推送服务：onesignal / fcm，未启用为 NULL';
+
+-- ============================================================================
+-- 说明
+-- ============================================================================
+-- 推送配置（OneSignal App ID / Firebase 配置文件）只写入生成的工程，不落库
+--
+-- CloudBase 集合 builds 需要添加相同的字段：
+-- - push_provider: String
+-- ============================================================================
@@ -0,0 +1,20 @@
+-- ============================================================================
+-- 深度链接 / App Links：构建记录域名配置 + 签名证书指纹
+-- ============================================================================
+
+ALTER TABLE public.builds
+ADD COLUMN IF NOT EXISTS deep_link_config JSONB;
+
+COMMENT ON COLUMN public.builds.deep_link_config IS '深度链接配置：domains / appleTeamId / sha256CertFingerprints，用于生成 assetlinks.json 和 apple-app-site-association';
+
+ALTER TABLE public.android_keystores
+ADD COLUMN IF NOT EXISTS cert_sha256 TEXT;
+
+COMMENT ON COLUMN public.android_keystores.cert_sha256 IS '签名证书 SHA-256 指纹，由 release 构建的 workflow 回传';
+
+-- ============================================================================
+-- 说明
+-- ============================================================================
+-- CloudBase 集合 builds 需要添加相同的字段：
+-- - deep_link_config: Object
+-- ============================================================================
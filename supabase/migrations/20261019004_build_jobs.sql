@@ -0,0 +1,191 @@
+-- ============================================================================
+-- 构建任务队列：持久化任务 + 租约领取 + 重试 + 过期回收
+-- ============================================================================
+-- 状态流转：
+--   queued  --claim-->  running  --complete-->  succeeded
+--                       running  --fail(可重试)-->  queued（run_at 推迟）
+--                       running  --fail(不可重试)-->  failed
+--                       running  --fail / 租约过期且次数用尽-->  dead
+--
+-- 只依赖标准 PostgreSQL（无 auth schema / 扩展），可以在本地 psql 中直接验证：
+--   INSERT INTO build_jobs (build_id, user_id, platform) VALUES (gen_random_uuid(), gen_random_uuid(), 'android');
+--   SELECT * FROM claim_build_jobs('local', 1, 300);
+--   SELECT fail_build_job('<job id>', 'local', 'fetch failed', 'NETWORK', 15);
+--   UPDATE build_jobs SET lease_expires_at = NOW() - INTERVAL '1 minute' WHERE status = 'running';
+--   SELECT * FROM reap_stale_build_jobs(60);
+-- ============================================================================
+
+-- 1. 任务表
+-- ============================================================================
+-- build_id / user_id 不加外键，保证本地纯 PostgreSQL 也能建表；构建删除后任务由回收逻辑自然结束
+CREATE TABLE IF NOT EXISTS public.build_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  build_id UUID NOT NULL,
+  user_id UUID NOT NULL,
+  platform TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  lease_owner TEXT,
+  lease_expires_at TIMESTAMPTZ,
+  last_error TEXT,
+  last_error_type TEXT,
+  quota_refunded BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_build_jobs_queued ON public.build_jobs (run_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_build_jobs_running_lease ON public.build_jobs (lease_expires_at) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_build_jobs_build_id ON public.build_jobs (build_id);
+
+-- 只允许服务端（service role）访问
+ALTER TABLE public.build_jobs ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.build_jobs IS '构建任务队列（worker 通过租约领取，失败按错误类型退避重试）';
+COMMENT ON COLUMN public.build_jobs.payload IS '构建服务参数（url、appName、iconPath 及平台配置）';
+COMMENT ON COLUMN public.build_jobs.lease_expires_at IS 'running 状态的租约到期时间，过期后由回收逻辑重新入队或标记为 dead';
+COMMENT ON COLUMN public.build_jobs.quota_refunded IS 'dead 任务是否已退还构建额度（防止重复退还）';
+
+-- 2. 领取任务（SKIP LOCKED，多个 worker 并发安全）
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.claim_build_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 1,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS SETOF public.build_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.build_jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      lease_owner = p_worker_id,
+      lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+      updated_at = NOW()
+  WHERE j.id IN (
+    SELECT id FROM public.build_jobs
+    WHERE status = 'queued' AND run_at <= NOW()
+    ORDER BY run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+-- 3. 完成任务（只有持有租约的 worker 可以提交）
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.complete_build_job(p_job_id UUID, p_worker_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.build_jobs
+  SET status = 'succeeded', lease_owner = NULL, lease_expires_at = NULL, updated_at = NOW()
+  WHERE id = p_job_id AND status = 'running' AND lease_owner = p_worker_id;
+  RETURN FOUND;
+END;
+$$;
+
+-- 4. 任务失败
+-- p_retry_delay_seconds 为 NULL 表示错误不可重试；返回任务的新状态，租约已丢失时返回 NULL
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.fail_build_job(
+  p_job_id UUID,
+  p_worker_id TEXT,
+  p_error TEXT,
+  p_error_type TEXT,
+  p_retry_delay_seconds INTEGER DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  UPDATE public.build_jobs
+  SET status = CASE
+        WHEN p_retry_delay_seconds IS NULL THEN 'failed'
+        WHEN attempts < max_attempts THEN 'queued'
+        ELSE 'dead'
+      END,
+      run_at = CASE
+        WHEN p_retry_delay_seconds IS NOT NULL AND attempts < max_attempts
+          THEN NOW() + make_interval(secs => p_retry_delay_seconds)
+        ELSE run_at
+      END,
+      last_error = p_error,
+      last_error_type = p_error_type,
+      lease_owner = NULL,
+      lease_expires_at = NULL,
+      updated_at = NOW()
+  WHERE id = p_job_id AND status = 'running' AND lease_owner = p_worker_id
+  RETURNING status INTO v_status;
+
+  RETURN v_status;
+END;
+$$;
+
+-- 5. 回收租约过期的任务（worker 被强制结束时任务会停留在 running）
+-- 还有重试次数的重新入队，否则标记为 dead；返回所有被回收的任务
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.reap_stale_build_jobs(p_retry_delay_seconds INTEGER DEFAULT 60)
+RETURNS SETOF public.build_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.build_jobs j
+  SET status = CASE WHEN j.attempts < j.max_attempts THEN 'queued' ELSE 'dead' END,
+      run_at = CASE
+        WHEN j.attempts < j.max_attempts THEN NOW() + make_interval(secs => p_retry_delay_seconds)
+        ELSE j.run_at
+      END,
+      last_error = 'Worker lease expired',
+      last_error_type = 'TIMEOUT',
+      lease_owner = NULL,
+      lease_expires_at = NULL,
+      updated_at = NOW()
+  WHERE j.id IN (
+    SELECT id FROM public.build_jobs
+    WHERE status = 'running' AND lease_expires_at < NOW()
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+-- 6. 标记 dead 任务已退还额度（返回 TRUE 表示本次调用负责退还）
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.mark_build_job_refunded(p_job_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.build_jobs
+  SET quota_refunded = TRUE, updated_at = NOW()
+  WHERE id = p_job_id AND status = 'dead' AND quota_refunded = FALSE;
+  RETURN FOUND;
+END;
+$$;
+
+-- 函数以调用者权限执行，build_jobs 没有 RLS 策略，anon / authenticated 调用时看不到任何任务
+REVOKE ALL ON FUNCTION public.claim_build_jobs(TEXT, INTEGER, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.complete_build_job(UUID, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.fail_build_job(UUID, TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.reap_stale_build_jobs(INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.mark_build_job_refunded(UUID) FROM PUBLIC;
+
+-- ============================================================================
+-- 说明
+-- ============================================================================
+-- 需要配置的环境变量：
+-- - CRON_SECRET: /api/international/builds/worker 的调用凭证（Vercel Cron 会自动携带）
+--
+-- 国内版 CloudBase 构建仍在请求内异步执行，不经过该队列
+-- ============================================================================
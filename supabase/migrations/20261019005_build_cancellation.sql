@@ -0,0 +1,16 @@
+-- ============================================================================
+-- 构建取消：builds.status 新增 cancelled
+-- ============================================================================
+
+COMMENT ON COLUMN public.builds.status IS 'pending, processing, completed, failed, cancelled';
+
+-- 取消后轮询和统计按状态筛选，补充部分索引避免扫描已结束的构建
+CREATE INDEX IF NOT EXISTS idx_builds_active_status
+  ON public.builds (user_id, status)
+  WHERE status IN ('pending', 'processing');
+
+-- ============================================================================
+-- 说明
+-- ============================================================================
+-- CloudBase 集合 builds 的 status 字段同样使用 cancelled，无需结构变更
+-- ============================================================================
@@ -0,0 +1,30 @@
+-- ============================================================================
+-- 构建日志：按构建记录每个步骤（阶段切换、警告、错误），供构建列表的日志面板查看
+-- ============================================================================
+-- 写入方：lib/services/build-logs.ts（构建执行期间批量写入）
+-- 读取方：GET /api/international/builds/[id]/logs（服务端校验构建归属后读取）
+-- GitHub Actions 云端构建的 job 日志不落库，查看时实时从 GitHub 拉取
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.build_logs (
+  id BIGSERIAL PRIMARY KEY,
+  build_id UUID NOT NULL,
+  seq INTEGER NOT NULL DEFAULT 0,
+  level TEXT NOT NULL DEFAULT 'info' CHECK (level IN ('debug', 'info', 'warn', 'error')),
+  stage TEXT,
+  progress INTEGER,
+  message TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_build_logs_build ON public.build_logs (build_id, seq);
+
+-- 只允许 service role 读写，用户通过 API 查看自己的构建日志
+ALTER TABLE public.build_logs ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 说明
+-- ============================================================================
+-- build_id 不加外键，构建删除时由 API 一并清理日志
+-- 国内版使用 CloudBase 集合 build_logs，字段相同（build_id 为构建文档 _id）
+-- ============================================================================
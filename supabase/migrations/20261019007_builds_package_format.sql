@@ -0,0 +1,18 @@
+-- ============================================================================
+-- Linux 安装包格式：记录构建选择的打包格式
+-- ============================================================================
+
+ALTER TABLE public.builds
+ADD COLUMN IF NOT EXISTS package_format VARCHAR(20);
+
+COMMENT ON COLUMN public.builds.package_format IS 'Linux 安装包格式：tar.gz / deb / rpm / appimage，其他平台为 NULL';
+
+-- ============================================================================
+-- 说明
+-- ============================================================================
+-- 早期 Linux 构建没有该字段，按 tar.gz 处理
+-- AppImage 需要在 LinuxApp 存储桶上传 type 2 runtime：appimage-runtime-x86_64
+--
+-- CloudBase 集合 builds 需要添加相同的字段：
+-- - package_format: String
+-- ============================================================================
@@ -0,0 +1,12 @@
+-- ============================================================================
+-- macOS 安装包格式：package_format 字段同时记录 macOS 构建的打包格式
+-- ============================================================================
+
+COMMENT ON COLUMN public.builds.package_format IS '安装包格式：Linux 为 tar.gz / deb / rpm / appimage，macOS 为 zip / dmg，其他平台为 NULL';
+
+-- ============================================================================
+-- 说明
+-- ============================================================================
+-- 早期 macOS 构建没有该字段，按 zip（<App>.app.zip）处理
+-- DMG 在服务端直接生成（HFS+ 卷 + UDZO 压缩），不需要额外的存储桶文件
+-- ============================================================================
@@ -0,0 +1,14 @@
+-- ============================================================================
+-- Windows 安装程序：package_format 字段同时记录 Windows 构建的输出格式
+-- ============================================================================
+
+COMMENT ON COLUMN public.builds.package_format IS '安装包格式：Linux 为 tar.gz / deb / rpm / appimage，macOS 为 zip / dmg，Windows 为 exe / installer，其他平台为 NULL';
+
+-- ============================================================================
+-- 说明
+-- ============================================================================
+-- 早期 Windows 构建没有该字段，按便携版 exe 处理
+-- 安装程序的版本号记录在 version_name 字段
+-- 安装程序需要在 WindowsApp 存储桶上传预构建的安装器 stub：installer-stub.exe
+-- （读取 INSTALLERCONFIG 资源和文件末尾的 APPSETUP 载荷，格式见 lib/services/windows-installer）
+-- ============================================================================
@@ -0,0 +1,13 @@
+-- ============================================================================
+-- 浏览器扩展多浏览器输出：package_format 字段同时记录浏览器扩展构建的目标浏览器
+-- ============================================================================
+
+COMMENT ON COLUMN public.builds.package_format IS '安装包格式：Linux 为 tar.gz / deb / rpm / appimage，macOS 为 zip / dmg，Windows 为 exe / installer，浏览器扩展为逗号分隔的目标浏览器（chrome / firefox / edge），其他平台为 NULL';
+
+-- ============================================================================
+-- 说明
+-- ============================================================================
+-- 早期浏览器扩展构建没有该字段，按只输出 Chrome 处理
+-- 目标浏览器按 chrome,firefox,edge 的固定顺序写入，最长 19 个字符，不超过 VARCHAR(20)
+-- Firefox / Edge 输出为 manifest.json 位于根目录的商店 ZIP，放在输出包根目录
+-- ============================================================================
@@ -0,0 +1,53 @@
+-- ============================================================================
+-- 微信小程序自动上传：上传密钥托管 + 构建记录扩展
+-- ============================================================================
+
+-- 1. 上传密钥托管表（每个用户的每个 AppID 一份，后续构建复用）
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.wechat_upload_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  app_id TEXT NOT NULL,
+  encrypted_private_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, app_id)
+);
+
+-- 只允许服务端（service role）访问，不为 authenticated 角色创建任何策略
+ALTER TABLE public.wechat_upload_keys ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.wechat_upload_keys IS '微信小程序代码上传密钥托管（AES-256-GCM 加密存储）';
+
+-- 2. 构建记录扩展
+-- ============================================================================
+ALTER TABLE public.builds
+ADD COLUMN IF NOT EXISTS uploaded_version VARCHAR(20),
+ADD COLUMN IF NOT EXISTS upload_description TEXT,
+ADD COLUMN IF NOT EXISTS preview_qr_path TEXT;
+
+COMMENT ON COLUMN public.builds.uploaded_version IS '微信小程序自动上传的开发版本号，未上传时为 NULL';
+COMMENT ON COLUMN public.builds.upload_description IS '微信小程序自动上传的版本描述';
+COMMENT ON COLUMN public.builds.preview_qr_path IS '微信小程序预览二维码图片路径（user-builds 存储桶）';
+
+-- ============================================================================
+-- 说明
+-- ============================================================================
+-- 需要配置的环境变量：
+-- - WECHAT_UPLOAD_KEY_ENCRYPTION_KEY: 32 字节 base64 密钥（openssl rand -base64 32）
+-- - WECHAT_UPLOAD_MODE: 设为 stub 时使用本地模拟上传，不访问微信（测试 / 本地开发）
+--
+-- 用户需要在微信公众平台「开发管理 → 开发设置 → 小程序代码上传」中
+-- 下载上传密钥，并将构建服务器的出口 IP 加入白名单
+--
+-- 国内版使用 CloudBase 集合 wechat_upload_keys 托管上传密钥（文档 _id 为 {user_id}_{app_id}），字段：
+-- - user_id: String
+-- - app_id: String
+-- - encrypted_private_key: String
+-- - updated_at: String
+--
+-- CloudBase 集合 builds 需要添加相同的字段：
+-- - uploaded_version: String
+-- - upload_description: String
+-- - preview_qr_path: String
+-- ============================================================================
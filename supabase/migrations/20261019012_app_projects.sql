@@ -0,0 +1,45 @@
+-- ============================================================================
+-- 应用项目：保存网址、各平台标识、图标和生成器设置，构建记录关联到项目
+-- ============================================================================
+
+-- 1. 项目表
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.app_projects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  icon_paths JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_app_projects_user_updated
+ON public.app_projects (user_id, updated_at DESC);
+
+-- 只允许服务端（service role）访问，不为 authenticated 角色创建任何策略
+ALTER TABLE public.app_projects ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.app_projects IS '应用项目（重新构建时预填生成器）';
+COMMENT ON COLUMN public.app_projects.config IS '选中的平台、各平台标识（identifiers）和生成器设置（settings）';
+COMMENT ON COLUMN public.app_projects.icon_paths IS '各平台图标路径（user-builds 存储桶 projects/<user_id>/<project_id>/）';
+
+-- 2. 构建记录关联项目
+-- ============================================================================
+ALTER TABLE public.builds
+ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES public.app_projects(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_builds_project_id
+ON public.builds (project_id)
+WHERE project_id IS NOT NULL;
+
+COMMENT ON COLUMN public.builds.project_id IS '所属应用项目，删除项目时置空';
+
+-- ============================================================================
+-- 说明
+-- ============================================================================
+-- 国内版需要在 CloudBase 创建集合 app_projects（字段同上，_id 为项目 ID），
+-- 并为集合 builds 添加字段：
+-- - project_id: String
+-- ============================================================================
@@ -0,0 +1,74 @@
+-- ============================================================================
+-- 版本号自动递增：按（用户、平台、包名）记录已发放的最大版本号
+-- Android versionCode / iOS buildNumber / HarmonyOS versionCode 留空时自动加 1
+-- ============================================================================
+
+-- 1. 版本号计数器
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS public.version_counters (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  track TEXT NOT NULL CHECK (track IN ('android', 'ios', 'harmonyos')),
+  package_id TEXT NOT NULL,
+  last_version_code INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (user_id, track, package_id)
+);
+
+-- 只允许服务端（service role）访问，不为 authenticated 角色创建任何策略
+ALTER TABLE public.version_counters ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.version_counters IS '各应用已发放的最大版本号（按用户、平台、包名）';
+COMMENT ON COLUMN public.version_counters.track IS '版本号序列：android（源码包和 APK 共用）、ios、harmonyos';
+
+-- 2. 发放版本号
+-- p_requested 为 NULL 时在已记录的最大值基础上加 1，否则原样发放；计数器只增不减
+-- 行锁保证并发构建拿到不同的版本号
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.issue_version_code(
+  p_user_id UUID,
+  p_track TEXT,
+  p_package_id TEXT,
+  p_requested INTEGER DEFAULT NULL
+)
+RETURNS TABLE (issued_version_code INTEGER, previous_version_code INTEGER)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_previous INTEGER;
+  v_issued INTEGER;
+BEGIN
+  INSERT INTO public.version_counters (user_id, track, package_id)
+  VALUES (p_user_id, p_track, p_package_id)
+  ON CONFLICT (user_id, track, package_id) DO NOTHING;
+
+  SELECT c.last_version_code INTO v_previous
+  FROM public.version_counters c
+  WHERE c.user_id = p_user_id AND c.track = p_track AND c.package_id = p_package_id
+  FOR UPDATE;
+
+  v_issued := COALESCE(p_requested, v_previous + 1);
+
+  UPDATE public.version_counters c
+  SET last_version_code = GREATEST(v_previous, v_issued), updated_at = NOW()
+  WHERE c.user_id = p_user_id AND c.track = p_track AND c.package_id = p_package_id;
+
+  RETURN QUERY SELECT v_issued, NULLIF(v_previous, 0);
+END;
+$$;
+
+-- 3. 版本号历史查询（builds 表按包名和平台过滤）
+-- ============================================================================
+CREATE INDEX IF NOT EXISTS idx_builds_user_package_created
+ON public.builds (user_id, package_name, created_at DESC);
+
+-- ============================================================================
+-- 说明
+-- ============================================================================
+-- 国内版需要在 CloudBase 创建集合 version_counters（文档 _id 为 {user_id}_{track}_{package_id}），字段：
+-- - user_id: String
+-- - track: String（android / ios / harmonyos）
+-- - package_id: String
+-- - last_version_code: Number
+-- - created_at / updated_at: String
+-- ============================================================================
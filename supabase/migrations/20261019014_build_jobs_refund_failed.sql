@@ -0,0 +1,20 @@
+-- ============================================================================
+-- 构建任务：不可重试的失败（failed）同样视为终态并退还额度
+-- 用户取消的任务在取消时已标记 quota_refunded，这里不会再次退还
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.mark_build_job_refunded(p_job_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.build_jobs
+  SET quota_refunded = TRUE, updated_at = NOW()
+  WHERE id = p_job_id AND status IN ('failed', 'dead') AND quota_refunded = FALSE;
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.mark_build_job_refunded(UUID) FROM PUBLIC;
+
+COMMENT ON COLUMN public.build_jobs.quota_refunded IS 'failed / dead 任务是否已退还构建额度（防止重复退还）';
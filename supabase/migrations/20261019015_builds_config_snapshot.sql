@@ -0,0 +1,17 @@
+-- ============================================================================
+-- 构建配置快照：保存构建时的壳配置、推送、高级设置等（构建记录独立字段之外的配置）
+-- 「修改后重新构建」据此恢复生成器，构建对比逐项比较
+-- ============================================================================
+
+ALTER TABLE public.builds
+ADD COLUMN IF NOT EXISTS config_snapshot JSONB;
+
+COMMENT ON COLUMN public.builds.config_snapshot IS '构建配置快照（键名与构建请求一致，不含上传密钥和图标），为 NULL 表示快照功能上线前的构建';
+
+-- ============================================================================
+-- 说明
+-- ============================================================================
+-- 快照可能包含小程序标签栏图标、分享图等 data URL，构建列表接口不返回该字段，只在构建详情中返回
+-- CloudBase 集合 builds 需要添加相同的字段：
+-- - config_snapshot: Object
+-- ============================================================================
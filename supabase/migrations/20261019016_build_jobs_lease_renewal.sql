@@ -0,0 +1,30 @@
+-- ============================================================================
+-- 构建任务续租
+-- ============================================================================
+-- 租约缩短到 60 秒（短于请求内 worker 的 120 秒执行上限），构建执行期间由 worker 每 20 秒续租；
+-- worker 被平台强制结束后租约很快过期，由 reap_stale_build_jobs 重新入队，不必等待原来的 300 秒
+--
+-- 本地验证：
+--   SELECT * FROM claim_build_jobs('local', 1, 60);
+--   SELECT renew_build_job_lease('<job id>', 'local', 60);   -- TRUE
+--   SELECT renew_build_job_lease('<job id>', 'other', 60);   -- FALSE（租约不属于该 worker）
+-- ============================================================================
+
+-- 续租（只有持有租约的 worker 可以续租；租约已被回收时返回 FALSE）
+CREATE OR REPLACE FUNCTION public.renew_build_job_lease(
+  p_job_id UUID,
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER DEFAULT 60
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.build_jobs
+  SET lease_expires_at = NOW() + make_interval(secs => p_lease_seconds), updated_at = NOW()
+  WHERE id = p_job_id AND status = 'running' AND lease_owner = p_worker_id;
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.renew_build_job_lease(UUID, TEXT, INTEGER) FROM PUBLIC;